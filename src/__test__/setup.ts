@@ -35,10 +35,55 @@ const electronAPIMock = {
   updateTask: vi.fn().mockResolvedValue({}),
   deleteTask: vi.fn().mockResolvedValue(undefined),
   getTasks: vi.fn().mockResolvedValue([]),
+  searchTasks: vi.fn().mockResolvedValue({ hits: [], total: 0 }),
+  getTaskHistory: vi.fn().mockResolvedValue([]),
+  restoreTaskRevision: vi.fn().mockResolvedValue({}),
+  undoTaskChange: vi.fn().mockResolvedValue({ success: false, error: 'Nothing to undo' }),
+  redoTaskChange: vi.fn().mockResolvedValue({ success: false, error: 'Nothing to redo' }),
+  getTaskUndoState: vi.fn().mockResolvedValue({ canUndo: false, canRedo: false }),
+  getTrash: vi.fn().mockResolvedValue([]),
+  restoreFromTrash: vi.fn().mockResolvedValue({ success: true }),
+  purgeTrash: vi.fn().mockResolvedValue(0),
   getTask: vi.fn().mockResolvedValue({}),
   getTaskStats: vi.fn().mockResolvedValue({}),
+  getTaskAnalytics: vi.fn().mockResolvedValue({ success: true }),
   archiveTask: vi.fn().mockResolvedValue(undefined),
   bulkUpdateTaskStatus: vi.fn().mockResolvedValue([]),
+  bulkUpdateTasks: vi.fn().mockResolvedValue({ success: true, data: [] }),
+  duplicateTask: vi.fn().mockResolvedValue({ success: true }),
+  reviewTask: vi.fn().mockResolvedValue({ success: true }),
+  convertReminderToTask: vi.fn().mockResolvedValue({ success: true }),
+  convertTaskToReminder: vi.fn().mockResolvedValue({ success: true }),
+  getTaskTemplates: vi.fn().mockResolvedValue({ success: true, data: [] }),
+  saveTaskTemplate: vi.fn().mockResolvedValue({ success: true }),
+  deleteTaskTemplate: vi.fn().mockResolvedValue({ success: true }),
+  createTaskFromTemplate: vi.fn().mockResolvedValue({ success: true }),
+  getTaskWorkflow: vi.fn().mockResolvedValue({ success: true, data: { statuses: [], rules: [] } }),
+  saveTaskWorkflow: vi.fn().mockResolvedValue({ success: true }),
+  getAutomationRules: vi.fn().mockResolvedValue({ success: true, data: [] }),
+  saveAutomationRule: vi.fn().mockResolvedValue({ success: true }),
+  deleteAutomationRule: vi.fn().mockResolvedValue({ success: true }),
+  getAutomationRuns: vi.fn().mockResolvedValue({ success: true, data: [] }),
+  getTaskPolicies: vi.fn().mockResolvedValue({ success: true, data: [] }),
+  getTaskPolicy: vi.fn().mockResolvedValue({ success: true }),
+  saveTaskPolicy: vi.fn().mockResolvedValue({ success: true }),
+  actOnTasks: vi.fn().mockResolvedValue({ success: true, data: [] }),
+  getTaskEvents: vi.fn().mockResolvedValue({ success: true, data: [] }),
+  getWebhooks: vi.fn().mockResolvedValue({ success: true, data: [] }),
+  saveWebhook: vi.fn().mockResolvedValue({ success: true }),
+  deleteWebhook: vi.fn().mockResolvedValue({ success: true }),
+  getWebhookDeliveries: vi.fn().mockResolvedValue({ success: true, data: [] }),
+  redeliverWebhook: vi.fn().mockResolvedValue({ success: true }),
+  discardWebhookDelivery: vi.fn().mockResolvedValue({ success: true }),
+  getApiTokens: vi.fn().mockResolvedValue({ success: true, data: [] }),
+  createApiToken: vi.fn().mockResolvedValue({ success: true }),
+  revokeApiToken: vi.fn().mockResolvedValue({ success: true }),
+  startTaskTimer: vi.fn().mockResolvedValue({ success: true }),
+  stopTaskTimer: vi.fn().mockResolvedValue({ success: true, data: null }),
+  logTaskTime: vi.fn().mockResolvedValue({ success: true }),
+  getTaskTimeEntries: vi.fn().mockResolvedValue({ success: true, data: [] }),
+  deleteTaskTimeEntry: vi.fn().mockResolvedValue({ success: true }),
+  getTaskTimeSummary: vi.fn().mockResolvedValue({ success: true, data: { trackedMinutes: {} } }),
   archiveCompletedTasks: vi.fn().mockResolvedValue([]),
   analyzeTasksOverview: vi.fn().mockResolvedValue({}),
   exportTasks: vi.fn().mockResolvedValue({}),
@@ -56,8 +101,6 @@ const electronAPIMock = {
   // MCP
   mcpToolsList: vi.fn().mockResolvedValue({}),
   mcpToolsCall: vi.fn().mockResolvedValue({}),
-  convertReminderToTask: vi.fn().mockResolvedValue({}),
-  convertTaskToReminder: vi.fn().mockResolvedValue({}),
 
   // Window controls
   closeWindow: vi.fn(),
@@ -70,6 +113,11 @@ const electronAPIMock = {
   onSettingsUpdate: vi.fn(),
   removeAllListeners: vi.fn(),
   onTasksUpdated: vi.fn(),
+  onTaskChanged: vi.fn(),
+  onTaskCreated: vi.fn(),
+  onTaskUpdated: vi.fn(),
+  onTaskCompleted: vi.fn(),
+  onTaskOverdue: vi.fn(),
   onRemindersUpdated: vi.fn(),
   onNavigateToChat: vi.fn(),
 
@@ -250,8 +250,8 @@ function shouldAutoConfirm(toolName: string, args?: any): boolean {
       return true;
     }
     
-    // Treat list/get operations as read-only
-    const isReadOnly = n.includes('list_') || n.startsWith('list') || n.includes('get_') || n.startsWith('get') || n.includes('tasky_list');
+    // Treat list/get/search operations as read-only
+    const isReadOnly = n.includes('list_') || n.startsWith('list') || n.includes('get_') || n.startsWith('get') || n.includes('tasky_list') || n.includes('search_');
     console.log('[MCP] Auto-confirm result:', isReadOnly);
     
     return isReadOnly;
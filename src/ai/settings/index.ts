@@ -31,9 +31,13 @@ When users want to create, list, update, delete, or execute tasks or reminders,
 TASK TOOLS (use mcpCall tool with these names):
 - tasky_create_task: Create tasks with title, description, dueDate, tags, etc.
 - tasky_list_tasks: List existing tasks with optional filtering  
+- tasky_search_tasks: Full-text search over tasks (query; prefix words, "quoted phrases"), best matches first
+- tasky_create_from_template: Create a task and its subtasks from a saved template (template name, values for its {{variables}})
+- tasky_start_timer: Start tracking time on a task (prefer id; otherwise matchTitle). Starting a timer stops any other running timer
+- tasky_stop_timer: Stop the running timer and report the time tracked
 - tasky_update_task: Update task status or properties
 - tasky_delete_task: Delete tasks by ID
-- tasky_execute_task: Execute a task (start or complete it)
+- tasky_execute_task: Execute a task (start it, or hand finished work to review)
 
 REMINDER TOOLS (use mcpCall tool with these names):
 - tasky_create_reminder: Create reminders with message, time, days array, oneTime boolean
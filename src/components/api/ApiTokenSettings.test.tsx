@@ -0,0 +1,58 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { ApiTokenSettings } from './ApiTokenSettings';
+import { ApiToken } from '../../types/api';
+
+vi.mock('../ui/button', () => ({
+  Button: ({ children, ...props }: any) => <button {...props}>{children}</button>,
+}));
+
+vi.mock('../ui/input', () => ({
+  Input: React.forwardRef((props: any, ref: any) => <input ref={ref} {...props} />),
+}));
+
+vi.mock('../ui/label', () => ({
+  Label: ({ children, ...props }: any) => <label {...props}>{children}</label>,
+}));
+
+const tokens: ApiToken[] = [
+  { id: 'vim', name: 'Vim plugin', scope: 'read', prefix: 'tasky_1a2b3c', createdAt: new Date('2025-01-01T00:00:00Z') }
+];
+
+describe('ApiTokenSettings', () => {
+  const api = window.electronAPI as any;
+
+  beforeEach(() => {
+    api.getApiTokens.mockReset().mockResolvedValue({ success: true, data: tokens });
+    api.createApiToken.mockReset();
+    api.revokeApiToken.mockReset().mockResolvedValue({ success: true });
+  });
+
+  it('lists tokens by prefix and scope and revokes them', async () => {
+    vi.spyOn(window, 'confirm').mockReturnValue(true);
+    render(<ApiTokenSettings />);
+
+    expect(await screen.findByText('Vim plugin')).toBeDefined();
+    expect(screen.getByText(/Read only · never used/)).toBeDefined();
+    fireEvent.click(screen.getByLabelText('Revoke Vim plugin'));
+    await waitFor(() => expect(api.revokeApiToken).toHaveBeenCalledWith('vim'));
+  });
+
+  it('shows a new token once, and errors from the main process', async () => {
+    api.createApiToken
+      .mockResolvedValueOnce({ success: false, error: 'Name too long (max 100 characters)' })
+      .mockResolvedValueOnce({ success: true, data: { ...tokens[0], id: 'ci', name: 'CI', scope: 'write', token: 'tasky_secret' } });
+    render(<ApiTokenSettings />);
+    await screen.findByText('Vim plugin');
+
+    fireEvent.change(screen.getByLabelText('Token name'), { target: { value: 'CI' } });
+    fireEvent.change(screen.getByLabelText('Scope'), { target: { value: 'write' } });
+    fireEvent.click(screen.getByText('Create token'));
+    expect(await screen.findByText('Name too long (max 100 characters)')).toBeDefined();
+
+    fireEvent.click(screen.getByText('Create token'));
+    expect(await screen.findByText('tasky_secret')).toBeDefined();
+    expect(api.createApiToken).toHaveBeenLastCalledWith({ name: 'CI', scope: 'write' });
+  });
+});
@@ -0,0 +1,148 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { ApiToken, ApiTokenScope, NewApiToken } from '../../types/api';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+
+const API_URL = 'http://127.0.0.1:7844/v1';
+
+const SCOPE_LABELS: Record<ApiTokenScope, string> = {
+  read: 'Read only',
+  write: 'Read and write'
+};
+
+/**
+ * Tokens for the local REST API: creates them (the token is shown once, right after), lists them
+ * with their scope and last use, and revokes them.
+ */
+export const ApiTokenSettings: React.FC = () => {
+  const [tokens, setTokens] = useState<ApiToken[] | null>(null);
+  const [name, setName] = useState('');
+  const [scope, setScope] = useState<ApiTokenScope>('read');
+  const [created, setCreated] = useState<NewApiToken | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      const result = await window.electronAPI.getApiTokens();
+      if (result.success) setTokens(result.data || []);
+      else setError(result.error || 'Failed to load API tokens');
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to load API tokens');
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const create = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    setError(null);
+    try {
+      const result = await window.electronAPI.createApiToken({ name, scope });
+      if (!result.success || !result.data) {
+        setError(result.error || 'Failed to create API token');
+        return;
+      }
+      setCreated(result.data);
+      setName('');
+      await load();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to create API token');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const revoke = async (token: ApiToken) => {
+    if (!window.confirm(`Revoke "${token.name}"? Scripts using it will get 401 responses.`)) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const result = await window.electronAPI.revokeApiToken(token.id);
+      if (!result.success) setError(result.error || 'Failed to revoke API token');
+      if (created?.id === token.id) setCreated(null);
+      await load();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to revoke API token');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="api-tokens space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Scripts and editor plugins can use tasks, reminders, the pomodoro timer and statistics at{' '}
+        <code className="font-mono">{API_URL}</code>, with a token as "Authorization: Bearer &lt;token&gt;". The OpenAPI
+        document is at <code className="font-mono">{API_URL}/openapi.json</code>.
+      </p>
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      <form onSubmit={create} className="flex flex-wrap items-end gap-2">
+        <div className="flex-1 min-w-[12rem]">
+          <Label htmlFor="api-token-name" className="text-sm font-medium text-foreground">Token name</Label>
+          <Input
+            id="api-token-name"
+            placeholder="e.g. Editor plugin"
+            value={name}
+            onChange={e => setName(e.target.value)}
+            className="mt-1 rounded-2xl"
+            required
+          />
+        </div>
+        <select
+          aria-label="Scope"
+          value={scope}
+          onChange={e => setScope(e.target.value as ApiTokenScope)}
+          className="bg-background text-foreground border border-border/30 rounded-xl px-3 py-2"
+        >
+          {(Object.keys(SCOPE_LABELS) as ApiTokenScope[]).map(s => <option key={s} value={s}>{SCOPE_LABELS[s]}</option>)}
+        </select>
+        <Button type="submit" disabled={busy} className="rounded-xl">
+          Create token
+        </Button>
+      </form>
+
+      {created && (
+        <div className="rounded-xl border border-border/30 bg-background/60 p-3 space-y-1" role="status">
+          <p className="text-sm text-foreground">Copy the token for "{created.name}" now; it won't be shown again.</p>
+          <code className="block font-mono text-xs break-all select-all text-foreground">{created.token}</code>
+        </div>
+      )}
+
+      {tokens === null ? (
+        !error && <p className="text-sm text-muted-foreground">Loading…</p>
+      ) : tokens.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-4">No API tokens yet</p>
+      ) : (
+        <ul className="space-y-2">
+          {tokens.map(token => (
+            <li key={token.id} className="api-token-item flex items-center gap-3 rounded-xl border border-border/30 bg-background/60 p-3 text-sm">
+              <div className="flex-1 min-w-0">
+                <div className="truncate text-foreground">{token.name}</div>
+                <div className="text-xs text-muted-foreground truncate">
+                  <span className="font-mono">{token.prefix}…</span> · {SCOPE_LABELS[token.scope]} ·{' '}
+                  {token.lastUsedAt ? `last used ${new Date(token.lastUsedAt).toLocaleString()}` : 'never used'}
+                </div>
+              </div>
+              <Button
+                size="sm"
+                variant="outline"
+                className="rounded-lg h-7 px-2 text-xs text-destructive"
+                aria-label={`Revoke ${token.name}`}
+                disabled={busy}
+                onClick={() => revoke(token)}
+              >
+                Revoke
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
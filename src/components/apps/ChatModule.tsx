@@ -20,6 +20,7 @@ import {
 import type { Settings as AppSettings } from '../../types';
 import type { ChatMessage } from '../chat/types';
 import { mcpCall, callMcpTool } from '../../ai/mcp-tools';
+import { runChatCommand } from '../../lib/chat-terminal-commands';
 
 interface ChatModuleProps {
   settings: AppSettings;
@@ -37,6 +38,10 @@ When users want to create, list, update, delete, or execute tasks or reminders,
 TASK TOOLS (use mcpCall tool with these names):
 - tasky_create_task: Create tasks with title, description, dueDate, tags, etc.
 - tasky_list_tasks: List existing tasks with optional filtering  
+- tasky_search_tasks: Full-text search over tasks (query; prefix words, "quoted phrases"), best matches first
+- tasky_create_from_template: Create a task and its subtasks from a saved template (template name, values for its {{variables}})
+- tasky_start_timer: Start tracking time on a task (prefer id; otherwise matchTitle). Starting a timer stops any other running timer
+- tasky_stop_timer: Stop the running timer and report the time tracked
  - tasky_update_task: Update task properties. Prefer id; otherwise provide matchTitle with the task's title — typos ok
  - tasky_delete_task: Delete tasks by ID or title (handles close title matches)
  - tasky_execute_task: Execute a task (prefer id; otherwise provide matchTitle/title — typos ok)
@@ -99,6 +104,7 @@ IMPORTANT:
 For updates/deletions: Prefer using the task ID if available; otherwise, pass the task title via matchTitle (tasks) or message via matchMessage (reminders). Titles/messages can be approximate; the tool will resolve fuzzy matches safely.
 
 For listing tasks, call mcpCall with name="tasky_list_tasks" and args={}. After the tool executes, format and show the returned task data to the user.
+For finding tasks by what they're about, call mcpCall with name="tasky_search_tasks" and args={"query": "..."}.
 For listing reminders, call mcpCall with name="tasky_list_reminders" and args={}. After the tool executes, format and show the returned reminder data to the user.`;
 
   // State - Chat persistence
@@ -352,6 +358,19 @@ For listing reminders, call mcpCall with name="tasky_list_reminders" and args={}
       console.log('[Chat] Blocked: empty input or busy:', { trimmed, busy });
       return;
     }
+
+    // Slash commands (/undo, /redo, /template, /help) are answered locally
+    const commandReply = await runChatCommand(trimmed, window.electronAPI);
+    if (commandReply !== null) {
+      setError(null);
+      setMessages(prev => [...prev,
+        { role: 'user', content: trimmed } as ChatMessage,
+        { role: 'assistant', content: commandReply } as ChatMessage
+      ]);
+      setInput('');
+      requestAnimationFrame(scrollToBottom);
+      return;
+    }
     
     // Ensure we have a chat to save to
     let currentChatId = chatId;
@@ -100,6 +100,10 @@ export class TaskyEventHandler {
       'tasky_execute_task': 'thinking',
       'tasky_create_reminder': 'focused',
       'tasky_list_tasks': 'thinking',
+      'tasky_search_tasks': 'thinking',
+      'tasky_create_from_template': 'focused',
+      'tasky_start_timer': 'focused',
+      'tasky_stop_timer': 'focused',
       'tasky_list_reminders': 'thinking',
       'tasky_delete_task': 'focused',
       'tasky_delete_reminder': 'focused'
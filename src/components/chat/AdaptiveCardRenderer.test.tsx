@@ -96,6 +96,15 @@ describe('AdaptiveCardRenderer', () => {
       expect(screen.getByText(/deleted successfully/i)).toBeDefined();
     });
 
+    it('points to the trash when the task was moved there', () => {
+      render(
+        <AdaptiveCardRenderer
+          card={{ kind: 'result', name: 'delete_task', output: JSON.stringify({ __taskyCard: { data: { title: 'Deleted', trashed: true } } }) }}
+        />
+      );
+      expect(screen.getByText(/restore it from Tasks › Trash/)).toBeDefined();
+    });
+
     it('renders failure card when output contains "not found"', () => {
       render(
         <AdaptiveCardRenderer
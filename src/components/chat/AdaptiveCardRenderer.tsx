@@ -192,12 +192,14 @@ export const AdaptiveCardRenderer: React.FC<AdaptiveCardRendererProps> = ({ card
       // Try to parse Tasky structured card format
       let deletedTitle: string | undefined;
       let deletedId: string | undefined;
+      let trashed = false;
       if (parsedOut && typeof parsedOut === 'object') {
         // Direct card or wrapped under __taskyCard
         const card = (parsedOut as any)?.__taskyCard ? (parsedOut as any).__taskyCard : parsedOut;
         const data = (card as any)?.data || (card as any);
         deletedTitle = data?.title;
         deletedId = data?.id;
+        trashed = data?.trashed === true;
       }
 
       return (
@@ -213,6 +215,7 @@ export const AdaptiveCardRenderer: React.FC<AdaptiveCardRendererProps> = ({ card
                 <div className="text-sm bg-green-50 text-green-700 border border-green-200 rounded-lg p-3">
                   {entity} deleted successfully{deletedTitle ? `: ${deletedTitle}` : ''}
                   {!deletedTitle && deletedId ? ` (ID: ${deletedId})` : ''}
+                  {trashed && <div className="mt-1 text-xs">Moved to the trash; restore it from Tasks › Trash</div>}
                 </div>
               )}
             </div>
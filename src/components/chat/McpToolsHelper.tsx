@@ -10,6 +10,9 @@ import {
   Clock, 
   Bell,
   Info,
+  Search,
+  LayoutTemplate,
+  Timer,
   X
 } from 'lucide-react';
 
@@ -55,6 +58,56 @@ const MCP_TOOLS: McpTool[] = [
       'List tasks dueDateFrom "2025-09-01" dueDateTo "2025-09-30"'
     ]
   },
+  {
+    name: 'tasky_search_tasks',
+    description: 'Search tasks by content',
+    icon: Search,
+    category: 'tasks',
+    template: `Search tasks for {{query}} with status {{status}} tags {{tags}} limit {{limit}}`,
+    helpText: 'Full-text search over titles, descriptions, tags and results, best matches first. Words match by prefix; "quoted phrases" match exactly.',
+    examples: [
+      'Search tasks for login',
+      'Search tasks for "google oauth"',
+      'Search tasks for deploy with status "PENDING" limit 5'
+    ]
+  },
+  {
+    name: 'tasky_create_from_template',
+    description: 'Create a task from a template',
+    icon: LayoutTemplate,
+    category: 'tasks',
+    template: `Create a task from template "{{template}}" with {{values}}`,
+    helpText: 'Creates a task and its subtasks from a saved template, filling in the template variables. Due dates are relative to when it is used. Type /template in chat to see the templates and the values they need.',
+    examples: [
+      'Create a task from template "Bug triage" with bug "Login fails on Safari"',
+      'Create a task from template "Release checklist" with version 2.4.0',
+      'Create a task from template "PR review" with pr 512 and summary "Refactor storage"'
+    ]
+  },
+  {
+    name: 'tasky_start_timer',
+    description: 'Start a timer on a task',
+    icon: Timer,
+    category: 'tasks',
+    template: `Start a timer on "{{title}}"`,
+    helpText: 'Starts tracking time on an open task. Only one timer runs at a time, so a timer running on another task is stopped first.',
+    examples: [
+      'Start a timer on "Fix login bug"',
+      'Start tracking time on task "task_123"'
+    ]
+  },
+  {
+    name: 'tasky_stop_timer',
+    description: 'Stop the running timer',
+    icon: Timer,
+    category: 'tasks',
+    template: `Stop the timer`,
+    helpText: 'Stops the running timer and reports how long it ran. The tracked time shows in the task list and in analytics.',
+    examples: [
+      'Stop the timer',
+      'Stop the timer on "Fix login bug"'
+    ]
+  },
   {
     name: 'tasky_update_task',
     description: 'Update an existing task',
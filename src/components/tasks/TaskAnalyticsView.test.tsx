@@ -0,0 +1,86 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { TaskAnalyticsView } from './TaskAnalyticsView';
+import { TaskAnalytics } from '../../types/task';
+
+const analytics = (estimates: Partial<TaskAnalytics['estimates']> = {}): TaskAnalytics => ({
+  productivity: { tasksCompletedToday: 2, tasksCompletedThisWeek: 5, averageTasksPerDay: 0.7 },
+  completionRate: 62.5,
+  averageCompletionTime: 4,
+  taskDistribution: {},
+  trends: { dailyCompletion: [], weeklyProductivity: [] },
+  timeTracking: { trackedMinutes: 125, compared: [], estimatedMinutes: 0, actualMinutes: 0, accuracy: null },
+  estimates: { samples: 1, overall: null, byTag: {}, byAgent: {}, ...estimates },
+  flow: {
+    from: '2026-10-18',
+    to: '2026-10-19',
+    statuses: ['PENDING', 'IN_PROGRESS', 'COMPLETED'],
+    cumulativeFlow: [
+      { date: '2026-10-18', counts: { PENDING: 2, IN_PROGRESS: 1, COMPLETED: 0 } },
+      { date: '2026-10-19', counts: { PENDING: 1, IN_PROGRESS: 1, COMPLETED: 1 } }
+    ],
+    burndown: [
+      { date: '2026-10-18', remaining: 3, scope: 3, ideal: 3 },
+      { date: '2026-10-19', remaining: 2, scope: 3, ideal: 0 }
+    ],
+    cycleTime: { count: 1, p50: 6, p85: 6, p95: 6 },
+    leadTime: { count: 1, p50: 72, p85: 72, p95: 72 },
+    completionHeatmap: [{ date: '2026-10-18', count: 0 }, { date: '2026-10-19', count: 1 }],
+    agingWip: [{ taskId: 't2', title: 'Refactor storage', status: 'IN_PROGRESS', startedAt: new Date(), ageDays: 4.5, inStatusDays: 1 }]
+  }
+});
+
+describe('TaskAnalyticsView', () => {
+  const api = window.electronAPI as any;
+
+  beforeEach(() => {
+    api.getTaskAnalytics.mockReset();
+  });
+
+  it('shows estimate bias overall and per tag and agent', async () => {
+    api.getTaskAnalytics.mockResolvedValue({
+      success: true,
+      data: analytics({
+        samples: 6,
+        overall: { samples: 6, ratio: 1.4, low: 0.9, high: 2.2 },
+        byTag: { bug: { samples: 4, ratio: 1.8, low: 1.2, high: 2.7 } },
+        byAgent: { claude: { samples: 3, ratio: 0.8, low: 0.6, high: 1.1 } }
+      })
+    });
+    render(<TaskAnalyticsView />);
+
+    expect(await screen.findByText(/work took 1.40× its estimate \(40% longer than estimated\)/)).toBeDefined();
+    expect(screen.getByText('63%')).toBeDefined();
+    expect(screen.getByText('2h 05m')).toBeDefined();
+    expect(screen.getByLabelText('Tag').textContent).toContain('bug41.80×1.20× – 2.70×');
+    expect(screen.getByLabelText('Agent').textContent).toContain('claude');
+  });
+
+  it('charts the flow and reloads it for another period or tag', async () => {
+    api.getTaskAnalytics.mockResolvedValue({ success: true, data: analytics() });
+    render(<TaskAnalyticsView />);
+
+    expect(await screen.findByRole('img', { name: 'Cumulative flow' })).toBeDefined();
+    expect(screen.getByRole('img', { name: 'Burndown' })).toBeDefined();
+    expect(screen.getByText(/2 of 3 still open/)).toBeDefined();
+    expect(screen.getByLabelText('Cycle and lead time').textContent).toContain('Lead time13d3d3d');
+    expect(screen.getByText('4.5d · 1d in IN_PROGRESS')).toBeDefined();
+    expect(screen.getByText('1 task completed in the last year')).toBeDefined();
+
+    fireEvent.change(screen.getByLabelText('Period'), { target: { value: '90' } });
+    fireEvent.change(screen.getByLabelText('Filter by tag'), { target: { value: ' release ' } });
+    fireEvent.submit(screen.getByLabelText('Filter by tag').closest('form')!);
+    await waitFor(() => expect(api.getTaskAnalytics).toHaveBeenLastCalledWith(expect.objectContaining({ tag: 'release' })));
+    const { from, to } = api.getTaskAnalytics.mock.lastCall[0];
+    expect(Math.round((to - from) / 86_400_000)).toBe(89);
+  });
+
+  it('explains what is missing before there is enough history', async () => {
+    api.getTaskAnalytics.mockResolvedValue({ success: true, data: analytics() });
+    render(<TaskAnalyticsView />);
+
+    expect(await screen.findByText(/at least 3 estimated tasks.*\(1 so far\)/)).toBeDefined();
+    expect(screen.queryByLabelText('Tag')).toBeNull();
+  });
+});
@@ -0,0 +1,158 @@
+import React, { useEffect, useState } from 'react';
+import { EstimateBias, TaskAnalytics } from '../../types/task';
+import { formatMinutes } from '../../lib/task-time';
+import { MIN_ESTIMATE_SAMPLES } from '../../lib/task-estimates';
+import { AgingWip, BurndownChart, CompletionHeatmap, CumulativeFlowChart, FlowTimes } from './TaskFlowCharts';
+
+const PERIODS = [14, 30, 90, 365];
+const DAY_MS = 86_400_000;
+
+const formatRatio = (ratio: number) => `${ratio.toFixed(2)}×`;
+
+const describeBias = (bias: EstimateBias): string => {
+  if (bias.ratio > 1.05) return `${Math.round((bias.ratio - 1) * 100)}% longer than estimated`;
+  if (bias.ratio < 0.95) return `${Math.round((1 - bias.ratio) * 100)}% shorter than estimated`;
+  return 'on estimate';
+};
+
+const Stat: React.FC<{ label: string; value: string }> = ({ label, value }) => (
+  <div className="rounded-xl border border-border/30 bg-background/60 p-3">
+    <div className="text-xs text-muted-foreground">{label}</div>
+    <div className="text-lg font-semibold text-foreground">{value}</div>
+  </div>
+);
+
+const BiasTable: React.FC<{ title: string; groups: Record<string, EstimateBias> }> = ({ title, groups }) => {
+  const rows = Object.entries(groups);
+  if (rows.length === 0) return null;
+  return (
+    <table className="w-full text-sm" aria-label={title}>
+      <thead>
+        <tr className="text-left text-xs text-muted-foreground">
+          <th className="font-medium py-1">{title}</th>
+          <th className="font-medium py-1">Tasks</th>
+          <th className="font-medium py-1">Actual / estimate</th>
+          <th className="font-medium py-1">Likely range</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map(([name, bias]) => (
+          <tr key={name} className="border-t border-border/20">
+            <td className="py-1 text-foreground">{name}</td>
+            <td className="py-1">{bias.samples}</td>
+            <td className="py-1" title={describeBias(bias)}>{formatRatio(bias.ratio)}</td>
+            <td className="py-1">{formatRatio(bias.low)} – {formatRatio(bias.high)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
+
+const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <section className="space-y-2">
+    <h3 className="text-sm font-medium text-foreground">{title}</h3>
+    {children}
+  </section>
+);
+
+/**
+ * Completion statistics, flow charts replayed from the status history (cumulative flow, burndown,
+ * cycle and lead time, completion heatmap, aging work in progress), tracked time and how estimates
+ * compare with the time tasks actually took. The period and tag narrow the flow charts.
+ */
+export const TaskAnalyticsView: React.FC = () => {
+  const [analytics, setAnalytics] = useState<TaskAnalytics | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [days, setDays] = useState(30);
+  const [tagInput, setTagInput] = useState('');
+  const [tag, setTag] = useState('');
+
+  useEffect(() => {
+    const to = new Date();
+    window.electronAPI.getTaskAnalytics({ from: new Date(to.getTime() - (days - 1) * DAY_MS), to, tag: tag || undefined })
+      .then(result => {
+        if (result.success && result.data) {
+          setAnalytics(result.data);
+          setError(null);
+        } else {
+          setError(result.error || 'Failed to load analytics');
+        }
+      })
+      .catch(e => setError(e instanceof Error ? e.message : 'Failed to load analytics'));
+  }, [days, tag]);
+
+  if (!analytics) {
+    return error ? <p className="text-sm text-destructive">{error}</p> : <p className="text-sm text-muted-foreground">Loading…</p>;
+  }
+
+  const { productivity, timeTracking, estimates, flow } = analytics;
+  return (
+    <div className="task-analytics space-y-5">
+      <form
+        className="flex flex-wrap items-center gap-2 text-sm"
+        onSubmit={e => { e.preventDefault(); setTag(tagInput.trim()); }}
+      >
+        <select
+          aria-label="Period"
+          value={days}
+          onChange={e => setDays(Number(e.target.value))}
+          className="bg-background text-foreground border border-border/30 rounded-xl px-3 py-1"
+        >
+          {PERIODS.map(n => <option key={n} value={n}>Last {n} days</option>)}
+        </select>
+        <input
+          aria-label="Filter by tag"
+          placeholder="Tag (all tasks)"
+          value={tagInput}
+          onChange={e => setTagInput(e.target.value)}
+          onBlur={() => setTag(tagInput.trim())}
+          className="w-40 bg-background text-foreground border border-border/30 rounded-xl px-3 py-1"
+        />
+        {error && <span className="text-destructive">{error}</span>}
+      </form>
+
+      <section className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        <Stat label="Completion rate" value={`${Math.round(analytics.completionRate)}%`} />
+        <Stat label="Completed today" value={String(productivity.tasksCompletedToday)} />
+        <Stat label="Completed this week" value={String(productivity.tasksCompletedThisWeek)} />
+        <Stat label="Time tracked" value={formatMinutes(timeTracking.trackedMinutes)} />
+      </section>
+
+      <Section title={flow.tag ? `Cumulative flow · ${flow.tag}` : 'Cumulative flow'}>
+        <CumulativeFlowChart flow={flow} />
+      </Section>
+      <Section title={flow.tag ? `Burndown · ${flow.tag}` : 'Burndown'}>
+        <BurndownChart flow={flow} />
+      </Section>
+      <Section title="Cycle and lead time">
+        <FlowTimes cycleTime={flow.cycleTime} leadTime={flow.leadTime} />
+      </Section>
+      <Section title="Aging work in progress">
+        <AgingWip items={flow.agingWip} />
+      </Section>
+      <Section title="Completions">
+        <CompletionHeatmap flow={flow} />
+      </Section>
+
+      <Section title="Estimates">
+        {estimates.overall ? (
+          <>
+            <p className="text-sm text-muted-foreground">
+              Over {estimates.samples} completed tasks, work took {formatRatio(estimates.overall.ratio)} its estimate
+              ({describeBias(estimates.overall)}); most tasks land between {formatRatio(estimates.overall.low)} and {formatRatio(estimates.overall.high)}.
+              New tasks created through the assistant get a corrected estimate based on this.
+            </p>
+            <BiasTable title="Tag" groups={estimates.byTag} />
+            <BiasTable title="Agent" groups={estimates.byAgent} />
+          </>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            Track time on at least {MIN_ESTIMATE_SAMPLES} estimated tasks and complete them to see how estimates compare
+            with the time tasks take ({estimates.samples} so far).
+          </p>
+        )}
+      </Section>
+    </div>
+  );
+};
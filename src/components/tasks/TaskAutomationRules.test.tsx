@@ -0,0 +1,106 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { TaskAutomationRules } from './TaskAutomationRules';
+import { AutomationRule, AutomationRun } from '../../types/task';
+
+vi.mock('../ui/button', () => ({
+  Button: ({ children, ...props }: any) => <button {...props}>{children}</button>,
+}));
+
+vi.mock('../ui/input', () => ({
+  Input: React.forwardRef((props: any, ref: any) => <input ref={ref} {...props} />),
+}));
+
+vi.mock('../ui/label', () => ({
+  Label: ({ children, ...props }: any) => <label {...props}>{children}</label>,
+}));
+
+vi.mock('../ui/select', () => ({
+  Select: ({ children, value, onValueChange, 'aria-label': ariaLabel }: any) => (
+    <select value={value} aria-label={ariaLabel} onChange={(e) => onValueChange?.(e.target.value)}>{children}</select>
+  ),
+}));
+
+const now = new Date('2025-01-01T00:00:00Z');
+const rules: AutomationRule[] = [
+  {
+    id: 'triage',
+    name: 'Triage bugs',
+    enabled: true,
+    trigger: 'task:created',
+    conditions: { tags: ['bug'], assignedAgent: 'unassigned' },
+    actions: [{ type: 'assign-agent', agent: 'claude' }, { type: 'add-tags', tags: ['triage'] }],
+    createdAt: now,
+    updatedAt: now
+  }
+];
+const runs: AutomationRun[] = [
+  {
+    id: 1,
+    ruleId: 'triage',
+    ruleName: 'Triage bugs',
+    trigger: 'task:created',
+    taskId: 't1',
+    taskTitle: 'Crash on save',
+    success: false,
+    results: [{ type: 'assign-agent', success: true }, { type: 'add-reminder', success: false, detail: 'Reminders are not available' }],
+    ranAt: now
+  }
+];
+
+describe('TaskAutomationRules', () => {
+  const api = window.electronAPI as any;
+
+  beforeEach(() => {
+    api.getAutomationRules.mockReset().mockResolvedValue({ success: true, data: rules });
+    api.getAutomationRuns.mockReset().mockResolvedValue({ success: true, data: runs });
+    api.saveAutomationRule.mockReset().mockResolvedValue({ success: true });
+    api.deleteAutomationRule.mockReset().mockResolvedValue({ success: true });
+  });
+
+  it('lists rules with a summary and the recent runs with their failures', async () => {
+    render(<TaskAutomationRules />);
+
+    expect(await screen.findByText('Triage bugs')).toBeDefined();
+    expect(screen.getByText('A task is created, tagged bug, unassigned → assign to claude, tag triage')).toBeDefined();
+    expect(screen.getByText(/on "Crash on save" · add-reminder: Reminders are not available/)).toBeDefined();
+    expect(api.getAutomationRuns).toHaveBeenCalledWith({ limit: 20 });
+  });
+
+  it('turns a rule off from the list', async () => {
+    render(<TaskAutomationRules />);
+    fireEvent.click(await screen.findByLabelText('Enable Triage bugs'));
+
+    await waitFor(() => expect(api.saveAutomationRule).toHaveBeenCalledWith(
+      expect.objectContaining({ name: 'Triage bugs', enabled: false, actions: rules[0].actions }),
+      'triage'
+    ));
+  });
+
+  it('edits a rule and keeps the editor open when saving fails', async () => {
+    api.saveAutomationRule.mockResolvedValue({ success: false, error: 'Task validation failed: Unknown status "LATER"' });
+    render(<TaskAutomationRules />);
+    fireEvent.click(await screen.findByLabelText('Edit Triage bugs'));
+
+    expect((screen.getByLabelText('Tagged with any of') as HTMLInputElement).value).toBe('bug');
+    fireEvent.change(screen.getByLabelText('Remind after'), { target: { value: '1h' } });
+    fireEvent.click(screen.getByLabelText('Notify'));
+    fireEvent.click(screen.getByText('Save Rule'));
+
+    await waitFor(() => expect(api.saveAutomationRule).toHaveBeenCalledWith(
+      expect.objectContaining({
+        conditions: expect.objectContaining({ tags: ['bug'], assignedAgent: 'unassigned' }),
+        actions: [
+          { type: 'assign-agent', agent: 'claude' },
+          { type: 'add-tags', tags: ['triage'] },
+          { type: 'add-reminder', after: '1h', message: undefined },
+          { type: 'notify', message: undefined }
+        ]
+      }),
+      'triage'
+    ));
+    expect(await screen.findByText(/Unknown status "LATER"/)).toBeDefined();
+    expect(screen.getByText('Save Rule')).toBeDefined();
+  });
+});
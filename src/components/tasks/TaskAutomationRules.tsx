@@ -0,0 +1,380 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { AutomationAction, AutomationRule, AutomationRuleInput, AutomationRun, AutomationTrigger, TaskWorkflowStatus } from '../../types/task';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Select } from '../ui/select';
+import {
+  AUTOMATION_TRIGGERS,
+  AUTOMATION_TRIGGER_LABELS,
+  describeAutomationAction,
+  describeAutomationConditions
+} from '../../lib/task-automation';
+
+// How many runs the log below the rules shows
+const RUN_LOG_LIMIT = 20;
+
+// Flat editor state: one field per condition, and each action type either set or left empty
+interface RuleFormState {
+  name: string;
+  enabled: boolean;
+  trigger: AutomationTrigger;
+  tags: string;
+  statuses: string;
+  agent: '' | 'gemini' | 'claude' | 'unassigned';
+  titleContains: string;
+  setStatus: string;
+  assignAgent: '' | 'gemini' | 'claude';
+  addTags: string;
+  remindAfter: string;
+  reminderMessage: string;
+  notify: boolean;
+  notifyMessage: string;
+}
+
+const splitList = (text: string): string[] => text.split(',').map(part => part.trim()).filter(Boolean);
+
+const toFormState = (rule?: AutomationRule): RuleFormState => {
+  const action = <T extends AutomationAction['type']>(type: T) =>
+    rule?.actions.find((a): a is Extract<AutomationAction, { type: T }> => a.type === type);
+  return {
+    name: rule?.name || '',
+    enabled: rule?.enabled ?? true,
+    trigger: rule?.trigger || 'task:created',
+    tags: (rule?.conditions.tags || []).join(', '),
+    statuses: (rule?.conditions.statuses || []).join(', '),
+    agent: rule?.conditions.assignedAgent || '',
+    titleContains: rule?.conditions.titleContains || '',
+    setStatus: action('set-status')?.status || '',
+    assignAgent: action('assign-agent')?.agent || '',
+    addTags: (action('add-tags')?.tags || []).join(', '),
+    remindAfter: action('add-reminder')?.after || '',
+    reminderMessage: action('add-reminder')?.message || '',
+    notify: !!action('notify'),
+    notifyMessage: action('notify')?.message || ''
+  };
+};
+
+// The engine checks the rest (validateAutomationRule)
+const toRuleInput = (form: RuleFormState): AutomationRuleInput => {
+  const actions: AutomationAction[] = [];
+  if (form.setStatus) actions.push({ type: 'set-status', status: form.setStatus });
+  if (form.assignAgent) actions.push({ type: 'assign-agent', agent: form.assignAgent });
+  if (splitList(form.addTags).length > 0) actions.push({ type: 'add-tags', tags: splitList(form.addTags) });
+  if (form.remindAfter.trim()) actions.push({ type: 'add-reminder', after: form.remindAfter, message: form.reminderMessage || undefined });
+  if (form.notify) actions.push({ type: 'notify', message: form.notifyMessage || undefined });
+  return {
+    name: form.name,
+    enabled: form.enabled,
+    trigger: form.trigger,
+    conditions: {
+      tags: splitList(form.tags),
+      statuses: splitList(form.statuses),
+      assignedAgent: form.agent || undefined,
+      titleContains: form.titleContains || undefined
+    },
+    actions
+  };
+};
+
+const ruleInput = (rule: AutomationRule): AutomationRuleInput => ({
+  name: rule.name,
+  enabled: rule.enabled,
+  trigger: rule.trigger,
+  conditions: rule.conditions,
+  actions: rule.actions
+});
+
+const describeRule = (rule: AutomationRule): string => {
+  const conditions = describeAutomationConditions(rule.conditions);
+  return `${AUTOMATION_TRIGGER_LABELS[rule.trigger]}${conditions ? `, ${conditions}` : ''} → ${rule.actions.map(describeAutomationAction).join(', ')}`;
+};
+
+/**
+ * Automation rules ("when a task is created, if it's tagged bug, assign it to claude"): lists
+ * them with an on/off switch, edits them, and shows the latest runs. Rules run in the main process.
+ */
+export const TaskAutomationRules: React.FC = () => {
+  const [rules, setRules] = useState<AutomationRule[] | null>(null);
+  const [runs, setRuns] = useState<AutomationRun[]>([]);
+  const [statuses, setStatuses] = useState<TaskWorkflowStatus[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  // null: not editing; 'new': adding; otherwise the id being edited
+  const [editing, setEditing] = useState<string | null>(null);
+  const [form, setForm] = useState<RuleFormState>(toFormState());
+  const [busy, setBusy] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      const [ruleList, runLog] = await Promise.all([
+        window.electronAPI.getAutomationRules(),
+        window.electronAPI.getAutomationRuns({ limit: RUN_LOG_LIMIT })
+      ]);
+      if (ruleList.success) setRules(ruleList.data || []);
+      else setError(ruleList.error || 'Failed to load rules');
+      if (runLog.success) setRuns(runLog.data || []);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to load rules');
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+    window.electronAPI.getTaskWorkflow()
+      .then(result => { if (result.success && result.data) setStatuses(result.data.statuses); })
+      .catch(e => console.error('Failed to load workflow:', e));
+  }, [load]);
+
+  const startEditing = (rule?: AutomationRule) => {
+    setError(null);
+    setForm(toFormState(rule));
+    setEditing(rule ? rule.id : 'new');
+  };
+
+  const handleChange = <K extends keyof RuleFormState>(field: K, value: RuleFormState[K]) => {
+    setForm(prev => ({ ...prev, [field]: value }));
+  };
+
+  const submit = async (input: AutomationRuleInput, id?: string): Promise<boolean> => {
+    setBusy(true);
+    setError(null);
+    try {
+      const result = await window.electronAPI.saveAutomationRule(input, id);
+      if (!result.success) {
+        setError(result.error || 'Failed to save rule');
+        return false;
+      }
+      await load();
+      return true;
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to save rule');
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const save = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await submit(toRuleInput(form), editing === 'new' ? undefined : editing!)) setEditing(null);
+  };
+
+  const remove = async (rule: AutomationRule) => {
+    if (!window.confirm(`Delete the rule "${rule.name}"?`)) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const result = await window.electronAPI.deleteAutomationRule(rule.id);
+      if (!result.success) setError(result.error || 'Failed to delete rule');
+      await load();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to delete rule');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (editing) {
+    return (
+      <form onSubmit={save} className="task-rule-editor space-y-3">
+        {error && <p className="text-sm text-destructive">{error}</p>}
+        <div>
+          <Label htmlFor="rule-name" className="text-sm font-medium text-foreground">Rule Name *</Label>
+          <Input id="rule-name" value={form.name} onChange={e => handleChange('name', e.target.value)} className="mt-1 rounded-2xl" required />
+        </div>
+        <div>
+          <Label htmlFor="rule-trigger" className="text-sm font-medium text-foreground">When</Label>
+          <Select
+            value={form.trigger}
+            onValueChange={(val: AutomationTrigger) => handleChange('trigger', val)}
+            className="mt-1 w-full"
+            aria-label="When"
+          >
+            {AUTOMATION_TRIGGERS.map(trigger => <option key={trigger} value={trigger}>{AUTOMATION_TRIGGER_LABELS[trigger]}</option>)}
+          </Select>
+        </div>
+
+        <h3 className="text-sm font-medium text-foreground pt-2">If (leave empty to match every task)</h3>
+        <div className="grid md:grid-cols-2 gap-3">
+          <div>
+            <Label htmlFor="rule-tags" className="text-sm font-medium text-foreground">Tagged with any of</Label>
+            <Input id="rule-tags" placeholder="bug, urgent" value={form.tags} onChange={e => handleChange('tags', e.target.value)} className="mt-1 rounded-2xl" />
+          </div>
+          <div>
+            <Label htmlFor="rule-statuses" className="text-sm font-medium text-foreground">In any of the statuses</Label>
+            <Input id="rule-statuses" placeholder="PENDING, IN_PROGRESS" value={form.statuses} onChange={e => handleChange('statuses', e.target.value)} className="mt-1 rounded-2xl" />
+          </div>
+          <div>
+            <Label htmlFor="rule-agent" className="text-sm font-medium text-foreground">Assigned to</Label>
+            <Select
+              value={form.agent}
+              onValueChange={(val: RuleFormState['agent']) => handleChange('agent', val)}
+              className="mt-1 w-full"
+              aria-label="Assigned to"
+            >
+              <option value="">Anyone</option>
+              <option value="unassigned">Nobody</option>
+              <option value="gemini">gemini</option>
+              <option value="claude">claude</option>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="rule-title" className="text-sm font-medium text-foreground">Title contains</Label>
+            <Input id="rule-title" value={form.titleContains} onChange={e => handleChange('titleContains', e.target.value)} className="mt-1 rounded-2xl" />
+          </div>
+        </div>
+
+        <h3 className="text-sm font-medium text-foreground pt-2">Then</h3>
+        <div className="grid md:grid-cols-2 gap-3">
+          <div>
+            <Label htmlFor="rule-set-status" className="text-sm font-medium text-foreground">Move to status</Label>
+            <Select
+              value={form.setStatus}
+              onValueChange={(val: string) => handleChange('setStatus', val)}
+              className="mt-1 w-full"
+              aria-label="Move to status"
+            >
+              <option value="">Leave as is</option>
+              {statuses.map(s => <option key={s.id} value={s.id}>{s.label}</option>)}
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="rule-assign" className="text-sm font-medium text-foreground">Assign to agent</Label>
+            <Select
+              value={form.assignAgent}
+              onValueChange={(val: RuleFormState['assignAgent']) => handleChange('assignAgent', val)}
+              className="mt-1 w-full"
+              aria-label="Assign to agent"
+            >
+              <option value="">Leave as is</option>
+              <option value="gemini">gemini</option>
+              <option value="claude">claude</option>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="rule-add-tags" className="text-sm font-medium text-foreground">Add tags</Label>
+            <Input id="rule-add-tags" placeholder="triage" value={form.addTags} onChange={e => handleChange('addTags', e.target.value)} className="mt-1 rounded-2xl" />
+          </div>
+          <div>
+            <Label htmlFor="rule-remind" className="text-sm font-medium text-foreground">Remind after</Label>
+            <Input id="rule-remind" placeholder="1h, 2d" value={form.remindAfter} onChange={e => handleChange('remindAfter', e.target.value)} className="mt-1 rounded-2xl" />
+          </div>
+          <div>
+            <Label htmlFor="rule-reminder-message" className="text-sm font-medium text-foreground">Reminder message</Label>
+            <Input
+              id="rule-reminder-message"
+              placeholder="{{title}}"
+              value={form.reminderMessage}
+              onChange={e => handleChange('reminderMessage', e.target.value)}
+              className="mt-1 rounded-2xl"
+            />
+          </div>
+          <div>
+            <div className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                aria-label="Notify"
+                checked={form.notify}
+                onChange={e => handleChange('notify', e.target.checked)}
+              />
+              <Label htmlFor="rule-notify-message" className="text-sm font-medium text-foreground">Notification message</Label>
+            </div>
+            <Input
+              id="rule-notify-message"
+              placeholder="{{title}}"
+              value={form.notifyMessage}
+              disabled={!form.notify}
+              onChange={e => handleChange('notifyMessage', e.target.value)}
+              className="mt-1 rounded-2xl"
+            />
+          </div>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Messages can use {'{{title}}'}, {'{{status}}'} and {'{{due}}'}. Changes a rule makes don't trigger other rules.
+        </p>
+        <div className="flex gap-2">
+          <Button type="submit" disabled={busy} className="rounded-xl">
+            {busy ? 'Saving…' : 'Save Rule'}
+          </Button>
+          <Button type="button" variant="outline" disabled={busy} className="rounded-xl" onClick={() => setEditing(null)}>
+            Cancel
+          </Button>
+        </div>
+      </form>
+    );
+  }
+
+  return (
+    <div className="task-rules space-y-4">
+      <div className="flex items-center justify-between gap-3">
+        <p className="text-sm text-muted-foreground">
+          Rules change tasks, add reminders or notify you when something happens to a matching task.
+        </p>
+        <Button size="sm" variant="outline" className="rounded-lg h-8 px-3 text-xs" disabled={busy} onClick={() => startEditing()}>
+          New rule
+        </Button>
+      </div>
+      {error && <p className="text-sm text-destructive">{error}</p>}
+      {rules === null ? (
+        !error && <p className="text-sm text-muted-foreground">Loading…</p>
+      ) : rules.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-8">No rules yet</p>
+      ) : (
+        <ul className="space-y-2">
+          {rules.map(rule => (
+            <li key={rule.id} className="task-rule-item flex items-center gap-3 rounded-xl border border-border/30 bg-background/60 p-3 text-sm">
+              <input
+                type="checkbox"
+                aria-label={`Enable ${rule.name}`}
+                checked={rule.enabled}
+                disabled={busy}
+                onChange={e => submit({ ...ruleInput(rule), enabled: e.target.checked }, rule.id)}
+              />
+              <div className="flex-1 min-w-0">
+                <div className={`truncate ${rule.enabled ? 'text-foreground' : 'text-muted-foreground'}`}>{rule.name}</div>
+                <div className="text-xs text-muted-foreground truncate">{describeRule(rule)}</div>
+              </div>
+              <Button
+                size="sm"
+                variant="outline"
+                className="rounded-lg h-7 px-2 text-xs"
+                aria-label={`Edit ${rule.name}`}
+                disabled={busy}
+                onClick={() => startEditing(rule)}
+              >
+                Edit
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                className="rounded-lg h-7 px-2 text-xs text-destructive"
+                aria-label={`Delete ${rule.name}`}
+                disabled={busy}
+                onClick={() => remove(rule)}
+              >
+                Delete
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <section className="space-y-2">
+        <h3 className="text-sm font-medium text-foreground">Recent runs</h3>
+        {runs.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No rule has run yet.</p>
+        ) : (
+          <ul className="space-y-1" aria-label="Recent runs">
+            {runs.map(run => (
+              <li key={run.id} className="text-xs text-muted-foreground">
+                <span className={run.success ? 'text-foreground' : 'text-destructive'}>{run.success ? '✓' : '✗'}</span>{' '}
+                {new Date(run.ranAt).toLocaleString()} · {run.ruleName} on "{run.taskTitle}"
+                {run.results.some(r => !r.success) && ` · ${run.results.filter(r => !r.success).map(r => `${r.type}: ${r.detail}`).join('; ')}`}
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </div>
+  );
+};
@@ -0,0 +1,176 @@
+import React from 'react';
+import { DurationPercentiles, TaskFlowReport } from '../../types/task';
+
+// Small SVG charts for the flow analytics; drawn in a fixed viewBox and scaled to the card width
+
+const WIDTH = 600;
+const HEIGHT = 180;
+const PAD = 24;
+
+// Board order; statuses past the palette reuse it
+const STATUS_COLORS = ['#94a3b8', '#3b82f6', '#f59e0b', '#22c55e', '#64748b', '#a855f7', '#ef4444', '#14b8a6'];
+
+const x = (i: number, count: number) => PAD + (count > 1 ? (i / (count - 1)) * (WIDTH - 2 * PAD) : (WIDTH - 2 * PAD) / 2);
+const y = (value: number, max: number) => HEIGHT - PAD - (max > 0 ? (value / max) * (HEIGHT - 2 * PAD) : 0);
+const path = (points: Array<[number, number]>) => points.map(([px, py], i) => `${i ? 'L' : 'M'}${px.toFixed(1)},${py.toFixed(1)}`).join(' ');
+
+const Axis: React.FC<{ first: string; last: string; max: number }> = ({ first, last, max }) => (
+  <g className="text-[10px] fill-muted-foreground">
+    <line x1={PAD} y1={HEIGHT - PAD} x2={WIDTH - PAD} y2={HEIGHT - PAD} stroke="currentColor" strokeOpacity={0.2} />
+    <text x={PAD} y={HEIGHT - 6} fill="currentColor">{first}</text>
+    <text x={WIDTH - PAD} y={HEIGHT - 6} textAnchor="end" fill="currentColor">{last}</text>
+    <text x={4} y={PAD} fill="currentColor">{max}</text>
+  </g>
+);
+
+/**
+ * Tasks per status at the end of each day, stacked in board order (first status on top).
+ */
+export const CumulativeFlowChart: React.FC<{ flow: TaskFlowReport }> = ({ flow }) => {
+  const points = flow.cumulativeFlow;
+  const max = Math.max(1, ...points.map(p => Object.values(p.counts).reduce((sum, n) => sum + n, 0)));
+  // Bands bottom-up: the last status (done work) at the bottom, like a classic CFD
+  const order = [...flow.statuses].reverse();
+  const bands = order.map((status, band) => {
+    const lower = points.map((p, i) => [x(i, points.length), y(order.slice(0, band).reduce((sum, s) => sum + (p.counts[s] || 0), 0), max)] as [number, number]);
+    const upper = points.map((p, i) => [x(i, points.length), y(order.slice(0, band + 1).reduce((sum, s) => sum + (p.counts[s] || 0), 0), max)] as [number, number]);
+    return { status, d: `${path(upper)} ${path([...lower].reverse()).replace(/^M/, 'L')} Z` };
+  });
+
+  return (
+    <figure className="space-y-1">
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} width="100%" role="img" aria-label="Cumulative flow">
+        {bands.map(({ status, d }) => (
+          <path key={status} d={d} fill={STATUS_COLORS[flow.statuses.indexOf(status) % STATUS_COLORS.length]} fillOpacity={0.75}>
+            <title>{status}</title>
+          </path>
+        ))}
+        <Axis first={points[0]?.date || ''} last={points[points.length - 1]?.date || ''} max={max} />
+      </svg>
+      <figcaption className="flex flex-wrap gap-3 text-xs text-muted-foreground">
+        {flow.statuses.map((status, i) => (
+          <span key={status} className="inline-flex items-center gap-1">
+            <span className="inline-block h-2 w-2 rounded-sm" style={{ backgroundColor: STATUS_COLORS[i % STATUS_COLORS.length] }} />
+            {status}
+          </span>
+        ))}
+      </figcaption>
+    </figure>
+  );
+};
+
+/**
+ * Open tasks per day against a straight line to zero, with the total scope for spotting scope creep.
+ */
+export const BurndownChart: React.FC<{ flow: TaskFlowReport }> = ({ flow }) => {
+  const points = flow.burndown;
+  const max = Math.max(1, ...points.map(p => Math.max(p.scope, p.remaining)));
+  const line = (value: (p: TaskFlowReport['burndown'][number]) => number) =>
+    path(points.map((p, i) => [x(i, points.length), y(value(p), max)]));
+
+  return (
+    <figure className="space-y-1">
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} width="100%" role="img" aria-label="Burndown">
+        <path d={line(p => p.scope)} fill="none" stroke="#94a3b8" strokeWidth={1} />
+        <path d={line(p => p.ideal)} fill="none" stroke="#94a3b8" strokeWidth={1.5} strokeDasharray="4 4" />
+        <path d={line(p => p.remaining)} fill="none" stroke="#3b82f6" strokeWidth={2} />
+        <Axis first={points[0]?.date || ''} last={points[points.length - 1]?.date || ''} max={max} />
+      </svg>
+      <figcaption className="text-xs text-muted-foreground">
+        Open tasks (solid), ideal (dashed) and total scope (thin) · {points[points.length - 1]?.remaining ?? 0} of {points[points.length - 1]?.scope ?? 0} still open
+      </figcaption>
+    </figure>
+  );
+};
+
+const CELL = 11;
+
+/**
+ * Completions per day over the last year, one column per week, Sunday on top.
+ */
+export const CompletionHeatmap: React.FC<{ flow: TaskFlowReport }> = ({ flow }) => {
+  const days = flow.completionHeatmap;
+  const max = Math.max(1, ...days.map(d => d.count));
+  const total = days.reduce((sum, d) => sum + d.count, 0);
+  const weeks = Math.ceil(days.length / 7);
+
+  return (
+    <figure className="space-y-1">
+      <svg viewBox={`0 0 ${weeks * CELL} ${7 * CELL}`} width="100%" role="img" aria-label="Completion heatmap">
+        {days.map((d, i) => (
+          <rect
+            key={d.date}
+            x={Math.floor(i / 7) * CELL}
+            y={(i % 7) * CELL}
+            width={CELL - 2}
+            height={CELL - 2}
+            rx={2}
+            fill={d.count ? '#22c55e' : '#94a3b8'}
+            fillOpacity={d.count ? 0.3 + 0.7 * (d.count / max) : 0.15}
+          >
+            <title>{`${d.date}: ${d.count} completed`}</title>
+          </rect>
+        ))}
+      </svg>
+      <figcaption className="text-xs text-muted-foreground">{total} {total === 1 ? 'task' : 'tasks'} completed in the last year</figcaption>
+    </figure>
+  );
+};
+
+const formatHours = (hours: number) => (hours >= 48 ? `${Math.round((hours / 24) * 10) / 10}d` : `${hours}h`);
+
+/**
+ * p50/p85/p95 of cycle time (started to done) and lead time (created to done).
+ */
+export const FlowTimes: React.FC<{ cycleTime: DurationPercentiles | null; leadTime: DurationPercentiles | null }> = ({ cycleTime, leadTime }) => {
+  const rows: Array<[string, DurationPercentiles | null]> = [['Cycle time', cycleTime], ['Lead time', leadTime]];
+  return (
+    <table className="w-full text-sm" aria-label="Cycle and lead time">
+      <thead>
+        <tr className="text-left text-xs text-muted-foreground">
+          <th className="font-medium py-1" />
+          <th className="font-medium py-1">Tasks</th>
+          <th className="font-medium py-1">50%</th>
+          <th className="font-medium py-1">85%</th>
+          <th className="font-medium py-1">95%</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map(([label, p]) => (
+          <tr key={label} className="border-t border-border/20">
+            <td className="py-1 text-foreground">{label}</td>
+            <td className="py-1">{p?.count ?? 0}</td>
+            <td className="py-1">{p ? formatHours(p.p50) : '–'}</td>
+            <td className="py-1">{p ? formatHours(p.p85) : '–'}</td>
+            <td className="py-1">{p ? formatHours(p.p95) : '–'}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
+
+/**
+ * Started but unfinished tasks, oldest first.
+ */
+export const AgingWip: React.FC<{ items: TaskFlowReport['agingWip'] }> = ({ items }) => {
+  if (items.length === 0) return <p className="text-sm text-muted-foreground">No work in progress.</p>;
+  const max = Math.max(1, ...items.map(i => i.ageDays));
+  return (
+    <ul className="space-y-1" aria-label="Aging work in progress">
+      {items.map(item => (
+        <li key={item.taskId} className="text-sm">
+          <div className="flex justify-between gap-2">
+            <span className="truncate text-foreground">{item.title}</span>
+            <span className="text-xs text-muted-foreground whitespace-nowrap">
+              {item.ageDays}d · {item.inStatusDays}d in {item.status}
+            </span>
+          </div>
+          <div className="h-1 rounded bg-secondary/40">
+            <div className="h-1 rounded bg-amber-500" style={{ width: `${(item.ageDays / max) * 100}%` }} />
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+};
@@ -1,6 +1,6 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import React from 'react';
-import { render, screen, fireEvent } from '@testing-library/react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import { TaskForm } from './TaskForm';
 
 // Mock UI components to simplify rendering
@@ -24,11 +24,12 @@ vi.mock('../ui/button', () => ({
 }));
 
 vi.mock('../ui/select', () => ({
-  Select: ({ children, value, onValueChange, className }: any) => (
+  Select: ({ children, value, onValueChange, className, 'aria-label': ariaLabel }: any) => (
     <select
       value={value}
       onChange={(e) => onValueChange?.(e.target.value)}
       className={className}
+      aria-label={ariaLabel}
     >
       {children}
     </select>
@@ -42,6 +43,11 @@ vi.mock('lucide-react', () => ({
   User: () => <span>U</span>,
   Terminal: () => <span>T</span>,
   Upload: () => <span>Up</span>,
+  ListChecks: () => <span>L</span>,
+  GitBranch: () => <span>G</span>,
+  Repeat: () => <span>R</span>,
+  AlertTriangle: () => <span>!</span>,
+  LayoutTemplate: () => <span>Tp</span>,
 }));
 
 describe('TaskForm', () => {
@@ -165,6 +171,91 @@ describe('TaskForm', () => {
     });
   });
 
+  describe('recurrence', () => {
+    it('submits a weekly recurrence rule', () => {
+      render(<TaskForm onCreateTask={mockOnCreate} forceExpanded />);
+      const titleInput = screen.getByPlaceholderText(/what needs to be done/i);
+      fireEvent.change(titleInput, { target: { value: 'Water plants' } });
+      fireEvent.change(screen.getByLabelText('Repeat'), { target: { value: 'weekly' } });
+      fireEvent.change(screen.getByLabelText('Repeat interval'), { target: { value: '2' } });
+      fireEvent.click(screen.getByText('WE'));
+      fireEvent.click(screen.getByText('MO'));
+      expect(screen.getByText('Every 2 weeks on Mon, Wed')).toBeDefined();
+
+      fireEvent.submit(titleInput.closest('form')!);
+      expect(mockOnCreate.mock.calls[0][0].recurrence).toEqual({
+        frequency: 'weekly',
+        interval: 2,
+        byWeekday: ['MO', 'WE'],
+      });
+    });
+
+    it('omits recurrence when the task does not repeat', () => {
+      render(<TaskForm onCreateTask={mockOnCreate} forceExpanded />);
+      const titleInput = screen.getByPlaceholderText(/what needs to be done/i);
+      fireEvent.change(titleInput, { target: { value: 'Once' } });
+      fireEvent.submit(titleInput.closest('form')!);
+      expect(mockOnCreate.mock.calls[0][0].recurrence).toBeUndefined();
+    });
+  });
+
+  describe('version conflict', () => {
+    it('explains the merge and offers their version', () => {
+      const onUseTheirs = vi.fn();
+      render(
+        <TaskForm
+          onCreateTask={mockOnCreate}
+          forceExpanded
+          initial={{ title: 'Merged' }}
+          conflict={{ fields: ['title'], onUseTheirs }}
+        />
+      );
+      expect(screen.getByRole('alert').textContent).toContain('your edits to title replace theirs');
+      fireEvent.click(screen.getByText('Use their version'));
+      expect(onUseTheirs).toHaveBeenCalledTimes(1);
+    });
+
+    it('shows no banner without a conflict', () => {
+      render(<TaskForm onCreateTask={mockOnCreate} forceExpanded />);
+      expect(screen.queryByRole('alert')).toBeNull();
+    });
+  });
+
+  describe('templates', () => {
+    const now = new Date();
+    const templates = [
+      { id: 'bug-triage', name: 'Bug triage', title: 'Triage: {{bug}}', subtasks: [{ title: 'Reproduce' }], dueOffset: '2d', createdAt: now, updatedAt: now }
+    ];
+
+    it('asks for the template variables and creates from the template', async () => {
+      const onCreateFromTemplate = vi.fn().mockResolvedValue(undefined);
+      render(<TaskForm onCreateTask={mockOnCreate} forceExpanded templates={templates} onCreateFromTemplate={onCreateFromTemplate} />);
+
+      fireEvent.change(screen.getByLabelText('Start from Template'), { target: { value: 'bug-triage' } });
+      expect(screen.queryByPlaceholderText(/what needs to be done/i)).toBeNull();
+      expect(screen.getByText('Creates 1 subtask · due in 2d')).toBeDefined();
+
+      const bug = screen.getByLabelText('bug *');
+      fireEvent.change(bug, { target: { value: 'Login fails' } });
+      fireEvent.submit(bug.closest('form')!);
+
+      expect(onCreateFromTemplate).toHaveBeenCalledWith('bug-triage', { bug: 'Login fails' }, undefined);
+      expect(mockOnCreate).not.toHaveBeenCalled();
+      await waitFor(() => expect(screen.getByText('Create from Template').hasAttribute('disabled')).toBe(false));
+    });
+
+    it('shows the error when creating from the template fails', async () => {
+      const onCreateFromTemplate = vi.fn().mockResolvedValue('Parent task p1 not found');
+      render(<TaskForm onCreateTask={mockOnCreate} forceExpanded templates={templates} onCreateFromTemplate={onCreateFromTemplate} />);
+
+      fireEvent.change(screen.getByLabelText('Start from Template'), { target: { value: 'bug-triage' } });
+      fireEvent.change(screen.getByLabelText('bug *'), { target: { value: 'x' } });
+      fireEvent.click(screen.getByText('Create from Template'));
+
+      expect((await screen.findByRole('alert')).textContent).toBe('Parent task p1 not found');
+    });
+  });
+
   describe('noCard mode', () => {
     it('renders form without Card wrapper when noCard is true', () => {
       const { container } = render(
@@ -1,11 +1,14 @@
 import React, { useState } from 'react';
-import { TaskyTaskSchema } from '../../types/task';
+import { TaskyTaskSchema, TaskRecurrenceRule, RecurrenceWeekday, TaskTemplate } from '../../types/task';
 import { Card, CardContent } from '../ui/card';
 import { Input } from '../ui/input';
 import { Label } from '../ui/label';
 import { Button } from '../ui/button';
-import { Plus, FileText, FolderOpen, User, Upload } from 'lucide-react';
+import { Plus, FileText, FolderOpen, User, Upload, ListChecks, GitBranch, Repeat, AlertTriangle, LayoutTemplate } from 'lucide-react';
 import { Select } from '../ui/select';
+import { normalizeChecklist } from '../../lib/task-hierarchy';
+import { RECURRENCE_WEEKDAYS, describeRecurrence } from '../../lib/task-recurrence';
+import { getTemplateVariables } from '../../lib/task-templates';
 
 interface TaskFormProps {
   onCreateTask: (task: Omit<TaskyTaskSchema, 'id' | 'createdAt'>) => void;
@@ -17,22 +20,104 @@ interface TaskFormProps {
   onCancel?: () => void;
   // New prop to disable card wrapper when used in modals
   noCard?: boolean;
+  // Candidate parent tasks; the parent picker is hidden when omitted
+  parentOptions?: Array<{ id: string; title: string }>;
+  // Set when saving hit a version conflict and `initial` holds the merged values
+  conflict?: { fields: string[]; onUseTheirs: () => void };
+  // Offered as "Start from template" when given; the create call resolves with an error message, if any
+  templates?: TaskTemplate[];
+  onCreateFromTemplate?: (templateId: string, values: Record<string, string>, parentId?: string) => Promise<string | undefined>;
 }
 
-export const TaskForm: React.FC<TaskFormProps> = ({ onCreateTask, initial, submitLabel, onSubmitOverride, forceExpanded, onCancel: _onCancel, noCard }) => {
+// Flat form state for the recurrence editor; converted to a TaskRecurrenceRule on submit
+interface RecurrenceFormState {
+  frequency: '' | TaskRecurrenceRule['frequency'];
+  interval: string;
+  byWeekday: RecurrenceWeekday[];
+  monthlyMode: 'day' | 'nth';
+  byMonthDay: string;
+  nth: string;
+  nthWeekday: RecurrenceWeekday;
+  count: string;
+  until: string;
+}
+
+const toRecurrenceForm = (rule?: TaskRecurrenceRule): RecurrenceFormState => ({
+  frequency: rule?.frequency || '',
+  interval: String(rule?.interval || 1),
+  byWeekday: rule?.byWeekday || [],
+  monthlyMode: rule?.byNthWeekday ? 'nth' : 'day',
+  byMonthDay: rule?.byMonthDay !== undefined ? String(rule.byMonthDay) : '',
+  nth: String(rule?.byNthWeekday?.nth ?? 1),
+  nthWeekday: rule?.byNthWeekday?.weekday || 'MO',
+  count: rule?.count !== undefined ? String(rule.count) : '',
+  until: rule?.until ? new Date(rule.until).toISOString().slice(0, 10) : ''
+});
+
+const toRecurrenceRule = (form: RecurrenceFormState): TaskRecurrenceRule | undefined => {
+  if (!form.frequency) return undefined;
+  const rule: TaskRecurrenceRule = { frequency: form.frequency };
+  const interval = parseInt(form.interval, 10);
+  if (interval > 1) rule.interval = interval;
+  if (form.frequency === 'weekly' && form.byWeekday.length > 0) {
+    rule.byWeekday = RECURRENCE_WEEKDAYS.filter(d => form.byWeekday.includes(d));
+  }
+  if (form.frequency === 'monthly') {
+    if (form.monthlyMode === 'nth') {
+      rule.byNthWeekday = { nth: parseInt(form.nth, 10), weekday: form.nthWeekday };
+    } else if (form.byMonthDay) {
+      rule.byMonthDay = parseInt(form.byMonthDay, 10);
+    }
+  }
+  const count = parseInt(form.count, 10);
+  if (count > 0) rule.count = count;
+  if (form.until) rule.until = new Date(`${form.until}T23:59:59`);
+  return rule;
+};
+
+export const TaskForm: React.FC<TaskFormProps> = ({ onCreateTask, initial, submitLabel, onSubmitOverride, forceExpanded, onCancel: _onCancel, noCard, parentOptions, conflict, templates, onCreateFromTemplate }) => {
   const [isExpanded, setIsExpanded] = useState(false);
   const [formData, setFormData] = useState({
     title: (initial?.title as string) || '',
     description: (initial?.description as string) || '',
     assignedAgent: (initial?.assignedAgent as string) || 'claude',
     affectedFiles: Array.isArray(initial?.affectedFiles) ? (initial!.affectedFiles as string[]).join('\n') : '',
-    executionPath: (initial?.executionPath as string) || ''
+    executionPath: (initial?.executionPath as string) || '',
+    checklist: Array.isArray(initial?.checklist) ? initial!.checklist!.map(item => item.text).join('\n') : '',
+    parentId: (initial?.parentId as string) || ''
   });
+  const [recurrence, setRecurrence] = useState<RecurrenceFormState>(() => toRecurrenceForm(initial?.recurrence));
+  const recurrenceRule = toRecurrenceRule(recurrence);
 
   const agents = ['gemini', 'claude'];
 
+  // Template mode replaces the fields below with the template's variables
+  const [templateId, setTemplateId] = useState('');
+  const [templateValues, setTemplateValues] = useState<Record<string, string>>({});
+  const [templateError, setTemplateError] = useState<string | null>(null);
+  const [templateBusy, setTemplateBusy] = useState(false);
+  const selectedTemplate = templates?.find(t => t.id === templateId);
+  const templateVariables = selectedTemplate ? getTemplateVariables(selectedTemplate) : [];
+
+  const submitTemplate = async () => {
+    if (!selectedTemplate || !onCreateFromTemplate) return;
+    setTemplateBusy(true);
+    setTemplateError(null);
+    try {
+      const error = await onCreateFromTemplate(selectedTemplate.id, templateValues, formData.parentId || undefined);
+      if (error) setTemplateError(error);
+    } finally {
+      setTemplateBusy(false);
+    }
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+
+    if (selectedTemplate) {
+      submitTemplate();
+      return;
+    }
     
     if (!formData.title.trim()) return;
 
@@ -47,12 +132,23 @@ export const TaskForm: React.FC<TaskFormProps> = ({ onCreateTask, initial, submi
       ? (formData.assignedAgent as 'gemini' | 'claude')
       : 'claude';
 
+    // One checklist item per line; keep id/done of items that already existed with the same text
+    const existingChecklist = initial?.checklist || [];
+    const checklist = normalizeChecklist(
+      formData.checklist
+        .split(/\r?\n/)
+        .map(text => existingChecklist.find(item => item.text === text.trim()) || { text })
+    );
+
     const taskData: Omit<TaskyTaskSchema, 'id' | 'createdAt'> = {
       title: formData.title.trim(),
       description: formData.description.trim() || undefined,
       affectedFiles: affectedFiles.length > 0 ? affectedFiles : undefined,
       assignedAgent: normalizedAgent,
       executionPath: formData.executionPath.trim() || undefined,
+      parentId: formData.parentId || undefined,
+      checklist,
+      recurrence: recurrenceRule,
       updatedAt: new Date()
     };
 
@@ -68,8 +164,11 @@ export const TaskForm: React.FC<TaskFormProps> = ({ onCreateTask, initial, submi
       description: '',
       assignedAgent: 'claude',
       affectedFiles: '',
-      executionPath: ''
+      executionPath: '',
+      checklist: '',
+      parentId: ''
     });
+    setRecurrence(toRecurrenceForm());
     setIsExpanded(false);
   };
 
@@ -77,6 +176,17 @@ export const TaskForm: React.FC<TaskFormProps> = ({ onCreateTask, initial, submi
     setFormData(prev => ({ ...prev, [field]: value }));
   };
 
+  const handleRecurrenceChange = <K extends keyof RecurrenceFormState>(field: K, value: RecurrenceFormState[K]) => {
+    setRecurrence(prev => ({ ...prev, [field]: value }));
+  };
+
+  const toggleWeekday = (day: RecurrenceWeekday) => {
+    setRecurrence(prev => ({
+      ...prev,
+      byWeekday: prev.byWeekday.includes(day) ? prev.byWeekday.filter(d => d !== day) : [...prev.byWeekday, day]
+    }));
+  };
+
   if (!forceExpanded && !isExpanded) {
     return (
       <Card className="task-form-collapsed">
@@ -99,116 +209,346 @@ export const TaskForm: React.FC<TaskFormProps> = ({ onCreateTask, initial, submi
 
   const formContent = (
     <form onSubmit={handleSubmit} className="space-y-4 max-w-5xl mx-auto w-full">
-          {/* Title - Required */}
-          <div>
-            <Label htmlFor="task-title" className="text-sm font-medium text-foreground">
-              Task Title *
-            </Label>
-            <Input
-              id="task-title"
-              type="text"
-              placeholder="What needs to be done?"
-              value={formData.title}
-              onChange={(e: React.ChangeEvent<HTMLInputElement>) => handleInputChange('title', e.target.value)}
-              className="mt-1 bg-background text-foreground border-border/30 rounded-2xl"
-              required
-            />
-          </div>
-
-          {/* Description */}
-          <div>
-            <Label htmlFor="task-description" className="text-sm font-medium text-foreground">
-              Description
-            </Label>
-            <textarea
-              id="task-description"
-              placeholder="Add more details about this task..."
-              value={formData.description}
-              onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => handleInputChange('description', e.target.value)}
-              className="mt-1 w-full bg-background text-foreground border border-border/30 rounded-2xl px-4 py-3 text-sm focus:ring-2 focus:ring-primary/20 focus:border-primary/40 transition-colors resize-none shadow"
-              rows={4}
-            />
-          </div>
+          {/* Version conflict: changes were merged with the copy saved elsewhere */}
+          {conflict && (
+            <div role="alert" className="rounded-2xl border border-warning/30 bg-warning/15 text-warning-foreground p-3 text-sm space-y-2">
+              <div className="flex items-center gap-2 font-medium">
+                <AlertTriangle className="h-4 w-4" />
+                This task was changed elsewhere while you were editing
+              </div>
+              <p>
+                {conflict.fields.length > 0
+                  ? `Their other changes were merged in; your edits to ${conflict.fields.join(', ')} replace theirs.`
+                  : 'Their changes were merged with yours.'}
+                {' '}Save again to keep this version.
+              </p>
+              <Button type="button" variant="outline" onClick={conflict.onUseTheirs} className="rounded-2xl">
+                Use their version
+              </Button>
+            </div>
+          )}
 
-          {/* Assigned Agent */}
-          <div className="grid md:grid-cols-2 gap-3 items-center">
-            <Label htmlFor="task-agent" className="text-sm font-medium flex items-center gap-1 text-foreground">
-              <User className="h-4 w-4" />
-              Assigned Agent
-            </Label>
-            <div>
-              <Select
-                value={formData.assignedAgent}
-                onValueChange={(val: string) => handleInputChange('assignedAgent', val)}
-                className="mt-1 w-full"
-              >
-                <option value="">Select an agent...</option>
-                {agents.map(a => (
-                  <option key={a} value={a}>{a}</option>
-                ))}
-              </Select>
+          {/* Start from template (create only) */}
+          {templates && templates.length > 0 && onCreateFromTemplate && (
+            <div className="grid md:grid-cols-2 gap-3 items-center">
+              <Label htmlFor="task-template" className="text-sm font-medium flex items-center gap-1 text-foreground">
+                <LayoutTemplate className="h-4 w-4" />
+                Start from Template
+              </Label>
+              <div>
+                <Select
+                  value={templateId}
+                  onValueChange={(val: string) => { setTemplateId(val); setTemplateValues({}); setTemplateError(null); }}
+                  className="mt-1 w-full"
+                  aria-label="Start from Template"
+                >
+                  <option value="">Blank task</option>
+                  {templates.map(t => (
+                    <option key={t.id} value={t.id}>{t.name}</option>
+                  ))}
+                </Select>
+              </div>
             </div>
-          </div>
+          )}
 
-          {/* Execution Path */}
-          <div>
-            <Label htmlFor="task-exec-path" className="text-sm font-medium flex items-center gap-1 text-foreground">
-              <FolderOpen className="h-4 w-4" />
-              Execution Path
-            </Label>
-            <div className="space-y-2">
+          {selectedTemplate ? (
+            <div className="rounded-2xl border border-border/30 p-3 space-y-3">
+              <p className="text-sm text-foreground">{selectedTemplate.title}</p>
+              <p className="text-xs text-muted-foreground">
+                {selectedTemplate.subtasks?.length
+                  ? `Creates ${selectedTemplate.subtasks.length} subtask${selectedTemplate.subtasks.length === 1 ? '' : 's'}`
+                  : 'No subtasks'}
+                {selectedTemplate.dueOffset ? ` · due in ${selectedTemplate.dueOffset}` : ''}
+              </p>
+              {templateVariables.map(name => (
+                <div key={name}>
+                  <Label htmlFor={`template-var-${name}`} className="text-sm font-medium text-foreground">{name} *</Label>
+                  <Input
+                    id={`template-var-${name}`}
+                    type="text"
+                    value={templateValues[name] || ''}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => setTemplateValues(prev => ({ ...prev, [name]: e.target.value }))}
+                    className="mt-1 bg-background text-foreground border-border/30 rounded-2xl"
+                    required
+                  />
+                </div>
+              ))}
+              {templateError && <p role="alert" className="text-sm text-destructive">{templateError}</p>}
+            </div>
+          ) : (
+            <>
+            {/* Title - Required */}
+            <div>
+              <Label htmlFor="task-title" className="text-sm font-medium text-foreground">
+                Task Title *
+              </Label>
               <Input
-                id="task-exec-path"
+                id="task-title"
                 type="text"
-                placeholder="src/middleware"
-                value={formData.executionPath}
-                onChange={(e: React.ChangeEvent<HTMLInputElement>) => handleInputChange('executionPath', e.target.value)}
-                className="mt-1 w-full rounded-2xl"
+                placeholder="What needs to be done?"
+                value={formData.title}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => handleInputChange('title', e.target.value)}
+                className="mt-1 bg-background text-foreground border-border/30 rounded-2xl"
+                required
               />
+            </div>
+
+            {/* Description */}
+            <div>
+              <Label htmlFor="task-description" className="text-sm font-medium text-foreground">
+                Description
+              </Label>
+              <textarea
+                id="task-description"
+                placeholder="Add more details about this task..."
+                value={formData.description}
+                onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => handleInputChange('description', e.target.value)}
+                className="mt-1 w-full bg-background text-foreground border border-border/30 rounded-2xl px-4 py-3 text-sm focus:ring-2 focus:ring-primary/20 focus:border-primary/40 transition-colors resize-none shadow"
+                rows={4}
+              />
+            </div>
+
+            {/* Assigned Agent */}
+            <div className="grid md:grid-cols-2 gap-3 items-center">
+              <Label htmlFor="task-agent" className="text-sm font-medium flex items-center gap-1 text-foreground">
+                <User className="h-4 w-4" />
+                Assigned Agent
+              </Label>
               <div>
-                <Button type="button" size="sm" className="bg-button text-button-foreground hover:bg-button/90 rounded-xl border border-border" onClick={async () => {
-                  const dir = await window.electronAPI.selectDirectory();
-                  if (dir) setFormData(prev => ({ ...prev, executionPath: dir }));
-                }}>
-                  <Upload className="h-4 w-4 mr-2" /> Browse folder
-                </Button>
+                <Select
+                  value={formData.assignedAgent}
+                  onValueChange={(val: string) => handleInputChange('assignedAgent', val)}
+                  className="mt-1 w-full"
+                >
+                  <option value="">Select an agent...</option>
+                  {agents.map(a => (
+                    <option key={a} value={a}>{a}</option>
+                  ))}
+                </Select>
               </div>
             </div>
-          </div>
 
-          {/* Affected Files */}
-          <div>
-            <Label htmlFor="task-affected-files" className="text-sm font-medium flex items-center gap-1 text-foreground">
-              <FileText className="h-4 w-4" />
-              Affected Files (one per line or comma-separated)
-            </Label>
-            <div className="space-y-2">
+            {/* Execution Path */}
+            <div>
+              <Label htmlFor="task-exec-path" className="text-sm font-medium flex items-center gap-1 text-foreground">
+                <FolderOpen className="h-4 w-4" />
+                Execution Path
+              </Label>
+              <div className="space-y-2">
+                <Input
+                  id="task-exec-path"
+                  type="text"
+                  placeholder="src/middleware"
+                  value={formData.executionPath}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => handleInputChange('executionPath', e.target.value)}
+                  className="mt-1 w-full rounded-2xl"
+                />
+                <div>
+                  <Button type="button" size="sm" className="bg-button text-button-foreground hover:bg-button/90 rounded-xl border border-border" onClick={async () => {
+                    const dir = await window.electronAPI.selectDirectory();
+                    if (dir) setFormData(prev => ({ ...prev, executionPath: dir }));
+                  }}>
+                    <Upload className="h-4 w-4 mr-2" /> Browse folder
+                  </Button>
+                </div>
+              </div>
+            </div>
+
+            {/* Affected Files */}
+            <div>
+              <Label htmlFor="task-affected-files" className="text-sm font-medium flex items-center gap-1 text-foreground">
+                <FileText className="h-4 w-4" />
+                Affected Files (one per line or comma-separated)
+              </Label>
+              <div className="space-y-2">
+                <textarea
+                  id="task-affected-files"
+                  placeholder="src/middleware/auth.middleware.ts\nsrc/guards/jwt.guard.ts"
+                  value={formData.affectedFiles}
+                  onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => handleInputChange('affectedFiles', e.target.value)}
+                  className="mt-1 w-full bg-background text-foreground border border-border/30 rounded-2xl px-4 py-3 text-sm focus:ring-2 focus:ring-primary/20 focus:border-primary/40 transition-colors resize-none shadow"
+                  rows={4}
+                />
+                <div>
+                  <Button type="button" size="sm" className="bg-button text-button-foreground hover:bg-button/90 rounded-xl border border-border" onClick={async () => {
+                    const files: string[] = await window.electronAPI.selectFiles();
+                    if (files && files.length) {
+                      const merged = [formData.affectedFiles, ...files].filter(Boolean).join('\n');
+                      setFormData(prev => ({ ...prev, affectedFiles: merged }));
+                    }
+                  }}>
+                    <Upload className="h-4 w-4 mr-2" /> Add files from picker
+                  </Button>
+                </div>
+              </div>
+            </div>
+
+            {/* Checklist */}
+            <div>
+              <Label htmlFor="task-checklist" className="text-sm font-medium flex items-center gap-1 text-foreground">
+                <ListChecks className="h-4 w-4" />
+                Checklist (one item per line)
+              </Label>
               <textarea
-                id="task-affected-files"
-                placeholder="src/middleware/auth.middleware.ts\nsrc/guards/jwt.guard.ts"
-                value={formData.affectedFiles}
-                onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => handleInputChange('affectedFiles', e.target.value)}
+                id="task-checklist"
+                placeholder="Write migration\nUpdate docs"
+                value={formData.checklist}
+                onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => handleInputChange('checklist', e.target.value)}
                 className="mt-1 w-full bg-background text-foreground border border-border/30 rounded-2xl px-4 py-3 text-sm focus:ring-2 focus:ring-primary/20 focus:border-primary/40 transition-colors resize-none shadow"
-                rows={4}
+                rows={3}
               />
+            </div>
+
+            {/* Recurrence */}
+            <div className="space-y-2">
+              <div className="grid md:grid-cols-2 gap-3 items-center">
+                <Label htmlFor="task-repeat" className="text-sm font-medium flex items-center gap-1 text-foreground">
+                  <Repeat className="h-4 w-4" />
+                  Repeat
+                </Label>
+                <div>
+                  <Select
+                    value={recurrence.frequency}
+                    onValueChange={(val: string) => handleRecurrenceChange('frequency', val as RecurrenceFormState['frequency'])}
+                    className="mt-1 w-full"
+                    aria-label="Repeat"
+                  >
+                    <option value="">Does not repeat</option>
+                    <option value="daily">Daily</option>
+                    <option value="weekly">Weekly</option>
+                    <option value="monthly">Monthly</option>
+                  </Select>
+                </div>
+              </div>
+
+              {recurrence.frequency && (
+                <div className="rounded-2xl border border-border/30 p-3 space-y-3">
+                  <div className="flex items-center gap-2 text-sm text-foreground">
+                    <span>Every</span>
+                    <Input
+                      type="number"
+                      min={1}
+                      aria-label="Repeat interval"
+                      value={recurrence.interval}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) => handleRecurrenceChange('interval', e.target.value)}
+                      className="w-20 rounded-xl"
+                    />
+                    <span>{recurrence.frequency === 'daily' ? 'day(s)' : recurrence.frequency === 'weekly' ? 'week(s)' : 'month(s)'}</span>
+                  </div>
+
+                  {recurrence.frequency === 'weekly' && (
+                    <div className="flex flex-wrap gap-1">
+                      {RECURRENCE_WEEKDAYS.map(day => (
+                        <Button
+                          key={day}
+                          type="button"
+                          size="sm"
+                          variant={recurrence.byWeekday.includes(day) ? 'default' : 'outline'}
+                          aria-pressed={recurrence.byWeekday.includes(day)}
+                          className="rounded-xl px-2"
+                          onClick={() => toggleWeekday(day)}
+                        >
+                          {day}
+                        </Button>
+                      ))}
+                    </div>
+                  )}
+
+                  {recurrence.frequency === 'monthly' && (
+                    <div className="flex flex-wrap items-center gap-2 text-sm text-foreground">
+                      <Select
+                        value={recurrence.monthlyMode}
+                        onValueChange={(val: string) => handleRecurrenceChange('monthlyMode', val as 'day' | 'nth')}
+                        aria-label="Monthly mode"
+                      >
+                        <option value="day">On day</option>
+                        <option value="nth">On the</option>
+                      </Select>
+                      {recurrence.monthlyMode === 'day' ? (
+                        <Input
+                          type="number"
+                          min={-1}
+                          max={31}
+                          placeholder="same day"
+                          aria-label="Day of month"
+                          value={recurrence.byMonthDay}
+                          onChange={(e: React.ChangeEvent<HTMLInputElement>) => handleRecurrenceChange('byMonthDay', e.target.value)}
+                          className="w-24 rounded-xl"
+                        />
+                      ) : (
+                        <>
+                          <Select value={recurrence.nth} onValueChange={(val: string) => handleRecurrenceChange('nth', val)} aria-label="Week of month">
+                            <option value="1">1st</option>
+                            <option value="2">2nd</option>
+                            <option value="3">3rd</option>
+                            <option value="4">4th</option>
+                            <option value="-1">last</option>
+                          </Select>
+                          <Select value={recurrence.nthWeekday} onValueChange={(val: string) => handleRecurrenceChange('nthWeekday', val as RecurrenceWeekday)} aria-label="Weekday">
+                            {RECURRENCE_WEEKDAYS.map(day => (
+                              <option key={day} value={day}>{day}</option>
+                            ))}
+                          </Select>
+                        </>
+                      )}
+                    </div>
+                  )}
+
+                  <div className="grid md:grid-cols-2 gap-2 text-sm">
+                    <Input
+                      type="number"
+                      min={1}
+                      placeholder="Occurrences (optional)"
+                      aria-label="Number of occurrences"
+                      value={recurrence.count}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) => handleRecurrenceChange('count', e.target.value)}
+                      className="rounded-xl"
+                    />
+                    <Input
+                      type="date"
+                      aria-label="Repeat until"
+                      value={recurrence.until}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) => handleRecurrenceChange('until', e.target.value)}
+                      className="rounded-xl"
+                    />
+                  </div>
+
+                  {recurrenceRule && (
+                    <p className="text-xs text-muted-foreground">{describeRecurrence(recurrenceRule)}</p>
+                  )}
+                </div>
+              )}
+            </div>
+            </>
+          )}
+
+          {/* Parent Task */}
+          {parentOptions && parentOptions.length > 0 && (
+            <div className="grid md:grid-cols-2 gap-3 items-center">
+              <Label htmlFor="task-parent" className="text-sm font-medium flex items-center gap-1 text-foreground">
+                <GitBranch className="h-4 w-4" />
+                Parent Task
+              </Label>
               <div>
-                <Button type="button" size="sm" className="bg-button text-button-foreground hover:bg-button/90 rounded-xl border border-border" onClick={async () => {
-                  const files: string[] = await window.electronAPI.selectFiles();
-                  if (files && files.length) {
-                    const merged = [formData.affectedFiles, ...files].filter(Boolean).join('\n');
-                    setFormData(prev => ({ ...prev, affectedFiles: merged }));
-                  }
-                }}>
-                  <Upload className="h-4 w-4 mr-2" /> Add files from picker
-                </Button>
+                <Select
+                  value={formData.parentId}
+                  onValueChange={(val: string) => handleInputChange('parentId', val)}
+                  className="mt-1 w-full"
+                >
+                  <option value="">No parent (top level)</option>
+                  {parentOptions.map(p => (
+                    <option key={p.id} value={p.id}>{p.title}</option>
+                  ))}
+                </Select>
               </div>
             </div>
-          </div>
+          )}
 
           {/* Action Buttons */}
           <div className="flex gap-3 pt-2">
             <Button 
               type="submit" 
+              disabled={templateBusy}
               className="w-full bg-button text-button-foreground hover:bg-button/90 shadow-xl hover:shadow-2xl transition-all duration-300 hover:scale-[1.02] rounded-2xl py-3 font-semibold"
               style={{
                 backgroundColor: `hsl(var(--button))`,
@@ -216,7 +556,7 @@ export const TaskForm: React.FC<TaskFormProps> = ({ onCreateTask, initial, submi
               }}
             >
               <Plus className="h-4 w-4 mr-2" />
-              {submitLabel || 'Create Task'}
+              {selectedTemplate ? 'Create from Template' : submitLabel || 'Create Task'}
             </Button>
           </div>
         </form>
@@ -0,0 +1,64 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { TaskHistory } from './TaskHistory';
+import { TaskRevision, TaskStatus, TaskyTask } from '../../types/task';
+
+vi.mock('../ui/button', () => ({
+  Button: ({ children, onClick, ...props }: any) => (
+    <button onClick={onClick} {...props}>{children}</button>
+  ),
+}));
+
+function revision(id: number, overrides: Partial<TaskRevision>): TaskRevision {
+  const snapshot: TaskyTask = {
+    status: TaskStatus.PENDING,
+    schema: { id: 't1', title: 'Write docs', createdAt: new Date('2025-01-01T00:00:00Z') }
+  };
+  return { id, taskId: 't1', op: 'update', actor: 'ui', changes: {}, snapshot, createdAt: new Date('2025-01-02T10:00:00Z'), ...overrides };
+}
+
+describe('TaskHistory', () => {
+  const api = window.electronAPI as any;
+
+  beforeEach(() => {
+    api.getTaskHistory.mockReset();
+    api.restoreTaskRevision.mockReset().mockResolvedValue({});
+  });
+
+  it('lists revisions newest first with actor and field changes', async () => {
+    api.getTaskHistory.mockResolvedValue([
+      revision(2, { actor: 'mcp', changes: { title: { from: 'Draft', to: 'Write docs' }, tags: { to: ['docs', 'api'] } } }),
+      revision(1, { op: 'create', actor: 'chat', changes: { title: { to: 'Draft' } } })
+    ]);
+    render(<TaskHistory taskId="t1" timeFormat="24h" />);
+
+    expect(await screen.findByText('MCP agent updated')).toBeDefined();
+    expect(screen.getByText('Chat created')).toBeDefined();
+    expect(screen.getByText(/Draft → Write docs/)).toBeDefined();
+    expect(screen.getByText(/— → docs, api/)).toBeDefined();
+    expect(api.getTaskHistory).toHaveBeenCalledWith('t1');
+  });
+
+  it('restores an earlier revision and reloads the history', async () => {
+    api.getTaskHistory.mockResolvedValue([revision(2, {}), revision(1, { op: 'create' })]);
+    render(<TaskHistory taskId="t1" timeFormat="12h" />);
+
+    // The newest revision is the current state, so only older ones can be restored
+    await screen.findByText('You created');
+    expect(screen.queryByLabelText('Restore revision 2')).toBeNull();
+    fireEvent.click(screen.getByLabelText('Restore revision 1'));
+
+    await waitFor(() => expect(api.restoreTaskRevision).toHaveBeenCalledWith('t1', 1));
+    await waitFor(() => expect(api.getTaskHistory).toHaveBeenCalledTimes(2));
+  });
+
+  it('explains a conflicting restore', async () => {
+    api.getTaskHistory.mockResolvedValue([revision(2, {}), revision(1, { op: 'create' })]);
+    api.restoreTaskRevision.mockResolvedValue({ conflict: { taskId: 't1', expectedVersion: 2, actualVersion: 3 } });
+    render(<TaskHistory taskId="t1" timeFormat="12h" />);
+
+    fireEvent.click(await screen.findByLabelText('Restore revision 1'));
+    expect(await screen.findByText(/changed while restoring/)).toBeDefined();
+  });
+});
@@ -0,0 +1,120 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { TaskActor, TaskRevision } from '../../types/task';
+import { Button } from '../ui/button';
+
+interface TaskHistoryProps {
+  taskId: string;
+  timeFormat: '12h' | '24h';
+}
+
+const ACTOR_LABELS: Record<TaskActor, string> = {
+  ui: 'You',
+  chat: 'Chat',
+  mcp: 'MCP agent',
+  import: 'Import',
+  automation: 'Tasky',
+  api: 'REST API'
+};
+
+const OP_LABELS: Record<TaskRevision['op'], string> = {
+  create: 'created',
+  update: 'updated',
+  delete: 'deleted',
+  restore: 'restored'
+};
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '—';
+  if (Array.isArray(value)) {
+    if (value.length === 0) return '—';
+    // Checklist items are objects; show their text
+    return value.map(v => (v && typeof v === 'object' && 'text' in v ? (v as any).text : String(v))).join(', ');
+  }
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+/**
+ * Revision history of one task, newest first, with a restore action for earlier versions.
+ */
+export const TaskHistory: React.FC<TaskHistoryProps> = ({ taskId, timeFormat }) => {
+  const [revisions, setRevisions] = useState<TaskRevision[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [restoringId, setRestoringId] = useState<number | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      setRevisions(await window.electronAPI.getTaskHistory(taskId));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to load history');
+    }
+  }, [taskId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const restore = async (revision: TaskRevision) => {
+    setRestoringId(revision.id);
+    setError(null);
+    try {
+      const result = await window.electronAPI.restoreTaskRevision(taskId, revision.id);
+      if (result?.conflict) setError('The task changed while restoring; check the latest version and try again.');
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to restore task');
+    } finally {
+      setRestoringId(null);
+      await load();
+    }
+  };
+
+  const formatWhen = (date: Date | string) => {
+    const d = new Date(date);
+    return `${d.toLocaleDateString()} ${d.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', hour12: timeFormat === '12h' })}`;
+  };
+
+  return (
+    <div className="task-history mt-3 rounded-xl border border-border/30 bg-background/60 p-3">
+      <div className="text-sm font-medium text-foreground mb-2">History</div>
+      {error && <p className="text-sm text-destructive mb-2">{error}</p>}
+      {revisions === null ? (
+        !error && <p className="text-sm text-muted-foreground">Loading…</p>
+      ) : revisions.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No changes recorded yet</p>
+      ) : (
+        <ol className="space-y-3">
+          {revisions.map((revision, index) => (
+            <li key={revision.id} className="task-revision text-sm">
+              <div className="flex items-center gap-2 flex-wrap">
+                <span className="text-muted-foreground">{formatWhen(revision.createdAt)}</span>
+                <span className="text-foreground">{ACTOR_LABELS[revision.actor] || revision.actor} {OP_LABELS[revision.op]}</span>
+                {/* The newest revision is the current state */}
+                {index > 0 && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="rounded-lg h-7 px-2 text-xs"
+                    aria-label={`Restore revision ${revision.id}`}
+                    disabled={restoringId !== null}
+                    onClick={() => restore(revision)}
+                  >
+                    {restoringId === revision.id ? 'Restoring…' : 'Restore'}
+                  </Button>
+                )}
+              </div>
+              {Object.keys(revision.changes).length > 0 && (
+                <ul className="mt-1 ml-3 space-y-0.5 text-xs text-muted-foreground">
+                  {Object.entries(revision.changes).map(([field, change]) => (
+                    <li key={field}>
+                      <span className="font-medium text-foreground/80">{field}</span>: {formatValue(change.from)} → {formatValue(change.to)}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
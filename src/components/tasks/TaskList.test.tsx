@@ -45,6 +45,16 @@ vi.mock('lucide-react', () => ({
   FileText: ({ className }: any) => <span className={className}>FileText</span>,
   FolderOpen: ({ className }: any) => <span className={className}>FolderOpen</span>,
   User: ({ className }: any) => <span className={className}>User</span>,
+  ChevronRight: ({ className }: any) => <span className={className}>ChevronRight</span>,
+  ChevronDown: ({ className }: any) => <span className={className}>ChevronDown</span>,
+  CornerDownRight: ({ className }: any) => <span className={className}>Subtask</span>,
+  Repeat: ({ className }: any) => <span className={className}>Repeat</span>,
+  History: ({ className }: any) => <span className={className}>History</span>,
+  Copy: ({ className }: any) => <span className={className}>Copy</span>,
+  BellPlus: ({ className }: any) => <span className={className}>BellPlus</span>,
+  Timer: ({ className }: any) => <span className={className}>Timer</span>,
+  TimerOff: ({ className }: any) => <span className={className}>TimerOff</span>,
+  ClockPlus: ({ className }: any) => <span className={className}>ClockPlus</span>,
 }));
 
 // Helper to create a mock task
@@ -84,6 +94,11 @@ describe('TaskList', () => {
       expect(screen.getByText(/no tasks found/i)).toBeDefined();
       expect(screen.getByText(/create your first task/i)).toBeDefined();
     });
+
+    it('shows a custom empty message', () => {
+      render(<TaskList {...defaultProps} tasks={[]} emptyMessage='No tasks match "deploy".' />);
+      expect(screen.getByText('No tasks match "deploy".')).toBeDefined();
+    });
   });
 
   describe('with tasks', () => {
@@ -97,6 +112,15 @@ describe('TaskList', () => {
       expect(screen.getByText('Second Task')).toBeDefined();
     });
 
+    it('renders search snippets with highlighted matches', () => {
+      const tasks = [mockTask({ schema: { id: 't1', title: 'Fix login', createdAt: new Date() } })];
+      const { container } = render(
+        <TaskList {...defaultProps} tasks={tasks} snippets={{ t1: 'Users cannot \u0002log in\u0003 with Google' }} />
+      );
+      expect(container.querySelector('mark')?.textContent).toBe('log in');
+      expect(container.querySelector('.task-search-snippet')?.textContent).toBe('Users cannot log in with Google');
+    });
+
     it('shows status badge for each task', () => {
       const tasks = [
         mockTask({ status: TaskStatus.PENDING, schema: { id: 't1', title: 'Pending Task', createdAt: new Date() } }),
@@ -205,6 +229,14 @@ describe('TaskList', () => {
       expect(screen.getByText('guard.ts')).toBeDefined();
     });
 
+    it('shows the recurrence summary for recurring tasks', () => {
+      const tasks = [
+        mockTask({ schema: { id: 't1', title: 'Weekly', recurrence: { frequency: 'weekly', byWeekday: ['MO', 'WE'] }, createdAt: new Date() } }),
+      ];
+      render(<TaskList {...defaultProps} tasks={tasks} />);
+      expect(screen.getByText('Every week on Mon, Wed')).toBeDefined();
+    });
+
     it('displays in_progress status badge correctly', () => {
       const tasks = [
         mockTask({ status: TaskStatus.IN_PROGRESS, schema: { id: 't1', title: 'WIP', createdAt: new Date() } }),
@@ -212,5 +244,144 @@ describe('TaskList', () => {
       render(<TaskList {...defaultProps} tasks={tasks} />);
       expect(screen.getByText('in progress')).toBeDefined();
     });
+
+    it('offers only the allowed workflow transitions as a status picker', () => {
+      const workflow = {
+        statuses: [
+          { id: TaskStatus.PENDING, label: 'Pending' },
+          { id: 'IN_QA', label: 'In QA' },
+          { id: TaskStatus.COMPLETED, label: 'Completed' }
+        ],
+        rules: [{ to: TaskStatus.COMPLETED, from: ['IN_QA'] }]
+      };
+      render(<TaskList {...defaultProps} workflow={workflow} tasks={[mockTask({ schema: { id: 'task-1', title: 'Ship', createdAt: new Date() } })]} />);
+
+      const picker = screen.getByLabelText('Status of Ship') as HTMLSelectElement;
+      expect(Array.from(picker.options).map(o => o.textContent)).toEqual(['Pending', 'In QA']);
+      fireEvent.change(picker, { target: { value: 'IN_QA' } });
+      expect(defaultProps.onUpdateTask).toHaveBeenCalledWith('task-1', { status: 'IN_QA' });
+    });
+  });
+
+  describe('subtask tree', () => {
+    const parent = () => mockTask({ schema: { id: 'p', title: 'Parent', createdAt: new Date() } });
+    const child = (status = TaskStatus.PENDING) =>
+      mockTask({ status, schema: { id: 'c', title: 'Child', parentId: 'p', createdAt: new Date() } });
+
+    it('nests subtasks under their parent and collapses them', () => {
+      render(<TaskList {...defaultProps} tasks={[parent(), child()]} />);
+      expect(screen.getByText('Child')).toBeDefined();
+      fireEvent.click(screen.getByLabelText('Collapse subtasks'));
+      expect(screen.queryByText('Child')).toBeNull();
+      fireEvent.click(screen.getByLabelText('Expand subtasks'));
+      expect(screen.getByText('Child')).toBeDefined();
+    });
+
+    it('shows rolled-up progress on the parent', () => {
+      render(<TaskList {...defaultProps} tasks={[parent(), child(TaskStatus.COMPLETED)]} />);
+      expect(screen.getByText(/1\/1 · 100%/)).toBeDefined();
+    });
+
+    it('asks for confirmation before completing a parent with open subtasks', () => {
+      const onUpdate = vi.fn();
+      const confirmSpy = vi.spyOn(window, 'confirm').mockReturnValue(false);
+      render(<TaskList {...defaultProps} tasks={[parent(), child()]} onUpdateTask={onUpdate} />);
+      fireEvent.click(screen.getAllByRole('checkbox')[0]);
+      expect(confirmSpy).toHaveBeenCalled();
+      expect(onUpdate).not.toHaveBeenCalled();
+      confirmSpy.mockRestore();
+    });
+
+    it('toggles checklist items', () => {
+      const onUpdate = vi.fn();
+      const task = mockTask({ schema: { id: 't1', title: 'List', checklist: [{ id: 'i1', text: 'Step one', done: false }], createdAt: new Date() } });
+      render(<TaskList {...defaultProps} tasks={[task]} onUpdateTask={onUpdate} />);
+      fireEvent.click(screen.getByLabelText('Step one'));
+      expect(onUpdate).toHaveBeenCalledWith('t1', { checklist: [{ id: 'i1', text: 'Step one', done: true }] });
+    });
+
+    it('dispatches tasky:add-subtask from the add subtask button', () => {
+      const handler = vi.fn();
+      window.addEventListener('tasky:add-subtask', handler);
+      render(<TaskList {...defaultProps} tasks={[parent()]} />);
+      fireEvent.click(screen.getByTitle('Add Subtask'));
+      expect(handler).toHaveBeenCalledTimes(1);
+      window.removeEventListener('tasky:add-subtask', handler);
+    });
+  });
+
+  describe('history', () => {
+    it('toggles the revision history panel', async () => {
+      render(<TaskList {...defaultProps} tasks={[mockTask()]} />);
+      fireEvent.click(screen.getByLabelText('Show history'));
+      expect(await screen.findByText('No changes recorded yet')).toBeDefined();
+      expect(window.electronAPI.getTaskHistory).toHaveBeenCalledWith('task-1');
+
+      fireEvent.click(screen.getByLabelText('Hide history'));
+      expect(screen.queryByText('History', { selector: 'div' })).toBeNull();
+    });
+  });
+
+  describe('duplicate and convert', () => {
+    it('duplicates a task and converts it to a reminder', async () => {
+      render(<TaskList {...defaultProps} tasks={[mockTask()]} />);
+      fireEvent.click(screen.getByTitle('Duplicate Task'));
+      fireEvent.click(screen.getByTitle('Convert to Reminder'));
+
+      expect(window.electronAPI.duplicateTask).toHaveBeenCalledWith('task-1');
+      expect(window.electronAPI.convertTaskToReminder).toHaveBeenCalledWith('task-1');
+      await vi.waitFor(() => expect(window.electronAPI.showAssistant).toHaveBeenCalledTimes(2));
+    });
+  });
+
+  describe('time tracking', () => {
+    it('shows tracked time and starts, stops and logs time', async () => {
+      const tasks = [
+        mockTask({ schema: { id: 'a', title: 'Running', createdAt: new Date(), estimatedDuration: 90 } }),
+        mockTask({ schema: { id: 'b', title: 'Idle', createdAt: new Date() } })
+      ];
+      const running = { id: 7, taskId: 'a', startedAt: new Date(Date.now() - 5 * 60_000), source: 'timer' as const, actor: 'ui' as const };
+      render(<TaskList {...defaultProps} tasks={tasks} timeSummary={{ trackedMinutes: { a: 60 }, running }} />);
+
+      expect(screen.getByText(/1h 05m/).textContent).toContain('/ 1h 30m');
+      fireEvent.click(screen.getByLabelText('Stop timer'));
+      expect(window.electronAPI.stopTaskTimer).toHaveBeenCalledWith('a');
+      fireEvent.click(screen.getByLabelText('Start timer'));
+      expect(window.electronAPI.startTaskTimer).toHaveBeenCalledWith('b');
+
+      fireEvent.click(screen.getAllByLabelText('Log time')[1]);
+      fireEvent.change(screen.getByLabelText('Minutes spent'), { target: { value: '25' } });
+      fireEvent.click(screen.getByText('Log'));
+      await vi.waitFor(() => expect(window.electronAPI.logTaskTime).toHaveBeenCalledWith('b', expect.objectContaining({ note: undefined })));
+      const input = (window.electronAPI.logTaskTime as any).mock.calls[0][1];
+      expect(input.endedAt.getTime() - input.startedAt.getTime()).toBe(25 * 60_000);
+    });
+  });
+
+  describe('review', () => {
+    it('approves a task in review and needs a comment to reject', async () => {
+      const task = mockTask({ status: TaskStatus.NEEDS_REVIEW, result: 'Patched the parser', schema: { id: 'task-1', title: 'Fix parser', createdAt: new Date(), assignedAgent: 'claude' } });
+      render(<TaskList {...defaultProps} tasks={[task]} />);
+      expect(screen.getByText('Patched the parser')).toBeDefined();
+
+      fireEvent.click(screen.getByText('Request Changes'));
+      expect(screen.getByText(/Say what needs to change/)).toBeDefined();
+      expect(window.electronAPI.reviewTask).not.toHaveBeenCalled();
+
+      fireEvent.change(screen.getByLabelText('Review comment for Fix parser'), { target: { value: 'Add a test' } });
+      fireEvent.click(screen.getByText('Request Changes'));
+      expect(window.electronAPI.reviewTask).toHaveBeenCalledWith('task-1', 'reject', 'Add a test');
+      await vi.waitFor(() => expect((screen.getByLabelText('Review comment for Fix parser') as HTMLTextAreaElement).value).toBe(''));
+
+      fireEvent.click(screen.getByText('Approve'));
+      await vi.waitFor(() => expect(window.electronAPI.reviewTask).toHaveBeenLastCalledWith('task-1', 'approve', undefined));
+    });
+
+    it('shows who approved a completed task', () => {
+      const task = mockTask({ status: TaskStatus.COMPLETED, approvedBy: 'sam', approvedAt: new Date('2026-10-19T09:00:00Z') });
+      render(<TaskList {...defaultProps} tasks={[task]} />);
+      expect(screen.getByText(/Approved by sam/)).toBeDefined();
+      expect(screen.queryByText('Approve')).toBeNull();
+    });
   });
 });
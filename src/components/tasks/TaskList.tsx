@@ -1,9 +1,17 @@
-import React from 'react';
-import { TaskyTask, TaskStatus } from '../../types/task';
+import React, { useState } from 'react';
+import { TaskyTask, TaskStatus, TaskStatusId, TaskProgress, TaskTimeSummary, TaskWorkflow, ToolResult } from '../../types/task';
+import { buildTaskTree, calculateTaskProgress, getOpenDescendants, TaskTreeNode } from '../../lib/task-hierarchy';
+import { describeRecurrence } from '../../lib/task-recurrence';
+import { splitHighlights } from '../../lib/task-search';
+import { DEFAULT_TASK_WORKFLOW, getAllowedTransitions, isOpenStatus, statusLabel } from '../../lib/task-workflow';
 import { Card, CardContent } from '../ui/card';
 import { Button } from '../ui/button';
 import { Checkbox } from '../ui/checkbox';
 import { Badge } from '../ui/badge';
+import { Select } from '../ui/select';
+import { TaskHistory } from './TaskHistory';
+import { TaskReviewPanel } from './TaskReviewPanel';
+import { TaskTimer } from './TaskTimer';
 import { 
   CheckCircle2, 
   Circle, 
@@ -13,7 +21,14 @@ import {
   Archive,
   FileText,
   FolderOpen,
-  User
+  User,
+  ChevronRight,
+  ChevronDown,
+  CornerDownRight,
+  Repeat,
+  History,
+  Copy,
+  BellPlus
 } from 'lucide-react';
 
 interface TaskListProps {
@@ -22,6 +37,14 @@ interface TaskListProps {
   onDeleteTask: (id: string) => void;
   onEditTask?: (task: TaskyTask) => void;
   timeFormat: '12h' | '24h';
+  // Search snippets by task id, shown under the title
+  snippets?: Record<string, string>;
+  // Replaces the "create your first task" hint, e.g. when a search finds nothing
+  emptyMessage?: string;
+  // When given, the status badge becomes a picker limited to the allowed transitions
+  workflow?: TaskWorkflow;
+  // When given, open tasks show their tracked time with a start/stop timer
+  timeSummary?: TaskTimeSummary;
 }
 
 interface TaskItemProps {
@@ -29,11 +52,31 @@ interface TaskItemProps {
   onUpdateTask: (id: string, updates: Partial<TaskyTask>) => void;
   onDeleteTask: (id: string) => void;
   timeFormat: '12h' | '24h';
+  progress?: TaskProgress;
+  openSubtaskCount?: number;
+  childCount?: number;
+  collapsed?: boolean;
+  onToggleCollapsed?: () => void;
+  snippet?: string;
+  workflow?: TaskWorkflow;
+  timeSummary?: TaskTimeSummary;
 }
 
-const TaskItem: React.FC<TaskItemProps> = ({ task, onUpdateTask, onDeleteTask, timeFormat }) => {
+const TaskItem: React.FC<TaskItemProps> = ({ task, onUpdateTask, onDeleteTask, timeFormat, progress, openSubtaskCount = 0, childCount = 0, collapsed, onToggleCollapsed, snippet, workflow, timeSummary }) => {
+  const checklist = task.schema.checklist || [];
+  const [showHistory, setShowHistory] = useState(false);
 
-  const _getStatusIcon = (status: TaskStatus) => {
+  // Duplicate / convert: the main process pushes the reloaded list; only problems are reported
+  const runTaskAction = (action: () => Promise<ToolResult<unknown>>, done: string) => {
+    action()
+      .then(result => {
+        const warning = result.warnings?.length ? ` (${result.warnings.join('; ')})` : '';
+        window.electronAPI.showAssistant(result.success ? `${done}${warning}` : `⚠️ ${result.error}`);
+      })
+      .catch(console.error);
+  };
+
+  const _getStatusIcon = (status: TaskStatusId) => {
     switch (status) {
       case TaskStatus.COMPLETED:
         return <CheckCircle2 className="h-5 w-5" style={{ color: 'hsl(var(--success))' }} />;
@@ -48,7 +91,7 @@ const TaskItem: React.FC<TaskItemProps> = ({ task, onUpdateTask, onDeleteTask, t
     }
   };
 
-  const getStatusColor = (status: TaskStatus) => {
+  const getStatusColor = (status: TaskStatusId) => {
     switch (status) {
       case TaskStatus.COMPLETED:
         return 'border border-success/30' + ' ' + 'text-success-foreground' + ' ' + 'bg-success/15';
@@ -90,7 +133,7 @@ const TaskItem: React.FC<TaskItemProps> = ({ task, onUpdateTask, onDeleteTask, t
     };
   };
 
-  const handleStatusChange = (newStatus: TaskStatus) => {
+  const handleStatusChange = (newStatus: TaskStatusId) => {
     const updates: Partial<TaskyTask> = {
       status: newStatus,
       ...(newStatus === TaskStatus.COMPLETED && { completedAt: new Date() })
@@ -116,6 +159,10 @@ const TaskItem: React.FC<TaskItemProps> = ({ task, onUpdateTask, onDeleteTask, t
             <Checkbox
               checked={task.status === TaskStatus.COMPLETED}
               onCheckedChange={(checked) => {
+                if (checked && openSubtaskCount > 0) {
+                  const proceed = window.confirm(`"${task.schema.title}" still has ${openSubtaskCount} open subtask(s). Complete it anyway?`);
+                  if (!proceed) return;
+                }
                 const newStatus = checked ? TaskStatus.COMPLETED : TaskStatus.PENDING;
                 const updates: Partial<TaskyTask> = {
                   status: newStatus,
@@ -131,19 +178,64 @@ const TaskItem: React.FC<TaskItemProps> = ({ task, onUpdateTask, onDeleteTask, t
           <div className="flex-1 min-w-0 w-full">
             {/* Title and Status */}
             <div className="flex items-center gap-2 sm:gap-3 mb-2 flex-wrap">
+              {childCount > 0 && (
+                <button
+                  type="button"
+                  className="text-muted-foreground hover:text-foreground"
+                  title={collapsed ? 'Expand subtasks' : 'Collapse subtasks'}
+                  aria-label={collapsed ? 'Expand subtasks' : 'Collapse subtasks'}
+                  aria-expanded={!collapsed}
+                  onClick={onToggleCollapsed}
+                >
+                  {collapsed ? <ChevronRight className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                </button>
+              )}
               <h3 className={`font-semibold text-card-foreground ${
                 task.status === TaskStatus.COMPLETED ? 'line-through' : ''
               }`}>
                 {task.schema.title}
               </h3>
               
-              <Badge className={`text-xs border ${getStatusColor(task.status)} rounded-lg px-2 py-0.5`}> 
-                {task.status.replace('_', ' ').toLowerCase()}
-              </Badge>
+              {workflow ? (
+                <Select
+                  value={task.status}
+                  onValueChange={(status: string) => handleStatusChange(status)}
+                  className={`text-xs border ${getStatusColor(task.status)} rounded-lg px-2 py-0.5 cursor-pointer`}
+                  aria-label={`Status of ${task.schema.title}`}
+                >
+                  {getAllowedTransitions(workflow, task).map(status => (
+                    <option key={status} value={status}>{statusLabel(workflow, status)}</option>
+                  ))}
+                </Select>
+              ) : (
+                <Badge className={`text-xs border ${getStatusColor(task.status)} rounded-lg px-2 py-0.5`}> 
+                  {statusLabel(DEFAULT_TASK_WORKFLOW, task.status).toLowerCase()}
+                </Badge>
+              )}
+
+              {progress && progress.total > 0 && (
+                <span className="text-xs text-muted-foreground" title="Subtask and checklist progress">
+                  {progress.completed}/{progress.total} · {progress.percent}%
+                </span>
+              )}
             </div>
 
+            {snippet && (
+              <p className="task-search-snippet text-sm text-muted-foreground mb-2">
+                {splitHighlights(snippet).map((part, i) => part.highlight
+                  ? <mark key={i} className="bg-primary/20 text-foreground rounded px-0.5">{part.text}</mark>
+                  : <React.Fragment key={i}>{part.text}</React.Fragment>)}
+              </p>
+            )}
+
+            {progress && progress.total > 0 && (
+              <div className="h-1.5 w-full rounded-full bg-muted/40 mb-3 overflow-hidden">
+                <div className="h-full rounded-full bg-success" style={{ width: `${progress.percent}%` }} />
+              </div>
+            )}
+
             {/* Dev task details */}
-            {(task.schema.assignedAgent || task.schema.executionPath) && (
+            {(task.schema.assignedAgent || task.schema.executionPath || task.schema.recurrence) && (
               <div className="flex flex-wrap items-center gap-2 text-xs mb-3">
                 {task.schema.assignedAgent && (
                   <span className="inline-flex items-center gap-1 px-2 py-1 rounded-lg border border-border/30 bg-secondary/30"><User className="h-3 w-3" />{task.schema.assignedAgent}</span>
@@ -151,11 +243,41 @@ const TaskItem: React.FC<TaskItemProps> = ({ task, onUpdateTask, onDeleteTask, t
                 {task.schema.executionPath && (
                   <span className="inline-flex items-center gap-1 px-2 py-1 rounded-lg border border-border/30 bg-secondary/30"><FolderOpen className="h-3 w-3" />{task.schema.executionPath}</span>
                 )}
+                {task.schema.recurrence && (
+                  <span className="inline-flex items-center gap-1 px-2 py-1 rounded-lg border border-border/30 bg-secondary/30"><Repeat className="h-3 w-3" />{describeRecurrence(task.schema.recurrence)}</span>
+                )}
               </div>
             )}
 
+            {timeSummary && (isOpenStatus(task.status) || timeSummary.trackedMinutes[task.schema.id]) && (
+              <TaskTimer
+                task={task}
+                trackedMinutes={timeSummary.trackedMinutes[task.schema.id] || 0}
+                running={timeSummary.running?.taskId === task.schema.id ? timeSummary.running : undefined}
+              />
+            )}
+
             {/* Description removed per request */}
 
+            {/* Checklist */}
+            {checklist.length > 0 && (
+              <ul className="mb-3 space-y-1">
+                {checklist.map(item => (
+                  <li key={item.id} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={item.done}
+                      aria-label={item.text}
+                      onCheckedChange={(checked) => {
+                        const next = checklist.map(c => (c.id === item.id ? { ...c, done: !!checked } : c));
+                        onUpdateTask(task.schema.id, { checklist: next } as any);
+                      }}
+                    />
+                    <span className={item.done ? 'line-through text-muted-foreground' : 'text-foreground'}>{item.text}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+
             {/* Affected files */}
             {task.schema.affectedFiles && task.schema.affectedFiles.length > 0 && (
               <div className="mb-2">
@@ -172,6 +294,16 @@ const TaskItem: React.FC<TaskItemProps> = ({ task, onUpdateTask, onDeleteTask, t
                 </div>
               </div>
             )}
+
+            {task.status === TaskStatus.COMPLETED && task.approvedBy && (
+              <p className="text-xs text-muted-foreground mb-2">
+                Approved by {task.approvedBy}{task.approvedAt ? ` on ${new Date(task.approvedAt).toLocaleDateString()}` : ''}
+              </p>
+            )}
+
+            {task.status === TaskStatus.NEEDS_REVIEW && <TaskReviewPanel task={task} />}
+
+            {showHistory && <TaskHistory taskId={task.schema.id} timeFormat={timeFormat} />}
           </div>
 
           {/* Action Buttons */}
@@ -195,6 +327,21 @@ const TaskItem: React.FC<TaskItemProps> = ({ task, onUpdateTask, onDeleteTask, t
               <Edit2 className="h-5 w-5" />
             </Button>
 
+            {/* Add Subtask Button */}
+            <Button
+              size="icon"
+              variant="outline"
+              className="rounded-xl"
+              title="Add Subtask"
+              aria-label="Add subtask"
+              onClick={() => {
+                const ev = new CustomEvent('tasky:add-subtask', { detail: task });
+                window.dispatchEvent(ev);
+              }}
+            >
+              <CornerDownRight className="h-5 w-5" />
+            </Button>
+
             {/* Execute Button */
             }
             <Button
@@ -211,6 +358,43 @@ const TaskItem: React.FC<TaskItemProps> = ({ task, onUpdateTask, onDeleteTask, t
               <Play className="h-5 w-5" />
             </Button>
 
+            {/* Duplicate Button */}
+            <Button
+              size="icon"
+              variant="outline"
+              className="rounded-xl"
+              title="Duplicate Task"
+              aria-label="Duplicate task"
+              onClick={() => runTaskAction(() => window.electronAPI.duplicateTask(task.schema.id), `📄 Duplicated: ${task.schema.title}`)}
+            >
+              <Copy className="h-5 w-5" />
+            </Button>
+
+            {/* Convert to Reminder Button (the task moves to the trash) */}
+            <Button
+              size="icon"
+              variant="outline"
+              className="rounded-xl"
+              title="Convert to Reminder"
+              aria-label="Convert to reminder"
+              onClick={() => runTaskAction(() => window.electronAPI.convertTaskToReminder(task.schema.id), `🔔 Converted to a reminder: ${task.schema.title}`)}
+            >
+              <BellPlus className="h-5 w-5" />
+            </Button>
+
+            {/* History Button */}
+            <Button
+              size="icon"
+              variant="outline"
+              className="rounded-xl"
+              title={showHistory ? 'Hide History' : 'Show History'}
+              aria-label={showHistory ? 'Hide history' : 'Show history'}
+              aria-pressed={showHistory}
+              onClick={() => setShowHistory(v => !v)}
+            >
+              <History className="h-5 w-5" />
+            </Button>
+
             {/* Delete Button */}
             <Button
               size="icon"
@@ -229,7 +413,46 @@ const TaskItem: React.FC<TaskItemProps> = ({ task, onUpdateTask, onDeleteTask, t
   );
 };
 
-export const TaskList: React.FC<TaskListProps> = ({ tasks, onUpdateTask, onDeleteTask, timeFormat }) => {
+export const TaskList: React.FC<TaskListProps> = ({ tasks, onUpdateTask, onDeleteTask, timeFormat, snippets, emptyMessage, workflow, timeSummary }) => {
+  const [collapsedIds, setCollapsedIds] = useState<Set<string>>(new Set());
+
+  const toggleCollapsed = (id: string) => {
+    setCollapsedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const renderNode = (node: TaskTreeNode): React.ReactNode => {
+    const id = node.task.schema.id;
+    const collapsed = collapsedIds.has(id);
+    return (
+      <div key={id} className="space-y-3">
+        <TaskItem
+          task={node.task}
+          onUpdateTask={onUpdateTask}
+          onDeleteTask={onDeleteTask}
+          timeFormat={timeFormat}
+          progress={calculateTaskProgress(node.task, tasks)}
+          openSubtaskCount={getOpenDescendants(tasks, id).length}
+          childCount={node.children.length}
+          collapsed={collapsed}
+          onToggleCollapsed={() => toggleCollapsed(id)}
+          snippet={snippets?.[id]}
+          workflow={workflow}
+          timeSummary={timeSummary}
+        />
+        {node.children.length > 0 && !collapsed && (
+          <div className="task-subtasks ml-6 pl-3 border-l border-border/30 space-y-3">
+            {node.children.map(renderNode)}
+          </div>
+        )}
+      </div>
+    );
+  };
+
   if (tasks.length === 0) {
     return (
       <Card className="task-list-empty bg-card text-card-foreground border border-border/30 rounded-2xl shadow-xl">
@@ -238,7 +461,7 @@ export const TaskList: React.FC<TaskListProps> = ({ tasks, onUpdateTask, onDelet
             <CheckCircle2 className="h-12 w-12 mx-auto" />
           </div>
           <h3 className="text-lg font-semibold mb-2">No tasks found</h3>
-          <p className="text-muted-foreground">Create your first task to get started with task management.</p>
+          <p className="text-muted-foreground">{emptyMessage || 'Create your first task to get started with task management.'}</p>
         </CardContent>
       </Card>
     );
@@ -246,15 +469,7 @@ export const TaskList: React.FC<TaskListProps> = ({ tasks, onUpdateTask, onDelet
 
   return (
     <div className="task-list space-y-3">
-      {tasks.map(task => (
-        <TaskItem
-          key={task.schema.id}
-          task={task}
-          onUpdateTask={onUpdateTask}
-          onDeleteTask={onDeleteTask}
-          timeFormat={timeFormat}
-        />
-      ))}
+      {buildTaskTree(tasks).map(renderNode)}
     </div>
   );
 };
@@ -0,0 +1,95 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { TaskPlanView } from './TaskPlanView';
+import { TaskPlan, TaskyTask } from '../../types/task';
+import { DEFAULT_POLICY_THRESHOLDS } from '../../lib/task-policies';
+
+vi.mock('../ui/button', () => ({
+  Button: ({ children, ...props }: any) => <button {...props}>{children}</button>,
+}));
+
+vi.mock('../ui/input', () => ({
+  Input: React.forwardRef((props: any, ref: any) => <input ref={ref} {...props} />),
+}));
+
+vi.mock('../ui/label', () => ({
+  Label: ({ children, ...props }: any) => <label {...props}>{children}</label>,
+}));
+
+vi.mock('../ui/select', () => ({
+  Select: ({ children, value, onValueChange, 'aria-label': ariaLabel }: any) => (
+    <select value={value} aria-label={ariaLabel} onChange={(e) => onValueChange?.(e.target.value)}>{children}</select>
+  ),
+}));
+
+const epic = { status: 'PENDING', schema: { id: 'epic', title: 'Epic', createdAt: new Date() } } as TaskyTask;
+const plan: TaskPlan = {
+  observation: { totalTasks: 2, pendingTasks: 1, completedTasks: 1, overdueTasks: 1, todaysDueTasks: 0, blockedTasks: 0 },
+  strategy: {
+    policy: 'deadline-first',
+    focusTask: epic,
+    suggestedActions: [],
+    urgentAlerts: [{ type: 'overdue', taskId: 'multiple', message: '1 tasks are overdue', severity: 'high' }]
+  },
+  suggestedActions: [
+    { type: 'focus', taskId: 'epic', message: 'Focus on: Epic' },
+    { type: 'notify', taskId: 'multiple', message: '1 tasks are overdue' },
+    { type: 'break_down', taskId: 'epic', message: 'Break down "Epic"' }
+  ]
+};
+
+describe('TaskPlanView', () => {
+  const api = window.electronAPI as any;
+
+  beforeEach(() => {
+    api.getTaskPolicies.mockReset().mockResolvedValue({
+      success: true,
+      data: [
+        { id: 'deadline-first', label: 'Deadline first', description: 'Work on whatever is due soonest' },
+        { id: 'wsjf', label: 'Weighted shortest job first', description: 'Highest cost of delay per hour first' }
+      ]
+    });
+    api.getTaskPolicy.mockReset().mockResolvedValue({ success: true, data: { policy: 'deadline-first', thresholds: DEFAULT_POLICY_THRESHOLDS } });
+    api.saveTaskPolicy.mockReset().mockResolvedValue({ success: true, message: 'Policy set to Weighted shortest job first' });
+    api.analyzeTasksOverview.mockReset().mockResolvedValue(plan);
+    api.actOnTasks.mockReset().mockResolvedValue({ success: true, data: [] });
+  });
+
+  it('shows the focus task, alerts and suggested actions', async () => {
+    render(<TaskPlanView />);
+
+    expect(await screen.findByText('Focus on: Epic')).toBeDefined();
+    expect(screen.getByLabelText('Alerts').textContent).toContain('1 tasks are overdue');
+    expect(screen.getByLabelText('Break down: Break down "Epic"')).toBeDefined();
+    expect(await screen.findByText('Work on whatever is due soonest')).toBeDefined();
+  });
+
+  it('saves the chosen policy and thresholds, then plans again', async () => {
+    render(<TaskPlanView />);
+    fireEvent.change(await screen.findByLabelText('Due soon within (hours)'), { target: { value: '48' } });
+    fireEvent.change(screen.getByLabelText('Policy'), { target: { value: 'wsjf' } });
+    fireEvent.click(screen.getByText('Save Policy'));
+
+    await waitFor(() => expect(api.saveTaskPolicy).toHaveBeenCalledWith({
+      policy: 'wsjf',
+      thresholds: { ...DEFAULT_POLICY_THRESHOLDS, dueSoonHours: 48 }
+    }));
+    expect(await screen.findByText('Policy set to Weighted shortest job first')).toBeDefined();
+    expect(api.analyzeTasksOverview).toHaveBeenCalledTimes(2);
+  });
+
+  it('carries out an action and shows its result', async () => {
+    api.actOnTasks.mockResolvedValue({
+      success: true,
+      data: [{ type: 'break_down', taskId: 'epic', success: true, detail: 'Split into 3 subtasks' }]
+    });
+    render(<TaskPlanView />);
+    fireEvent.click(await screen.findByLabelText('Break down: Break down "Epic"'));
+
+    expect(await screen.findByText(/Split into 3 subtasks/)).toBeDefined();
+    expect(api.actOnTasks).toHaveBeenCalledWith([plan.suggestedActions[2]]);
+    fireEvent.click(screen.getByText('Do all'));
+    await waitFor(() => expect(api.actOnTasks).toHaveBeenLastCalledWith([plan.suggestedActions[1]]));
+  });
+});
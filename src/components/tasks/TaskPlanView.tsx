@@ -0,0 +1,227 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { TaskAction, TaskActionResult, TaskPlan, TaskPolicyInfo, TaskPolicyThresholds } from '../../types/task';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Select } from '../ui/select';
+
+const THRESHOLD_LABELS: Record<keyof TaskPolicyThresholds, string> = {
+  breakDownPendingOver: 'Suggest breaking down above (pending tasks)',
+  breakDownMinutesOver: 'Break down tasks estimated over (minutes)',
+  breakDownChunkMinutes: 'Part size when splitting (minutes)',
+  dueSoonHours: 'Due soon within (hours)',
+  longPendingDays: 'Flag tasks untouched for (days)',
+  archiveAfterDays: 'Archive completed tasks after (days, 0 never)',
+  peakHoursStart: 'Peak hours start (0-23)',
+  peakHoursEnd: 'Peak hours end (0-23)'
+};
+
+const ACTION_LABELS: Record<TaskAction['type'], string> = {
+  focus: 'Focus',
+  notify: 'Notify',
+  archive: 'Archive',
+  break_down: 'Break down'
+};
+
+const SEVERITY_CLASSES: Record<string, string> = {
+  high: 'text-destructive',
+  medium: 'text-foreground',
+  low: 'text-muted-foreground'
+};
+
+type ThresholdForm = Record<keyof TaskPolicyThresholds, string>;
+
+const toThresholdForm = (thresholds: TaskPolicyThresholds): ThresholdForm =>
+  Object.fromEntries(Object.entries(thresholds).map(([key, value]) => [key, String(value)])) as ThresholdForm;
+
+const actionKey = (action: TaskAction) => `${action.type}:${action.taskId}`;
+
+/**
+ * Tasks -> Plan: pick the OODA policy and tune its thresholds, see what it suggests right now
+ * (focus task, alerts, actions) and carry out actions one by one or all at once.
+ */
+export const TaskPlanView: React.FC = () => {
+  const [policies, setPolicies] = useState<TaskPolicyInfo[]>([]);
+  const [policy, setPolicy] = useState('');
+  const [thresholds, setThresholds] = useState<ThresholdForm | null>(null);
+  const [plan, setPlan] = useState<TaskPlan | null>(null);
+  const [results, setResults] = useState<Record<string, TaskActionResult>>({});
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const loadPlan = useCallback(async () => {
+    try {
+      setPlan(await window.electronAPI.analyzeTasksOverview());
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to plan');
+    }
+  }, []);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const [list, current] = await Promise.all([window.electronAPI.getTaskPolicies(), window.electronAPI.getTaskPolicy()]);
+        if (list.success) setPolicies(list.data || []);
+        if (current.success && current.data) {
+          setPolicy(current.data.policy);
+          setThresholds(toThresholdForm(current.data.thresholds));
+        } else {
+          setError(current.error || 'Failed to load the policy');
+        }
+      } catch (e) {
+        setError(e instanceof Error ? e.message : 'Failed to load the policy');
+      }
+    })();
+    loadPlan();
+  }, [loadPlan]);
+
+  const savePolicy = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!thresholds) return;
+    setBusy(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const values = Object.fromEntries(Object.entries(thresholds).map(([key, value]) => [key, Number(value)])) as unknown as TaskPolicyThresholds;
+      const result = await window.electronAPI.saveTaskPolicy({ policy, thresholds: values });
+      if (!result.success) {
+        setError(result.error || 'Failed to save the policy');
+        return;
+      }
+      setMessage(result.message || 'Policy saved');
+      setResults({});
+      await loadPlan();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to save the policy');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const act = async (actions: TaskAction[]) => {
+    if (actions.length === 0) return;
+    setBusy(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const result = await window.electronAPI.actOnTasks(actions);
+      if (!result.success) {
+        setError(result.error || 'Failed to carry out the actions');
+        return;
+      }
+      setResults(prev => {
+        const next = { ...prev };
+        actions.forEach((action, i) => { if (result.data?.[i]) next[actionKey(action)] = result.data[i]; });
+        return next;
+      });
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to carry out the actions');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const selected = policies.find(p => p.id === policy);
+  const actions = (plan?.suggestedActions || []).filter(a => a.type !== 'focus');
+  const pending = actions.filter(a => !results[actionKey(a)]?.success);
+
+  return (
+    <div className="task-plan space-y-6">
+      {error && <p className="text-sm text-destructive">{error}</p>}
+      {message && <p className="text-sm text-muted-foreground">{message}</p>}
+
+      <form onSubmit={savePolicy} className="space-y-3">
+        <div>
+          <Label htmlFor="plan-policy" className="text-sm font-medium text-foreground">Policy</Label>
+          <Select value={policy} onValueChange={(val: string) => setPolicy(val)} className="mt-1 w-full" aria-label="Policy">
+            {policies.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+          </Select>
+          {selected && <p className="text-xs text-muted-foreground mt-1">{selected.description}</p>}
+        </div>
+        {thresholds && (
+          <div className="grid md:grid-cols-2 gap-3">
+            {(Object.keys(THRESHOLD_LABELS) as (keyof TaskPolicyThresholds)[]).map(key => (
+              <div key={key}>
+                <Label htmlFor={`plan-${key}`} className="text-sm font-medium text-foreground">{THRESHOLD_LABELS[key]}</Label>
+                <Input
+                  id={`plan-${key}`}
+                  type="number"
+                  value={thresholds[key] ?? ''}
+                  onChange={e => setThresholds(prev => prev && { ...prev, [key]: e.target.value })}
+                  className="mt-1 rounded-2xl"
+                />
+              </div>
+            ))}
+          </div>
+        )}
+        <Button type="submit" disabled={busy || !policy} className="rounded-xl">
+          {busy ? 'Saving…' : 'Save Policy'}
+        </Button>
+      </form>
+
+      <section className="space-y-3">
+        <div className="flex items-center justify-between gap-3">
+          <h3 className="text-sm font-medium text-foreground">Right now</h3>
+          <div className="flex gap-2">
+            <Button size="sm" variant="outline" className="rounded-lg h-8 px-3 text-xs" disabled={busy} onClick={() => { setResults({}); loadPlan(); }}>
+              Refresh
+            </Button>
+            <Button size="sm" variant="outline" className="rounded-lg h-8 px-3 text-xs" disabled={busy || pending.length === 0} onClick={() => act(pending)}>
+              Do all
+            </Button>
+          </div>
+        </div>
+        {!plan ? (
+          !error && <p className="text-sm text-muted-foreground">Loading…</p>
+        ) : (
+          <>
+            <p className="text-sm text-foreground">
+              {plan.strategy.focusTask ? `Focus on: ${plan.strategy.focusTask.schema.title}` : 'Nothing to focus on'}
+            </p>
+            {plan.strategy.urgentAlerts.length > 0 && (
+              <ul className="space-y-1" aria-label="Alerts">
+                {plan.strategy.urgentAlerts.map((alert, i) => (
+                  <li key={`${alert.type}-${alert.taskId}-${i}`} className={`text-xs ${SEVERITY_CLASSES[alert.severity] || ''}`}>
+                    {alert.message}
+                  </li>
+                ))}
+              </ul>
+            )}
+            {actions.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No actions suggested.</p>
+            ) : (
+              <ul className="space-y-2" aria-label="Suggested actions">
+                {actions.map(action => {
+                  const result = results[actionKey(action)];
+                  return (
+                    <li key={actionKey(action)} className="flex items-center gap-3 rounded-xl border border-border/30 bg-background/60 p-3 text-sm">
+                      <div className="flex-1 min-w-0">
+                        <div className="truncate text-foreground">{action.message}</div>
+                        {result && (
+                          <div className={`text-xs ${result.success ? 'text-muted-foreground' : 'text-destructive'}`}>
+                            {result.success ? '✓' : '✗'} {result.detail || 'Done'}
+                          </div>
+                        )}
+                      </div>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="rounded-lg h-7 px-2 text-xs"
+                        aria-label={`${ACTION_LABELS[action.type]}: ${action.message}`}
+                        disabled={busy || !!result?.success}
+                        onClick={() => act([action])}
+                      >
+                        {ACTION_LABELS[action.type]}
+                      </Button>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </>
+        )}
+      </section>
+    </div>
+  );
+};
@@ -0,0 +1,63 @@
+import React, { useState } from 'react';
+import { TaskReviewDecision, TaskyTask } from '../../types/task';
+import { Button } from '../ui/button';
+
+interface TaskReviewPanelProps {
+  task: TaskyTask;
+}
+
+/**
+ * Approve or reject a task waiting in NEEDS_REVIEW. Rejecting needs a comment, which is added to
+ * the task's description so the agent sees it on its next run.
+ */
+export const TaskReviewPanel: React.FC<TaskReviewPanelProps> = ({ task }) => {
+  const [comment, setComment] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const review = async (decision: TaskReviewDecision) => {
+    if (decision === 'reject' && !comment.trim()) {
+      setError('Say what needs to change before rejecting.');
+      return;
+    }
+    setBusy(true);
+    setError(null);
+    try {
+      const result = await window.electronAPI.reviewTask(task.schema.id, decision, comment.trim() || undefined);
+      if (!result.success) {
+        setError(result.error || 'Failed to review task');
+        return;
+      }
+      // The main process pushes the reloaded list, which moves the task out of review
+      setComment('');
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to review task');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="task-review mt-3 rounded-xl border border-border/30 bg-background/60 p-3 space-y-2">
+      <div className="text-sm font-medium text-foreground">Review</div>
+      {task.result && <p className="text-sm text-muted-foreground whitespace-pre-wrap">{task.result}</p>}
+      {error && <p className="text-sm text-destructive">{error}</p>}
+      <textarea
+        aria-label={`Review comment for ${task.schema.title}`}
+        placeholder="Comment (required to request changes)"
+        value={comment}
+        onChange={e => setComment(e.target.value)}
+        className="w-full bg-background text-foreground border border-border/30 rounded-xl px-3 py-2 text-sm resize-none"
+        rows={2}
+      />
+      <div className="flex gap-2">
+        <Button size="sm" className="rounded-xl" disabled={busy} onClick={() => review('approve')}>
+          Approve
+        </Button>
+        <Button size="sm" variant="outline" className="rounded-xl" disabled={busy} onClick={() => review('reject')}>
+          Request Changes
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,94 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { TaskTemplates } from './TaskTemplates';
+import { TaskTemplate } from '../../types/task';
+
+vi.mock('../ui/button', () => ({
+  Button: ({ children, ...props }: any) => <button {...props}>{children}</button>,
+}));
+
+vi.mock('../ui/input', () => ({
+  Input: React.forwardRef((props: any, ref: any) => <input ref={ref} {...props} />),
+}));
+
+vi.mock('../ui/label', () => ({
+  Label: ({ children, ...props }: any) => <label {...props}>{children}</label>,
+}));
+
+vi.mock('../ui/select', () => ({
+  Select: ({ children, value, onValueChange, 'aria-label': ariaLabel }: any) => (
+    <select value={value} aria-label={ariaLabel} onChange={(e) => onValueChange?.(e.target.value)}>{children}</select>
+  ),
+}));
+
+const now = new Date('2025-01-01T00:00:00Z');
+const templates: TaskTemplate[] = [
+  {
+    id: 'release',
+    name: 'Release',
+    title: 'Release {{version}}',
+    dueOffset: '7d',
+    subtasks: [{ title: 'Changelog', dueOffset: '2d' }, { title: 'Tag {{version}}' }],
+    createdAt: now,
+    updatedAt: now
+  }
+];
+
+describe('TaskTemplates', () => {
+  const api = window.electronAPI as any;
+
+  beforeEach(() => {
+    api.getTaskTemplates.mockReset().mockResolvedValue({ success: true, data: templates });
+    api.saveTaskTemplate.mockReset().mockResolvedValue({ success: true });
+    api.deleteTaskTemplate.mockReset().mockResolvedValue({ success: true });
+  });
+
+  it('lists templates with their subtasks, due offset and variables', async () => {
+    render(<TaskTemplates />);
+
+    expect(await screen.findByText('Release')).toBeDefined();
+    expect(screen.getByText(/2 subtasks · due after 7d · asks for version/)).toBeDefined();
+  });
+
+  it('edits a template, reading subtasks one per line', async () => {
+    render(<TaskTemplates />);
+    fireEvent.click(await screen.findByLabelText('Edit Release'));
+
+    const subtasks = screen.getByLabelText(/Subtasks/) as HTMLTextAreaElement;
+    expect(subtasks.value).toBe('Changelog | 2d\nTag {{version}}');
+    fireEvent.change(subtasks, { target: { value: 'Changelog | 3d\n\nAnnounce' } });
+    fireEvent.click(screen.getByText('Save Template'));
+
+    await waitFor(() => expect(api.saveTaskTemplate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        name: 'Release',
+        dueOffset: '7d',
+        subtasks: [{ title: 'Changelog', dueOffset: '3d' }, { title: 'Announce', dueOffset: undefined }]
+      }),
+      'release'
+    ));
+    expect(await screen.findByText('New template')).toBeDefined();
+  });
+
+  it('keeps the editor open and shows the error when saving fails', async () => {
+    api.saveTaskTemplate.mockResolvedValue({ success: false, error: 'A template named "Release" already exists' });
+    render(<TaskTemplates />);
+    fireEvent.click(await screen.findByText('New template'));
+
+    fireEvent.change(screen.getByLabelText('Template Name *'), { target: { value: 'Release' } });
+    fireEvent.change(screen.getByLabelText('Task Title *'), { target: { value: 'Ship it' } });
+    fireEvent.click(screen.getByText('Save Template'));
+
+    expect(await screen.findByText(/already exists/)).toBeDefined();
+    expect(api.saveTaskTemplate).toHaveBeenCalledWith(expect.objectContaining({ name: 'Release' }), undefined);
+  });
+
+  it('deletes a template after confirmation', async () => {
+    vi.spyOn(window, 'confirm').mockReturnValue(true);
+    render(<TaskTemplates />);
+
+    fireEvent.click(await screen.findByLabelText('Delete Release'));
+    await waitFor(() => expect(api.deleteTaskTemplate).toHaveBeenCalledWith('release'));
+  });
+});
@@ -0,0 +1,265 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { TaskTemplate, TaskTemplateInput, TaskTemplateSubtask } from '../../types/task';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Select } from '../ui/select';
+import { getTemplateVariables } from '../../lib/task-templates';
+
+// Flat editor state; subtasks are one per line as "Title | 2d"
+interface TemplateFormState {
+  name: string;
+  title: string;
+  description: string;
+  tags: string;
+  estimatedDuration: string;
+  dueOffset: string;
+  assignedAgent: '' | 'gemini' | 'claude';
+  executionPath: string;
+  subtasks: string;
+}
+
+const toFormState = (template?: TaskTemplate): TemplateFormState => ({
+  name: template?.name || '',
+  title: template?.title || '',
+  description: template?.description || '',
+  tags: (template?.tags || []).join(', '),
+  estimatedDuration: template?.estimatedDuration !== undefined ? String(template.estimatedDuration) : '',
+  dueOffset: template?.dueOffset || '',
+  assignedAgent: template?.assignedAgent || '',
+  executionPath: template?.executionPath || '',
+  subtasks: (template?.subtasks || []).map(s => (s.dueOffset ? `${s.title} | ${s.dueOffset}` : s.title)).join('\n')
+});
+
+const toTemplateInput = (form: TemplateFormState): TaskTemplateInput => {
+  const subtasks: TaskTemplateSubtask[] = form.subtasks
+    .split(/\r?\n/)
+    .map(line => {
+      const [title, dueOffset] = line.split('|').map(part => part.trim());
+      return { title, dueOffset: dueOffset || undefined };
+    })
+    .filter(s => s.title);
+  const minutes = parseInt(form.estimatedDuration, 10);
+  return {
+    name: form.name,
+    title: form.title,
+    description: form.description || undefined,
+    tags: form.tags.split(',').map(t => t.trim()).filter(Boolean),
+    estimatedDuration: minutes > 0 ? minutes : undefined,
+    dueOffset: form.dueOffset || undefined,
+    assignedAgent: form.assignedAgent || undefined,
+    executionPath: form.executionPath || undefined,
+    subtasks
+  };
+};
+
+const textareaClass = 'mt-1 w-full bg-background text-foreground border border-border/30 rounded-2xl px-4 py-3 text-sm resize-none shadow';
+
+/**
+ * The template library: lists saved templates with their variables and lets them be added,
+ * edited and deleted. Tasks are created from templates in TaskForm and via /template in chat.
+ */
+export const TaskTemplates: React.FC = () => {
+  const [templates, setTemplates] = useState<TaskTemplate[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // null: not editing; 'new': adding; otherwise the id being edited
+  const [editing, setEditing] = useState<string | null>(null);
+  const [form, setForm] = useState<TemplateFormState>(toFormState());
+  const [busy, setBusy] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      const result = await window.electronAPI.getTaskTemplates();
+      if (result.success) setTemplates(result.data || []);
+      else setError(result.error || 'Failed to load templates');
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to load templates');
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const startEditing = (template?: TaskTemplate) => {
+    setError(null);
+    setForm(toFormState(template));
+    setEditing(template ? template.id : 'new');
+  };
+
+  const handleChange = (field: keyof TemplateFormState, value: string) => {
+    setForm(prev => ({ ...prev, [field]: value }));
+  };
+
+  const save = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    setError(null);
+    try {
+      const result = await window.electronAPI.saveTaskTemplate(toTemplateInput(form), editing === 'new' ? undefined : editing!);
+      if (!result.success) {
+        setError(result.error || 'Failed to save template');
+        return;
+      }
+      setEditing(null);
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save template');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const remove = async (template: TaskTemplate) => {
+    if (!window.confirm(`Delete the template "${template.name}"?`)) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const result = await window.electronAPI.deleteTaskTemplate(template.id);
+      if (!result.success) setError(result.error || 'Failed to delete template');
+      await load();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to delete template');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (editing) {
+    return (
+      <form onSubmit={save} className="task-template-editor space-y-3">
+        {error && <p className="text-sm text-destructive">{error}</p>}
+        <div>
+          <Label htmlFor="template-name" className="text-sm font-medium text-foreground">Template Name *</Label>
+          <Input id="template-name" value={form.name} onChange={e => handleChange('name', e.target.value)} className="mt-1 rounded-2xl" required />
+        </div>
+        <div>
+          <Label htmlFor="template-title" className="text-sm font-medium text-foreground">Task Title *</Label>
+          <Input
+            id="template-title"
+            placeholder="Release {{version}}"
+            value={form.title}
+            onChange={e => handleChange('title', e.target.value)}
+            className="mt-1 rounded-2xl"
+            required
+          />
+          <p className="text-xs text-muted-foreground mt-1">
+            Use {'{{name}}'} for values asked for when the template is used; {'{{date}}'} is today's date.
+          </p>
+        </div>
+        <div>
+          <Label htmlFor="template-description" className="text-sm font-medium text-foreground">Description</Label>
+          <textarea id="template-description" value={form.description} onChange={e => handleChange('description', e.target.value)} className={textareaClass} rows={3} />
+        </div>
+        <div className="grid md:grid-cols-2 gap-3">
+          <div>
+            <Label htmlFor="template-tags" className="text-sm font-medium text-foreground">Tags (comma-separated)</Label>
+            <Input id="template-tags" value={form.tags} onChange={e => handleChange('tags', e.target.value)} className="mt-1 rounded-2xl" />
+          </div>
+          <div>
+            <Label htmlFor="template-estimate" className="text-sm font-medium text-foreground">Estimate (minutes)</Label>
+            <Input id="template-estimate" type="number" min={1} value={form.estimatedDuration} onChange={e => handleChange('estimatedDuration', e.target.value)} className="mt-1 rounded-2xl" />
+          </div>
+          <div>
+            <Label htmlFor="template-due" className="text-sm font-medium text-foreground">Due after</Label>
+            <Input id="template-due" placeholder="2d, 1w 3d, 4h" value={form.dueOffset} onChange={e => handleChange('dueOffset', e.target.value)} className="mt-1 rounded-2xl" />
+          </div>
+          <div>
+            <Label htmlFor="template-agent" className="text-sm font-medium text-foreground">Assigned Agent</Label>
+            <Select
+              value={form.assignedAgent}
+              onValueChange={(val: string) => handleChange('assignedAgent', val)}
+              className="mt-1 w-full"
+              aria-label="Assigned Agent"
+            >
+              <option value="">None</option>
+              <option value="gemini">gemini</option>
+              <option value="claude">claude</option>
+            </Select>
+          </div>
+        </div>
+        <div>
+          <Label htmlFor="template-path" className="text-sm font-medium text-foreground">Execution Path</Label>
+          <Input id="template-path" value={form.executionPath} onChange={e => handleChange('executionPath', e.target.value)} className="mt-1 rounded-2xl" />
+        </div>
+        <div>
+          <Label htmlFor="template-subtasks" className="text-sm font-medium text-foreground">Subtasks (one per line, optional due offset after "|")</Label>
+          <textarea
+            id="template-subtasks"
+            placeholder={'Update changelog | 2d\nTag {{version}}'}
+            value={form.subtasks}
+            onChange={e => handleChange('subtasks', e.target.value)}
+            className={textareaClass}
+            rows={4}
+          />
+        </div>
+        <div className="flex gap-2">
+          <Button type="submit" disabled={busy} className="rounded-xl">
+            {busy ? 'Saving…' : 'Save Template'}
+          </Button>
+          <Button type="button" variant="outline" disabled={busy} className="rounded-xl" onClick={() => setEditing(null)}>
+            Cancel
+          </Button>
+        </div>
+      </form>
+    );
+  }
+
+  return (
+    <div className="task-templates">
+      <div className="flex items-center justify-between gap-3 mb-3">
+        <p className="text-sm text-muted-foreground">
+          Templates fill in {'{{variables}}'} and set due dates relative to when they're used.
+        </p>
+        <Button size="sm" variant="outline" className="rounded-lg h-8 px-3 text-xs" disabled={busy} onClick={() => startEditing()}>
+          New template
+        </Button>
+      </div>
+      {error && <p className="text-sm text-destructive mb-2">{error}</p>}
+      {templates === null ? (
+        !error && <p className="text-sm text-muted-foreground">Loading…</p>
+      ) : templates.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-8">No templates yet</p>
+      ) : (
+        <ul className="space-y-2">
+          {templates.map(template => {
+            const variables = getTemplateVariables(template);
+            return (
+              <li key={template.id} className="task-template-item flex items-center gap-3 rounded-xl border border-border/30 bg-background/60 p-3 text-sm">
+                <div className="flex-1 min-w-0">
+                  <div className="text-foreground truncate">{template.name}</div>
+                  <div className="text-xs text-muted-foreground truncate">
+                    {template.title}
+                    {template.subtasks?.length ? ` · ${template.subtasks.length} subtask${template.subtasks.length === 1 ? '' : 's'}` : ''}
+                    {template.dueOffset ? ` · due after ${template.dueOffset}` : ''}
+                    {variables.length > 0 ? ` · asks for ${variables.join(', ')}` : ''}
+                  </div>
+                </div>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="rounded-lg h-7 px-2 text-xs"
+                  aria-label={`Edit ${template.name}`}
+                  disabled={busy}
+                  onClick={() => startEditing(template)}
+                >
+                  Edit
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="rounded-lg h-7 px-2 text-xs text-destructive"
+                  aria-label={`Delete ${template.name}`}
+                  disabled={busy}
+                  onClick={() => remove(template)}
+                >
+                  Delete
+                </Button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
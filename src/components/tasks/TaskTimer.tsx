@@ -0,0 +1,118 @@
+import React, { useEffect, useState } from 'react';
+import { TaskTimeEntry, TaskyTask, ToolResult } from '../../types/task';
+import { entryMinutes, formatMinutes } from '../../lib/task-time';
+import { Button } from '../ui/button';
+import { Timer, TimerOff, ClockPlus } from 'lucide-react';
+
+interface TaskTimerProps {
+  task: TaskyTask;
+  trackedMinutes: number; // finished entries
+  running?: TaskTimeEntry; // set when this task's timer is running
+}
+
+// Re-render a running timer this often; elapsed time is shown in whole minutes
+const TICK_MS = 30 * 1000;
+
+/**
+ * Time spent on a task with a start/stop timer and a small form for logging time after the fact.
+ * Starting here stops a timer running on another task.
+ */
+export const TaskTimer: React.FC<TaskTimerProps> = ({ task, trackedMinutes, running }) => {
+  const [, setTick] = useState(0);
+  const [logging, setLogging] = useState(false);
+  const [minutes, setMinutes] = useState('');
+  const [note, setNote] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!running) return;
+    const timer = setInterval(() => setTick(t => t + 1), TICK_MS);
+    return () => clearInterval(timer);
+  }, [running]);
+
+  const elapsed = trackedMinutes + (running ? entryMinutes({ ...running, startedAt: new Date(running.startedAt) }) : 0);
+
+  // The main process pushes a task list update, which brings the new totals
+  const run = async (action: () => Promise<ToolResult<unknown>>, done?: (result: ToolResult<unknown>) => void) => {
+    setError(null);
+    try {
+      const result = await action();
+      if (!result.success) {
+        setError(result.error || 'Time tracking failed');
+        return;
+      }
+      if (result.warnings?.length) window.electronAPI.showAssistant(`⏱️ ${result.warnings.join('; ')}`);
+      done?.(result);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Time tracking failed');
+    }
+  };
+
+  const logTime = (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = Number(minutes);
+    const endedAt = new Date();
+    run(
+      () => window.electronAPI.logTaskTime(task.schema.id, {
+        startedAt: new Date(endedAt.getTime() - value * 60_000),
+        endedAt,
+        note: note.trim() || undefined
+      }),
+      () => {
+        setLogging(false);
+        setMinutes('');
+        setNote('');
+      }
+    );
+  };
+
+  return (
+    <div className="task-timer mb-3">
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <span
+          className={`inline-flex items-center gap-1 px-2 py-1 rounded-lg border border-border/30 ${running ? 'bg-primary/20 text-foreground' : 'bg-secondary/30'}`}
+          title={task.schema.estimatedDuration ? `Estimated ${formatMinutes(task.schema.estimatedDuration)}` : 'Time tracked'}
+        >
+          <Timer className="h-3 w-3" />
+          {formatMinutes(elapsed)}
+          {task.schema.estimatedDuration ? ` / ${formatMinutes(task.schema.estimatedDuration)}` : ''}
+        </span>
+        {running ? (
+          <Button size="sm" variant="outline" className="rounded-xl" aria-label="Stop timer" onClick={() => run(() => window.electronAPI.stopTaskTimer(task.schema.id))}>
+            <TimerOff className="h-4 w-4" /> Stop
+          </Button>
+        ) : (
+          <Button size="sm" variant="outline" className="rounded-xl" aria-label="Start timer" onClick={() => run(() => window.electronAPI.startTaskTimer(task.schema.id))}>
+            <Timer className="h-4 w-4" /> Start
+          </Button>
+        )}
+        <Button size="sm" variant="outline" className="rounded-xl" aria-label="Log time" aria-pressed={logging} onClick={() => setLogging(v => !v)}>
+          <ClockPlus className="h-4 w-4" />
+        </Button>
+      </div>
+      {logging && (
+        <form onSubmit={logTime} className="flex flex-wrap items-center gap-2 mt-2">
+          <input
+            type="number"
+            min={1}
+            required
+            aria-label="Minutes spent"
+            placeholder="Minutes"
+            value={minutes}
+            onChange={e => setMinutes(e.target.value)}
+            className="w-24 bg-background text-foreground border border-border/30 rounded-xl px-3 py-1 text-sm"
+          />
+          <input
+            aria-label="Time note"
+            placeholder="Note (optional)"
+            value={note}
+            onChange={e => setNote(e.target.value)}
+            className="flex-1 min-w-[8rem] bg-background text-foreground border border-border/30 rounded-xl px-3 py-1 text-sm"
+          />
+          <Button type="submit" size="sm" className="rounded-xl">Log</Button>
+        </form>
+      )}
+      {error && <p className="text-sm text-destructive mt-1">{error}</p>}
+    </div>
+  );
+};
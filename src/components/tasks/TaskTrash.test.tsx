@@ -0,0 +1,69 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { TaskTrash } from './TaskTrash';
+import { TrashItem } from '../../types/task';
+
+vi.mock('../ui/button', () => ({
+  Button: ({ children, onClick, ...props }: any) => (
+    <button onClick={onClick} {...props}>{children}</button>
+  ),
+}));
+
+const items: TrashItem[] = [
+  { kind: 'task', id: 't1', title: 'Write docs', deletedAt: new Date('2025-01-03T10:00:00Z') },
+  { kind: 'reminder', id: 'r1', title: 'Stand up', deletedAt: new Date('2025-01-02T10:00:00Z') }
+];
+
+describe('TaskTrash', () => {
+  const api = window.electronAPI as any;
+
+  beforeEach(() => {
+    api.getTrash.mockReset().mockResolvedValue(items);
+    api.restoreFromTrash.mockReset().mockResolvedValue({ success: true });
+    api.purgeTrash.mockReset().mockResolvedValue(1);
+  });
+
+  it('lists deleted tasks and reminders with the retention period', async () => {
+    render(<TaskTrash timeFormat="24h" retentionDays={30} />);
+
+    expect(await screen.findByText('Write docs')).toBeDefined();
+    expect(screen.getByText('Stand up')).toBeDefined();
+    expect(screen.getByText(/Reminder · deleted/)).toBeDefined();
+    expect(screen.getByText(/removed for good after 30 days/)).toBeDefined();
+  });
+
+  it('restores a task and asks the app to reload its tasks', async () => {
+    const reload = vi.fn();
+    window.addEventListener('tasky:reload-tasks', reload);
+    render(<TaskTrash timeFormat="24h" retentionDays={30} />);
+
+    fireEvent.click(await screen.findByLabelText('Restore Write docs'));
+
+    await waitFor(() => expect(api.restoreFromTrash).toHaveBeenCalledWith('task', 't1'));
+    await waitFor(() => expect(reload).toHaveBeenCalledTimes(1));
+    expect(api.getTrash).toHaveBeenCalledTimes(2);
+    window.removeEventListener('tasky:reload-tasks', reload);
+  });
+
+  it('deletes a single item or the whole trash for good', async () => {
+    vi.spyOn(window, 'confirm').mockReturnValue(true);
+    render(<TaskTrash timeFormat="12h" retentionDays={0} />);
+
+    fireEvent.click(await screen.findByLabelText('Delete Stand up forever'));
+    await waitFor(() => expect(api.purgeTrash).toHaveBeenCalledWith([{ kind: 'reminder', id: 'r1' }]));
+
+    await waitFor(() => expect(screen.getByText('Empty trash').hasAttribute('disabled')).toBe(false));
+    fireEvent.click(screen.getByText('Empty trash'));
+    await waitFor(() => expect(api.purgeTrash).toHaveBeenLastCalledWith());
+    expect(screen.getByText(/stay here until you empty the trash/)).toBeDefined();
+  });
+
+  it('explains a restore blocked by a task with the same id', async () => {
+    api.restoreFromTrash.mockResolvedValue({ success: false, conflict: { taskId: 't1', expectedVersion: 0, actualVersion: 1 } });
+    render(<TaskTrash timeFormat="24h" retentionDays={30} />);
+
+    fireEvent.click(await screen.findByLabelText('Restore Write docs'));
+    expect(await screen.findByText(/exists again/)).toBeDefined();
+  });
+});
@@ -0,0 +1,139 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { TrashItem } from '../../types/task';
+import { Button } from '../ui/button';
+
+interface TaskTrashProps {
+  timeFormat: '12h' | '24h';
+  // Days before deleted items are purged; 0 keeps them until the trash is emptied
+  retentionDays: number;
+}
+
+const KIND_LABELS: Record<TrashItem['kind'], string> = {
+  task: 'Task',
+  reminder: 'Reminder'
+};
+
+const itemKey = (item: TrashItem) => `${item.kind}:${item.id}`;
+
+/**
+ * Deleted tasks and reminders, most recent first, with restore and permanent delete actions.
+ */
+export const TaskTrash: React.FC<TaskTrashProps> = ({ timeFormat, retentionDays }) => {
+  const [items, setItems] = useState<TrashItem[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      setItems(await window.electronAPI.getTrash());
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to load trash');
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const run = async (key: string, action: () => Promise<void>) => {
+    setBusyKey(key);
+    setError(null);
+    try {
+      await action();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Trash action failed');
+    } finally {
+      setBusyKey(null);
+      await load();
+    }
+  };
+
+  const restore = (item: TrashItem) => run(itemKey(item), async () => {
+    const result = await window.electronAPI.restoreFromTrash(item.kind, item.id);
+    if (result?.conflict) {
+      setError(`A task with the id of "${item.title}" exists again; it can't be restored over it.`);
+    } else if (!result?.success) {
+      setError(result?.error || `Failed to restore "${item.title}"`);
+    } else if (item.kind === 'task') {
+      window.dispatchEvent(new Event('tasky:reload-tasks'));
+    }
+  });
+
+  const purge = (item: TrashItem) => run(itemKey(item), async () => {
+    await window.electronAPI.purgeTrash([{ kind: item.kind, id: item.id }]);
+  });
+
+  const emptyTrash = () => {
+    if (!window.confirm('Permanently delete everything in the trash?')) return;
+    run('all', async () => {
+      await window.electronAPI.purgeTrash();
+    });
+  };
+
+  const formatWhen = (date: Date | string) => {
+    const d = new Date(date);
+    return `${d.toLocaleDateString()} ${d.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', hour12: timeFormat === '12h' })}`;
+  };
+
+  return (
+    <div className="task-trash">
+      <div className="flex items-center justify-between gap-3 mb-3">
+        <p className="text-sm text-muted-foreground">
+          {retentionDays > 0
+            ? `Deleted tasks and reminders are removed for good after ${retentionDays} day${retentionDays === 1 ? '' : 's'}.`
+            : 'Deleted tasks and reminders stay here until you empty the trash.'}
+        </p>
+        {items && items.length > 0 && (
+          <Button
+            size="sm"
+            variant="outline"
+            className="rounded-lg h-8 px-3 text-xs"
+            disabled={busyKey !== null}
+            onClick={emptyTrash}
+          >
+            Empty trash
+          </Button>
+        )}
+      </div>
+      {error && <p className="text-sm text-destructive mb-2">{error}</p>}
+      {items === null ? (
+        !error && <p className="text-sm text-muted-foreground">Loading…</p>
+      ) : items.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-8">The trash is empty</p>
+      ) : (
+        <ul className="space-y-2">
+          {items.map(item => (
+            <li key={itemKey(item)} className="trash-item flex items-center gap-3 rounded-xl border border-border/30 bg-background/60 p-3 text-sm">
+              <div className="flex-1 min-w-0">
+                <div className="text-foreground truncate">{item.title}</div>
+                <div className="text-xs text-muted-foreground">
+                  {KIND_LABELS[item.kind]} · deleted {formatWhen(item.deletedAt)}
+                </div>
+              </div>
+              <Button
+                size="sm"
+                variant="outline"
+                className="rounded-lg h-7 px-2 text-xs"
+                aria-label={`Restore ${item.title}`}
+                disabled={busyKey !== null}
+                onClick={() => restore(item)}
+              >
+                {busyKey === itemKey(item) ? 'Working…' : 'Restore'}
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                className="rounded-lg h-7 px-2 text-xs text-destructive"
+                aria-label={`Delete ${item.title} forever`}
+                disabled={busyKey !== null}
+                onClick={() => purge(item)}
+              >
+                Delete forever
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
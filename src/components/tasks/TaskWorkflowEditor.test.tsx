@@ -0,0 +1,71 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { TaskWorkflowEditor } from './TaskWorkflowEditor';
+import { TaskWorkflow } from '../../types/task';
+import { DEFAULT_TASK_WORKFLOW } from '../../lib/task-workflow';
+
+vi.mock('../ui/button', () => ({
+  Button: ({ children, ...props }: any) => <button {...props}>{children}</button>,
+}));
+
+vi.mock('../ui/label', () => ({
+  Label: ({ children, ...props }: any) => <label {...props}>{children}</label>,
+}));
+
+const workflow: TaskWorkflow = {
+  statuses: [...DEFAULT_TASK_WORKFLOW.statuses, { id: 'BLOCKED', label: 'Blocked' }],
+  rules: [{ to: 'COMPLETED', from: ['NEEDS_REVIEW'], agentAssigned: true }]
+};
+
+describe('TaskWorkflowEditor', () => {
+  const api = window.electronAPI as any;
+
+  beforeEach(() => {
+    api.getTaskWorkflow.mockReset().mockResolvedValue({ success: true, data: workflow });
+    api.saveTaskWorkflow.mockReset().mockImplementation(async (w: TaskWorkflow) => ({ success: true, data: w }));
+  });
+
+  it('shows statuses and rules one per line', async () => {
+    render(<TaskWorkflowEditor />);
+
+    const statuses = await screen.findByLabelText(/Statuses/) as HTMLTextAreaElement;
+    expect(statuses.value.split('\n').slice(-2)).toEqual(['ARCHIVED | Archived', 'BLOCKED | Blocked']);
+    expect((screen.getByLabelText(/Transition rules/) as HTMLTextAreaElement).value).toBe('COMPLETED <- NEEDS_REVIEW (agent)');
+  });
+
+  it('saves edited statuses and rules', async () => {
+    render(<TaskWorkflowEditor />);
+    const statuses = await screen.findByLabelText(/Statuses/) as HTMLTextAreaElement;
+
+    fireEvent.change(statuses, { target: { value: `${statuses.value}\nIN_QA | In QA` } });
+    fireEvent.change(screen.getByLabelText(/Transition rules/), {
+      target: { value: 'COMPLETED <- NEEDS_REVIEW (agent)\nIN_QA <- IN_PROGRESS, BLOCKED' }
+    });
+    fireEvent.click(screen.getByText('Save Workflow'));
+
+    await waitFor(() => expect(api.saveTaskWorkflow).toHaveBeenCalledWith({
+      statuses: expect.arrayContaining([{ id: 'IN_QA', label: 'In QA' }]),
+      rules: [
+        { to: 'COMPLETED', from: ['NEEDS_REVIEW'], agentAssigned: true },
+        { to: 'IN_QA', from: ['IN_PROGRESS', 'BLOCKED'] }
+      ]
+    }));
+    expect(await screen.findByText('Workflow saved.')).toBeDefined();
+  });
+
+  it('shows why a workflow was refused', async () => {
+    api.saveTaskWorkflow.mockResolvedValue({ success: false, error: "Statuses still used by tasks can't be removed: BLOCKED" });
+    render(<TaskWorkflowEditor />);
+    await screen.findByLabelText(/Statuses/);
+
+    fireEvent.change(screen.getByLabelText(/Transition rules/), { target: { value: 'COMPLETED from REVIEW' } });
+    fireEvent.click(screen.getByText('Save Workflow'));
+    expect(await screen.findByText(/Can't read rule "COMPLETED from REVIEW"/)).toBeDefined();
+    expect(api.saveTaskWorkflow).not.toHaveBeenCalled();
+
+    fireEvent.change(screen.getByLabelText(/Transition rules/), { target: { value: '' } });
+    fireEvent.click(screen.getByText('Save Workflow'));
+    expect(await screen.findByText(/still used by tasks/)).toBeDefined();
+  });
+});
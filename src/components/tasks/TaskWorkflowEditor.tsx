@@ -0,0 +1,131 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { TaskTransitionRule, TaskWorkflow } from '../../types/task';
+import { Button } from '../ui/button';
+import { Label } from '../ui/label';
+import { BUILT_IN_STATUSES } from '../../lib/task-workflow';
+
+// Edited as text: statuses one per line as "IN_QA | In QA", rules as
+// "COMPLETED <- NEEDS_REVIEW, IN_QA (agent)" where "(agent)" / "(no agent)" limit who the rule covers
+const RULE_PATTERN = /^(.+?)\s*<-\s*(.+?)\s*(?:\((agent|no agent)\))?$/i;
+
+const formatStatuses = (workflow: TaskWorkflow): string =>
+  workflow.statuses.map(s => `${s.id} | ${s.label}`).join('\n');
+
+const formatRules = (workflow: TaskWorkflow): string =>
+  workflow.rules
+    .map(r => `${r.to} <- ${r.from.join(', ')}${r.agentAssigned === undefined ? '' : r.agentAssigned ? ' (agent)' : ' (no agent)'}`)
+    .join('\n');
+
+const lines = (text: string): string[] => text.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+
+// Status ids and labels are normalized and checked by the engine (validateWorkflow)
+const parseWorkflow = (statuses: string, rules: string): TaskWorkflow => ({
+  statuses: lines(statuses).map(line => {
+    const [id, label] = line.split('|').map(part => part.trim());
+    return { id, label: label || '' };
+  }),
+  rules: lines(rules).map(line => {
+    const match = RULE_PATTERN.exec(line);
+    if (!match) throw new Error(`Can't read rule "${line}" (use e.g. "COMPLETED <- NEEDS_REVIEW (agent)")`);
+    const rule: TaskTransitionRule = { to: match[1], from: match[2].split(',').map(s => s.trim()).filter(Boolean) };
+    if (match[3]) rule.agentAssigned = match[3].toLowerCase() === 'agent';
+    return rule;
+  })
+});
+
+const textareaClass = 'mt-1 w-full bg-background text-foreground border border-border/30 rounded-2xl px-4 py-3 text-sm font-mono resize-none shadow';
+
+/**
+ * Edits the status workflow: the board's statuses (custom ones next to the built-in five) and
+ * the rules limiting which status a task may move to from where.
+ */
+export const TaskWorkflowEditor: React.FC = () => {
+  const [statuses, setStatuses] = useState<string | null>(null);
+  const [rules, setRules] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      const result = await window.electronAPI.getTaskWorkflow();
+      if (result.success && result.data) {
+        setStatuses(formatStatuses(result.data));
+        setRules(formatRules(result.data));
+      } else {
+        setError(result.error || 'Failed to load workflow');
+      }
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to load workflow');
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const save = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    setError(null);
+    setSaved(false);
+    try {
+      const result = await window.electronAPI.saveTaskWorkflow(parseWorkflow(statuses || '', rules));
+      if (!result.success || !result.data) {
+        setError(result.error || 'Failed to save workflow');
+        return;
+      }
+      // Show the normalized form (upper-case ids, default labels)
+      setStatuses(formatStatuses(result.data));
+      setRules(formatRules(result.data));
+      setSaved(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save workflow');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (statuses === null) {
+    return error ? <p className="text-sm text-destructive">{error}</p> : <p className="text-sm text-muted-foreground">Loading…</p>;
+  }
+
+  return (
+    <form onSubmit={save} className="task-workflow-editor space-y-3">
+      {error && <p className="text-sm text-destructive">{error}</p>}
+      {saved && <p className="text-sm text-muted-foreground">Workflow saved.</p>}
+      <div>
+        <Label htmlFor="workflow-statuses" className="text-sm font-medium text-foreground">Statuses (one per line, in board order)</Label>
+        <textarea
+          id="workflow-statuses"
+          placeholder={'BLOCKED | Blocked\nIN_QA | In QA'}
+          value={statuses}
+          onChange={e => { setStatuses(e.target.value); setSaved(false); }}
+          className={textareaClass}
+          rows={8}
+        />
+        <p className="text-xs text-muted-foreground mt-1">
+          "ID | Label". {BUILT_IN_STATUSES.map(s => s.id).join(', ')} are built in and can't be removed.
+        </p>
+      </div>
+      <div>
+        <Label htmlFor="workflow-rules" className="text-sm font-medium text-foreground">Transition rules (one per line)</Label>
+        <textarea
+          id="workflow-rules"
+          placeholder="COMPLETED <- NEEDS_REVIEW (agent)"
+          value={rules}
+          onChange={e => { setRules(e.target.value); setSaved(false); }}
+          className={textareaClass}
+          rows={4}
+        />
+        <p className="text-xs text-muted-foreground mt-1">
+          "TO &lt;- FROM, FROM" allows TO only from the listed statuses; add "(agent)" or "(no agent)" to cover only
+          tasks with or without an assigned agent. Statuses without a rule can be reached from anywhere.
+        </p>
+      </div>
+      <Button type="submit" disabled={busy} className="rounded-xl">
+        {busy ? 'Saving…' : 'Save Workflow'}
+      </Button>
+    </form>
+  );
+};
@@ -1,19 +1,39 @@
 import React, { useState } from 'react';
-import { TaskyTask, TaskyTaskSchema } from '../../types/task';
+import { TaskConflict, TaskTemplate, TaskTimeSummary, TaskWorkflow, TaskyTask, TaskyTaskSchema } from '../../types/task';
 import { Settings } from '../../types';
 import { TaskForm } from './TaskForm';
 import { TaskList } from './TaskList';
+import { TaskTrash } from './TaskTrash';
+import { TaskTemplates } from './TaskTemplates';
+import { TaskWorkflowEditor } from './TaskWorkflowEditor';
+import { TaskAnalyticsView } from './TaskAnalyticsView';
+import { TaskAutomationRules } from './TaskAutomationRules';
+import { TaskPlanView } from './TaskPlanView';
 import { Button } from '../ui/button';
-import { Upload, Plus } from 'lucide-react';
+import { Upload, Plus, Search, Trash2, LayoutTemplate, Workflow, BarChart3, Zap, Target } from 'lucide-react';
+import { Input } from '../ui/input';
 import { Card, CardContent } from '../ui/card';
 import { Modal } from '../ui/modal';
+import { getDescendantIds } from '../../lib/task-hierarchy';
+import { mergeTaskEdits } from '../../lib/task-merge';
 
-// Simplified UI: filters removed
+// Simplified UI: filters removed; a search box narrows the list
+
+const SEARCH_DEBOUNCE_MS = 250;
+const SEARCH_LIMIT = 100;
+const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+// Fields the edit modal writes; a version conflict is merged over these
+const EDITABLE_FIELDS = ['title', 'description', 'assignedAgent', 'executionPath', 'affectedFiles', 'checklist', 'parentId', 'recurrence'] as const;
+
+const editableFields = (schema: TaskyTaskSchema): Record<string, unknown> =>
+  Object.fromEntries(EDITABLE_FIELDS.map(field => [field, schema[field]]));
 
 interface TasksTabProps {
   tasks: TaskyTask[];
   onCreateTask: (task: Omit<TaskyTaskSchema, 'id' | 'createdAt'>) => void;
-  onUpdateTask: (id: string, updates: Partial<TaskyTask>) => void;
+  // Resolves with the conflict when the edit was made against a stale version
+  onUpdateTask: (id: string, updates: Partial<TaskyTask>) => void | Promise<TaskConflict | undefined>;
   onDeleteTask: (id: string) => void;
   settings: Settings;
 }
@@ -27,13 +47,110 @@ export const TasksTab: React.FC<TasksTabProps> = ({
 }) => {
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [editingTask, setEditingTask] = useState<TaskyTask | null>(null);
+  // After a conflict: the merged form values and the fields both sides changed
+  const [editMerge, setEditMerge] = useState<{ values: Record<string, unknown>; conflicts: string[] } | null>(null);
+  const [subtaskParentId, setSubtaskParentId] = useState<string | null>(null);
+  const [view, setView] = useState<'tasks' | 'trash' | 'templates' | 'workflow' | 'analytics' | 'rules' | 'plan'>('tasks');
+  // Statuses and allowed moves for the list's status pickers; reloaded when coming back from the editor
+  const [workflow, setWorkflow] = useState<TaskWorkflow | undefined>(undefined);
+  React.useEffect(() => {
+    if (view !== 'tasks') return;
+    window.electronAPI.getTaskWorkflow()
+      .then(result => { if (result.success && result.data) setWorkflow(result.data); })
+      .catch(e => console.error('Failed to load workflow:', e));
+  }, [view]);
+  // Tracked time per task; timer changes come back as a task list update, which reloads it
+  const [timeSummary, setTimeSummary] = useState<TaskTimeSummary | undefined>(undefined);
+  React.useEffect(() => {
+    window.electronAPI.getTaskTimeSummary()
+      .then(result => { if (result.success && result.data) setTimeSummary(result.data); })
+      .catch(e => console.error('Failed to load tracked time:', e));
+  }, [tasks]);
+  // Offered in the create modal; reloaded each time it opens so library edits show up
+  const [templates, setTemplates] = useState<TaskTemplate[]>([]);
+  React.useEffect(() => {
+    if (!showCreateModal) return;
+    window.electronAPI.getTaskTemplates()
+      .then(result => setTemplates(result.success ? result.data || [] : []))
+      .catch(e => console.error('Failed to load templates:', e));
+  }, [showCreateModal]);
   // Listen for delegated edit events from TaskList buttons
   React.useEffect(() => {
-    const handler = (e: any) => setEditingTask(e.detail);
+    const handler = (e: any) => { setEditMerge(null); setEditingTask(e.detail); };
     window.addEventListener('tasky:edit', handler as any);
     return () => window.removeEventListener('tasky:edit', handler as any);
   }, []);
-  const filteredTasks = tasks;
+  // "Add subtask" opens the create modal with the parent preselected
+  React.useEffect(() => {
+    const handler = (e: any) => {
+      setSubtaskParentId(e.detail?.schema?.id ?? null);
+      setShowCreateModal(true);
+    };
+    window.addEventListener('tasky:add-subtask', handler as any);
+    return () => window.removeEventListener('tasky:add-subtask', handler as any);
+  }, []);
+  // Full-text search runs in the main process; results come back ranked, with snippets
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchHits, setSearchHits] = useState<Array<{ task: TaskyTask; snippet?: string }> | null>(null);
+  React.useEffect(() => {
+    const query = searchQuery.trim();
+    if (!query) {
+      setSearchHits(null);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const result = await window.electronAPI.searchTasks(query, { limit: SEARCH_LIMIT });
+        if (!cancelled) setSearchHits(result.hits);
+      } catch (e) {
+        console.error('Search failed:', e);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+    return () => { cancelled = true; clearTimeout(timer); };
+  }, [searchQuery, tasks]);
+
+  // Show the list's own copies so edits made since the search show up
+  const byId = new Map(tasks.map(t => [t.schema.id, t]));
+  const filteredTasks = searchHits
+    ? searchHits.map(hit => byId.get(hit.task.schema.id)).filter((t): t is TaskyTask => !!t)
+    : tasks;
+  const snippets = searchHits
+    ? Object.fromEntries(searchHits.filter(hit => hit.snippet).map(hit => [hit.task.schema.id, hit.snippet!]))
+    : undefined;
+
+  const closeCreateModal = () => {
+    setShowCreateModal(false);
+    setSubtaskParentId(null);
+  };
+
+  const closeEditModal = () => {
+    setEditingTask(null);
+    setEditMerge(null);
+  };
+
+  // A task cannot be nested under itself or one of its own subtasks
+  const parentOptionsFor = (taskId?: string) => {
+    const excluded = new Set(taskId ? [taskId, ...getDescendantIds(tasks, taskId)] : []);
+    return tasks
+      .filter(t => !excluded.has(t.schema.id))
+      .map(t => ({ id: t.schema.id, title: t.schema.title }));
+  };
+
+  // Resolves with an error message for the form to show, or undefined once created
+  const handleCreateFromTemplate = async (templateId: string, values: Record<string, string>, parentId?: string) => {
+    try {
+      const result = await window.electronAPI.createTaskFromTemplate(templateId, { values, parentId });
+      if (!result.success) return result.error || 'Failed to create the task';
+      window.dispatchEvent(new Event('tasky:reload-tasks'));
+      closeCreateModal();
+      return undefined;
+    } catch (e) {
+      return e instanceof Error ? e.message : 'Failed to create the task';
+    }
+  };
+
+  const toggleView = (next: 'trash' | 'templates' | 'workflow' | 'analytics' | 'rules' | 'plan') => setView(current => (current === next ? 'tasks' : next));
 
   const handleImport = async () => {
     try {
@@ -106,6 +223,102 @@ export const TasksTab: React.FC<TasksTabProps> = ({
             <Upload className="h-4 w-4" />
             <span className="font-semibold">Import</span>
           </Button>
+          <Button
+            variant="outline"
+            onClick={() => toggleView('templates')}
+            aria-pressed={view === 'templates'}
+            className="rounded-xl px-4 py-2 flex items-center gap-2"
+            style={{
+              borderColor: `hsl(var(--button))`,
+              color: `hsl(var(--button-foreground))`,
+              backgroundColor: view === 'templates' ? `hsl(var(--button) / 0.1)` : 'transparent'
+            }}
+          >
+            <LayoutTemplate className="h-4 w-4" />
+            <span className="font-semibold">{view === 'templates' ? 'Back to Tasks' : 'Templates'}</span>
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => toggleView('workflow')}
+            aria-pressed={view === 'workflow'}
+            className="rounded-xl px-4 py-2 flex items-center gap-2"
+            style={{
+              borderColor: `hsl(var(--button))`,
+              color: `hsl(var(--button-foreground))`,
+              backgroundColor: view === 'workflow' ? `hsl(var(--button) / 0.1)` : 'transparent'
+            }}
+          >
+            <Workflow className="h-4 w-4" />
+            <span className="font-semibold">{view === 'workflow' ? 'Back to Tasks' : 'Workflow'}</span>
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => toggleView('analytics')}
+            aria-pressed={view === 'analytics'}
+            className="rounded-xl px-4 py-2 flex items-center gap-2"
+            style={{
+              borderColor: `hsl(var(--button))`,
+              color: `hsl(var(--button-foreground))`,
+              backgroundColor: view === 'analytics' ? `hsl(var(--button) / 0.1)` : 'transparent'
+            }}
+          >
+            <BarChart3 className="h-4 w-4" />
+            <span className="font-semibold">{view === 'analytics' ? 'Back to Tasks' : 'Analytics'}</span>
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => toggleView('plan')}
+            aria-pressed={view === 'plan'}
+            className="rounded-xl px-4 py-2 flex items-center gap-2"
+            style={{
+              borderColor: `hsl(var(--button))`,
+              color: `hsl(var(--button-foreground))`,
+              backgroundColor: view === 'plan' ? `hsl(var(--button) / 0.1)` : 'transparent'
+            }}
+          >
+            <Target className="h-4 w-4" />
+            <span className="font-semibold">{view === 'plan' ? 'Back to Tasks' : 'Plan'}</span>
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => toggleView('rules')}
+            aria-pressed={view === 'rules'}
+            className="rounded-xl px-4 py-2 flex items-center gap-2"
+            style={{
+              borderColor: `hsl(var(--button))`,
+              color: `hsl(var(--button-foreground))`,
+              backgroundColor: view === 'rules' ? `hsl(var(--button) / 0.1)` : 'transparent'
+            }}
+          >
+            <Zap className="h-4 w-4" />
+            <span className="font-semibold">{view === 'rules' ? 'Back to Tasks' : 'Rules'}</span>
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => toggleView('trash')}
+            aria-pressed={view === 'trash'}
+            className="rounded-xl px-4 py-2 flex items-center gap-2"
+            style={{
+              borderColor: `hsl(var(--button))`,
+              color: `hsl(var(--button-foreground))`,
+              backgroundColor: view === 'trash' ? `hsl(var(--button) / 0.1)` : 'transparent'
+            }}
+          >
+            <Trash2 className="h-4 w-4" />
+            <span className="font-semibold">{view === 'trash' ? 'Back to Tasks' : 'Trash'}</span>
+          </Button>
+        </div>
+        <div className="mt-4 relative max-w-md mx-auto">
+          <Search className="h-4 w-4 absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            type="search"
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Escape') setSearchQuery(''); }}
+            placeholder='Search tasks (words or "exact phrase")'
+            aria-label="Search tasks"
+            className="pl-9 rounded-xl"
+          />
         </div>
       </div>
 
@@ -114,26 +327,32 @@ export const TasksTab: React.FC<TasksTabProps> = ({
       {/* Modal create form */}
       <Modal
         open={showCreateModal}
-        title="Create New Task"
-        onClose={() => setShowCreateModal(false)}
+        title={subtaskParentId ? 'Create Subtask' : 'Create New Task'}
+        onClose={closeCreateModal}
         maxWidth={560}
         fullHeight
         tone="background"
         backdropClass="bg-black/60"
       >
-        <TaskForm 
-          forceExpanded 
-          noCard
-          onCreateTask={(t) => { onCreateTask(t); setShowCreateModal(false); }}
-          onCancel={() => setShowCreateModal(false)}
-        />
+        {showCreateModal && (
+          <TaskForm 
+            forceExpanded 
+            noCard
+            initial={subtaskParentId ? { parentId: subtaskParentId } : undefined}
+            parentOptions={parentOptionsFor()}
+            templates={templates}
+            onCreateFromTemplate={handleCreateFromTemplate}
+            onCreateTask={(t) => { onCreateTask(t); closeCreateModal(); }}
+            onCancel={closeCreateModal}
+          />
+        )}
       </Modal>
 
       {/* Modal edit form */}
       <Modal
         open={!!editingTask}
         title="Edit Task"
-        onClose={() => setEditingTask(null)}
+        onClose={closeEditModal}
         maxWidth={560}
         fullHeight
         tone="background"
@@ -141,22 +360,38 @@ export const TasksTab: React.FC<TasksTabProps> = ({
       >
         {editingTask && (
           <TaskForm
+            // Re-mount when a conflict swaps in the merged or server values
+            key={`${editingTask.schema.id}-${editingTask.metadata?.version ?? 1}-${editMerge ? 'merged' : 'server'}`}
             forceExpanded
             noCard
-            initial={editingTask.schema as any}
+            initial={{ ...editingTask.schema, ...(editMerge?.values as Partial<TaskyTaskSchema>) }}
+            parentOptions={parentOptionsFor(editingTask.schema.id)}
             submitLabel="Save Changes"
-            onSubmitOverride={(updates) => {
+            conflict={editMerge ? { fields: editMerge.conflicts, onUseTheirs: () => setEditMerge(null) } : undefined}
+            onSubmitOverride={async (updates) => {
               const flatUpdates: any = {
                 title: updates.title,
                 description: updates.description,
                 assignedAgent: updates.assignedAgent,
                 executionPath: updates.executionPath,
                 affectedFiles: updates.affectedFiles,
+                checklist: updates.checklist,
+                parentId: updates.parentId ?? null,
+                recurrence: updates.recurrence ?? null,
               };
-              onUpdateTask(editingTask.schema.id, flatUpdates);
-              setEditingTask(null);
+              const conflict = await onUpdateTask(editingTask.schema.id, {
+                ...flatUpdates,
+                expectedVersion: editingTask.metadata?.version ?? 1
+              });
+              if (conflict && conflict.current) {
+                const { merged, conflicts } = mergeTaskEdits(editableFields(editingTask.schema), flatUpdates, editableFields(conflict.current.schema));
+                setEditingTask(conflict.current);
+                setEditMerge({ values: merged, conflicts });
+                return;
+              }
+              closeEditModal();
             }}
-            onCancel={() => setEditingTask(null)}
+            onCancel={closeEditModal}
             // onCreateTask is required by type but unused when onSubmitOverride is provided
             onCreateTask={() => {}}
           />
@@ -164,13 +399,34 @@ export const TasksTab: React.FC<TasksTabProps> = ({
       </Modal>
       
           <div className="flex-1 overflow-y-auto min-h-0 no-scrollbar">
-            <TaskList 
-              tasks={filteredTasks}
-              onUpdateTask={onUpdateTask}
-              onDeleteTask={onDeleteTask}
-              onEditTask={(t) => setEditingTask(t)}
-              timeFormat={settings.timeFormat || '12h'}
-            />
+            {view === 'trash' ? (
+              <TaskTrash
+                timeFormat={settings.timeFormat || '12h'}
+                retentionDays={settings.trashRetentionDays ?? DEFAULT_TRASH_RETENTION_DAYS}
+              />
+            ) : view === 'templates' ? (
+              <TaskTemplates />
+            ) : view === 'workflow' ? (
+              <TaskWorkflowEditor />
+            ) : view === 'analytics' ? (
+              <TaskAnalyticsView />
+            ) : view === 'plan' ? (
+              <TaskPlanView />
+            ) : view === 'rules' ? (
+              <TaskAutomationRules />
+            ) : (
+              <TaskList 
+                tasks={filteredTasks}
+                snippets={snippets}
+                emptyMessage={searchHits ? `No tasks match "${searchQuery.trim()}".` : undefined}
+                onUpdateTask={onUpdateTask}
+                onDeleteTask={onDeleteTask}
+                onEditTask={(t) => { setEditMerge(null); setEditingTask(t); }}
+                timeFormat={settings.timeFormat || '12h'}
+                workflow={workflow}
+                timeSummary={timeSummary}
+              />
+            )}
           </div>
         </CardContent>
       </Card>
@@ -0,0 +1,97 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { WebhookSettings } from './WebhookSettings';
+import { Webhook, WebhookDelivery } from '../../types/webhook';
+
+vi.mock('../ui/button', () => ({
+  Button: ({ children, ...props }: any) => <button {...props}>{children}</button>,
+}));
+
+vi.mock('../ui/input', () => ({
+  Input: React.forwardRef((props: any, ref: any) => <input ref={ref} {...props} />),
+}));
+
+vi.mock('../ui/label', () => ({
+  Label: ({ children, ...props }: any) => <label {...props}>{children}</label>,
+}));
+
+const now = new Date('2025-01-01T00:00:00Z');
+const webhooks: Webhook[] = [
+  {
+    id: 'dash',
+    name: 'Dashboard',
+    url: 'http://localhost:9000/tasky',
+    secret: 'a'.repeat(48),
+    events: ['task:completed', 'reminder-triggered'],
+    enabled: true,
+    createdAt: now,
+    updatedAt: now
+  }
+];
+const dead: WebhookDelivery = {
+  id: 7,
+  webhookId: 'dash',
+  webhookName: 'Dashboard',
+  event: 'task:completed',
+  body: '{}',
+  status: 'dead',
+  attempts: 6,
+  responseStatus: 503,
+  lastError: 'HTTP 503',
+  createdAt: now
+};
+const delivered: WebhookDelivery = { ...dead, id: 8, event: 'reminder-triggered', status: 'delivered', attempts: 1, responseStatus: 200, lastError: undefined };
+
+describe('WebhookSettings', () => {
+  const api = window.electronAPI as any;
+
+  beforeEach(() => {
+    api.getWebhooks.mockReset().mockResolvedValue({ success: true, data: webhooks });
+    api.getWebhookDeliveries.mockReset().mockImplementation(async (filter: any) => ({
+      success: true,
+      data: filter?.status === 'dead' ? [dead] : [delivered, dead]
+    }));
+    api.saveWebhook.mockReset().mockResolvedValue({ success: true });
+    api.redeliverWebhook.mockReset().mockResolvedValue({ success: true });
+    api.discardWebhookDelivery.mockReset().mockResolvedValue({ success: true });
+  });
+
+  it('lists webhooks, the delivery log and failed deliveries', async () => {
+    render(<WebhookSettings />);
+
+    expect(await screen.findByText('Dashboard')).toBeDefined();
+    expect(screen.getByText('http://localhost:9000/tasky · Task completed, Reminder triggered')).toBeDefined();
+    expect(screen.getByText(/Reminder triggered to Dashboard · delivered \(HTTP 200, 1 attempt\)/)).toBeDefined();
+    expect(screen.getAllByText(/Task completed to Dashboard · gave up after 6 attempts: HTTP 503/)).toHaveLength(2);
+    expect(api.getWebhookDeliveries).toHaveBeenCalledWith({ limit: 20 });
+  });
+
+  it('retries and discards failed deliveries', async () => {
+    render(<WebhookSettings />);
+    fireEvent.click(await screen.findByLabelText('Retry delivery 7'));
+    await waitFor(() => expect(api.redeliverWebhook).toHaveBeenCalledWith(7));
+
+    await waitFor(() => expect((screen.getByLabelText('Discard delivery 7') as HTMLButtonElement).disabled).toBe(false));
+    fireEvent.click(screen.getByLabelText('Discard delivery 7'));
+    await waitFor(() => expect(api.discardWebhookDelivery).toHaveBeenCalledWith(7));
+  });
+
+  it('edits the subscribed events and shows validation errors', async () => {
+    api.saveWebhook.mockResolvedValue({ success: false, error: 'Webhook validation failed: Choose at least one event' });
+    render(<WebhookSettings />);
+    fireEvent.click(await screen.findByLabelText('Edit Dashboard'));
+
+    expect((screen.getByLabelText('Signing secret') as HTMLInputElement).value).toBe('a'.repeat(48));
+    fireEvent.click(screen.getByLabelText('Pomodoro session complete'));
+    fireEvent.click(screen.getByLabelText('Reminder triggered'));
+    fireEvent.click(screen.getByText('Save Webhook'));
+
+    await waitFor(() => expect(api.saveWebhook).toHaveBeenCalledWith(
+      expect.objectContaining({ name: 'Dashboard', events: ['task:completed', 'pomodoro:sessionComplete'], secret: 'a'.repeat(48) }),
+      'dash'
+    ));
+    expect(await screen.findByText(/Choose at least one event/)).toBeDefined();
+    expect(screen.getByText('Save Webhook')).toBeDefined();
+  });
+});
@@ -0,0 +1,316 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Webhook, WebhookDelivery, WebhookEvent, WebhookInput } from '../../types/webhook';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { WEBHOOK_EVENTS, WEBHOOK_EVENT_LABELS } from '../../lib/webhooks';
+
+// How many deliveries the log shows
+const DELIVERY_LOG_LIMIT = 20;
+
+interface WebhookFormState {
+  name: string;
+  url: string;
+  secret: string;
+  enabled: boolean;
+  events: WebhookEvent[];
+}
+
+const toFormState = (webhook?: Webhook): WebhookFormState => ({
+  name: webhook?.name || '',
+  url: webhook?.url || '',
+  secret: webhook?.secret || '',
+  enabled: webhook?.enabled ?? true,
+  events: webhook?.events || ['task:created', 'task:completed']
+});
+
+// The main process checks the rest (validateWebhook) and generates a secret when none is given
+const toWebhookInput = (form: WebhookFormState): WebhookInput => ({
+  name: form.name,
+  url: form.url,
+  events: form.events,
+  enabled: form.enabled,
+  secret: form.secret.trim() || undefined
+});
+
+const webhookInput = (webhook: Webhook): WebhookInput => ({
+  name: webhook.name,
+  url: webhook.url,
+  events: webhook.events,
+  enabled: webhook.enabled
+});
+
+const STATUS_ICONS: Record<WebhookDelivery['status'], string> = { delivered: '✓', pending: '…', dead: '✗' };
+
+const describeDelivery = (delivery: WebhookDelivery): string => {
+  const attempts = `${delivery.attempts} attempt${delivery.attempts === 1 ? '' : 's'}`;
+  if (delivery.status === 'delivered') return `delivered (HTTP ${delivery.responseStatus}, ${attempts})`;
+  const failure = delivery.lastError ? `: ${delivery.lastError}` : '';
+  if (delivery.status === 'dead') return `gave up after ${attempts}${failure}`;
+  return delivery.nextAttemptAt && delivery.attempts > 0
+    ? `retrying at ${new Date(delivery.nextAttemptAt).toLocaleTimeString()} (${attempts}${failure})`
+    : 'sending';
+};
+
+/**
+ * Outbound webhooks: lists them with an on/off switch, edits them, and shows the delivery log
+ * and the dead-letter list (deliveries out of retries), which can be sent again or discarded.
+ * Deliveries are made by the main process.
+ */
+export const WebhookSettings: React.FC = () => {
+  const [webhooks, setWebhooks] = useState<Webhook[] | null>(null);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [deadLetters, setDeadLetters] = useState<WebhookDelivery[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  // null: not editing; 'new': adding; otherwise the id being edited
+  const [editing, setEditing] = useState<string | null>(null);
+  const [form, setForm] = useState<WebhookFormState>(toFormState());
+  const [busy, setBusy] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      const [list, log, dead] = await Promise.all([
+        window.electronAPI.getWebhooks(),
+        window.electronAPI.getWebhookDeliveries({ limit: DELIVERY_LOG_LIMIT }),
+        window.electronAPI.getWebhookDeliveries({ status: 'dead' })
+      ]);
+      if (list.success) setWebhooks(list.data || []);
+      else setError(list.error || 'Failed to load webhooks');
+      if (log.success) setDeliveries(log.data || []);
+      if (dead.success) setDeadLetters(dead.data || []);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to load webhooks');
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const startEditing = (webhook?: Webhook) => {
+    setError(null);
+    setForm(toFormState(webhook));
+    setEditing(webhook ? webhook.id : 'new');
+  };
+
+  const handleChange = <K extends keyof WebhookFormState>(field: K, value: WebhookFormState[K]) => {
+    setForm(prev => ({ ...prev, [field]: value }));
+  };
+
+  const toggleEvent = (event: WebhookEvent, checked: boolean) => {
+    setForm(prev => ({
+      ...prev,
+      events: checked ? [...prev.events, event] : prev.events.filter(e => e !== event)
+    }));
+  };
+
+  // Runs a change, then reloads; false (with the error shown) when it failed
+  const perform = async (action: () => Promise<{ success: boolean; error?: string }>, fallback: string): Promise<boolean> => {
+    setBusy(true);
+    setError(null);
+    try {
+      const result = await action();
+      if (!result.success) {
+        setError(result.error || fallback);
+        return false;
+      }
+      await load();
+      return true;
+    } catch (e) {
+      setError(e instanceof Error ? e.message : fallback);
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const save = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const id = editing === 'new' ? undefined : editing!;
+    if (await perform(() => window.electronAPI.saveWebhook(toWebhookInput(form), id), 'Failed to save webhook')) setEditing(null);
+  };
+
+  const remove = async (webhook: Webhook) => {
+    if (!window.confirm(`Delete the webhook "${webhook.name}" and its delivery log?`)) return;
+    await perform(() => window.electronAPI.deleteWebhook(webhook.id), 'Failed to delete webhook');
+  };
+
+  if (editing) {
+    return (
+      <form onSubmit={save} className="webhook-editor space-y-3">
+        {error && <p className="text-sm text-destructive">{error}</p>}
+        <div>
+          <Label htmlFor="webhook-name" className="text-sm font-medium text-foreground">Name *</Label>
+          <Input id="webhook-name" value={form.name} onChange={e => handleChange('name', e.target.value)} className="mt-1 rounded-2xl" required />
+        </div>
+        <div>
+          <Label htmlFor="webhook-url" className="text-sm font-medium text-foreground">URL *</Label>
+          <Input
+            id="webhook-url"
+            placeholder="http://localhost:9000/tasky"
+            value={form.url}
+            onChange={e => handleChange('url', e.target.value)}
+            className="mt-1 rounded-2xl"
+            required
+          />
+        </div>
+        <div>
+          <Label htmlFor="webhook-secret" className="text-sm font-medium text-foreground">Signing secret</Label>
+          <Input
+            id="webhook-secret"
+            placeholder="Leave empty to generate one"
+            value={form.secret}
+            onChange={e => handleChange('secret', e.target.value)}
+            className="mt-1 rounded-2xl font-mono"
+          />
+        </div>
+        <fieldset className="space-y-1">
+          <legend className="text-sm font-medium text-foreground">Events</legend>
+          <div className="grid md:grid-cols-2 gap-1">
+            {WEBHOOK_EVENTS.map(event => (
+              <label key={event} className="flex items-center gap-2 text-sm text-foreground">
+                <input
+                  type="checkbox"
+                  aria-label={WEBHOOK_EVENT_LABELS[event]}
+                  checked={form.events.includes(event)}
+                  onChange={e => toggleEvent(event, e.target.checked)}
+                />
+                {WEBHOOK_EVENT_LABELS[event]}
+              </label>
+            ))}
+          </div>
+        </fieldset>
+        <p className="text-xs text-muted-foreground">
+          Each event is POSTed as JSON with an X-Tasky-Signature header: sha256= followed by the HMAC-SHA256 of
+          "timestamp.body" (timestamp from X-Tasky-Timestamp) keyed with the secret.
+        </p>
+        <div className="flex gap-2">
+          <Button type="submit" disabled={busy} className="rounded-xl">
+            {busy ? 'Saving…' : 'Save Webhook'}
+          </Button>
+          <Button type="button" variant="outline" disabled={busy} className="rounded-xl" onClick={() => setEditing(null)}>
+            Cancel
+          </Button>
+        </div>
+      </form>
+    );
+  }
+
+  return (
+    <div className="webhooks space-y-4">
+      <div className="flex items-center justify-between gap-3">
+        <p className="text-sm text-muted-foreground">
+          Send task, reminder and pomodoro events to your own dashboards, bots and scripts.
+        </p>
+        <Button size="sm" variant="outline" className="rounded-lg h-8 px-3 text-xs" disabled={busy} onClick={() => startEditing()}>
+          New webhook
+        </Button>
+      </div>
+      {error && <p className="text-sm text-destructive">{error}</p>}
+      {webhooks === null ? (
+        !error && <p className="text-sm text-muted-foreground">Loading…</p>
+      ) : webhooks.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-8">No webhooks yet</p>
+      ) : (
+        <ul className="space-y-2">
+          {webhooks.map(webhook => (
+            <li key={webhook.id} className="webhook-item flex items-center gap-3 rounded-xl border border-border/30 bg-background/60 p-3 text-sm">
+              <input
+                type="checkbox"
+                aria-label={`Enable ${webhook.name}`}
+                checked={webhook.enabled}
+                disabled={busy}
+                onChange={e => perform(
+                  () => window.electronAPI.saveWebhook({ ...webhookInput(webhook), enabled: e.target.checked }, webhook.id),
+                  'Failed to save webhook'
+                )}
+              />
+              <div className="flex-1 min-w-0">
+                <div className={`truncate ${webhook.enabled ? 'text-foreground' : 'text-muted-foreground'}`}>{webhook.name}</div>
+                <div className="text-xs text-muted-foreground truncate">
+                  {webhook.url} · {webhook.events.map(event => WEBHOOK_EVENT_LABELS[event]).join(', ')}
+                </div>
+              </div>
+              <Button
+                size="sm"
+                variant="outline"
+                className="rounded-lg h-7 px-2 text-xs"
+                aria-label={`Edit ${webhook.name}`}
+                disabled={busy}
+                onClick={() => startEditing(webhook)}
+              >
+                Edit
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                className="rounded-lg h-7 px-2 text-xs text-destructive"
+                aria-label={`Delete ${webhook.name}`}
+                disabled={busy}
+                onClick={() => remove(webhook)}
+              >
+                Delete
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {deadLetters.length > 0 && (
+        <section className="space-y-2">
+          <h3 className="text-sm font-medium text-foreground">Failed deliveries</h3>
+          <ul className="space-y-1" aria-label="Failed deliveries">
+            {deadLetters.map(delivery => (
+              <li key={delivery.id} className="flex items-center gap-2 text-xs text-muted-foreground">
+                <span className="flex-1 min-w-0 truncate">
+                  {new Date(delivery.createdAt).toLocaleString()} · {WEBHOOK_EVENT_LABELS[delivery.event]} to {delivery.webhookName} · {describeDelivery(delivery)}
+                </span>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="rounded-lg h-6 px-2 text-xs"
+                  aria-label={`Retry delivery ${delivery.id}`}
+                  disabled={busy}
+                  onClick={() => perform(() => window.electronAPI.redeliverWebhook(delivery.id), 'Failed to retry delivery')}
+                >
+                  Retry
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="rounded-lg h-6 px-2 text-xs text-destructive"
+                  aria-label={`Discard delivery ${delivery.id}`}
+                  disabled={busy}
+                  onClick={() => perform(() => window.electronAPI.discardWebhookDelivery(delivery.id), 'Failed to discard delivery')}
+                >
+                  Discard
+                </Button>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      <section className="space-y-2">
+        <div className="flex items-center justify-between">
+          <h3 className="text-sm font-medium text-foreground">Recent deliveries</h3>
+          <Button size="sm" variant="ghost" className="rounded-lg h-6 px-2 text-xs" disabled={busy} onClick={() => load()}>
+            Refresh
+          </Button>
+        </div>
+        {deliveries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nothing has been sent yet.</p>
+        ) : (
+          <ul className="space-y-1" aria-label="Recent deliveries">
+            {deliveries.map(delivery => (
+              <li key={delivery.id} className="text-xs text-muted-foreground">
+                <span className={delivery.status === 'dead' ? 'text-destructive' : 'text-foreground'}>{STATUS_ICONS[delivery.status]}</span>{' '}
+                {new Date(delivery.createdAt).toLocaleString()} · {WEBHOOK_EVENT_LABELS[delivery.event]} to {delivery.webhookName} · {describeDelivery(delivery)}
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </div>
+  );
+};
@@ -0,0 +1,135 @@
+// Tasky core: the task engine, its SQLite storage and schema, and the task types.
+// Shared by the Electron main process and tasky-mcp-agent so MCP tool calls run the same
+// validation, events and business rules as the UI. Keep this free of Electron imports.
+
+export { TaskyEngine } from './task-manager/tasky-engine';
+export { TypedEventBus, AsyncEventBus, MiddlewareEventBus, createEventBus } from './task-manager/events';
+export type { EventPattern, MatchingEvents, PatternHandler } from './task-manager/events';
+export type { ITaskStorage } from './storage/ITaskStorage';
+export { SqliteTaskStorage } from './storage/SqliteTaskStorage';
+export { MIGRATIONS, LATEST_SCHEMA_VERSION, SchemaVersionError, planMigrations, runMigrations } from './storage/migrations';
+export type { Migration, MigrationResult } from './storage/migrations';
+export { moveToTrash, listTrash, getTrashEntry, removeFromTrash, purgeTrash } from './storage/trash';
+export type { TrashRow } from './storage/trash';
+export { readWorkflow, writeWorkflow } from './storage/workflow';
+export type { IWebhookStorage } from './storage/IWebhookStorage';
+export { WebhookSqliteStorage } from './storage/WebhookSqliteStorage';
+export { WebhookDispatcher, signWebhookPayload } from './webhooks/webhook-dispatcher';
+export type { WebhookDispatcherOptions } from './webhooks/webhook-dispatcher';
+export type { IApiTokenStorage } from './storage/IApiTokenStorage';
+export { ApiTokenSqliteStorage } from './storage/ApiTokenSqliteStorage';
+export { ApiTokens, hashApiToken } from './rest-api/api-tokens';
+export { RestApiError, createRestApiHandler } from './rest-api/rest-api';
+export type { RestApiServices, RestApiTasks, RestApiReminders, RestApiPomodoro } from './rest-api/rest-api';
+
+export { TaskStatus, TaskNotFoundError, TaskValidationError, TaskConflictError, TaskStorageError } from '../types/task';
+export type {
+  TaskyTask,
+  TaskyTaskSchema,
+  TaskChecklistItem,
+  TaskProgress,
+  TaskRecurrenceRule,
+  RecurrenceWeekday,
+  TaskFilterOptions,
+  TaskSortField,
+  TaskQueryResult,
+  TaskSearchHit,
+  TaskSearchResult,
+  BlockedTaskInfo,
+  CreateTaskInput,
+  UpdateTaskInput,
+  ToolResult,
+  TaskEventMap,
+  TaskChange,
+  TaskConflict,
+  TaskActor,
+  TaskRevision,
+  TaskWrite,
+  TaskCommand,
+  TaskUndoState,
+  TaskUndoResult,
+  TrashedTask,
+  TrashedTaskLinks,
+  TrashPurgeOptions,
+  TrashItem,
+  TrashItemKind,
+  TaskReminderLink,
+  ConvertibleReminder,
+  TaskConversionOptions,
+  TaskTemplate,
+  TaskTemplateSubtask,
+  TaskTemplateInput,
+  TaskTemplateInstance,
+  CreateFromTemplateOptions,
+  TaskStatusId,
+  TaskWorkflow,
+  TaskWorkflowStatus,
+  TaskTransitionRule,
+  TaskReviewDecision,
+  TaskReviewInput,
+  TaskTimeEntry,
+  TaskTimeEntryInput,
+  TaskTimerResult,
+  EstimateAccuracy,
+  EstimateBias,
+  DurationSuggestion,
+  DurationSuggestionInput,
+  AutomationTrigger,
+  AutomationConditions,
+  AutomationAction,
+  AutomationRule,
+  AutomationRuleInput,
+  AutomationRun,
+  AutomationEffects,
+  TaskObservation,
+  TaskStrategy,
+  TaskAction,
+  TaskActionResult,
+  TaskActionEffects,
+  TaskPlan,
+  TaskPolicy,
+  TaskPolicyContext,
+  TaskPolicyInfo,
+  TaskPolicySettings,
+  TaskPolicyThresholds,
+  TaskEventRecord,
+  TaskEventQuery,
+  TaskEventHandler,
+  TaskEventReplay,
+  TaskEventSubscription
+} from '../types/task';
+export { WebhookValidationError } from '../types/webhook';
+export type {
+  Webhook,
+  WebhookInput,
+  WebhookEvent,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  WebhookDeliveryFilter,
+  WebhookPayload
+} from '../types/webhook';
+export type { ApiToken, ApiTokenInput, ApiTokenScope, NewApiToken } from '../types/api';
+
+export { describeRecurrence, normalizeRecurrence, parseRRule, toRRule } from '../lib/task-recurrence';
+export { SEARCH_HIGHLIGHT_START, SEARCH_HIGHLIGHT_END, splitHighlights } from '../lib/task-search';
+export { diffTasks } from '../lib/task-revisions';
+export { reminderToTaskInput, taskToReminder } from '../lib/task-reminder-conversion';
+export { DEFAULT_TASK_TEMPLATES, getTemplateVariables, instantiateTemplate, parseDueOffset } from '../lib/task-templates';
+export { DEFAULT_TASK_WORKFLOW, canTransition, getAllowedTransitions, statusLabel, validateWorkflow } from '../lib/task-workflow';
+export { requiresApproval } from '../lib/task-review';
+export { formatMinutes } from '../lib/task-time';
+export { describeDurationSuggestion } from '../lib/task-estimates';
+export { AUTOMATION_TRIGGERS, describeAutomationAction, describeAutomationConditions, validateAutomationRule } from '../lib/task-automation';
+export {
+  DEFAULT_POLICY_THRESHOLDS,
+  DEFAULT_TASK_POLICY_SETTINGS,
+  createRankingPolicy,
+  getTaskPolicy,
+  listTaskPolicies,
+  registerTaskPolicy,
+  validatePolicySettings
+} from '../lib/task-policies';
+export { MAX_EVENT_LIMIT, matchesEventPattern, validateEventQuery } from '../lib/task-events';
+export { MAX_WEBHOOK_ATTEMPTS, WEBHOOK_EVENTS, WEBHOOK_EVENT_LABELS, retryDelayMs, validateWebhook } from '../lib/webhooks';
+export { REST_API_ROUTES, REST_API_VERSION, buildOpenApiDocument, matchRestRoute } from '../lib/rest-api';
+export type { ApiTask, ApiReminder, ApiPomodoroState, ApiError, ApiPage, RestApiRoute } from '../lib/rest-api';
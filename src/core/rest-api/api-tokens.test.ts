@@ -0,0 +1,62 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ApiTokens, hashApiToken } from './api-tokens';
+import type { IApiTokenStorage } from '../storage/IApiTokenStorage';
+import type { ApiToken } from '../../types/api';
+
+// Same contract as ApiTokenSqliteStorage, kept in memory
+class MemoryApiTokenStorage implements IApiTokenStorage {
+  tokens: Array<{ token: ApiToken; hash: string }> = [];
+
+  initialize(): void {}
+  getApiTokens(): ApiToken[] { return this.tokens.map(t => t.token).reverse(); }
+  addApiToken(token: ApiToken, tokenHash: string): void { this.tokens.push({ token, hash: tokenHash }); }
+  deleteApiToken(id: string): boolean {
+    const before = this.tokens.length;
+    this.tokens = this.tokens.filter(t => t.token.id !== id);
+    return this.tokens.length < before;
+  }
+  findApiTokenByHash(tokenHash: string): ApiToken | null {
+    return this.tokens.find(t => t.hash === tokenHash)?.token ?? null;
+  }
+  markApiTokenUsed(id: string, at: Date): void {
+    const found = this.tokens.find(t => t.token.id === id);
+    if (found) found.token = { ...found.token, lastUsedAt: at };
+  }
+}
+
+describe('ApiTokens', () => {
+  let storage: MemoryApiTokenStorage;
+  let tokens: ApiTokens;
+
+  beforeEach(() => {
+    storage = new MemoryApiTokenStorage();
+    tokens = new ApiTokens(storage);
+  });
+
+  it('stores only the hash and authenticates with the scope', () => {
+    const created = tokens.create({ name: 'Editor plugin', scope: 'read' });
+    expect(created.success).toBe(true);
+    const { token, prefix } = created.data!;
+    expect(token.startsWith(prefix)).toBe(true);
+    expect(storage.tokens[0].hash).toBe(hashApiToken(token));
+    expect(JSON.stringify(tokens.list().data)).not.toContain(token);
+
+    expect(tokens.authenticate(token)).toBe('read');
+    expect(tokens.list().data![0].lastUsedAt).toBeInstanceOf(Date);
+    expect(tokens.authenticate(`${token}x`)).toBeNull();
+  });
+
+  it('stops accepting a revoked token', () => {
+    const { data } = tokens.create({ name: 'Script', scope: 'write' });
+    expect(tokens.authenticate(data!.token)).toBe('write');
+    expect(tokens.revoke(data!.id).success).toBe(true);
+    expect(tokens.authenticate(data!.token)).toBeNull();
+    expect(tokens.revoke(data!.id).error).toBe(`API token ${data!.id} not found`);
+  });
+
+  it('validates the name and scope', () => {
+    expect(tokens.create({ name: ' ', scope: 'write' }).error).toBe('Name is required');
+    expect(tokens.create({ name: 'CI', scope: 'admin' as any }).error).toBe('Scope must be read or write');
+    expect(storage.tokens).toHaveLength(0);
+  });
+});
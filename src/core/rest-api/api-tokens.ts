@@ -0,0 +1,87 @@
+import { createHash, randomBytes } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import type { IApiTokenStorage } from '../storage/IApiTokenStorage';
+import type { ToolResult } from '../../types/task';
+import type { ApiToken, ApiTokenInput, ApiTokenScope, NewApiToken } from '../../types/api';
+import { apiTokenInputSchema } from '../../lib/rest-api';
+
+const TOKEN_PREFIX = 'tasky_';
+// Characters of a token kept in the clear, to tell tokens apart in the list
+const DISPLAY_PREFIX_LENGTH = TOKEN_PREFIX.length + 6;
+// last_used_at is written at most this often per token, not on every request
+const USAGE_WRITE_INTERVAL_MS = 60_000;
+
+export function hashApiToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * ApiTokens
+ *
+ * Scoped tokens for the REST API: read tokens may only make GET requests, write tokens anything.
+ * A token is shown once, when it's created; storage keeps its SHA-256 hash, which is what
+ * requests are checked against.
+ */
+export class ApiTokens {
+  private storage: IApiTokenStorage;
+
+  constructor(storage: IApiTokenStorage) {
+    this.storage = storage;
+  }
+
+  list(): ToolResult<ApiToken[]> {
+    try {
+      return { success: true, data: this.storage.getApiTokens() };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to load API tokens' };
+    }
+  }
+
+  create(input: ApiTokenInput): ToolResult<NewApiToken> {
+    const parsed = apiTokenInputSchema.safeParse(input);
+    if (!parsed.success) {
+      return { success: false, error: parsed.error.issues.map(issue => issue.message).join('; ') };
+    }
+    try {
+      const token = `${TOKEN_PREFIX}${randomBytes(24).toString('hex')}`;
+      const apiToken: ApiToken = {
+        id: uuidv4(),
+        name: parsed.data.name,
+        scope: parsed.data.scope,
+        prefix: token.slice(0, DISPLAY_PREFIX_LENGTH),
+        createdAt: new Date()
+      };
+      this.storage.addApiToken(apiToken, hashApiToken(token));
+      return { success: true, data: { ...apiToken, token } };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to create API token' };
+    }
+  }
+
+  revoke(id: string): ToolResult<void> {
+    try {
+      if (!this.storage.deleteApiToken(id)) return { success: false, error: `API token ${id} not found` };
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to revoke API token' };
+    }
+  }
+
+  /**
+   * The scope of a bearer token, or null when it isn't one of ours (or was revoked).
+   */
+  authenticate(token: string): ApiTokenScope | null {
+    if (!token.startsWith(TOKEN_PREFIX)) return null;
+    const apiToken = this.storage.findApiTokenByHash(hashApiToken(token));
+    if (!apiToken) return null;
+    const now = new Date();
+    if (!apiToken.lastUsedAt || now.getTime() - apiToken.lastUsedAt.getTime() >= USAGE_WRITE_INTERVAL_MS) {
+      try {
+        this.storage.markApiTokenUsed(apiToken.id, now);
+      } catch (error) {
+        console.error('Failed to record API token use:', error);
+      }
+    }
+    return apiToken.scope;
+  }
+}
@@ -0,0 +1,192 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import { createRestApiHandler, RestApiPomodoro, RestApiReminders } from './rest-api';
+import { TaskyEngine } from '../task-manager/tasky-engine';
+import type { ITaskStorage } from '../storage/ITaskStorage';
+import type { Reminder } from '../../types/index';
+import type { TaskyTask } from '../../types/task';
+import type { ApiPomodoroState } from '../../lib/rest-api';
+
+function createMemoryStorage(): ITaskStorage {
+  let tasks: TaskyTask[] = [];
+  return {
+    initialize: vi.fn().mockResolvedValue({ success: true }),
+    loadAllTasks: vi.fn().mockImplementation(async () => ({ success: true, data: [...tasks] })),
+    saveTask: vi.fn().mockImplementation(async (task: TaskyTask) => {
+      tasks = [...tasks.filter(t => t.schema.id !== task.schema.id), task];
+      return { success: true };
+    }),
+    deleteTask: vi.fn().mockImplementation(async (id: string) => {
+      tasks = tasks.filter(t => t.schema.id !== id);
+      return { success: true };
+    })
+  };
+}
+
+function createReminders(): RestApiReminders & { items: Reminder[] } {
+  return {
+    items: [],
+    list() { return this.items; },
+    get(id) { return this.items.find(r => r.id === id) ?? null; },
+    add(reminder) { this.items.push(reminder); return true; },
+    update(id, reminder) { this.items = this.items.map(r => r.id === id ? reminder : r); return true; },
+    remove(id) { this.items = this.items.filter(r => r.id !== id); }
+  };
+}
+
+function createPomodoro(): RestApiPomodoro {
+  const state: ApiPomodoroState = { minutes: 25, seconds: 0, isRunning: false, sessionType: 'work', sessionCount: 0, cycleCount: 0 };
+  return {
+    getState: () => ({ ...state }),
+    start: () => !state.isRunning && (state.isRunning = true),
+    pause: () => state.isRunning && !(state.isRunning = false),
+    resetCurrent: () => { state.isRunning = false; return true; },
+    resetAll: () => { Object.assign(state, { isRunning: false, sessionCount: 0, cycleCount: 0 }); return true; }
+  };
+}
+
+interface Response {
+  status: number;
+  headers: http.IncomingHttpHeaders;
+  body: any;
+}
+
+describe('REST API', () => {
+  let server: http.Server;
+  let port: number;
+  let reminders: ReturnType<typeof createReminders>;
+
+  beforeEach(async () => {
+    const engine = new TaskyEngine(undefined, createMemoryStorage());
+    await engine.initialize();
+    reminders = createReminders();
+    const handler = createRestApiHandler({
+      tasks: engine,
+      reminders,
+      pomodoro: createPomodoro(),
+      authenticate: token => (token === 'write-token' ? 'write' : token === 'read-token' ? 'read' : null)
+    });
+    server = http.createServer(async (req, res) => {
+      if (!(await handler(req, res))) {
+        res.writeHead(418);
+        res.end();
+      }
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  function request(method: string, path: string, body?: unknown, token: string | null = 'write-token'): Promise<Response> {
+    return new Promise((resolve, reject) => {
+      const payload = body === undefined ? undefined : JSON.stringify(body);
+      const req = http.request({
+        host: '127.0.0.1',
+        port,
+        method,
+        path,
+        headers: {
+          ...(token && { Authorization: `Bearer ${token}` }),
+          ...(payload && { 'Content-Type': 'application/json' })
+        }
+      }, res => {
+        let text = '';
+        res.on('data', chunk => { text += chunk; });
+        res.on('end', () => resolve({ status: res.statusCode!, headers: res.headers, body: text ? JSON.parse(text) : undefined }));
+      });
+      req.on('error', reject);
+      req.end(payload);
+    });
+  }
+
+  it('creates, reads, updates and deletes tasks', async () => {
+    const created = await request('POST', '/v1/tasks', { title: 'Write docs', dueDate: '2030-01-02T09:00:00.000Z', tags: ['docs'] });
+    expect(created.status).toBe(201);
+    expect(created.headers.location).toBe(`/v1/tasks/${created.body.id}`);
+    expect(created.body).toMatchObject({ title: 'Write docs', status: 'PENDING', dueDate: '2030-01-02T09:00:00.000Z', tags: ['docs'], version: 1 });
+
+    const fetched = await request('GET', created.headers.location!, undefined, 'read-token');
+    expect(fetched.body.title).toBe('Write docs');
+
+    const updated = await request('PATCH', `/v1/tasks/${created.body.id}`, { status: 'IN_PROGRESS', expectedVersion: 1 });
+    expect(updated.status).toBe(200);
+    expect(updated.body).toMatchObject({ status: 'IN_PROGRESS', version: 2 });
+
+    const stale = await request('PATCH', `/v1/tasks/${created.body.id}`, { title: 'Late', expectedVersion: 1 });
+    expect(stale.status).toBe(409);
+
+    expect((await request('DELETE', `/v1/tasks/${created.body.id}`)).status).toBe(204);
+    const missing = await request('GET', `/v1/tasks/${created.body.id}`);
+    expect(missing.status).toBe(404);
+    expect(missing.body.error).toMatch(/not found/);
+  });
+
+  it('filters and pages the task list', async () => {
+    for (const [title, tags] of [['One', ['a']], ['Two', ['b']], ['Three', ['a']]] as const) {
+      await request('POST', '/v1/tasks', { title, tags });
+    }
+    const tagged = await request('GET', '/v1/tasks?tags=a&sort=title&order=asc');
+    expect(tagged.body.items.map((task: any) => task.title)).toEqual(['One', 'Three']);
+    expect(tagged.body.total).toBe(2);
+
+    const paged = await request('GET', '/v1/tasks?limit=1&offset=1&sort=title');
+    expect(paged.body).toMatchObject({ total: 3, limit: 1, offset: 1 });
+    expect(paged.body.items).toHaveLength(1);
+  });
+
+  it('rejects invalid queries and bodies with their issues', async () => {
+    const badQuery = await request('GET', '/v1/tasks?limit=500');
+    expect(badQuery.status).toBe(400);
+    expect(badQuery.body.issues[0].path).toBe('limit');
+
+    const badBody = await request('POST', '/v1/tasks', { title: '', priority: 1 });
+    expect(badBody.status).toBe(400);
+    expect(badBody.body.issues.map((issue: any) => issue.path)).toContain('title');
+  });
+
+  it('checks tokens and their scope', async () => {
+    const anonymous = await request('GET', '/v1/tasks', undefined, null);
+    expect(anonymous.status).toBe(401);
+    expect(anonymous.headers['www-authenticate']).toBe('Bearer');
+    expect((await request('GET', '/v1/tasks', undefined, 'revoked')).status).toBe(401);
+
+    const readOnly = await request('POST', '/v1/tasks', { title: 'Nope' }, 'read-token');
+    expect(readOnly.status).toBe(403);
+    expect((await request('GET', '/v1/stats', undefined, 'read-token')).body.total).toBe(0);
+  });
+
+  it('answers unknown paths and methods, and leaves other paths to the caller', async () => {
+    expect((await request('GET', '/v1/projects')).status).toBe(404);
+    const wrongMethod = await request('PUT', '/v1/tasks');
+    expect(wrongMethod.status).toBe(405);
+    expect(wrongMethod.headers.allow).toBe('GET, POST');
+    expect((await request('POST', '/execute-task', {})).status).toBe(418);
+  });
+
+  it('serves the OpenAPI document without a token', async () => {
+    const doc = await request('GET', '/v1/openapi.json', undefined, null);
+    expect(doc.status).toBe(200);
+    expect(doc.body.openapi).toBe('3.1.0');
+    expect(Object.keys(doc.body.paths)).toContain('/v1/tasks/{id}');
+  });
+
+  it('manages reminders and the pomodoro timer', async () => {
+    const created = await request('POST', '/v1/reminders', { message: 'Stand up', time: '09:30', days: ['monday'] });
+    expect(created.status).toBe(201);
+    expect(created.body).toMatchObject({ message: 'Stand up', enabled: true });
+
+    await request('PATCH', `/v1/reminders/${created.body.id}`, { enabled: false });
+    expect(reminders.items[0].enabled).toBe(false);
+    expect((await request('GET', '/v1/reminders?enabled=true')).body.total).toBe(0);
+    expect((await request('DELETE', `/v1/reminders/${created.body.id}`)).status).toBe(204);
+    expect((await request('DELETE', `/v1/reminders/${created.body.id}`)).status).toBe(404);
+
+    expect((await request('POST', '/v1/pomodoro', { action: 'start' })).body.isRunning).toBe(true);
+    expect((await request('POST', '/v1/pomodoro', { action: 'start' })).status).toBe(409);
+    expect((await request('GET', '/v1/pomodoro', undefined, 'read-token')).body.isRunning).toBe(true);
+  });
+});
@@ -0,0 +1,239 @@
+import type * as http from 'http';
+import type { z } from 'zod/v4';
+import { v4 as uuidv4 } from 'uuid';
+import type { TaskyEngine } from '../task-manager/tasky-engine';
+import type { Reminder } from '../../types/index';
+import type { ToolResult } from '../../types/task';
+import type { ApiTokenScope } from '../../types/api';
+import {
+  ApiPomodoroState,
+  RestApiError,
+  RestApiRequests,
+  RestApiRoute,
+  buildOpenApiDocument,
+  matchRestRoute,
+  toApiIssues,
+  toApiReminder,
+  toApiTask,
+  toTaskFilters
+} from '../../lib/rest-api';
+
+export { RestApiError };
+
+const MAX_BODY_BYTES = 64 * 1024;
+
+export type RestApiTasks = Pick<TaskyEngine, 'queryTasks' | 'getTask' | 'createTask' | 'updateTask' | 'deleteTask' | 'getTaskStats'>;
+
+export interface RestApiReminders {
+  list(): Reminder[];
+  get(id: string): Reminder | null;
+  // Persist and schedule; false when it couldn't be saved
+  add(reminder: Reminder): boolean;
+  update(id: string, reminder: Reminder): boolean;
+  // Move to the trash and unschedule
+  remove(id: string): void;
+}
+
+export interface RestApiPomodoro {
+  getState(): ApiPomodoroState;
+  // false when the timer already runs / isn't running
+  start(): boolean;
+  pause(): boolean;
+  resetCurrent(): boolean;
+  resetAll(): boolean;
+}
+
+export interface RestApiServices {
+  tasks: RestApiTasks;
+  reminders: RestApiReminders;
+  pomodoro: RestApiPomodoro;
+  // Scope of a bearer token, or null when it isn't valid
+  authenticate(token: string): ApiTokenScope | null;
+  serverUrl?: string; // advertised in the OpenAPI document
+}
+
+type RestApiOperations = {
+  [Id in keyof RestApiRequests]: (request: RestApiRequests[Id]) => Promise<unknown> | unknown;
+};
+
+// A request as the handler has it, before it's known which operation it is for
+type RestApiOperation = (request: { params: Record<string, string>; query: unknown; body: unknown }) => Promise<unknown> | unknown;
+
+// A failed engine call as an HTTP error: conflicts 409, validation 400, unknown ids 404
+function unwrap<T>(result: ToolResult<T>): T {
+  if (result.success) return result.data as T;
+  const error = result.error || 'Request failed';
+  if (result.conflict) throw new RestApiError(409, error);
+  if (error.startsWith('Task validation failed: ')) throw new RestApiError(400, error);
+  if (/not found/i.test(error)) throw new RestApiError(404, error);
+  throw new RestApiError(500, error);
+}
+
+function parse<T extends z.ZodType>(schema: T, value: unknown, what: string): z.output<T> {
+  const parsed = schema.safeParse(value);
+  if (!parsed.success) throw new RestApiError(400, `Invalid ${what}`, toApiIssues(parsed.error));
+  return parsed.data;
+}
+
+function readJsonBody(req: http.IncomingMessage): Promise<unknown> {
+  const contentType = String(req.headers['content-type'] || 'application/json');
+  if (!/^application\/json\b/i.test(contentType)) {
+    return Promise.reject(new RestApiError(415, 'Send the body as application/json'));
+  }
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      // Keep reading (and dropping) the rest so the 413 can still be answered
+      if (size <= MAX_BODY_BYTES) chunks.push(chunk);
+    });
+    req.on('end', () => {
+      if (size > MAX_BODY_BYTES) return reject(new RestApiError(413, 'Request body too large'));
+      const text = Buffer.concat(chunks).toString('utf8');
+      if (!text.trim()) return resolve(undefined);
+      try {
+        resolve(JSON.parse(text));
+      } catch {
+        reject(new RestApiError(400, 'Invalid JSON body'));
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+function send(res: http.ServerResponse, status: number, body?: unknown): void {
+  if (body === undefined || status === 204) {
+    res.writeHead(status);
+    res.end();
+    return;
+  }
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function createOperations(services: RestApiServices): RestApiOperations {
+  const { tasks, reminders, pomodoro } = services;
+  const findReminder = (id: string): Reminder => {
+    const reminder = reminders.get(id);
+    if (!reminder) throw new RestApiError(404, `Reminder ${id} not found`);
+    return reminder;
+  };
+
+  return {
+    listTasks: async ({ query }) => {
+      const result = unwrap(await tasks.queryTasks(toTaskFilters(query)));
+      return { items: result.tasks.map(toApiTask), total: result.total, limit: query.limit, offset: query.offset };
+    },
+    createTask: async ({ body }) => toApiTask(unwrap(await tasks.createTask({ ...body, createdBy: 'tasky-api', actor: 'api' }))),
+    getTask: async ({ params }) => toApiTask(unwrap(await tasks.getTask(params.id))),
+    updateTask: async ({ params, body }) => toApiTask(unwrap(await tasks.updateTask(params.id, { ...body, actor: 'api' }))),
+    deleteTask: async ({ params }) => {
+      unwrap(await tasks.deleteTask(params.id, 'api'));
+    },
+
+    listReminders: ({ query }) => {
+      const matching = reminders.list().filter(reminder => query.enabled === undefined || reminder.enabled === query.enabled);
+      return {
+        items: matching.slice(query.offset, query.offset + query.limit).map(toApiReminder),
+        total: matching.length,
+        limit: query.limit,
+        offset: query.offset
+      };
+    },
+    createReminder: ({ body }) => {
+      const now = new Date();
+      const reminder: Reminder = { id: uuidv4(), ...body, createdAt: now, updatedAt: now };
+      if (!reminders.add(reminder)) throw new RestApiError(500, 'Failed to save the reminder');
+      return toApiReminder(reminder);
+    },
+    getReminder: ({ params }) => toApiReminder(findReminder(params.id)),
+    updateReminder: ({ params, body }) => {
+      const reminder: Reminder = { ...findReminder(params.id), ...body, updatedAt: new Date() };
+      if (!reminders.update(params.id, reminder)) throw new RestApiError(500, 'Failed to save the reminder');
+      return toApiReminder(reminder);
+    },
+    deleteReminder: ({ params }) => {
+      findReminder(params.id);
+      reminders.remove(params.id);
+    },
+
+    getPomodoro: () => pomodoro.getState(),
+    controlPomodoro: ({ body }) => {
+      switch (body.action) {
+        case 'start':
+          if (!pomodoro.start()) throw new RestApiError(409, 'The timer is already running');
+          break;
+        case 'pause':
+          if (!pomodoro.pause()) throw new RestApiError(409, 'The timer is not running');
+          break;
+        case 'reset':
+          pomodoro.resetCurrent();
+          break;
+        case 'reset-all':
+          pomodoro.resetAll();
+          break;
+      }
+      return pomodoro.getState();
+    },
+
+    getStats: async () => unwrap(await tasks.getTaskStats()),
+    getOpenApi: () => buildOpenApiDocument(services.serverUrl)
+  };
+}
+
+function authorize(req: http.IncomingMessage, route: RestApiRoute, services: RestApiServices, res: http.ServerResponse): void {
+  const header = String(req.headers['authorization'] || '');
+  const token = header.startsWith('Bearer ') ? header.slice('Bearer '.length).trim() : '';
+  const scope = token ? services.authenticate(token) : null;
+  if (!scope) {
+    res.setHeader('WWW-Authenticate', 'Bearer');
+    throw new RestApiError(401, 'Unauthorized');
+  }
+  if (route.scope === 'write' && scope !== 'write') {
+    throw new RestApiError(403, 'This token is read-only');
+  }
+}
+
+/**
+ * Request handler for the versioned REST API (REST_API_ROUTES). Resolves to false for paths
+ * outside /v1, so the caller can serve its own routes; everything under /v1 is answered here,
+ * errors included, as JSON ({ error, issues? }).
+ */
+export function createRestApiHandler(services: RestApiServices): (req: http.IncomingMessage, res: http.ServerResponse) => Promise<boolean> {
+  const operations = createOperations(services);
+
+  return async (req, res) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    if (url.pathname !== '/v1' && !url.pathname.startsWith('/v1/')) return false;
+    try {
+      const match = matchRestRoute(req.method || 'GET', url.pathname);
+      if (!match) throw new RestApiError(404, 'Not found');
+      if ('allowed' in match) {
+        res.setHeader('Allow', match.allowed.join(', '));
+        throw new RestApiError(405, `${req.method} is not allowed here`);
+      }
+      const { route, params } = match;
+      if (route.scope) authorize(req, route, services, res);
+      const query = route.query ? parse(route.query, Object.fromEntries(url.searchParams), 'query') : undefined;
+      const body = route.body ? parse(route.body, await readJsonBody(req), 'body') : undefined;
+
+      // The route's own schemas parsed query and body, so they are what its operation expects
+      const operation = operations[route.operationId as keyof RestApiOperations] as RestApiOperation;
+      const result = await operation({ params, query, body });
+      const id = (result as { id?: unknown } | undefined)?.id;
+      if (route.status === 201 && typeof id === 'string') {
+        res.setHeader('Location', `${url.pathname}/${encodeURIComponent(id)}`);
+      }
+      send(res, route.status, result);
+    } catch (error) {
+      if (error instanceof RestApiError) {
+        send(res, error.status, { error: error.message, ...(error.issues && { issues: error.issues }) });
+      } else {
+        console.error('REST API error:', error);
+        send(res, 500, { error: 'Internal server error' });
+      }
+    }
+    return true;
+  };
+}
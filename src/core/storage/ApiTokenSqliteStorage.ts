@@ -0,0 +1,62 @@
+import Database from 'better-sqlite3';
+import { runMigrations } from './migrations';
+import type { IApiTokenStorage } from './IApiTokenStorage';
+import type { ApiToken } from '../../types/api';
+
+const toApiToken = (r: any): ApiToken => ({
+  id: r.id,
+  name: r.name,
+  scope: r.scope,
+  prefix: r.prefix,
+  createdAt: new Date(r.created_at),
+  lastUsedAt: r.last_used_at ? new Date(r.last_used_at) : undefined
+});
+
+export class ApiTokenSqliteStorage implements IApiTokenStorage {
+  private dbPath: string;
+  private db?: Database.Database;
+
+  constructor(dbPath: string) {
+    this.dbPath = dbPath;
+  }
+
+  initialize(): void {
+    if (this.db) return;
+    this.db = new Database(this.dbPath);
+    const requestedJournal = (process.env.TASKY_SQLITE_JOURNAL || 'DELETE').toUpperCase();
+    const journal = requestedJournal === 'WAL' ? 'WAL' : 'DELETE';
+    try { this.db.pragma(`journal_mode = ${journal}`); } catch {}
+    try { this.db.pragma('synchronous = NORMAL'); } catch {}
+    runMigrations(this.db, { dbPath: this.dbPath });
+  }
+
+  getApiTokens(): ApiToken[] {
+    this.initialize();
+    const rows = this.db!.prepare('SELECT * FROM api_tokens ORDER BY created_at DESC').all() as any[];
+    return rows.map(toApiToken);
+  }
+
+  addApiToken(token: ApiToken, tokenHash: string): void {
+    this.initialize();
+    this.db!.prepare(`
+      INSERT INTO api_tokens (id, name, scope, token_hash, prefix, created_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `).run(token.id, token.name, token.scope, tokenHash, token.prefix, token.createdAt.toISOString());
+  }
+
+  deleteApiToken(id: string): boolean {
+    this.initialize();
+    return this.db!.prepare('DELETE FROM api_tokens WHERE id = ?').run(id).changes > 0;
+  }
+
+  findApiTokenByHash(tokenHash: string): ApiToken | null {
+    this.initialize();
+    const row = this.db!.prepare('SELECT * FROM api_tokens WHERE token_hash = ?').get(tokenHash);
+    return row ? toApiToken(row) : null;
+  }
+
+  markApiTokenUsed(id: string, at: Date): void {
+    this.initialize();
+    this.db!.prepare('UPDATE api_tokens SET last_used_at = ? WHERE id = ?').run(at.toISOString(), id);
+  }
+}
@@ -1,4 +1,5 @@
 import Database from 'better-sqlite3';
+import { runMigrations } from './migrations';
 
 export type ChatMessageRecord = {
   id: string;
@@ -24,23 +25,7 @@ export class ChatSqliteStorage {
     try { this.db.pragma(`journal_mode = ${journal}`); } catch {}
     try { this.db.pragma('synchronous = NORMAL'); } catch {}
     try { this.db.pragma('foreign_keys = ON'); } catch {}
-    this.db.exec(`
-      CREATE TABLE IF NOT EXISTS chats (
-        id TEXT PRIMARY KEY,
-        title TEXT,
-        created_at TEXT NOT NULL,
-        updated_at TEXT NOT NULL
-      );
-      CREATE TABLE IF NOT EXISTS chat_messages (
-        id TEXT PRIMARY KEY,
-        chat_id TEXT NOT NULL,
-        role TEXT NOT NULL CHECK(role IN ('user','assistant')),
-        content TEXT NOT NULL,
-        created_at TEXT NOT NULL,
-        FOREIGN KEY(chat_id) REFERENCES chats(id) ON DELETE CASCADE
-      );
-      CREATE INDEX IF NOT EXISTS idx_chat_messages_chat ON chat_messages(chat_id, created_at);
-    `);
+    runMigrations(this.db, { dbPath: this.dbPath });
   }
 
   private genId(prefix: string): string {
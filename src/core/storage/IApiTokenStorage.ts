@@ -0,0 +1,12 @@
+import type { ApiToken } from '../../types/api';
+
+export interface IApiTokenStorage {
+  initialize(): void;
+  // Newest first
+  getApiTokens(): ApiToken[];
+  addApiToken(token: ApiToken, tokenHash: string): void;
+  // False when the id was unknown
+  deleteApiToken(id: string): boolean;
+  findApiTokenByHash(tokenHash: string): ApiToken | null;
+  markApiTokenUsed(id: string, at: Date): void;
+}
@@ -1,10 +1,106 @@
-import { TaskyTask, ToolResult } from '../../types/task';
+import { AutomationRule, AutomationRun, TaskActor, TaskChange, TaskEventQuery, TaskEventRecord, TaskFilterOptions, TaskPolicySettings, TaskQueryResult, TaskRevision, TaskSearchResult, TaskStatusChange, TaskTimeEntry, TaskTimerResult, TaskWrite, TaskReminderLink, TaskTemplate, TaskWorkflow, TaskyTask, ToolResult, TrashPurgeOptions, TrashedTask } from '../../types/task';
 
 export interface ITaskStorage {
   initialize(): Promise<ToolResult<void>>;
   loadAllTasks(): Promise<ToolResult<TaskyTask[]>>;
-  saveTask(task: TaskyTask): Promise<ToolResult<void>>;
+  /**
+   * Insert or replace a task. With `expectedVersion`, the write only happens if the stored
+   * metadata.version still matches; otherwise the result carries `conflict`.
+   */
+  saveTask(task: TaskyTask, expectedVersion?: number): Promise<ToolResult<void>>;
+  /**
+   * Remove a task. Storages with a trash keep a copy there, with the ids of its subtasks and
+   * dependents, until it is restored or purged; saving a task with the same id takes it back out.
+   */
   deleteTask(taskId: string): Promise<ToolResult<void>>;
+  /**
+   * Save and delete several tasks atomically (optional); used to undo multi-task changes.
+   * Without it the engine applies the writes one by one.
+   */
+  applyTaskWrites?(writes: TaskWrite[]): Promise<ToolResult<void>>;
+  /**
+   * Changes written by other connections since the previous call (optional).
+   * Storages shared between processes implement this so the engine can emit events for them.
+   */
+  readExternalChanges?(): Promise<ToolResult<TaskChange[]>>;
+  /**
+   * Filter, sort and page tasks where they are stored (optional).
+   * Without it the engine applies the same rules to its in-memory list (lib/task-query).
+   */
+  queryTasks?(filter: TaskFilterOptions): Promise<ToolResult<TaskQueryResult>>;
+  /**
+   * Ranked full-text search with snippets, narrowed by the filter's other options (optional).
+   */
+  searchTasks?(query: string, filter?: TaskFilterOptions): Promise<ToolResult<TaskSearchResult>>;
+  /**
+   * Append to / read a task's revision history, newest first (optional).
+   * Without them the engine keeps no history.
+   */
+  saveRevision?(revision: Omit<TaskRevision, 'id'>): Promise<ToolResult<void>>;
+  getRevisions?(taskId: string): Promise<ToolResult<TaskRevision[]>>;
+  /**
+   * Every status change in the revision history, oldest first (optional). Without it flow
+   * analytics only see each task's creation and current status.
+   */
+  getStatusHistory?(): Promise<ToolResult<TaskStatusChange[]>>;
+  /**
+   * List / permanently delete trashed tasks (optional). Without them deletes are permanent
+   * and the trash stays empty.
+   */
+  getTrashedTasks?(): Promise<ToolResult<TrashedTask[]>>;
+  purgeTrashedTasks?(options?: TrashPurgeOptions): Promise<ToolResult<number>>;
+  /**
+   * Record / look up reminder-task conversions by either side's id, newest first (optional).
+   * Without them conversions still work but leave no link behind.
+   */
+  saveReminderLink?(link: TaskReminderLink): Promise<ToolResult<void>>;
+  getReminderLinks?(filter: { taskId?: string; reminderId?: string }): Promise<ToolResult<TaskReminderLink[]>>;
+  /**
+   * Template library (optional): list by name, upsert by id, delete (data is false when the id
+   * was unknown). Without them the engine reports that templates are unavailable.
+   */
+  getTemplates?(): Promise<ToolResult<TaskTemplate[]>>;
+  saveTemplate?(template: TaskTemplate): Promise<ToolResult<void>>;
+  deleteTemplate?(id: string): Promise<ToolResult<boolean>>;
+  /**
+   * Status workflow (optional): the saved statuses and transition rules, or the default workflow
+   * when none was saved. Without them the engine uses the default and can't save changes.
+   */
+  getWorkflow?(): Promise<ToolResult<TaskWorkflow>>;
+  saveWorkflow?(workflow: TaskWorkflow): Promise<ToolResult<void>>;
+  /**
+   * OODA policy (optional): the chosen policy and thresholds, or the default ones when none was
+   * saved. Without them the engine uses the default and can't save changes.
+   */
+  getPolicy?(): Promise<ToolResult<TaskPolicySettings>>;
+  savePolicy?(settings: TaskPolicySettings): Promise<ToolResult<void>>;
+  /**
+   * Event log (optional): append an engine event (data is its seq), list events after a seq
+   * oldest first, filtered by names or 'prefix*' patterns, and the latest seq (0 when empty).
+   * Events are never changed or removed. Without them nothing is recorded and the engine
+   * reports that the event log is unavailable.
+   */
+  appendEvent?(event: Omit<TaskEventRecord, 'seq'>): Promise<ToolResult<number>>;
+  getEvents?(query?: TaskEventQuery): Promise<ToolResult<TaskEventRecord[]>>;
+  getLatestEventSeq?(): Promise<ToolResult<number>>;
+  /**
+   * Automation rules (optional): list by name, upsert by id, delete (data is false when the id
+   * was unknown), and the run log, newest first. Without them no rules run.
+   */
+  getAutomationRules?(): Promise<ToolResult<AutomationRule[]>>;
+  saveAutomationRule?(rule: AutomationRule): Promise<ToolResult<void>>;
+  deleteAutomationRule?(id: string): Promise<ToolResult<boolean>>;
+  saveAutomationRun?(run: Omit<AutomationRun, 'id'>): Promise<ToolResult<AutomationRun>>;
+  getAutomationRuns?(options?: { ruleId?: string; limit?: number }): Promise<ToolResult<AutomationRun[]>>;
+  /**
+   * Time entries (optional). Starting a timer stops the running one in the same transaction, so
+   * only one runs at a time; stopping (only the given task's timer, when `taskId` is set) gives
+   * null when nothing was running. Entries are listed oldest first; deleting gives false for an
+   * unknown id. Without them the engine reports that time tracking is unavailable.
+   */
+  startTimeEntry?(taskId: string, startedAt: Date, actor: TaskActor): Promise<ToolResult<TaskTimerResult>>;
+  stopTimeEntry?(endedAt: Date, taskId?: string): Promise<ToolResult<TaskTimeEntry | null>>;
+  addTimeEntry?(entry: Omit<TaskTimeEntry, 'id'>): Promise<ToolResult<TaskTimeEntry>>;
+  getTimeEntries?(taskId?: string): Promise<ToolResult<TaskTimeEntry[]>>;
+  deleteTimeEntry?(id: number): Promise<ToolResult<boolean>>;
 }
-
-
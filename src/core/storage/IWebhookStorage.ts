@@ -0,0 +1,23 @@
+import type { Webhook, WebhookDelivery, WebhookDeliveryFilter } from '../../types/webhook';
+
+export interface IWebhookStorage {
+  initialize(): void;
+  getWebhooks(): Webhook[];
+  // Insert or replace by id
+  saveWebhook(webhook: Webhook): void;
+  // Deletes its deliveries too; false when the id was unknown
+  deleteWebhook(id: string): boolean;
+  addDeliveries(deliveries: Array<Omit<WebhookDelivery, 'id'>>): WebhookDelivery[];
+  updateDelivery(delivery: WebhookDelivery): void;
+  deleteDelivery(id: number): boolean;
+  getDelivery(id: number): WebhookDelivery | null;
+  // Newest first
+  getDeliveries(filter?: WebhookDeliveryFilter): WebhookDelivery[];
+  // Pending deliveries whose next attempt is at or before `now`, oldest first
+  getDueDeliveries(now: Date): WebhookDelivery[];
+  // When the earliest pending delivery is next tried, or null when none is pending
+  getNextAttemptAt(): Date | null;
+  // Seq of the last task event turned into deliveries, or null before the first one
+  getEventCursor(): number | null;
+  saveEventCursor(seq: number): void;
+}
@@ -1,5 +1,8 @@
 import Database from 'better-sqlite3';
+import { runMigrations } from './migrations';
+import { getTrashEntry, listTrash, moveToTrash, purgeTrash, removeFromTrash } from './trash';
 import type { Reminder } from '../../types';
+import type { TrashPurgeOptions } from '../../types/task';
 
 export class ReminderSqliteStorage {
   private dbPath: string;
@@ -16,17 +19,7 @@ export class ReminderSqliteStorage {
     const journal = requestedJournal === 'WAL' ? 'WAL' : 'DELETE';
     try { this.db.pragma(`journal_mode = ${journal}`); } catch {}
     try { this.db.pragma('synchronous = NORMAL'); } catch {}
-    this.db.exec(`
-      CREATE TABLE IF NOT EXISTS reminders (
-        id TEXT PRIMARY KEY,
-        message TEXT NOT NULL,
-        time TEXT NOT NULL,
-        days TEXT,
-        enabled INTEGER NOT NULL DEFAULT 1,
-        created_at TEXT NOT NULL,
-        updated_at TEXT NOT NULL
-      );
-    `);
+    runMigrations(this.db, { dbPath: this.dbPath });
   }
 
   getReminders(): Reminder[] {
@@ -73,10 +66,41 @@ export class ReminderSqliteStorage {
     return this.addReminder(merged);
   }
 
+  // Deleted reminders go to the shared trash
   deleteReminder(id: string): boolean {
     this.initialize();
-    const info = this.db!.prepare('DELETE FROM reminders WHERE id = ?').run(id);
-    return info.changes > 0;
+    const current = this.getReminderById(id);
+    if (!current) return false;
+    this.db!.transaction(() => {
+      moveToTrash(this.db!, 'reminder', id, current.message, current);
+      this.db!.prepare('DELETE FROM reminders WHERE id = ?').run(id);
+    })();
+    return true;
+  }
+
+  getTrashedReminders(): Array<{ reminder: Reminder; deletedAt: Date }> {
+    this.initialize();
+    return listTrash(this.db!, 'reminder').map(r => ({ reminder: r.snapshot as Reminder, deletedAt: r.deletedAt }));
+  }
+
+  /**
+   * Put a trashed reminder back. Returns it, or null when it isn't in the trash.
+   */
+  restoreReminder(id: string): Reminder | null {
+    this.initialize();
+    const entry = getTrashEntry(this.db!, 'reminder', id);
+    if (!entry) return null;
+    const reminder = entry.snapshot as Reminder;
+    this.db!.transaction(() => {
+      this.addReminder(reminder);
+      removeFromTrash(this.db!, 'reminder', id);
+    })();
+    return reminder;
+  }
+
+  purgeTrashedReminders(options: TrashPurgeOptions = {}): number {
+    this.initialize();
+    return purgeTrash(this.db!, 'reminder', options);
   }
 
   getReminderById(id: string): Reminder | null {
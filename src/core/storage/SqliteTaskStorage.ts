@@ -1,49 +1,71 @@
 import Database from 'better-sqlite3';
 import { ITaskStorage } from './ITaskStorage';
-import { TaskyTask, ToolResult } from '../../types/task';
+import { AutomationRule, AutomationRun, TaskActor, TaskChange, TaskConflictError, TaskEventQuery, TaskEventRecord, TaskFilterOptions, TaskPolicySettings, TaskQueryResult, TaskReminderLink, TaskRevision, TaskSearchResult, TaskStatusChange, TaskTemplate, TaskTimeEntry, TaskTimerResult, TaskWorkflow, TaskWrite, TaskyTask, ToolResult, TrashPurgeOptions, TrashedTask, TrashedTaskLinks } from '../../types/task';
+import { parseRRule, toRRule } from '../../lib/task-recurrence';
+import { runMigrations } from './migrations';
+import { compileTaskQuery } from './task-query-sql';
+import { emptyStatusCounts } from '../../lib/task-query';
+import { SEARCH_HIGHLIGHT_END, SEARCH_HIGHLIGHT_START, toFtsQuery } from '../../lib/task-search';
+import { reviveTask } from '../../lib/task-revisions';
+import { DEFAULT_TASK_POLICY_SETTINGS } from '../../lib/task-policies';
+import { listTrash, moveToTrash, purgeTrash, removeFromTrash } from './trash';
+import { readWorkflow, writeWorkflow } from './workflow';
+
+// Feed entries older than this are pruned on open; readers only ever look at recent ones
+const CHANGE_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Columns whose edits aren't reported as changed fields
+const UNTRACKED_COLUMNS = new Set(['id', 'updated_at', 'metadata']);
+
+// Older automation runs are dropped as new ones are logged
+const AUTOMATION_RUN_RETENTION = 1000;
+
+// bm25 column weights for tasks_fts (title, description, tags, result)
+const SEARCH_WEIGHTS = '10.0, 4.0, 6.0, 1.0';
+
+const toFieldName = (column: string): string => column.replace(/_([a-z])/g, (_, c: string) => c.toUpperCase());
+
+const toTimeEntry = (r: any): TaskTimeEntry => ({
+  id: r.id,
+  taskId: r.task_id,
+  startedAt: new Date(r.started_at),
+  endedAt: r.ended_at ? new Date(r.ended_at) : undefined,
+  source: r.source,
+  note: r.note || undefined,
+  actor: r.actor
+});
 
 export class SqliteTaskStorage implements ITaskStorage {
   private dbPath: string;
   private db?: Database.Database;
+  // Tags this connection's task_changes rows so readExternalChanges can skip them
+  private readonly origin = `${process.pid}-${Math.random().toString(36).slice(2, 10)}`;
+  private changeCursor = 0;
+  private dataVersion?: number;
 
-  constructor(dbPath: string) {
+  /**
+   * @param db Optional open connection. The MCP agent passes one from its own better-sqlite3 build,
+   * since the app's copy is compiled for Electron.
+   */
+  constructor(dbPath: string, db?: Database.Database) {
     this.dbPath = dbPath;
+    this.db = db;
   }
 
   async initialize(): Promise<ToolResult<void>> {
     try {
-      this.db = new Database(this.dbPath);
+      if (!this.db) this.db = new Database(this.dbPath);
       const requestedJournal = (process.env.TASKY_SQLITE_JOURNAL || 'DELETE').toUpperCase();
       const journal = requestedJournal === 'WAL' ? 'WAL' : 'DELETE';
       try { this.db.pragma(`journal_mode = ${journal}`); } catch {}
       try { this.db.pragma('synchronous = NORMAL'); } catch {}
       try { this.db.pragma('foreign_keys = ON'); } catch {}
-      this.db.exec(`
-        CREATE TABLE IF NOT EXISTS tasks (
-          id TEXT PRIMARY KEY,
-          title TEXT NOT NULL,
-          description TEXT,
-          status TEXT NOT NULL CHECK(status IN ('PENDING','IN_PROGRESS','COMPLETED','NEEDS_REVIEW','ARCHIVED')),
-          created_at TEXT NOT NULL,
-          updated_at TEXT NOT NULL,
-          due_date TEXT,
-          reminder_enabled INTEGER NOT NULL DEFAULT 0,
-          result TEXT,
-          completed_at TEXT,
-          assigned_agent TEXT,
-          execution_path TEXT,
-          metadata TEXT
-        );
-        CREATE TABLE IF NOT EXISTS task_tags (
-          task_id TEXT NOT NULL,
-          tag TEXT NOT NULL,
-          PRIMARY KEY(task_id, tag),
-          FOREIGN KEY(task_id) REFERENCES tasks(id) ON DELETE CASCADE
-        );
-        CREATE INDEX IF NOT EXISTS idx_tasks_status ON tasks(status);
-        CREATE INDEX IF NOT EXISTS idx_tasks_created ON tasks(created_at);
-        CREATE INDEX IF NOT EXISTS idx_tasks_due ON tasks(due_date);
-      `);
+      runMigrations(this.db, { dbPath: this.dbPath });
+      this.db.prepare('DELETE FROM task_changes WHERE changed_at < ?')
+        .run(new Date(Date.now() - CHANGE_RETENTION_MS).toISOString());
+      // Only changes made after this point are reported
+      this.changeCursor = (this.db.prepare('SELECT COALESCE(MAX(seq), 0) AS seq FROM task_changes').get() as any).seq;
+      this.dataVersion = this.db.pragma('data_version', { simple: true }) as number;
       return { success: true, message: 'SQLite initialized' };
     } catch (e) {
       return { success: false, error: e instanceof Error ? e.message : 'Failed to init sqlite' };
@@ -53,102 +75,740 @@ export class SqliteTaskStorage implements ITaskStorage {
   async loadAllTasks(): Promise<ToolResult<TaskyTask[]>> {
     try {
       if (!this.db) throw new Error('DB not initialized');
-      const rows = this.db.prepare('SELECT * FROM tasks').all();
-      const tagRows = this.db.prepare('SELECT task_id, tag FROM task_tags').all();
-      const taskIdToTags: Record<string, string[]> = {};
-      for (const r of tagRows) {
-        (taskIdToTags[r.task_id] ||= []).push(r.tag);
-      }
-      const tasks: TaskyTask[] = rows.map((r: any) => ({
-        schema: {
-          id: r.id,
-          title: r.title,
-          description: r.description || undefined,
-          createdAt: new Date(r.created_at),
-          updatedAt: new Date(r.updated_at),
-          dueDate: r.due_date ? new Date(r.due_date) : undefined,
-          tags: taskIdToTags[r.id] || [],
-          affectedFiles: [],
-          estimatedDuration: undefined,
-          dependencies: [],
-          assignedAgent: r.assigned_agent || undefined,
-          executionPath: r.execution_path || undefined
-        },
-        status: r.status,
-        reminderEnabled: !!r.reminder_enabled,
-        result: r.result || undefined,
-        completedAt: r.completed_at ? new Date(r.completed_at) : undefined,
-        metadata: r.metadata ? JSON.parse(r.metadata) : undefined
-      }));
+      const tasks = this.hydrate(this.db.prepare('SELECT * FROM tasks').all() as any[]);
       return { success: true, data: tasks };
     } catch (e) {
       return { success: false, error: e instanceof Error ? e.message : 'Failed to load tasks' };
     }
   }
 
-  async saveTask(task: TaskyTask): Promise<ToolResult<void>> {
-    try {
-      if (!this.db) throw new Error('DB not initialized');
-      const t = this.db.transaction(() => {
-        this.db!.prepare(`
-          INSERT INTO tasks (id,title,description,status,created_at,updated_at,due_date,reminder_enabled,result,completed_at,assigned_agent,execution_path,metadata)
-          VALUES (@id,@title,@description,@status,@created_at,@updated_at,@due_date,@reminder_enabled,@result,@completed_at,@assigned_agent,@execution_path,@metadata)
-          ON CONFLICT(id) DO UPDATE SET
-            title=excluded.title,
-            description=excluded.description,
-            status=excluded.status,
-            created_at=excluded.created_at,
-            updated_at=excluded.updated_at,
-            due_date=excluded.due_date,
-            reminder_enabled=excluded.reminder_enabled,
-            result=excluded.result,
-            completed_at=excluded.completed_at,
-            assigned_agent=excluded.assigned_agent,
-            execution_path=excluded.execution_path,
-            metadata=excluded.metadata
-        `).run({
-          id: task.schema.id,
-          title: task.schema.title,
-          description: task.schema.description || null,
-          status: task.status,
-          created_at: task.schema.createdAt.toISOString(),
-          updated_at: task.schema.updatedAt?.toISOString() || new Date().toISOString(),
-          due_date: task.schema.dueDate ? task.schema.dueDate.toISOString() : null,
-          reminder_enabled: task.reminderEnabled ? 1 : 0,
-          result: task.result || null,
-          completed_at: task.completedAt ? task.completedAt.toISOString() : null,
-          assigned_agent: task.schema.assignedAgent || null,
-          execution_path: task.schema.executionPath || null,
-          metadata: task.metadata ? JSON.stringify(task.metadata) : null
-        });
-        // Replace tags
-        this.db!.prepare('DELETE FROM task_tags WHERE task_id = ?').run(task.schema.id);
-        const insertTag = this.db!.prepare('INSERT INTO task_tags (task_id, tag) VALUES (?,?)');
-        for (const tag of task.schema.tags || []) {
-          insertTag.run(task.schema.id, tag);
-        }
-      });
-      t();
+  async saveTask(task: TaskyTask, expectedVersion?: number): Promise<ToolResult<void>> {
+    try {
+      if (!this.db) throw new Error('DB not initialized');
+      this.db.transaction(() => this.writeTask(task, expectedVersion))();
       return { success: true };
     } catch (e) {
-      return { success: false, error: e instanceof Error ? e.message : 'Failed to save task' };
+      return this.writeFailure(e, 'Failed to save task');
     }
   }
 
   async deleteTask(taskId: string): Promise<ToolResult<void>> {
     try {
       if (!this.db) throw new Error('DB not initialized');
-      const t = this.db.transaction(() => {
-        this.db!.prepare('DELETE FROM task_tags WHERE task_id = ?').run(taskId);
-        this.db!.prepare('DELETE FROM tasks WHERE id = ?').run(taskId);
-      });
-      t();
+      this.db.transaction(() => this.removeTask(taskId))();
       return { success: true };
     } catch (e) {
       return { success: false, error: e instanceof Error ? e.message : 'Failed to delete task' };
     }
   }
 
+  /**
+   * Saves and deletes in one transaction; a version conflict on any of them rolls back all.
+   */
+  async applyTaskWrites(writes: TaskWrite[]): Promise<ToolResult<void>> {
+    try {
+      if (!this.db) throw new Error('DB not initialized');
+      this.db.transaction(() => {
+        for (const write of writes) {
+          if (write.task) this.writeTask(write.task, write.expectedVersion);
+          else this.removeTask(write.taskId, write.expectedVersion);
+        }
+      })();
+      return { success: true };
+    } catch (e) {
+      return this.writeFailure(e, 'Failed to apply task changes');
+    }
+  }
+
+  /**
+   * Task changes committed by other connections (e.g. the MCP agent) since the last call.
+   * PRAGMA data_version only moves when another connection commits, so idle polls skip the query.
+   */
+  async readExternalChanges(): Promise<ToolResult<TaskChange[]>> {
+    try {
+      if (!this.db) throw new Error('DB not initialized');
+      const version = this.db.pragma('data_version', { simple: true }) as number;
+      if (version === this.dataVersion) return { success: true, data: [] };
+      this.dataVersion = version;
+
+      const rows = this.db.prepare('SELECT * FROM task_changes WHERE seq > ? ORDER BY seq').all(this.changeCursor) as any[];
+      if (rows.length > 0) this.changeCursor = rows[rows.length - 1].seq;
+      const changes: TaskChange[] = rows
+        .filter(r => r.origin !== this.origin)
+        .map(r => ({
+          seq: r.seq,
+          taskId: r.task_id,
+          op: r.op,
+          previousStatus: r.previous_status || undefined,
+          fields: r.fields ? JSON.parse(r.fields) : [],
+          changedAt: new Date(r.changed_at)
+        }));
+      return { success: true, data: changes };
+    } catch (e) {
+      return { success: false, error: e instanceof Error ? e.message : 'Failed to read task changes' };
+    }
+  }
+
+  /**
+   * Filter, sort and page tasks in SQL. Only the requested page is hydrated; `total` and
+   * `counts` cover every matching task.
+   */
+  async queryTasks(filter: TaskFilterOptions = {}): Promise<ToolResult<TaskQueryResult>> {
+    try {
+      if (!this.db) throw new Error('DB not initialized');
+      const { where, params, orderBy, limit, offset } = compileTaskQuery(filter);
+      const total = (this.db.prepare(`SELECT COUNT(*) AS n FROM tasks t ${where}`).get(...params) as any).n as number;
+      const rows = limit === 0 ? [] : this.db.prepare(`SELECT t.* FROM tasks t ${where} ORDER BY ${orderBy} LIMIT ? OFFSET ?`)
+        .all(...params, limit, offset) as any[];
+      const result: TaskQueryResult = { tasks: this.hydrate(rows, true), total };
+
+      if (filter.includeCounts && filter.includeCounts.length > 0) {
+        result.counts = {};
+        if (filter.includeCounts.includes('status')) {
+          const status = emptyStatusCounts();
+          const statusRows = this.db.prepare(`SELECT t.status, COUNT(*) AS n FROM tasks t ${where} GROUP BY t.status`).all(...params) as any[];
+          for (const r of statusRows) status[r.status] = r.n;
+          result.counts.status = status;
+        }
+        if (filter.includeCounts.includes('tags')) {
+          const tags: Record<string, number> = {};
+          const tagRows = this.db.prepare(`SELECT g.tag, COUNT(*) AS n FROM tasks t JOIN task_tags g ON g.task_id = t.id ${where} GROUP BY g.tag`).all(...params) as any[];
+          for (const r of tagRows) tags[r.tag] = r.n;
+          result.counts.tags = tags;
+        }
+      }
+      return { success: true, data: result };
+    } catch (e) {
+      return { success: false, error: e instanceof Error ? e.message : 'Failed to query tasks' };
+    }
+  }
+
+  /**
+   * Ranked full-text search (title, description, tags, result) narrowed by the other filter options.
+   * Snippets come from whichever column matched best.
+   */
+  async searchTasks(query: string, filter: TaskFilterOptions = {}): Promise<ToolResult<TaskSearchResult>> {
+    try {
+      if (!this.db) throw new Error('DB not initialized');
+      const match = toFtsQuery(query);
+      if (!match) return { success: true, data: { hits: [], total: 0 } };
+      const { where, params, limit, offset } = compileTaskQuery({ ...filter, search: undefined });
+      const from = `FROM tasks t JOIN tasks_fts ON tasks_fts.rowid = t.rowid AND tasks_fts MATCH ? ${where}`;
+      const total = (this.db.prepare(`SELECT COUNT(*) AS n ${from}`).get(match, ...params) as any).n as number;
+      // bm25 is lower-is-better; title and tag matches weigh more than body text
+      const rows = limit === 0 ? [] : this.db.prepare(`
+        SELECT t.*, -bm25(tasks_fts, ${SEARCH_WEIGHTS}) AS search_score,
+          snippet(tasks_fts, -1, ?, ?, '…', 12) AS search_snippet
+        ${from}
+        ORDER BY search_score DESC, t.created_at DESC, t.id
+        LIMIT ? OFFSET ?
+      `).all(SEARCH_HIGHLIGHT_START, SEARCH_HIGHLIGHT_END, match, ...params, limit, offset) as any[];
+      const tasks = this.hydrate(rows, true);
+      const hits = tasks.map((task, i) => ({ task, score: rows[i].search_score, snippet: rows[i].search_snippet || undefined }));
+      return { success: true, data: { hits, total } };
+    } catch (e) {
+      return { success: false, error: e instanceof Error ? e.message : 'Failed to search tasks' };
+    }
+  }
+
+  async saveRevision(revision: Omit<TaskRevision, 'id'>): Promise<ToolResult<void>> {
+    try {
+      if (!this.db) throw new Error('DB not initialized');
+      this.db.prepare(`
+        INSERT INTO task_revisions (task_id, op, actor, changes, snapshot, created_at) VALUES (?, ?, ?, ?, ?, ?)
+      `).run(
+        revision.taskId,
+        revision.op,
+        revision.actor,
+        JSON.stringify(revision.changes),
+        JSON.stringify(revision.snapshot),
+        revision.createdAt.toISOString()
+      );
+      return { success: true };
+    } catch (e) {
+      return { success: false, error: e instanceof Error ? e.message : 'Failed to save task revision' };
+    }
+  }
+
+  async getRevisions(taskId: string): Promise<ToolResult<TaskRevision[]>> {
+    try {
+      if (!this.db) throw new Error('DB not initialized');
+      const rows = this.db.prepare('SELECT * FROM task_revisions WHERE task_id = ? ORDER BY id DESC').all(taskId) as any[];
+      const revisions: TaskRevision[] = rows.map(r => ({
+        id: r.id,
+        taskId: r.task_id,
+        op: r.op,
+        actor: r.actor,
+        changes: JSON.parse(r.changes),
+        snapshot: reviveTask(JSON.parse(r.snapshot)),
+        createdAt: new Date(r.created_at)
+      }));
+      return { success: true, data: revisions };
+    } catch (e) {
+      return { success: false, error: e instanceof Error ? e.message : 'Failed to load task revisions' };
+    }
+  }
+
+  async getStatusHistory(): Promise<ToolResult<TaskStatusChange[]>> {
+    try {
+      if (!this.db) throw new Error('DB not initialized');
+      // Creates, deletes and restores carry a status change too (from or to nothing)
+      const rows = this.db.prepare(`
+        SELECT task_id, actor, created_at,
+               json_extract(changes, '$.status.from') AS from_status,
+               json_extract(changes, '$.status.to') AS to_status
+        FROM task_revisions
+        WHERE json_extract(changes, '$.status') IS NOT NULL
+        ORDER BY id
+      `).all() as any[];
+      const history: TaskStatusChange[] = rows.map(r => ({
+        taskId: r.task_id,
+        ...(r.from_status ? { from: r.from_status } : {}),
+        ...(r.to_status ? { to: r.to_status } : {}),
+        at: new Date(r.created_at),
+        actor: r.actor
+      }));
+      return { success: true, data: history };
+    } catch (e) {
+      return { success: false, error: e instanceof Error ? e.message : 'Failed to load status history' };
+    }
+  }
+
+  async getTrashedTasks(): Promise<ToolResult<TrashedTask[]>> {
+    try {
+      if (!this.db) throw new Error('DB not initialized');
+      const trashed = listTrash(this.db, 'task').map(r => ({ task: reviveTask(r.snapshot), links: r.links, deletedAt: r.deletedAt }));
+      return { success: true, data: trashed };
+    } catch (e) {
+      return { success: false, error: e instanceof Error ? e.message : 'Failed to load trash' };
+    }
+  }
+
+  async purgeTrashedTasks(options: TrashPurgeOptions = {}): Promise<ToolResult<number>> {
+    try {
+      if (!this.db) throw new Error('DB not initialized');
+      return { success: true, data: purgeTrash(this.db, 'task', options) };
+    } catch (e) {
+      return { success: false, error: e instanceof Error ? e.message : 'Failed to purge trash' };
+    }
+  }
+
+  async saveReminderLink(link: TaskReminderLink): Promise<ToolResult<void>> {
+    try {
+      if (!this.db) throw new Error('DB not initialized');
+      this.db.prepare(`
+        INSERT INTO task_reminder_links (reminder_id, task_id, direction, converted_at, preserve_original) VALUES (?, ?, ?, ?, ?)
+      `).run(link.reminderId, link.taskId, link.direction, link.conversionDate.toISOString(), link.preserveOriginal ? 1 : 0);
+      return { success: true };
+    } catch (e) {
+      return { success: false, error: e instanceof Error ? e.message : 'Failed to save conversion link' };
+    }
+  }
+
+  async getReminderLinks(filter: { taskId?: string; reminderId?: string }): Promise<ToolResult<TaskReminderLink[]>> {
+    try {
+      if (!this.db) throw new Error('DB not initialized');
+      const rows = this.db.prepare(`
+        SELECT * FROM task_reminder_links
+        WHERE (@taskId IS NULL OR task_id = @taskId) AND (@reminderId IS NULL OR reminder_id = @reminderId)
+        ORDER BY id DESC
+      `).all({ taskId: filter.taskId ?? null, reminderId: filter.reminderId ?? null }) as any[];
+      const links: TaskReminderLink[] = rows.map(r => ({
+        reminderId: r.reminder_id,
+        taskId: r.task_id,
+        direction: r.direction,
+        conversionDate: new Date(r.converted_at),
+        preserveOriginal: !!r.preserve_original
+      }));
+      return { success: true, data: links };
+    } catch (e) {
+      return { success: false, error: e instanceof Error ? e.message : 'Failed to load conversion links' };
+    }
+  }
+
+  async getTemplates(): Promise<ToolResult<TaskTemplate[]>> {
+    try {
+      if (!this.db) throw new Error('DB not initialized');
+      const rows = this.db.prepare('SELECT * FROM task_templates ORDER BY name COLLATE NOCASE').all() as any[];
+      const templates: TaskTemplate[] = rows.map(r => ({
+        ...JSON.parse(r.definition),
+        id: r.id,
+        name: r.name,
+        createdAt: new Date(r.created_at),
+        updatedAt: new Date(r.updated_at)
+      }));
+      return { success: true, data: templates };
+    } catch (e) {
+      return { success: false, error: e instanceof Error ? e.message : 'Failed to load templates' };
+    }
+  }
+
+  async saveTemplate(template: TaskTemplate): Promise<ToolResult<void>> {
+    try {
+      if (!this.db) throw new Error('DB not initialized');
+      const { id, name, createdAt, updatedAt, ...definition } = template;
+      this.db.prepare(`
+        INSERT INTO task_templates (id, name, definition, created_at, updated_at) VALUES (?, ?, ?, ?, ?)
+        ON CONFLICT(id) DO UPDATE SET name = excluded.name, definition = excluded.definition, updated_at = excluded.updated_at
+      `).run(id, name, JSON.stringify(definition), createdAt.toISOString(), updatedAt.toISOString());
+      return { success: true };
+    } catch (e) {
+      return { success: false, error: e instanceof Error ? e.message : 'Failed to save template' };
+    }
+  }
+
+  async deleteTemplate(id: string): Promise<ToolResult<boolean>> {
+    try {
+      if (!this.db) throw new Error('DB not initialized');
+      const info = this.db.prepare('DELETE FROM task_templates WHERE id = ?').run(id);
+      return { success: true, data: info.changes > 0 };
+    } catch (e) {
+      return { success: false, error: e instanceof Error ? e.message : 'Failed to delete template' };
+    }
+  }
+
+  async getWorkflow(): Promise<ToolResult<TaskWorkflow>> {
+    try {
+      if (!this.db) throw new Error('DB not initialized');
+      return { success: true, data: readWorkflow(this.db) };
+    } catch (e) {
+      return { success: false, error: e instanceof Error ? e.message : 'Failed to load workflow' };
+    }
+  }
+
+  async saveWorkflow(workflow: TaskWorkflow): Promise<ToolResult<void>> {
+    try {
+      if (!this.db) throw new Error('DB not initialized');
+      writeWorkflow(this.db, workflow);
+      return { success: true };
+    } catch (e) {
+      return { success: false, error: e instanceof Error ? e.message : 'Failed to save workflow' };
+    }
+  }
+
+  async getPolicy(): Promise<ToolResult<TaskPolicySettings>> {
+    try {
+      if (!this.db) throw new Error('DB not initialized');
+      const row = this.db.prepare('SELECT definition FROM task_policy WHERE id = 1').get() as { definition: string } | undefined;
+      return { success: true, data: row ? JSON.parse(row.definition) : DEFAULT_TASK_POLICY_SETTINGS };
+    } catch (e) {
+      return { success: false, error: e instanceof Error ? e.message : 'Failed to load policy' };
+    }
+  }
+
+  async savePolicy(settings: TaskPolicySettings): Promise<ToolResult<void>> {
+    try {
+      if (!this.db) throw new Error('DB not initialized');
+      this.db.prepare(`
+        INSERT INTO task_policy (id, definition, updated_at) VALUES (1, ?, ?)
+        ON CONFLICT(id) DO UPDATE SET definition = excluded.definition, updated_at = excluded.updated_at
+      `).run(JSON.stringify(settings), new Date().toISOString());
+      return { success: true };
+    } catch (e) {
+      return { success: false, error: e instanceof Error ? e.message : 'Failed to save policy' };
+    }
+  }
+
+  async appendEvent(event: Omit<TaskEventRecord, 'seq'>): Promise<ToolResult<number>> {
+    try {
+      if (!this.db) throw new Error('DB not initialized');
+      const info = this.db.prepare('INSERT INTO events (type, task_id, payload, emitted_at) VALUES (?, ?, ?, ?)')
+        .run(event.type, event.taskId, JSON.stringify(event.payload), event.emittedAt.toISOString());
+      return { success: true, data: Number(info.lastInsertRowid) };
+    } catch (e) {
+      return { success: false, error: e instanceof Error ? e.message : 'Failed to record event' };
+    }
+  }
+
+  async getEvents(query: TaskEventQuery = {}): Promise<ToolResult<TaskEventRecord[]>> {
+    try {
+      if (!this.db) throw new Error('DB not initialized');
+      // Patterns ('task:*') are validated to contain no other GLOB wildcards
+      const types = query.types || [];
+      const typeFilter = types.length > 0 ? `AND (${types.map(() => 'type GLOB ?').join(' OR ')})` : '';
+      const rows = this.db.prepare(`SELECT * FROM events WHERE seq > ? ${typeFilter} ORDER BY seq LIMIT ?`)
+        .all(query.after ?? 0, ...types, query.limit ?? -1) as any[];
+      const events = rows.map(r => {
+        const payload = JSON.parse(r.payload);
+        if (payload.task) payload.task = reviveTask(payload.task);
+        return { seq: r.seq, type: r.type, taskId: r.task_id, payload, emittedAt: new Date(r.emitted_at) } as TaskEventRecord;
+      });
+      return { success: true, data: events };
+    } catch (e) {
+      return { success: false, error: e instanceof Error ? e.message : 'Failed to load events' };
+    }
+  }
+
+  async getLatestEventSeq(): Promise<ToolResult<number>> {
+    try {
+      if (!this.db) throw new Error('DB not initialized');
+      return { success: true, data: (this.db.prepare('SELECT COALESCE(MAX(seq), 0) AS seq FROM events').get() as any).seq };
+    } catch (e) {
+      return { success: false, error: e instanceof Error ? e.message : 'Failed to load events' };
+    }
+  }
+
+  async getAutomationRules(): Promise<ToolResult<AutomationRule[]>> {
+    try {
+      if (!this.db) throw new Error('DB not initialized');
+      const rows = this.db.prepare('SELECT * FROM automation_rules ORDER BY name COLLATE NOCASE, created_at').all() as any[];
+      const rules: AutomationRule[] = rows.map(r => ({
+        ...JSON.parse(r.definition),
+        id: r.id,
+        name: r.name,
+        enabled: !!r.enabled,
+        trigger: r.event,
+        createdAt: new Date(r.created_at),
+        updatedAt: new Date(r.updated_at)
+      }));
+      return { success: true, data: rules };
+    } catch (e) {
+      return { success: false, error: e instanceof Error ? e.message : 'Failed to load automation rules' };
+    }
+  }
+
+  async saveAutomationRule(rule: AutomationRule): Promise<ToolResult<void>> {
+    try {
+      if (!this.db) throw new Error('DB not initialized');
+      const { id, name, enabled, trigger, conditions, actions, createdAt, updatedAt } = rule;
+      this.db.prepare(`
+        INSERT INTO automation_rules (id, name, event, enabled, definition, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT(id) DO UPDATE SET name = excluded.name, event = excluded.event, enabled = excluded.enabled,
+          definition = excluded.definition, updated_at = excluded.updated_at
+      `).run(id, name, trigger, enabled ? 1 : 0, JSON.stringify({ conditions, actions }), createdAt.toISOString(), updatedAt.toISOString());
+      return { success: true };
+    } catch (e) {
+      return { success: false, error: e instanceof Error ? e.message : 'Failed to save automation rule' };
+    }
+  }
+
+  async deleteAutomationRule(id: string): Promise<ToolResult<boolean>> {
+    try {
+      if (!this.db) throw new Error('DB not initialized');
+      const info = this.db.prepare('DELETE FROM automation_rules WHERE id = ?').run(id);
+      return { success: true, data: info.changes > 0 };
+    } catch (e) {
+      return { success: false, error: e instanceof Error ? e.message : 'Failed to delete automation rule' };
+    }
+  }
+
+  async saveAutomationRun(run: Omit<AutomationRun, 'id'>): Promise<ToolResult<AutomationRun>> {
+    try {
+      if (!this.db) throw new Error('DB not initialized');
+      const db = this.db;
+      const id = db.transaction(() => {
+        const info = db.prepare(`
+          INSERT INTO automation_runs (rule_id, rule_name, event, task_id, task_title, success, results, ran_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+        `).run(run.ruleId, run.ruleName, run.trigger, run.taskId, run.taskTitle, run.success ? 1 : 0, JSON.stringify(run.results), run.ranAt.toISOString());
+        const id = Number(info.lastInsertRowid);
+        db.prepare('DELETE FROM automation_runs WHERE id <= ?').run(id - AUTOMATION_RUN_RETENTION);
+        return id;
+      })();
+      return { success: true, data: { ...run, id } };
+    } catch (e) {
+      return { success: false, error: e instanceof Error ? e.message : 'Failed to log automation run' };
+    }
+  }
+
+  async getAutomationRuns(options: { ruleId?: string; limit?: number } = {}): Promise<ToolResult<AutomationRun[]>> {
+    try {
+      if (!this.db) throw new Error('DB not initialized');
+      const rows = this.db.prepare(`
+        SELECT * FROM automation_runs WHERE (@ruleId IS NULL OR rule_id = @ruleId) ORDER BY id DESC LIMIT @limit
+      `).all({ ruleId: options.ruleId ?? null, limit: options.limit ?? -1 }) as any[];
+      const runs: AutomationRun[] = rows.map(r => ({
+        id: r.id,
+        ruleId: r.rule_id,
+        ruleName: r.rule_name,
+        trigger: r.event,
+        taskId: r.task_id,
+        taskTitle: r.task_title,
+        success: !!r.success,
+        results: JSON.parse(r.results),
+        ranAt: new Date(r.ran_at)
+      }));
+      return { success: true, data: runs };
+    } catch (e) {
+      return { success: false, error: e instanceof Error ? e.message : 'Failed to load automation runs' };
+    }
+  }
+
+  async startTimeEntry(taskId: string, startedAt: Date, actor: TaskActor): Promise<ToolResult<TaskTimerResult>> {
+    try {
+      if (!this.db) throw new Error('DB not initialized');
+      const db = this.db;
+      const result = db.transaction((): TaskTimerResult => {
+        const stopped = this.finishRunningEntry(startedAt);
+        const info = db.prepare(`
+          INSERT INTO time_entries (task_id, started_at, ended_at, source, note, actor) VALUES (?, ?, NULL, 'timer', NULL, ?)
+        `).run(taskId, startedAt.toISOString(), actor);
+        const entry = toTimeEntry(db.prepare('SELECT * FROM time_entries WHERE id = ?').get(info.lastInsertRowid));
+        return stopped ? { entry, stopped } : { entry };
+      })();
+      return { success: true, data: result };
+    } catch (e) {
+      return { success: false, error: e instanceof Error ? e.message : 'Failed to start timer' };
+    }
+  }
+
+  async stopTimeEntry(endedAt: Date, taskId?: string): Promise<ToolResult<TaskTimeEntry | null>> {
+    try {
+      if (!this.db) throw new Error('DB not initialized');
+      return { success: true, data: this.db.transaction(() => this.finishRunningEntry(endedAt, taskId))() };
+    } catch (e) {
+      return { success: false, error: e instanceof Error ? e.message : 'Failed to stop timer' };
+    }
+  }
+
+  async addTimeEntry(entry: Omit<TaskTimeEntry, 'id'>): Promise<ToolResult<TaskTimeEntry>> {
+    try {
+      if (!this.db) throw new Error('DB not initialized');
+      const info = this.db.prepare(`
+        INSERT INTO time_entries (task_id, started_at, ended_at, source, note, actor) VALUES (?, ?, ?, ?, ?, ?)
+      `).run(entry.taskId, entry.startedAt.toISOString(), entry.endedAt?.toISOString() ?? null, entry.source, entry.note ?? null, entry.actor);
+      return { success: true, data: { ...entry, id: Number(info.lastInsertRowid) } };
+    } catch (e) {
+      return { success: false, error: e instanceof Error ? e.message : 'Failed to save time entry' };
+    }
+  }
+
+  async getTimeEntries(taskId?: string): Promise<ToolResult<TaskTimeEntry[]>> {
+    try {
+      if (!this.db) throw new Error('DB not initialized');
+      const rows = this.db.prepare(`
+        SELECT * FROM time_entries WHERE (@taskId IS NULL OR task_id = @taskId) ORDER BY started_at, id
+      `).all({ taskId: taskId ?? null }) as any[];
+      return { success: true, data: rows.map(toTimeEntry) };
+    } catch (e) {
+      return { success: false, error: e instanceof Error ? e.message : 'Failed to load time entries' };
+    }
+  }
+
+  async deleteTimeEntry(id: number): Promise<ToolResult<boolean>> {
+    try {
+      if (!this.db) throw new Error('DB not initialized');
+      const info = this.db.prepare('DELETE FROM time_entries WHERE id = ?').run(id);
+      return { success: true, data: info.changes > 0 };
+    } catch (e) {
+      return { success: false, error: e instanceof Error ? e.message : 'Failed to delete time entry' };
+    }
+  }
+
+  // Stop the running timer (only if it belongs to `taskId`, when given); call inside a transaction
+  private finishRunningEntry(endedAt: Date, taskId?: string): TaskTimeEntry | null {
+    const running = this.db!.prepare('SELECT * FROM time_entries WHERE ended_at IS NULL').get() as any;
+    if (!running || (taskId && running.task_id !== taskId)) return null;
+    // A clock that went backwards shouldn't produce a negative entry
+    const end = Math.max(endedAt.getTime(), new Date(running.started_at).getTime());
+    this.db!.prepare('UPDATE time_entries SET ended_at = ? WHERE id = ?').run(new Date(end).toISOString(), running.id);
+    return toTimeEntry({ ...running, ended_at: new Date(end).toISOString() });
+  }
+
+  // Upsert a task with its tags, files and dependencies; call inside a transaction
+  private writeTask(task: TaskyTask, expectedVersion?: number): void {
+    const row = {
+      id: task.schema.id,
+      title: task.schema.title,
+      description: task.schema.description || null,
+      status: task.status,
+      created_at: task.schema.createdAt.toISOString(),
+      updated_at: task.schema.updatedAt?.toISOString() || new Date().toISOString(),
+      due_date: task.schema.dueDate ? task.schema.dueDate.toISOString() : null,
+      human_approved: task.humanApproved ? 1 : 0,
+      approved_by: task.approvedBy || null,
+      approved_at: task.approvedAt ? task.approvedAt.toISOString() : null,
+      reminder_enabled: task.reminderEnabled ? 1 : 0,
+      result: task.result || null,
+      completed_at: task.completedAt ? task.completedAt.toISOString() : null,
+      assigned_agent: task.schema.assignedAgent || null,
+      execution_path: task.schema.executionPath || null,
+      parent_id: task.schema.parentId || null,
+      checklist: task.schema.checklist && task.schema.checklist.length > 0 ? JSON.stringify(task.schema.checklist) : null,
+      recurrence: task.schema.recurrence ? toRRule(task.schema.recurrence) : null,
+      series_id: task.schema.seriesId || null,
+      occurrence: task.schema.occurrence ?? null,
+      estimated_duration: task.schema.estimatedDuration ?? null,
+      reminder_time: task.reminderTime || null,
+      metadata: task.metadata ? JSON.stringify(task.metadata) : null
+    };
+    const before = this.db!.prepare('SELECT * FROM tasks WHERE id = ?').get(task.schema.id) as any;
+    this.checkVersion(task.schema.id, before, expectedVersion);
+    const fields = before ? this.changedFields(before, row, task) : [];
+    this.db!.prepare(`
+      INSERT INTO tasks (id,title,description,status,created_at,updated_at,due_date,human_approved,approved_by,approved_at,reminder_enabled,result,completed_at,assigned_agent,execution_path,parent_id,checklist,recurrence,series_id,occurrence,estimated_duration,reminder_time,metadata)
+      VALUES (@id,@title,@description,@status,@created_at,@updated_at,@due_date,@human_approved,@approved_by,@approved_at,@reminder_enabled,@result,@completed_at,@assigned_agent,@execution_path,@parent_id,@checklist,@recurrence,@series_id,@occurrence,@estimated_duration,@reminder_time,@metadata)
+      ON CONFLICT(id) DO UPDATE SET
+        title=excluded.title,
+        description=excluded.description,
+        status=excluded.status,
+        created_at=excluded.created_at,
+        updated_at=excluded.updated_at,
+        due_date=excluded.due_date,
+        human_approved=excluded.human_approved,
+        approved_by=excluded.approved_by,
+        approved_at=excluded.approved_at,
+        reminder_enabled=excluded.reminder_enabled,
+        result=excluded.result,
+        completed_at=excluded.completed_at,
+        assigned_agent=excluded.assigned_agent,
+        execution_path=excluded.execution_path,
+        parent_id=excluded.parent_id,
+        checklist=excluded.checklist,
+        recurrence=excluded.recurrence,
+        series_id=excluded.series_id,
+        occurrence=excluded.occurrence,
+        estimated_duration=excluded.estimated_duration,
+        reminder_time=excluded.reminder_time,
+        metadata=excluded.metadata
+    `).run(row);
+    // Replace tags
+    this.db!.prepare('DELETE FROM task_tags WHERE task_id = ?').run(task.schema.id);
+    const insertTag = this.db!.prepare('INSERT INTO task_tags (task_id, tag) VALUES (?,?)');
+    for (const tag of task.schema.tags || []) {
+      insertTag.run(task.schema.id, tag);
+    }
+    // Replace affected files (position keeps the user's order)
+    this.db!.prepare('DELETE FROM task_files WHERE task_id = ?').run(task.schema.id);
+    const insertFile = this.db!.prepare('INSERT INTO task_files (task_id, position, path) VALUES (?,?,?)');
+    (task.schema.affectedFiles || []).forEach((path, i) => insertFile.run(task.schema.id, i, path));
+    // Replace dependency edges
+    this.db!.prepare('DELETE FROM task_dependencies WHERE task_id = ?').run(task.schema.id);
+    const insertDep = this.db!.prepare('INSERT OR IGNORE INTO task_dependencies (task_id, depends_on_id) VALUES (?,?)');
+    for (const dep of task.schema.dependencies || []) {
+      insertDep.run(task.schema.id, dep);
+    }
+    // A task written back (restored, undone or re-imported) is no longer in the trash
+    removeFromTrash(this.db!, 'task', task.schema.id);
+    this.recordChange(task.schema.id, before ? 'update' : 'insert', before?.status, fields);
+  }
+
+  // Move a task to the trash and delete it with its relations; call inside a transaction
+  private removeTask(taskId: string, expectedVersion?: number): void {
+    const db = this.db!;
+    const before = db.prepare('SELECT * FROM tasks WHERE id = ?').get(taskId) as any;
+    this.checkVersion(taskId, before, expectedVersion);
+    if (before) {
+      // Snapshot before the relations go, so a restore brings back its tags, files and dependencies,
+      // and the tasks linked to it, so it can take them back
+      const [task] = this.hydrate([before], true);
+      const links: TrashedTaskLinks = {
+        childIds: (db.prepare('SELECT id FROM tasks WHERE parent_id = ?').all(taskId) as any[]).map(r => r.id),
+        dependentIds: (db.prepare('SELECT task_id FROM task_dependencies WHERE depends_on_id = ?').all(taskId) as any[]).map(r => r.task_id)
+      };
+      moveToTrash(db, 'task', taskId, task.schema.title, task, links);
+    }
+    db.prepare('DELETE FROM task_tags WHERE task_id = ?').run(taskId);
+    db.prepare('DELETE FROM task_files WHERE task_id = ?').run(taskId);
+    // Drop edges in both directions so no task keeps depending on a deleted one
+    db.prepare('DELETE FROM task_dependencies WHERE task_id = ? OR depends_on_id = ?').run(taskId, taskId);
+    db.prepare('DELETE FROM tasks WHERE id = ?').run(taskId);
+    if (before) this.recordChange(taskId, 'delete', before.status, []);
+  }
+
+  // Checked inside the write transaction so another process can't slip in between.
+  // Rows without metadata count as version 1, like the engine; a missing row as 0.
+  private checkVersion(taskId: string, row: any, expectedVersion: number | undefined): void {
+    if (expectedVersion === undefined) return;
+    const stored = row?.metadata ? JSON.parse(row.metadata) : undefined;
+    const actualVersion = row ? stored?.version || 1 : 0;
+    if (actualVersion !== expectedVersion) {
+      throw new TaskConflictError(taskId, expectedVersion, actualVersion);
+    }
+  }
+
+  private writeFailure(e: unknown, fallback: string): ToolResult<void> {
+    if (e instanceof TaskConflictError) {
+      return {
+        success: false,
+        error: e.message,
+        conflict: { taskId: e.taskId, expectedVersion: e.expectedVersion, actualVersion: e.actualVersion }
+      };
+    }
+    return { success: false, error: e instanceof Error ? e.message : fallback };
+  }
+
+  /**
+   * Map task rows to TaskyTask, loading tags, files and dependencies.
+   * With `scoped`, relations are only read for the given rows (one page of a query).
+   */
+  private hydrate(rows: any[], scoped = false): TaskyTask[] {
+    const db = this.db!;
+    const scope = scoped ? ' WHERE task_id IN (SELECT value FROM json_each(?))' : '';
+    const scopeParams = scoped ? [JSON.stringify(rows.map(r => r.id))] : [];
+    const tagRows = db.prepare(`SELECT task_id, tag FROM task_tags${scope}`).all(...scopeParams) as any[];
+    const taskIdToTags: Record<string, string[]> = {};
+    for (const r of tagRows) {
+      (taskIdToTags[r.task_id] ||= []).push(r.tag);
+    }
+    const fileRows = db.prepare(`SELECT task_id, path FROM task_files${scope} ORDER BY task_id, position`).all(...scopeParams) as any[];
+    const taskIdToFiles: Record<string, string[]> = {};
+    for (const r of fileRows) {
+      (taskIdToFiles[r.task_id] ||= []).push(r.path);
+    }
+    const depRows = db.prepare(`SELECT task_id, depends_on_id FROM task_dependencies${scope}`).all(...scopeParams) as any[];
+    const taskIdToDeps: Record<string, string[]> = {};
+    for (const r of depRows) {
+      (taskIdToDeps[r.task_id] ||= []).push(r.depends_on_id);
+    }
+    return rows.map((r: any) => ({
+      schema: {
+        id: r.id,
+        title: r.title,
+        description: r.description || undefined,
+        createdAt: new Date(r.created_at),
+        updatedAt: new Date(r.updated_at),
+        dueDate: r.due_date ? new Date(r.due_date) : undefined,
+        tags: taskIdToTags[r.id] || [],
+        affectedFiles: taskIdToFiles[r.id] || [],
+        estimatedDuration: r.estimated_duration ?? undefined,
+        dependencies: taskIdToDeps[r.id] || [],
+        assignedAgent: r.assigned_agent || undefined,
+        executionPath: r.execution_path || undefined,
+        parentId: r.parent_id || undefined,
+        checklist: r.checklist ? JSON.parse(r.checklist) : [],
+        recurrence: r.recurrence ? parseRRule(r.recurrence) : undefined,
+        seriesId: r.series_id || undefined,
+        occurrence: r.occurrence ?? undefined
+      },
+      status: r.status,
+      humanApproved: !!r.human_approved,
+      approvedBy: r.approved_by || undefined,
+      approvedAt: r.approved_at ? new Date(r.approved_at) : undefined,
+      reminderEnabled: !!r.reminder_enabled,
+      reminderTime: r.reminder_time || undefined,
+      result: r.result || undefined,
+      completedAt: r.completed_at ? new Date(r.completed_at) : undefined,
+      metadata: r.metadata ? JSON.parse(r.metadata) : undefined
+    }));
+  }
+
+  // Must run inside the write's transaction so the feed never lists an uncommitted change
+  private recordChange(taskId: string, op: TaskChange['op'], previousStatus: string | undefined, fields: string[]): void {
+    this.db!.prepare('INSERT INTO task_changes (task_id, op, previous_status, fields, origin, changed_at) VALUES (?,?,?,?,?,?)')
+      .run(taskId, op, previousStatus ?? null, fields.length > 0 ? JSON.stringify(fields) : null, this.origin, new Date().toISOString());
+  }
+
+  private changedFields(before: Record<string, unknown>, row: Record<string, unknown>, task: TaskyTask): string[] {
+    const fields = Object.keys(row)
+      .filter(column => !UNTRACKED_COLUMNS.has(column) && (before[column] ?? null) !== row[column])
+      .map(toFieldName);
+    const listChanged = (sql: string, next: string[] | undefined): boolean => {
+      const current = (this.db!.prepare(sql).all(task.schema.id) as any[]).map(r => r.value);
+      return current.join('\n') !== (next || []).join('\n');
+    };
+    if (listChanged('SELECT tag AS value FROM task_tags WHERE task_id = ? ORDER BY tag', [...(task.schema.tags || [])].sort())) {
+      fields.push('tags');
+    }
+    if (listChanged('SELECT path AS value FROM task_files WHERE task_id = ? ORDER BY position', task.schema.affectedFiles)) {
+      fields.push('affectedFiles');
+    }
+    if (listChanged('SELECT depends_on_id AS value FROM task_dependencies WHERE task_id = ? ORDER BY depends_on_id', [...(task.schema.dependencies || [])].sort())) {
+      fields.push('dependencies');
+    }
+    return fields;
+  }
+
   /**
    * Get the last modification timestamp from the database
    * Used for detecting external changes to trigger UI refresh
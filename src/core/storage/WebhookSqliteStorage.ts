@@ -0,0 +1,166 @@
+import Database from 'better-sqlite3';
+import { runMigrations } from './migrations';
+import type { IWebhookStorage } from './IWebhookStorage';
+import type { Webhook, WebhookDelivery, WebhookDeliveryFilter } from '../../types/webhook';
+
+// Delivered rows beyond this many are pruned; pending and dead ones are kept
+const DELIVERED_RETENTION = 1000;
+
+const toDelivery = (r: any): WebhookDelivery => ({
+  id: r.id,
+  webhookId: r.webhook_id,
+  webhookName: r.webhook_name,
+  event: r.event,
+  body: r.body,
+  status: r.status,
+  attempts: r.attempts,
+  nextAttemptAt: r.next_attempt_at ? new Date(r.next_attempt_at) : undefined,
+  responseStatus: r.response_status ?? undefined,
+  lastError: r.last_error ?? undefined,
+  createdAt: new Date(r.created_at),
+  deliveredAt: r.delivered_at ? new Date(r.delivered_at) : undefined
+});
+
+export class WebhookSqliteStorage implements IWebhookStorage {
+  private dbPath: string;
+  private db?: Database.Database;
+
+  constructor(dbPath: string) {
+    this.dbPath = dbPath;
+  }
+
+  initialize(): void {
+    if (this.db) return;
+    this.db = new Database(this.dbPath);
+    const requestedJournal = (process.env.TASKY_SQLITE_JOURNAL || 'DELETE').toUpperCase();
+    const journal = requestedJournal === 'WAL' ? 'WAL' : 'DELETE';
+    try { this.db.pragma(`journal_mode = ${journal}`); } catch {}
+    try { this.db.pragma('synchronous = NORMAL'); } catch {}
+    runMigrations(this.db, { dbPath: this.dbPath });
+  }
+
+  getWebhooks(): Webhook[] {
+    this.initialize();
+    const rows = this.db!.prepare('SELECT * FROM webhooks ORDER BY name COLLATE NOCASE').all() as any[];
+    return rows.map(r => ({
+      id: r.id,
+      name: r.name,
+      url: r.url,
+      secret: r.secret,
+      events: JSON.parse(r.events),
+      enabled: !!r.enabled,
+      createdAt: new Date(r.created_at),
+      updatedAt: new Date(r.updated_at)
+    }));
+  }
+
+  saveWebhook(webhook: Webhook): void {
+    this.initialize();
+    this.db!.prepare(`
+      INSERT INTO webhooks (id, name, url, secret, events, enabled, created_at, updated_at)
+      VALUES (@id, @name, @url, @secret, @events, @enabled, @created_at, @updated_at)
+      ON CONFLICT(id) DO UPDATE SET
+        name = excluded.name,
+        url = excluded.url,
+        secret = excluded.secret,
+        events = excluded.events,
+        enabled = excluded.enabled,
+        updated_at = excluded.updated_at
+    `).run({
+      id: webhook.id,
+      name: webhook.name,
+      url: webhook.url,
+      secret: webhook.secret,
+      events: JSON.stringify(webhook.events),
+      enabled: webhook.enabled ? 1 : 0,
+      created_at: webhook.createdAt.toISOString(),
+      updated_at: webhook.updatedAt.toISOString()
+    });
+  }
+
+  deleteWebhook(id: string): boolean {
+    this.initialize();
+    return this.db!.transaction(() => {
+      this.db!.prepare('DELETE FROM webhook_deliveries WHERE webhook_id = ?').run(id);
+      return this.db!.prepare('DELETE FROM webhooks WHERE id = ?').run(id).changes > 0;
+    })();
+  }
+
+  addDeliveries(deliveries: Array<Omit<WebhookDelivery, 'id'>>): WebhookDelivery[] {
+    this.initialize();
+    const insert = this.db!.prepare(`
+      INSERT INTO webhook_deliveries (webhook_id, webhook_name, event, body, status, attempts, next_attempt_at, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    return this.db!.transaction(() => deliveries.map(d => {
+      const info = insert.run(d.webhookId, d.webhookName, d.event, d.body, d.status, d.attempts, d.nextAttemptAt?.toISOString() ?? null, d.createdAt.toISOString());
+      return { ...d, id: Number(info.lastInsertRowid) };
+    }))();
+  }
+
+  updateDelivery(delivery: WebhookDelivery): void {
+    this.initialize();
+    this.db!.prepare(`
+      UPDATE webhook_deliveries
+      SET status = ?, attempts = ?, next_attempt_at = ?, response_status = ?, last_error = ?, delivered_at = ?
+      WHERE id = ?
+    `).run(
+      delivery.status,
+      delivery.attempts,
+      delivery.nextAttemptAt?.toISOString() ?? null,
+      delivery.responseStatus ?? null,
+      delivery.lastError ?? null,
+      delivery.deliveredAt?.toISOString() ?? null,
+      delivery.id
+    );
+    if (delivery.status === 'delivered') {
+      this.db!.prepare("DELETE FROM webhook_deliveries WHERE status = 'delivered' AND id <= ?").run(delivery.id - DELIVERED_RETENTION);
+    }
+  }
+
+  deleteDelivery(id: number): boolean {
+    this.initialize();
+    return this.db!.prepare('DELETE FROM webhook_deliveries WHERE id = ?').run(id).changes > 0;
+  }
+
+  getDelivery(id: number): WebhookDelivery | null {
+    this.initialize();
+    const row = this.db!.prepare('SELECT * FROM webhook_deliveries WHERE id = ?').get(id);
+    return row ? toDelivery(row) : null;
+  }
+
+  getDeliveries(filter: WebhookDeliveryFilter = {}): WebhookDelivery[] {
+    this.initialize();
+    const rows = this.db!.prepare(`
+      SELECT * FROM webhook_deliveries
+      WHERE (@webhookId IS NULL OR webhook_id = @webhookId) AND (@status IS NULL OR status = @status)
+      ORDER BY id DESC LIMIT @limit
+    `).all({ webhookId: filter.webhookId ?? null, status: filter.status ?? null, limit: filter.limit ?? -1 }) as any[];
+    return rows.map(toDelivery);
+  }
+
+  getDueDeliveries(now: Date): WebhookDelivery[] {
+    this.initialize();
+    const rows = this.db!.prepare(`
+      SELECT * FROM webhook_deliveries WHERE status = 'pending' AND next_attempt_at <= ? ORDER BY id
+    `).all(now.toISOString()) as any[];
+    return rows.map(toDelivery);
+  }
+
+  getNextAttemptAt(): Date | null {
+    this.initialize();
+    const row = this.db!.prepare("SELECT MIN(next_attempt_at) AS next FROM webhook_deliveries WHERE status = 'pending'").get() as any;
+    return row?.next ? new Date(row.next) : null;
+  }
+
+  getEventCursor(): number | null {
+    this.initialize();
+    const row = this.db!.prepare('SELECT seq FROM webhook_cursor WHERE id = 1').get() as { seq: number } | undefined;
+    return row ? row.seq : null;
+  }
+
+  saveEventCursor(seq: number): void {
+    this.initialize();
+    this.db!.prepare('INSERT INTO webhook_cursor (id, seq) VALUES (1, ?) ON CONFLICT(id) DO UPDATE SET seq = excluded.seq').run(seq);
+  }
+}
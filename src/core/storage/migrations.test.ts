@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { LATEST_SCHEMA_VERSION, MIGRATIONS, Migration, SchemaVersionError, planMigrations } from './migrations';
+
+const noop = () => {};
+
+describe('planMigrations', () => {
+  it('returns every migration for a fresh database', () => {
+    expect(planMigrations(0).map(m => m.version)).toEqual(MIGRATIONS.map(m => m.version));
+  });
+
+  it('returns only migrations newer than the current version', () => {
+    const pending = planMigrations(3);
+    expect(pending[0].version).toBe(4);
+    expect(pending).toHaveLength(LATEST_SCHEMA_VERSION - 3);
+  });
+
+  it('returns nothing when the database is up to date', () => {
+    expect(planMigrations(LATEST_SCHEMA_VERSION)).toEqual([]);
+  });
+
+  it('refuses a database written by a newer build', () => {
+    expect(() => planMigrations(LATEST_SCHEMA_VERSION + 1)).toThrow(SchemaVersionError);
+    expect(() => planMigrations(LATEST_SCHEMA_VERSION + 1)).toThrow(/newer than this build supports/);
+  });
+
+  it('rejects gaps or out-of-order versions', () => {
+    const broken: Migration[] = [
+      { version: 1, name: 'one', up: noop },
+      { version: 3, name: 'three', up: noop }
+    ];
+    expect(() => planMigrations(0, broken)).toThrow('Migration "three" has version 3, expected 2');
+  });
+});
+
+describe('MIGRATIONS', () => {
+  it('has unique names', () => {
+    const names = MIGRATIONS.map(m => m.name);
+    expect(new Set(names).size).toBe(names.length);
+  });
+});
@@ -0,0 +1,569 @@
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import { DEFAULT_TASK_TEMPLATES, templateSlug } from '../../lib/task-templates';
+
+// Versioned schema for data/tasky.db. Every store (tasks, reminders, chats) and the MCP agent's
+// bridges share this one database, so they all run the same ordered migration list on open.
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: (db: Database.Database) => void;
+  // Drops and recreates tables; runs with foreign keys off so the drop doesn't cascade
+  rebuildsTables?: boolean;
+}
+
+export interface MigrationResult {
+  from: number;
+  to: number;
+  applied: string[];
+  backupPath?: string;
+}
+
+export class SchemaVersionError extends Error {
+  constructor(public readonly current: number, public readonly supported: number) {
+    super(`Database schema version ${current} is newer than this build supports (${supported}); update Tasky before opening it`);
+    this.name = 'SchemaVersionError';
+  }
+}
+
+// Databases created before versioning may already have a column, so additions are checked first
+const addColumn = (db: Database.Database, table: string, column: string, definition: string): void => {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+  if (!columns.some(c => c.name === column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+};
+
+const STATUS_CHECK = "CHECK(status GLOB '[A-Z]*' AND status NOT GLOB '*[^A-Z0-9_]*')";
+
+/**
+ * Recreate `table` from a rewritten CREATE statement (SQLite can't alter constraints), keeping
+ * its rows, rowids (tasks_fts is keyed by them), indexes and triggers. Triggers on other tables
+ * that mention it are dropped for the swap too, since the rename refuses to run while they
+ * point at a missing table.
+ */
+const rebuildTable = (db: Database.Database, table: string, rewrite: (sql: string) => string): void => {
+  const { sql } = db.prepare("SELECT sql FROM sqlite_master WHERE type = 'table' AND name = ?").get(table) as { sql: string };
+  const mentions = new RegExp(`\\b${table}\\b`, 'i');
+  const dependents = (db.prepare(
+    "SELECT type, name, tbl_name, sql FROM sqlite_master WHERE type IN ('index', 'trigger') AND sql IS NOT NULL"
+  ).all() as Array<{ type: string; name: string; tbl_name: string; sql: string }>)
+    .filter(r => r.tbl_name === table || (r.type === 'trigger' && mentions.test(r.sql)));
+  const columns = (db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>).map(c => c.name).join(', ');
+  const rebuilt = `${table}_rebuild`;
+
+  db.exec(rewrite(sql).replace(/^CREATE TABLE\s+(IF NOT EXISTS\s+)?[^\s(]+/i, `CREATE TABLE ${rebuilt}`));
+  db.exec(`INSERT INTO ${rebuilt} (rowid, ${columns}) SELECT rowid, ${columns} FROM ${table}`);
+  for (const d of dependents) {
+    if (d.type === 'trigger' && d.tbl_name !== table) db.exec(`DROP TRIGGER ${d.name}`);
+  }
+  db.exec(`DROP TABLE ${table}`);
+  db.exec(`ALTER TABLE ${rebuilt} RENAME TO ${table}`);
+  for (const d of dependents) db.exec(d.sql);
+};
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'initial_schema',
+    up: db => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS tasks (
+          id TEXT PRIMARY KEY,
+          title TEXT NOT NULL,
+          description TEXT,
+          status TEXT NOT NULL CHECK(status IN ('PENDING','IN_PROGRESS','COMPLETED','NEEDS_REVIEW','ARCHIVED')),
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL,
+          due_date TEXT,
+          human_approved INTEGER NOT NULL DEFAULT 0,
+          reminder_enabled INTEGER NOT NULL DEFAULT 0,
+          result TEXT,
+          completed_at TEXT,
+          assigned_agent TEXT,
+          execution_path TEXT,
+          metadata TEXT
+        );
+        CREATE TABLE IF NOT EXISTS task_tags (
+          task_id TEXT NOT NULL,
+          tag TEXT NOT NULL,
+          PRIMARY KEY(task_id, tag),
+          FOREIGN KEY(task_id) REFERENCES tasks(id) ON DELETE CASCADE
+        );
+        CREATE INDEX IF NOT EXISTS idx_tasks_status ON tasks(status);
+        CREATE INDEX IF NOT EXISTS idx_tasks_created ON tasks(created_at);
+        CREATE INDEX IF NOT EXISTS idx_tasks_due ON tasks(due_date);
+        CREATE TABLE IF NOT EXISTS reminders (
+          id TEXT PRIMARY KEY,
+          message TEXT NOT NULL,
+          time TEXT NOT NULL,
+          days TEXT,
+          enabled INTEGER NOT NULL DEFAULT 1,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        );
+        CREATE TABLE IF NOT EXISTS chats (
+          id TEXT PRIMARY KEY,
+          title TEXT,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        );
+        CREATE TABLE IF NOT EXISTS chat_messages (
+          id TEXT PRIMARY KEY,
+          chat_id TEXT NOT NULL,
+          role TEXT NOT NULL CHECK(role IN ('user','assistant')),
+          content TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          FOREIGN KEY(chat_id) REFERENCES chats(id) ON DELETE CASCADE
+        );
+        CREATE INDEX IF NOT EXISTS idx_chat_messages_chat ON chat_messages(chat_id, created_at);
+      `);
+      // The app's tasks table used to be created without it while the agent wrote it
+      addColumn(db, 'tasks', 'human_approved', 'INTEGER NOT NULL DEFAULT 0');
+    }
+  },
+  {
+    version: 2,
+    name: 'reminder_one_time',
+    up: db => {
+      addColumn(db, 'reminders', 'one_time', 'INTEGER NOT NULL DEFAULT 0');
+      addColumn(db, 'reminders', 'triggered_at', 'TEXT');
+    }
+  },
+  {
+    version: 3,
+    name: 'task_hierarchy',
+    up: db => {
+      addColumn(db, 'tasks', 'parent_id', 'TEXT');
+      addColumn(db, 'tasks', 'checklist', 'TEXT');
+      db.exec('CREATE INDEX IF NOT EXISTS idx_tasks_parent ON tasks(parent_id);');
+    }
+  },
+  {
+    version: 4,
+    name: 'task_recurrence',
+    up: db => {
+      addColumn(db, 'tasks', 'recurrence', 'TEXT');
+      addColumn(db, 'tasks', 'series_id', 'TEXT');
+      addColumn(db, 'tasks', 'occurrence', 'INTEGER');
+      db.exec('CREATE INDEX IF NOT EXISTS idx_tasks_series ON tasks(series_id);');
+    }
+  },
+  {
+    version: 5,
+    name: 'task_files_dependencies',
+    up: db => {
+      addColumn(db, 'tasks', 'estimated_duration', 'INTEGER');
+      addColumn(db, 'tasks', 'reminder_time', 'TEXT');
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS task_files (
+          task_id TEXT NOT NULL,
+          position INTEGER NOT NULL,
+          path TEXT NOT NULL,
+          PRIMARY KEY(task_id, position),
+          FOREIGN KEY(task_id) REFERENCES tasks(id) ON DELETE CASCADE
+        );
+        CREATE TABLE IF NOT EXISTS task_dependencies (
+          task_id TEXT NOT NULL,
+          depends_on_id TEXT NOT NULL,
+          PRIMARY KEY(task_id, depends_on_id),
+          FOREIGN KEY(task_id) REFERENCES tasks(id) ON DELETE CASCADE
+        );
+        CREATE INDEX IF NOT EXISTS idx_task_dependencies_on ON task_dependencies(depends_on_id);
+      `);
+    }
+  },
+  {
+    version: 6,
+    name: 'task_change_feed',
+    up: db => {
+      // origin identifies the writing connection so a process can skip its own changes
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS task_changes (
+          seq INTEGER PRIMARY KEY AUTOINCREMENT,
+          task_id TEXT NOT NULL,
+          op TEXT NOT NULL CHECK(op IN ('insert','update','delete')),
+          previous_status TEXT,
+          fields TEXT,
+          origin TEXT NOT NULL,
+          changed_at TEXT NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS idx_task_changes_changed ON task_changes(changed_at);
+      `);
+    }
+  },
+  {
+    version: 7,
+    name: 'task_query_indexes',
+    up: db => {
+      // Sorting by last update and counting/filtering by tag (SqliteTaskStorage.queryTasks)
+      db.exec(`
+        CREATE INDEX IF NOT EXISTS idx_tasks_updated ON tasks(updated_at);
+        CREATE INDEX IF NOT EXISTS idx_task_tags_tag ON task_tags(tag);
+      `);
+    }
+  },
+  {
+    version: 8,
+    name: 'task_search_fts',
+    up: db => {
+      // Full-text index keyed by the tasks rowid (upserts keep it). Triggers keep it in sync with
+      // every writer, including older agent builds that don't know the index exists.
+      db.exec(`
+        CREATE VIRTUAL TABLE IF NOT EXISTS tasks_fts USING fts5(
+          title, description, tags, result,
+          tokenize = 'unicode61 remove_diacritics 2'
+        );
+        CREATE TRIGGER IF NOT EXISTS tasks_fts_insert AFTER INSERT ON tasks BEGIN
+          INSERT INTO tasks_fts(rowid, title, description, tags, result) VALUES (
+            new.rowid, new.title, new.description,
+            (SELECT group_concat(tag, ' ') FROM task_tags WHERE task_id = new.id), new.result
+          );
+        END;
+        CREATE TRIGGER IF NOT EXISTS tasks_fts_update AFTER UPDATE OF title, description, result ON tasks BEGIN
+          UPDATE tasks_fts SET title = new.title, description = new.description, result = new.result WHERE rowid = new.rowid;
+        END;
+        CREATE TRIGGER IF NOT EXISTS tasks_fts_delete AFTER DELETE ON tasks BEGIN
+          DELETE FROM tasks_fts WHERE rowid = old.rowid;
+        END;
+        CREATE TRIGGER IF NOT EXISTS task_tags_fts_insert AFTER INSERT ON task_tags BEGIN
+          UPDATE tasks_fts SET tags = (SELECT group_concat(tag, ' ') FROM task_tags WHERE task_id = new.task_id)
+          WHERE rowid = (SELECT rowid FROM tasks WHERE id = new.task_id);
+        END;
+        CREATE TRIGGER IF NOT EXISTS task_tags_fts_delete AFTER DELETE ON task_tags BEGIN
+          UPDATE tasks_fts SET tags = (SELECT group_concat(tag, ' ') FROM task_tags WHERE task_id = old.task_id)
+          WHERE rowid = (SELECT rowid FROM tasks WHERE id = old.task_id);
+        END;
+        DELETE FROM tasks_fts;
+        INSERT INTO tasks_fts(rowid, title, description, tags, result)
+          SELECT t.rowid, t.title, t.description, (SELECT group_concat(tag, ' ') FROM task_tags WHERE task_id = t.id), t.result
+          FROM tasks t;
+      `);
+    }
+  },
+  {
+    version: 9,
+    name: 'task_revisions',
+    up: db => {
+      // Field-level history per task. No foreign key: a deleted task's history stays restorable.
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS task_revisions (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          task_id TEXT NOT NULL,
+          op TEXT NOT NULL CHECK (op IN ('create', 'update', 'delete', 'restore')),
+          actor TEXT NOT NULL,
+          changes TEXT NOT NULL,
+          snapshot TEXT NOT NULL,
+          created_at TEXT NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS idx_task_revisions_task ON task_revisions(task_id, id);
+      `);
+    }
+  },
+  {
+    version: 10,
+    name: 'trash',
+    up: db => {
+      // Deleted tasks and reminders, kept as JSON snapshots until restored or purged
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS trash (
+          kind TEXT NOT NULL CHECK (kind IN ('task', 'reminder')),
+          item_id TEXT NOT NULL,
+          title TEXT NOT NULL,
+          snapshot TEXT NOT NULL,
+          deleted_at TEXT NOT NULL,
+          PRIMARY KEY (kind, item_id)
+        );
+        CREATE INDEX IF NOT EXISTS idx_trash_deleted_at ON trash(deleted_at);
+      `);
+    }
+  },
+  {
+    version: 11,
+    name: 'task_reminder_links',
+    up: db => {
+      // Which reminder became which task (or the other way round); kept after either side is deleted
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS task_reminder_links (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          reminder_id TEXT NOT NULL,
+          task_id TEXT NOT NULL,
+          direction TEXT NOT NULL CHECK (direction IN ('reminder-to-task', 'task-to-reminder')),
+          converted_at TEXT NOT NULL,
+          preserve_original INTEGER NOT NULL DEFAULT 0
+        );
+        CREATE INDEX IF NOT EXISTS idx_task_reminder_links_task ON task_reminder_links(task_id);
+        CREATE INDEX IF NOT EXISTS idx_task_reminder_links_reminder ON task_reminder_links(reminder_id);
+      `);
+    }
+  },
+  {
+    version: 12,
+    name: 'task_templates',
+    up: db => {
+      // Reusable task definitions; everything but the name lives in the JSON definition
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS task_templates (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL UNIQUE COLLATE NOCASE,
+          definition TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        );
+      `);
+      const now = new Date().toISOString();
+      const insert = db.prepare(
+        'INSERT OR IGNORE INTO task_templates (id, name, definition, created_at, updated_at) VALUES (?, ?, ?, ?, ?)'
+      );
+      for (const { name, ...definition } of DEFAULT_TASK_TEMPLATES) {
+        insert.run(templateSlug(name), name, JSON.stringify(definition), now, now);
+      }
+    }
+  },
+  {
+    version: 13,
+    name: 'task_workflow',
+    rebuildsTables: true,
+    up: db => {
+      // Single-row table holding the configured statuses and transition rules (lib/task-workflow)
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS task_workflow (
+          id INTEGER PRIMARY KEY CHECK (id = 1),
+          definition TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        );
+      `);
+      // Custom statuses: the fixed list becomes a shape check (upper snake case). Which statuses
+      // exist is up to the workflow, which the engine enforces.
+      rebuildTable(db, 'tasks', sql => {
+        const next = sql.replace(/CHECK\s*\(\s*status\s+IN\s*\([^)]*\)\s*\)/i, STATUS_CHECK);
+        if (next === sql) throw new Error('tasks.status CHECK constraint not found');
+        return next;
+      });
+    }
+  },
+  {
+    version: 14,
+    name: 'task_approval',
+    up: db => {
+      // Who approved a task out of NEEDS_REVIEW and when (human_approved is the flag)
+      addColumn(db, 'tasks', 'approved_by', 'TEXT');
+      addColumn(db, 'tasks', 'approved_at', 'TEXT');
+    }
+  },
+  {
+    version: 15,
+    name: 'time_entries',
+    up: db => {
+      // Time spent per task. No foreign key, like task_revisions: a trashed task keeps its time.
+      // The partial unique index allows one running timer (no ended_at) across the app and the MCP agent.
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS time_entries (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          task_id TEXT NOT NULL,
+          started_at TEXT NOT NULL,
+          ended_at TEXT,
+          source TEXT NOT NULL CHECK (source IN ('timer', 'manual')),
+          note TEXT,
+          actor TEXT NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS idx_time_entries_task ON time_entries(task_id, started_at);
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_time_entries_running ON time_entries((ended_at IS NULL)) WHERE ended_at IS NULL;
+      `);
+    }
+  },
+  {
+    version: 16,
+    name: 'automation_rules',
+    up: db => {
+      // "When/if/then" rules (conditions and actions in the JSON definition) and a log of every
+      // time one fired. Runs keep the rule's name and task's title so they read well after deletes.
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS automation_rules (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          event TEXT NOT NULL,
+          enabled INTEGER NOT NULL DEFAULT 1,
+          definition TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        );
+        CREATE TABLE IF NOT EXISTS automation_runs (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          rule_id TEXT NOT NULL,
+          rule_name TEXT NOT NULL,
+          event TEXT NOT NULL,
+          task_id TEXT NOT NULL,
+          task_title TEXT NOT NULL,
+          success INTEGER NOT NULL,
+          results TEXT NOT NULL,
+          ran_at TEXT NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS idx_automation_runs_rule ON automation_runs(rule_id, id);
+      `);
+    }
+  },
+  {
+    version: 17,
+    name: 'task_policy',
+    up: db => {
+      // Single-row table holding the chosen OODA policy and its thresholds (lib/task-policies)
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS task_policy (
+          id INTEGER PRIMARY KEY CHECK (id = 1),
+          definition TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        );
+      `);
+    }
+  },
+  {
+    version: 18,
+    name: 'events',
+    up: db => {
+      // Append-only log of every engine event (lib/task-events). AUTOINCREMENT keeps seq from ever
+      // being reused, since subscribers in other processes resume from it; the triggers refuse edits.
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS events (
+          seq INTEGER PRIMARY KEY AUTOINCREMENT,
+          type TEXT NOT NULL,
+          task_id TEXT NOT NULL,
+          payload TEXT NOT NULL,
+          emitted_at TEXT NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS idx_events_type ON events(type, seq);
+        CREATE TRIGGER IF NOT EXISTS events_no_update BEFORE UPDATE ON events
+          BEGIN SELECT RAISE(ABORT, 'events are append-only'); END;
+        CREATE TRIGGER IF NOT EXISTS events_no_delete BEFORE DELETE ON events
+          BEGIN SELECT RAISE(ABORT, 'events are append-only'); END;
+      `);
+    }
+  },
+  {
+    version: 19,
+    name: 'webhooks',
+    up: db => {
+      // Outbound webhooks and their delivery queue/log (core/webhooks). Deliveries keep the webhook's
+      // name and the exact body sent; webhook_cursor is the last task event seq turned into deliveries.
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS webhooks (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          url TEXT NOT NULL,
+          secret TEXT NOT NULL,
+          events TEXT NOT NULL,
+          enabled INTEGER NOT NULL DEFAULT 1,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        );
+        CREATE TABLE IF NOT EXISTS webhook_deliveries (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          webhook_id TEXT NOT NULL,
+          webhook_name TEXT NOT NULL,
+          event TEXT NOT NULL,
+          body TEXT NOT NULL,
+          status TEXT NOT NULL CHECK (status IN ('pending', 'delivered', 'dead')),
+          attempts INTEGER NOT NULL DEFAULT 0,
+          next_attempt_at TEXT,
+          response_status INTEGER,
+          last_error TEXT,
+          created_at TEXT NOT NULL,
+          delivered_at TEXT
+        );
+        CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries(status, next_attempt_at);
+        CREATE TABLE IF NOT EXISTS webhook_cursor (
+          id INTEGER PRIMARY KEY CHECK (id = 1),
+          seq INTEGER NOT NULL
+        );
+      `);
+    }
+  },
+  {
+    version: 20,
+    name: 'api_tokens',
+    up: db => {
+      // Scoped tokens for the REST API (core/rest-api). Only a SHA-256 hash of each token is kept;
+      // prefix is its first characters, shown so tokens can be told apart.
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS api_tokens (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          scope TEXT NOT NULL CHECK (scope IN ('read', 'write')),
+          token_hash TEXT NOT NULL UNIQUE,
+          prefix TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          last_used_at TEXT
+        );
+      `);
+    }
+  },
+  {
+    version: 21,
+    name: 'trash_links',
+    up: db => {
+      // JSON list of the tasks that pointed at a trashed task (subtasks, dependents), re-linked on restore
+      addColumn(db, 'trash', 'links', 'TEXT');
+    }
+  }
+];
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Migrations still to run for a database at `currentVersion`.
+ * Throws SchemaVersionError when the database was written by a newer build.
+ */
+export function planMigrations(currentVersion: number, migrations: Migration[] = MIGRATIONS): Migration[] {
+  migrations.forEach((m, i) => {
+    if (m.version !== i + 1) throw new Error(`Migration "${m.name}" has version ${m.version}, expected ${i + 1}`);
+  });
+  const latest = migrations.length;
+  if (currentVersion > latest) throw new SchemaVersionError(currentVersion, latest);
+  return migrations.filter(m => m.version > currentVersion);
+}
+
+/**
+ * Bring a database up to date. Existing databases are copied next to `dbPath` first,
+ * then each migration runs in its own IMMEDIATE transaction together with its user_version bump,
+ * so a second process opening the same file waits and skips what was already applied.
+ */
+export function runMigrations(
+  db: Database.Database,
+  options: { dbPath?: string; backup?: boolean; migrations?: Migration[] } = {}
+): MigrationResult {
+  const migrations = options.migrations ?? MIGRATIONS;
+  const from = db.pragma('user_version', { simple: true }) as number;
+  const pending = planMigrations(from, migrations);
+  const result: MigrationResult = { from, to: from, applied: [] };
+  if (pending.length === 0) return result;
+
+  const hasTables = (db.prepare("SELECT COUNT(*) AS n FROM sqlite_master WHERE type = 'table'").get() as { n: number }).n > 0;
+  if (options.backup !== false && options.dbPath && options.dbPath !== ':memory:' && fs.existsSync(options.dbPath) && hasTables) {
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    result.backupPath = `${options.dbPath}.v${from}-${stamp}.bak`;
+    db.prepare('VACUUM INTO ?').run(result.backupPath);
+  }
+
+  for (const migration of pending) {
+    // foreign_keys can't be changed inside a transaction
+    const foreignKeys = migration.rebuildsTables && (db.pragma('foreign_keys', { simple: true }) as number) === 1;
+    if (foreignKeys) db.pragma('foreign_keys = OFF');
+    try {
+      db.transaction(() => {
+        const current = db.pragma('user_version', { simple: true }) as number;
+        if (current >= migration.version) return;
+        migration.up(db);
+        if (migration.rebuildsTables && (db.pragma('foreign_key_check') as unknown[]).length > 0) {
+          throw new Error(`Migration "${migration.name}" left foreign key violations`);
+        }
+        db.pragma(`user_version = ${migration.version}`);
+        result.applied.push(migration.name);
+      }).immediate();
+    } finally {
+      if (foreignKeys) db.pragma('foreign_keys = ON');
+    }
+  }
+  result.to = db.pragma('user_version', { simple: true }) as number;
+  return result;
+}
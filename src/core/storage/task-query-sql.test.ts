@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { compileTaskQuery } from './task-query-sql';
+import { TaskStatus } from '../../types/task';
+
+describe('compileTaskQuery', () => {
+  it('defaults to due date order with no filter or limit', () => {
+    const query = compileTaskQuery();
+    expect(query.where).toBe('');
+    expect(query.params).toEqual([]);
+    expect(query.orderBy).toBe('t.due_date IS NULL, t.due_date ASC, t.created_at DESC, t.id');
+    expect(query.limit).toBe(-1);
+    expect(query.offset).toBe(0);
+  });
+
+  it('binds every filter value as a parameter', () => {
+    const query = compileTaskQuery({
+      status: [TaskStatus.PENDING, TaskStatus.IN_PROGRESS],
+      tags: ['bug'],
+      dueDateTo: new Date('2025-03-01T00:00:00Z'),
+      hasFiles: false
+    });
+    expect(query.where).toBe(
+      'WHERE t.status IN (?,?) AND EXISTS (SELECT 1 FROM task_tags tt WHERE tt.task_id = t.id AND tt.tag IN (?))' +
+      ' AND t.due_date <= ? AND NOT EXISTS (SELECT 1 FROM task_files tf WHERE tf.task_id = t.id)'
+    );
+    expect(query.params).toEqual(['PENDING', 'IN_PROGRESS', 'bug', '2025-03-01T00:00:00.000Z']);
+  });
+
+  it('searches the full-text index, ignoring input with nothing to match', () => {
+    const query = compileTaskQuery({ search: 'login "google oauth"' });
+    expect(query.where).toBe('WHERE t.rowid IN (SELECT rowid FROM tasks_fts WHERE tasks_fts MATCH ?)');
+    expect(query.params).toEqual(['"login"* "google oauth"']);
+    expect(compileTaskQuery({ search: '*** "' }).where).toBe('');
+  });
+
+  it('sorts titles without case and keeps paging', () => {
+    const query = compileTaskQuery({ sortBy: 'title', sortOrder: 'desc', limit: 0, offset: 20 });
+    expect(query.orderBy).toBe('t.title IS NULL, t.title COLLATE NOCASE DESC, t.created_at DESC, t.id');
+    expect(query.limit).toBe(0);
+    expect(query.offset).toBe(20);
+  });
+
+  it('rejects sort fields it has no column for', () => {
+    expect(() => compileTaskQuery({ sortBy: 'title; DROP TABLE tasks' as any })).toThrow(/sortBy/);
+  });
+});
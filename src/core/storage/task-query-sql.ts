@@ -0,0 +1,79 @@
+import { TaskFilterOptions, TaskSortField } from '../../types/task';
+import { validateTaskFilter } from '../../lib/task-query';
+import { toFtsQuery } from '../../lib/task-search';
+
+// Compiles TaskFilterOptions to SQL over `tasks t`, following the rules of lib/task-query.
+// Values are always bound as parameters; column names only ever come from the tables below.
+
+export interface CompiledTaskQuery {
+  where: string; // '' or 'WHERE ...'
+  params: unknown[];
+  orderBy: string;
+  limit: number; // -1 for no limit
+  offset: number;
+}
+
+const SORT_COLUMNS: Record<TaskSortField, string> = {
+  dueDate: 't.due_date',
+  created: 't.created_at',
+  updated: 't.updated_at',
+  title: 't.title',
+  status: 't.status'
+};
+
+const iso = (value: Date | string): string => new Date(value).toISOString();
+
+export function compileTaskQuery(filter: TaskFilterOptions = {}): CompiledTaskQuery {
+  validateTaskFilter(filter);
+  const clauses: string[] = [];
+  const params: unknown[] = [];
+  const placeholders = (values: unknown[]) => {
+    params.push(...values);
+    return values.map(() => '?').join(',');
+  };
+
+  if (filter.status && filter.status.length > 0) {
+    clauses.push(`t.status IN (${placeholders(filter.status)})`);
+  }
+  if (filter.tags && filter.tags.length > 0) {
+    clauses.push(`EXISTS (SELECT 1 FROM task_tags tt WHERE tt.task_id = t.id AND tt.tag IN (${placeholders(filter.tags)}))`);
+  }
+  const match = filter.search ? toFtsQuery(filter.search) : '';
+  if (match) {
+    clauses.push('t.rowid IN (SELECT rowid FROM tasks_fts WHERE tasks_fts MATCH ?)');
+    params.push(match);
+  }
+  // ISO timestamps compare correctly as text, so these use idx_tasks_due / idx_tasks_created
+  if (filter.dueDateFrom) {
+    clauses.push('t.due_date >= ?');
+    params.push(iso(filter.dueDateFrom));
+  }
+  if (filter.dueDateTo) {
+    clauses.push('t.due_date <= ?');
+    params.push(iso(filter.dueDateTo));
+  }
+  if (filter.hasFiles !== undefined) {
+    clauses.push(`${filter.hasFiles ? '' : 'NOT '}EXISTS (SELECT 1 FROM task_files tf WHERE tf.task_id = t.id)`);
+  }
+  if (filter.createdAfter) {
+    clauses.push('t.created_at >= ?');
+    params.push(iso(filter.createdAfter));
+  }
+  if (filter.createdBefore) {
+    clauses.push('t.created_at <= ?');
+    params.push(iso(filter.createdBefore));
+  }
+
+  const column = SORT_COLUMNS[filter.sortBy || 'dueDate'];
+  const direction = filter.sortOrder === 'desc' ? 'DESC' : 'ASC';
+  const collate = filter.sortBy === 'title' ? ' COLLATE NOCASE' : '';
+
+  return {
+    where: clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : '',
+    params,
+    // Missing values last in either direction; ties newest first, then id (stable pages)
+    orderBy: `${column} IS NULL, ${column}${collate} ${direction}, t.created_at DESC, t.id`,
+    limit: filter.limit ?? -1,
+    offset: filter.offset ?? 0
+  };
+}
@@ -0,0 +1,71 @@
+import Database from 'better-sqlite3';
+import type { TrashItemKind, TrashPurgeOptions } from '../../types/task';
+
+// The trash table is shared by tasks and reminders, and by the app and the MCP agent's bridges,
+// so every deleter goes through these helpers. Callers own the transaction.
+
+export interface TrashRow {
+  kind: TrashItemKind;
+  id: string;
+  title: string;
+  // Parsed JSON as stored; dates are still ISO strings
+  snapshot: any;
+  // Parsed JSON of what linked to the item when it was deleted, if that was kept
+  links?: any;
+  deletedAt: Date;
+}
+
+const toTrashRow = (r: any): TrashRow => ({
+  kind: r.kind,
+  id: r.item_id,
+  title: r.title,
+  snapshot: JSON.parse(r.snapshot),
+  links: r.links ? JSON.parse(r.links) : undefined,
+  deletedAt: new Date(r.deleted_at)
+});
+
+/**
+ * Keep a snapshot of an item that is about to be deleted, and optionally what linked to it.
+ * Deleting the same id again replaces it.
+ */
+export function moveToTrash(db: Database.Database, kind: TrashItemKind, id: string, title: string, snapshot: unknown, links?: unknown): void {
+  db.prepare('INSERT OR REPLACE INTO trash (kind, item_id, title, snapshot, links, deleted_at) VALUES (?, ?, ?, ?, ?, ?)')
+    .run(kind, id, title, JSON.stringify(snapshot), links === undefined ? null : JSON.stringify(links), new Date().toISOString());
+}
+
+/**
+ * Trashed items of one kind, most recently deleted first.
+ */
+export function listTrash(db: Database.Database, kind: TrashItemKind): TrashRow[] {
+  const rows = db.prepare('SELECT * FROM trash WHERE kind = ? ORDER BY deleted_at DESC, item_id').all(kind) as any[];
+  return rows.map(toTrashRow);
+}
+
+export function getTrashEntry(db: Database.Database, kind: TrashItemKind, id: string): TrashRow | null {
+  const row = db.prepare('SELECT * FROM trash WHERE kind = ? AND item_id = ?').get(kind, id);
+  return row ? toTrashRow(row) : null;
+}
+
+/**
+ * Forget the trashed copy of an item, e.g. because it was restored or written again.
+ */
+export function removeFromTrash(db: Database.Database, kind: TrashItemKind, id: string): void {
+  db.prepare('DELETE FROM trash WHERE kind = ? AND item_id = ?').run(kind, id);
+}
+
+/**
+ * Delete trashed items for good. Returns how many were purged.
+ */
+export function purgeTrash(db: Database.Database, kind: TrashItemKind, options: TrashPurgeOptions = {}): number {
+  const clauses = ['kind = ?'];
+  const params: unknown[] = [kind];
+  if (options.ids) {
+    clauses.push('item_id IN (SELECT value FROM json_each(?))');
+    params.push(JSON.stringify(options.ids));
+  }
+  if (options.deletedBefore) {
+    clauses.push('deleted_at < ?');
+    params.push(options.deletedBefore.toISOString());
+  }
+  return db.prepare(`DELETE FROM trash WHERE ${clauses.join(' AND ')}`).run(...params).changes;
+}
@@ -0,0 +1,25 @@
+import Database from 'better-sqlite3';
+import type { TaskWorkflow } from '../../types/task';
+import { DEFAULT_TASK_WORKFLOW } from '../../lib/task-workflow';
+
+// The workflow row (migration 13) is read by the app and by the MCP agent, which needs it
+// synchronously at startup to build its status enums.
+
+/**
+ * The saved workflow, or the default one when none was saved (or the table doesn't exist yet).
+ */
+export function readWorkflow(db: Database.Database): TaskWorkflow {
+  const hasTable = db.prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'task_workflow'").get();
+  const row = hasTable ? db.prepare('SELECT definition FROM task_workflow WHERE id = 1').get() as { definition: string } | undefined : undefined;
+  return row ? JSON.parse(row.definition) : DEFAULT_TASK_WORKFLOW;
+}
+
+/**
+ * Replace the workflow. Callers validate it first (validateWorkflow).
+ */
+export function writeWorkflow(db: Database.Database, workflow: TaskWorkflow): void {
+  db.prepare(`
+    INSERT INTO task_workflow (id, definition, updated_at) VALUES (1, ?, ?)
+    ON CONFLICT(id) DO UPDATE SET definition = excluded.definition, updated_at = excluded.updated_at
+  `).run(JSON.stringify(workflow), new Date().toISOString());
+}
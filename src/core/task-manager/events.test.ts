@@ -117,6 +117,38 @@ describe('TypedEventBus', () => {
     expect(h2).toHaveBeenCalledWith(1);
     errorSpy.mockRestore();
   });
+
+  it('wildcard subscriptions receive matching events with their name', () => {
+    const items = vi.fn();
+    const all = vi.fn();
+    bus.on('item:*', items);
+    bus.on('*', all);
+    bus.emit('item:added', { id: '1', name: 'Test' });
+    bus.emit('count', 3);
+
+    expect(items.mock.calls).toEqual([[{ id: '1', name: 'Test' }, 'item:added']]);
+    expect(all.mock.calls.map(call => call[1])).toEqual(['item:added', 'count']);
+    expect(bus.listenerCount('item:*')).toBe(1);
+    bus.off('item:*', items);
+    bus.emit('item:removed', { id: '1' });
+    expect(items).toHaveBeenCalledTimes(1);
+  });
+
+  it('isolates rejected async handlers and idle() waits for them', async () => {
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const done: number[] = [];
+    bus.on('count', async () => { throw new Error('async oops'); });
+    bus.once('count', async n => { await Promise.resolve(); done.push(n); });
+    bus.on('count', n => { done.push(n * 10); });
+    bus.emit('count', 2);
+    bus.emit('count', 3);
+
+    expect(done).toEqual([20, 30]);
+    await bus.idle();
+    expect(done).toEqual([20, 30, 2]);
+    expect(errorSpy).toHaveBeenCalledWith('Error in async event handler for count:', expect.any(Error));
+    errorSpy.mockRestore();
+  });
 });
 
 describe('AsyncEventBus', () => {
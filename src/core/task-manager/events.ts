@@ -1,15 +1,44 @@
 // Event system for Tasky Task Manager
 // Simplified version adapted from Agent's event system
 
+// Handlers may be async: a rejected promise is logged like a thrown error and never reaches other
+// handlers or the emitter.
 export type EventHandler<T = any> = (data: T) => void;
 
+// 'task:*' matches every event starting with 'task:'; '*' matches all events
+export type EventPattern = `${string}*`;
+
+// Events a pattern matches; pattern handlers also get the name of the event
+export type MatchingEvents<TEventMap, P extends string> = P extends '*'
+  ? keyof TEventMap & string
+  : P extends `${infer Prefix}*`
+    ? Extract<keyof TEventMap, `${Prefix}${string}`>
+    : Extract<keyof TEventMap, P>;
+
+export type PatternHandler<TEventMap, P extends string> = (
+  data: TEventMap[MatchingEvents<TEventMap, P>],
+  event: MatchingEvents<TEventMap, P>
+) => void;
+
+const isPattern = (name: string): boolean => name.endsWith('*');
+
+const matchesPattern = (pattern: string, event: string): boolean =>
+  event.startsWith(pattern.slice(0, -1));
+
+type AnyHandler = (data: any, event?: any) => void;
+
 export class TypedEventBus<TEventMap extends Record<string, any> = Record<string, any>> {
-  private listeners: Map<keyof TEventMap, Set<EventHandler<any>>> = new Map();
+  // Keyed by event name or pattern
+  private listeners: Map<string, Set<AnyHandler>> = new Map();
+  // Async handlers still running
+  private pending = new Set<Promise<unknown>>();
 
   /**
-   * Subscribe to an event
+   * Subscribe to an event, or to every event matching a pattern such as 'task:*'
    */
-  on<K extends keyof TEventMap>(event: K, handler: EventHandler<TEventMap[K]>): void {
+  on<K extends keyof TEventMap>(event: K, handler: EventHandler<TEventMap[K]>): void;
+  on<P extends EventPattern>(pattern: P, handler: PatternHandler<TEventMap, P>): void;
+  on(event: string, handler: AnyHandler): void {
     if (!this.listeners.has(event)) {
       this.listeners.set(event, new Set());
     }
@@ -19,18 +48,23 @@ export class TypedEventBus<TEventMap extends Record<string, any> = Record<string
   /**
    * Subscribe to an event (one-time only)
    */
-  once<K extends keyof TEventMap>(event: K, handler: EventHandler<TEventMap[K]>): void {
-    const onceHandler = (data: TEventMap[K]) => {
-      handler(data);
+  once<K extends keyof TEventMap>(event: K, handler: EventHandler<TEventMap[K]>): void;
+  once<P extends EventPattern>(pattern: P, handler: PatternHandler<TEventMap, P>): void;
+  once(event: string, handler: AnyHandler): void {
+    const onceHandler: AnyHandler = (...args) => {
       this.off(event, onceHandler);
+      // Hand back a promise so emit() still tracks an async handler
+      return handler(...args);
     };
     this.on(event, onceHandler);
   }
 
   /**
-   * Unsubscribe from an event
+   * Unsubscribe from an event or pattern
    */
-  off<K extends keyof TEventMap>(event: K, handler: EventHandler<TEventMap[K]>): void {
+  off<K extends keyof TEventMap>(event: K, handler: EventHandler<TEventMap[K]>): void;
+  off<P extends EventPattern>(pattern: P, handler: PatternHandler<TEventMap, P>): void;
+  off(event: string, handler: AnyHandler): void {
     const eventListeners = this.listeners.get(event);
     if (eventListeners) {
       eventListeners.delete(handler);
@@ -41,53 +75,73 @@ export class TypedEventBus<TEventMap extends Record<string, any> = Record<string
   }
 
   /**
-   * Emit an event
+   * Emit an event: handlers for the event run first, then those of matching patterns
    */
   emit<K extends keyof TEventMap>(event: K, data: TEventMap[K]): void {
-    const eventListeners = this.listeners.get(event);
-    if (eventListeners) {
-      eventListeners.forEach(handler => {
-        try {
-          handler(data);
-        } catch (error) {
-          console.error(`Error in event handler for ${String(event)}:`, error);
-        }
-      });
+    const name = String(event);
+    const calls: Array<() => unknown> = Array.from(this.listeners.get(name) || []).map(handler => () => handler(data));
+    this.listeners.forEach((patternListeners, key) => {
+      if (key === name || !isPattern(key) || !matchesPattern(key, name)) return;
+      patternListeners.forEach(handler => calls.push(() => handler(data, name)));
+    });
+    calls.forEach(call => {
+      try {
+        const result = call();
+        if (result instanceof Promise) this.track(name, result);
+      } catch (error) {
+        console.error(`Error in event handler for ${name}:`, error);
+      }
+    });
+  }
+
+  /**
+   * Resolves once every async handler started so far has finished
+   */
+  async idle(): Promise<void> {
+    while (this.pending.size > 0) {
+      await Promise.all(Array.from(this.pending));
     }
   }
 
   /**
-   * Remove all listeners for a specific event
+   * Remove all listeners for a specific event or pattern
    */
-  removeAllListeners<K extends keyof TEventMap>(event?: K): void {
+  removeAllListeners<K extends keyof TEventMap>(event?: K | EventPattern): void {
     if (event) {
-      this.listeners.delete(event);
+      this.listeners.delete(String(event));
     } else {
       this.listeners.clear();
     }
   }
 
   /**
-   * Get list of events that have listeners
+   * Get list of events (and patterns) that have listeners
    */
   getEventNames(): Array<keyof TEventMap> {
     return Array.from(this.listeners.keys());
   }
 
   /**
-   * Get number of listeners for an event
+   * Get number of listeners for an event or pattern (pattern listeners are counted under the pattern)
    */
-  listenerCount<K extends keyof TEventMap>(event: K): number {
-    const eventListeners = this.listeners.get(event);
+  listenerCount<K extends keyof TEventMap>(event: K | EventPattern): number {
+    const eventListeners = this.listeners.get(String(event));
     return eventListeners ? eventListeners.size : 0;
   }
 
   /**
    * Check if there are any listeners for an event
    */
-  hasListeners<K extends keyof TEventMap>(event: K): boolean {
+  hasListeners<K extends keyof TEventMap>(event: K | EventPattern): boolean {
     return this.listenerCount(event) > 0;
   }
+
+  private track(event: string, result: Promise<unknown>): void {
+    const settled = result
+      .catch(error => console.error(`Error in async event handler for ${event}:`, error))
+      .finally(() => this.pending.delete(settled));
+    this.pending.add(settled);
+  }
 }
 
 // Utility function to create a typed event bus
@@ -3,6 +3,7 @@
 
 export { TaskyEngine } from './tasky-engine';
 export { TypedEventBus, AsyncEventBus, MiddlewareEventBus, createEventBus } from './events';
+export type { EventPattern, PatternHandler } from './events';
 
 // Re-export types for convenience
 export type {
@@ -15,10 +16,16 @@ export type {
   TaskObservation,
   TaskStrategy,
   TaskAction,
+  TaskActionResult,
+  TaskPolicy,
+  TaskPolicySettings,
   TaskSuggestion,
   TaskAlert,
+  BlockedTaskInfo,
   CreateTaskInput,
   UpdateTaskInput,
   ToolResult,
-  TaskEventMap
+  TaskEventMap,
+  TaskEventRecord,
+  TaskEventSubscription
 } from '../../types/task';
@@ -1,7 +1,10 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { TaskyEngine } from './tasky-engine';
 import { ITaskStorage } from '../storage/ITaskStorage';
-import { TaskStatus, TaskyTask } from '../../types/task';
+import { AutomationRule, AutomationRuleInput, AutomationRun, ConvertibleReminder, TaskChange, TaskEventQuery, TaskEventRecord, TaskPolicySettings, TaskReminderLink, TaskRevision, TaskStatus, TaskTemplate, TaskTimeEntry, TaskWorkflow, TaskyTask, TrashedTask } from '../../types/task';
+import { DEFAULT_TASK_WORKFLOW } from '../../lib/task-workflow';
+import { DEFAULT_POLICY_THRESHOLDS, DEFAULT_TASK_POLICY_SETTINGS } from '../../lib/task-policies';
+import { matchesEventPattern } from '../../lib/task-events';
 
 // --- Helper to create a mock ITaskStorage ---
 function createMockStorage(initialTasks: TaskyTask[] = []): ITaskStorage {
@@ -191,6 +194,41 @@ describe('TaskyEngine', () => {
       expect(r2.data!.metadata!.version).toBe(3);
     });
 
+    it('accepts an update made against the current version', async () => {
+      const result = await engine.updateTask(taskId, { title: 'V2', expectedVersion: 1 });
+      expect(result.success).toBe(true);
+      expect(result.data!.metadata!.version).toBe(2);
+      expect(storage.saveTask).toHaveBeenLastCalledWith(expect.anything(), 1);
+    });
+
+    it('rejects a stale expectedVersion and returns the current copy', async () => {
+      await engine.updateTask(taskId, { title: 'Changed elsewhere' });
+      const result = await engine.updateTask(taskId, { title: 'Mine', expectedVersion: 1 });
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('changed elsewhere');
+      expect(result.conflict).toMatchObject({ taskId, expectedVersion: 1, actualVersion: 2 });
+      expect(result.conflict!.current!.schema.title).toBe('Changed elsewhere');
+    });
+
+    it('reports a conflict detected by storage at write time', async () => {
+      (storage.saveTask as any).mockResolvedValueOnce({
+        success: false,
+        error: 'conflict',
+        conflict: { taskId, expectedVersion: 1, actualVersion: 4 }
+      });
+      const result = await engine.updateTask(taskId, { title: 'Mine', expectedVersion: 1 });
+      expect(result.success).toBe(false);
+      expect(result.conflict).toMatchObject({ expectedVersion: 1, actualVersion: 4 });
+      expect(result.conflict!.current!.schema.title).toBe('Original');
+    });
+
+    it('does not report expectedVersion as a changed field', async () => {
+      const handler = vi.fn();
+      engine.getEventBus().on('task:updated', handler);
+      await engine.updateTask(taskId, { title: 'New', expectedVersion: 1 });
+      expect(handler.mock.calls[0][0].changes).toEqual(['title']);
+    });
+
     it('emits task:updated event', async () => {
       const handler = vi.fn();
       engine.getEventBus().on('task:updated', handler);
@@ -237,6 +275,13 @@ describe('TaskyEngine', () => {
       const getResult = await engine.getTask(taskId);
       expect(getResult.success).toBe(false);
     });
+
+    it('emits task:deleted event', async () => {
+      const handler = vi.fn();
+      engine.getEventBus().on('task:deleted', handler);
+      await engine.deleteTask(taskId);
+      expect(handler).toHaveBeenCalledWith(expect.objectContaining({ taskId }));
+    });
   });
 
   // ---- getTasks with filters ----
@@ -300,6 +345,81 @@ describe('TaskyEngine', () => {
       const ids = result.data!.map(t => t.schema.id);
       expect(ids[0]).toBe('t3');
     });
+
+    it('pages after sorting', async () => {
+      const result = await engine.getTasks({ limit: 1 });
+      expect(result.data!.map(t => t.schema.id)).toEqual(['t3']);
+    });
+
+    it('rejects a negative limit', async () => {
+      const result = await engine.getTasks({ limit: -1 });
+      expect(result.success).toBe(false);
+      expect(result.error).toMatch(/limit/);
+    });
+  });
+
+  // ---- queryTasks ----
+  describe('queryTasks()', () => {
+    it('reports the total alongside the page', async () => {
+      storage = createMockStorage([
+        makeTask({ schema: { id: 't1', title: 'A', createdAt: new Date('2025-01-01') } }),
+        makeTask({ schema: { id: 't2', title: 'B', createdAt: new Date('2025-01-02') } }),
+      ]);
+      engine = new TaskyEngine(undefined, storage);
+      await engine.initialize();
+
+      const result = await engine.queryTasks({ sortBy: 'title', sortOrder: 'desc', limit: 1 });
+      expect(result.data!.tasks.map(t => t.schema.id)).toEqual(['t2']);
+      expect(result.data!.total).toBe(2);
+    });
+
+    it('delegates to storage.queryTasks when available', async () => {
+      storage = createMockStorage([]);
+      const queryTasks = vi.fn().mockResolvedValue({ success: true, data: { tasks: [], total: 7 } });
+      engine = new TaskyEngine(undefined, { ...storage, queryTasks });
+      await engine.initialize();
+
+      const result = await engine.queryTasks({ limit: 0 });
+      expect(queryTasks).toHaveBeenCalledWith({ limit: 0 });
+      expect(result.data!.total).toBe(7);
+    });
+  });
+
+  // ---- searchTasks ----
+  describe('searchTasks()', () => {
+    it('falls back to matching the loaded tasks', async () => {
+      storage = createMockStorage([
+        makeTask({ schema: { id: 't1', title: 'Fix login flow', createdAt: new Date('2025-01-01') } }),
+        makeTask({ schema: { id: 't2', title: 'Write docs', description: 'Explain the login page', createdAt: new Date('2025-01-02') } }),
+        makeTask({ schema: { id: 't3', title: 'Blog post', createdAt: new Date('2025-01-03') } }),
+      ]);
+      engine = new TaskyEngine(undefined, storage);
+      await engine.initialize();
+
+      const result = await engine.searchTasks('log', { limit: 1 });
+      expect(result.data!.total).toBe(2);
+      expect(result.data!.hits.map(h => h.task.schema.id)).toEqual(['t2']);
+    });
+
+    it('delegates to storage.searchTasks when available', async () => {
+      storage = createMockStorage([]);
+      const searchTasks = vi.fn().mockResolvedValue({ success: true, data: { hits: [], total: 0 } });
+      engine = new TaskyEngine(undefined, { ...storage, searchTasks });
+      await engine.initialize();
+
+      await engine.searchTasks('login', { status: [TaskStatus.PENDING] });
+      expect(searchTasks).toHaveBeenCalledWith('login', { status: [TaskStatus.PENDING] });
+    });
+
+    it('requires a query', async () => {
+      storage = createMockStorage([]);
+      engine = new TaskyEngine(undefined, storage);
+      await engine.initialize();
+
+      const result = await engine.searchTasks('  ');
+      expect(result.success).toBe(false);
+      expect(result.error).toMatch(/query is required/);
+    });
   });
 
   // ---- getTaskStats ----
@@ -360,6 +480,20 @@ describe('TaskyEngine', () => {
       expect(task.data!.status).toBe(TaskStatus.ARCHIVED);
     });
 
+    it('stamps archivedAt in the one versioned save', async () => {
+      storage = createMockStorage();
+      engine = new TaskyEngine(undefined, storage);
+      await engine.initialize();
+      const taskId = (await engine.createTask({ title: 'To Archive' })).data!.schema.id;
+      (storage.saveTask as any).mockClear();
+
+      await engine.archiveTask(taskId);
+      expect(storage.saveTask).toHaveBeenCalledTimes(1);
+      expect(storage.saveTask).toHaveBeenCalledWith(expect.objectContaining({
+        metadata: expect.objectContaining({ version: 2, archivedAt: expect.any(Date) })
+      }), 1);
+    });
+
     it('returns failure for non-existent task', async () => {
       storage = createMockStorage();
       engine = new TaskyEngine(undefined, storage);
@@ -390,6 +524,1290 @@ describe('TaskyEngine', () => {
     });
   });
 
+  // ---- Subtasks & checklists ----
+  describe('subtask hierarchy', () => {
+    let parentId: string;
+
+    beforeEach(async () => {
+      storage = createMockStorage();
+      engine = new TaskyEngine(undefined, storage);
+      await engine.initialize();
+      const r = await engine.createTask({ title: 'Parent' });
+      parentId = r.data!.schema.id;
+    });
+
+    it('creates a subtask under an existing parent', async () => {
+      const child = await engine.createTask({ title: 'Child', parentId });
+      expect(child.success).toBe(true);
+      expect(child.data!.schema.parentId).toBe(parentId);
+      const subtasks = await engine.getSubtasks(parentId);
+      expect(subtasks.data!.map(t => t.schema.title)).toEqual(['Child']);
+    });
+
+    it('rejects a parent that does not exist', async () => {
+      const result = await engine.createTask({ title: 'Orphan', parentId: 'missing' });
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Parent task missing not found');
+    });
+
+    it('rejects moving a task under its own subtask', async () => {
+      const child = await engine.createTask({ title: 'Child', parentId });
+      const result = await engine.updateTask(parentId, { parentId: child.data!.schema.id });
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('nested under itself');
+    });
+
+    it('assigns ids to checklist items', async () => {
+      const r = await engine.createTask({ title: 'List', checklist: [{ text: 'one' }, { text: '  ' }, { text: 'two', done: true }] });
+      const checklist = r.data!.schema.checklist!;
+      expect(checklist).toHaveLength(2);
+      expect(checklist.every(item => item.id.length > 0)).toBe(true);
+      expect(checklist[1].done).toBe(true);
+    });
+
+    it('rolls up progress from subtasks and checklist items', async () => {
+      await engine.updateTask(parentId, { checklist: [{ text: 'a', done: true }] });
+      const child = await engine.createTask({ title: 'Child', parentId });
+      await engine.createTask({ title: 'Child 2', parentId });
+      await engine.updateTask(child.data!.schema.id, { status: TaskStatus.COMPLETED });
+      const progress = await engine.getTaskProgress(parentId);
+      expect(progress.data).toEqual({ completed: 2, total: 3, percent: 67 });
+    });
+
+    it('warns when completing a parent with open subtasks', async () => {
+      await engine.createTask({ title: 'Open child', parentId });
+      const result = await engine.updateTask(parentId, { status: TaskStatus.COMPLETED });
+      expect(result.success).toBe(true);
+      expect(result.warnings).toBeDefined();
+      expect(result.warnings![0]).toContain('Open child');
+    });
+
+    it('promotes subtasks when their parent is deleted', async () => {
+      const child = await engine.createTask({ title: 'Child', parentId });
+      const grandchild = await engine.createTask({ title: 'Grandchild', parentId: child.data!.schema.id });
+      await engine.deleteTask(child.data!.schema.id);
+      const moved = await engine.getTask(grandchild.data!.schema.id);
+      expect(moved.data!.schema.parentId).toBe(parentId);
+    });
+
+    it('moves promoted subtasks to a new version, so stale updates conflict', async () => {
+      const child = (await engine.createTask({ title: 'Child', parentId })).data!;
+      await engine.deleteTask(parentId);
+
+      const promoted = (await engine.getTask(child.schema.id)).data!;
+      expect(promoted.metadata!.version).toBe(2);
+      expect(storage.saveTask).toHaveBeenLastCalledWith(expect.objectContaining({ metadata: expect.objectContaining({ version: 2 }) }), 1);
+      const stale = await engine.updateTask(child.schema.id, { title: 'Renamed', expectedVersion: 1 });
+      expect(stale.conflict).toMatchObject({ expectedVersion: 1, actualVersion: 2 });
+    });
+
+    it('deletes and promotes subtasks in one applyTaskWrites call', async () => {
+      const child = (await engine.createTask({ title: 'Child', parentId, dependencies: [parentId] })).data!;
+      const applyTaskWrites = vi.fn().mockImplementation(async (writes: any[]) => {
+        for (const w of writes) await (w.task ? storage.saveTask(w.task) : storage.deleteTask(w.taskId));
+        return { success: true };
+      });
+      storage.applyTaskWrites = applyTaskWrites;
+
+      expect((await engine.deleteTask(parentId)).success).toBe(true);
+      expect(applyTaskWrites).toHaveBeenCalledTimes(1);
+      const writes = applyTaskWrites.mock.calls[0][0];
+      expect(writes.map((w: any) => [w.taskId, w.expectedVersion])).toEqual([[parentId, 1], [child.schema.id, 1]]);
+      // Promoted and unlinked in a single new version
+      expect(writes[1].task.schema).toMatchObject({ parentId: undefined, dependencies: [] });
+      expect(writes[1].task.metadata.version).toBe(2);
+    });
+
+    it('leaves everything as it was when the delete conflicts', async () => {
+      const child = (await engine.createTask({ title: 'Child', parentId })).data!;
+      storage.applyTaskWrites = vi.fn().mockResolvedValue({
+        success: false,
+        error: 'conflict',
+        conflict: { taskId: child.schema.id, expectedVersion: 1, actualVersion: 2 }
+      });
+
+      const result = await engine.deleteTask(parentId);
+      expect(result.conflict).toMatchObject({ taskId: child.schema.id, expectedVersion: 1, actualVersion: 2 });
+      expect((await engine.getTask(parentId)).success).toBe(true);
+      expect(engine.getUndoState().undoLabel).toBe('Create "Child"');
+    });
+  });
+
+  // ---- Dependencies ----
+  describe('dependency graph', () => {
+    let buildId: string;
+    let testId: string;
+
+    beforeEach(async () => {
+      storage = createMockStorage();
+      engine = new TaskyEngine(undefined, storage);
+      await engine.initialize();
+      buildId = (await engine.createTask({ title: 'Build' })).data!.schema.id;
+      testId = (await engine.createTask({ title: 'Test', dependencies: [buildId] })).data!.schema.id;
+    });
+
+    it('rejects unknown dependencies', async () => {
+      const result = await engine.createTask({ title: 'Bad', dependencies: ['missing'] });
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Dependency task missing not found');
+    });
+
+    it('rejects dependency cycles on update', async () => {
+      const result = await engine.updateTask(buildId, { dependencies: [testId] });
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Dependency cycle detected: Build -> Test -> Build');
+    });
+
+    it('blocks moving to IN_PROGRESS while a dependency is open', async () => {
+      const blocked = await engine.updateTask(testId, { status: TaskStatus.IN_PROGRESS });
+      expect(blocked.success).toBe(false);
+      expect(blocked.error).toContain('blocked by: Build');
+
+      await engine.updateTask(buildId, { status: TaskStatus.COMPLETED });
+      const started = await engine.updateTask(testId, { status: TaskStatus.IN_PROGRESS });
+      expect(started.success).toBe(true);
+    });
+
+    it('lists blocked and ready tasks', async () => {
+      const blocked = await engine.getBlockedTasks();
+      expect(blocked.data!.map(b => b.task.schema.id)).toEqual([testId]);
+      expect(blocked.data![0].blockedBy.map(t => t.schema.id)).toEqual([buildId]);
+
+      const ready = await engine.getReadyTasks();
+      expect(ready.data!.map(t => t.schema.id)).toEqual([buildId]);
+    });
+
+    it('emits a blocked alert from orient()', async () => {
+      const observation = await engine.observe();
+      expect(observation.blockedTasks).toBe(1);
+      const strategy = await engine.orient(observation);
+      const alert = strategy.urgentAlerts.find(a => a.type === 'blocked');
+      expect(alert).toMatchObject({ taskId: testId, severity: 'medium' });
+    });
+
+    it('removes a deleted task from dependency lists', async () => {
+      await engine.deleteTask(buildId);
+      const test = await engine.getTask(testId);
+      expect(test.data!.schema.dependencies).toEqual([]);
+    });
+  });
+
+  // ---- Recurrence ----
+  describe('recurring tasks', () => {
+    beforeEach(async () => {
+      storage = createMockStorage();
+      engine = new TaskyEngine(undefined, storage);
+      await engine.initialize();
+    });
+
+    it('spawns the next instance when a recurring task is completed', async () => {
+      const due = new Date(Date.now() + 60 * 60 * 1000);
+      const first = await engine.createTask({ title: 'Standup notes', dueDate: due, recurrence: 'FREQ=DAILY' });
+      expect(first.data!.schema.seriesId).toBe(first.data!.schema.id);
+
+      const handler = vi.fn();
+      engine.getEventBus().on('task:created', handler);
+      const result = await engine.updateTask(first.data!.schema.id, { status: TaskStatus.COMPLETED });
+      expect(result.message).toContain('next occurrence');
+
+      const next = handler.mock.calls[0][0];
+      expect(next.source).toBe('recurrence');
+      expect(next.task.status).toBe(TaskStatus.PENDING);
+      expect(next.task.schema.seriesId).toBe(first.data!.schema.id);
+      expect(next.task.schema.occurrence).toBe(2);
+      expect(next.task.schema.dueDate.getTime() - due.getTime()).toBe(24 * 60 * 60 * 1000);
+    });
+
+    it('does not fork the series when an instance is completed twice', async () => {
+      const first = await engine.createTask({ title: 'Chore', recurrence: { frequency: 'weekly' } });
+      const id = first.data!.schema.id;
+      await engine.updateTask(id, { status: TaskStatus.COMPLETED });
+      await engine.updateTask(id, { status: TaskStatus.PENDING });
+      await engine.updateTask(id, { status: TaskStatus.COMPLETED });
+      const all = await engine.getTasks();
+      expect(all.data!.filter(t => t.schema.seriesId === id)).toHaveLength(2);
+    });
+
+    it('ends the series after count occurrences', async () => {
+      const first = await engine.createTask({ title: 'Twice', recurrence: { frequency: 'daily', count: 1 } });
+      await engine.updateTask(first.data!.schema.id, { status: TaskStatus.COMPLETED });
+      const all = await engine.getTasks();
+      expect(all.data).toHaveLength(1);
+    });
+
+    it('keeps a monthly series on the day of its first due date', async () => {
+      const first = await engine.createTask({ title: 'Rent', dueDate: new Date(2099, 0, 31, 9), recurrence: 'FREQ=MONTHLY' });
+      expect(first.data!.schema.recurrence!.byMonthDay).toBe(31);
+
+      const handler = vi.fn();
+      engine.getEventBus().on('task:created', handler);
+      await engine.updateTask(first.data!.schema.id, { status: TaskStatus.COMPLETED });
+      const february = handler.mock.calls[0][0].task;
+      await engine.updateTask(february.schema.id, { status: TaskStatus.COMPLETED });
+
+      expect(february.schema.dueDate).toEqual(new Date(2099, 1, 28, 9));
+      expect(handler.mock.calls[1][0].task.schema.dueDate).toEqual(new Date(2099, 2, 31, 9));
+    });
+
+    it('rejects invalid recurrence rules', async () => {
+      const result = await engine.createTask({ title: 'Bad', recurrence: 'FREQ=HOURLY' });
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Unsupported FREQ');
+    });
+  });
+
+  // ---- shared storage (MCP agent writes the same database) ----
+  describe('shared storage', () => {
+    let other: TaskyEngine;
+
+    beforeEach(async () => {
+      storage = createMockStorage();
+      engine = new TaskyEngine(undefined, storage);
+      other = new TaskyEngine(undefined, storage);
+      await engine.initialize();
+      await other.initialize();
+    });
+
+    it('updates a task created by another engine instance', async () => {
+      const created = await other.createTask({ title: 'From agent' });
+      const result = await engine.updateTask(created.data!.schema.id, { title: 'Edited in app' });
+      expect(result.success).toBe(true);
+      expect((await other.getTask(created.data!.schema.id)).data!.schema.title).toBe('Edited in app');
+    });
+
+    it('validates dependencies against tasks created elsewhere', async () => {
+      const blocker = await other.createTask({ title: 'Blocker' });
+      const result = await engine.createTask({ title: 'Blocked', dependencies: [blocker.data!.schema.id] });
+      expect(result.success).toBe(true);
+    });
+
+    it('deletes a task created by another engine instance', async () => {
+      const created = await other.createTask({ title: 'Temp' });
+      const result = await engine.deleteTask(created.data!.schema.id);
+      expect(result.success).toBe(true);
+    });
+
+    it('records who created the task', async () => {
+      const result = await engine.createTask({ title: 'Via MCP', createdBy: 'tasky-mcp' });
+      expect(result.data!.metadata!.createdBy).toBe('tasky-mcp');
+    });
+  });
+
+  // ---- syncExternalChanges ----
+  describe('syncExternalChanges()', () => {
+    let feed: TaskChange[];
+
+    const change = (op: TaskChange['op'], taskId: string, extra: Partial<TaskChange> = {}): TaskChange =>
+      ({ seq: feed.length + 1, taskId, op, fields: [], changedAt: new Date(), ...extra });
+
+    beforeEach(async () => {
+      feed = [];
+      storage = createMockStorage([makeTask({ schema: { id: 'a', title: 'A', createdAt: new Date() } })]);
+      storage.readExternalChanges = vi.fn().mockImplementation(async () => ({ success: true, data: feed.splice(0) }));
+      engine = new TaskyEngine(undefined, storage);
+      await engine.initialize();
+    });
+
+    it('is a no-op for storages without a change feed', async () => {
+      engine = new TaskyEngine(undefined, createMockStorage());
+      const result = await engine.syncExternalChanges();
+      expect(result).toEqual({ success: true, data: [] });
+    });
+
+    it('emits created events for rows inserted elsewhere', async () => {
+      const handler = vi.fn();
+      engine.getEventBus().on('task:created', handler);
+      await storage.saveTask(makeTask({ schema: { id: 'b', title: 'B', createdAt: new Date() } }));
+      feed.push(change('insert', 'b'));
+
+      const result = await engine.syncExternalChanges();
+      expect(result.data).toHaveLength(1);
+      expect(handler).toHaveBeenCalledWith(expect.objectContaining({ source: 'external' }));
+      expect(handler.mock.calls[0][0].task.schema.id).toBe('b');
+    });
+
+    it('emits updated and completed events with the previous status', async () => {
+      const updated = vi.fn();
+      const completed = vi.fn();
+      engine.getEventBus().on('task:updated', updated);
+      engine.getEventBus().on('task:completed', completed);
+      await storage.saveTask(makeTask({ status: TaskStatus.COMPLETED, schema: { id: 'a', title: 'A', createdAt: new Date() } }));
+      feed.push(change('update', 'a', { previousStatus: TaskStatus.PENDING, fields: ['status'] }));
+
+      await engine.syncExternalChanges();
+      expect(updated).toHaveBeenCalledWith(expect.objectContaining({
+        previousStatus: TaskStatus.PENDING,
+        changes: ['status'],
+        external: true
+      }));
+      expect(completed).toHaveBeenCalledTimes(1);
+    });
+
+    it('emits deleted events with the last known task', async () => {
+      const handler = vi.fn();
+      engine.getEventBus().on('task:deleted', handler);
+      await storage.deleteTask('a');
+      feed.push(change('delete', 'a'));
+
+      await engine.syncExternalChanges();
+      expect(handler).toHaveBeenCalledWith(expect.objectContaining({ taskId: 'a', external: true }));
+      expect(handler.mock.calls[0][0].task.schema.title).toBe('A');
+      expect((await engine.getTask('a')).success).toBe(false);
+    });
+
+    it('skips rows that no longer exist', async () => {
+      const handler = vi.fn();
+      engine.getEventBus().on('task:created', handler);
+      feed.push(change('insert', 'gone'));
+      await engine.syncExternalChanges();
+      expect(handler).not.toHaveBeenCalled();
+    });
+  });
+
+  // ---- revision history ----
+  describe('revision history', () => {
+    let revisions: TaskRevision[];
+
+    beforeEach(async () => {
+      revisions = [];
+      storage = createMockStorage();
+      storage.saveRevision = vi.fn().mockImplementation(async (revision: Omit<TaskRevision, 'id'>) => {
+        revisions.push({ ...revision, id: revisions.length + 1 });
+        return { success: true };
+      });
+      storage.getRevisions = vi.fn().mockImplementation(async (taskId: string) => ({
+        success: true,
+        data: revisions.filter(r => r.taskId === taskId).reverse()
+      }));
+      engine = new TaskyEngine(undefined, storage);
+      await engine.initialize();
+    });
+
+    it('records create, update and delete with the actor and changed fields', async () => {
+      const created = await engine.createTask({ title: 'Draft', actor: 'chat' });
+      const id = created.data!.schema.id;
+      await engine.updateTask(id, { title: 'Final', status: TaskStatus.IN_PROGRESS, actor: 'mcp' });
+      await engine.updateTask(id, { title: 'Final' });
+      await engine.deleteTask(id);
+
+      const history = (await engine.getTaskRevisions(id)).data!;
+      expect(history.map(r => [r.op, r.actor])).toEqual([['delete', 'ui'], ['update', 'mcp'], ['create', 'chat']]);
+      expect(history[1].changes).toEqual({
+        title: { from: 'Draft', to: 'Final' },
+        status: { from: TaskStatus.PENDING, to: TaskStatus.IN_PROGRESS }
+      });
+      expect(history[1].snapshot.schema.title).toBe('Final');
+    });
+
+    it('builds flow analytics from the status changes in the history', async () => {
+      storage.getStatusHistory = vi.fn().mockImplementation(async () => ({
+        success: true,
+        data: revisions
+          .filter(r => r.changes.status)
+          .map(r => ({ taskId: r.taskId, from: r.changes.status.from, to: r.changes.status.to, at: r.createdAt, actor: r.actor }))
+      }));
+      const id = (await engine.createTask({ title: 'Ship it', tags: ['release'] })).data!.schema.id;
+      await engine.createTask({ title: 'Other' });
+      await engine.updateTask(id, { status: TaskStatus.IN_PROGRESS });
+      await engine.updateTask(id, { status: TaskStatus.COMPLETED });
+
+      const flow = (await engine.getTaskAnalytics({ tag: 'release' })).data!.flow;
+      expect(flow.statuses.slice(0, 2)).toEqual([TaskStatus.PENDING, TaskStatus.IN_PROGRESS]);
+      expect(flow.cumulativeFlow[flow.cumulativeFlow.length - 1].counts).toMatchObject({ PENDING: 0, COMPLETED: 1 });
+      expect(flow.burndown[flow.burndown.length - 1]).toMatchObject({ remaining: 0, scope: 1 });
+      expect(flow.cycleTime!.count).toBe(1);
+      expect(flow.completionHeatmap[flow.completionHeatmap.length - 1].count).toBe(1);
+
+      const invalid = await engine.getTaskAnalytics({ from: new Date(), to: new Date(Date.now() - 7 * 86_400_000) });
+      expect(invalid.error).toMatch(/from must not be after to/);
+    });
+
+    it('restores an earlier revision as a new version', async () => {
+      const id = (await engine.createTask({ title: 'Draft', tags: ['a'] })).data!.schema.id;
+      await engine.updateTask(id, { title: 'Final', tags: [] });
+      const handler = vi.fn();
+      engine.getEventBus().on('task:updated', handler);
+
+      const result = await engine.restoreTaskRevision(id, 1, 'chat');
+      expect(result.success).toBe(true);
+      expect(result.data!.schema.title).toBe('Draft');
+      expect(result.data!.schema.tags).toEqual(['a']);
+      expect(result.data!.metadata!.version).toBe(3);
+      expect(storage.saveTask).toHaveBeenLastCalledWith(expect.anything(), 2);
+      expect(handler).toHaveBeenCalledWith(expect.objectContaining({ changes: ['title', 'tags'] }));
+      expect(revisions[revisions.length - 1]).toMatchObject({ op: 'restore', actor: 'chat' });
+    });
+
+    it('re-creates a deleted task without links to tasks that are gone', async () => {
+      const parent = (await engine.createTask({ title: 'Parent' })).data!;
+      const child = (await engine.createTask({ title: 'Child', parentId: parent.schema.id })).data!;
+      await engine.deleteTask(child.schema.id);
+      await engine.deleteTask(parent.schema.id);
+      const created = vi.fn();
+      engine.getEventBus().on('task:created', created);
+
+      const deleteRevision = (await engine.getTaskRevisions(child.schema.id)).data![0];
+      const result = await engine.restoreTaskRevision(child.schema.id, deleteRevision.id);
+      expect(result.success).toBe(true);
+      expect(result.data!.schema.parentId).toBeUndefined();
+      expect(storage.saveTask).toHaveBeenLastCalledWith(expect.anything(), 0);
+      expect(created).toHaveBeenCalledWith(expect.objectContaining({ source: 'restore' }));
+      expect((await engine.getTask(child.schema.id)).success).toBe(true);
+    });
+
+    it('reports unknown revisions and storages without history', async () => {
+      const id = (await engine.createTask({ title: 'Draft' })).data!.schema.id;
+      expect((await engine.restoreTaskRevision(id, 99)).error).toMatch(/Revision 99/);
+
+      engine = new TaskyEngine(undefined, createMockStorage());
+      expect(await engine.getTaskRevisions(id)).toEqual({ success: true, data: [] });
+      expect((await engine.restoreTaskRevision(id, 1)).success).toBe(false);
+    });
+
+    it('reports a failed save as an error', async () => {
+      const id = (await engine.createTask({ title: 'Draft' })).data!.schema.id;
+      (storage.saveTask as any).mockResolvedValueOnce({ success: false, error: 'disk full' });
+      expect(await engine.restoreTaskRevision(id, 1)).toEqual({ success: false, error: 'disk full' });
+    });
+  });
+
+  // ---- undo / redo ----
+  describe('undo and redo', () => {
+    beforeEach(async () => {
+      storage = createMockStorage();
+      engine = new TaskyEngine(undefined, storage);
+      await engine.initialize();
+    });
+
+    it('undoes a delete with its promoted subtasks and redoes it', async () => {
+      const parent = (await engine.createTask({ title: 'Parent' })).data!;
+      const child = (await engine.createTask({ title: 'Child', parentId: parent.schema.id })).data!;
+      await engine.deleteTask(parent.schema.id);
+      expect(engine.getUndoState()).toMatchObject({ canUndo: true, undoLabel: 'Delete "Parent"' });
+
+      const undone = await engine.undo();
+      expect(undone.success).toBe(true);
+      expect(undone.message).toBe('Undid: Delete "Parent"');
+      expect((await engine.getTask(parent.schema.id)).success).toBe(true);
+      expect((await engine.getTask(child.schema.id)).data!.schema.parentId).toBe(parent.schema.id);
+
+      await engine.redo();
+      expect((await engine.getTask(parent.schema.id)).success).toBe(false);
+      expect((await engine.getTask(child.schema.id)).data!.schema.parentId).toBeUndefined();
+    });
+
+    it('undoes a grouped change in one step through applyTaskWrites', async () => {
+      const a = (await engine.createTask({ title: 'A' })).data!;
+      const b = (await engine.createTask({ title: 'B' })).data!;
+      const applyTaskWrites = vi.fn().mockImplementation(async (writes: any[]) => {
+        for (const w of writes) await storage.saveTask(w.task);
+        return { success: true };
+      });
+      storage.applyTaskWrites = applyTaskWrites;
+
+      await engine.groupChanges('Mark 2 tasks completed', async () => {
+        await engine.updateTask(a.schema.id, { status: TaskStatus.COMPLETED });
+        await engine.updateTask(b.schema.id, { status: TaskStatus.COMPLETED });
+      });
+      const result = await engine.undo();
+
+      expect(result.data!.label).toBe('Mark 2 tasks completed');
+      expect(applyTaskWrites).toHaveBeenCalledTimes(1);
+      expect(applyTaskWrites.mock.calls[0][0].map((w: any) => [w.taskId, w.expectedVersion])).toEqual([[a.schema.id, 2], [b.schema.id, 2]]);
+      expect((await engine.getTask(a.schema.id)).data!.status).toBe(TaskStatus.PENDING);
+      expect((await engine.getTask(b.schema.id)).data!.metadata!.version).toBe(3);
+      expect(engine.getUndoState()).toMatchObject({ undoLabel: 'Create "B"', redoLabel: 'Mark 2 tasks completed' });
+    });
+
+    it('refuses and drops a change whose task was edited since', async () => {
+      const task = (await engine.createTask({ title: 'Draft' })).data!;
+      await engine.updateTask(task.schema.id, { title: 'Final' });
+      // Another process bumps the version behind the engine's back
+      const current = (await engine.getTask(task.schema.id)).data!;
+      await storage.saveTask({ ...current, metadata: { ...current.metadata!, version: 3 } });
+
+      const result = await engine.undo();
+      expect(result.success).toBe(false);
+      expect(result.error).toMatch(/changed since/);
+      expect(result.conflict).toMatchObject({ expectedVersion: 2, actualVersion: 3 });
+      expect(engine.getUndoState().undoLabel).toBe('Create "Draft"');
+    });
+
+    it('makes external changes undoable', async () => {
+      const task = makeTask({ schema: { id: 'a', title: 'A', createdAt: new Date() } });
+      await storage.saveTask(task);
+      const feed: TaskChange[] = [{ seq: 1, taskId: 'a', op: 'insert', fields: [], changedAt: new Date() }];
+      storage.readExternalChanges = vi.fn().mockImplementation(async () => ({ success: true, data: feed.splice(0) }));
+
+      const result = await engine.undo();
+      expect(result.data!.label).toBe('External change to "A"');
+      expect((await engine.getTask('a')).success).toBe(false);
+    });
+
+    it('reports an empty stack', async () => {
+      expect((await engine.redo()).error).toBe('Nothing to redo');
+    });
+  });
+
+  // ---- trash ----
+  describe('trash', () => {
+    // Trash semantics as in SqliteTaskStorage: deletes keep a copy, saves take it back out
+    function withTrash(target: ITaskStorage): TrashedTask[] {
+      const trash: TrashedTask[] = [];
+      const save = target.saveTask;
+      const remove = target.deleteTask;
+      target.saveTask = vi.fn().mockImplementation(async (task: TaskyTask, expectedVersion?: number) => {
+        trash.splice(0, trash.length, ...trash.filter(t => t.task.schema.id !== task.schema.id));
+        return save(task, expectedVersion);
+      });
+      target.deleteTask = vi.fn().mockImplementation(async (id: string) => {
+        const tasks = (await target.loadAllTasks()).data!;
+        const task = tasks.find(t => t.schema.id === id);
+        const links = {
+          childIds: tasks.filter(t => t.schema.parentId === id).map(t => t.schema.id),
+          dependentIds: tasks.filter(t => t.schema.dependencies?.includes(id)).map(t => t.schema.id)
+        };
+        if (task) trash.unshift({ task, links, deletedAt: new Date() });
+        return remove(id);
+      });
+      target.getTrashedTasks = vi.fn().mockImplementation(async () => ({ success: true, data: [...trash] }));
+      target.purgeTrashedTasks = vi.fn().mockResolvedValue({ success: true, data: 1 });
+      return trash;
+    }
+
+    it('restores a deleted task without links to tasks that are gone', async () => {
+      const trash = withTrash(storage);
+      const gone = (await engine.createTask({ title: 'Gone' })).data!;
+      const kept = (await engine.createTask({ title: 'Kept' })).data!;
+      const task = (await engine.createTask({ title: 'Ship', dependencies: [gone.schema.id, kept.schema.id] })).data!;
+
+      expect((await engine.deleteTask(task.schema.id)).message).toBe('Task moved to trash');
+      await engine.deleteTask(gone.schema.id);
+      expect(trash.map(t => t.task.schema.title)).toEqual(['Gone', 'Ship']);
+
+      const created = vi.fn();
+      engine.getEventBus().on('task:created', created);
+      const result = await engine.restoreFromTrash(task.schema.id);
+
+      expect(result.success).toBe(true);
+      expect(result.data!.schema.dependencies).toEqual([kept.schema.id]);
+      expect(result.data!.metadata!.version).toBe(2);
+      expect(trash.map(t => t.task.schema.title)).toEqual(['Gone']);
+      expect(created).toHaveBeenCalledWith(expect.objectContaining({ source: 'restore' }));
+      expect(engine.getUndoState().undoLabel).toBe('Restore "Ship" from trash');
+    });
+
+    it('links subtasks and dependents back to a restored task', async () => {
+      withTrash(storage);
+      const task = (await engine.createTask({ title: 'Ship' })).data!;
+      const child = (await engine.createTask({ title: 'Changelog', parentId: task.schema.id })).data!;
+      const moved = (await engine.createTask({ title: 'Tag', parentId: task.schema.id })).data!;
+      const other = (await engine.createTask({ title: 'Other' })).data!;
+      const dependent = (await engine.createTask({ title: 'Announce', dependencies: [task.schema.id] })).data!;
+      await engine.deleteTask(task.schema.id);
+      // Moved elsewhere after the delete, so it stays there
+      await engine.updateTask(moved.schema.id, { parentId: other.schema.id });
+
+      expect((await engine.restoreFromTrash(task.schema.id)).success).toBe(true);
+      expect((await engine.getTask(child.schema.id)).data!.schema.parentId).toBe(task.schema.id);
+      expect((await engine.getTask(child.schema.id)).data!.metadata!.version).toBe(3);
+      expect((await engine.getTask(moved.schema.id)).data!.schema.parentId).toBe(other.schema.id);
+      expect((await engine.getTask(dependent.schema.id)).data!.schema.dependencies).toEqual([task.schema.id]);
+
+      await engine.undo();
+      expect((await engine.getTask(task.schema.id)).success).toBe(false);
+      expect((await engine.getTask(child.schema.id)).data!.schema.parentId).toBeUndefined();
+      expect((await engine.getTask(dependent.schema.id)).data!.schema.dependencies).toEqual([]);
+    });
+
+    it('refuses to restore over a task with the same id', async () => {
+      withTrash(storage);
+      const task = (await engine.createTask({ title: 'Ship' })).data!;
+      await engine.deleteTask(task.schema.id);
+      // Re-created by another process between reading the trash and saving
+      (storage.saveTask as any).mockResolvedValueOnce({
+        success: false,
+        error: 'conflict',
+        conflict: { taskId: task.schema.id, expectedVersion: 0, actualVersion: 1 }
+      });
+
+      const result = await engine.restoreFromTrash(task.schema.id);
+      expect(result.success).toBe(false);
+      expect(result.conflict).toMatchObject({ taskId: task.schema.id, expectedVersion: 0 });
+      expect((await engine.restoreFromTrash('missing')).error).toMatch(/not in the trash/);
+    });
+
+    it('purges through the storage and is empty without one', async () => {
+      const deletedBefore = new Date('2025-01-01T00:00:00Z');
+      expect((await engine.purgeTrash({ deletedBefore })).data).toBe(0);
+      expect((await engine.getTrash()).data).toEqual([]);
+
+      withTrash(storage);
+      expect((await engine.purgeTrash({ deletedBefore })).data).toBe(1);
+      expect(storage.purgeTrashedTasks).toHaveBeenCalledWith({ deletedBefore });
+    });
+  });
+
+  // ---- duplicate / bulk update ----
+  describe('duplicateTask() and bulkUpdateTasks()', () => {
+    it('copies a task as a new pending task with an unticked checklist', async () => {
+      const due = new Date(Date.now() + 60_000);
+      const original = (await engine.createTask({
+        title: 'Release',
+        tags: ['ship'],
+        dueDate: due,
+        checklist: [{ text: 'Changelog' }]
+      })).data!;
+      await engine.updateTask(original.schema.id, {
+        status: TaskStatus.IN_PROGRESS,
+        checklist: [{ id: original.schema.checklist![0].id, text: 'Changelog', done: true }]
+      });
+
+      const copy = (await engine.duplicateTask(original.schema.id)).data!;
+      expect(copy.schema.id).not.toBe(original.schema.id);
+      expect(copy.schema.title).toBe('Release (copy)');
+      expect(copy.schema.tags).toEqual(['ship']);
+      expect(copy.schema.dueDate).toEqual(due);
+      expect(copy.status).toBe(TaskStatus.PENDING);
+      expect(copy.schema.checklist).toEqual([expect.objectContaining({ text: 'Changelog', done: false })]);
+      expect(engine.getUndoState().undoLabel).toBe('Duplicate "Release"');
+      expect((await engine.duplicateTask('missing')).success).toBe(false);
+    });
+
+    it('updates several tasks as one undo step and reports the ones it skipped', async () => {
+      const a = (await engine.createTask({ title: 'A' })).data!;
+      const b = (await engine.createTask({ title: 'B' })).data!;
+
+      const result = await engine.bulkUpdateTasks([a.schema.id, 'missing', b.schema.id], { tags: ['q3'], expectedVersion: 7 });
+      expect(result.success).toBe(true);
+      expect(result.data!.map(t => t.schema.tags)).toEqual([['q3'], ['q3']]);
+      expect(result.warnings).toEqual([expect.stringContaining('missing')]);
+
+      await engine.undo();
+      const tasks = (await engine.getTasks()).data!;
+      expect(tasks.every(t => t.schema.tags!.length === 0)).toBe(true);
+      expect((await engine.bulkUpdateTasks(['missing'], { tags: [] })).success).toBe(false);
+    });
+  });
+
+  // ---- reminder conversion ----
+  describe('reminder conversion', () => {
+    const reminder: ConvertibleReminder = {
+      id: 'r1', message: 'Stretch', time: '15:00', days: ['monday', 'friday'], enabled: true
+    };
+
+    function withLinks(target: ITaskStorage): TaskReminderLink[] {
+      const links: TaskReminderLink[] = [];
+      target.saveReminderLink = vi.fn().mockImplementation(async (link: TaskReminderLink) => {
+        links.unshift(link);
+        return { success: true };
+      });
+      return links;
+    }
+
+    it('creates a task from a reminder and links the two', async () => {
+      const links = withLinks(storage);
+      const created = vi.fn();
+      engine.getEventBus().on('task:created', created);
+
+      const result = await engine.convertReminderToTask(reminder);
+      const task = result.data!;
+      expect(task.schema.title).toBe('Stretch');
+      expect(task.schema.recurrence).toMatchObject({ frequency: 'weekly', byWeekday: ['MO', 'FR'] });
+      expect(created).toHaveBeenCalledWith(expect.objectContaining({ source: 'conversion' }));
+      expect(links).toEqual([expect.objectContaining({
+        direction: 'reminder-to-task', reminderId: 'r1', taskId: task.schema.id, preserveOriginal: false
+      })]);
+    });
+
+    it('saves a reminder for a task, then moves the task to the trash unless kept', async () => {
+      const links = withLinks(storage);
+      const kept = (await engine.createTask({ title: 'Kept' })).data!;
+      const moved = (await engine.createTask({ title: 'Moved' })).data!;
+      const saved: ConvertibleReminder[] = [];
+      const save = (r: ConvertibleReminder) => { saved.push(r); return true; };
+
+      expect((await engine.convertTaskToReminder(kept.schema.id, save, { preserveOriginal: true })).success).toBe(true);
+      const result = await engine.convertTaskToReminder(moved.schema.id, save);
+
+      expect(result.data).toEqual(saved[1]);
+      expect(saved.map(r => r.message)).toEqual(['Kept', 'Moved']);
+      expect((await engine.getTasks()).data!.map(t => t.schema.title)).toEqual(['Kept']);
+      expect(links.map(l => [l.direction, l.taskId, l.preserveOriginal])).toEqual([
+        ['task-to-reminder', moved.schema.id, false],
+        ['task-to-reminder', kept.schema.id, true]
+      ]);
+    });
+
+    it('leaves the task alone when the reminder could not be saved', async () => {
+      const task = (await engine.createTask({ title: 'Stay' })).data!;
+      const result = await engine.convertTaskToReminder(task.schema.id, () => false);
+      expect(result.success).toBe(false);
+      expect((await engine.getTasks()).data).toHaveLength(1);
+      expect((await engine.getReminderLinks({ taskId: task.schema.id })).data).toEqual([]);
+    });
+  });
+
+  // ---- templates ----
+  describe('task templates', () => {
+    function withTemplates(target: ITaskStorage): TaskTemplate[] {
+      const templates: TaskTemplate[] = [];
+      target.getTemplates = vi.fn().mockImplementation(async () => ({ success: true, data: [...templates] }));
+      target.saveTemplate = vi.fn().mockImplementation(async (template: TaskTemplate) => {
+        const idx = templates.findIndex(t => t.id === template.id);
+        if (idx >= 0) templates[idx] = template;
+        else templates.push(template);
+        return { success: true };
+      });
+      target.deleteTemplate = vi.fn().mockImplementation(async (id: string) => {
+        const idx = templates.findIndex(t => t.id === id);
+        if (idx >= 0) templates.splice(idx, 1);
+        return { success: true, data: idx >= 0 };
+      });
+      return templates;
+    }
+
+    const release = {
+      name: 'Release',
+      title: 'Release {{version}}',
+      tags: ['release'],
+      dueOffset: '7d',
+      subtasks: [{ title: 'Changelog for {{version}}', dueOffset: '2d' }, { title: 'Tag {{version}}' }]
+    };
+
+    it('saves templates with unique names and ids derived from them', async () => {
+      withTemplates(storage);
+      const saved = (await engine.saveTemplate(release)).data!;
+      expect(saved.id).toBe('release');
+
+      const duplicate = await engine.saveTemplate({ ...release, name: 'RELEASE' });
+      expect(duplicate.error).toMatch(/already exists/);
+
+      const renamed = await engine.saveTemplate({ ...release, name: 'Release train' }, saved.id);
+      expect(renamed.data).toMatchObject({ id: 'release', name: 'Release train', createdAt: saved.createdAt });
+      expect((await engine.saveTemplate({ ...release, dueOffset: 'soon' })).error).toMatch(/Invalid due offset/);
+
+      expect((await engine.deleteTemplate('release')).success).toBe(true);
+      expect((await engine.deleteTemplate('release')).success).toBe(false);
+      expect((await engine.getTemplates()).data).toEqual([]);
+    });
+
+    it('creates a task and its subtasks as one undo step', async () => {
+      withTemplates(storage);
+      await engine.saveTemplate(release);
+      const created = vi.fn();
+      engine.getEventBus().on('task:created', created);
+
+      const result = await engine.createFromTemplate('release', { values: { version: '2.0' } });
+      const { task, subtasks } = result.data!;
+      expect(task.schema.title).toBe('Release 2.0');
+      expect(task.schema.dueDate!.getTime()).toBeGreaterThan(Date.now() + 6 * 24 * 3_600_000);
+      expect(subtasks.map(s => [s.schema.title, s.schema.parentId])).toEqual([
+        ['Changelog for 2.0', task.schema.id],
+        ['Tag 2.0', task.schema.id]
+      ]);
+      expect(created).toHaveBeenCalledWith(expect.objectContaining({ source: 'template' }));
+      expect(engine.getUndoState().undoLabel).toBe('Create "Release 2.0" from template');
+
+      await engine.undo();
+      expect((await engine.getTasks()).data).toEqual([]);
+    });
+
+    it('creates nothing when a variable is missing or the template is unknown', async () => {
+      withTemplates(storage);
+      await engine.saveTemplate(release);
+
+      expect((await engine.createFromTemplate('Release')).error).toMatch('Missing value for {{version}}');
+      expect((await engine.createFromTemplate('hotfix')).error).toMatch(/not found/);
+      expect((await engine.createFromTemplate('release', { values: { version: '1' }, parentId: 'missing' })).success).toBe(false);
+      expect((await engine.getTasks()).data).toEqual([]);
+    });
+
+    it('has no templates when the storage keeps none', async () => {
+      expect((await engine.getTemplates()).data).toEqual([]);
+      expect((await engine.saveTemplate(release)).success).toBe(false);
+    });
+  });
+
+  // ---- automation ----
+  describe('automation rules', () => {
+    function withRules(target: ITaskStorage): { rules: AutomationRule[]; runs: AutomationRun[] } {
+      const saved = { rules: [] as AutomationRule[], runs: [] as AutomationRun[] };
+      target.getAutomationRules = vi.fn().mockImplementation(async () => ({ success: true, data: [...saved.rules] }));
+      target.saveAutomationRule = vi.fn().mockImplementation(async (rule: AutomationRule) => {
+        const idx = saved.rules.findIndex(r => r.id === rule.id);
+        if (idx >= 0) saved.rules[idx] = rule;
+        else saved.rules.push(rule);
+        return { success: true };
+      });
+      target.deleteAutomationRule = vi.fn().mockImplementation(async (id: string) => {
+        const idx = saved.rules.findIndex(r => r.id === id);
+        if (idx >= 0) saved.rules.splice(idx, 1);
+        return { success: true, data: idx >= 0 };
+      });
+      target.saveAutomationRun = vi.fn().mockImplementation(async (run: Omit<AutomationRun, 'id'>) => {
+        const logged = { ...run, id: saved.runs.length + 1 };
+        saved.runs.unshift(logged);
+        return { success: true, data: logged };
+      });
+      return saved;
+    }
+
+    const triageBugs: AutomationRuleInput = {
+      name: 'Triage bugs',
+      enabled: true,
+      trigger: 'task:created',
+      conditions: { tags: ['bug'] },
+      actions: [{ type: 'assign-agent', agent: 'claude' }, { type: 'add-reminder', after: '1h' }, { type: 'notify' }]
+    };
+
+    it('saves rules checked against the workflow', async () => {
+      withRules(storage);
+      const saved = (await engine.saveAutomationRule(triageBugs)).data!;
+      expect(saved.id).toBeTruthy();
+
+      const disabled = await engine.saveAutomationRule({ ...triageBugs, enabled: false }, saved.id);
+      expect(disabled.data).toMatchObject({ id: saved.id, enabled: false, createdAt: saved.createdAt });
+      expect((await engine.saveAutomationRule({ ...triageBugs, actions: [{ type: 'set-status', status: 'IN_QA' }] })).error)
+        .toMatch(/Unknown status "IN_QA"/);
+      expect((await engine.saveAutomationRule(triageBugs, 'missing')).error).toMatch(/not found/);
+
+      expect((await engine.deleteAutomationRule(saved.id)).success).toBe(true);
+      expect((await engine.deleteAutomationRule(saved.id)).success).toBe(false);
+      expect((await engine.getAutomationRules()).data).toEqual([]);
+    });
+
+    it('runs matching rules on events, logs each run and does not re-run on its own changes', async () => {
+      const saved = withRules(storage);
+      await engine.saveAutomationRule(triageBugs);
+      await engine.saveAutomationRule({ name: 'Review on update', enabled: true, trigger: 'task:updated', conditions: {}, actions: [{ type: 'add-tags', tags: ['seen'] }] });
+      const effects = { addReminder: vi.fn().mockReturnValue(true), notify: vi.fn() };
+      const runs: Promise<unknown>[] = [];
+      const bus = engine.getEventBus();
+      bus.on('task:created', event => runs.push(engine.runAutomationRules('task:created', event, effects)));
+      bus.on('task:updated', event => runs.push(engine.runAutomationRules('task:updated', event, effects)));
+
+      const task = (await engine.createTask({ title: 'Crash on save', tags: ['Bug'] })).data!;
+      await engine.createTask({ title: 'Write docs' });
+      await Promise.all(runs);
+
+      expect((await engine.getTask(task.schema.id)).data!.schema.assignedAgent).toBe('claude');
+      expect(effects.addReminder).toHaveBeenCalledWith(expect.objectContaining({ message: 'Crash on save', oneTime: true }));
+      expect(effects.notify).toHaveBeenCalledWith('Triage bugs', 'Crash on save');
+      // The rule's own update didn't trigger "Review on update"
+      expect(saved.runs.map(r => [r.ruleName, r.taskTitle, r.success])).toEqual([['Triage bugs', 'Crash on save', true]]);
+      expect(saved.runs[0].results.map(r => r.type)).toEqual(['assign-agent', 'add-reminder', 'notify']);
+    });
+
+    it('logs failed actions without stopping the others', async () => {
+      const saved = withRules(storage);
+      await engine.saveAutomationRule({ ...triageBugs, trigger: 'task:overdue', conditions: {} });
+      const task = (await engine.createTask({ title: 'Late' })).data!;
+
+      const result = await engine.runAutomationRules('task:overdue', { task, overdueDuration: 5 }, { notify: vi.fn() });
+      expect(result.data![0].success).toBe(false);
+      expect(saved.runs[0].results).toEqual([
+        { type: 'assign-agent', success: true, detail: 'assign to claude' },
+        { type: 'add-reminder', success: false, detail: 'Reminders are not available' },
+        { type: 'notify', success: true }
+      ]);
+    });
+
+    it('reports tasks due soon once per due date', async () => {
+      const due = new Date(Date.now() + 60 * 60_000);
+      await engine.createTask({ title: 'Soon', dueDate: due });
+      const dueEvents = vi.fn();
+      engine.getEventBus().on('task:due', dueEvents);
+
+      expect(await engine.checkDueSoon(new Date(due.getTime() - 30 * 60_000))).toEqual([]);
+      const tenBefore = new Date(due.getTime() - 10 * 60_000);
+      expect((await engine.checkDueSoon(tenBefore)).map(t => t.schema.title)).toEqual(['Soon']);
+      expect(dueEvents).toHaveBeenCalledWith(expect.objectContaining({ timeUntilDue: 10 }));
+      expect(await engine.checkDueSoon(tenBefore)).toEqual([]);
+    });
+  });
+
+  // ---- OODA policies ----
+  describe('policies and act()', () => {
+    function withPolicy(target: ITaskStorage): { settings?: TaskPolicySettings } {
+      const saved: { settings?: TaskPolicySettings } = {};
+      target.getPolicy = vi.fn().mockImplementation(async () => ({ success: true, data: saved.settings || DEFAULT_TASK_POLICY_SETTINGS }));
+      target.savePolicy = vi.fn().mockImplementation(async (settings: TaskPolicySettings) => {
+        saved.settings = settings;
+        return { success: true };
+      });
+      return saved;
+    }
+
+    it('orients with the saved policy and rejects unknown ones', async () => {
+      const now = new Date();
+      storage = createMockStorage([
+        makeTask({ schema: { id: 'big', title: 'Big', estimatedDuration: 240, dueDate: new Date(now.getTime() + 3600000), createdAt: now } }),
+        makeTask({ schema: { id: 'small', title: 'Small', estimatedDuration: 10, createdAt: now } })
+      ]);
+      const saved = withPolicy(storage);
+      engine = new TaskyEngine(undefined, storage);
+      await engine.initialize();
+
+      expect((await engine.orient(await engine.observe())).focusTask?.schema.id).toBe('big');
+      const result = await engine.savePolicy({ policy: 'smallest-first', thresholds: DEFAULT_POLICY_THRESHOLDS });
+      expect(result).toMatchObject({ success: true, message: 'Policy set to Smallest first' });
+      expect(saved.settings?.policy).toBe('smallest-first');
+      const strategy = await engine.orient(await engine.observe());
+      expect(strategy).toMatchObject({ policy: 'smallest-first', focusTask: { schema: { id: 'small' } } });
+      expect((await engine.decide(strategy))[0]).toMatchObject({ type: 'focus', taskId: 'small' });
+
+      const rejected = await engine.savePolicy({ policy: 'coin-flip', thresholds: DEFAULT_POLICY_THRESHOLDS });
+      expect(rejected.success).toBe(false);
+      expect(rejected.error).toContain('Unknown policy "coin-flip"');
+    });
+
+    it('archives, breaks down and notifies, reporting each action', async () => {
+      const now = new Date();
+      storage = createMockStorage([
+        makeTask({ status: TaskStatus.COMPLETED, schema: { id: 'done', title: 'Done', createdAt: now } }),
+        makeTask({ schema: { id: 'epic', title: 'Epic', estimatedDuration: 150, createdAt: now } })
+      ]);
+      engine = new TaskyEngine(undefined, storage);
+      await engine.initialize();
+      const notify = vi.fn();
+
+      const results = await engine.act([
+        { type: 'archive', taskId: 'done', message: 'Archive "Done"' },
+        { type: 'break_down', taskId: 'epic', message: 'Break down "Epic"' },
+        { type: 'notify', taskId: 'multiple', message: '2 tasks are overdue' },
+        { type: 'break_down', taskId: 'epic', message: 'Again' }
+      ], { notify });
+
+      expect(results.map(r => [r.type, r.success, r.detail])).toEqual([
+        ['archive', true, undefined],
+        ['break_down', true, 'Split into 3 subtasks'],
+        ['notify', true, undefined],
+        ['break_down', false, '"Epic" already has subtasks']
+      ]);
+      expect(notify).toHaveBeenCalledWith('Tasky', '2 tasks are overdue');
+      expect((await engine.getTask('done')).data!.status).toBe(TaskStatus.ARCHIVED);
+      const subtasks = (await engine.getSubtasks('epic')).data!;
+      expect(subtasks.map(t => [t.schema.title, t.schema.estimatedDuration])).toEqual([
+        ['Epic (part 1 of 3)', 50], ['Epic (part 2 of 3)', 50], ['Epic (part 3 of 3)', 50]
+      ]);
+      expect(engine.getUndoState()).toMatchObject({ undoLabel: 'Break down "Epic"' });
+    });
+
+    it('turns open checklist items into subtasks and fails notify without a notifier', async () => {
+      storage = createMockStorage([makeTask({
+        schema: { id: 'launch', title: 'Launch', createdAt: new Date(), checklist: [{ id: 'a', text: 'Write copy', done: true }, { id: 'b', text: 'Deploy', done: false }] }
+      })]);
+      engine = new TaskyEngine(undefined, storage);
+      await engine.initialize();
+
+      const [broken, notified] = await engine.act([
+        { type: 'break_down', taskId: 'launch', message: 'Break down "Launch"' },
+        { type: 'notify', taskId: 'launch', message: 'Hi' }
+      ]);
+      expect(broken).toMatchObject({ success: true, createdTaskIds: [expect.any(String)] });
+      expect((await engine.getSubtasks('launch')).data!.map(t => t.schema.title)).toEqual(['Deploy']);
+      expect((await engine.getTask('launch')).data!.schema.checklist!.map(i => i.text)).toEqual(['Write copy']);
+      expect(notified).toMatchObject({ success: false, detail: 'Notifications are not available' });
+    });
+  });
+
+  // ---- event log ----
+  describe('event log', () => {
+    // Shared between engines like the SQLite events table is between processes
+    function withEventLog(target: ITaskStorage, log: TaskEventRecord[] = []): TaskEventRecord[] {
+      target.appendEvent = vi.fn().mockImplementation(async (event: Omit<TaskEventRecord, 'seq'>) => {
+        log.push({ ...event, seq: log.length + 1 } as TaskEventRecord);
+        return { success: true, data: log.length };
+      });
+      target.getEvents = vi.fn().mockImplementation(async (query: TaskEventQuery = {}) => {
+        const events = log.filter(e => e.seq > (query.after ?? 0) && (!query.types || query.types.some(t => matchesEventPattern(t, e.type))));
+        return { success: true, data: events.slice(0, query.limit ?? events.length) };
+      });
+      target.getLatestEventSeq = vi.fn().mockImplementation(async () => ({ success: true, data: log.length }));
+      return log;
+    }
+
+    it('records every emission with a seq but not changes other processes already logged', async () => {
+      const log = withEventLog(storage);
+      storage.readExternalChanges = vi.fn().mockResolvedValue({
+        success: true,
+        data: [{ seq: 1, taskId: 'x', op: 'delete', fields: [], changedAt: new Date() }]
+      });
+      const task = (await engine.createTask({ title: 'Write docs' })).data!;
+      await engine.updateTask(task.schema.id, { status: TaskStatus.COMPLETED });
+      await engine.syncExternalChanges();
+
+      const events = (await engine.getEvents({ types: ['task:*'] })).data!;
+      expect(events.map(e => [e.seq, e.type, e.taskId])).toEqual([
+        [1, 'task:created', task.schema.id], [2, 'task:updated', task.schema.id], [3, 'task:completed', task.schema.id]
+      ]);
+      expect(log).toHaveLength(3);
+      expect((await engine.getEvents({ after: 1, types: ['task:completed'] })).data!.map(e => e.seq)).toEqual([3]);
+      expect((await engine.getEvents({ types: ['task:[cu]*'] })).error).toContain('is not an event name or pattern');
+    });
+
+    it('replays events in pages and stops at a failing handler', async () => {
+      const log = withEventLog(storage);
+      for (let i = 0; i < 3; i++) await engine.createTask({ title: `Task ${i}` });
+
+      const seen: number[] = [];
+      const replay = await engine.replayEvents(e => { seen.push(e.seq); }, { after: 1 });
+      expect(replay).toMatchObject({ success: true, data: { count: 2, cursor: 3 } });
+      expect(seen).toEqual([2, 3]);
+
+      const failed = await engine.replayEvents(async e => { if (e.seq === 2) throw new Error('bad row'); });
+      expect(failed).toMatchObject({ success: false, data: { count: 1, cursor: 1 }, error: 'Replay stopped after event 1: bad row' });
+      expect(log).toHaveLength(3);
+
+      const none = await new TaskyEngine(undefined, createMockStorage()).replayEvents(() => {});
+      expect(none.error).toBe('The event log is not supported by this storage');
+    });
+
+    it('resumes subscribers from a cursor, isolating handler errors, and sees other processes\' events', async () => {
+      const log = withEventLog(storage);
+      await engine.createTask({ title: 'Before' });
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const seen: string[] = [];
+      const subscription = (await engine.subscribeEvents(async e => {
+        if (e.type === 'task:updated') throw new Error('handler failed');
+        seen.push(`${e.seq}:${e.type}`);
+      }, { after: 0, pollMs: 0 })).data!;
+
+      const task = (await engine.createTask({ title: 'After' })).data!;
+      await engine.updateTask(task.schema.id, { title: 'After all' });
+      await subscription.flush();
+      expect(seen).toEqual(['1:task:created', '2:task:created']);
+      expect(subscription.cursor).toBe(3);
+      expect(errorSpy).toHaveBeenCalledWith('Error in event subscriber for task:updated (seq 3):', expect.any(Error));
+
+      // The MCP agent's engine writes to the same log
+      const agentStorage = createMockStorage([makeTask({ schema: { id: 'shared', title: 'Shared', createdAt: new Date() } })]);
+      withEventLog(agentStorage, log);
+      const agent = new TaskyEngine(undefined, agentStorage);
+      await agent.initialize();
+      await agent.deleteTask('shared', 'mcp');
+      await subscription.flush();
+      expect(seen).toEqual(['1:task:created', '2:task:created', '4:task:deleted']);
+
+      const fromNow = (await engine.subscribeEvents(e => { seen.push(e.type); }, { types: ['task:created'], pollMs: 0 })).data!;
+      expect(fromNow.cursor).toBe(4);
+      subscription.stop();
+      await engine.createTask({ title: 'Later' });
+      await fromNow.flush();
+      expect(seen).toEqual(['1:task:created', '2:task:created', '4:task:deleted', 'task:created']);
+      fromNow.stop();
+      errorSpy.mockRestore();
+    });
+  });
+
+  // ---- workflow ----
+  describe('status workflow', () => {
+    function withWorkflow(target: ITaskStorage): { current?: TaskWorkflow } {
+      const saved: { current?: TaskWorkflow } = {};
+      target.getWorkflow = vi.fn().mockImplementation(async () => ({ success: true, data: saved.current ?? DEFAULT_TASK_WORKFLOW }));
+      target.saveWorkflow = vi.fn().mockImplementation(async (workflow: TaskWorkflow) => {
+        saved.current = workflow;
+        return { success: true };
+      });
+      return saved;
+    }
+
+    const teamWorkflow: TaskWorkflow = {
+      statuses: [...DEFAULT_TASK_WORKFLOW.statuses, { id: 'BLOCKED', label: 'Blocked' }, { id: 'IN_QA', label: 'In QA' }],
+      rules: [{ to: TaskStatus.COMPLETED, from: [TaskStatus.NEEDS_REVIEW], agentAssigned: true }]
+    };
+
+    it('allows any built-in move by default and rejects unknown statuses', async () => {
+      const task = (await engine.createTask({ title: 'Anything goes' })).data!;
+      expect((await engine.updateTask(task.schema.id, { status: TaskStatus.COMPLETED })).success).toBe(true);
+
+      const unknown = await engine.updateTask(task.schema.id, { status: 'BLOCKED' });
+      expect(unknown.error).toMatch(/Unknown status "BLOCKED"/);
+      expect((await engine.saveWorkflow(teamWorkflow)).error).toMatch(/not supported/);
+    });
+
+    it('enforces transition rules for agent-assigned tasks', async () => {
+      withWorkflow(storage);
+      expect((await engine.saveWorkflow(teamWorkflow)).success).toBe(true);
+      const agentTask = (await engine.createTask({ title: 'Agent work', assignedAgent: 'claude' })).data!;
+      const humanTask = (await engine.createTask({ title: 'Human work' })).data!;
+
+      const refused = await engine.updateTask(agentTask.schema.id, { status: TaskStatus.COMPLETED });
+      expect(refused.success).toBe(false);
+      expect(refused.error).toMatch(/COMPLETED can only be reached from NEEDS_REVIEW for agent-assigned tasks/);
+      expect((await engine.updateTask(humanTask.schema.id, { status: TaskStatus.COMPLETED })).success).toBe(true);
+
+      expect((await engine.updateTask(agentTask.schema.id, { status: 'IN_QA' })).success).toBe(true);
+      expect((await engine.updateTask(agentTask.schema.id, { status: TaskStatus.NEEDS_REVIEW })).success).toBe(true);
+      expect((await engine.reviewTask(agentTask.schema.id, { decision: 'approve', reviewer: 'sam' })).success).toBe(true);
+
+      // Undo restores the earlier status without checking the rules
+      expect((await engine.undo()).success).toBe(true);
+      expect((await engine.getTask(agentTask.schema.id)).data!.status).toBe(TaskStatus.NEEDS_REVIEW);
+    });
+
+    it('keeps statuses that tasks still use and counts custom ones as open', async () => {
+      storage = createMockStorage([makeTask({ schema: { id: 'ci', title: 'Waiting on CI', createdAt: new Date(), dueDate: new Date(Date.now() - 60_000) } })]);
+      engine = new TaskyEngine(undefined, storage);
+      withWorkflow(storage);
+      await engine.saveWorkflow(teamWorkflow);
+      expect((await engine.updateTask('ci', { status: 'BLOCKED' })).success).toBe(true);
+
+      const removed = await engine.saveWorkflow({ ...teamWorkflow, statuses: teamWorkflow.statuses.filter(s => s.id !== 'BLOCKED') });
+      expect(removed.error).toMatch(/still used by tasks can't be removed: BLOCKED/);
+      expect((await engine.getWorkflow()).data!.statuses.map(s => s.id)).toContain('BLOCKED');
+
+      const stats = (await engine.getTaskStats()).data!;
+      expect(stats.byStatus.BLOCKED).toBe(1);
+      expect(stats.overdueCount).toBe(1);
+    });
+  });
+
+  // ---- review gate ----
+  describe('reviewTask()', () => {
+    it('only completes agent work through an approval', async () => {
+      const task = (await engine.createTask({ title: 'Agent work', assignedAgent: 'claude' })).data!;
+      const refused = await engine.updateTask(task.schema.id, { status: TaskStatus.COMPLETED });
+      expect(refused.error).toMatch(/needs a reviewer's approval/);
+      expect((await engine.reviewTask(task.schema.id, { decision: 'approve', reviewer: 'sam' })).error).toMatch(/not waiting for review/);
+
+      await engine.updateTask(task.schema.id, { status: TaskStatus.NEEDS_REVIEW, actor: 'automation' });
+      const completed = vi.fn();
+      engine.getEventBus().on('task:completed', completed);
+      const approved = (await engine.reviewTask(task.schema.id, { decision: 'approve', reviewer: 'sam' })).data!;
+      expect(approved.status).toBe(TaskStatus.COMPLETED);
+      expect(approved).toMatchObject({ humanApproved: true, approvedBy: 'sam' });
+      expect(approved.approvedAt).toBeInstanceOf(Date);
+      expect(completed).toHaveBeenCalledTimes(1);
+    });
+
+    it('sends rejected work back with the feedback and clears old approvals', async () => {
+      const task = (await engine.createTask({ title: 'Agent work', description: 'Fix the parser', assignedAgent: 'gemini' })).data!;
+      await engine.updateTask(task.schema.id, { status: TaskStatus.NEEDS_REVIEW });
+      expect((await engine.reviewTask(task.schema.id, { decision: 'reject', reviewer: 'sam' })).error).toMatch(/what needs to change/);
+
+      const rejected = (await engine.reviewTask(task.schema.id, { decision: 'reject', reviewer: 'sam', comment: 'Add a test' })).data!;
+      expect(rejected.status).toBe(TaskStatus.IN_PROGRESS);
+      expect(rejected.schema.description).toMatch(/^Fix the parser\n\nChanges requested by sam \(\d{4}-\d{2}-\d{2}\): Add a test$/);
+
+      await engine.updateTask(task.schema.id, { status: TaskStatus.NEEDS_REVIEW });
+      await engine.reviewTask(task.schema.id, { decision: 'approve', reviewer: 'sam' });
+      await engine.updateTask(task.schema.id, { status: TaskStatus.IN_PROGRESS });
+      const again = (await engine.updateTask(task.schema.id, { status: TaskStatus.NEEDS_REVIEW })).data!;
+      expect(again.humanApproved).toBe(false);
+      expect(again.approvedBy).toBeUndefined();
+    });
+  });
+
+  // ---- time tracking ----
+  describe('time tracking', () => {
+    function withTimeEntries(target: ITaskStorage): TaskTimeEntry[] {
+      const entries: TaskTimeEntry[] = [];
+      const finish = (endedAt: Date, taskId?: string) => {
+        const running = entries.find(e => !e.endedAt && (!taskId || e.taskId === taskId));
+        if (running) running.endedAt = endedAt;
+        return running ? { ...running } : null;
+      };
+      target.startTimeEntry = vi.fn().mockImplementation(async (taskId: string, startedAt: Date, actor) => {
+        const stopped = finish(startedAt);
+        const entry: TaskTimeEntry = { id: entries.length + 1, taskId, startedAt, source: 'timer', actor };
+        entries.push(entry);
+        return { success: true, data: stopped ? { entry: { ...entry }, stopped } : { entry: { ...entry } } };
+      });
+      target.stopTimeEntry = vi.fn().mockImplementation(async (endedAt: Date, taskId?: string) => ({ success: true, data: finish(endedAt, taskId) }));
+      target.addTimeEntry = vi.fn().mockImplementation(async (entry: Omit<TaskTimeEntry, 'id'>) => {
+        entries.push({ ...entry, id: entries.length + 1 });
+        return { success: true, data: entries[entries.length - 1] };
+      });
+      target.getTimeEntries = vi.fn().mockImplementation(async (taskId?: string) => ({
+        success: true,
+        data: entries.filter(e => !taskId || e.taskId === taskId).map(e => ({ ...e }))
+      }));
+      return entries;
+    }
+
+    it('runs one timer at a time', async () => {
+      withTimeEntries(storage);
+      const a = (await engine.createTask({ title: 'Write spec' })).data!;
+      const b = (await engine.createTask({ title: 'Review PR' })).data!;
+
+      expect((await engine.startTimer(a.schema.id)).data!.entry.taskId).toBe(a.schema.id);
+      expect((await engine.startTimer(a.schema.id)).message).toBe('Timer already running');
+      const switched = await engine.startTimer(b.schema.id, 'mcp');
+      expect(switched.data!.stopped!.taskId).toBe(a.schema.id);
+      expect(switched.warnings![0]).toMatch(/^Stopped the timer on "Write spec" after \d+m$/);
+      expect((await engine.getTimeSummary()).data!.running).toMatchObject({ taskId: b.schema.id, actor: 'mcp' });
+
+      expect((await engine.stopTimer(a.schema.id)).data).toBeNull();
+      expect((await engine.stopTimer()).data!.taskId).toBe(b.schema.id);
+      expect((await engine.stopTimer()).message).toBe('No timer running');
+
+      await engine.updateTask(a.schema.id, { status: TaskStatus.COMPLETED });
+      expect((await engine.startTimer(a.schema.id)).error).toMatch(/is COMPLETED; reopen it/);
+    });
+
+    it('logs manual time, stops the timer on completion and reports estimate vs actual', async () => {
+      withTimeEntries(storage);
+      const task = (await engine.createTask({ title: 'Migrate DB', estimatedDuration: 60 })).data!;
+      const logged = await engine.logTime(task.schema.id, { startedAt: new Date(Date.now() - 2 * 3_600_000), minutes: 90, note: 'schema' });
+      expect(logged.data).toMatchObject({ source: 'manual', note: 'schema', actor: 'ui' });
+      expect((await engine.logTime(task.schema.id, { startedAt: new Date() })).error).toMatch(/either endedAt or minutes/);
+
+      await engine.startTimer(task.schema.id);
+      await engine.updateTask(task.schema.id, { status: TaskStatus.COMPLETED });
+      expect((await engine.getTimeSummary()).data!.running).toBeUndefined();
+
+      const report = (await engine.getTaskAnalytics()).data!.timeTracking;
+      expect(report.compared).toEqual([{ taskId: task.schema.id, title: 'Migrate DB', estimatedMinutes: 60, actualMinutes: 90 }]);
+      expect(report.accuracy).toBe(1.5);
+    });
+
+    it('learns estimate bias from tracked time and corrects new estimates', async () => {
+      withTimeEntries(storage);
+      for (const title of ['Fix login', 'Fix logout', 'Fix signup']) {
+        const task = (await engine.createTask({ title, estimatedDuration: 30, tags: ['bug'] })).data!;
+        await engine.logTime(task.schema.id, { startedAt: new Date(Date.now() - 2 * 3_600_000), minutes: 60 });
+        await engine.updateTask(task.schema.id, { status: TaskStatus.COMPLETED });
+      }
+
+      const estimates = (await engine.getTaskAnalytics()).data!.estimates;
+      expect(estimates.overall).toMatchObject({ samples: 3, ratio: 2 });
+      expect(Object.keys(estimates.byTag)).toEqual(['bug']);
+
+      const suggestion = await engine.suggestDuration({ estimatedDuration: 45, tags: ['bug'] });
+      expect(suggestion.data).toMatchObject({ minutes: 90, estimatedMinutes: 45, basis: 'unassigned tasks tagged bug' });
+      expect((await engine.suggestDuration({ estimatedDuration: 45, assignedAgent: 'claude' })).data!.basis).toBe('completed tasks');
+    });
+
+    it('reports when the storage keeps no time entries', async () => {
+      const task = (await engine.createTask({ title: 'Plain' })).data!;
+      expect((await engine.startTimer(task.schema.id)).error).toMatch(/not supported/);
+      expect((await engine.getTaskAnalytics()).data!.timeTracking.trackedMinutes).toBe(0);
+    });
+  });
+
+  // ---- overdue ----
+  describe('checkOverdue()', () => {
+    it('reports each overdue task once per due date', async () => {
+      const due = new Date(Date.now() + 60_000);
+      const task = (await engine.createTask({ title: 'Late', dueDate: due })).data!;
+      await engine.createTask({ title: 'Later', dueDate: new Date(Date.now() + 3_600_000) });
+      const overdue = vi.fn();
+      engine.getEventBus().on('task:overdue', overdue);
+
+      const inTenMinutes = new Date(due.getTime() + 10 * 60_000);
+      expect((await engine.checkOverdue(inTenMinutes)).map(t => t.schema.title)).toEqual(['Late']);
+      expect(overdue).toHaveBeenCalledWith(expect.objectContaining({ overdueDuration: 10 }));
+      expect(await engine.checkOverdue(inTenMinutes)).toEqual([]);
+
+      const newDue = new Date(due.getTime() + 5 * 60_000);
+      await engine.updateTask(task.schema.id, { dueDate: newDue });
+      expect(await engine.checkOverdue(inTenMinutes)).toHaveLength(1);
+      expect(overdue).toHaveBeenCalledTimes(2);
+    });
+  });
+
   // ---- getLastUpdated ----
   describe('getLastUpdated()', () => {
     it('returns a numeric timestamp', async () => {
@@ -2,25 +2,106 @@ import {
   TaskyTask,
   TaskyTaskSchema,
   TaskStatus,
+  TaskCreatedEvent,
   TaskObservation,
   TaskStrategy,
   TaskAction,
   TaskAnalytics,
   TaskStatistics,
   TaskFilterOptions,
+  TaskQueryResult,
+  TaskSearchResult,
   CreateTaskInput,
   UpdateTaskInput,
   ToolResult,
+  TaskChange,
+  TaskConflictError,
   TaskValidationError,
-  TaskSuggestion,
-  TaskAlert,
-  TaskEventMap
+  TaskEventHandler,
+  TaskEventMap,
+  TaskEventQuery,
+  TaskEventRecord,
+  TaskEventReplay,
+  TaskEventSubscription,
+  TaskProgress,
+  TaskActor,
+  TaskRevision,
+  TaskCommand,
+  TaskCommandStep,
+  TaskUndoResult,
+  TaskUndoState,
+  TaskWrite,
+  TrashPurgeOptions,
+  TrashedTask,
+  TaskReminderLink,
+  TaskConversionOptions,
+  ConvertibleReminder,
+  CreateFromTemplateOptions,
+  TaskTemplate,
+  TaskTemplateInput,
+  TaskTemplateInstance,
+  TaskWorkflow,
+  TaskStatusId,
+  TaskReviewInput,
+  TaskTimeEntry,
+  TaskTimeEntryInput,
+  TaskTimerResult,
+  TaskTimeSummary,
+  DurationSuggestion,
+  DurationSuggestionInput,
+  TaskAnalyticsOptions,
+  TaskStatusChange,
+  AutomationRule,
+  AutomationRuleInput,
+  AutomationRun,
+  AutomationTrigger,
+  AutomationActionResult,
+  AutomationEffects,
+  TaskActionEffects,
+  TaskActionResult,
+  TaskPolicyContext,
+  TaskPolicySettings,
+  BlockedTaskInfo
 } from '../../types/task';
 import { ITaskStorage } from '../storage/ITaskStorage';
 import { TypedEventBus } from './events';
+import {
+  normalizeChecklist,
+  getChildTasks,
+  getOpenDescendants,
+  wouldCreateParentCycle,
+  calculateTaskProgress
+} from '../../lib/task-hierarchy';
+import { findDependencyCycle, getOpenBlockers, topologicalSort } from '../../lib/task-dependencies';
+import { normalizeRecurrence, getNextInstance } from '../../lib/task-recurrence';
+import { queryTaskList, validateTaskFilter } from '../../lib/task-query';
+import { diffTasks } from '../../lib/task-revisions';
+import { UndoStack, addCommandStep, invertCommand } from '../../lib/task-undo';
+import { reminderToTaskInput, taskToReminder } from '../../lib/task-reminder-conversion';
+import { findTemplate, instantiateTemplate, templateSlug, validateTemplate } from '../../lib/task-templates';
+import { DEFAULT_TASK_WORKFLOW, canTransition, isOpenStatus, validateWorkflow } from '../../lib/task-workflow';
+import { TaskReviewOutcome, planReview, requiresApproval } from '../../lib/task-review';
+import { buildTimeReport, entryMinutes, formatMinutes, summarizeTime, validateTimeEntry } from '../../lib/task-time';
+import { analyzeEstimates, suggestDuration } from '../../lib/task-estimates';
+import { buildFlowReport } from '../../lib/task-flow';
+import { EVENT_PAGE_SIZE, MAX_EVENT_LIMIT, eventTaskId, validateEventQuery } from '../../lib/task-events';
+import { DEFAULT_TASK_POLICY_SETTINGS, breakDownTask, getTaskPolicy, validatePolicySettings, withDefaultThresholds } from '../../lib/task-policies';
+import {
+  automationReminder,
+  automationTaskUpdates,
+  describeAutomationAction,
+  fillAutomationText,
+  matchingAutomationRules,
+  validateAutomationRule
+} from '../../lib/task-automation';
 import { v4 as uuidv4 } from 'uuid';
 import { format } from 'date-fns';
 
+// How far ahead checkDueSoon looks, matching the app's due notification
+const DUE_SOON_MINUTES = 15;
+// How often an event subscription looks for events other processes recorded
+const EVENT_POLL_MS = 2000;
+
 /**
  * TaskyEngine
  *
@@ -28,19 +109,54 @@ import { format } from 'date-fns';
  * - Loading/saving tasks via TaskStorage (with date serialization)
  * - CRUD operations with validation and schema/top-level separation
  * - Filtering, analytics, and simple and automated execution.
- * - Emitting typed events for creation/update/completion
+ * - Subtask hierarchy and checklist progress roll-up
+ * - Dependency graph enforcement (no cycles, blocked tasks cannot start)
+ * - Optimistic concurrency on updates (expectedVersion vs metadata.version)
+ * - Recurring tasks (completing one schedules the next instance of the series)
+ * - Trash: deleted tasks can be restored until purged (where the storage keeps a trash)
+ * - Duplicating, bulk updates, and reminder <-> task conversion with a recorded link
+ * - Task templates: {{variables}}, relative due dates and subtasks, created as one undo step
+ * - A configurable status workflow: custom statuses and transition rules checked on update
+ * - A review gate: agent work completes only once a reviewer approves it out of NEEDS_REVIEW
+ * - Time tracking: one running timer at a time, manual entries, estimated vs actual in analytics
+ * - Estimate learning: per-tag and per-agent bias, and corrected estimates for new tasks
+ * - Flow analytics replayed from the status history: cumulative flow, burndown, cycle/lead time
+ * - Automation rules: "when/if/then" rules run against its own events, each run logged
+ * - Pluggable OODA policies (lib/task-policies) for orient/decide, and act() carrying out their actions
+ * - A persistent event log: every event is recorded with a seq, for replay and resumable subscriptions
+ * - Emitting typed events for creation/update/deletion/completion, including
+ *   changes other processes wrote to shared storage (syncExternalChanges), and
+ *   overdue and due-soon events when polled (checkOverdue, checkDueSoon)
  */
 export class TaskyEngine {
   private eventBus = new TypedEventBus<TaskEventMap>();
   private storage: ITaskStorage;
   private tasks: TaskyTask[] = [];
   private lastUpdatedAt: number = Date.now();
+  private undoStack = new UndoStack();
+  // Set while groupChanges runs; changes made meanwhile join it
+  private pendingCommand?: TaskCommand;
+  // Due date (ms) each overdue task was last reported for, so checkOverdue reports it once
+  private reportedOverdue = new Map<string, number>();
+  // Same for tasks reported as due soon by checkDueSoon
+  private reportedDue = new Map<string, number>();
+  // Tasks whose rules are running; the events their changes cause don't run rules again
+  private automating = new Set<string>();
+  // Reloaded with the tasks, since the MCP agent's process can't change it here
+  private workflow: TaskWorkflow = DEFAULT_TASK_WORKFLOW;
+  // Reloaded on observe, for the same reason
+  private policy: TaskPolicySettings = DEFAULT_TASK_POLICY_SETTINGS;
+  // Settles once every event emitted so far is in the event log
+  private eventLog: Promise<void> = Promise.resolve();
+  // Set while syncExternalChanges re-emits changes whose process already logged the events
+  private emittingExternal = false;
 
   constructor(_storagePath?: string, storageImpl?: ITaskStorage) {
     if (!storageImpl) {
       throw new Error('TaskyEngine requires an ITaskStorage implementation');
     }
     this.storage = storageImpl;
+    this.eventBus.on('*', (payload, type) => this.recordEvent(type, payload));
   }
 
   /**
@@ -68,6 +184,7 @@ export class TaskyEngine {
    */
   async observe(): Promise<TaskObservation> {
     await this.loadTasks();
+    await this.loadPolicy();
     const now = new Date();
     
     const pendingTasks = this.tasks.filter(t => t.status === TaskStatus.PENDING);
@@ -81,61 +198,74 @@ export class TaskyEngine {
       completedTasks: completedTasks.length,
       overdueTasks: overdueTasks.length,
       todaysDueTasks: todaysDueTasks.length,
+      blockedTasks: this.collectBlockedTasks().length,
       nextDueTask: this.getNextDueTask(now)
     };
   }
 
   /**
-   * Orient - Analyze current situation and form strategy
+   * Orient - Analyze current situation and form strategy with the chosen policy
    */
   async orient(observation: TaskObservation): Promise<TaskStrategy> {
-    const suggestions = this.generateSuggestions(observation);
-    const alerts = this.generateAlerts(observation);
-    
-    return {
-      focusTask: observation.nextDueTask,
-      suggestedActions: suggestions,
-      urgentAlerts: alerts
-    };
+    const context = this.policyContext(new Date());
+    return getTaskPolicy(this.policy.policy).orient(observation, context);
   }
 
   /**
    * Decide - Choose actions based on strategy
    */
   async decide(strategy: TaskStrategy): Promise<TaskAction[]> {
-    const actions: TaskAction[] = [];
-    
-    // Focus on next due task
-    if (strategy.focusTask) {
-      actions.push({
-        type: 'focus',
-        taskId: strategy.focusTask.schema.id,
-        message: `Focus on: ${strategy.focusTask.schema.title}`,
-        data: { dueDate: strategy.focusTask.schema.dueDate }
-      });
-    }
-    
-    // Handle urgent alerts
-    for (const alert of strategy.urgentAlerts) {
-      if (alert.severity === 'high') {
-        actions.push({
-          type: 'notify',
-          taskId: alert.taskId,
-          message: alert.message,
-          data: { severity: alert.severity }
+    const context = this.policyContext(new Date());
+    return getTaskPolicy(strategy.policy || this.policy.policy).decide(strategy, context);
+  }
+
+  /**
+   * Act - Execute the decided actions, one result per action. Archiving and breaking down
+   * change tasks (break-downs as one undo step each); notifying needs `effects.notify`.
+   */
+  async act(actions: TaskAction[], effects: TaskActionEffects = {}): Promise<TaskActionResult[]> {
+    const results: TaskActionResult[] = [];
+    for (const action of actions) {
+      try {
+        results.push(await this.executeAction(action, effects));
+      } catch (error) {
+        results.push({
+          type: action.type,
+          taskId: action.taskId,
+          success: false,
+          detail: error instanceof Error ? error.message : 'Action failed'
         });
       }
     }
-    
-    return actions;
+    return results;
   }
 
   /**
-   * Act - Execute the decided actions
+   * The chosen OODA policy and thresholds (the default ones until saved).
    */
-  async act(actions: TaskAction[]): Promise<void> {
-    for (const action of actions) {
-      await this.executeAction(action);
+  async getPolicy(): Promise<ToolResult<TaskPolicySettings>> {
+    await this.loadPolicy();
+    return { success: true, data: this.policy };
+  }
+
+  /**
+   * Choose the policy orient/decide use and tune its thresholds.
+   */
+  async savePolicy(input: TaskPolicySettings): Promise<ToolResult<TaskPolicySettings>> {
+    if (!this.storage.savePolicy) {
+      return { success: false, error: 'Policies are not supported by this storage' };
+    }
+    try {
+      const policy = validatePolicySettings(input);
+      const saved = await this.storage.savePolicy(policy);
+      if (!saved.success) return { success: false, error: saved.error };
+      this.policy = policy;
+      return { success: true, data: policy, message: `Policy set to ${getTaskPolicy(policy.policy).label}` };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to save policy'
+      };
     }
   }
 
@@ -143,10 +273,583 @@ export class TaskyEngine {
    * Create a new task
    */
   async createTask(input: CreateTaskInput): Promise<ToolResult<TaskyTask>> {
+    return this.addTask(input, 'user');
+  }
+
+  /**
+   * Create a copy of a task as a new pending task: same details, checklist unticked,
+   * and the due date kept only if it is still ahead.
+   */
+  async duplicateTask(taskId: string, actor: TaskActor = 'ui'): Promise<ToolResult<TaskyTask>> {
+    await this.loadTasks();
+    const source = this.tasks.find(t => t.schema.id === taskId);
+    if (!source) {
+      return { success: false, error: `Task ${taskId} not found` };
+    }
+
+    const { schema } = source;
+    const title = `${schema.title} (copy)`;
+    const input: CreateTaskInput = {
+      title: title.length > 200 ? `${schema.title.slice(0, 200 - ' (copy)'.length - 1)}… (copy)` : title,
+      description: schema.description,
+      dueDate: schema.dueDate && schema.dueDate > new Date() ? schema.dueDate : undefined,
+      tags: [...(schema.tags || [])],
+      affectedFiles: [...(schema.affectedFiles || [])],
+      estimatedDuration: schema.estimatedDuration,
+      dependencies: (schema.dependencies || []).filter(id => this.tasks.some(t => t.schema.id === id)),
+      reminderEnabled: source.reminderEnabled,
+      reminderTime: source.reminderTime,
+      assignedAgent: schema.assignedAgent,
+      executionPath: schema.executionPath,
+      parentId: schema.parentId,
+      checklist: (schema.checklist || []).map(item => ({ text: item.text })),
+      recurrence: schema.recurrence,
+      actor
+    };
+    return this.addTask(input, 'user', `Duplicate "${schema.title}"`);
+  }
+
+  /**
+   * Apply the same updates to several tasks as one undo step. Tasks that can't be updated are
+   * skipped and reported in `warnings`; the call only fails when none could be updated.
+   */
+  async bulkUpdateTasks(taskIds: string[], updates: UpdateTaskInput, label?: string): Promise<ToolResult<TaskyTask[]>> {
+    const updated: TaskyTask[] = [];
+    const warnings: string[] = [];
+    // A single version can't guard several tasks
+    const shared: UpdateTaskInput = { ...updates, expectedVersion: undefined };
+
+    await this.groupChanges(label || `Update ${taskIds.length} task(s)`, async () => {
+      for (const id of taskIds) {
+        const result = await this.updateTask(id, shared);
+        if (result.success && result.data) {
+          updated.push(result.data);
+        } else {
+          warnings.push(`${id}: ${result.error || result.message || 'update failed'}`);
+        }
+      }
+    });
+
+    if (updated.length === 0 && taskIds.length > 0) {
+      return { success: false, error: `No tasks were updated (${warnings.join('; ')})`, warnings };
+    }
+    return {
+      success: true,
+      data: updated,
+      message: `Updated ${updated.length} of ${taskIds.length} task(s)`,
+      warnings: warnings.length > 0 ? warnings : undefined
+    };
+  }
+
+  /**
+   * Create a task from a reminder (its next firing becomes the due date, repeating reminders
+   * become recurring tasks) and record the link. Reminders live outside the engine, so the
+   * caller removes the original afterwards unless `preserveOriginal` is set.
+   */
+  async convertReminderToTask(reminder: ConvertibleReminder, options: TaskConversionOptions = {}): Promise<ToolResult<TaskyTask>> {
+    const input = reminderToTaskInput(reminder);
+    const result = await this.addTask(
+      { ...input, actor: options.actor },
+      'conversion',
+      `Convert reminder "${input.title}" to a task`
+    );
+    if (!result.success || !result.data) return result;
+
+    const warnings = await this.recordReminderLink({
+      direction: 'reminder-to-task',
+      reminderId: reminder.id,
+      taskId: result.data.schema.id,
+      conversionDate: new Date(),
+      preserveOriginal: !!options.preserveOriginal
+    });
+    return { ...result, message: 'Reminder converted to task', warnings: warnings.length > 0 ? warnings : undefined };
+  }
+
+  /**
+   * Turn a task into a reminder. `saveReminder` stores it (the engine doesn't own reminders);
+   * once it has, the link is recorded and the task moved to the trash unless `preserveOriginal` is set.
+   */
+  async convertTaskToReminder(
+    taskId: string,
+    saveReminder: (reminder: ConvertibleReminder) => boolean | Promise<boolean>,
+    options: TaskConversionOptions = {}
+  ): Promise<ToolResult<ConvertibleReminder>> {
+    try {
+      await this.loadTasks();
+      const task = this.tasks.find(t => t.schema.id === taskId);
+      if (!task) {
+        return { success: false, error: `Task ${taskId} not found` };
+      }
+
+      const reminder = taskToReminder(task, uuidv4());
+      if (!(await saveReminder(reminder))) {
+        return { success: false, error: 'Failed to save the reminder' };
+      }
+
+      const warnings = await this.recordReminderLink({
+        direction: 'task-to-reminder',
+        taskId,
+        reminderId: reminder.id,
+        conversionDate: new Date(),
+        preserveOriginal: !!options.preserveOriginal
+      });
+      if (!options.preserveOriginal) {
+        const deleted = await this.deleteTask(taskId, options.actor);
+        if (!deleted.success) warnings.push(`The task was kept: ${deleted.error}`);
+      }
+
+      return {
+        success: true,
+        data: reminder,
+        message: 'Task converted to reminder',
+        warnings: warnings.length > 0 ? warnings : undefined
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to convert task'
+      };
+    }
+  }
+
+  /**
+   * Recorded conversions involving a task and/or reminder, newest first. Empty when the storage keeps none.
+   */
+  async getReminderLinks(filter: { taskId?: string; reminderId?: string }): Promise<ToolResult<TaskReminderLink[]>> {
+    if (!this.storage.getReminderLinks) return { success: true, data: [] };
+    return await this.storage.getReminderLinks(filter);
+  }
+
+  /**
+   * Saved templates, sorted by name. Empty when the storage keeps none.
+   */
+  async getTemplates(): Promise<ToolResult<TaskTemplate[]>> {
+    if (!this.storage.getTemplates) return { success: true, data: [] };
+    return await this.storage.getTemplates();
+  }
+
+  /**
+   * Add a template, or replace the one with `id`. Names must be unique (ignoring case);
+   * new templates get an id derived from the name.
+   */
+  async saveTemplate(input: TaskTemplateInput, id?: string): Promise<ToolResult<TaskTemplate>> {
+    if (!this.storage.saveTemplate) {
+      return { success: false, error: 'Templates are not supported by this storage' };
+    }
+    try {
+      const definition = validateTemplate(input);
+      const existing = await this.getTemplates();
+      if (!existing.success) return { success: false, error: existing.error };
+      const templates = existing.data || [];
+
+      const current = id ? templates.find(t => t.id === id) : undefined;
+      if (id && !current) {
+        return { success: false, error: `Template ${id} not found` };
+      }
+      if (templates.some(t => t.id !== id && t.name.toLowerCase() === definition.name.toLowerCase())) {
+        throw new TaskValidationError(`A template named "${definition.name}" already exists`, 'name');
+      }
+
+      let templateId = id;
+      if (!templateId) {
+        const base = templateSlug(definition.name);
+        templateId = base;
+        for (let n = 2; templates.some(t => t.id === templateId); n++) templateId = `${base}-${n}`;
+      }
+      const now = new Date();
+      const template: TaskTemplate = { ...definition, id: templateId, createdAt: current?.createdAt || now, updatedAt: now };
+
+      const saved = await this.storage.saveTemplate(template);
+      if (!saved.success) return { success: false, error: saved.error };
+      return { success: true, data: template, message: current ? 'Template updated' : 'Template created' };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to save template'
+      };
+    }
+  }
+
+  /**
+   * Remove a template. Tasks already created from it are unaffected.
+   */
+  async deleteTemplate(id: string): Promise<ToolResult<void>> {
+    if (!this.storage.deleteTemplate) {
+      return { success: false, error: 'Templates are not supported by this storage' };
+    }
+    const result = await this.storage.deleteTemplate(id);
+    if (!result.success) return { success: false, error: result.error };
+    if (!result.data) return { success: false, error: `Template ${id} not found` };
+    return { success: true, message: 'Template deleted' };
+  }
+
+  /**
+   * The configured statuses (in board order) and transition rules.
+   */
+  async getWorkflow(): Promise<ToolResult<TaskWorkflow>> {
+    await this.loadWorkflow();
+    return { success: true, data: this.workflow };
+  }
+
+  /**
+   * Replace the workflow. The built-in statuses always stay, and statuses still used by a
+   * task can't be removed. Rules apply to later updates, not to tasks already in a status.
+   */
+  async saveWorkflow(input: TaskWorkflow): Promise<ToolResult<TaskWorkflow>> {
+    if (!this.storage.saveWorkflow) {
+      return { success: false, error: 'Custom workflows are not supported by this storage' };
+    }
+    try {
+      const workflow = validateWorkflow(input);
+      await this.loadTasks();
+      const inUse = Array.from(new Set(this.tasks.map(t => t.status)))
+        .filter(status => !workflow.statuses.some(s => s.id === status));
+      if (inUse.length > 0) {
+        throw new TaskValidationError(`Statuses still used by tasks can't be removed: ${inUse.join(', ')}`, 'statuses');
+      }
+
+      const saved = await this.storage.saveWorkflow(workflow);
+      if (!saved.success) return { success: false, error: saved.error };
+      this.workflow = workflow;
+      this.lastUpdatedAt = Date.now();
+      return { success: true, data: workflow, message: 'Workflow saved' };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to save workflow'
+      };
+    }
+  }
+
+  /**
+   * Saved automation rules, sorted by name. Empty when the storage keeps none.
+   */
+  async getAutomationRules(): Promise<ToolResult<AutomationRule[]>> {
+    if (!this.storage.getAutomationRules) return { success: true, data: [] };
+    return await this.storage.getAutomationRules();
+  }
+
+  /**
+   * Add a rule, or replace the one with `id`. Statuses it mentions must be in the workflow.
+   */
+  async saveAutomationRule(input: AutomationRuleInput, id?: string): Promise<ToolResult<AutomationRule>> {
+    if (!this.storage.saveAutomationRule) {
+      return { success: false, error: 'Automation rules are not supported by this storage' };
+    }
+    try {
+      await this.loadWorkflow();
+      const definition = validateAutomationRule(input, this.workflow.statuses.map(s => s.id));
+      const existing = await this.getAutomationRules();
+      if (!existing.success) return { success: false, error: existing.error };
+      const current = id ? (existing.data || []).find(r => r.id === id) : undefined;
+      if (id && !current) {
+        return { success: false, error: `Rule ${id} not found` };
+      }
+
+      const now = new Date();
+      const rule: AutomationRule = { ...definition, id: current?.id || uuidv4(), createdAt: current?.createdAt || now, updatedAt: now };
+      const saved = await this.storage.saveAutomationRule(rule);
+      if (!saved.success) return { success: false, error: saved.error };
+      return { success: true, data: rule, message: current ? 'Rule updated' : 'Rule created' };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to save rule'
+      };
+    }
+  }
+
+  /**
+   * Remove a rule. Its past runs stay in the log.
+   */
+  async deleteAutomationRule(id: string): Promise<ToolResult<void>> {
+    if (!this.storage.deleteAutomationRule) {
+      return { success: false, error: 'Automation rules are not supported by this storage' };
+    }
+    const result = await this.storage.deleteAutomationRule(id);
+    if (!result.success) return { success: false, error: result.error };
+    if (!result.data) return { success: false, error: `Rule ${id} not found` };
+    return { success: true, message: 'Rule deleted' };
+  }
+
+  /**
+   * Logged rule runs, newest first (all rules, or one). Empty when the storage keeps none.
+   */
+  async getAutomationRuns(options: { ruleId?: string; limit?: number } = {}): Promise<ToolResult<AutomationRun[]>> {
+    if (!this.storage.getAutomationRuns) return { success: true, data: [] };
+    return await this.storage.getAutomationRuns(options);
+  }
+
+  /**
+   * Run the enabled rules for an event against its task, in name order, and log each run.
+   * Task changes are made as 'automation'; reminders and notifications go through `effects`.
+   * Events caused by a rule's own changes don't run rules again, so rules can't loop.
+   */
+  async runAutomationRules<K extends AutomationTrigger>(
+    trigger: K,
+    event: TaskEventMap[K],
+    effects: AutomationEffects = {}
+  ): Promise<ToolResult<Omit<AutomationRun, 'id'>[]>> {
+    const taskId = event.task.schema.id;
+    if (this.automating.has(taskId)) return { success: true, data: [] };
+    this.automating.add(taskId);
+    try {
+      const rules = await this.getAutomationRules();
+      if (!rules.success) return { success: false, error: rules.error };
+      const runs: Omit<AutomationRun, 'id'>[] = [];
+      for (const rule of matchingAutomationRules(rules.data || [], trigger, event)) {
+        runs.push(await this.applyAutomationRule(rule, trigger, taskId, effects));
+      }
+      return { success: true, data: runs };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to run automation rules'
+      };
+    } finally {
+      this.automating.delete(taskId);
+    }
+  }
+
+  /**
+   * Create a task and its subtasks from a template (by id or name) as one undo step. Every input
+   * is checked before anything is written, so a missing variable or bad value creates nothing.
+   */
+  async createFromTemplate(ref: string, options: CreateFromTemplateOptions = {}): Promise<ToolResult<TaskTemplateInstance>> {
+    try {
+      const templates = await this.getTemplates();
+      if (!templates.success) return { success: false, error: templates.error };
+      const template = findTemplate(templates.data || [], ref);
+      if (!template) {
+        return { success: false, error: `Template "${ref}" not found` };
+      }
+
+      await this.loadTasks();
+      const { task: input, subtasks } = instantiateTemplate(template, options.values);
+      const common = { createdBy: options.createdBy, actor: options.actor };
+      [input, ...subtasks].forEach(i => this.validateTaskInput(i));
+      this.validateParent(undefined, options.parentId);
+
+      return await this.groupChanges(`Create "${input.title}" from template`, async () => {
+        const created = await this.addTask({ ...input, ...common, parentId: options.parentId }, 'template');
+        if (!created.success || !created.data) {
+          return { success: false, error: created.error || created.message || 'Failed to create task' };
+        }
+
+        const children: TaskyTask[] = [];
+        const warnings: string[] = [];
+        for (const subtask of subtasks) {
+          const child = await this.addTask({ ...subtask, ...common, parentId: created.data.schema.id }, 'template');
+          if (child.success && child.data) {
+            children.push(child.data);
+          } else {
+            warnings.push(`Subtask "${subtask.title}": ${child.error || child.message || 'not created'}`);
+          }
+        }
+
+        return {
+          success: true,
+          data: { task: created.data, subtasks: children },
+          message: `Created "${created.data.schema.title}" from template "${template.name}"`,
+          warnings: warnings.length > 0 ? warnings : undefined
+        };
+      });
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to create task from template'
+      };
+    }
+  }
+
+  /**
+   * Start a timer on an open task. A timer running on another task is stopped first and
+   * reported in `data.stopped` and `warnings`.
+   */
+  async startTimer(taskId: string, actor: TaskActor = 'ui'): Promise<ToolResult<TaskTimerResult>> {
+    if (!this.storage.startTimeEntry || !this.storage.getTimeEntries) {
+      return { success: false, error: 'Time tracking is not supported by this storage' };
+    }
     try {
+      await this.loadTasks();
+      const task = this.tasks.find(t => t.schema.id === taskId);
+      if (!task) {
+        return { success: false, error: `Task ${taskId} not found` };
+      }
+      if (!isOpenStatus(task.status)) {
+        throw new TaskValidationError(`"${task.schema.title}" is ${task.status}; reopen it to track time`, 'status');
+      }
+      const running = (await this.getTimeSummary()).data?.running;
+      if (running?.taskId === taskId) {
+        return { success: true, data: { entry: running }, message: 'Timer already running' };
+      }
+
+      const result = await this.storage.startTimeEntry(taskId, new Date(), actor);
+      if (!result.success || !result.data) return { success: false, error: result.error };
+      const { stopped } = result.data;
+      const stoppedTitle = stopped && (this.tasks.find(t => t.schema.id === stopped.taskId)?.schema.title || stopped.taskId);
+      return {
+        success: true,
+        data: result.data,
+        message: `Timer started on "${task.schema.title}"`,
+        ...(stopped ? { warnings: [`Stopped the timer on "${stoppedTitle}" after ${formatMinutes(entryMinutes(stopped))}`] } : {})
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to start timer'
+      };
+    }
+  }
+
+  /**
+   * Stop the running timer, or only the given task's. Resolves with null when nothing was running.
+   */
+  async stopTimer(taskId?: string): Promise<ToolResult<TaskTimeEntry | null>> {
+    if (!this.storage.stopTimeEntry) {
+      return { success: false, error: 'Time tracking is not supported by this storage' };
+    }
+    const result = await this.storage.stopTimeEntry(new Date(), taskId);
+    if (!result.success) return { success: false, error: result.error };
+    const entry = result.data ?? null;
+    return {
+      success: true,
+      data: entry,
+      message: entry ? `Timer stopped after ${formatMinutes(entryMinutes(entry))}` : 'No timer running'
+    };
+  }
+
+  /**
+   * Record time spent on a task after the fact.
+   */
+  async logTime(taskId: string, input: TaskTimeEntryInput): Promise<ToolResult<TaskTimeEntry>> {
+    if (!this.storage.addTimeEntry) {
+      return { success: false, error: 'Time tracking is not supported by this storage' };
+    }
+    try {
+      await this.loadTasks();
+      if (!this.tasks.some(t => t.schema.id === taskId)) {
+        return { success: false, error: `Task ${taskId} not found` };
+      }
+      const { startedAt, endedAt, note } = validateTimeEntry(input);
+      const result = await this.storage.addTimeEntry({ taskId, startedAt, endedAt, note, source: 'manual', actor: input.actor || 'ui' });
+      if (!result.success || !result.data) return { success: false, error: result.error };
+      return { success: true, data: result.data, message: `Logged ${formatMinutes(entryMinutes(result.data))}` };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to log time'
+      };
+    }
+  }
+
+  /**
+   * Time entries of one task, or of all tasks, oldest first.
+   */
+  async getTimeEntries(taskId?: string): Promise<ToolResult<TaskTimeEntry[]>> {
+    if (!this.storage.getTimeEntries) return { success: true, data: [] };
+    return await this.storage.getTimeEntries(taskId);
+  }
+
+  async deleteTimeEntry(id: number): Promise<ToolResult<void>> {
+    if (!this.storage.deleteTimeEntry) {
+      return { success: false, error: 'Time tracking is not supported by this storage' };
+    }
+    const result = await this.storage.deleteTimeEntry(id);
+    if (!result.success) return { success: false, error: result.error };
+    if (!result.data) return { success: false, error: `Time entry ${id} not found` };
+    return { success: true, message: 'Time entry deleted' };
+  }
+
+  /**
+   * Tracked minutes per task and the running timer, for the task list.
+   */
+  async getTimeSummary(): Promise<ToolResult<TaskTimeSummary>> {
+    const entries = await this.getTimeEntries();
+    if (!entries.success) return { success: false, error: entries.error };
+    return { success: true, data: summarizeTime(entries.data || []) };
+  }
+
+  /**
+   * A corrected estimate (or, without one, a predicted duration) for a task about to be created,
+   * learned from tracked time on similar completed tasks. Null data until there is enough history.
+   */
+  async suggestDuration(input: DurationSuggestionInput): Promise<ToolResult<DurationSuggestion | null>> {
+    try {
+      await this.loadTasks();
+      const suggestion = suggestDuration(input, this.tasks, await this.getKnownTimeEntries());
+      return { success: true, data: suggestion, ...(suggestion ? {} : { message: 'Not enough tracked history to suggest an estimate' }) };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to suggest an estimate'
+      };
+    }
+  }
+
+  /**
+   * Emit 'task:overdue' for open tasks past their due date. Each task is reported once per due
+   * date, so callers can poll; moving the due date arms it again. Resolves with the tasks reported.
+   */
+  async checkOverdue(now: Date = new Date()): Promise<TaskyTask[]> {
+    await this.loadTasks();
+    const overdue = this.getOverdueTasks(now);
+    const overdueIds = new Set(overdue.map(t => t.schema.id));
+    for (const id of Array.from(this.reportedOverdue.keys())) {
+      if (!overdueIds.has(id)) this.reportedOverdue.delete(id);
+    }
+
+    const reported: TaskyTask[] = [];
+    for (const task of overdue) {
+      const due = new Date(task.schema.dueDate!).getTime();
+      if (this.reportedOverdue.get(task.schema.id) === due) continue;
+      this.reportedOverdue.set(task.schema.id, due);
+      reported.push(task);
+      this.eventBus.emit('task:overdue', { task, overdueDuration: Math.floor((now.getTime() - due) / 60000) });
+    }
+    return reported;
+  }
+
+  /**
+   * Emit 'task:due' for open tasks due within the next `withinMinutes`, once per due date like
+   * checkOverdue. Resolves with the tasks reported.
+   */
+  async checkDueSoon(now: Date = new Date(), withinMinutes: number = DUE_SOON_MINUTES): Promise<TaskyTask[]> {
+    await this.loadTasks();
+    const until = now.getTime() + withinMinutes * 60000;
+    const dueSoon = this.tasks.filter(task => {
+      const due = task.schema.dueDate ? new Date(task.schema.dueDate).getTime() : NaN;
+      return due >= now.getTime() && due <= until && isOpenStatus(task.status);
+    });
+    const dueIds = new Set(dueSoon.map(t => t.schema.id));
+    for (const id of Array.from(this.reportedDue.keys())) {
+      if (!dueIds.has(id)) this.reportedDue.delete(id);
+    }
+
+    const reported: TaskyTask[] = [];
+    for (const task of dueSoon) {
+      const due = new Date(task.schema.dueDate!).getTime();
+      if (this.reportedDue.get(task.schema.id) === due) continue;
+      this.reportedDue.set(task.schema.id, due);
+      reported.push(task);
+      this.eventBus.emit('task:due', { task, timeUntilDue: Math.floor((due - now.getTime()) / 60000) });
+    }
+    return reported;
+  }
+
+  private async addTask(
+    input: CreateTaskInput,
+    source: TaskCreatedEvent['source'],
+    label?: string
+  ): Promise<ToolResult<TaskyTask>> {
+    try {
+      await this.loadTasks();
       this.validateTaskInput(input);
+      this.validateParent(undefined, input.parentId);
       
       const taskId = this.generateTaskId(input.title);
+      const dependencies = this.validateDependencies(taskId, input.dependencies);
+      const recurrence = this.validateRecurrence(input.recurrence, input.dueDate);
       const now = new Date();
       
       const newTask: TaskyTask = {
@@ -160,18 +863,21 @@ export class TaskyEngine {
           tags: input.tags || [],
           affectedFiles: input.affectedFiles || [],
           estimatedDuration: input.estimatedDuration,
-          dependencies: input.dependencies || [],
+          dependencies,
           assignedAgent: input.assignedAgent && (input.assignedAgent === 'gemini' || input.assignedAgent === 'claude')
             ? input.assignedAgent
             : undefined,
-          executionPath: input.executionPath
+          executionPath: input.executionPath,
+          parentId: input.parentId || undefined,
+          checklist: normalizeChecklist(input.checklist),
+          ...(recurrence ? { recurrence, seriesId: taskId, occurrence: 1 } : {})
         },
         status: TaskStatus.PENDING,
         reminderEnabled: input.reminderEnabled || false,
         reminderTime: input.reminderTime,
         metadata: {
           version: 1,
-          createdBy: 'tasky-user',
+          createdBy: input.createdBy || 'tasky-user',
           lastModified: now
         }
       };
@@ -183,11 +889,13 @@ export class TaskyEngine {
 
       this.tasks.push(newTask);
       this.lastUpdatedAt = Date.now();
+      await this.recordRevision('create', input.actor || 'ui', undefined, newTask);
+      this.recordCommand(label || `Create "${newTask.schema.title}"`, [{ taskId, after: newTask }]);
       
       // Emit event
       this.eventBus.emit('task:created', {
         task: newTask,
-        source: 'user'
+        source
       });
 
       return { success: true, data: newTask, message: 'Task created successfully' };
@@ -203,7 +911,41 @@ export class TaskyEngine {
    * Update an existing task
    */
   async updateTask(taskId: string, updates: UpdateTaskInput): Promise<ToolResult<TaskyTask>> {
+    return this.applyUpdate(taskId, updates);
+  }
+
+  /**
+   * Approve or reject a task waiting in NEEDS_REVIEW. Approval completes it and records the
+   * reviewer; rejection needs a comment, which is appended to the description, and sends the
+   * task back to IN_PROGRESS.
+   */
+  async reviewTask(taskId: string, input: TaskReviewInput): Promise<ToolResult<TaskyTask>> {
     try {
+      await this.loadTasks();
+      const task = this.tasks.find(t => t.schema.id === taskId);
+      if (!task) {
+        return { success: false, error: `Task ${taskId} not found` };
+      }
+      const outcome = planReview(task, input);
+      const updates: UpdateTaskInput = { status: outcome.status, actor: input.actor };
+      if (outcome.description !== undefined) updates.description = outcome.description;
+      return await this.applyUpdate(taskId, updates, outcome.approval);
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to review task'
+      };
+    }
+  }
+
+  // `approval` is only passed by reviewTask; it is the one way gated tasks reach COMPLETED
+  private async applyUpdate(
+    taskId: string,
+    updates: UpdateTaskInput,
+    approval?: TaskReviewOutcome['approval']
+  ): Promise<ToolResult<TaskyTask>> {
+    try {
+      await this.loadTasks();
       const taskIndex = this.tasks.findIndex(t => t.schema.id === taskId);
       if (taskIndex === -1) {
         return { success: false, error: `Task ${taskId} not found` };
@@ -212,6 +954,26 @@ export class TaskyEngine {
       const existingTask = this.tasks[taskIndex];
       const previousStatus = existingTask.status;
       const now = new Date();
+      const warnings: string[] = [];
+
+      const { expectedVersion, actor = 'ui', ...fieldUpdates } = updates || {};
+      updates = fieldUpdates;
+      if (expectedVersion !== undefined) {
+        if (!Number.isInteger(expectedVersion) || expectedVersion < 1) {
+          throw new TaskValidationError('expectedVersion must be a positive whole number', 'expectedVersion');
+        }
+        const currentVersion = existingTask.metadata?.version || 1;
+        if (expectedVersion !== currentVersion) {
+          throw new TaskConflictError(taskId, expectedVersion, currentVersion, existingTask);
+        }
+      }
+
+      if (updates && 'parentId' in updates && updates.parentId) {
+        this.validateParent(taskId, updates.parentId);
+      }
+      if (updates && 'dependencies' in updates) {
+        updates = { ...updates, dependencies: this.validateDependencies(taskId, updates.dependencies) };
+      }
 
       // Separate schema vs top-level updates to avoid polluting the root
       const schemaFieldNames = new Set<keyof TaskyTaskSchema>([
@@ -223,7 +985,10 @@ export class TaskyEngine {
         'estimatedDuration',
         'dependencies',
         'assignedAgent',
-        'executionPath'
+        'executionPath',
+        'parentId',
+        'checklist',
+        'recurrence'
       ]);
       const topLevelFieldNames = new Set<keyof TaskyTask>([
         'status',
@@ -241,6 +1006,13 @@ export class TaskyEngine {
             // Ensure dueDate stays a Date or undefined
             if (key === 'dueDate') {
               (schemaUpdates as any)[key] = value ? new Date(value as any) : undefined;
+            } else if (key === 'parentId') {
+              schemaUpdates.parentId = value ? String(value) : undefined;
+            } else if (key === 'checklist') {
+              schemaUpdates.checklist = normalizeChecklist(value as any);
+            } else if (key === 'recurrence') {
+              const dueDate = 'dueDate' in updates ? updates.dueDate : existingTask.schema.dueDate;
+              schemaUpdates.recurrence = this.validateRecurrence(value as any, dueDate ? new Date(dueDate as any) : undefined);
             } else {
               (schemaUpdates as any)[key] = value as any;
             }
@@ -262,22 +1034,79 @@ export class TaskyEngine {
           version: (existingTask.metadata?.version || 1) + 1,
           createdBy: existingTask.metadata?.createdBy || 'tasky-user',
           lastModified: now,
-          archivedAt: existingTask.metadata?.archivedAt
+          archivedAt: topLevelUpdates.status === TaskStatus.ARCHIVED && previousStatus !== TaskStatus.ARCHIVED
+            ? now
+            : existingTask.metadata?.archivedAt
         }
       };
 
+      // Starting a series: the first recurring task anchors it
+      if (updatedTask.schema.recurrence && !updatedTask.schema.seriesId) {
+        updatedTask.schema.seriesId = taskId;
+        updatedTask.schema.occurrence = 1;
+      }
+
+      // The workflow decides which statuses exist and which moves are allowed. Undo, redo and
+      // restores write snapshots directly and aren't held to it.
+      if (updates.status !== undefined) {
+        const refused = canTransition(this.workflow, { ...updatedTask, status: previousStatus }, updates.status);
+        if (refused) throw new TaskValidationError(refused, 'status');
+      }
+
+      // Agent work and tasks in review need a reviewer's sign-off to complete
+      if (updates.status === TaskStatus.COMPLETED && previousStatus !== TaskStatus.COMPLETED && !approval && requiresApproval(existingTask)) {
+        throw new TaskValidationError(
+          `"${existingTask.schema.title}" needs a reviewer's approval: move it to NEEDS_REVIEW and approve it there`,
+          'status'
+        );
+      }
+      if (approval) {
+        Object.assign(updatedTask, approval);
+      } else if (updates.status === TaskStatus.NEEDS_REVIEW && previousStatus !== TaskStatus.NEEDS_REVIEW) {
+        // A new review round; the last approval no longer covers the work
+        Object.assign(updatedTask, { humanApproved: false, approvedBy: undefined, approvedAt: undefined });
+      }
+
+      // A task cannot start while any of its dependencies is still open
+      if (updates.status === TaskStatus.IN_PROGRESS && previousStatus !== TaskStatus.IN_PROGRESS) {
+        const blockers = getOpenBlockers(this.tasks, updatedTask);
+        if (blockers.length > 0) {
+          throw new TaskValidationError(
+            `Task is blocked by: ${blockers.map(t => t.schema.title).join(', ')}`,
+            'status'
+          );
+        }
+      }
+
       // Handle completion
       if (updates.status === TaskStatus.COMPLETED && previousStatus !== TaskStatus.COMPLETED) {
         updatedTask.completedAt = now;
+
+        const openSubtasks = getOpenDescendants(this.tasks, taskId);
+        if (openSubtasks.length > 0) {
+          warnings.push(`Completed with ${openSubtasks.length} open subtask(s): ${openSubtasks.map(t => t.schema.title).join(', ')}`);
+        }
+        const openItems = (updatedTask.schema.checklist || []).filter(item => !item.done);
+        if (openItems.length > 0) {
+          warnings.push(`Completed with ${openItems.length} unchecked checklist item(s)`);
+        }
       }
 
-      const saveResult = await this.storage.saveTask(updatedTask);
+      const saveResult = await this.storage.saveTask(updatedTask, expectedVersion);
+      // Another process saved between our load and the write
+      if (saveResult.conflict) await this.throwConflict(saveResult.conflict);
       if (!saveResult.success) {
         return { success: false, message: saveResult.message, data: null as any };
       }
 
       this.tasks[taskIndex] = updatedTask;
       this.lastUpdatedAt = Date.now();
+      await this.recordRevision('update', actor, existingTask, updatedTask);
+      // Time stops counting once a task is done or shelved
+      if (this.storage.stopTimeEntry && isOpenStatus(previousStatus) && !isOpenStatus(updatedTask.status)) {
+        await this.storage.stopTimeEntry(now, taskId);
+      }
+      const steps: TaskCommandStep[] = [{ taskId, before: existingTask, after: updatedTask }];
       
       // Emit events
       this.eventBus.emit('task:updated', {
@@ -286,6 +1115,7 @@ export class TaskyEngine {
         changes: Object.keys(updates)
       });
 
+      let message = 'Task updated successfully';
       if (updates.status === TaskStatus.COMPLETED && previousStatus !== TaskStatus.COMPLETED) {
         const duration = this.calculateCompletionDuration(updatedTask);
         this.eventBus.emit('task:completed', {
@@ -293,10 +1123,23 @@ export class TaskyEngine {
           duration,
           completionMethod: 'manual'
         });
+
+        const next = await this.spawnNextOccurrence(updatedTask);
+        if (next) {
+          message += `; next occurrence due ${next.schema.dueDate!.toISOString()}`;
+          steps.push({ taskId: next.schema.id, after: next });
+        }
       }
+      this.recordCommand(`Update "${updatedTask.schema.title}"`, steps);
 
-      return { success: true, data: updatedTask, message: 'Task updated successfully' };
+      return {
+        success: true,
+        data: updatedTask,
+        message,
+        ...(warnings.length > 0 ? { warnings } : {})
+      };
     } catch (error) {
+      if (error instanceof TaskConflictError) return this.conflictResult(error);
       return {
         success: false,
         error: error instanceof Error ? error.message : 'Failed to update task'
@@ -305,25 +1148,57 @@ export class TaskyEngine {
   }
 
   /**
-   * Delete a task
+   * Delete a task. Its subtasks move up to its parent and it drops out of other tasks'
+   * dependency lists, in one transaction with the delete where the storage supports it.
    */
-  async deleteTask(taskId: string): Promise<ToolResult<void>> {
+  async deleteTask(taskId: string, actor: TaskActor = 'ui'): Promise<ToolResult<void>> {
     try {
-      const taskIndex = this.tasks.findIndex(t => t.schema.id === taskId);
-      if (taskIndex === -1) {
+      await this.loadTasks();
+      const deleted = this.tasks.find(t => t.schema.id === taskId);
+      if (!deleted) {
         return { success: false, error: `Task ${taskId} not found` };
       }
 
-      const deleteResult = await this.storage.deleteTask(taskId);
-      if (!deleteResult.success) {
-        return deleteResult;
+      const relinks = new Map<string, Partial<TaskyTaskSchema>>();
+      for (const child of getChildTasks(this.tasks, taskId)) {
+        relinks.set(child.schema.id, { parentId: deleted.schema.parentId });
+      }
+      for (const dependent of this.tasks.filter(t => t.schema.dependencies?.includes(taskId))) {
+        const dependencies = dependent.schema.dependencies!.filter(id => id !== taskId);
+        relinks.set(dependent.schema.id, { ...relinks.get(dependent.schema.id), dependencies });
+      }
+      const now = new Date();
+      const steps: TaskCommandStep[] = Array.from(relinks, ([id, schemaUpdates]) => {
+        const before = this.tasks.find(t => t.schema.id === id)!;
+        return { taskId: id, before, after: this.withNextVersion(before, schemaUpdates, now) };
+      });
+
+      // The delete goes first, while the storage can still see which tasks link to it (the
+      // trash keeps them for a restore)
+      const writeResult = await this.applyWrites([
+        { taskId, expectedVersion: deleted.metadata?.version || 1 },
+        ...steps.map(step => ({ taskId: step.taskId, task: step.after, expectedVersion: step.before!.metadata?.version || 1 }))
+      ]);
+      if (writeResult.conflict) await this.throwConflict(writeResult.conflict);
+      if (!writeResult.success) {
+        return { success: false, error: writeResult.error || 'Failed to delete task' };
       }
+      if (this.storage.stopTimeEntry) await this.storage.stopTimeEntry(now, taskId);
 
-      this.tasks.splice(taskIndex, 1);
+      for (const step of steps) {
+        this.tasks[this.tasks.findIndex(t => t.schema.id === step.taskId)] = step.after!;
+        await this.recordRevision('update', actor, step.before, step.after);
+      }
+      this.tasks.splice(this.tasks.findIndex(t => t.schema.id === taskId), 1);
       this.lastUpdatedAt = Date.now();
+      await this.recordRevision('delete', actor, deleted, undefined);
+      steps.push({ taskId, before: deleted });
+      this.recordCommand(`Delete "${deleted.schema.title}"`, steps);
+      this.eventBus.emit('task:deleted', { taskId, task: deleted });
       
-      return { success: true, message: 'Task deleted successfully' };
+      return { success: true, message: this.storage.getTrashedTasks ? 'Task moved to trash' : 'Task deleted successfully' };
     } catch (error) {
+      if (error instanceof TaskConflictError) return this.conflictResult(error);
       return {
         success: false,
         error: error instanceof Error ? error.message : 'Failed to delete task'
@@ -331,111 +1206,379 @@ export class TaskyEngine {
     }
   }
 
+  /**
+   * A task's revision history, newest first. Empty when the storage keeps no history.
+   */
+  async getTaskRevisions(taskId: string): Promise<ToolResult<TaskRevision[]>> {
+    if (!this.storage.getRevisions) return { success: true, data: [] };
+    return await this.storage.getRevisions(taskId);
+  }
+
+  /**
+   * Put a task back the way it was at `revisionId`, re-creating it if it was deleted since.
+   * Parent and dependency links to tasks that no longer exist are dropped. The restore is
+   * itself recorded as a revision, so it can be undone the same way.
+   */
+  async restoreTaskRevision(taskId: string, revisionId: number, actor: TaskActor = 'ui'): Promise<ToolResult<TaskyTask>> {
+    try {
+      if (!this.storage.getRevisions) {
+        return { success: false, error: 'Task history is not available' };
+      }
+      const history = await this.storage.getRevisions(taskId);
+      if (!history.success) {
+        return { success: false, error: history.error };
+      }
+      const revision = (history.data || []).find(r => r.id === revisionId);
+      if (!revision) {
+        return { success: false, error: `Revision ${revisionId} of task ${taskId} not found` };
+      }
+
+      await this.loadTasks();
+      const existingIndex = this.tasks.findIndex(t => t.schema.id === taskId);
+      const existing = existingIndex === -1 ? undefined : this.tasks[existingIndex];
+      const currentVersion = existing ? existing.metadata?.version || 1 : 0;
+      const restored = this.reviveSnapshot(revision.snapshot, currentVersion);
+
+      // Version 0 means "must not exist": a deleted task that someone re-created meanwhile conflicts
+      const saveResult = await this.storage.saveTask(restored, currentVersion);
+      if (saveResult.conflict) await this.throwConflict(saveResult.conflict);
+      if (!saveResult.success) {
+        return { success: false, error: saveResult.error || 'Failed to restore task' };
+      }
+
+      if (existing) {
+        this.tasks[existingIndex] = restored;
+      } else {
+        this.tasks.push(restored);
+      }
+      this.lastUpdatedAt = Date.now();
+      const changes = await this.recordRevision('restore', actor, existing, restored);
+      this.recordCommand(`Restore "${restored.schema.title}"`, [{ taskId, before: existing, after: restored }]);
+
+      if (existing) {
+        this.eventBus.emit('task:updated', { task: restored, previousStatus: existing.status, changes: Object.keys(changes) });
+      } else {
+        this.eventBus.emit('task:created', { task: restored, source: 'restore' });
+      }
+
+      return { success: true, data: restored, message: `Task restored to revision ${revisionId}` };
+    } catch (error) {
+      if (error instanceof TaskConflictError) return this.conflictResult(error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to restore task'
+      };
+    }
+  }
+
+  /**
+   * Tasks in the trash, most recently deleted first. Empty when the storage keeps no trash.
+   */
+  async getTrash(): Promise<ToolResult<TrashedTask[]>> {
+    if (!this.storage.getTrashedTasks) return { success: true, data: [] };
+    return await this.storage.getTrashedTasks();
+  }
+
+  /**
+   * Bring a task back from the trash. As with revisions, links to tasks that no longer exist
+   * are dropped. Its subtasks and dependents at the time of the delete are linked to it again
+   * (see relinkRestoredTask), in the same transaction.
+   */
+  async restoreFromTrash(taskId: string, actor: TaskActor = 'ui'): Promise<ToolResult<TaskyTask>> {
+    try {
+      const trash = await this.getTrash();
+      if (!trash.success) {
+        return { success: false, error: trash.error };
+      }
+      const entry = (trash.data || []).find(t => t.task.schema.id === taskId);
+      if (!entry) {
+        return { success: false, error: `Task ${taskId} is not in the trash` };
+      }
+
+      await this.loadTasks();
+      const restored = this.reviveSnapshot(entry.task, entry.task.metadata?.version || 1);
+      const relinked = this.relinkRestoredTask(restored, entry);
+
+      // Saving takes it out of the trash; version 0 fails if a task with this id exists again
+      const writeResult = await this.applyWrites([
+        { taskId, task: restored, expectedVersion: 0 },
+        ...relinked.map(step => ({ taskId: step.taskId, task: step.after, expectedVersion: step.before!.metadata?.version || 1 }))
+      ]);
+      if (writeResult.conflict) await this.throwConflict(writeResult.conflict);
+      if (!writeResult.success) {
+        return { success: false, error: writeResult.error || 'Failed to restore task' };
+      }
+
+      this.tasks.push(restored);
+      this.lastUpdatedAt = Date.now();
+      await this.recordRevision('restore', actor, undefined, restored);
+      for (const step of relinked) {
+        this.tasks[this.tasks.findIndex(t => t.schema.id === step.taskId)] = step.after!;
+        await this.recordRevision('update', actor, step.before, step.after);
+      }
+      this.recordCommand(`Restore "${restored.schema.title}" from trash`, [{ taskId, after: restored }, ...relinked]);
+      this.eventBus.emit('task:created', { task: restored, source: 'restore' });
+
+      return { success: true, data: restored, message: 'Task restored from trash' };
+    } catch (error) {
+      if (error instanceof TaskConflictError) return this.conflictResult(error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to restore task'
+      };
+    }
+  }
+
+  /**
+   * Permanently delete trashed tasks: the given ids, those deleted before a date, or all.
+   * Resolves with how many were purged.
+   */
+  async purgeTrash(options: TrashPurgeOptions = {}): Promise<ToolResult<number>> {
+    if (!this.storage.purgeTrashedTasks) return { success: true, data: 0 };
+    return await this.storage.purgeTrashedTasks(options);
+  }
+
+  /**
+   * Run several changes as one undo step, e.g. a bulk status update or an import.
+   * Nested calls join the outer group.
+   */
+  async groupChanges<T>(label: string, run: () => Promise<T>): Promise<T> {
+    if (this.pendingCommand) return run();
+    const command: TaskCommand = { label, steps: [] };
+    this.pendingCommand = command;
+    try {
+      return await run();
+    } finally {
+      this.pendingCommand = undefined;
+      if (command.steps.length > 0) this.undoStack.push(command);
+    }
+  }
+
+  /**
+   * Revert the most recent change (all tasks it touched, atomically where the storage supports it).
+   */
+  async undo(actor: TaskActor = 'ui'): Promise<ToolResult<TaskUndoResult>> {
+    return this.replay('undo', actor);
+  }
+
+  /**
+   * Re-apply the most recently undone change.
+   */
+  async redo(actor: TaskActor = 'ui'): Promise<ToolResult<TaskUndoResult>> {
+    return this.replay('redo', actor);
+  }
+
+  getUndoState(): TaskUndoState {
+    return this.undoStack.getState();
+  }
+
   /**
    * Return a cheap monotonically increasing value to detect external changes
    * Check database for actual last modification time to detect external changes
    */
-  getLastUpdated(): number {
-    try {
-      // Try to get the actual last modified time from the database
-      const result = (this.storage as any).getLastModified?.();
-      if (typeof result === 'number') {
-        return result;
-      }
-    } catch {
-      // Fall back to in-memory timestamp if database query fails
+  getLastUpdated(): number {
+    try {
+      // Try to get the actual last modified time from the database
+      const result = (this.storage as any).getLastModified?.();
+      if (typeof result === 'number') {
+        return result;
+      }
+    } catch {
+      // Fall back to in-memory timestamp if database query fails
+    }
+    return this.lastUpdatedAt;
+  }
+
+  /**
+   * Pick up task changes another process (e.g. the MCP agent) committed to shared storage
+   * and emit created/updated/deleted/completed events for them. Callers poll this; it is a
+   * no-op for storages without a change feed.
+   */
+  async syncExternalChanges(): Promise<ToolResult<TaskChange[]>> {
+    try {
+      if (!this.storage.readExternalChanges) return { success: true, data: [] };
+      const feed = await this.storage.readExternalChanges();
+      if (!feed.success) return feed;
+      const changes = feed.data || [];
+      if (changes.length === 0) return { success: true, data: [] };
+
+      const known = new Map(this.tasks.map(t => [t.schema.id, t]));
+      await this.loadTasks();
+      this.lastUpdatedAt = Date.now();
+
+      // Chat and agent writes land here, so they can be undone in the app like its own changes
+      // (a task this engine already reloaded since has no known "before" left to go back to)
+      const steps = Array.from(new Set(changes.map(c => c.taskId)))
+        .map(id => ({ taskId: id, before: known.get(id), after: this.tasks.find(t => t.schema.id === id) }))
+        .filter(step => JSON.stringify(step.before) !== JSON.stringify(step.after));
+      if (steps.length > 0) {
+        const title = (steps[0].after || steps[0].before)!.schema.title;
+        this.recordCommand(steps.length === 1 ? `External change to "${title}"` : `${steps.length} external task changes`, steps);
+      }
+
+      this.emittingExternal = true;
+      try {
+        for (const change of changes) {
+          if (change.op === 'delete') {
+            this.eventBus.emit('task:deleted', { taskId: change.taskId, task: known.get(change.taskId), external: true });
+            continue;
+          }
+          // Rows deleted again later in the same batch have nothing left to report
+          const task = this.tasks.find(t => t.schema.id === change.taskId);
+          if (!task) continue;
+          if (change.op === 'insert') {
+            this.eventBus.emit('task:created', { task, source: 'external' });
+            continue;
+          }
+          const previousStatus = change.previousStatus ?? task.status;
+          this.eventBus.emit('task:updated', { task, previousStatus, changes: change.fields, external: true });
+          if (task.status === TaskStatus.COMPLETED && previousStatus !== TaskStatus.COMPLETED) {
+            this.eventBus.emit('task:completed', {
+              task,
+              duration: this.calculateCompletionDuration(task),
+              completionMethod: 'manual'
+            });
+          }
+        }
+      } finally {
+        this.emittingExternal = false;
+      }
+      return { success: true, data: changes };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to sync external changes'
+      };
+    }
+  }
+
+  /**
+   * Get a single task by ID
+   */
+  async getTask(taskId: string): Promise<ToolResult<TaskyTask>> {
+    try {
+      await this.loadTasks();
+      const task = this.tasks.find(t => t.schema.id === taskId);
+      if (!task) {
+        return { success: false, error: `Task ${taskId} not found` };
+      }
+      
+      return { success: true, data: task };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to get task'
+      };
+    }
+  }
+
+  /**
+   * Get direct subtasks of a task
+   */
+  async getSubtasks(taskId: string): Promise<ToolResult<TaskyTask[]>> {
+    await this.loadTasks();
+    if (!this.tasks.some(t => t.schema.id === taskId)) {
+      return { success: false, error: `Task ${taskId} not found` };
+    }
+    return { success: true, data: getChildTasks(this.tasks, taskId) };
+  }
+
+  /**
+   * Get progress rolled up from subtasks and checklist items
+   */
+  async getTaskProgress(taskId: string): Promise<ToolResult<TaskProgress>> {
+    const task = this.tasks.find(t => t.schema.id === taskId);
+    if (!task) {
+      return { success: false, error: `Task ${taskId} not found` };
+    }
+    return { success: true, data: calculateTaskProgress(task, this.tasks) };
+  }
+
+  /**
+   * Get open tasks that are waiting on unfinished dependencies
+   */
+  async getBlockedTasks(): Promise<ToolResult<BlockedTaskInfo[]>> {
+    try {
+      await this.loadTasks();
+      return { success: true, data: this.collectBlockedTasks() };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to get blocked tasks'
+      };
+    }
+  }
+
+  /**
+   * Get pending tasks whose dependencies are all done, in dependency order
+   */
+  async getReadyTasks(): Promise<ToolResult<TaskyTask[]>> {
+    try {
+      await this.loadTasks();
+      const ready = topologicalSort(this.tasks).filter(task =>
+        task.status === TaskStatus.PENDING && getOpenBlockers(this.tasks, task).length === 0
+      );
+      return { success: true, data: ready };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to get ready tasks'
+      };
+    }
+  }
+
+  /**
+   * Get filtered list of tasks
+   */
+  async getTasks(filters?: TaskFilterOptions): Promise<ToolResult<TaskyTask[]>> {
+    const result = await this.queryTasks(filters);
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error || 'Failed to get tasks' };
     }
-    return this.lastUpdatedAt;
+    return { success: true, data: result.data.tasks };
   }
 
   /**
-   * Get a single task by ID
+   * Filter, sort and page tasks, with the total match count and optional per-status/tag counts.
+   * Storages with queryTasks do this in the database; otherwise the loaded list is filtered.
    */
-  async getTask(taskId: string): Promise<ToolResult<TaskyTask>> {
+  async queryTasks(filters: TaskFilterOptions = {}): Promise<ToolResult<TaskQueryResult>> {
     try {
-      const task = this.tasks.find(t => t.schema.id === taskId);
-      if (!task) {
-        return { success: false, error: `Task ${taskId} not found` };
+      validateTaskFilter(filters);
+      if (this.storage.queryTasks) {
+        return await this.storage.queryTasks(filters);
       }
-      
-      return { success: true, data: task };
+      await this.loadTasks();
+      return { success: true, data: queryTaskList(this.tasks, filters) };
     } catch (error) {
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Failed to get task'
+        error: error instanceof Error ? error.message : 'Failed to query tasks'
       };
     }
   }
 
   /**
-   * Get filtered list of tasks
+   * Full-text search, best matches first. `filter` narrows the results (status, tags, dates) and
+   * pages them; its search and sort options are ignored. Storages without searchTasks return
+   * unranked substring matches in the usual order.
    */
-  async getTasks(filters?: TaskFilterOptions): Promise<ToolResult<TaskyTask[]>> {
+  async searchTasks(query: string, filter: TaskFilterOptions = {}): Promise<ToolResult<TaskSearchResult>> {
     try {
-      await this.loadTasks();
-      let filteredTasks = [...this.tasks];
-
-      if (filters) {
-        // Apply status filter
-        if (filters.status && filters.status.length > 0) {
-          filteredTasks = filteredTasks.filter(task => filters.status!.includes(task.status));
-        }
-
-        // Apply tags filter
-        if (filters.tags && filters.tags.length > 0) {
-          filteredTasks = filteredTasks.filter(task => 
-            filters.tags!.some(tag => task.schema.tags?.includes(tag))
-          );
-        }
-
-        // Apply search filter
-        if (filters.search) {
-          const searchLower = filters.search.toLowerCase();
-          filteredTasks = filteredTasks.filter(task =>
-            task.schema.title.toLowerCase().includes(searchLower) ||
-            (task.schema.description && task.schema.description.toLowerCase().includes(searchLower)) ||
-            (task.schema.tags && task.schema.tags.some(tag => tag.toLowerCase().includes(searchLower)))
-          );
-        }
-
-        // Apply date filters
-        if (filters.dueDateFrom) {
-          filteredTasks = filteredTasks.filter(task =>
-            task.schema.dueDate && task.schema.dueDate >= filters.dueDateFrom!
-          );
-        }
-
-        if (filters.dueDateTo) {
-          filteredTasks = filteredTasks.filter(task =>
-            task.schema.dueDate && task.schema.dueDate <= filters.dueDateTo!
-          );
-        }
-
-        // Apply pagination
-        if (filters.offset) {
-          filteredTasks = filteredTasks.slice(filters.offset);
-        }
-
-        if (filters.limit) {
-          filteredTasks = filteredTasks.slice(0, filters.limit);
-        }
+      if (!query || !query.trim()) {
+        throw new TaskValidationError('Search query is required', 'search');
       }
-
-      // Sort by due date, then by creation date
-      filteredTasks.sort((a, b) => {
-        if (a.schema.dueDate && b.schema.dueDate) {
-          return a.schema.dueDate.getTime() - b.schema.dueDate.getTime();
-        }
-        if (a.schema.dueDate) return -1;
-        if (b.schema.dueDate) return 1;
-        return b.schema.createdAt.getTime() - a.schema.createdAt.getTime();
-      });
-
-      return { success: true, data: filteredTasks };
+      validateTaskFilter(filter);
+      if (this.storage.searchTasks) {
+        return await this.storage.searchTasks(query, filter);
+      }
+      await this.loadTasks();
+      const { tasks, total } = queryTaskList(this.tasks, { ...filter, search: query, sortBy: undefined, sortOrder: undefined });
+      return { success: true, data: { hits: tasks.map(task => ({ task, score: 0 })), total } };
     } catch (error) {
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Failed to get tasks'
+        error: error instanceof Error ? error.message : 'Failed to search tasks'
       };
     }
   }
@@ -445,18 +1588,35 @@ export class TaskyEngine {
    */
   async getTaskStats(): Promise<ToolResult<TaskStatistics>> {
     try {
-      await this.loadTasks();
       const now = new Date();
+      const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+      const tomorrow = new Date(today.getTime() + 24 * 60 * 60 * 1000);
+      await this.loadWorkflow();
+      const open = this.workflow.statuses.map(s => s.id).filter(isOpenStatus);
+
+      // Counts only (limit 0); completed tasks are the only rows the averages need
+      const [all, completed, overdue, dueToday] = await Promise.all([
+        this.queryTasks({ limit: 0, includeCounts: ['status', 'tags'] }),
+        this.queryTasks({ status: [TaskStatus.COMPLETED] }),
+        this.queryTasks({ status: open, dueDateTo: new Date(now.getTime() - 1), limit: 0 }),
+        this.queryTasks({ status: open, dueDateFrom: today, dueDateTo: new Date(tomorrow.getTime() - 1), limit: 0 })
+      ]);
+      const failed = [all, completed, overdue, dueToday].find(r => !r.success || !r.data);
+      if (failed) throw new Error(failed.error || 'Failed to query tasks');
+
+      const total = all.data!.total;
+      const byStatus = all.data!.counts!.status!;
+      const completedTasks = completed.data!.tasks;
 
       const stats: TaskStatistics = {
-        total: this.tasks.length,
-        byStatus: this.getStatusDistribution(),
-        byTags: this.getTagDistribution(),
-        averageCompletionTime: this.calculateAverageCompletionTime(),
-        completionRate: this.calculateCompletionRate(),
-        overdueCount: this.getOverdueTasks(now).length,
-        dueTodayCount: this.getTodaysDueTasks(now).length,
-        productivityTrend: this.analyzeProductivityTrend()
+        total,
+        byStatus,
+        byTags: all.data!.counts!.tags!,
+        averageCompletionTime: this.calculateAverageCompletionTime(completedTasks),
+        completionRate: total === 0 ? 0 : (byStatus[TaskStatus.COMPLETED] / total) * 100,
+        overdueCount: overdue.data!.total,
+        dueTodayCount: dueToday.data!.total,
+        productivityTrend: this.analyzeProductivityTrend(completedTasks)
       };
 
       return { success: true, data: stats };
@@ -469,18 +1629,25 @@ export class TaskyEngine {
   }
 
   /**
-   * Get detailed task analytics
+   * Get detailed task analytics; `options` sets the period and tag the flow charts cover
    */
-  async getTaskAnalytics(): Promise<ToolResult<TaskAnalytics>> {
+  async getTaskAnalytics(options: TaskAnalyticsOptions = {}): Promise<ToolResult<TaskAnalytics>> {
     try {
       await this.loadTasks();
-      
+      const entries = await this.getKnownTimeEntries();
+
       const analytics: TaskAnalytics = {
         productivity: this.calculateProductivityMetrics(),
         completionRate: this.calculateCompletionRate(),
         averageCompletionTime: this.calculateAverageCompletionTime(),
         taskDistribution: this.getStatusDistribution(),
-        trends: this.calculateTrends()
+        trends: this.calculateTrends(),
+        timeTracking: buildTimeReport(this.tasks, entries),
+        estimates: analyzeEstimates(this.tasks, entries),
+        flow: buildFlowReport(this.tasks, await this.getStatusHistory(), {
+          ...options,
+          statuses: this.workflow.statuses.map(s => s.id)
+        })
       };
 
       return { success: true, data: analytics };
@@ -496,36 +1663,101 @@ export class TaskyEngine {
    * Archive a completed task
    */
   async archiveTask(taskId: string): Promise<ToolResult<void>> {
+    await this.loadTasks();
     const task = this.tasks.find(t => t.schema.id === taskId);
     if (!task) {
       return { success: false, error: `Task ${taskId} not found` };
     }
 
-    return await this.updateTask(taskId, { 
-      status: TaskStatus.ARCHIVED
-    }).then(async result => {
-      if (result.success && result.data) {
-        // Update metadata separately
-        const archivedTask = result.data;
-        archivedTask.metadata = {
-          version: archivedTask.metadata?.version || 1,
-          createdBy: archivedTask.metadata?.createdBy || 'tasky-user',
-          lastModified: new Date(),
-          archivedAt: new Date()
-        };
-        await this.storage.saveTask(archivedTask);
-      }
-      return { success: result.success, error: result.success ? undefined : result.message };
-    });
+    // updateTask stamps archivedAt in the same write, which fails if the task moved on meanwhile
+    const result = await this.updateTask(taskId, { status: TaskStatus.ARCHIVED, expectedVersion: task.metadata?.version || 1 });
+    return { success: result.success, error: result.error, ...(result.conflict ? { conflict: result.conflict } : {}) };
   }
 
   // Private helper methods
 
+  // Storage is the source of truth: the MCP agent writes the same database from another process
   private async loadTasks(): Promise<void> {
     const result = await this.storage.loadAllTasks();
     if (result.success && result.data) {
       this.tasks = result.data;
     }
+    await this.loadWorkflow();
+  }
+
+  // Entries of tasks that still exist; trashed tasks keep theirs for when they are restored
+  private async getStatusHistory(): Promise<TaskStatusChange[]> {
+    if (!this.storage.getStatusHistory) return [];
+    const result = await this.storage.getStatusHistory();
+    return result.success ? result.data || [] : [];
+  }
+
+  private async getKnownTimeEntries(): Promise<TaskTimeEntry[]> {
+    const entries = await this.getTimeEntries();
+    const ids = new Set(this.tasks.map(t => t.schema.id));
+    return entries.success ? (entries.data || []).filter(e => ids.has(e.taskId)) : [];
+  }
+
+  // One rule against the task's current state (an earlier rule may have changed it); every
+  // action gets a result, and the run is logged even when some of them failed
+  private async applyAutomationRule(
+    rule: AutomationRule,
+    trigger: AutomationTrigger,
+    taskId: string,
+    effects: AutomationEffects
+  ): Promise<Omit<AutomationRun, 'id'>> {
+    await this.loadTasks();
+    const task = this.tasks.find(t => t.schema.id === taskId);
+    const results: AutomationActionResult[] = [];
+    if (!task) {
+      results.push(...rule.actions.map(a => ({ type: a.type, success: false, detail: `Task ${taskId} not found` })));
+    } else {
+      const updates = automationTaskUpdates(rule.actions, task);
+      const updated = updates ? await this.updateTask(taskId, { ...updates, actor: 'automation' }) : undefined;
+      for (const action of rule.actions) {
+        if (action.type === 'add-reminder') {
+          const reminder = automationReminder(task, action, uuidv4());
+          const saved = effects.addReminder ? await effects.addReminder(reminder) : false;
+          results.push(saved
+            ? { type: action.type, success: true, detail: `Reminder at ${reminder.time} on ${reminder.days[0]}` }
+            : { type: action.type, success: false, detail: effects.addReminder ? 'Failed to save the reminder' : 'Reminders are not available' });
+        } else if (action.type === 'notify') {
+          if (effects.notify) effects.notify(rule.name, fillAutomationText(action.message || '{{title}}', task));
+          results.push(effects.notify
+            ? { type: action.type, success: true }
+            : { type: action.type, success: false, detail: 'Notifications are not available' });
+        } else if (updated && !updated.success) {
+          results.push({ type: action.type, success: false, detail: updated.error });
+        } else {
+          results.push({ type: action.type, success: true, detail: updated ? describeAutomationAction(action) : 'Already applied' });
+        }
+      }
+    }
+
+    const run: Omit<AutomationRun, 'id'> = {
+      ruleId: rule.id,
+      ruleName: rule.name,
+      trigger,
+      taskId,
+      taskTitle: task?.schema.title || taskId,
+      success: results.every(r => r.success),
+      results,
+      ranAt: new Date()
+    };
+    if (this.storage.saveAutomationRun) await this.storage.saveAutomationRun(run);
+    return run;
+  }
+
+  private async loadWorkflow(): Promise<void> {
+    if (!this.storage.getWorkflow) return;
+    const result = await this.storage.getWorkflow();
+    if (result.success && result.data) this.workflow = result.data;
+  }
+
+  private async loadPolicy(): Promise<void> {
+    if (!this.storage.getPolicy) return;
+    const result = await this.storage.getPolicy();
+    if (result.success && result.data) this.policy = withDefaultThresholds(result.data);
   }
 
   private validateTaskInput(input: CreateTaskInput): void {
@@ -550,6 +1782,296 @@ export class TaskyEngine {
     }
   }
 
+  private validateParent(taskId: string | undefined, parentId: string | undefined | null): void {
+    if (!parentId) return;
+    if (!this.tasks.some(t => t.schema.id === parentId)) {
+      throw new TaskValidationError(`Parent task ${parentId} not found`, 'parentId');
+    }
+    if (taskId && wouldCreateParentCycle(this.tasks, taskId, parentId)) {
+      throw new TaskValidationError('A task cannot be nested under itself or its own subtasks', 'parentId');
+    }
+  }
+
+  private validateRecurrence(input: CreateTaskInput['recurrence'] | null, dueDate?: Date): TaskyTaskSchema['recurrence'] {
+    try {
+      return normalizeRecurrence(input, dueDate);
+    } catch (error) {
+      throw new TaskValidationError(error instanceof Error ? error.message : 'Invalid recurrence rule', 'recurrence');
+    }
+  }
+
+  /**
+   * Create the next instance of a recurring series after `task` was completed.
+   * Returns null when the task does not recur, the series has ended, or the next instance already exists.
+   */
+  private async spawnNextOccurrence(task: TaskyTask): Promise<TaskyTask | null> {
+    const rule = task.schema.recurrence;
+    if (!rule) return null;
+
+    const seriesId = task.schema.seriesId || task.schema.id;
+    const occurrence = task.schema.occurrence || 1;
+    // Re-completing an instance (e.g. after reopening it) must not fork the series
+    if (this.tasks.some(t => t.schema.seriesId === seriesId && (t.schema.occurrence || 1) > occurrence)) {
+      return null;
+    }
+
+    const now = new Date();
+    const next = getNextInstance(rule, task.schema.dueDate || task.completedAt || now, occurrence, now);
+    if (!next) return null;
+
+    const nextTask: TaskyTask = {
+      schema: {
+        ...task.schema,
+        id: this.generateTaskId(task.schema.title),
+        dueDate: next.dueDate,
+        createdAt: now,
+        updatedAt: now,
+        dependencies: [],
+        checklist: (task.schema.checklist || []).map(item => ({ ...item, done: false })),
+        seriesId,
+        occurrence: next.occurrence
+      },
+      status: TaskStatus.PENDING,
+      reminderEnabled: task.reminderEnabled,
+      reminderTime: task.reminderTime,
+      metadata: {
+        version: 1,
+        createdBy: task.metadata?.createdBy || 'tasky-user',
+        lastModified: now
+      }
+    };
+
+    const saveResult = await this.storage.saveTask(nextTask);
+    if (!saveResult.success) return null;
+
+    this.tasks.push(nextTask);
+    await this.recordRevision('create', 'automation', undefined, nextTask);
+    this.eventBus.emit('task:created', { task: nextTask, source: 'recurrence' });
+    return nextTask;
+  }
+
+  // Push a change onto the undo stack, or into the running group
+  private recordCommand(label: string, steps: TaskCommandStep[]): void {
+    const command = this.pendingCommand || { label, steps: [] };
+    for (const step of steps) addCommandStep(command, step);
+    if (!this.pendingCommand && command.steps.length > 0) this.undoStack.push(command);
+  }
+
+  /**
+   * Write one side of the top undo/redo command. If any of its tasks changed since, nothing is
+   * written and the command is dropped, as it can no longer be applied cleanly.
+   */
+  private async replay(direction: 'undo' | 'redo', actor: TaskActor): Promise<ToolResult<TaskUndoResult>> {
+    let command: TaskCommand | undefined;
+    try {
+      // Changes the MCP agent wrote meanwhile are more recent than anything on the stack
+      await this.syncExternalChanges();
+      command = this.undoStack.peek(direction);
+      if (!command) {
+        return { success: false, error: `Nothing to ${direction}` };
+      }
+
+      await this.loadTasks();
+      const { writes, inverse } = invertCommand(command);
+      for (const write of writes) {
+        const current = this.tasks.find(t => t.schema.id === write.taskId);
+        const actualVersion = current ? current.metadata?.version || 1 : 0;
+        if (actualVersion !== write.expectedVersion) {
+          throw new TaskConflictError(write.taskId, write.expectedVersion!, actualVersion, current);
+        }
+      }
+
+      const result = await this.applyWrites(writes);
+      if (result.conflict) await this.throwConflict(result.conflict);
+      if (!result.success) {
+        return { success: false, error: result.error || `Failed to ${direction}` };
+      }
+      this.undoStack.settle(direction, inverse);
+
+      const previous = new Map(this.tasks.map(t => [t.schema.id, t]));
+      await this.loadTasks();
+      this.lastUpdatedAt = Date.now();
+      for (const write of writes) {
+        const before = previous.get(write.taskId);
+        const changes = await this.recordRevision(!write.task ? 'delete' : before ? 'update' : 'create', actor, before, write.task);
+        if (!write.task) {
+          this.eventBus.emit('task:deleted', { taskId: write.taskId, task: before });
+        } else if (!before) {
+          this.eventBus.emit('task:created', { task: write.task, source: 'undo' });
+        } else {
+          this.eventBus.emit('task:updated', { task: write.task, previousStatus: before.status, changes: Object.keys(changes) });
+        }
+      }
+
+      return {
+        success: true,
+        data: { label: command.label, state: this.undoStack.getState() },
+        message: `${direction === 'undo' ? 'Undid' : 'Redid'}: ${command.label}`
+      };
+    } catch (error) {
+      if (error instanceof TaskConflictError && command) {
+        this.undoStack.discard(direction);
+        return this.conflictResult(error, `Cannot ${direction} ${command.label}: the task was changed since`);
+      }
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : `Failed to ${direction}`
+      };
+    }
+  }
+
+  // A task changed as a side effect of another change (e.g. relinked when its parent was
+  // deleted), one version on, so clients holding the old copy get a conflict
+  private withNextVersion(task: TaskyTask, schemaUpdates: Partial<TaskyTaskSchema>, now: Date): TaskyTask {
+    return {
+      ...task,
+      schema: { ...task.schema, ...schemaUpdates, updatedAt: now },
+      metadata: {
+        version: (task.metadata?.version || 1) + 1,
+        createdBy: task.metadata?.createdBy || 'tasky-user',
+        lastModified: now,
+        archivedAt: task.metadata?.archivedAt
+      }
+    };
+  }
+
+  // A conflict as a failed result, with the task as it is now so the caller can merge
+  private conflictResult<T>(error: TaskConflictError, message: string = error.message): ToolResult<T> {
+    return {
+      success: false,
+      error: message,
+      conflict: {
+        taskId: error.taskId,
+        expectedVersion: error.expectedVersion,
+        actualVersion: error.actualVersion,
+        current: error.current
+      }
+    };
+  }
+
+  // A failed write's conflict, with the task as it is now
+  private async throwConflict(conflict: { taskId: string; expectedVersion: number; actualVersion: number }): Promise<never> {
+    await this.loadTasks();
+    const current = this.tasks.find(t => t.schema.id === conflict.taskId);
+    throw new TaskConflictError(conflict.taskId, conflict.expectedVersion, conflict.actualVersion, current);
+  }
+
+  // The subtasks and dependents a trashed task had when it was deleted, linked to it again.
+  // Subtasks only move back while they're still where the delete promoted them; tasks that
+  // are gone, or would end up in a cycle, are left alone.
+  private relinkRestoredTask(restored: TaskyTask, entry: TrashedTask): TaskCommandStep[] {
+    if (!entry.links) return [];
+    const taskId = restored.schema.id;
+    const tasks = [...this.tasks, restored];
+    const now = new Date();
+    const steps: TaskCommandStep[] = [];
+    for (const task of this.tasks) {
+      const id = task.schema.id;
+      const schemaUpdates: Partial<TaskyTaskSchema> = {};
+      if (entry.links.childIds.includes(id) && task.schema.parentId === entry.task.schema.parentId && !wouldCreateParentCycle(tasks, id, taskId)) {
+        schemaUpdates.parentId = taskId;
+      }
+      const dependencies = task.schema.dependencies || [];
+      if (entry.links.dependentIds.includes(id) && !dependencies.includes(taskId) && !findDependencyCycle(tasks, id, [...dependencies, taskId])) {
+        schemaUpdates.dependencies = [...dependencies, taskId];
+      }
+      if (Object.keys(schemaUpdates).length > 0) {
+        steps.push({ taskId: id, before: task, after: this.withNextVersion(task, schemaUpdates, now) });
+      }
+    }
+    return steps;
+  }
+
+  // Storages without applyTaskWrites get the writes one by one
+  private async applyWrites(writes: TaskWrite[]): Promise<ToolResult<void>> {
+    if (this.storage.applyTaskWrites) return this.storage.applyTaskWrites(writes);
+    for (const write of writes) {
+      const result = write.task
+        ? await this.storage.saveTask(write.task, write.expectedVersion)
+        : await this.storage.deleteTask(write.taskId);
+      if (!result.success) return result;
+    }
+    return { success: true };
+  }
+
+  /**
+   * Append a revision for a task change and return the changed fields. History is best-effort:
+   * a failed write never fails the change itself, and updates that changed nothing are skipped.
+   */
+  private async recordRevision(
+    op: TaskRevision['op'],
+    actor: TaskActor,
+    before: TaskyTask | undefined,
+    after: TaskyTask | undefined
+  ): Promise<TaskRevision['changes']> {
+    const changes = diffTasks(before, after);
+    const snapshot = (after || before)!;
+    if (!this.storage.saveRevision || (op === 'update' && Object.keys(changes).length === 0)) return changes;
+    try {
+      await this.storage.saveRevision({ taskId: snapshot.schema.id, op, actor, changes, snapshot, createdAt: new Date() });
+    } catch {
+      // Keep the change; only its history entry is lost
+    }
+    return changes;
+  }
+
+  // Failing to record a link doesn't undo the conversion; it is reported as a warning instead
+  private async recordReminderLink(link: TaskReminderLink): Promise<string[]> {
+    if (!this.storage.saveReminderLink) return [];
+    const result = await this.storage.saveReminderLink(link);
+    return result.success ? [] : [`The conversion link was not recorded: ${result.error}`];
+  }
+
+  // A stored snapshot made current again, one version past `currentVersion`. Parent and
+  // dependency links to tasks that no longer exist are dropped.
+  private reviveSnapshot(snapshot: TaskyTask, currentVersion: number): TaskyTask {
+    const taskId = snapshot.schema.id;
+    const exists = (id: string) => this.tasks.some(t => t.schema.id === id);
+    const parentId = snapshot.schema.parentId && exists(snapshot.schema.parentId) ? snapshot.schema.parentId : undefined;
+    this.validateParent(taskId, parentId);
+    const dependencies = this.validateDependencies(taskId, (snapshot.schema.dependencies || []).filter(exists));
+
+    const now = new Date();
+    return {
+      ...snapshot,
+      schema: { ...snapshot.schema, parentId, dependencies, updatedAt: now },
+      metadata: {
+        version: currentVersion + 1,
+        createdBy: snapshot.metadata?.createdBy || 'tasky-user',
+        lastModified: now,
+        archivedAt: snapshot.metadata?.archivedAt
+      }
+    };
+  }
+
+  /**
+   * Dedupe dependency IDs and reject unknown tasks, self-references and cycles
+   */
+  private validateDependencies(taskId: string, dependencies: string[] | undefined): string[] {
+    const unique = Array.from(new Set((dependencies || []).map(String).filter(Boolean)));
+    for (const depId of unique) {
+      if (depId === taskId) {
+        throw new TaskValidationError('A task cannot depend on itself', 'dependencies');
+      }
+      if (!this.tasks.some(t => t.schema.id === depId)) {
+        throw new TaskValidationError(`Dependency task ${depId} not found`, 'dependencies');
+      }
+    }
+    const cycle = findDependencyCycle(this.tasks, taskId, unique);
+    if (cycle) {
+      const titles = cycle.map(id => this.tasks.find(t => t.schema.id === id)?.schema.title || id);
+      throw new TaskValidationError(`Dependency cycle detected: ${titles.join(' -> ')}`, 'dependencies');
+    }
+    return unique;
+  }
+
+  private collectBlockedTasks(): BlockedTaskInfo[] {
+    return this.tasks
+      .filter(task => task.status !== TaskStatus.COMPLETED && task.status !== TaskStatus.ARCHIVED)
+      .map(task => ({ task, blockedBy: getOpenBlockers(this.tasks, task) }))
+      .filter(info => info.blockedBy.length > 0);
+  }
+
   private generateTaskId(title: string): string {
     const prefix = title
       .toLowerCase()
@@ -598,85 +2120,78 @@ export class TaskyEngine {
     )[0];
   }
 
-  private generateSuggestions(observation: TaskObservation): TaskSuggestion[] {
-    const suggestions: TaskSuggestion[] = [];
-
-    if (observation.overdueTasks > 0) {
-      suggestions.push({
-        type: 'reschedule',
-        taskId: 'multiple',
-        message: `You have ${observation.overdueTasks} overdue tasks`,
-        reasoning: 'Consider rescheduling or breaking down overdue tasks'
-      });
-    }
-
-    if (observation.todaysDueTasks > 5) {
-      suggestions.push({
-        type: 'focus',
-        taskId: 'multiple',
-        message: `${observation.todaysDueTasks} tasks due today`,
-        reasoning: 'Consider prioritizing tasks due today'
-      });
+  private async executeAction(action: TaskAction, effects: TaskActionEffects): Promise<TaskActionResult> {
+    const result = (success: boolean, detail?: string): TaskActionResult => ({ type: action.type, taskId: action.taskId, success, detail });
+    switch (action.type) {
+      case 'focus':
+        return result(true, action.message);
+      case 'notify':
+        if (!effects.notify) return result(false, 'Notifications are not available');
+        effects.notify('Tasky', action.message);
+        return result(true);
+      case 'archive': {
+        const archived = await this.archiveTask(action.taskId);
+        return result(archived.success, archived.error);
+      }
+      case 'break_down':
+        return await this.breakDown(action);
+      default:
+        return result(false, `Unknown action "${(action as { type?: string }).type ?? ''}"`);
     }
-
-    return suggestions;
   }
 
-  private generateAlerts(observation: TaskObservation): TaskAlert[] {
-    const alerts: TaskAlert[] = [];
-
-    if (observation.overdueTasks > 0) {
-      alerts.push({
-        type: 'overdue',
-        taskId: 'multiple',
-        message: `${observation.overdueTasks} tasks are overdue`,
-        severity: 'high'
-      });
-    }
-
-    if (observation.todaysDueTasks > 0) {
-      alerts.push({
-        type: 'due_soon',
-        taskId: 'multiple',
-        message: `${observation.todaysDueTasks} tasks due today`,
-        severity: 'medium'
-      });
-    }
-
-    return alerts;
+  // Subtasks from the action's titles, the task's open checklist items (which they replace) or its estimate
+  private async breakDown(action: TaskAction): Promise<TaskActionResult> {
+    const failed = (detail: string): TaskActionResult => ({ type: 'break_down', taskId: action.taskId, success: false, detail });
+    await this.loadTasks();
+    const task = this.tasks.find(t => t.schema.id === action.taskId);
+    if (!task) return failed(`Task ${action.taskId} not found`);
+    if (getChildTasks(this.tasks, task.schema.id).length > 0) return failed(`"${task.schema.title}" already has subtasks`);
+    const titles = Array.isArray(action.data?.subtasks) ? action.data.subtasks : undefined;
+    const subtasks = breakDownTask(task, this.policy.thresholds.breakDownChunkMinutes, titles);
+    if (subtasks.length === 0) return failed(`Nothing to split "${task.schema.title}" by: add checklist items or an estimate`);
+
+    return await this.groupChanges(`Break down "${task.schema.title}"`, async () => {
+      const createdTaskIds: string[] = [];
+      for (const subtask of subtasks) {
+        const created = await this.addTask({ ...subtask, actor: 'automation' }, 'user');
+        if (!created.success || !created.data) return failed(created.error || created.message || 'Failed to create subtask');
+        createdTaskIds.push(created.data.schema.id);
+      }
+      const fromChecklist = !titles?.length && (task.schema.checklist || []).some(item => !item.done);
+      if (fromChecklist) {
+        const kept = (task.schema.checklist || []).filter(item => item.done);
+        await this.updateTask(task.schema.id, { checklist: kept, actor: 'automation' });
+      }
+      return {
+        type: 'break_down',
+        taskId: task.schema.id,
+        success: true,
+        detail: `Split into ${createdTaskIds.length} subtasks`,
+        createdTaskIds
+      };
+    });
   }
 
-  private async executeAction(_action: TaskAction): Promise<void> {
-    // Implementation would depend on the specific action type
-    // This is where you'd integrate with notification systems, UI updates, etc.
-    // Reduced verbosity: keep engine quiet in production
+  // Storage calls start in emission order; eventLog lets readers wait for them to land
+  private recordEvent<K extends keyof TaskEventMap>(type: K, payload: TaskEventMap[K]): void {
+    if (this.emittingExternal || !this.storage.appendEvent) return;
+    const event = { type, taskId: eventTaskId<K>(payload), payload, emittedAt: new Date() } as Omit<TaskEventRecord, 'seq'>;
+    const appended = this.storage.appendEvent(event)
+      .then(result => { if (!result.success) console.error(`Failed to record ${type}:`, result.error); })
+      .catch(error => console.error(`Failed to record ${type}:`, error));
+    this.eventLog = this.eventLog.then(() => appended);
   }
 
-  private getStatusDistribution(): Record<TaskStatus, number> {
-    const distribution: Record<TaskStatus, number> = {
-      [TaskStatus.PENDING]: 0,
-      [TaskStatus.IN_PROGRESS]: 0,
-      [TaskStatus.COMPLETED]: 0,
-      [TaskStatus.NEEDS_REVIEW]: 0,
-      [TaskStatus.ARCHIVED]: 0
-    };
-
-    for (const task of this.tasks) {
-      distribution[task.status]++;
-    }
-
-    return distribution;
+  private policyContext(now: Date): TaskPolicyContext {
+    return { now, tasks: this.tasks, blocked: this.collectBlockedTasks(), thresholds: this.policy.thresholds };
   }
 
-  private getTagDistribution(): Record<string, number> {
-    const distribution: Record<string, number> = {};
+  private getStatusDistribution(): Record<TaskStatusId, number> {
+    const distribution: Record<TaskStatusId, number> = Object.fromEntries(this.workflow.statuses.map(s => [s.id, 0]));
 
     for (const task of this.tasks) {
-      if (task.schema.tags) {
-        for (const tag of task.schema.tags) {
-          distribution[tag] = (distribution[tag] || 0) + 1;
-        }
-      }
+      distribution[task.status] = (distribution[task.status] || 0) + 1;
     }
 
     return distribution;
@@ -688,8 +2203,8 @@ export class TaskyEngine {
     return (completed / this.tasks.length) * 100;
   }
 
-  private calculateAverageCompletionTime(): number {
-    const completedTasks = this.tasks.filter(t => 
+  private calculateAverageCompletionTime(tasks: TaskyTask[] = this.tasks): number {
+    const completedTasks = tasks.filter(t => 
       t.status === TaskStatus.COMPLETED && t.completedAt
     );
 
@@ -708,22 +2223,22 @@ export class TaskyEngine {
     return task.completedAt.getTime() - task.schema.createdAt.getTime();
   }
 
-  private analyzeProductivityTrend(): 'increasing' | 'decreasing' | 'stable' {
+  private analyzeProductivityTrend(tasks: TaskyTask[] = this.tasks): 'increasing' | 'decreasing' | 'stable' {
     // Simple trend analysis - could be enhanced
-    const last7Days = this.getCompletionTrend(7);
-    const previous7Days = this.getCompletionTrend(14, 7);
+    const last7Days = this.getCompletionTrend(7, 0, tasks);
+    const previous7Days = this.getCompletionTrend(14, 7, tasks);
 
     if (last7Days > previous7Days * 1.1) return 'increasing';
     if (last7Days < previous7Days * 0.9) return 'decreasing';
     return 'stable';
   }
 
-  private getCompletionTrend(days: number, offset: number = 0): number {
+  private getCompletionTrend(days: number, offset: number = 0, tasks: TaskyTask[] = this.tasks): number {
     const now = new Date();
     const startDate = new Date(now.getTime() - (days + offset) * 24 * 60 * 60 * 1000);
     const endDate = new Date(now.getTime() - offset * 24 * 60 * 60 * 1000);
 
-    return this.tasks.filter(task =>
+    return tasks.filter(task =>
       task.status === TaskStatus.COMPLETED &&
       task.completedAt &&
       task.completedAt >= startDate &&
@@ -812,6 +2327,159 @@ export class TaskyEngine {
     ];
   }
 
+  /**
+   * Logged events after `query.after`, oldest first, optionally only some names or patterns
+   * ('task:*'). At most MAX_EVENT_LIMIT at a time; page on with the last seq as `after`.
+   */
+  async getEvents(query: TaskEventQuery = {}): Promise<ToolResult<TaskEventRecord[]>> {
+    if (!this.storage.getEvents) return { success: true, data: [] };
+    try {
+      const valid = validateEventQuery(query);
+      await this.eventLog;
+      return await this.storage.getEvents({ limit: MAX_EVENT_LIMIT, ...valid });
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to load events'
+      };
+    }
+  }
+
+  /**
+   * Feed the logged events matching `query` to `handler` one at a time, oldest first (e.g. to
+   * rebuild analytics from scratch). Stops at the first handler error; the cursor in the result
+   * is the last event handled, to resume from.
+   */
+  async replayEvents(handler: TaskEventHandler, query: TaskEventQuery = {}): Promise<ToolResult<TaskEventReplay>> {
+    if (!this.storage.getEvents) {
+      return { success: false, error: 'The event log is not supported by this storage' };
+    }
+    let valid: TaskEventQuery;
+    try {
+      valid = validateEventQuery(query);
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Invalid event query' };
+    }
+    const limit = valid.limit ?? Infinity;
+    let count = 0;
+    let cursor = valid.after ?? 0;
+    try {
+      await this.eventLog;
+      while (count < limit) {
+        const pageSize = Math.min(EVENT_PAGE_SIZE, limit - count);
+        const page = await this.storage.getEvents({ ...valid, after: cursor, limit: pageSize });
+        if (!page.success) throw new Error(page.error);
+        const events = page.data || [];
+        for (const record of events) {
+          await handler(record);
+          cursor = record.seq;
+          count++;
+        }
+        if (events.length < pageSize) break;
+      }
+      return { success: true, data: { count, cursor }, message: `Replayed ${count} events` };
+    } catch (error) {
+      return {
+        success: false,
+        data: { count, cursor },
+        error: `Replay stopped after event ${cursor}: ${error instanceof Error ? error.message : String(error)}`
+      };
+    }
+  }
+
+  /**
+   * Deliver logged events matching `options.types` to `handler` in seq order, starting after
+   * `options.after` (by default, with the events recorded from now on). New events are picked up
+   * as this engine emits them and, every `pollMs` (0 to turn off), those other processes recorded.
+   * A handler that throws or rejects is logged and skipped past, so one event can't stall the rest.
+   */
+  async subscribeEvents(
+    handler: TaskEventHandler,
+    options: Omit<TaskEventQuery, 'limit'> & { pollMs?: number } = {}
+  ): Promise<ToolResult<TaskEventSubscription>> {
+    const storage = this.storage;
+    if (!storage.getEvents || !storage.getLatestEventSeq) {
+      return { success: false, error: 'The event log is not supported by this storage' };
+    }
+    try {
+      const { types, after } = validateEventQuery({ types: options.types, after: options.after });
+      let cursor = after ?? 0;
+      if (after === undefined) {
+        await this.eventLog;
+        const latest = await storage.getLatestEventSeq();
+        if (!latest.success) return { success: false, error: latest.error };
+        cursor = latest.data ?? 0;
+      }
+
+      let stopped = false;
+      let again = false;
+      let running: Promise<void> | undefined;
+      const deliver = async () => {
+        await this.eventLog;
+        for (;;) {
+          const page = await storage.getEvents!({ types, after: cursor, limit: EVENT_PAGE_SIZE });
+          if (!page.success) throw new Error(page.error);
+          const events = page.data || [];
+          for (const record of events) {
+            if (stopped) return;
+            try {
+              await handler(record);
+            } catch (error) {
+              console.error(`Error in event subscriber for ${record.type} (seq ${record.seq}):`, error);
+            }
+            cursor = record.seq;
+          }
+          if (events.length < EVENT_PAGE_SIZE) return;
+        }
+      };
+      // One delivery at a time; events arriving meanwhile are picked up by another pass
+      const flush = (): Promise<void> => {
+        if (stopped) return Promise.resolve();
+        if (running) {
+          again = true;
+          return running;
+        }
+        running = (async () => {
+          try {
+            do {
+              again = false;
+              await deliver();
+            } while (again && !stopped);
+          } catch (error) {
+            console.error('Failed to deliver logged events:', error);
+          } finally {
+            running = undefined;
+          }
+        })();
+        return running;
+      };
+      const onEmit = () => { flush(); };
+      this.eventBus.on('*', onEmit);
+      const pollMs = options.pollMs ?? EVENT_POLL_MS;
+      const timer = pollMs > 0 ? setInterval(onEmit, pollMs) : undefined;
+      timer?.unref?.();
+      flush();
+
+      return {
+        success: true,
+        data: {
+          get cursor() { return cursor; },
+          flush,
+          stop: () => {
+            stopped = true;
+            this.eventBus.off('*', onEmit);
+            if (timer) clearInterval(timer);
+          }
+        }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to subscribe to events'
+      };
+    }
+  }
+
   /**
    * Get event bus for external event subscriptions
    */
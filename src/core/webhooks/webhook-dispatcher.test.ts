@@ -0,0 +1,169 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import { createHmac } from 'crypto';
+import { WebhookDispatcher } from './webhook-dispatcher';
+import type { IWebhookStorage } from '../storage/IWebhookStorage';
+import type { Webhook, WebhookDelivery, WebhookDeliveryFilter } from '../../types/webhook';
+
+// Same contract as WebhookSqliteStorage, kept in memory
+class MemoryWebhookStorage implements IWebhookStorage {
+  webhooks = new Map<string, Webhook>();
+  deliveries: WebhookDelivery[] = [];
+  cursor: number | null = null;
+  private nextId = 1;
+
+  initialize(): void {}
+  getWebhooks(): Webhook[] { return [...this.webhooks.values()]; }
+  saveWebhook(webhook: Webhook): void { this.webhooks.set(webhook.id, webhook); }
+  deleteWebhook(id: string): boolean {
+    this.deliveries = this.deliveries.filter(d => d.webhookId !== id);
+    return this.webhooks.delete(id);
+  }
+  addDeliveries(deliveries: Array<Omit<WebhookDelivery, 'id'>>): WebhookDelivery[] {
+    const added = deliveries.map(d => ({ ...d, id: this.nextId++ }));
+    this.deliveries.push(...added);
+    return added;
+  }
+  updateDelivery(delivery: WebhookDelivery): void {
+    this.deliveries = this.deliveries.map(d => d.id === delivery.id ? { ...delivery } : d);
+  }
+  deleteDelivery(id: number): boolean {
+    const before = this.deliveries.length;
+    this.deliveries = this.deliveries.filter(d => d.id !== id);
+    return this.deliveries.length < before;
+  }
+  getDelivery(id: number): WebhookDelivery | null { return this.deliveries.find(d => d.id === id) ?? null; }
+  getDeliveries(filter: WebhookDeliveryFilter = {}): WebhookDelivery[] {
+    return this.deliveries
+      .filter(d => (!filter.webhookId || d.webhookId === filter.webhookId) && (!filter.status || d.status === filter.status))
+      .reverse()
+      .slice(0, filter.limit ?? undefined);
+  }
+  getDueDeliveries(now: Date): WebhookDelivery[] {
+    return this.deliveries.filter(d => d.status === 'pending' && d.nextAttemptAt && d.nextAttemptAt <= now);
+  }
+  getNextAttemptAt(): Date | null {
+    const times = this.deliveries.filter(d => d.status === 'pending' && d.nextAttemptAt).map(d => d.nextAttemptAt!.getTime());
+    return times.length ? new Date(Math.min(...times)) : null;
+  }
+  getEventCursor(): number | null { return this.cursor; }
+  saveEventCursor(seq: number): void { this.cursor = seq; }
+}
+
+interface Received {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+describe('WebhookDispatcher', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let received: Received[];
+  let respondWith: number;
+  let storage: MemoryWebhookStorage;
+  let dispatcher: WebhookDispatcher;
+
+  beforeEach(async () => {
+    received = [];
+    respondWith = 204;
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        received.push({ headers: req.headers, body });
+        res.statusCode = respondWith;
+        res.end();
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    storage = new MemoryWebhookStorage();
+    dispatcher = new WebhookDispatcher(storage, { retryBaseMs: 1 });
+    dispatcher.start();
+  });
+
+  afterEach(async () => {
+    dispatcher.stop();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('sends signed JSON to the webhooks subscribed to the event', async () => {
+    const saved = dispatcher.saveWebhook({ name: 'Dashboard', url: `${baseUrl}/dashboard`, events: ['task:completed', 'reminder-triggered'] });
+    dispatcher.saveWebhook({ name: 'Bot', url: `${baseUrl}/bot`, events: ['task:created'] });
+    dispatcher.saveWebhook({ name: 'Off', url: `${baseUrl}/off`, events: ['reminder-triggered'], enabled: false });
+    expect(saved.success).toBe(true);
+    const webhook = saved.data!;
+    expect(webhook.secret).toHaveLength(48);
+
+    const queued = dispatcher.publish('reminder-triggered', { message: 'Stand up', time: '09:30' }, new Date('2026-03-02T09:30:00Z'));
+    expect(queued).toHaveLength(1);
+    await dispatcher.deliverDue();
+
+    expect(received).toHaveLength(1);
+    const [{ headers, body }] = received;
+    expect(JSON.parse(body)).toEqual({ event: 'reminder-triggered', occurredAt: '2026-03-02T09:30:00.000Z', data: { message: 'Stand up', time: '09:30' } });
+    expect(headers['content-type']).toBe('application/json');
+    expect(headers['x-tasky-event']).toBe('reminder-triggered');
+    expect(headers['x-tasky-delivery']).toBe(String(queued[0].id));
+    const expected = createHmac('sha256', webhook.secret).update(`${headers['x-tasky-timestamp']}.${body}`).digest('hex');
+    expect(headers['x-tasky-signature']).toBe(`sha256=${expected}`);
+
+    expect(dispatcher.getDeliveries().data).toEqual([
+      expect.objectContaining({ webhookName: 'Dashboard', status: 'delivered', attempts: 1, responseStatus: 204 })
+    ]);
+
+    // Editing keeps the secret unless a new one is given
+    const edited = dispatcher.saveWebhook({ name: 'Dashboard', url: `${baseUrl}/v2`, events: ['task:completed'] }, webhook.id);
+    expect(edited.data).toMatchObject({ secret: webhook.secret, createdAt: webhook.createdAt });
+    expect(dispatcher.saveWebhook({ name: 'X', url: 'file:///tmp', events: ['task:created'] })).toMatchObject({
+      success: false,
+      error: 'Webhook validation failed: URL must start with http:// or https://'
+    });
+  });
+
+  it('retries with backoff, then dead-letters a delivery that can be sent again', async () => {
+    respondWith = 500;
+    dispatcher.saveWebhook({ name: 'Flaky', url: baseUrl, events: ['task:created'] });
+    const [delivery] = dispatcher.publish('task:created', { task: { id: 't1' } });
+
+    await vi.waitFor(() => expect(storage.getDelivery(delivery.id)?.status).toBe('dead'), { timeout: 5000 });
+    expect(received).toHaveLength(6);
+    expect(storage.getDelivery(delivery.id)).toMatchObject({ attempts: 6, responseStatus: 500, lastError: 'HTTP 500' });
+    expect(dispatcher.getDeliveries({ status: 'dead' }).data).toHaveLength(1);
+
+    respondWith = 200;
+    expect(dispatcher.redeliver(delivery.id)).toMatchObject({ success: true, data: { status: 'pending', attempts: 0 } });
+    await vi.waitFor(() => expect(storage.getDelivery(delivery.id)?.status).toBe('delivered'), { timeout: 5000 });
+    expect(storage.getDelivery(delivery.id)).toMatchObject({ attempts: 1, lastError: undefined });
+    expect(received[6].body).toBe(received[0].body);
+
+    expect(dispatcher.discardDelivery(delivery.id).success).toBe(true);
+    expect(dispatcher.getDeliveries().data).toEqual([]);
+  });
+
+  it('publishes task events from the log, moving the cursor past them', async () => {
+    const closed = await new Promise<string>(resolve => {
+      const probe = http.createServer();
+      probe.listen(0, '127.0.0.1', () => {
+        const url = `http://127.0.0.1:${(probe.address() as AddressInfo).port}`;
+        probe.close(() => resolve(url));
+      });
+    });
+    dispatcher.saveWebhook({ name: 'Down', url: closed, events: ['task:completed'] });
+    const task = { id: 't1', title: 'Ship it' };
+
+    dispatcher.publishTaskEvent({ seq: 7, type: 'task:created', taskId: 't1', payload: { task, source: 'user' } as any, emittedAt: new Date() });
+    expect(dispatcher.getEventCursor()).toBe(7);
+    expect(storage.deliveries).toHaveLength(0);
+
+    dispatcher.publishTaskEvent({ seq: 8, type: 'task:completed', taskId: 't1', payload: { task, duration: 5, completionMethod: 'manual' } as any, emittedAt: new Date() });
+    await dispatcher.deliverDue();
+    expect(dispatcher.getEventCursor()).toBe(8);
+    const [delivery] = storage.deliveries;
+    expect(JSON.parse(delivery.body)).toMatchObject({ event: 'task:completed', seq: 8, data: { task, duration: 5 } });
+    expect(delivery.status).toBe('pending');
+    expect(delivery.attempts).toBeGreaterThanOrEqual(1);
+    expect(delivery.lastError).toMatch(/ECONNREFUSED/);
+  });
+});
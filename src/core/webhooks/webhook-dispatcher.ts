@@ -0,0 +1,275 @@
+import * as http from 'http';
+import * as https from 'https';
+import { createHmac, randomBytes } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import type { IWebhookStorage } from '../storage/IWebhookStorage';
+import type { TaskEventRecord, ToolResult } from '../../types/task';
+import type { Webhook, WebhookDelivery, WebhookDeliveryFilter, WebhookEvent, WebhookInput, WebhookPayload } from '../../types/webhook';
+import { MAX_WEBHOOK_ATTEMPTS, WEBHOOK_RETRY_BASE_MS, retryDelayMs, validateWebhook } from '../../lib/webhooks';
+
+const REQUEST_TIMEOUT_MS = 10_000;
+
+export interface WebhookDispatcherOptions {
+  retryBaseMs?: number; // first retry delay, doubled on each further failure
+  timeoutMs?: number; // per request
+}
+
+/**
+ * Signature a receiver checks: HMAC-SHA256 of "<timestamp>.<body>" keyed with the webhook's
+ * secret, as sent in the X-Tasky-Signature header ("sha256=<hex>").
+ */
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+// Resolves with the response status; rejects on network errors and timeouts
+function postJson(url: string, body: string, headers: Record<string, string>, timeoutMs: number): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const transport = url.startsWith('https:') ? https : http;
+    const request = transport.request(url, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Length': String(Buffer.byteLength(body)) },
+      timeout: timeoutMs
+    }, response => {
+      response.resume();
+      response.on('end', () => resolve(response.statusCode ?? 0));
+    });
+    request.on('timeout', () => request.destroy(new Error(`Timed out after ${timeoutMs} ms`)));
+    request.on('error', reject);
+    request.end(body);
+  });
+}
+
+/**
+ * WebhookDispatcher
+ *
+ * Turns events into one queued delivery per enabled webhook subscribed to them, then POSTs each
+ * as signed JSON. A delivery that fails (network error or non-2xx) is retried with exponential
+ * backoff; after MAX_WEBHOOK_ATTEMPTS it moves to the dead-letter list, where it can be sent
+ * again or discarded. The queue lives in storage, so pending retries survive a restart.
+ */
+export class WebhookDispatcher {
+  private storage: IWebhookStorage;
+  private retryBaseMs: number;
+  private timeoutMs: number;
+  private timer?: NodeJS.Timeout;
+  // The delivery pass in progress; events queued meanwhile ask for another (again)
+  private running?: Promise<void>;
+  private again = false;
+  private stopped = false;
+
+  constructor(storage: IWebhookStorage, options: WebhookDispatcherOptions = {}) {
+    this.storage = storage;
+    this.retryBaseMs = options.retryBaseMs ?? WEBHOOK_RETRY_BASE_MS;
+    this.timeoutMs = options.timeoutMs ?? REQUEST_TIMEOUT_MS;
+  }
+
+  /**
+   * Start delivering: pending deliveries left from the last run go out (or wait for their retry time).
+   */
+  start(): void {
+    this.storage.initialize();
+    this.stopped = false;
+    this.deliverDue();
+  }
+
+  stop(): void {
+    this.stopped = true;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = undefined;
+  }
+
+  getWebhooks(): ToolResult<Webhook[]> {
+    return this.run(() => this.storage.getWebhooks(), 'Failed to load webhooks');
+  }
+
+  /**
+   * Add a webhook, or replace the one with `id`. A new webhook without a secret gets a random one;
+   * an edited one keeps its secret unless a new one is given.
+   */
+  saveWebhook(input: WebhookInput, id?: string): ToolResult<Webhook> {
+    return this.run(() => {
+      const valid = validateWebhook(input);
+      const existing = id ? this.storage.getWebhooks().find(w => w.id === id) : undefined;
+      if (id && !existing) throw new Error(`Webhook ${id} not found`);
+      const now = new Date();
+      const webhook: Webhook = {
+        id: existing?.id ?? uuidv4(),
+        name: valid.name,
+        url: valid.url,
+        secret: valid.secret ?? existing?.secret ?? randomBytes(24).toString('hex'),
+        events: valid.events,
+        enabled: valid.enabled ?? true,
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now
+      };
+      this.storage.saveWebhook(webhook);
+      return webhook;
+    }, 'Failed to save webhook');
+  }
+
+  deleteWebhook(id: string): ToolResult<void> {
+    return this.run(() => {
+      if (!this.storage.deleteWebhook(id)) throw new Error(`Webhook ${id} not found`);
+    }, 'Failed to delete webhook');
+  }
+
+  getDeliveries(filter: WebhookDeliveryFilter = {}): ToolResult<WebhookDelivery[]> {
+    return this.run(() => this.storage.getDeliveries(filter), 'Failed to load deliveries');
+  }
+
+  /**
+   * Send a delivery again from the start (a fresh set of attempts), e.g. from the dead-letter list.
+   */
+  redeliver(id: number): ToolResult<WebhookDelivery> {
+    return this.run(() => {
+      const delivery = this.storage.getDelivery(id);
+      if (!delivery) throw new Error(`Delivery ${id} not found`);
+      if (delivery.status === 'pending') throw new Error(`Delivery ${id} is still being retried`);
+      const queued: WebhookDelivery = {
+        ...delivery,
+        status: 'pending',
+        attempts: 0,
+        nextAttemptAt: new Date(),
+        responseStatus: undefined,
+        lastError: undefined,
+        deliveredAt: undefined
+      };
+      this.storage.updateDelivery(queued);
+      this.deliverDue();
+      return queued;
+    }, 'Failed to redeliver');
+  }
+
+  discardDelivery(id: number): ToolResult<void> {
+    return this.run(() => {
+      if (!this.storage.deleteDelivery(id)) throw new Error(`Delivery ${id} not found`);
+    }, 'Failed to discard delivery');
+  }
+
+  /**
+   * Queue an event for every enabled webhook subscribed to it and start sending.
+   */
+  publish(event: WebhookEvent, data: unknown, occurredAt: Date = new Date(), seq?: number): WebhookDelivery[] {
+    const webhooks = this.storage.getWebhooks().filter(w => w.enabled && w.events.includes(event));
+    if (webhooks.length === 0) return [];
+    const payload: WebhookPayload = { event, occurredAt: occurredAt.toISOString(), ...(seq !== undefined && { seq }), data };
+    const body = JSON.stringify(payload);
+    const now = new Date();
+    const queued = this.storage.addDeliveries(webhooks.map(webhook => ({
+      webhookId: webhook.id,
+      webhookName: webhook.name,
+      event,
+      body,
+      status: 'pending' as const,
+      attempts: 0,
+      nextAttemptAt: now,
+      createdAt: now
+    })));
+    this.deliverDue();
+    return queued;
+  }
+
+  /**
+   * Publish an event from the task event log and move the cursor past it, so the next start
+   * resumes after the last event handled.
+   */
+  publishTaskEvent(record: TaskEventRecord): WebhookDelivery[] {
+    const queued = this.publish(record.type, record.payload, record.emittedAt, record.seq);
+    this.storage.saveEventCursor(record.seq);
+    return queued;
+  }
+
+  getEventCursor(): number | null {
+    return this.storage.getEventCursor();
+  }
+
+  /**
+   * Attempt every delivery that is due, then wait for the next retry. Resolves when this pass
+   * (and any asked for while it ran) is done.
+   */
+  deliverDue(): Promise<void> {
+    if (this.stopped) return Promise.resolve();
+    if (this.running) {
+      this.again = true;
+      return this.running;
+    }
+    this.running = (async () => {
+      try {
+        do {
+          this.again = false;
+          const due = this.storage.getDueDeliveries(new Date());
+          await Promise.all(due.map(delivery => this.attempt(delivery)));
+        } while (this.again && !this.stopped);
+      } catch (error) {
+        console.error('Failed to deliver webhooks:', error);
+      } finally {
+        this.running = undefined;
+        this.scheduleNext();
+      }
+    })();
+    return this.running;
+  }
+
+  private async attempt(delivery: WebhookDelivery): Promise<void> {
+    const webhook = this.storage.getWebhooks().find(w => w.id === delivery.webhookId);
+    const attempts = delivery.attempts + 1;
+    let responseStatus: number | undefined;
+    let error: string | undefined;
+
+    if (!webhook?.enabled) {
+      // Not worth retrying; it can be sent again from the dead-letter list once re-enabled
+      this.storage.updateDelivery({ ...delivery, attempts, status: 'dead', nextAttemptAt: undefined, lastError: 'Webhook is disabled' });
+      return;
+    }
+    try {
+      const timestamp = String(Math.floor(Date.now() / 1000));
+      responseStatus = await postJson(webhook.url, delivery.body, {
+        'Content-Type': 'application/json',
+        'User-Agent': 'Tasky-Webhooks',
+        'X-Tasky-Event': delivery.event,
+        'X-Tasky-Delivery': String(delivery.id),
+        'X-Tasky-Timestamp': timestamp,
+        'X-Tasky-Signature': signWebhookPayload(webhook.secret, timestamp, delivery.body)
+      }, this.timeoutMs);
+      if (responseStatus < 200 || responseStatus >= 300) error = `HTTP ${responseStatus}`;
+    } catch (e) {
+      error = e instanceof Error ? e.message : String(e);
+    }
+
+    if (!error) {
+      this.storage.updateDelivery({ ...delivery, attempts, status: 'delivered', nextAttemptAt: undefined, responseStatus, lastError: undefined, deliveredAt: new Date() });
+      return;
+    }
+    const dead = attempts >= MAX_WEBHOOK_ATTEMPTS;
+    this.storage.updateDelivery({
+      ...delivery,
+      attempts,
+      status: dead ? 'dead' : 'pending',
+      nextAttemptAt: dead ? undefined : new Date(Date.now() + retryDelayMs(attempts, this.retryBaseMs)),
+      responseStatus,
+      lastError: error
+    });
+  }
+
+  private scheduleNext(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = undefined;
+    if (this.stopped) return;
+    const next = this.storage.getNextAttemptAt();
+    if (!next) return;
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.deliverDue();
+    }, Math.max(0, next.getTime() - Date.now()));
+    this.timer.unref?.();
+  }
+
+  private run<T>(fn: () => T, fallback: string): ToolResult<T> {
+    try {
+      return { success: true, data: fn() };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : fallback };
+    }
+  }
+}
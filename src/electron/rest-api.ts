@@ -0,0 +1,46 @@
+// eslint-disable-next-line @typescript-eslint/no-var-requires
+const { ipcMain } = require('electron');
+import type * as http from 'http';
+import { ApiTokens } from '../core/rest-api/api-tokens';
+import { createRestApiHandler, RestApiServices } from '../core/rest-api/rest-api';
+import { ApiTokenSqliteStorage } from '../core/storage/ApiTokenSqliteStorage';
+import type { ApiTokenInput } from '../types/api';
+
+/**
+ * ElectronRestApi
+ *
+ * The /v1 REST API served by the HTTP bridge in main.ts, and its tokens, managed over IPC
+ * ('api-token:*'). Besides the stored tokens, the bridge's per-session token (the one in
+ * data/.http-bridge-token) has write access, so the MCP agent can use the API without setup.
+ */
+export class ElectronRestApi {
+  private tokens: ApiTokens;
+
+  constructor(dbPath: string) {
+    this.tokens = new ApiTokens(new ApiTokenSqliteStorage(dbPath));
+    this.setupIpcHandlers();
+  }
+
+  createHandler(services: Omit<RestApiServices, 'authenticate'>, sessionToken: string): (req: http.IncomingMessage, res: http.ServerResponse) => Promise<boolean> {
+    return createRestApiHandler({
+      ...services,
+      authenticate: token => (token === sessionToken ? 'write' : this.tokens.authenticate(token))
+    });
+  }
+
+  private setupIpcHandlers(): void {
+    const isNonEmptyString = (v: unknown): v is string => typeof v === 'string' && v.trim().length > 0;
+
+    ipcMain.handle('api-token:list', async () => this.tokens.list());
+
+    ipcMain.handle('api-token:create', async (_event: any, input: ApiTokenInput) => {
+      if (!input || typeof input !== 'object') throw new Error('Invalid token');
+      return this.tokens.create(input);
+    });
+
+    ipcMain.handle('api-token:revoke', async (_event: any, id: string) => {
+      if (!isNonEmptyString(id)) throw new Error('Invalid id');
+      return this.tokens.revoke(id);
+    });
+  }
+}
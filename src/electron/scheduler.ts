@@ -33,6 +33,7 @@ class ReminderScheduler {
   private soundEnabled: boolean;
   private notificationType: string;
   private bubbleSide?: string;
+  private triggerListeners: Array<(reminder: Reminder) => void> = [];
 
   constructor() {
     this.scheduledTasks = new Map();    // Maps reminder IDs to cron tasks
@@ -177,6 +178,13 @@ class ReminderScheduler {
     return Array.from(this.scheduledTasks.keys());
   }
 
+  /**
+   * Be told about each reminder as it triggers (e.g. to send it to webhooks)
+   */
+  onReminderTriggered(listener: (reminder: Reminder) => void): void {
+    this.triggerListeners.push(listener);
+  }
+
   /**
    * Trigger a reminder (show notification, play sound, etc.)
    */
@@ -196,6 +204,13 @@ class ReminderScheduler {
     if (global.mainWindow && global.mainWindow.webContents) {
       global.mainWindow.webContents.send('reminder-triggered', reminder);
     }
+    for (const listener of this.triggerListeners) {
+      try {
+        listener(reminder);
+      } catch (error) {
+        logger.error('Error in reminder listener:', error);
+      }
+    }
     
     // Use Clippy for notifications if available, otherwise fall back to native notifications
     if (global.assistant && global.assistant.isVisible) {
@@ -9,6 +9,7 @@ const Store = require('electron-store');
 import { Settings, Reminder } from '../types';
 import { PomodoroTask } from '../types/pomodoro';
 import { ReminderSqliteStorage } from '../core/storage/ReminderSqliteStorage';
+import type { TrashPurgeOptions } from '../types/task';
 import * as path from 'path';
 import * as fs from 'fs';
 
@@ -31,6 +32,8 @@ export class Storage {
       name: 'tasky-config-v2', // New name to avoid cached schema issues
       defaults: {
         reminders: [],
+        // Deleted reminders when there is no database: { reminder, deletedAt (ISO) }
+        reminderTrash: [],
         settings: {
           enableNotifications: true,
           enableSound: true,
@@ -54,7 +57,8 @@ export class Storage {
           taskNotifications: true,
           autoArchiveCompleted: false,
           taskSortBy: 'dueDate',
-          showTaskStats: true
+          showTaskStats: true,
+          trashRetentionDays: 30
         },
             pomodoroState: {
       isRunning: false,
@@ -146,6 +150,9 @@ export class Storage {
       }
 
       this.store.set('reminders', filteredReminders);
+      const deleted = reminders.find(r => r.id === id)!;
+      const trash = this.store.get('reminderTrash', []).filter((t: any) => t.reminder.id !== id);
+      this.store.set('reminderTrash', [{ reminder: deleted, deletedAt: new Date().toISOString() }, ...trash]);
       
       return true;
     } catch (_error) {
@@ -154,6 +161,45 @@ export class Storage {
     }
   }
 
+  // Trashed reminders, most recently deleted first
+  getTrashedReminders(): Array<{ reminder: Reminder; deletedAt: Date }> {
+    try {
+      if (this.reminderDb) return this.reminderDb.getTrashedReminders();
+      return this.store.get('reminderTrash', []).map((t: any) => ({ reminder: t.reminder, deletedAt: new Date(t.deletedAt) }));
+    } catch (_error) {
+      return [];
+    }
+  }
+
+  restoreReminder(id: string): Reminder | null {
+    try {
+      if (this.reminderDb) return this.reminderDb.restoreReminder(id);
+      const trash = this.store.get('reminderTrash', []);
+      const entry = trash.find((t: any) => t.reminder.id === id);
+      if (!entry) return null;
+      this.store.set('reminders', [...this.getReminders().filter(r => r.id !== id), entry.reminder]);
+      this.store.set('reminderTrash', trash.filter((t: any) => t !== entry));
+      return entry.reminder;
+    } catch (_error) {
+      return null;
+    }
+  }
+
+  purgeTrashedReminders(options: TrashPurgeOptions = {}): number {
+    try {
+      if (this.reminderDb) return this.reminderDb.purgeTrashedReminders(options);
+      const trash = this.store.get('reminderTrash', []);
+      const kept = trash.filter((t: any) =>
+        (options.ids && !options.ids.includes(t.reminder.id)) ||
+        (options.deletedBefore && new Date(t.deletedAt) >= options.deletedBefore)
+      );
+      this.store.set('reminderTrash', kept);
+      return trash.length - kept.length;
+    } catch (_error) {
+      return 0;
+    }
+  }
+
   // Add alias for compatibility with main.ts
   removeReminder(id: string): boolean {
     return this.deleteReminder(id);
@@ -3,12 +3,30 @@
 const { ipcMain, BrowserWindow } = require('electron');
 import * as path from 'path';
 import * as fs from 'fs';
+import * as os from 'os';
 import { TaskyEngine } from '../core/task-manager/tasky-engine';
 import { SqliteTaskStorage } from '../core/storage/SqliteTaskStorage';
-import { TaskyTask, TaskStatus, CreateTaskInput, UpdateTaskInput } from '../types/task';
+import { TaskyTask, TaskStatus, TaskStatusId, CreateTaskInput, UpdateTaskInput, TaskConflictError, ToolResult, TrashPurgeOptions, TrashedTask, ConvertibleReminder, TaskTemplateInput, CreateFromTemplateOptions, TaskWorkflow, TaskReviewDecision, TaskTimeEntryInput, TaskAnalyticsOptions, AutomationRuleInput, AutomationTrigger, TaskEventMap, TaskAction, TaskActionResult, TaskPlan, TaskPolicySettings, TaskEventQuery, TaskEventHandler, TaskEventSubscription } from '../types/task';
+import type { TaskChangeNotice } from '../lib/task-change-feed';
+import { AUTOMATION_TRIGGERS } from '../lib/task-automation';
+import { listTaskPolicies } from '../lib/task-policies';
 import logger from '../lib/logger';
 import { notificationUtility } from './notification-utility';
 
+// How often to check the shared database for writes from the MCP agent
+const CHANGE_FEED_POLL_MS = 1000;
+// How often to look for tasks that have just become overdue or are due soon
+const OVERDUE_CHECK_MS = 60 * 1000;
+
+// Reminders belong to main.ts (store + scheduler); conversions reach them through this
+export interface TaskManagerReminderAccess {
+  getReminder(id: string): ConvertibleReminder | null;
+  // Persist and schedule a new reminder; false when it couldn't be saved
+  addReminder(reminder: ConvertibleReminder): boolean;
+  // Move a reminder to the trash and unschedule it
+  removeReminder(id: string): void;
+}
+
 /**
  * ElectronTaskManager
  *
@@ -16,11 +34,31 @@ import { notificationUtility } from './notification-utility';
  * - Task CRUD, listing, stats/analytics, bulk actions, archiving
  * - Import/export helpers (file path or structured payloads)
  * - Due date notifications (15-min prior) through TaskNotificationManager
+ * - Watching the shared database for changes made by other processes (MCP agent) and
+ *   forwarding them to the renderer as 'tasky:task-changed'
+ * - Forwarding engine events as 'tasky:task-created' / '-updated' / '-completed' / '-overdue'
+ *   (overdue is checked once a minute; tasks already overdue at startup aren't announced)
+ * - Reminder <-> task conversion, given access to the reminder store (attachReminders)
+ * - The task template library ('template:*') and creating tasks from templates
+ * - The status workflow ('workflow:get' / 'workflow:save')
+ * - Reviewing agent work: the execution sentinel moves a task to NEEDS_REVIEW, 'task:review'
+ *   approves (completes) or rejects it
+ * - Time tracking ('time:*'): start/stop timers, manual entries, per-task totals
+ * - Automation rules ('automation:*'), run on engine events once startup is done, with
+ *   reminders and notifications as their side effects
+ * - The OODA policy ('policy:*'): 'task:analyze' plans with it and 'task:act' carries out the plan
+ * - The persistent event log ('events:list'), paged by seq so the renderer can catch up on
+ *   events emitted while it was closed
  */
 export class ElectronTaskManager {
   private engine: TaskyEngine;
   private notificationManager: TaskNotificationManager;
   private dbPath: string;
+  private changeFeedTimer?: NodeJS.Timeout;
+  private syncingChanges = false;
+  private overdueTimer?: NodeJS.Timeout;
+  private announceOverdue = false;
+  private reminders?: TaskManagerReminderAccess;
 
   constructor() {
     // Always use SQLite as the single source of truth
@@ -34,9 +72,136 @@ export class ElectronTaskManager {
 
     this.engine = new TaskyEngine(undefined, storageImpl);
     this.notificationManager = new TaskNotificationManager();
+    // Recurring tasks spawn their next instance inside the engine; give it a due notification too
+    const bus = this.engine.getEventBus();
+    bus.on('task:created', ({ task, source }) => {
+      if ((source === 'recurrence' || source === 'external') && task.schema.dueDate) {
+        this.notificationManager.scheduleTaskDueNotification(task);
+      }
+      if (source === 'external') this.emitTaskChanged({ op: 'created', taskId: task.schema.id, task });
+    });
+    bus.on('task:updated', ({ task, external }) => {
+      if (!external) return;
+      this.notificationManager.cancelNotification(task.schema.id);
+      if (task.schema.dueDate && task.status !== TaskStatus.COMPLETED && task.status !== TaskStatus.ARCHIVED) {
+        this.notificationManager.scheduleTaskDueNotification(task);
+      }
+      this.emitTaskChanged({ op: 'updated', taskId: task.schema.id, task });
+    });
+    bus.on('task:deleted', ({ taskId, external }) => {
+      if (!external) return;
+      this.notificationManager.cancelNotification(taskId);
+      this.emitTaskChanged({ op: 'deleted', taskId });
+    });
+    bus.on('task:created', ({ task }) => this.emitTaskEvent('tasky:task-created', task));
+    bus.on('task:updated', ({ task }) => this.emitTaskEvent('tasky:task-updated', task));
+    bus.on('task:completed', ({ task }) => this.emitTaskEvent('tasky:task-completed', task));
+    // The renderer announces overdue tasks through the assistant bubble
+    bus.on('task:overdue', ({ task }) => {
+      if (this.announceOverdue) this.emitTaskEvent('tasky:task-overdue', task);
+    });
     this.setupIpcHandlers();
   }
 
+  attachReminders(access: TaskManagerReminderAccess): void {
+    this.reminders = access;
+  }
+
+  getDbPath(): string {
+    return this.dbPath;
+  }
+
+  // For main-process services that call the engine directly (the REST API)
+  getEngine(): TaskyEngine {
+    return this.engine;
+  }
+
+  // Follow the persistent event log from main-process services (webhooks)
+  subscribeEvents(handler: TaskEventHandler, options?: Omit<TaskEventQuery, 'limit'> & { pollMs?: number }): Promise<ToolResult<TaskEventSubscription>> {
+    return this.engine.subscribeEvents(handler, options);
+  }
+
+  private emitTaskEvent(channel: string, task: TaskyTask): void {
+    try {
+      const wins = BrowserWindow.getAllWindows();
+      if (wins && wins.length > 0) {
+        wins[0].webContents.send(channel, task);
+      }
+    } catch {}
+  }
+
+  private startOverdueCheck(): void {
+    this.stopOverdueCheck();
+    this.overdueTimer = setInterval(() => {
+      this.engine.checkOverdue().catch(e => logger.warn('Failed to check overdue tasks:', e));
+      this.engine.checkDueSoon().catch(e => logger.warn('Failed to check tasks due soon:', e));
+    }, OVERDUE_CHECK_MS);
+  }
+
+  // Subscribed after the startup overdue check, so tasks already late don't fire rules on every launch
+  private startAutomation(): void {
+    const bus = this.engine.getEventBus();
+    for (const trigger of AUTOMATION_TRIGGERS) {
+      bus.on(trigger, event => this.runAutomation(trigger, event));
+    }
+  }
+
+  private async runAutomation<K extends AutomationTrigger>(trigger: K, event: TaskEventMap[K]): Promise<void> {
+    try {
+      const result = await this.engine.runAutomationRules(trigger, event, {
+        addReminder: reminder => !!this.reminders && this.reminders.addReminder(reminder),
+        notify: (title, body) => notificationUtility.showNotification({ title: `⚡ ${title}`, body, type: 'info' })
+      });
+      if (!result.success) {
+        logger.warn('Failed to run automation rules:', result.error);
+        return;
+      }
+      for (const run of result.data || []) {
+        if (!run.success) logger.warn(`Automation rule "${run.ruleName}" failed on "${run.taskTitle}":`, run.results.filter(r => !r.success));
+      }
+      if (result.data?.length) this.emitTasksUpdated();
+    } catch (e) {
+      logger.warn('Failed to run automation rules:', e);
+    }
+  }
+
+  private stopOverdueCheck(): void {
+    if (this.overdueTimer) {
+      clearInterval(this.overdueTimer);
+      this.overdueTimer = undefined;
+    }
+  }
+
+  private emitTaskChanged(notice: TaskChangeNotice): void {
+    try {
+      const wins = BrowserWindow.getAllWindows();
+      if (wins && wins.length > 0) {
+        wins[0].webContents.send('tasky:task-changed', notice);
+      }
+    } catch {}
+  }
+
+  private startChangeFeed(): void {
+    this.stopChangeFeed();
+    this.changeFeedTimer = setInterval(async () => {
+      if (this.syncingChanges) return;
+      this.syncingChanges = true;
+      try {
+        const result = await this.engine.syncExternalChanges();
+        if (!result.success) logger.warn('Failed to read external task changes:', result.error);
+      } finally {
+        this.syncingChanges = false;
+      }
+    }, CHANGE_FEED_POLL_MS);
+  }
+
+  private stopChangeFeed(): void {
+    if (this.changeFeedTimer) {
+      clearInterval(this.changeFeedTimer);
+      this.changeFeedTimer = undefined;
+    }
+  }
+
   private emitTasksUpdated(): void {
     try {
       const wins = BrowserWindow.getAllWindows();
@@ -52,14 +217,23 @@ export class ElectronTaskManager {
     const validateCreateTask = (input: any) => {
       if (!input || !isNonEmptyString(input.title)) throw new Error('Invalid title');
       if (!isAssignedAgent(input.assignedAgent)) throw new Error("assignedAgent must be 'gemini' or 'claude'");
+      if (input.parentId !== undefined && !isNonEmptyString(input.parentId)) throw new Error('Invalid parentId');
+      if (input.checklist !== undefined && !Array.isArray(input.checklist)) throw new Error('checklist must be an array');
     };
     const validateUpdateTask = (updates: any) => {
       if (updates && updates.assignedAgent !== undefined && !isAssignedAgent(updates.assignedAgent)) {
         throw new Error("assignedAgent must be 'gemini' or 'claude'");
       }
-      if (updates && updates.status !== undefined && !Object.values(TaskStatus).includes(updates.status)) {
+      // Which statuses exist is up to the workflow; the engine checks
+      if (updates && updates.status !== undefined && !isNonEmptyString(updates.status)) {
         throw new Error('Invalid status');
       }
+      if (updates && updates.checklist !== undefined && !Array.isArray(updates.checklist)) {
+        throw new Error('checklist must be an array');
+      }
+      if (updates && updates.expectedVersion !== undefined && !Number.isInteger(updates.expectedVersion)) {
+        throw new Error('expectedVersion must be an integer');
+      }
     };
     const validateImportPayload = (payload: any) => {
       if (!payload || (typeof payload !== 'object')) throw new Error('Invalid import payload');
@@ -77,7 +251,7 @@ export class ElectronTaskManager {
     ipcMain.handle('task:create', async (event: any, taskInput: CreateTaskInput) => {
       try {
         validateCreateTask(taskInput);
-        const result = await this.engine.createTask(taskInput);
+        const result = await this.engine.createTask({ ...taskInput, actor: 'ui' });
         
         if (!result.success) {
           throw new Error(result.error || 'Failed to create task');
@@ -108,8 +282,12 @@ export class ElectronTaskManager {
       try {
         if (!isNonEmptyString(id)) throw new Error('Invalid id');
         validateUpdateTask(updates);
-        const result = await this.engine.updateTask(id, updates);
-        
+        const result = await this.engine.updateTask(id, { ...updates, actor: 'ui' });
+
+        // Errors lose their fields over IPC, so a version conflict is returned for TaskForm to merge
+        if (result.conflict) {
+          return { conflict: result.conflict };
+        }
         if (!result.success) {
           throw new Error(result.error || 'Failed to update task');
         }
@@ -147,7 +325,7 @@ export class ElectronTaskManager {
 
     ipcMain.handle('task:delete', async (event: any, id: string) => {
       try {
-        const result = await this.engine.deleteTask(id);
+        const result = await this.engine.deleteTask(id, 'ui');
         
         if (!result.success) {
           throw new Error(result.error || 'Failed to delete task');
@@ -197,6 +375,92 @@ export class ElectronTaskManager {
       }
     });
 
+    ipcMain.handle('task:search', async (_event: any, query: string, filters?: any) => {
+      try {
+        const result = await this.engine.searchTasks(query, filters);
+
+        if (!result.success) {
+          throw new Error(result.error || 'Failed to search tasks');
+        }
+
+        return result.data;
+      } catch (error) {
+        logger.error('Error searching tasks:', error);
+        throw error;
+      }
+    });
+
+    ipcMain.handle('task:undo', async () => {
+      try {
+        const result = await this.engine.undo('ui');
+        if (result.success) this.emitTasksUpdated();
+        // Returned as-is: "nothing to undo" and conflicts are expected outcomes, not errors
+        return result;
+      } catch (error) {
+        logger.error('Error undoing task change:', error);
+        throw error;
+      }
+    });
+
+    ipcMain.handle('task:redo', async () => {
+      try {
+        const result = await this.engine.redo('ui');
+        if (result.success) this.emitTasksUpdated();
+        return result;
+      } catch (error) {
+        logger.error('Error redoing task change:', error);
+        throw error;
+      }
+    });
+
+    ipcMain.handle('task:undo-state', async () => this.engine.getUndoState());
+
+    ipcMain.handle('task:history', async (_event: any, id: string) => {
+      try {
+        if (!isNonEmptyString(id)) throw new Error('Invalid id');
+        const result = await this.engine.getTaskRevisions(id);
+
+        if (!result.success) {
+          throw new Error(result.error || 'Failed to load task history');
+        }
+
+        return result.data || [];
+      } catch (error) {
+        logger.error('Error loading task history:', error);
+        throw error;
+      }
+    });
+
+    ipcMain.handle('task:restore-revision', async (_event: any, id: string, revisionId: number) => {
+      try {
+        if (!isNonEmptyString(id)) throw new Error('Invalid id');
+        if (!Number.isInteger(revisionId)) throw new Error('Invalid revision id');
+        const result = await this.engine.restoreTaskRevision(id, revisionId, 'ui');
+
+        if (result.conflict) {
+          return { conflict: result.conflict };
+        }
+        if (!result.success) {
+          throw new Error(result.error || 'Failed to restore task');
+        }
+
+        this.emitTasksUpdated();
+        return result.data;
+      } catch (error) {
+        logger.error('Error restoring task revision:', error);
+        throw error;
+      }
+    });
+
+    ipcMain.handle('task:analytics', async (_event: any, options?: TaskAnalyticsOptions) => {
+      try {
+        return await this.engine.getTaskAnalytics(options || {});
+      } catch (error) {
+        logger.error('Error getting task analytics:', error);
+        throw error;
+      }
+    });
+
     ipcMain.handle('task:stats', async (_event: any) => {
       try {
         const result = await this.engine.getTaskAnalytics();
@@ -212,6 +476,33 @@ export class ElectronTaskManager {
       }
     });
 
+    // Dependency graph views
+    ipcMain.handle('task:blocked', async (_event: any) => {
+      try {
+        const result = await this.engine.getBlockedTasks();
+        if (!result.success) {
+          throw new Error(result.error || 'Failed to get blocked tasks');
+        }
+        return result.data;
+      } catch (error) {
+        logger.error('Error getting blocked tasks:', error);
+        throw error;
+      }
+    });
+
+    ipcMain.handle('task:ready', async (_event: any) => {
+      try {
+        const result = await this.engine.getReadyTasks();
+        if (!result.success) {
+          throw new Error(result.error || 'Failed to get ready tasks');
+        }
+        return result.data;
+      } catch (error) {
+        logger.error('Error getting ready tasks:', error);
+        throw error;
+      }
+    });
+
     // Cheap last-updated value to support lightweight polling in renderer
     ipcMain.handle('task:last-updated', async () => {
       try {
@@ -224,7 +515,7 @@ export class ElectronTaskManager {
     });
 
     // Task analysis and insights
-    ipcMain.handle('task:analyze', async (_event: any) => {
+    ipcMain.handle('task:analyze', async (_event: any): Promise<TaskPlan> => {
       try {
         const observation = await this.engine.observe();
         const strategy = await this.engine.orient(observation);
@@ -241,25 +532,358 @@ export class ElectronTaskManager {
       }
     });
 
-    // Bulk operations
-    ipcMain.handle('task:bulk-update-status', async (event: any, taskIds: string[], status: TaskStatus) => {
+    // Carry out actions from task:analyze
+    ipcMain.handle('task:act', async (_event: any, actions: TaskAction[]): Promise<ToolResult<TaskActionResult[]>> => {
+      try {
+        if (!Array.isArray(actions) || actions.some(a => !a || !isNonEmptyString(a.type) || !isNonEmptyString(a.taskId))) {
+          throw new Error('Invalid actions');
+        }
+        const results = await this.engine.act(actions, {
+          notify: (title, body) => notificationUtility.showNotification({ title, body, type: 'info' })
+        });
+        if (results.some(r => r.success && (r.type === 'archive' || r.type === 'break_down'))) this.emitTasksUpdated();
+        return { success: true, data: results };
+      } catch (error) {
+        logger.error('Error acting on tasks:', error);
+        throw error;
+      }
+    });
+
+    // OODA policy choice
+    ipcMain.handle('policy:list', async () => ({ success: true, data: listTaskPolicies() }));
+
+    ipcMain.handle('policy:get', async () => {
+      try {
+        return await this.engine.getPolicy();
+      } catch (error) {
+        logger.error('Error loading policy:', error);
+        throw error;
+      }
+    });
+
+    ipcMain.handle('policy:save', async (_event: any, settings: TaskPolicySettings) => {
+      try {
+        if (!settings || typeof settings !== 'object') throw new Error('Invalid policy');
+        return await this.engine.savePolicy(settings);
+      } catch (error) {
+        logger.error('Error saving policy:', error);
+        throw error;
+      }
+    });
+
+    ipcMain.handle('events:list', async (_event: any, query?: TaskEventQuery) => {
+      try {
+        if (query !== undefined && (query === null || typeof query !== 'object')) throw new Error('Invalid event query');
+        return await this.engine.getEvents(query || {});
+      } catch (error) {
+        logger.error('Error loading events:', error);
+        throw error;
+      }
+    });
+
+    // Bulk operations (one undo step for the whole selection)
+    ipcMain.handle('task:bulk-update-status', async (event: any, taskIds: string[], status: TaskStatusId) => {
       try {
         if (!Array.isArray(taskIds) || taskIds.some(id => !isNonEmptyString(id))) throw new Error('Invalid taskIds');
-        if (!Object.values(TaskStatus).includes(status)) throw new Error('Invalid status');
-        const results = [];
-        for (const id of taskIds) {
-          const result = await this.engine.updateTask(id, { status });
-          if (result.success && result.data) {
-            results.push(result.data);
+        if (!isNonEmptyString(status)) throw new Error('Invalid status');
+        const result = await this.engine.bulkUpdateTasks(
+          taskIds,
+          { status, actor: 'ui' },
+          `Set ${taskIds.length} task(s) to ${status.replace('_', ' ').toLowerCase()}`
+        );
+        return result.data || [];
+      } catch (error) {
+        logger.error('Error bulk updating tasks:', error);
+        throw error;
+      }
+    });
+
+    ipcMain.handle('task:bulk-update', async (_event: any, taskIds: string[], updates: UpdateTaskInput) => {
+      try {
+        if (!Array.isArray(taskIds) || taskIds.some(id => !isNonEmptyString(id))) throw new Error('Invalid taskIds');
+        if (!updates || typeof updates !== 'object') throw new Error('Invalid updates');
+        validateUpdateTask(updates);
+        const result = await this.engine.bulkUpdateTasks(taskIds, { ...updates, actor: 'ui' });
+        if (result.success) {
+          for (const task of result.data || []) {
+            this.notificationManager.cancelNotification(task.schema.id);
+            if (task.schema.dueDate && task.status !== TaskStatus.COMPLETED && task.status !== TaskStatus.ARCHIVED) {
+              this.notificationManager.scheduleTaskDueNotification(task);
+            }
           }
+          this.emitTasksUpdated();
         }
-        return results;
+        // Returned as-is so skipped tasks (warnings) reach the renderer
+        return result;
       } catch (error) {
         logger.error('Error bulk updating tasks:', error);
         throw error;
       }
     });
 
+    ipcMain.handle('task:duplicate', async (_event: any, id: string) => {
+      try {
+        if (!isNonEmptyString(id)) throw new Error('Invalid id');
+        const result = await this.engine.duplicateTask(id, 'ui');
+        if (result.success && result.data) {
+          if (result.data.schema.dueDate) this.notificationManager.scheduleTaskDueNotification(result.data);
+          this.emitTasksUpdated();
+        }
+        return result;
+      } catch (error) {
+        logger.error('Error duplicating task:', error);
+        throw error;
+      }
+    });
+
+    // Approve or reject a task in NEEDS_REVIEW; the signed-in OS user is recorded as the reviewer
+    ipcMain.handle('task:review', async (_event: any, id: string, decision: TaskReviewDecision, comment?: string) => {
+      try {
+        if (!isNonEmptyString(id)) throw new Error('Invalid id');
+        if (comment !== undefined && typeof comment !== 'string') throw new Error('Invalid comment');
+        const result = await this.engine.reviewTask(id, { decision, reviewer: this.reviewerName(), comment, actor: 'ui' });
+        if (result.success && result.data) {
+          if (result.data.status === TaskStatus.COMPLETED) {
+            this.notificationManager.cancelNotification(id);
+            try {
+              const assistant: any = (global as any).assistant;
+              if (assistant && typeof assistant.speak === 'function') {
+                assistant.speak(`Approved: ${result.data.schema.title}`);
+              }
+            } catch {}
+          }
+          this.emitTasksUpdated();
+        }
+        return result;
+      } catch (error) {
+        logger.error('Error reviewing task:', error);
+        throw error;
+      }
+    });
+
+    // Reminder <-> task conversion; the original goes to the trash unless preserveOriginal is set
+    ipcMain.handle('task:convert-reminder', async (_event: any, reminderId: string, options?: { preserveOriginal?: boolean }) => {
+      try {
+        if (!isNonEmptyString(reminderId)) throw new Error('Invalid reminder id');
+        if (!this.reminders) return { success: false, error: 'Reminders are not available' };
+        const reminder = this.reminders.getReminder(reminderId);
+        if (!reminder) return { success: false, error: `Reminder ${reminderId} not found` };
+
+        const preserveOriginal = options?.preserveOriginal === true;
+        const result = await this.engine.convertReminderToTask(reminder, { preserveOriginal, actor: 'ui' });
+        if (result.success && result.data) {
+          if (!preserveOriginal) this.reminders.removeReminder(reminderId);
+          if (result.data.schema.dueDate) this.notificationManager.scheduleTaskDueNotification(result.data);
+          this.emitTasksUpdated();
+        }
+        return result;
+      } catch (error) {
+        logger.error('Error converting reminder to task:', error);
+        throw error;
+      }
+    });
+
+    ipcMain.handle('task:convert-to-reminder', async (_event: any, taskId: string, options?: { preserveOriginal?: boolean }) => {
+      try {
+        if (!isNonEmptyString(taskId)) throw new Error('Invalid id');
+        const reminders = this.reminders;
+        if (!reminders) return { success: false, error: 'Reminders are not available' };
+
+        const preserveOriginal = options?.preserveOriginal === true;
+        const result = await this.engine.convertTaskToReminder(taskId, r => reminders.addReminder(r), { preserveOriginal, actor: 'ui' });
+        if (result.success) {
+          if (!preserveOriginal) this.notificationManager.cancelNotification(taskId);
+          this.emitTasksUpdated();
+        }
+        return result;
+      } catch (error) {
+        logger.error('Error converting task to reminder:', error);
+        throw error;
+      }
+    });
+
+    // Templates
+    ipcMain.handle('template:list', async () => {
+      try {
+        return await this.engine.getTemplates();
+      } catch (error) {
+        logger.error('Error listing templates:', error);
+        throw error;
+      }
+    });
+
+    ipcMain.handle('template:save', async (_event: any, input: TaskTemplateInput, id?: string) => {
+      try {
+        if (!input || typeof input !== 'object') throw new Error('Invalid template');
+        if (id !== undefined && !isNonEmptyString(id)) throw new Error('Invalid id');
+        return await this.engine.saveTemplate(input, id);
+      } catch (error) {
+        logger.error('Error saving template:', error);
+        throw error;
+      }
+    });
+
+    ipcMain.handle('template:delete', async (_event: any, id: string) => {
+      try {
+        if (!isNonEmptyString(id)) throw new Error('Invalid id');
+        return await this.engine.deleteTemplate(id);
+      } catch (error) {
+        logger.error('Error deleting template:', error);
+        throw error;
+      }
+    });
+
+    ipcMain.handle('template:create-task', async (_event: any, template: string, options?: CreateFromTemplateOptions) => {
+      try {
+        if (!isNonEmptyString(template)) throw new Error('Invalid template');
+        if (options?.parentId !== undefined && !isNonEmptyString(options.parentId)) throw new Error('Invalid parentId');
+        const result = await this.engine.createFromTemplate(template, { ...options, actor: 'ui' });
+        if (result.success && result.data) {
+          for (const task of [result.data.task, ...result.data.subtasks]) {
+            if (task.schema.dueDate) this.notificationManager.scheduleTaskDueNotification(task);
+          }
+          this.emitTasksUpdated();
+        }
+        return result;
+      } catch (error) {
+        logger.error('Error creating task from template:', error);
+        throw error;
+      }
+    });
+
+    ipcMain.handle('workflow:get', async () => {
+      try {
+        return await this.engine.getWorkflow();
+      } catch (error) {
+        logger.error('Error loading workflow:', error);
+        throw error;
+      }
+    });
+
+    ipcMain.handle('workflow:save', async (_event: any, workflow: TaskWorkflow) => {
+      try {
+        if (!workflow || typeof workflow !== 'object') throw new Error('Invalid workflow');
+        const result = await this.engine.saveWorkflow(workflow);
+        // Lists re-render with the new labels and allowed moves
+        if (result.success) this.emitTasksUpdated();
+        return result;
+      } catch (error) {
+        logger.error('Error saving workflow:', error);
+        throw error;
+      }
+    });
+
+    // Automation rules
+    ipcMain.handle('automation:list', async () => {
+      try {
+        return await this.engine.getAutomationRules();
+      } catch (error) {
+        logger.error('Error listing automation rules:', error);
+        throw error;
+      }
+    });
+
+    ipcMain.handle('automation:save', async (_event: any, input: AutomationRuleInput, id?: string) => {
+      try {
+        if (!input || typeof input !== 'object') throw new Error('Invalid rule');
+        if (id !== undefined && !isNonEmptyString(id)) throw new Error('Invalid id');
+        return await this.engine.saveAutomationRule(input, id);
+      } catch (error) {
+        logger.error('Error saving automation rule:', error);
+        throw error;
+      }
+    });
+
+    ipcMain.handle('automation:delete', async (_event: any, id: string) => {
+      try {
+        if (!isNonEmptyString(id)) throw new Error('Invalid id');
+        return await this.engine.deleteAutomationRule(id);
+      } catch (error) {
+        logger.error('Error deleting automation rule:', error);
+        throw error;
+      }
+    });
+
+    ipcMain.handle('automation:runs', async (_event: any, options?: { ruleId?: string; limit?: number }) => {
+      try {
+        if (options?.ruleId !== undefined && !isNonEmptyString(options.ruleId)) throw new Error('Invalid rule id');
+        if (options?.limit !== undefined && !(Number.isInteger(options.limit) && options.limit > 0)) throw new Error('Invalid limit');
+        return await this.engine.getAutomationRuns(options || {});
+      } catch (error) {
+        logger.error('Error loading automation runs:', error);
+        throw error;
+      }
+    });
+
+    // Time tracking; changes are pushed as a task list update so elapsed times refresh
+    ipcMain.handle('time:start', async (_event: any, id: string) => {
+      try {
+        if (!isNonEmptyString(id)) throw new Error('Invalid id');
+        const result = await this.engine.startTimer(id, 'ui');
+        if (result.success) this.emitTasksUpdated();
+        return result;
+      } catch (error) {
+        logger.error('Error starting timer:', error);
+        throw error;
+      }
+    });
+
+    ipcMain.handle('time:stop', async (_event: any, id?: string) => {
+      try {
+        if (id !== undefined && !isNonEmptyString(id)) throw new Error('Invalid id');
+        const result = await this.engine.stopTimer(id);
+        if (result.success && result.data) this.emitTasksUpdated();
+        return result;
+      } catch (error) {
+        logger.error('Error stopping timer:', error);
+        throw error;
+      }
+    });
+
+    ipcMain.handle('time:log', async (_event: any, id: string, input: TaskTimeEntryInput) => {
+      try {
+        if (!isNonEmptyString(id)) throw new Error('Invalid id');
+        if (!input || typeof input !== 'object') throw new Error('Invalid time entry');
+        const result = await this.engine.logTime(id, { ...input, actor: 'ui' });
+        if (result.success) this.emitTasksUpdated();
+        return result;
+      } catch (error) {
+        logger.error('Error logging time:', error);
+        throw error;
+      }
+    });
+
+    ipcMain.handle('time:entries', async (_event: any, id: string) => {
+      try {
+        if (!isNonEmptyString(id)) throw new Error('Invalid id');
+        return await this.engine.getTimeEntries(id);
+      } catch (error) {
+        logger.error('Error loading time entries:', error);
+        throw error;
+      }
+    });
+
+    ipcMain.handle('time:delete-entry', async (_event: any, entryId: number) => {
+      try {
+        if (!Number.isInteger(entryId)) throw new Error('Invalid time entry id');
+        const result = await this.engine.deleteTimeEntry(entryId);
+        if (result.success) this.emitTasksUpdated();
+        return result;
+      } catch (error) {
+        logger.error('Error deleting time entry:', error);
+        throw error;
+      }
+    });
+
+    ipcMain.handle('time:summary', async (_event: any) => {
+      try {
+        return await this.engine.getTimeSummary();
+      } catch (error) {
+        logger.error('Error loading time summary:', error);
+        throw error;
+      }
+    });
+
     // Archive completed tasks
     ipcMain.handle('task:archive-completed', async (_event: any) => {
       try {
@@ -270,17 +894,19 @@ export class ElectronTaskManager {
         }
         
         const completedTasks = tasksResult.data.filter((t: TaskyTask) => t.status === TaskStatus.COMPLETED);
-        const results = [];
+        const results: TaskyTask[] = [];
         
-        for (const task of completedTasks) {
-          const archiveResult = await this.engine.updateTask(task.schema.id, { 
-            status: TaskStatus.ARCHIVED
-          });
-          
-          if (archiveResult.success && archiveResult.data) {
-            results.push(archiveResult.data);
+        await this.engine.groupChanges('Archive completed tasks', async () => {
+          for (const task of completedTasks) {
+            const archiveResult = await this.engine.updateTask(task.schema.id, { 
+              status: TaskStatus.ARCHIVED
+            });
+            
+            if (archiveResult.success && archiveResult.data) {
+              results.push(archiveResult.data);
+            }
           }
-        }
+        });
         
         this.emitTasksUpdated();
         return results;
@@ -314,7 +940,7 @@ export class ElectronTaskManager {
         // Helper: create a task safely and push to createdTasks on success
         const tryCreate = async (input: any) => {
           try {
-            const result = await this.engine.createTask(input);
+            const result = await this.engine.createTask({ ...input, actor: 'import' });
             if (result.success && result.data) {
               createdTasks.push(result.data);
             } else {
@@ -421,21 +1047,25 @@ export class ElectronTaskManager {
             // affectedFiles may be a single string or array of strings depending on repeats
             records = tasks;
           }
-          for (const rec of records) {
-            const input = normalizeRecord(rec);
-            if (input.title) await tryCreate(input);
-          }
+          await this.engine.groupChanges('Import tasks', async () => {
+            for (const rec of records) {
+              const input = normalizeRecord(rec);
+              if (input.title) await tryCreate(input);
+            }
+          });
           this.emitTasksUpdated();
           return createdTasks;
         }
 
         // Path B: import from structured payload { tasks: [...] }
         if (importPayload && Array.isArray(importPayload.tasks)) {
-          for (const taskData of importPayload.tasks) {
-            const rawRec = taskData.schema ? taskData.schema : taskData;
-            const input = normalizeRecord(rawRec);
-            if (input.title) await tryCreate(input);
-          }
+          await this.engine.groupChanges('Import tasks', async () => {
+            for (const taskData of importPayload.tasks) {
+              const rawRec = taskData.schema ? taskData.schema : taskData;
+              const input = normalizeRecord(rawRec);
+              if (input.title) await tryCreate(input);
+            }
+          });
           this.emitTasksUpdated();
           return createdTasks;
         }
@@ -490,6 +1120,10 @@ export class ElectronTaskManager {
 
   public async updateTaskDirect(id: string, updates: UpdateTaskInput): Promise<TaskyTask> {
     const result = await this.engine.updateTask(id, updates);
+    if (result.conflict) {
+      const { taskId, expectedVersion, actualVersion, current } = result.conflict;
+      throw new TaskConflictError(taskId, expectedVersion, actualVersion, current);
+    }
     if (!result.success || !result.data) {
       throw new Error(result.error || 'Failed to update task');
     }
@@ -512,6 +1146,40 @@ export class ElectronTaskManager {
     return result.data || [];
   }
 
+  public async listTrashDirect(): Promise<TrashedTask[]> {
+    const result = await this.engine.getTrash();
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to load trash');
+    }
+    return result.data || [];
+  }
+
+  public async restoreFromTrashDirect(id: string): Promise<ToolResult<TaskyTask>> {
+    const result = await this.engine.restoreFromTrash(id, 'ui');
+    if (result.success && result.data) {
+      if (result.data.schema.dueDate) this.notificationManager.scheduleTaskDueNotification(result.data);
+      this.emitTasksUpdated();
+    }
+    return result;
+  }
+
+  public async purgeTrashDirect(options: TrashPurgeOptions = {}): Promise<number> {
+    const result = await this.engine.purgeTrash(options);
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to purge trash');
+    }
+    return result.data || 0;
+  }
+
+  // Recorded as approvedBy; there are no app accounts, so this is the OS user running Tasky
+  private reviewerName(): string {
+    try {
+      return os.userInfo().username || 'reviewer';
+    } catch {
+      return 'reviewer';
+    }
+  }
+
   /**
    * Execute a task - public method that can be called directly or via IPC
    */
@@ -571,15 +1239,19 @@ export class ElectronTaskManager {
             clearInterval(interval);
             try { fs.unlinkSync(sentinelPath); } catch {}
             try {
-              const result = await this.engine.updateTask(id, { status: TaskStatus.COMPLETED } as any);
+              // The agent is done; a reviewer approves or rejects the work from the task list
+              const result = await this.engine.updateTask(id, { status: TaskStatus.NEEDS_REVIEW, actor: 'automation' });
               if (result.success && result.data) {
+                this.emitTasksUpdated();
                 // Use Tasky assistant notification instead of Windows notification
                 try {
                   const assistant: any = (global as any).assistant;
                   if (assistant && typeof assistant.speak === 'function') {
-                    assistant.speak(`Completed: ${result.data.schema.title}`);
+                    assistant.speak(`Ready for review: ${result.data.schema.title}`);
                   }
                 } catch {}
+              } else {
+                logger.warn(`Could not move task ${id} to review:`, result.error);
               }
             } catch {}
           } else if (Date.now() - start > maxWaitMs) {
@@ -606,6 +1278,12 @@ export class ElectronTaskManager {
       if (!initResult.success) {
         throw new Error(initResult.error || 'Failed to initialize task engine');
       }
+      this.startChangeFeed();
+      // Tasks overdue before startup are shown in the list; only announce ones that become overdue later
+      await this.engine.checkOverdue();
+      this.announceOverdue = true;
+      this.startAutomation();
+      this.startOverdueCheck();
       
       // Load existing tasks and schedule notifications
       const tasksResult = await this.engine.getTasks();
@@ -632,6 +1310,8 @@ export class ElectronTaskManager {
 
   // Cleanup method
   cleanup(): void {
+    this.stopChangeFeed();
+    this.stopOverdueCheck();
     this.notificationManager.cleanup();
   }
 }
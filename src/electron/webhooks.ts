@@ -0,0 +1,87 @@
+// eslint-disable-next-line @typescript-eslint/no-var-requires
+const { ipcMain } = require('electron');
+import { WebhookDispatcher } from '../core/webhooks/webhook-dispatcher';
+import { WebhookSqliteStorage } from '../core/storage/WebhookSqliteStorage';
+import type { TaskEventSubscription } from '../types/task';
+import type { WebhookDeliveryFilter, WebhookEvent, WebhookInput } from '../types/webhook';
+import type { ElectronTaskManager } from './task-manager';
+import logger from '../lib/logger';
+
+/**
+ * ElectronWebhooks
+ *
+ * Runs the outbound webhooks in the main process and exposes their settings over IPC
+ * ('webhook:*'). Task events are read from the persistent event log from where the last run
+ * stopped, so changes the MCP agent makes while the app is closed are sent on the next start;
+ * reminder and pomodoro events are published by main.ts as they happen.
+ */
+export class ElectronWebhooks {
+  private dispatcher: WebhookDispatcher;
+  private subscription?: TaskEventSubscription;
+
+  constructor(dbPath: string) {
+    this.dispatcher = new WebhookDispatcher(new WebhookSqliteStorage(dbPath));
+    this.setupIpcHandlers();
+  }
+
+  async start(taskManager: ElectronTaskManager): Promise<void> {
+    this.dispatcher.start();
+    const cursor = this.dispatcher.getEventCursor();
+    const result = await taskManager.subscribeEvents(
+      record => { this.dispatcher.publishTaskEvent(record); },
+      { types: ['task:*'], after: cursor ?? undefined }
+    );
+    if (!result.success || !result.data) {
+      logger.warn('Webhooks will not receive task events:', result.error);
+      return;
+    }
+    this.subscription = result.data;
+  }
+
+  publish(event: WebhookEvent, data: unknown): void {
+    try {
+      this.dispatcher.publish(event, data);
+    } catch (error) {
+      logger.error(`Failed to queue webhooks for ${event}:`, error);
+    }
+  }
+
+  stop(): void {
+    this.subscription?.stop();
+    this.subscription = undefined;
+    this.dispatcher.stop();
+  }
+
+  private setupIpcHandlers(): void {
+    const isNonEmptyString = (v: unknown): v is string => typeof v === 'string' && v.trim().length > 0;
+    const isDeliveryId = (v: unknown): v is number => Number.isInteger(v) && (v as number) > 0;
+
+    ipcMain.handle('webhook:list', async () => this.dispatcher.getWebhooks());
+
+    ipcMain.handle('webhook:save', async (_event: any, input: WebhookInput, id?: string) => {
+      if (!input || typeof input !== 'object') throw new Error('Invalid webhook');
+      if (id !== undefined && !isNonEmptyString(id)) throw new Error('Invalid id');
+      return this.dispatcher.saveWebhook(input, id);
+    });
+
+    ipcMain.handle('webhook:delete', async (_event: any, id: string) => {
+      if (!isNonEmptyString(id)) throw new Error('Invalid id');
+      return this.dispatcher.deleteWebhook(id);
+    });
+
+    ipcMain.handle('webhook:deliveries', async (_event: any, filter?: WebhookDeliveryFilter) => {
+      if (filter?.limit !== undefined && !(Number.isInteger(filter.limit) && filter.limit > 0)) throw new Error('Invalid limit');
+      return this.dispatcher.getDeliveries(filter || {});
+    });
+
+    ipcMain.handle('webhook:redeliver', async (_event: any, id: number) => {
+      if (!isDeliveryId(id)) throw new Error('Invalid delivery id');
+      return this.dispatcher.redeliver(id);
+    });
+
+    ipcMain.handle('webhook:discard', async (_event: any, id: number) => {
+      if (!isDeliveryId(id)) throw new Error('Invalid delivery id');
+      return this.dispatcher.discardDelivery(id);
+    });
+  }
+}
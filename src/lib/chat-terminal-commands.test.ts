@@ -0,0 +1,80 @@
+import { describe, it, expect, vi } from 'vitest';
+import { parseChatCommand, parseChatCommandLine, runChatCommand } from './chat-terminal-commands';
+
+function makeContext() {
+  return {
+    undoTaskChange: vi.fn().mockResolvedValue({
+      success: true,
+      data: { label: 'Delete "Write docs"', state: { canUndo: true, canRedo: true, undoLabel: 'Create "Write docs"' } }
+    }),
+    redoTaskChange: vi.fn().mockResolvedValue({ success: false, error: 'Nothing to redo' }),
+    getTaskTemplates: vi.fn().mockResolvedValue({
+      success: true,
+      data: [{ id: 'bug-triage', name: 'Bug triage', title: 'Triage: {{bug}}', createdAt: new Date(), updatedAt: new Date() }]
+    }),
+    createTaskFromTemplate: vi.fn().mockResolvedValue({
+      success: true,
+      data: { task: { schema: { title: 'Triage: Login fails' } }, subtasks: [{}, {}] }
+    })
+  };
+}
+
+describe('parseChatCommand', () => {
+  it('recognises single-word slash commands only', () => {
+    expect(parseChatCommand(' /Undo ')).toBe('undo');
+    expect(parseChatCommand('/src/app.ts is broken')).toBeNull();
+    expect(parseChatCommand('please /undo')).toBeNull();
+  });
+
+  it('splits a command line into name and arguments', () => {
+    expect(parseChatCommandLine('/Template  Bug triage bug=x ')).toEqual({ name: 'template', args: 'Bug triage bug=x' });
+    expect(parseChatCommandLine('/src/app.ts is broken')).toBeNull();
+  });
+});
+
+describe('runChatCommand', () => {
+  it('undoes the last change and names the next one', async () => {
+    const context = makeContext();
+    const reply = await runChatCommand('/undo', context);
+    expect(context.undoTaskChange).toHaveBeenCalledTimes(1);
+    expect(reply).toBe('Undid: Delete "Write docs" (/undo again to revert Create "Write docs")');
+  });
+
+  it('reports engine errors and unknown commands', async () => {
+    const context = makeContext();
+    expect(await runChatCommand('/redo', context)).toBe('Nothing to redo');
+    expect(await runChatCommand('/frobnicate', context)).toMatch(/Unknown command \/frobnicate/);
+    expect(await runChatCommand('list tasks', context)).toBeNull();
+  });
+
+  it('leaves text after commands without arguments for the model', async () => {
+    const context = makeContext();
+    expect(await runChatCommand('/undo the rename please', context)).toBeNull();
+    expect(await runChatCommand('/etc is odd', context)).toBeNull();
+    expect(context.undoTaskChange).not.toHaveBeenCalled();
+  });
+
+  it('lists templates with the values they need', async () => {
+    expect(await runChatCommand('/template', makeContext())).toBe(
+      'Templates:\n- Bug triage (bug=…)\nUse /template <name> key=value … to create a task from one.'
+    );
+  });
+
+  it('creates a task from a template with quoted values', async () => {
+    const context = makeContext();
+    const reply = await runChatCommand('/template Bug triage bug="Login fails" "area=auth flow"', context);
+    expect(context.createTaskFromTemplate).toHaveBeenCalledWith('Bug triage', { values: { bug: 'Login fails', area: 'auth flow' } });
+    expect(reply).toBe('Created "Triage: Login fails" with 2 subtasks');
+
+    context.createTaskFromTemplate.mockResolvedValue({ success: false, error: 'Missing value for {{bug}}' });
+    expect(await runChatCommand('/template "Bug triage"', context)).toBe('Missing value for {{bug}}');
+    expect(context.createTaskFromTemplate).toHaveBeenLastCalledWith('Bug triage', { values: {} });
+  });
+
+  it('lists the commands', async () => {
+    const reply = await runChatCommand('/help', makeContext());
+    expect(reply).toContain('/undo - ');
+    expect(reply).toContain('/redo - ');
+    expect(reply).toContain('/template [name key=value …] - ');
+  });
+});
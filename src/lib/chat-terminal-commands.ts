@@ -0,0 +1,120 @@
+import type { CreateFromTemplateOptions, TaskTemplate, TaskTemplateInstance, TaskUndoResult, ToolResult } from '../types/task';
+import { getTemplateVariables } from './task-templates';
+
+// Slash commands typed into the chat composer. They run locally and never reach the model.
+
+export interface ChatCommandContext {
+  undoTaskChange: () => Promise<ToolResult<TaskUndoResult>>;
+  redoTaskChange: () => Promise<ToolResult<TaskUndoResult>>;
+  getTaskTemplates: () => Promise<ToolResult<TaskTemplate[]>>;
+  createTaskFromTemplate: (template: string, options?: CreateFromTemplateOptions) => Promise<ToolResult<TaskTemplateInstance>>;
+}
+
+export interface ChatTerminalCommand {
+  name: string;
+  description: string;
+  // Set for commands that take arguments; others only run when typed on their own
+  usage?: string;
+  run: (context: ChatCommandContext, args: string) => Promise<string>;
+}
+
+const describeReplay = (result: ToolResult<TaskUndoResult>, verb: string): string => {
+  if (!result.success || !result.data) return result.error || `Could not ${verb.toLowerCase()}`;
+  const { label, state } = result.data;
+  const next = verb === 'Undid' ? state.undoLabel && `/undo again to revert ${state.undoLabel}` : state.redoLabel && `/redo again for ${state.redoLabel}`;
+  return `${verb}: ${label}${next ? ` (${next})` : ''}`;
+};
+
+// Split on whitespace, keeping "double quoted" parts together (quotes may start mid-token: key="a b")
+const tokenizeArgs = (args: string): string[] =>
+  Array.from(args.matchAll(/(?:[^\s"]+|"[^"]*")+/g), m => m[0].replace(/"/g, ''));
+
+const listTemplates = async (context: ChatCommandContext): Promise<string> => {
+  const result = await context.getTaskTemplates();
+  if (!result.success) return result.error || 'Could not load templates';
+  const templates = result.data || [];
+  if (templates.length === 0) return 'No templates yet. Add some under Tasks → Templates.';
+  const lines = templates.map(t => {
+    const variables = getTemplateVariables(t);
+    return `- ${t.name}${variables.length > 0 ? ` (${variables.map(v => `${v}=…`).join(' ')})` : ''}`;
+  });
+  return ['Templates:', ...lines, 'Use /template <name> key=value … to create a task from one.'].join('\n');
+};
+
+// "/template Bug triage bug="Login fails"": the words before the first key=value name the template
+const createFromTemplate = async (context: ChatCommandContext, args: string): Promise<string> => {
+  const tokens = tokenizeArgs(args);
+  const firstValue = tokens.findIndex(t => /^[a-zA-Z][\w-]*=/.test(t));
+  const nameTokens = firstValue === -1 ? tokens : tokens.slice(0, firstValue);
+  const values: Record<string, string> = {};
+  for (const token of firstValue === -1 ? [] : tokens.slice(firstValue)) {
+    const eq = token.indexOf('=');
+    if (eq <= 0) return `Expected key=value, got "${token}"`;
+    values[token.slice(0, eq)] = token.slice(eq + 1);
+  }
+  if (nameTokens.length === 0) return 'Name the template to use, e.g. /template "Bug triage" bug="Login fails"';
+
+  const result = await context.createTaskFromTemplate(nameTokens.join(' '), { values });
+  if (!result.success || !result.data) return result.error || 'Could not create the task';
+  const { task, subtasks } = result.data;
+  const extra = subtasks.length > 0 ? ` with ${subtasks.length} subtask${subtasks.length === 1 ? '' : 's'}` : '';
+  return `Created "${task.schema.title}"${extra}${result.warnings?.length ? ` (${result.warnings.join('; ')})` : ''}`;
+};
+
+export const CHAT_TERMINAL_COMMANDS: ChatTerminalCommand[] = [
+  {
+    name: 'undo',
+    description: 'Revert the last task change, including ones made from chat',
+    run: async context => describeReplay(await context.undoTaskChange(), 'Undid')
+  },
+  {
+    name: 'redo',
+    description: 'Re-apply the last undone task change',
+    run: async context => describeReplay(await context.redoTaskChange(), 'Redid')
+  },
+  {
+    name: 'template',
+    description: 'List task templates, or create a task from one',
+    usage: '/template [name key=value …]',
+    run: async (context, args) => (args ? createFromTemplate(context, args) : listTemplates(context))
+  },
+  {
+    name: 'help',
+    description: 'List chat commands',
+    run: async () => CHAT_TERMINAL_COMMANDS.map(c => `${c.usage || `/${c.name}`} - ${c.description}`).join('\n')
+  }
+];
+
+/**
+ * The command name in a "/name" message, or null for ordinary text (including paths like "/src/app.ts").
+ */
+export function parseChatCommand(input: string): string | null {
+  const match = /^\/([a-z][\w-]*)\s*$/i.exec(input.trim());
+  return match ? match[1].toLowerCase() : null;
+}
+
+/**
+ * Name and argument text of a "/name args" message, or null when it doesn't start with a command word.
+ */
+export function parseChatCommandLine(input: string): { name: string; args: string } | null {
+  const match = /^\/([a-z][\w-]*)(?:\s+([\s\S]*))?$/i.exec(input.trim());
+  return match ? { name: match[1].toLowerCase(), args: (match[2] || '').trim() } : null;
+}
+
+/**
+ * Run a slash command and return the reply to show, or null when `input` isn't a command.
+ * Text after a command that takes no arguments (or an unknown one) is left for the model.
+ */
+export async function runChatCommand(input: string, context: ChatCommandContext): Promise<string | null> {
+  const line = parseChatCommandLine(input);
+  if (!line) return null;
+  const { name, args } = line;
+  const command = CHAT_TERMINAL_COMMANDS.find(c => c.name === name);
+  if (args && !command?.usage) return null;
+  if (!command) return `Unknown command /${name}. Type /help to see the available commands.`;
+  try {
+    return await command.run(context, args);
+  } catch (error) {
+    return `/${name} failed: ${error instanceof Error ? error.message : String(error)}`;
+  }
+}
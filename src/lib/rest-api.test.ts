@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { buildOpenApiDocument, matchRestRoute, taskListQuerySchema, toTaskFilters } from './rest-api';
+
+describe('matchRestRoute', () => {
+  it('matches a route with its path parameters', () => {
+    const match = matchRestRoute('PATCH', '/v1/tasks/abc%20123');
+    expect(match && 'route' in match && match.route.operationId).toBe('updateTask');
+    expect(match && 'params' in match && match.params).toEqual({ id: 'abc 123' });
+  });
+
+  it('lists the allowed methods for a known path, and null for unknown ones', () => {
+    expect(matchRestRoute('PUT', '/v1/pomodoro')).toEqual({ allowed: ['GET', 'POST'] });
+    expect(matchRestRoute('GET', '/v1/tasks/1/comments')).toBeNull();
+  });
+
+  it('rejects malformed percent-encoding with a 400', () => {
+    expect(() => matchRestRoute('GET', '/v1/tasks/%E0%A4%A')).toThrow(expect.objectContaining({ status: 400, message: 'Malformed path' }));
+  });
+});
+
+describe('taskListQuerySchema', () => {
+  it('turns query strings into task filters', () => {
+    const query = taskListQuerySchema.parse({ status: 'PENDING, IN_PROGRESS', hasFiles: 'false', dueTo: '2030-01-01', limit: '10' });
+    expect(toTaskFilters(query)).toMatchObject({
+      status: ['PENDING', 'IN_PROGRESS'],
+      hasFiles: false,
+      dueDateTo: new Date('2030-01-01'),
+      limit: 10,
+      offset: 0
+    });
+  });
+});
+
+describe('buildOpenApiDocument', () => {
+  it('describes every route from its schemas', () => {
+    const doc = buildOpenApiDocument('http://127.0.0.1:9000') as any;
+    expect(doc.servers).toEqual([{ url: 'http://127.0.0.1:9000' }]);
+
+    const list = doc.paths['/v1/tasks'].get;
+    expect(list['x-tasky-scope']).toBe('read');
+    const limit = list.parameters.find((p: any) => p.name === 'limit');
+    expect(limit).toMatchObject({ in: 'query', required: false, schema: { maximum: 200, default: 50 } });
+
+    const create = doc.paths['/v1/tasks'].post;
+    expect(create.requestBody.content['application/json'].schema.required).toEqual(['title']);
+    expect(Object.keys(create.responses)).toEqual(['201', '400', '401', '403']);
+    expect(doc.paths['/v1/openapi.json'].get.security).toEqual([]);
+  });
+});
@@ -0,0 +1,424 @@
+import { z } from 'zod/v4';
+import type { Reminder } from '../types/index';
+import type { TaskFilterOptions, TaskSortField, TaskyTask } from '../types/task';
+import type { ApiTokenScope } from '../types/api';
+import { toRRule } from './task-recurrence';
+
+// The local REST API on the HTTP bridge: request and response schemas, the route table and the
+// OpenAPI document built from both. The server (core/rest-api) validates with these same schemas,
+// so the document can't drift from what is accepted.
+
+export const REST_API_VERSION = '1.0.0';
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 200;
+
+const TASK_SORT_FIELDS: [TaskSortField, ...TaskSortField[]] = ['dueDate', 'created', 'updated', 'title', 'status'];
+const WEEKDAYS = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'] as const;
+
+const dateTime = z.string().meta({ format: 'date-time' });
+const isoDate = z.string()
+  .refine(text => !Number.isNaN(Date.parse(text)), 'Expected an ISO 8601 date')
+  .transform(text => new Date(text))
+  .meta({ format: 'date-time' });
+const commaList = z.string().transform(text => text.split(',').map(part => part.trim()).filter(Boolean));
+const booleanFlag = z.enum(['true', 'false']).transform(flag => flag === 'true');
+const pagination = {
+  limit: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).default(DEFAULT_PAGE_SIZE).describe(`Page size (at most ${MAX_PAGE_SIZE})`),
+  offset: z.coerce.number().int().min(0).default(0).describe('Items to skip')
+};
+const page = <T extends z.ZodType>(item: T) => z.object({
+  items: z.array(item),
+  total: z.number().int().describe('Matches before limit/offset'),
+  limit: z.number().int(),
+  offset: z.number().int()
+});
+
+// --- Requests ---
+
+export const taskListQuerySchema = z.object({
+  status: commaList.optional().describe('Comma-separated statuses, e.g. PENDING,IN_PROGRESS'),
+  tags: commaList.optional().describe('Comma-separated tags; a task matches with any of them'),
+  search: z.string().optional().describe('Words match by prefix, "quoted phrases" exactly'),
+  dueFrom: isoDate.optional(),
+  dueTo: isoDate.optional(),
+  createdAfter: isoDate.optional(),
+  createdBefore: isoDate.optional(),
+  hasFiles: booleanFlag.optional(),
+  sort: z.enum(TASK_SORT_FIELDS).optional().describe('Defaults to due date (undated last), then newest first'),
+  order: z.enum(['asc', 'desc']).optional(),
+  ...pagination
+});
+
+const checklistItem = z.object({ text: z.string().min(1), done: z.boolean().optional() });
+
+export const createTaskBodySchema = z.strictObject({
+  title: z.string().trim().min(1),
+  description: z.string().optional(),
+  dueDate: isoDate.optional(),
+  tags: z.array(z.string()).optional(),
+  estimatedDuration: z.number().int().positive().optional().describe('Minutes'),
+  dependencies: z.array(z.string()).optional().describe('IDs of tasks this one waits for'),
+  assignedAgent: z.enum(['gemini', 'claude']).optional(),
+  executionPath: z.string().optional(),
+  parentId: z.string().optional().describe('Makes this a subtask'),
+  checklist: z.array(checklistItem).optional(),
+  recurrence: z.string().optional().describe('RRULE, e.g. FREQ=WEEKLY;BYDAY=MO,WE')
+});
+
+export const updateTaskBodySchema = createTaskBodySchema.partial().extend({
+  status: z.string().optional().describe('A status of the configured workflow'),
+  parentId: z.string().nullable().optional().describe('null detaches a subtask'),
+  recurrence: z.string().nullable().optional().describe('null stops the series'),
+  expectedVersion: z.number().int().positive().optional().describe('Fail with 409 if the task has moved past this version')
+});
+
+export const reminderListQuerySchema = z.object({
+  enabled: booleanFlag.optional(),
+  ...pagination
+});
+
+export const reminderBodySchema = z.strictObject({
+  message: z.string().trim().min(1),
+  time: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Expected a time as HH:MM').describe('HH:MM, 24-hour'),
+  days: z.array(z.enum(WEEKDAYS)).min(1),
+  enabled: z.boolean().default(true),
+  oneTime: z.boolean().optional().describe('Disable after it triggers once')
+});
+
+export const reminderUpdateSchema = reminderBodySchema.partial().extend({ enabled: z.boolean().optional() });
+
+export const pomodoroActionSchema = z.strictObject({
+  action: z.enum(['start', 'pause', 'reset', 'reset-all']).describe('reset restarts the current session, reset-all the whole cycle')
+});
+
+export const apiTokenInputSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100, 'Name too long (max 100 characters)'),
+  scope: z.enum(['read', 'write'], { error: 'Scope must be read or write' })
+});
+
+// --- Responses ---
+
+export const apiTaskSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  description: z.string().optional(),
+  status: z.string(),
+  dueDate: dateTime.optional(),
+  tags: z.array(z.string()),
+  estimatedDuration: z.number().optional(),
+  dependencies: z.array(z.string()),
+  assignedAgent: z.enum(['gemini', 'claude']).optional(),
+  executionPath: z.string().optional(),
+  parentId: z.string().optional(),
+  checklist: z.array(z.object({ id: z.string(), text: z.string(), done: z.boolean() })).optional(),
+  recurrence: z.string().optional(),
+  createdAt: dateTime,
+  updatedAt: dateTime.optional(),
+  completedAt: dateTime.optional(),
+  version: z.number().int().describe('Pass as expectedVersion to update only if nobody changed it since')
+});
+
+export const apiReminderSchema = z.object({
+  id: z.string(),
+  message: z.string(),
+  time: z.string(),
+  days: z.array(z.string()),
+  enabled: z.boolean(),
+  oneTime: z.boolean().optional(),
+  createdAt: dateTime.optional(),
+  updatedAt: dateTime.optional(),
+  triggeredAt: dateTime.optional()
+});
+
+export const pomodoroStateSchema = z.object({
+  minutes: z.number().int(),
+  seconds: z.number().int(),
+  isRunning: z.boolean(),
+  sessionType: z.enum(['work', 'shortBreak', 'longBreak']),
+  sessionCount: z.number().int(),
+  cycleCount: z.number().int()
+});
+
+export const taskStatsSchema = z.object({
+  total: z.number().int(),
+  byStatus: z.record(z.string(), z.number().int()),
+  byTags: z.record(z.string(), z.number().int()),
+  averageCompletionTime: z.number(),
+  completionRate: z.number(),
+  overdueCount: z.number().int(),
+  dueTodayCount: z.number().int(),
+  productivityTrend: z.enum(['increasing', 'decreasing', 'stable'])
+});
+
+export const apiErrorSchema = z.object({
+  error: z.string(),
+  issues: z.array(z.object({ path: z.string(), message: z.string() })).optional()
+});
+
+export type ApiTask = z.infer<typeof apiTaskSchema>;
+export type ApiReminder = z.infer<typeof apiReminderSchema>;
+export type ApiPomodoroState = z.infer<typeof pomodoroStateSchema>;
+export type ApiError = z.infer<typeof apiErrorSchema>;
+export type ApiPage<T> = { items: T[]; total: number; limit: number; offset: number };
+
+const iso = (value: Date | string | undefined): string | undefined => (value ? new Date(value).toISOString() : undefined);
+
+export function toApiTask(task: TaskyTask): ApiTask {
+  const { schema } = task;
+  return {
+    id: schema.id,
+    title: schema.title,
+    description: schema.description,
+    status: task.status,
+    dueDate: iso(schema.dueDate),
+    tags: schema.tags || [],
+    estimatedDuration: schema.estimatedDuration,
+    dependencies: schema.dependencies || [],
+    assignedAgent: schema.assignedAgent,
+    executionPath: schema.executionPath,
+    parentId: schema.parentId,
+    checklist: schema.checklist,
+    recurrence: schema.recurrence ? toRRule(schema.recurrence) : undefined,
+    createdAt: iso(schema.createdAt)!,
+    updatedAt: iso(schema.updatedAt),
+    completedAt: iso(task.completedAt),
+    version: task.metadata?.version ?? 1
+  };
+}
+
+export function toApiReminder(reminder: Reminder): ApiReminder {
+  return {
+    id: reminder.id,
+    message: reminder.message,
+    time: reminder.time,
+    days: reminder.days,
+    enabled: reminder.enabled,
+    oneTime: reminder.oneTime,
+    createdAt: iso(reminder.createdAt),
+    updatedAt: iso(reminder.updatedAt),
+    triggeredAt: iso(reminder.triggeredAt)
+  };
+}
+
+export function toTaskFilters(query: z.output<typeof taskListQuerySchema>): TaskFilterOptions {
+  return {
+    status: query.status,
+    tags: query.tags,
+    search: query.search,
+    dueDateFrom: query.dueFrom,
+    dueDateTo: query.dueTo,
+    createdAfter: query.createdAfter,
+    createdBefore: query.createdBefore,
+    hasFiles: query.hasFiles,
+    sortBy: query.sort,
+    sortOrder: query.order,
+    limit: query.limit,
+    offset: query.offset
+  };
+}
+
+// "title: Too small: …" lines for a 400 response
+export function toApiIssues(error: z.ZodError): NonNullable<ApiError['issues']> {
+  return error.issues.map(issue => ({ path: issue.path.join('.'), message: issue.message }));
+}
+
+// --- Routes ---
+
+export type RestApiMethod = 'GET' | 'POST' | 'PATCH' | 'DELETE';
+
+export interface RestApiRoute {
+  operationId: string;
+  method: RestApiMethod;
+  path: string; // OpenAPI template, e.g. /v1/tasks/{id}
+  summary: string;
+  scope?: ApiTokenScope; // token scope needed; none for public routes
+  query?: z.ZodObject;
+  body?: z.ZodType;
+  status: number; // on success
+  response?: z.ZodType;
+  conflict?: string; // when the route can answer 409
+}
+
+// Kept with its literal types, so RestApiRequests knows which schemas each operation's route has
+const ROUTE_TABLE = [
+  { operationId: 'listTasks', method: 'GET', path: '/v1/tasks', summary: 'List tasks, filtered and paged', scope: 'read', query: taskListQuerySchema, status: 200, response: page(apiTaskSchema) },
+  { operationId: 'createTask', method: 'POST', path: '/v1/tasks', summary: 'Create a task', scope: 'write', body: createTaskBodySchema, status: 201, response: apiTaskSchema },
+  { operationId: 'getTask', method: 'GET', path: '/v1/tasks/{id}', summary: 'Get a task', scope: 'read', status: 200, response: apiTaskSchema },
+  {
+    operationId: 'updateTask',
+    method: 'PATCH',
+    path: '/v1/tasks/{id}',
+    summary: 'Change some fields of a task',
+    scope: 'write',
+    body: updateTaskBodySchema,
+    status: 200,
+    response: apiTaskSchema,
+    conflict: 'The task changed since expectedVersion'
+  },
+  { operationId: 'deleteTask', method: 'DELETE', path: '/v1/tasks/{id}', summary: 'Move a task to the trash', scope: 'write', status: 204 },
+  { operationId: 'listReminders', method: 'GET', path: '/v1/reminders', summary: 'List reminders', scope: 'read', query: reminderListQuerySchema, status: 200, response: page(apiReminderSchema) },
+  { operationId: 'createReminder', method: 'POST', path: '/v1/reminders', summary: 'Create and schedule a reminder', scope: 'write', body: reminderBodySchema, status: 201, response: apiReminderSchema },
+  { operationId: 'getReminder', method: 'GET', path: '/v1/reminders/{id}', summary: 'Get a reminder', scope: 'read', status: 200, response: apiReminderSchema },
+  { operationId: 'updateReminder', method: 'PATCH', path: '/v1/reminders/{id}', summary: 'Change some fields of a reminder', scope: 'write', body: reminderUpdateSchema, status: 200, response: apiReminderSchema },
+  { operationId: 'deleteReminder', method: 'DELETE', path: '/v1/reminders/{id}', summary: 'Move a reminder to the trash', scope: 'write', status: 204 },
+  { operationId: 'getPomodoro', method: 'GET', path: '/v1/pomodoro', summary: 'Get the pomodoro timer', scope: 'read', status: 200, response: pomodoroStateSchema },
+  {
+    operationId: 'controlPomodoro',
+    method: 'POST',
+    path: '/v1/pomodoro',
+    summary: 'Start, pause or reset the pomodoro timer',
+    scope: 'write',
+    body: pomodoroActionSchema,
+    status: 200,
+    response: pomodoroStateSchema,
+    conflict: 'The timer is already running (start) or not running (pause)'
+  },
+  { operationId: 'getStats', method: 'GET', path: '/v1/stats', summary: 'Task statistics', scope: 'read', status: 200, response: taskStatsSchema },
+  { operationId: 'getOpenApi', method: 'GET', path: '/v1/openapi.json', summary: 'This OpenAPI document', status: 200 }
+] as const satisfies readonly RestApiRoute[];
+
+export const REST_API_ROUTES: readonly RestApiRoute[] = ROUTE_TABLE;
+
+type Parsed<T> = T extends z.ZodType ? z.output<T> : undefined;
+
+/**
+ * What each operation is called with, by operationId: the path parameters, and the query and
+ * body as parsed by its route's schemas (undefined when the route has none)
+ */
+export type RestApiRequests = {
+  [R in (typeof ROUTE_TABLE)[number] as R['operationId']]: {
+    params: Record<string, string>;
+    query: Parsed<R extends { query: infer Q } ? Q : undefined>;
+    body: Parsed<R extends { body: infer B } ? B : undefined>;
+  };
+};
+
+export type RestRouteMatch =
+  | { route: RestApiRoute; params: Record<string, string> }
+  | { allowed: RestApiMethod[] }; // the path exists, but not for this method
+
+const routePatterns = REST_API_ROUTES.map(route => {
+  const names: string[] = [];
+  const source = route.path.replace(/[.]/g, '\\.').replace(/\{(\w+)\}/g, (_match, name: string) => {
+    names.push(name);
+    return '([^/]+)';
+  });
+  return { route, names, pattern: new RegExp(`^${source}$`) };
+});
+
+/**
+ * An error answered with its HTTP status, e.g. 404 for an unknown id or 503 from a service
+ * that isn't running yet.
+ */
+export class RestApiError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string,
+    public readonly issues?: ApiError['issues']
+  ) {
+    super(message);
+    this.name = 'RestApiError';
+  }
+}
+
+/**
+ * Find the route for a request. Null when no route has the path; `allowed` when only the
+ * method is wrong (a 405). Throws a 400 RestApiError for a path parameter that isn't valid
+ * percent-encoding.
+ */
+export function matchRestRoute(method: string, pathname: string): RestRouteMatch | null {
+  const allowed: RestApiMethod[] = [];
+  for (const { route, names, pattern } of routePatterns) {
+    const match = pattern.exec(pathname);
+    if (!match) continue;
+    if (route.method !== method) {
+      allowed.push(route.method);
+      continue;
+    }
+    const params: Record<string, string> = {};
+    try {
+      names.forEach((name, i) => { params[name] = decodeURIComponent(match[i + 1]); });
+    } catch {
+      throw new RestApiError(400, 'Malformed path');
+    }
+    return { route, params };
+  }
+  return allowed.length > 0 ? { allowed } : null;
+}
+
+// --- OpenAPI ---
+
+const jsonSchema = (schema: z.ZodType, io: 'input' | 'output'): Record<string, unknown> => {
+  const { $schema: _ignored, ...json } = z.toJSONSchema(schema, { io }) as Record<string, unknown>;
+  return json;
+};
+
+const jsonContent = (schema: z.ZodType, io: 'input' | 'output') => ({
+  'application/json': { schema: jsonSchema(schema, io) }
+});
+
+const errorResponse = (description: string) => ({ description, content: jsonContent(apiErrorSchema, 'output') });
+
+function describeOperation(route: RestApiRoute): Record<string, unknown> {
+  const parameters: Array<Record<string, unknown>> = [];
+  for (const match of route.path.matchAll(/\{(\w+)\}/g)) {
+    parameters.push({ name: match[1], in: 'path', required: true, schema: { type: 'string' } });
+  }
+  for (const [name, field] of Object.entries(route.query?.shape ?? {})) {
+    const { description, ...schema } = jsonSchema(field as z.ZodType, 'input');
+    parameters.push({
+      name,
+      in: 'query',
+      required: !(field as z.ZodType).safeParse(undefined).success,
+      ...(description !== undefined && { description }),
+      schema
+    });
+  }
+
+  const responses: Record<string, unknown> = {
+    [route.status]: route.response
+      ? { description: 'OK', content: jsonContent(route.response, 'output') }
+      : { description: route.status === 204 ? 'Done' : 'OK' }
+  };
+  if (route.query || route.body) responses[400] = errorResponse('The request is invalid; see issues');
+  if (route.scope) responses[401] = errorResponse('Missing or unknown token');
+  if (route.scope === 'write') responses[403] = errorResponse('The token is read-only');
+  if (route.path.includes('{id}')) responses[404] = errorResponse('Not found');
+  if (route.conflict) responses[409] = errorResponse(route.conflict);
+
+  return {
+    operationId: route.operationId,
+    summary: route.summary,
+    ...(route.scope ? { 'x-tasky-scope': route.scope } : { security: [] }),
+    ...(parameters.length > 0 && { parameters }),
+    ...(route.body && { requestBody: { required: true, content: jsonContent(route.body, 'input') } }),
+    responses
+  };
+}
+
+/**
+ * The OpenAPI 3.1 document for the REST API, generated from REST_API_ROUTES and their schemas.
+ */
+export function buildOpenApiDocument(serverUrl = 'http://127.0.0.1:7844'): Record<string, unknown> {
+  const paths: Record<string, Record<string, unknown>> = {};
+  for (const route of REST_API_ROUTES) {
+    paths[route.path] = { ...paths[route.path], [route.method.toLowerCase()]: describeOperation(route) };
+  }
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'Tasky REST API',
+      version: REST_API_VERSION,
+      description: 'Local API for tasks, reminders, the pomodoro timer and statistics. Send a token as '
+        + '"Authorization: Bearer <token>"; read tokens may only make GET requests.'
+    },
+    servers: [{ url: serverUrl }],
+    security: [{ bearerAuth: [] }],
+    components: {
+      securitySchemes: {
+        bearerAuth: { type: 'http', scheme: 'bearer', description: 'An API token from Settings → REST API' }
+      }
+    },
+    paths
+  };
+}
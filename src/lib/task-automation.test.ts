@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import {
+  automationReminder,
+  automationTaskUpdates,
+  describeAutomationConditions,
+  matchingAutomationRules,
+  validateAutomationRule
+} from './task-automation';
+import { AutomationRule, AutomationRuleInput, TaskStatus, TaskyTask } from '../types/task';
+
+const NOW = new Date(2025, 2, 10, 9, 0); // a Monday
+const STATUSES = [TaskStatus.PENDING, TaskStatus.IN_PROGRESS, TaskStatus.NEEDS_REVIEW, TaskStatus.COMPLETED, TaskStatus.ARCHIVED];
+
+const task = (schema: Partial<TaskyTask['schema']> = {}, status: string = TaskStatus.PENDING): TaskyTask => ({
+  status,
+  schema: { id: 't1', title: 'Crash on save', createdAt: NOW, tags: ['Bug'], ...schema }
+} as TaskyTask);
+
+const triageBugs: AutomationRuleInput = {
+  name: ' Triage bugs ',
+  enabled: true,
+  trigger: 'task:created',
+  conditions: { tags: [' BUG '], assignedAgent: 'unassigned' },
+  actions: [{ type: 'assign-agent', agent: 'claude' }, { type: 'add-reminder', after: '1h' }]
+};
+
+const rule = (input: AutomationRuleInput, id = 'r1'): AutomationRule => ({
+  ...validateAutomationRule(input, STATUSES),
+  id,
+  createdAt: NOW,
+  updatedAt: NOW
+});
+
+describe('task-automation', () => {
+  it('validates and tidies rules', () => {
+    expect(validateAutomationRule(triageBugs, STATUSES)).toEqual({
+      name: 'Triage bugs',
+      enabled: true,
+      trigger: 'task:created',
+      conditions: { tags: ['bug'], assignedAgent: 'unassigned' },
+      actions: [{ type: 'assign-agent', agent: 'claude' }, { type: 'add-reminder', after: '1h' }]
+    });
+    expect(validateAutomationRule({ ...triageBugs, actions: [{ type: 'set-status', status: 'needs review' }] }, STATUSES).actions)
+      .toEqual([{ type: 'set-status', status: TaskStatus.NEEDS_REVIEW }]);
+
+    expect(() => validateAutomationRule({ ...triageBugs, name: '' }, STATUSES)).toThrow(/name is required/);
+    expect(() => validateAutomationRule({ ...triageBugs, trigger: 'task:deleted' as any }, STATUSES)).toThrow(/Unknown trigger/);
+    expect(() => validateAutomationRule({ ...triageBugs, actions: [] }, STATUSES)).toThrow(/at least one action/);
+    expect(() => validateAutomationRule({ ...triageBugs, actions: [{ type: 'set-status', status: 'IN_QA' }] }, STATUSES)).toThrow(/Unknown status/);
+    expect(() => validateAutomationRule({ ...triageBugs, actions: [{ type: 'add-reminder', after: 'later' }] }, STATUSES)).toThrow(/Invalid due offset/);
+    expect(() => validateAutomationRule({ ...triageBugs, actions: [{ type: 'notify' }, { type: 'notify', message: 'again' }] }, STATUSES))
+      .toThrow(/used once/);
+  });
+
+  it('matches enabled rules for the trigger whose conditions the task meets', () => {
+    const rules = [
+      rule(triageBugs, 'bugs'),
+      rule({ ...triageBugs, enabled: false }, 'disabled'),
+      rule({ ...triageBugs, trigger: 'task:overdue' }, 'overdue'),
+      rule({ ...triageBugs, conditions: { titleContains: 'SAVE', statuses: [TaskStatus.PENDING] } }, 'title')
+    ];
+    const ids = (t: TaskyTask, source = 'user') =>
+      matchingAutomationRules(rules, 'task:created', { task: t, source } as any).map(r => r.id);
+
+    expect(ids(task())).toEqual(['bugs', 'title']);
+    expect(ids(task({ assignedAgent: 'gemini' }))).toEqual(['title']);
+    expect(ids(task({ tags: [] }, TaskStatus.IN_PROGRESS))).toEqual([]);
+    expect(ids(task(), 'undo')).toEqual([]);
+    expect(matchingAutomationRules(rules, 'task:overdue', { task: task(), overdueDuration: 5 }).map(r => r.id)).toEqual(['overdue']);
+  });
+
+  it('only changes what the task does not already have', () => {
+    const actions = validateAutomationRule({
+      ...triageBugs,
+      actions: [{ type: 'set-status', status: TaskStatus.NEEDS_REVIEW }, { type: 'add-tags', tags: ['bug', 'triage'] }, { type: 'notify' }]
+    }, STATUSES).actions;
+
+    expect(automationTaskUpdates(actions, task())).toEqual({ status: TaskStatus.NEEDS_REVIEW, tags: ['Bug', 'triage'] });
+    expect(automationTaskUpdates(actions, task({ tags: ['bug', 'triage'] }, TaskStatus.NEEDS_REVIEW))).toBeNull();
+  });
+
+  it('builds one-time reminders and describes conditions', () => {
+    const reminder = automationReminder(task({ dueDate: new Date(2025, 2, 11, 17, 0) }), { type: 'add-reminder', after: '15h', message: 'Check {{title}} (due {{due}})' }, 'rem-1', NOW);
+    expect(reminder).toEqual({
+      id: 'rem-1',
+      message: 'Check Crash on save (due 2025-03-11 17:00)',
+      time: '00:00',
+      days: ['tuesday'],
+      enabled: true,
+      oneTime: true
+    });
+    expect(describeAutomationConditions(rule(triageBugs).conditions)).toBe('tagged bug, unassigned');
+  });
+});
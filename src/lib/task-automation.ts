@@ -0,0 +1,225 @@
+import { format } from 'date-fns';
+import type {
+  AutomationAction,
+  AutomationConditions,
+  AutomationRule,
+  AutomationRuleInput,
+  AutomationTrigger,
+  ConvertibleReminder,
+  TaskEventMap,
+  TaskStatusId,
+  TaskyTask,
+  UpdateTaskInput
+} from '../types/task';
+import { TaskValidationError } from '../types/task';
+import { fillTemplateText, parseDueOffset } from './task-templates';
+import { REMINDER_WEEKDAYS } from './task-reminder-conversion';
+import { normalizeStatusId } from './task-workflow';
+
+// Automation rules ("when a task is created, if it is tagged bug, assign it to claude"), matched
+// against engine events in the main process. Shared by the engine and the Rules editor.
+
+export const AUTOMATION_TRIGGERS: readonly AutomationTrigger[] = ['task:created', 'task:updated', 'task:completed', 'task:overdue', 'task:due'];
+
+export const AUTOMATION_TRIGGER_LABELS: Record<AutomationTrigger, string> = {
+  'task:created': 'A task is created',
+  'task:updated': 'A task is updated',
+  'task:completed': 'A task is completed',
+  'task:overdue': 'A task becomes overdue',
+  'task:due': 'A task is due soon'
+};
+
+const ACTION_TYPES: readonly AutomationAction['type'][] = ['set-status', 'assign-agent', 'add-tags', 'add-reminder', 'notify'];
+const AGENTS = ['gemini', 'claude'];
+const MAX_NAME_LENGTH = 100;
+const MAX_MESSAGE_LENGTH = 200;
+
+// Restoring or undoing brings back a task that already went through its rules
+const REPLAYED_SOURCES: readonly string[] = ['restore', 'undo'];
+
+const cleanTags = (tags?: string[]): string[] =>
+  Array.from(new Set((tags || []).map(tag => String(tag).trim().toLowerCase()).filter(Boolean)));
+
+const cleanMessage = (message?: string): string | undefined => {
+  const text = message?.trim();
+  if (text && text.length > MAX_MESSAGE_LENGTH) {
+    throw new TaskValidationError(`Message too long (max ${MAX_MESSAGE_LENGTH} characters)`, 'actions');
+  }
+  return text || undefined;
+};
+
+function validateAction(action: AutomationAction, statuses: TaskStatusId[]): AutomationAction {
+  switch (action?.type) {
+    case 'set-status': {
+      const status = normalizeStatusId(String(action.status ?? ''));
+      if (!statuses.includes(status)) throw new TaskValidationError(`Unknown status "${action.status ?? ''}"`, 'actions');
+      return { type: 'set-status', status };
+    }
+    case 'assign-agent':
+      if (!AGENTS.includes(action.agent)) throw new TaskValidationError("Agent must be 'gemini' or 'claude'", 'actions');
+      return { type: 'assign-agent', agent: action.agent };
+    case 'add-tags': {
+      const tags = cleanTags(action.tags);
+      if (tags.length === 0) throw new TaskValidationError('Add tags needs at least one tag', 'actions');
+      return { type: 'add-tags', tags };
+    }
+    case 'add-reminder': {
+      const after = String(action.after ?? '').trim();
+      parseDueOffset(after);
+      const message = cleanMessage(action.message);
+      return message ? { type: 'add-reminder', after, message } : { type: 'add-reminder', after };
+    }
+    case 'notify': {
+      const message = cleanMessage(action.message);
+      return message ? { type: 'notify', message } : { type: 'notify' };
+    }
+    default:
+      throw new TaskValidationError(`Unknown action "${(action as { type?: string })?.type ?? ''}" (use ${ACTION_TYPES.join(', ')})`, 'actions');
+  }
+}
+
+/**
+ * Check and tidy a rule before it is saved: known trigger, conditions that can match (tags
+ * lowercased, statuses normalized and in the workflow) and at least one action, each type once.
+ * Throws TaskValidationError naming the offending field.
+ */
+export function validateAutomationRule(input: AutomationRuleInput, statuses: TaskStatusId[]): AutomationRuleInput {
+  const name = (input?.name || '').trim();
+  if (!name) throw new TaskValidationError('Rule name is required', 'name');
+  if (name.length > MAX_NAME_LENGTH) throw new TaskValidationError(`Rule name too long (max ${MAX_NAME_LENGTH} characters)`, 'name');
+  if (!AUTOMATION_TRIGGERS.includes(input.trigger)) {
+    throw new TaskValidationError(`Unknown trigger "${input.trigger ?? ''}" (use ${AUTOMATION_TRIGGERS.join(', ')})`, 'trigger');
+  }
+
+  const given = input.conditions || {};
+  const conditions: AutomationConditions = {};
+  const tags = cleanTags(given.tags);
+  if (tags.length > 0) conditions.tags = tags;
+  const conditionStatuses = Array.from(new Set((given.statuses || []).map(s => normalizeStatusId(String(s)))));
+  const unknown = conditionStatuses.find(s => !statuses.includes(s));
+  if (unknown) throw new TaskValidationError(`Unknown status "${unknown}"`, 'conditions');
+  if (conditionStatuses.length > 0) conditions.statuses = conditionStatuses;
+  if (given.assignedAgent) {
+    if (![...AGENTS, 'unassigned'].includes(given.assignedAgent)) {
+      throw new TaskValidationError("Agent must be 'gemini', 'claude' or 'unassigned'", 'conditions');
+    }
+    conditions.assignedAgent = given.assignedAgent;
+  }
+  const titleContains = given.titleContains?.trim();
+  if (titleContains) conditions.titleContains = titleContains;
+
+  if (!Array.isArray(input.actions) || input.actions.length === 0) {
+    throw new TaskValidationError('A rule needs at least one action', 'actions');
+  }
+  const actions = input.actions.map(action => validateAction(action, statuses));
+  const repeated = actions.find((action, i) => actions.findIndex(a => a.type === action.type) !== i);
+  if (repeated) throw new TaskValidationError(`Each action can be used once ("${repeated.type}" appears twice)`, 'actions');
+
+  return { name, enabled: input.enabled !== false, trigger: input.trigger, conditions, actions };
+}
+
+/**
+ * Whether a task meets every condition that is set.
+ */
+export function matchesConditions(conditions: AutomationConditions, task: TaskyTask): boolean {
+  const taskTags = cleanTags(task.schema.tags);
+  if (conditions.tags?.length && !conditions.tags.some(tag => taskTags.includes(tag))) return false;
+  if (conditions.statuses?.length && !conditions.statuses.includes(task.status)) return false;
+  if (conditions.assignedAgent && (task.schema.assignedAgent || 'unassigned') !== conditions.assignedAgent) return false;
+  if (conditions.titleContains && !task.schema.title.toLowerCase().includes(conditions.titleContains.toLowerCase())) return false;
+  return true;
+}
+
+/**
+ * Enabled rules for the trigger whose conditions the event's task meets, in the given order.
+ * Tasks brought back by a restore or undo don't count as created.
+ */
+export function matchingAutomationRules<K extends AutomationTrigger>(
+  rules: AutomationRule[],
+  trigger: K,
+  event: TaskEventMap[K]
+): AutomationRule[] {
+  if (trigger === 'task:created' && REPLAYED_SOURCES.includes((event as TaskEventMap['task:created']).source)) return [];
+  return rules.filter(rule => rule.enabled && rule.trigger === trigger && matchesConditions(rule.conditions, event.task));
+}
+
+/**
+ * The task fields a rule's set-status, assign-agent and add-tags actions change, or null when
+ * the task already looks like that (so re-running a rule is harmless).
+ */
+export function automationTaskUpdates(actions: AutomationAction[], task: TaskyTask): UpdateTaskInput | null {
+  const updates: UpdateTaskInput = {};
+  for (const action of actions) {
+    if (action.type === 'set-status' && action.status !== task.status) {
+      updates.status = action.status;
+    } else if (action.type === 'assign-agent' && action.agent !== task.schema.assignedAgent) {
+      updates.assignedAgent = action.agent;
+    } else if (action.type === 'add-tags') {
+      const current = task.schema.tags || [];
+      const added = action.tags.filter(tag => !current.some(t => t.toLowerCase() === tag));
+      if (added.length > 0) updates.tags = [...current, ...added];
+    }
+  }
+  return Object.keys(updates).length > 0 ? updates : null;
+}
+
+/**
+ * Fill {{title}}, {{status}} and {{due}} in a rule message.
+ */
+export function fillAutomationText(text: string, task: TaskyTask): string {
+  return fillTemplateText(text, {
+    title: task.schema.title,
+    status: task.status,
+    due: task.schema.dueDate ? format(new Date(task.schema.dueDate), 'yyyy-MM-dd HH:mm') : 'no due date'
+  });
+}
+
+/**
+ * A one-time reminder `after` from now about the task (its title unless a message is given).
+ */
+export function automationReminder(
+  task: TaskyTask,
+  action: Extract<AutomationAction, { type: 'add-reminder' }>,
+  id: string,
+  now: Date = new Date()
+): ConvertibleReminder {
+  const at = new Date(now.getTime() + parseDueOffset(action.after) * 60 * 1000);
+  return {
+    id,
+    message: action.message ? fillAutomationText(action.message, task) : task.schema.title,
+    time: format(at, 'HH:mm'),
+    days: [REMINDER_WEEKDAYS[at.getDay()]],
+    enabled: true,
+    oneTime: true
+  };
+}
+
+/**
+ * Short description of an action for the rule list, e.g. "set status to NEEDS_REVIEW".
+ */
+export function describeAutomationAction(action: AutomationAction): string {
+  switch (action.type) {
+    case 'set-status':
+      return `set status to ${action.status}`;
+    case 'assign-agent':
+      return `assign to ${action.agent}`;
+    case 'add-tags':
+      return `tag ${action.tags.join(', ')}`;
+    case 'add-reminder':
+      return `remind after ${action.after}`;
+    case 'notify':
+      return 'notify';
+  }
+}
+
+/**
+ * Short description of a rule's conditions, e.g. "tagged bug, unassigned"; empty when it has none.
+ */
+export function describeAutomationConditions(conditions: AutomationConditions): string {
+  const parts: string[] = [];
+  if (conditions.tags?.length) parts.push(`tagged ${conditions.tags.join(' or ')}`);
+  if (conditions.statuses?.length) parts.push(`in ${conditions.statuses.join(' or ')}`);
+  if (conditions.assignedAgent) parts.push(conditions.assignedAgent === 'unassigned' ? 'unassigned' : `assigned to ${conditions.assignedAgent}`);
+  if (conditions.titleContains) parts.push(`title contains "${conditions.titleContains}"`);
+  return parts.join(', ');
+}
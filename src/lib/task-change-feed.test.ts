@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { applyTaskChange } from './task-change-feed';
+import { TaskStatus, TaskyTask } from '../types/task';
+
+function makeTask(id: string, status = TaskStatus.PENDING): TaskyTask {
+  return { status, schema: { id, title: id, createdAt: new Date() } } as TaskyTask;
+}
+
+describe('applyTaskChange', () => {
+  const tasks = [makeTask('a'), makeTask('b')];
+
+  it('appends created tasks', () => {
+    const next = applyTaskChange(tasks, { op: 'created', taskId: 'c', task: makeTask('c') });
+    expect(next.map(t => t.schema.id)).toEqual(['a', 'b', 'c']);
+    expect(tasks).toHaveLength(2);
+  });
+
+  it('replaces updated tasks in place', () => {
+    const next = applyTaskChange(tasks, { op: 'updated', taskId: 'a', task: makeTask('a', TaskStatus.COMPLETED) });
+    expect(next.map(t => t.schema.id)).toEqual(['a', 'b']);
+    expect(next[0].status).toBe(TaskStatus.COMPLETED);
+  });
+
+  it('does not duplicate a task it already has', () => {
+    const next = applyTaskChange(tasks, { op: 'created', taskId: 'b', task: makeTask('b') });
+    expect(next.map(t => t.schema.id)).toEqual(['a', 'b']);
+  });
+
+  it('removes deleted tasks', () => {
+    expect(applyTaskChange(tasks, { op: 'deleted', taskId: 'a' }).map(t => t.schema.id)).toEqual(['b']);
+    expect(applyTaskChange(tasks, { op: 'deleted', taskId: 'missing' })).toEqual(tasks);
+  });
+});
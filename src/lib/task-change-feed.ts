@@ -0,0 +1,21 @@
+import type { TaskyTask } from '../types/task';
+
+// Fine-grained task updates pushed from main to the renderer ('tasky:task-changed')
+// when another process (e.g. the MCP agent) edits the shared database
+
+export interface TaskChangeNotice {
+  op: 'created' | 'updated' | 'deleted';
+  taskId: string;
+  task?: TaskyTask;
+}
+
+/**
+ * Apply a change notice to a task list without reloading it. Returns a new array;
+ * created tasks already present are replaced so a late notice can't duplicate them.
+ */
+export function applyTaskChange(tasks: TaskyTask[], notice: TaskChangeNotice): TaskyTask[] {
+  if (notice.op === 'deleted' || !notice.task) return tasks.filter(t => t.schema.id !== notice.taskId);
+  const index = tasks.findIndex(t => t.schema.id === notice.taskId);
+  if (index === -1) return [...tasks, notice.task];
+  return tasks.map((t, i) => (i === index ? notice.task! : t));
+}
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { findDependencyCycle, getOpenBlockers, isTaskBlocked, topologicalSort } from './task-dependencies';
+import { TaskStatus, TaskyTask } from '../types/task';
+
+function makeTask(id: string, dependencies: string[] = [], status = TaskStatus.PENDING): TaskyTask {
+  return {
+    status,
+    schema: { id, title: id, createdAt: new Date(), dependencies }
+  } as TaskyTask;
+}
+
+describe('task-dependencies', () => {
+  it('finds a cycle introduced by a new dependency', () => {
+    const tasks = [makeTask('a', ['b']), makeTask('b', ['c']), makeTask('c')];
+    expect(findDependencyCycle(tasks, 'c', ['a'])).toEqual(['c', 'a', 'b', 'c']);
+    expect(findDependencyCycle(tasks, 'a', ['c'])).toBeNull();
+  });
+
+  it('treats completed and archived dependencies as resolved', () => {
+    const tasks = [
+      makeTask('done', [], TaskStatus.COMPLETED),
+      makeTask('gone', [], TaskStatus.ARCHIVED),
+      makeTask('open'),
+      makeTask('t', ['done', 'gone', 'open', 'missing'])
+    ];
+    expect(getOpenBlockers(tasks, tasks[3]).map(t => t.schema.id)).toEqual(['open']);
+    expect(isTaskBlocked(tasks, tasks[0])).toBe(false);
+  });
+
+  it('orders tasks after their dependencies and keeps input order for ties', () => {
+    const tasks = [makeTask('deploy', ['test']), makeTask('docs'), makeTask('test', ['build']), makeTask('build')];
+    expect(topologicalSort(tasks).map(t => t.schema.id)).toEqual(['docs', 'build', 'test', 'deploy']);
+  });
+
+  it('appends tasks stuck in a cycle instead of dropping them', () => {
+    const tasks = [makeTask('a', ['b']), makeTask('b', ['a']), makeTask('c')];
+    expect(topologicalSort(tasks).map(t => t.schema.id)).toEqual(['c', 'a', 'b']);
+  });
+});
@@ -0,0 +1,94 @@
+import type { TaskyTask } from '../types/task';
+import { TaskStatus } from '../types/task';
+
+// Dependency graph helpers: `schema.dependencies` lists the IDs of tasks that must finish first
+
+const isResolved = (task: TaskyTask) =>
+  task.status === TaskStatus.COMPLETED || task.status === TaskStatus.ARCHIVED;
+
+/**
+ * Find a dependency cycle that would exist if `taskId` depended on `dependencies`.
+ * Returns the cycle as a list of task IDs (first === last), or null when the graph stays acyclic.
+ */
+export function findDependencyCycle(tasks: TaskyTask[], taskId: string, dependencies: string[]): string[] | null {
+  const edges = new Map<string, string[]>();
+  for (const task of tasks) {
+    edges.set(task.schema.id, task.schema.dependencies || []);
+  }
+  edges.set(taskId, dependencies);
+
+  // DFS from each new dependency looking for a path back to taskId
+  const visit = (current: string, path: string[], seen: Set<string>): string[] | null => {
+    if (current === taskId) return [...path, current];
+    if (seen.has(current)) return null;
+    seen.add(current);
+    for (const next of edges.get(current) || []) {
+      const found = visit(next, [...path, current], seen);
+      if (found) return found;
+    }
+    return null;
+  };
+
+  const seen = new Set<string>();
+  for (const dep of dependencies) {
+    const found = visit(dep, [taskId], seen);
+    if (found) return found;
+  }
+  return null;
+}
+
+/**
+ * Dependencies of a task that are not completed or archived yet.
+ * Unknown IDs are ignored so a deleted blocker does not block forever.
+ */
+export function getOpenBlockers(tasks: TaskyTask[], task: TaskyTask): TaskyTask[] {
+  const deps = new Set(task.schema.dependencies || []);
+  if (deps.size === 0) return [];
+  return tasks.filter(t => deps.has(t.schema.id) && !isResolved(t));
+}
+
+export function isTaskBlocked(tasks: TaskyTask[], task: TaskyTask): boolean {
+  return getOpenBlockers(tasks, task).length > 0;
+}
+
+/**
+ * Order tasks so every task comes after its dependencies (Kahn's algorithm).
+ * Ties keep the input order; tasks caught in a cycle are appended at the end.
+ */
+export function topologicalSort(tasks: TaskyTask[]): TaskyTask[] {
+  const ids = new Set(tasks.map(t => t.schema.id));
+  const inDegree = new Map<string, number>();
+  const dependents = new Map<string, string[]>();
+
+  for (const task of tasks) {
+    const deps = (task.schema.dependencies || []).filter(d => ids.has(d) && d !== task.schema.id);
+    inDegree.set(task.schema.id, deps.length);
+    for (const dep of deps) {
+      dependents.set(dep, [...(dependents.get(dep) || []), task.schema.id]);
+    }
+  }
+
+  const byId = new Map(tasks.map(t => [t.schema.id, t] as const));
+  const order = new Map(tasks.map((t, i) => [t.schema.id, i] as const));
+  const queue = tasks.filter(t => inDegree.get(t.schema.id) === 0).map(t => t.schema.id);
+  const sorted: TaskyTask[] = [];
+
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    sorted.push(byId.get(id)!);
+    for (const dependent of dependents.get(id) || []) {
+      const remaining = inDegree.get(dependent)! - 1;
+      inDegree.set(dependent, remaining);
+      if (remaining === 0) {
+        queue.push(dependent);
+        queue.sort((a, b) => order.get(a)! - order.get(b)!);
+      }
+    }
+  }
+
+  if (sorted.length < tasks.length) {
+    const placed = new Set(sorted.map(t => t.schema.id));
+    sorted.push(...tasks.filter(t => !placed.has(t.schema.id)));
+  }
+  return sorted;
+}
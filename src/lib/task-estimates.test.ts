@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { analyzeEstimates, describeDurationSuggestion, suggestDuration } from './task-estimates';
+import { TaskStatus, TaskTimeEntry, TaskyTask } from '../types/task';
+
+const now = new Date('2026-10-19T12:00:00Z');
+
+// A completed task plus one tracked entry of `actual` minutes ending at now
+const history = (rows: Array<{ estimate?: number; actual: number; tags?: string[]; agent?: 'claude' | 'gemini' }>) => {
+  const tasks: TaskyTask[] = [];
+  const entries: TaskTimeEntry[] = [];
+  rows.forEach((row, i) => {
+    const id = `t${i}`;
+    tasks.push({
+      schema: { id, title: id, createdAt: now, estimatedDuration: row.estimate, tags: row.tags, assignedAgent: row.agent },
+      status: TaskStatus.COMPLETED
+    });
+    entries.push({ id: i, taskId: id, startedAt: new Date(now.getTime() - row.actual * 60_000), endedAt: now, source: 'manual', actor: 'ui' });
+  });
+  return { tasks, entries };
+};
+
+describe('task-estimates', () => {
+  it('measures bias overall, per tag and per agent', () => {
+    const { tasks, entries } = history([
+      { estimate: 60, actual: 120, tags: ['bug'], agent: 'claude' },
+      { estimate: 30, actual: 60, tags: ['Bug', 'ui'], agent: 'claude' },
+      { estimate: 60, actual: 120, tags: ['bug'], agent: 'claude' },
+      { estimate: 60, actual: 60, tags: ['ui'] },
+      { actual: 45, tags: ['bug'] }
+    ]);
+    const accuracy = analyzeEstimates(tasks, entries, now);
+    expect(accuracy.samples).toBe(4);
+    expect(accuracy.overall?.ratio).toBe(1.68);
+    expect(accuracy.byTag).toEqual({ bug: { samples: 3, ratio: 2, low: 2, high: 2 } });
+    expect(Object.keys(accuracy.byAgent)).toEqual(['claude']);
+  });
+
+  it('needs a few completed tasks before saying anything', () => {
+    const { tasks, entries } = history([{ estimate: 60, actual: 90 }, { estimate: 30, actual: 30 }]);
+    expect(analyzeEstimates(tasks, entries, now).overall).toBeNull();
+    expect(suggestDuration({ estimatedDuration: 60 }, tasks, entries, now)).toBeNull();
+  });
+
+  it('corrects an estimate from the most similar tasks', () => {
+    const { tasks, entries } = history([
+      { estimate: 60, actual: 90, tags: ['bug'], agent: 'claude' },
+      { estimate: 60, actual: 80, tags: ['bug'], agent: 'claude' },
+      { estimate: 60, actual: 100, tags: ['bug'], agent: 'claude' },
+      { estimate: 60, actual: 30, tags: ['docs'] },
+      { estimate: 60, actual: 30, tags: ['docs'] }
+    ]);
+    const suggestion = suggestDuration({ estimatedDuration: 40, tags: ['BUG'], assignedAgent: 'claude' }, tasks, entries, now)!;
+    expect(suggestion.basis).toBe('tasks tagged bug assigned to claude');
+    expect(suggestion.minutes).toBe(60);
+    expect(suggestion.low).toBeLessThan(60);
+    expect(suggestion.high).toBeGreaterThan(60);
+    expect(suggestion.confidence).toBe('low');
+    expect(suggestion.estimatedMinutes).toBe(40);
+
+    // Nothing similar enough: falls back to all completed tasks
+    expect(suggestDuration({ estimatedDuration: 40, tags: ['ops'] }, tasks, entries, now)!.basis).toBe('completed tasks');
+  });
+
+  it('predicts a duration from tracked time when there is no estimate', () => {
+    const { tasks, entries } = history([{ actual: 30 }, { actual: 30 }, { actual: 30 }, { estimate: 10, actual: 30 }, { actual: 30 }]);
+    const suggestion = suggestDuration({}, tasks, entries, now)!;
+    expect(suggestion).toEqual({ minutes: 30, low: 30, high: 30, confidence: 'medium', samples: 5, basis: 'unassigned tasks' });
+    expect(describeDurationSuggestion(suggestion)).toBe('Expected duration: 30m (likely 30m–30m, medium confidence from 5 unassigned tasks)');
+    expect(describeDurationSuggestion({ ...suggestion, minutes: 90, estimatedMinutes: 60 }))
+      .toMatch(/^Suggested estimate: 1h 30m instead of 1h 00m/);
+  });
+});
@@ -0,0 +1,154 @@
+import type {
+  DurationSuggestion,
+  DurationSuggestionInput,
+  EstimateAccuracy,
+  EstimateBias,
+  EstimateConfidence,
+  TaskTimeEntry,
+  TaskyTask
+} from '../types/task';
+import { TaskStatus } from '../types/task';
+import { formatMinutes, trackedMinutesByTask } from './task-time';
+
+// Estimate learning: compares estimates with tracked time on completed tasks and corrects new
+// estimates by how similar tasks went. Ratios are averaged on a log scale, so a task that took
+// twice as long and one that took half as long cancel out.
+
+// Fewer tasks than this say nothing useful about a group
+export const MIN_ESTIMATE_SAMPLES = 3;
+// Half-width of the central 80% of a normal distribution, in standard deviations
+const Z_80 = 1.2816;
+const UNASSIGNED = 'unassigned';
+
+interface EstimateSample {
+  estimated?: number;
+  actual: number;
+  tags: string[];
+  agent: string;
+}
+
+interface LogSpread {
+  samples: number;
+  mean: number;
+  sd: number;
+  low: number;
+  high: number;
+}
+
+const normalizeTags = (tags?: string[]): string[] =>
+  [...new Set((tags || []).map(tag => tag.trim().toLowerCase()).filter(Boolean))];
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+function collectSamples(tasks: TaskyTask[], entries: TaskTimeEntry[], now: Date): EstimateSample[] {
+  const actual = trackedMinutesByTask(entries, now);
+  return tasks
+    .filter(t => t.status === TaskStatus.COMPLETED && (actual.get(t.schema.id) || 0) > 0)
+    .map(t => ({
+      estimated: (t.schema.estimatedDuration || 0) > 0 ? t.schema.estimatedDuration : undefined,
+      actual: actual.get(t.schema.id)!,
+      tags: normalizeTags(t.schema.tags),
+      agent: t.schema.assignedAgent || UNASSIGNED
+    }));
+}
+
+// Mean of log values with the range a new value falls in 80% of the time
+function spread(values: number[]): LogSpread {
+  const n = values.length;
+  const mean = values.reduce((sum, v) => sum + v, 0) / n;
+  const sd = Math.sqrt(values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (n - 1));
+  const margin = Z_80 * sd * Math.sqrt(1 + 1 / n);
+  return { samples: n, mean, sd, low: mean - margin, high: mean + margin };
+}
+
+function toBias(ratios: number[]): EstimateBias {
+  const s = spread(ratios.map(Math.log));
+  return { samples: s.samples, ratio: round2(Math.exp(s.mean)), low: round2(Math.exp(s.low)), high: round2(Math.exp(s.high)) };
+}
+
+/**
+ * Estimate bias overall, per tag and per agent, over completed tasks with an estimate and tracked time.
+ */
+export function analyzeEstimates(tasks: TaskyTask[], entries: TaskTimeEntry[], now: Date = new Date()): EstimateAccuracy {
+  const samples = collectSamples(tasks, entries, now).filter(s => s.estimated);
+  const ratio = (s: EstimateSample) => s.actual / s.estimated!;
+  const byGroup = (keysOf: (s: EstimateSample) => string[]): Record<string, EstimateBias> => {
+    const groups = new Map<string, number[]>();
+    for (const s of samples) {
+      for (const key of keysOf(s)) groups.set(key, [...(groups.get(key) || []), ratio(s)]);
+    }
+    return Object.fromEntries(
+      [...groups]
+        .filter(([, ratios]) => ratios.length >= MIN_ESTIMATE_SAMPLES)
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([key, ratios]) => [key, toBias(ratios)])
+    );
+  };
+
+  return {
+    samples: samples.length,
+    overall: samples.length >= MIN_ESTIMATE_SAMPLES ? toBias(samples.map(ratio)) : null,
+    byTag: byGroup(s => s.tags),
+    byAgent: byGroup(s => [s.agent])
+  };
+}
+
+/**
+ * A corrected estimate for a task about to be created, learned from the most similar completed
+ * tasks that have enough history: same tags and agent, then same tags, same agent, all of them.
+ * Without an estimate it predicts the duration from tracked time alone. Null until there is
+ * enough history.
+ */
+export function suggestDuration(
+  input: DurationSuggestionInput,
+  tasks: TaskyTask[],
+  entries: TaskTimeEntry[],
+  now: Date = new Date()
+): DurationSuggestion | null {
+  const estimated = (input.estimatedDuration || 0) > 0 ? input.estimatedDuration : undefined;
+  const samples = collectSamples(tasks, entries, now).filter(s => !estimated || s.estimated);
+  const tags = normalizeTags(input.tags);
+  const agent = input.assignedAgent || UNASSIGNED;
+
+  const tagged = `tasks tagged ${tags.join(' or ')}`;
+  const sharesTag = (s: EstimateSample) => s.tags.some(tag => tags.includes(tag));
+  const groups: Array<[string, EstimateSample[]]> = [];
+  if (tags.length > 0) {
+    groups.push(
+      [agent === UNASSIGNED ? `unassigned ${tagged}` : `${tagged} assigned to ${agent}`, samples.filter(s => sharesTag(s) && s.agent === agent)],
+      [tagged, samples.filter(sharesTag)]
+    );
+  }
+  groups.push(
+    [agent === UNASSIGNED ? 'unassigned tasks' : `tasks assigned to ${agent}`, samples.filter(s => s.agent === agent)],
+    ['completed tasks', samples]
+  );
+  const match = groups.find(([, group]) => group.length >= MIN_ESTIMATE_SAMPLES);
+  if (!match) return null;
+
+  const [basis, group] = match;
+  const s = spread(group.map(x => Math.log(estimated ? x.actual / x.estimated! : x.actual)));
+  const scale = estimated ?? 1;
+  const confidence: EstimateConfidence =
+    s.samples >= 10 && s.sd < 0.4 ? 'high' : s.samples >= 5 && s.sd < 0.8 ? 'medium' : 'low';
+  return {
+    minutes: Math.max(1, Math.round(scale * Math.exp(s.mean))),
+    low: Math.max(1, Math.round(scale * Math.exp(s.low))),
+    high: Math.max(1, Math.round(scale * Math.exp(s.high))),
+    confidence,
+    samples: s.samples,
+    basis,
+    ...(estimated ? { estimatedMinutes: estimated } : {})
+  };
+}
+
+/**
+ * One line for chat and tool output, e.g.
+ * "Suggested estimate: 1h 30m instead of 1h 00m (likely 1h 10m–2h 05m, medium confidence from 8 tasks tagged bug)".
+ */
+export function describeDurationSuggestion(suggestion: DurationSuggestion): string {
+  const range = `likely ${formatMinutes(suggestion.low)}–${formatMinutes(suggestion.high)}, ${suggestion.confidence} confidence from ${suggestion.samples} ${suggestion.basis}`;
+  return suggestion.estimatedMinutes
+    ? `Suggested estimate: ${formatMinutes(suggestion.minutes)} instead of ${formatMinutes(suggestion.estimatedMinutes)} (${range})`
+    : `Expected duration: ${formatMinutes(suggestion.minutes)} (${range})`;
+}
@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { eventTaskId, matchesEventPattern, validateEventQuery } from './task-events';
+import { TaskyTask } from '../types/task';
+
+describe('task-events', () => {
+  it('matches event names and patterns', () => {
+    expect(matchesEventPattern('task:*', 'task:created')).toBe(true);
+    expect(matchesEventPattern('*', 'task:due')).toBe(true);
+    expect(matchesEventPattern('task:updated', 'task:updated')).toBe(true);
+    expect(matchesEventPattern('task:update', 'task:updated')).toBe(false);
+    expect(matchesEventPattern('reminder:*', 'task:created')).toBe(false);
+  });
+
+  it('finds the task an event is about', () => {
+    const task = { status: 'PENDING', schema: { id: 'a', title: 'A', createdAt: new Date() } } as TaskyTask;
+    expect(eventTaskId<'task:created'>({ task, source: 'user' })).toBe('a');
+    expect(eventTaskId<'task:deleted'>({ taskId: 'b' })).toBe('b');
+  });
+
+  it('validates queries', () => {
+    expect(validateEventQuery({ after: 3, types: ['task:*', 'task:deleted'], limit: 10 })).toEqual({
+      after: 3, types: ['task:*', 'task:deleted'], limit: 10
+    });
+    expect(validateEventQuery({ types: [] })).toEqual({});
+    expect(() => validateEventQuery({ after: -1 })).toThrow('after must be a whole number of at least 0');
+    expect(() => validateEventQuery({ limit: 5000 })).toThrow('limit must be a whole number from 1 to 1000');
+    expect(() => validateEventQuery({ types: ['task:[a]'] })).toThrow('"task:[a]" is not an event name or pattern');
+    expect(() => validateEventQuery({ types: ['task*:x'] })).toThrow('is not an event name or pattern');
+  });
+});
@@ -0,0 +1,51 @@
+import type { TaskEventMap, TaskEventQuery } from '../types/task';
+import { TaskValidationError } from '../types/task';
+
+// The persistent event log: every TaskEventMap emission, numbered across processes.
+// Shared by the engine (recording, replay, subscriptions) and the SQLite storage (queries).
+
+export const MAX_EVENT_LIMIT = 1000;
+// Page size used when replaying or catching a subscriber up
+export const EVENT_PAGE_SIZE = 500;
+
+// An event name, optionally ending in '*' to match every event starting with what precedes it
+const EVENT_TYPE_PATTERN = /^[a-z][a-z:_-]*\*?$|^\*$/;
+
+/**
+ * Whether an event name matches a name or pattern ('task:*', '*').
+ */
+export function matchesEventPattern(pattern: string, type: string): boolean {
+  return pattern.endsWith('*') ? type.startsWith(pattern.slice(0, -1)) : pattern === type;
+}
+
+/**
+ * The task an event is about: the payload's task, or the id of a deleted task.
+ */
+export function eventTaskId<K extends keyof TaskEventMap>(payload: TaskEventMap[K]): string {
+  const data = payload as { task?: { schema: { id: string } }; taskId?: string };
+  return data.task?.schema.id ?? data.taskId ?? '';
+}
+
+/**
+ * Check a query against the event log. Throws TaskValidationError for a negative or fractional
+ * cursor, a limit outside 1..MAX_EVENT_LIMIT or a type that is neither a name nor a pattern.
+ */
+export function validateEventQuery(query: TaskEventQuery = {}): TaskEventQuery {
+  const { after, types, limit } = query;
+  if (after !== undefined && !(Number.isInteger(after) && after >= 0)) {
+    throw new TaskValidationError('after must be a whole number of at least 0', 'after');
+  }
+  if (limit !== undefined && !(Number.isInteger(limit) && limit >= 1 && limit <= MAX_EVENT_LIMIT)) {
+    throw new TaskValidationError(`limit must be a whole number from 1 to ${MAX_EVENT_LIMIT}`, 'limit');
+  }
+  if (types !== undefined) {
+    if (!Array.isArray(types)) throw new TaskValidationError('types must be a list of event names', 'types');
+    const invalid = types.find(t => typeof t !== 'string' || !EVENT_TYPE_PATTERN.test(t));
+    if (invalid !== undefined) throw new TaskValidationError(`"${invalid}" is not an event name or pattern`, 'types');
+  }
+  return {
+    ...(after !== undefined && { after }),
+    ...(types !== undefined && types.length > 0 && { types }),
+    ...(limit !== undefined && { limit })
+  };
+}
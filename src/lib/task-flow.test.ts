@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { buildFlowReport, resolveFlowPeriod } from './task-flow';
+import { TaskStatus, TaskStatusChange, TaskyTask } from '../types/task';
+
+// Local times, so days line up with the report's local dates
+const day = (d: number, hour = 12) => new Date(2026, 9, d, hour);
+const now = day(19, 18);
+const statuses = [TaskStatus.PENDING, TaskStatus.IN_PROGRESS, TaskStatus.NEEDS_REVIEW, TaskStatus.COMPLETED, TaskStatus.ARCHIVED];
+
+const task = (id: string, status: string, created: Date, tags: string[] = []): TaskyTask => ({
+  schema: { id, title: id.toUpperCase(), createdAt: created, tags },
+  status
+});
+const change = (taskId: string, from: string | undefined, to: string | undefined, at: Date): TaskStatusChange => ({ taskId, from, to, at, actor: 'ui' });
+
+// a: created 10th, started 12th, done 15th. b: created 12th, started 17th. c: created 14th, deleted 16th.
+const tasks = [task('a', TaskStatus.COMPLETED, day(10), ['bug']), task('b', TaskStatus.IN_PROGRESS, day(12))];
+const history = [
+  change('a', undefined, TaskStatus.PENDING, day(10)),
+  change('a', TaskStatus.PENDING, TaskStatus.IN_PROGRESS, day(12)),
+  change('b', undefined, TaskStatus.PENDING, day(12)),
+  change('c', undefined, TaskStatus.PENDING, day(14)),
+  change('a', TaskStatus.IN_PROGRESS, TaskStatus.COMPLETED, day(15)),
+  change('c', TaskStatus.PENDING, undefined, day(16)),
+  change('b', TaskStatus.PENDING, TaskStatus.IN_PROGRESS, day(17))
+];
+
+describe('task-flow', () => {
+  it('replays the history into a cumulative flow and burndown', () => {
+    const report = buildFlowReport(tasks, history, { from: day(11), to: day(17), statuses, now });
+    expect(report.from).toBe('2026-10-11');
+    expect(report.cumulativeFlow.map(p => p.date)).toHaveLength(7);
+    expect(report.cumulativeFlow[0].counts).toMatchObject({ PENDING: 1, IN_PROGRESS: 0 });
+    expect(report.cumulativeFlow[3].counts).toMatchObject({ PENDING: 2, IN_PROGRESS: 1, COMPLETED: 0 }); // 14th
+    expect(report.cumulativeFlow[6].counts).toMatchObject({ PENDING: 0, IN_PROGRESS: 1, COMPLETED: 1 }); // 17th
+    expect(report.burndown.map(p => p.remaining)).toEqual([1, 2, 2, 3, 2, 1, 1]);
+    expect(report.burndown.map(p => p.scope)).toEqual([1, 2, 2, 3, 3, 2, 2]);
+    expect(report.burndown[0].ideal).toBe(1);
+    expect(report.burndown[6].ideal).toBe(0);
+  });
+
+  it('measures cycle and lead time of tasks completed in the period', () => {
+    const report = buildFlowReport(tasks, history, { from: day(11), to: day(17), statuses, now });
+    expect(report.cycleTime).toEqual({ count: 1, p50: 72, p85: 72, p95: 72 });
+    expect(report.leadTime).toEqual({ count: 1, p50: 120, p85: 120, p95: 120 });
+    expect(buildFlowReport(tasks, history, { from: day(16), to: day(17), statuses, now }).cycleTime).toBeNull();
+  });
+
+  it('fills a year-long completion heatmap and ages work in progress', () => {
+    const report = buildFlowReport(tasks, history, { statuses, now });
+    expect(new Date(`${report.completionHeatmap[0].date}T12:00`).getDay()).toBe(0);
+    expect(report.completionHeatmap.length).toBeGreaterThan(52 * 7);
+    expect(report.completionHeatmap.find(c => c.date === '2026-10-15')?.count).toBe(1);
+    expect(report.completionHeatmap[report.completionHeatmap.length - 1].date).toBe('2026-10-19');
+    expect(report.agingWip).toEqual([
+      { taskId: 'b', title: 'B', status: TaskStatus.IN_PROGRESS, startedAt: day(17), ageDays: 2.3, inStatusDays: 2.3 }
+    ]);
+  });
+
+  it('limits to a tag and fills in tasks older than the history', () => {
+    const old = task('d', TaskStatus.COMPLETED, day(1));
+    old.completedAt = day(13);
+    const report = buildFlowReport([...tasks, old], history, { from: day(11), to: day(17), tag: 'BUG', statuses, now });
+    expect(report.tag).toBe('bug');
+    expect(report.burndown.map(p => p.scope)).toEqual([1, 1, 1, 1, 1, 1, 1]);
+
+    const all = buildFlowReport([...tasks, old], history, { from: day(11), to: day(17), statuses, now });
+    expect(all.cumulativeFlow[2].counts.COMPLETED).toBe(1); // d, done on the 13th
+    expect(all.leadTime!.count).toBe(2);
+  });
+
+  it('rejects invalid periods', () => {
+    expect(() => resolveFlowPeriod({ from: day(18), to: day(17) })).toThrow(/must not be after/);
+    expect(() => resolveFlowPeriod({ from: new Date('nope') })).toThrow(/valid date/);
+    expect(() => resolveFlowPeriod({ from: new Date(2024, 0, 1), to: day(17) })).toThrow(/at most 366 days/);
+    expect(resolveFlowPeriod({}, now).from).toEqual(new Date(2026, 8, 20));
+  });
+});
@@ -0,0 +1,199 @@
+import { addDays, format, startOfDay, startOfWeek, subDays, subWeeks } from 'date-fns';
+import type { DurationPercentiles, TaskAnalyticsOptions, TaskFlowReport, TaskStatusChange, TaskStatusId, TaskyTask } from '../types/task';
+import { TaskStatus, TaskValidationError } from '../types/task';
+import { isOpenStatus } from './task-workflow';
+
+// Flow analytics (cumulative flow, burndown, cycle/lead time, completion heatmap, aging WIP),
+// replayed from each task's status history rather than read off its current state.
+
+export const MAX_FLOW_DAYS = 366;
+const DEFAULT_FLOW_DAYS = 30;
+const HEATMAP_WEEKS = 53;
+const DAY_MS = 86_400_000;
+const HOUR_MS = 3_600_000;
+
+// The status a task had from `at` on; no status once it was deleted
+interface TimelineStep {
+  at: Date;
+  status?: TaskStatusId;
+}
+
+const dayKey = (date: Date) => format(date, 'yyyy-MM-dd');
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+// Tasks older than the history, or from a storage without one, get their creation and current
+// status filled in from the task itself
+function buildTimelines(tasks: TaskyTask[], history: TaskStatusChange[]): Map<string, TimelineStep[]> {
+  const changes = new Map<string, TaskStatusChange[]>();
+  for (const change of history) {
+    const list = changes.get(change.taskId);
+    if (list) list.push(change);
+    else changes.set(change.taskId, [change]);
+  }
+
+  const byId = new Map(tasks.map(t => [t.schema.id, t]));
+  const timelines = new Map<string, TimelineStep[]>();
+  for (const [taskId, list] of changes) {
+    const task = byId.get(taskId);
+    const steps: TimelineStep[] = list.map(c => ({ at: new Date(c.at), status: c.to }));
+    if (list[0].from !== undefined) steps.unshift({ at: task?.schema.createdAt ?? new Date(list[0].at), status: list[0].from });
+    timelines.set(taskId, steps);
+  }
+  for (const task of tasks) {
+    if (timelines.has(task.schema.id)) continue;
+    const created = new Date(task.schema.createdAt);
+    const steps: TimelineStep[] = [{ at: created, status: TaskStatus.PENDING }];
+    if (task.status !== TaskStatus.PENDING) {
+      steps.push({ at: new Date(task.completedAt ?? task.schema.updatedAt ?? created), status: task.status });
+    }
+    timelines.set(task.schema.id, steps);
+  }
+  return timelines;
+}
+
+const statusAt = (steps: TimelineStep[], time: number): TaskStatusId | undefined => {
+  let status: TaskStatusId | undefined;
+  for (const step of steps) {
+    if (step.at.getTime() > time) break;
+    status = step.status;
+  }
+  return status;
+};
+
+const isStarted = (status?: TaskStatusId) => !!status && status !== TaskStatus.PENDING && isOpenStatus(status);
+
+function percentiles(hours: number[]): DurationPercentiles | null {
+  if (hours.length === 0) return null;
+  const sorted = [...hours].sort((a, b) => a - b);
+  const rank = (p: number) => round1(sorted[Math.max(0, Math.ceil((p / 100) * sorted.length) - 1)]);
+  return { count: sorted.length, p50: rank(50), p85: rank(85), p95: rank(95) };
+}
+
+/**
+ * The period the flow report covers: `from`..`to` (default the last 30 days up to now).
+ * Throws TaskValidationError for invalid dates, a reversed range or more than MAX_FLOW_DAYS.
+ */
+export function resolveFlowPeriod(options: TaskAnalyticsOptions = {}, now: Date = new Date()): { from: Date; to: Date } {
+  const to = options.to ? new Date(options.to) : now;
+  if (isNaN(to.getTime())) throw new TaskValidationError('to must be a valid date', 'to');
+  const from = options.from ? new Date(options.from) : subDays(to, DEFAULT_FLOW_DAYS - 1);
+  if (isNaN(from.getTime())) throw new TaskValidationError('from must be a valid date', 'from');
+  if (startOfDay(from) > startOfDay(to)) throw new TaskValidationError('from must not be after to', 'from');
+  if ((startOfDay(to).getTime() - startOfDay(from).getTime()) / DAY_MS >= MAX_FLOW_DAYS) {
+    throw new TaskValidationError(`The period can be at most ${MAX_FLOW_DAYS} days`, 'from');
+  }
+  return { from: startOfDay(from), to };
+}
+
+/**
+ * Replay the status history into the flow report. `statuses` is the workflow's board order;
+ * a tag limits every metric to the current tasks carrying it.
+ */
+export function buildFlowReport(
+  tasks: TaskyTask[],
+  history: TaskStatusChange[],
+  options: TaskAnalyticsOptions & { statuses: TaskStatusId[]; now?: Date }
+): TaskFlowReport {
+  const now = options.now ?? new Date();
+  const { from, to } = resolveFlowPeriod(options, now);
+  const tag = options.tag?.trim().toLowerCase() || undefined;
+
+  let timelines = buildTimelines(tasks, history);
+  if (tag) {
+    const tagged = new Set(tasks.filter(t => (t.schema.tags || []).some(x => x.toLowerCase() === tag)).map(t => t.schema.id));
+    timelines = new Map([...timelines].filter(([taskId]) => tagged.has(taskId)));
+  }
+
+  const days: Date[] = [];
+  for (let day = from; day <= to; day = addDays(day, 1)) days.push(day);
+  const endOf = (day: Date) => Math.min(addDays(day, 1).getTime() - 1, now.getTime());
+
+  // Cumulative flow and burndown: every task's status at the end of each day
+  const statuses = [...options.statuses];
+  const cumulativeFlow: TaskFlowReport['cumulativeFlow'] = [];
+  const burndown: TaskFlowReport['burndown'] = [];
+  for (const day of days) {
+    const counts: Record<TaskStatusId, number> = Object.fromEntries(statuses.map(s => [s, 0]));
+    let scope = 0;
+    let remaining = 0;
+    for (const steps of timelines.values()) {
+      const status = statusAt(steps, endOf(day));
+      if (!status) continue;
+      if (!(status in counts)) {
+        statuses.push(status);
+        counts[status] = 0;
+      }
+      counts[status]++;
+      scope++;
+      if (isOpenStatus(status)) remaining++;
+    }
+    cumulativeFlow.push({ date: dayKey(day), counts });
+    burndown.push({ date: dayKey(day), remaining, scope, ideal: 0 });
+  }
+  const start = burndown[0]?.remaining ?? 0;
+  burndown.forEach((point, i) => {
+    point.ideal = burndown.length > 1 ? round1(start * (1 - i / (burndown.length - 1))) : start;
+  });
+
+  // Completions: a step into COMPLETED from anything else
+  const heatmapStart = startOfWeek(subWeeks(startOfDay(to), HEATMAP_WEEKS - 1));
+  const completedPerDay = new Map<string, number>();
+  const cycleHours: number[] = [];
+  const leadHours: number[] = [];
+  for (const steps of timelines.values()) {
+    let lastCompletion: number | undefined;
+    let startedAt: number | undefined;
+    let cycle: number | undefined;
+    steps.forEach((step, i) => {
+      const time = step.at.getTime();
+      if (startedAt === undefined && isStarted(step.status)) startedAt = time;
+      if (step.status !== TaskStatus.COMPLETED || steps[i - 1]?.status === TaskStatus.COMPLETED) return;
+      if (step.at >= heatmapStart && step.at.getTime() <= endOf(startOfDay(to))) {
+        completedPerDay.set(dayKey(step.at), (completedPerDay.get(dayKey(step.at)) || 0) + 1);
+      }
+      lastCompletion = time;
+      cycle = startedAt !== undefined ? time - startedAt : undefined;
+    });
+    if (lastCompletion === undefined || lastCompletion < from.getTime() || lastCompletion > endOf(startOfDay(to))) continue;
+    leadHours.push((lastCompletion - steps[0].at.getTime()) / HOUR_MS);
+    if (cycle !== undefined) cycleHours.push(cycle / HOUR_MS);
+  }
+
+  const completionHeatmap: TaskFlowReport['completionHeatmap'] = [];
+  for (let day = heatmapStart; day <= to; day = addDays(day, 1)) {
+    completionHeatmap.push({ date: dayKey(day), count: completedPerDay.get(dayKey(day)) || 0 });
+  }
+
+  // Aging WIP: started, unfinished work, aged from when its current stretch of work began
+  const agingWip: TaskFlowReport['agingWip'] = [];
+  for (const task of tasks) {
+    const steps = timelines.get(task.schema.id);
+    if (!steps || !isStarted(task.status)) continue;
+    let first = steps.length - 1;
+    while (first > 0 && isStarted(steps[first - 1].status)) first--;
+    const startedAt = isStarted(steps[first].status) ? steps[first].at : new Date(task.schema.updatedAt ?? task.schema.createdAt);
+    const inStatusSince = steps[steps.length - 1].at;
+    agingWip.push({
+      taskId: task.schema.id,
+      title: task.schema.title,
+      status: task.status,
+      startedAt,
+      ageDays: round1((now.getTime() - startedAt.getTime()) / DAY_MS),
+      inStatusDays: round1((now.getTime() - inStatusSince.getTime()) / DAY_MS)
+    });
+  }
+  agingWip.sort((a, b) => b.ageDays - a.ageDays);
+
+  return {
+    from: dayKey(from),
+    to: dayKey(to),
+    ...(tag ? { tag } : {}),
+    statuses,
+    cumulativeFlow,
+    burndown,
+    cycleTime: percentiles(cycleHours),
+    leadTime: percentiles(leadHours),
+    completionHeatmap,
+    agingWip
+  };
+}
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildTaskTree,
+  calculateTaskProgress,
+  getDescendantIds,
+  getOpenDescendants,
+  normalizeChecklist,
+  wouldCreateParentCycle
+} from './task-hierarchy';
+import { TaskStatus, TaskyTask } from '../types/task';
+
+function makeTask(id: string, parentId?: string, overrides: Partial<TaskyTask> = {}): TaskyTask {
+  const now = new Date();
+  return {
+    status: TaskStatus.PENDING,
+    ...overrides,
+    schema: { id, title: id, createdAt: now, parentId, ...(overrides.schema || {}) }
+  } as TaskyTask;
+}
+
+describe('task-hierarchy', () => {
+  const tasks = [
+    makeTask('root'),
+    makeTask('a', 'root'),
+    makeTask('b', 'root', { status: TaskStatus.COMPLETED }),
+    makeTask('a1', 'a')
+  ];
+
+  it('collects descendants at every depth', () => {
+    expect(getDescendantIds(tasks, 'root').sort()).toEqual(['a', 'a1', 'b']);
+    expect(getDescendantIds(tasks, 'a1')).toEqual([]);
+  });
+
+  it('detects parent cycles', () => {
+    expect(wouldCreateParentCycle(tasks, 'root', 'a1')).toBe(true);
+    expect(wouldCreateParentCycle(tasks, 'a', 'a')).toBe(true);
+    expect(wouldCreateParentCycle(tasks, 'a1', 'b')).toBe(false);
+  });
+
+  it('lists only open descendants', () => {
+    expect(getOpenDescendants(tasks, 'root').map(t => t.schema.id).sort()).toEqual(['a', 'a1']);
+  });
+
+  it('builds a tree preserving order and treating orphans as roots', () => {
+    const tree = buildTaskTree([...tasks, makeTask('orphan', 'gone')]);
+    expect(tree.map(n => n.task.schema.id)).toEqual(['root', 'orphan']);
+    expect(tree[0].children.map(n => n.task.schema.id)).toEqual(['a', 'b']);
+    expect(tree[0].children[0].children.map(n => n.task.schema.id)).toEqual(['a1']);
+  });
+
+  it('rolls up fractional progress from nested subtasks and checklists', () => {
+    const withChecklist = tasks.map(t =>
+      t.schema.id === 'a'
+        ? { ...t, schema: { ...t.schema, checklist: [{ id: 'c1', text: 'x', done: true }] } }
+        : t
+    );
+    // a: a1 open (0) + checklist done (1) => 50%; root: a (0.5) + b (1) => 75%
+    expect(calculateTaskProgress(withChecklist[1], withChecklist).percent).toBe(50);
+    expect(calculateTaskProgress(withChecklist[0], withChecklist)).toEqual({ completed: 1, total: 2, percent: 75 });
+  });
+
+  it('normalizes checklist input', () => {
+    const items = normalizeChecklist([{ text: ' keep ' }, { text: '' }, { id: 'x', text: 'done', done: true }]);
+    expect(items).toHaveLength(2);
+    expect(items[0].text).toBe('keep');
+    expect(items[0].id).toMatch(/^chk_/);
+    expect(items[1]).toEqual({ id: 'x', text: 'done', done: true });
+  });
+});
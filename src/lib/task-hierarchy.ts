@@ -0,0 +1,129 @@
+import type { TaskChecklistItem, TaskProgress, TaskyTask } from '../types/task';
+import { TaskStatus } from '../types/task';
+
+// Subtask/checklist helpers shared by the engine (main) and TaskList (renderer)
+
+export interface TaskTreeNode {
+  task: TaskyTask;
+  children: TaskTreeNode[];
+}
+
+const genChecklistId = (): string =>
+  `chk_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Normalize checklist input: trim text, drop empty items and assign ids to new items
+ */
+export function normalizeChecklist(
+  items: Array<Partial<TaskChecklistItem> & { text: string }> | undefined
+): TaskChecklistItem[] {
+  if (!Array.isArray(items)) return [];
+  return items
+    .map(item => ({
+      id: item.id && String(item.id).trim() ? String(item.id) : genChecklistId(),
+      text: String(item.text ?? '').trim(),
+      done: !!item.done
+    }))
+    .filter(item => item.text.length > 0);
+}
+
+export function getChildTasks(tasks: TaskyTask[], parentId: string): TaskyTask[] {
+  return tasks.filter(t => t.schema.parentId === parentId);
+}
+
+/**
+ * All descendant IDs of a task (children, grandchildren, ...)
+ */
+export function getDescendantIds(tasks: TaskyTask[], taskId: string): string[] {
+  const result: string[] = [];
+  const queue = [taskId];
+  const seen = new Set<string>([taskId]);
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const child of getChildTasks(tasks, current)) {
+      if (seen.has(child.schema.id)) continue;
+      seen.add(child.schema.id);
+      result.push(child.schema.id);
+      queue.push(child.schema.id);
+    }
+  }
+  return result;
+}
+
+/**
+ * True when making `parentId` the parent of `taskId` would loop the hierarchy
+ */
+export function wouldCreateParentCycle(tasks: TaskyTask[], taskId: string, parentId: string): boolean {
+  if (taskId === parentId) return true;
+  return getDescendantIds(tasks, taskId).includes(parentId);
+}
+
+const isDone = (task: TaskyTask) =>
+  task.status === TaskStatus.COMPLETED || task.status === TaskStatus.ARCHIVED;
+
+/**
+ * Roll up progress from subtasks (recursively) and checklist items.
+ * Each subtask and each checklist item counts as one unit; a subtask contributes
+ * its own fractional progress. A completed task is always 100%.
+ */
+export function calculateTaskProgress(task: TaskyTask, tasks: TaskyTask[]): TaskProgress {
+  const visit = (current: TaskyTask, seen: Set<string>): TaskProgress => {
+    const children = getChildTasks(tasks, current.schema.id).filter(c => !seen.has(c.schema.id));
+    const checklist = current.schema.checklist || [];
+    const total = children.length + checklist.length;
+
+    if (isDone(current)) {
+      return { completed: total, total, percent: 100 };
+    }
+    if (total === 0) {
+      return { completed: 0, total: 0, percent: 0 };
+    }
+
+    let units = 0;
+    let completed = 0;
+    for (const child of children) {
+      const childProgress = visit(child, new Set([...seen, child.schema.id]));
+      units += childProgress.percent / 100;
+      if (childProgress.percent === 100) completed++;
+    }
+    for (const item of checklist) {
+      if (item.done) {
+        units += 1;
+        completed++;
+      }
+    }
+    return { completed, total, percent: Math.round((units / total) * 100) };
+  };
+  return visit(task, new Set([task.schema.id]));
+}
+
+/**
+ * Open (not completed/archived) subtasks anywhere below a task
+ */
+export function getOpenDescendants(tasks: TaskyTask[], taskId: string): TaskyTask[] {
+  const ids = new Set(getDescendantIds(tasks, taskId));
+  return tasks.filter(t => ids.has(t.schema.id) && !isDone(t));
+}
+
+/**
+ * Build a forest from a flat list, preserving input order.
+ * Tasks whose parent is not in the list are treated as roots.
+ */
+export function buildTaskTree(tasks: TaskyTask[]): TaskTreeNode[] {
+  const nodes = new Map<string, TaskTreeNode>();
+  for (const task of tasks) {
+    nodes.set(task.schema.id, { task, children: [] });
+  }
+  const roots: TaskTreeNode[] = [];
+  for (const task of tasks) {
+    const node = nodes.get(task.schema.id)!;
+    const parentId = task.schema.parentId;
+    const parent = parentId ? nodes.get(parentId) : undefined;
+    if (parent && parentId !== task.schema.id && !wouldCreateParentCycle(tasks, task.schema.id, parentId!)) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  }
+  return roots;
+}
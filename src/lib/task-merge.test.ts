@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { mergeTaskEdits } from './task-merge';
+
+describe('mergeTaskEdits', () => {
+  const base = { title: 'Write docs', description: 'Draft', affectedFiles: ['a.md'] as string[] | undefined };
+
+  it('keeps fields only I changed and takes fields only they changed', () => {
+    const mine = { ...base, title: 'Write API docs' };
+    const theirs = { ...base, description: 'Draft, then review' };
+    expect(mergeTaskEdits(base, mine, theirs)).toEqual({
+      merged: { title: 'Write API docs', description: 'Draft, then review', affectedFiles: ['a.md'] },
+      conflicts: []
+    });
+  });
+
+  it('reports fields both sides changed differently and keeps mine', () => {
+    const mine = { ...base, title: 'Mine' };
+    const theirs = { ...base, title: 'Theirs' };
+    const result = mergeTaskEdits(base, mine, theirs);
+    expect(result.conflicts).toEqual(['title']);
+    expect(result.merged.title).toBe('Mine');
+  });
+
+  it('does not report identical changes as conflicts', () => {
+    const mine = { ...base, title: 'Same' };
+    expect(mergeTaskEdits(base, mine, { ...base, title: 'Same' }).conflicts).toEqual([]);
+  });
+
+  it('treats empty values as unset', () => {
+    const mine: typeof base = { ...base, description: '', affectedFiles: undefined };
+    const theirs = { ...base, description: undefined, affectedFiles: [] };
+    expect(mergeTaskEdits(base, mine, theirs).conflicts).toEqual([]);
+  });
+});
@@ -0,0 +1,35 @@
+// Three-way merge used when a task edit hits a version conflict (see TaskConflict)
+
+// Empty strings/arrays and null/undefined all mean "not set" in the task form
+const normalize = (value: unknown): unknown => {
+  if (value === undefined || value === null || value === '') return null;
+  if (Array.isArray(value) && value.length === 0) return null;
+  return value;
+};
+
+const same = (a: unknown, b: unknown): boolean => JSON.stringify(normalize(a)) === JSON.stringify(normalize(b));
+
+export interface TaskMergeResult<T> {
+  merged: T;
+  conflicts: Array<keyof T & string>;
+}
+
+/**
+ * Merge `mine` (an edit started from `base`) with `theirs` (what was saved meanwhile).
+ * Fields only one side changed take that side's value; fields both sides changed to
+ * different values are reported in `conflicts` and keep `mine`.
+ */
+export function mergeTaskEdits<T extends Record<string, unknown>>(base: Partial<T>, mine: T, theirs: Partial<T>): TaskMergeResult<T> {
+  const merged = { ...mine };
+  const conflicts: Array<keyof T & string> = [];
+  for (const key of Object.keys(mine) as Array<keyof T & string>) {
+    const mineChanged = !same(base[key], mine[key]);
+    const theirsChanged = !same(base[key], theirs[key]);
+    if (!mineChanged && theirsChanged) {
+      merged[key] = theirs[key] as T[keyof T & string];
+    } else if (mineChanged && theirsChanged && !same(mine[key], theirs[key])) {
+      conflicts.push(key);
+    }
+  }
+  return { merged, conflicts };
+}
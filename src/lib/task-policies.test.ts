@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_POLICY_THRESHOLDS,
+  breakDownTask,
+  createRankingPolicy,
+  getTaskPolicy,
+  listTaskPolicies,
+  registerTaskPolicy,
+  validatePolicySettings
+} from './task-policies';
+import { TaskObservation, TaskPolicyContext, TaskStatus, TaskyTask } from '../types/task';
+
+const NOW = new Date(2025, 2, 10, 10, 0); // peak hours by default
+const HOUR = 60 * 60 * 1000;
+
+const task = (id: string, schema: Partial<TaskyTask['schema']> = {}, status: string = TaskStatus.PENDING): TaskyTask => ({
+  status,
+  schema: { id, title: id, createdAt: NOW, updatedAt: NOW, ...schema }
+} as TaskyTask);
+
+const observation: TaskObservation = {
+  totalTasks: 0, pendingTasks: 0, completedTasks: 0, overdueTasks: 0, todaysDueTasks: 0, blockedTasks: 0
+};
+
+const context = (tasks: TaskyTask[], now = NOW): TaskPolicyContext => ({
+  now,
+  tasks,
+  blocked: [],
+  thresholds: DEFAULT_POLICY_THRESHOLDS
+});
+
+const focus = (policy: string, tasks: TaskyTask[], now = NOW) =>
+  getTaskPolicy(policy).orient(observation, context(tasks, now)).focusTask?.schema.id;
+
+describe('task-policies', () => {
+  const tasks = [
+    task('soon-big', { dueDate: new Date(NOW.getTime() + 2 * HOUR), estimatedDuration: 180 }),
+    task('later-small', { dueDate: new Date(NOW.getTime() + 10 * 24 * HOUR), estimatedDuration: 15 }),
+    task('undated-medium', { estimatedDuration: 90 }),
+    task('done', { estimatedDuration: 5 }, TaskStatus.COMPLETED)
+  ];
+
+  it('orders the focus by each built-in policy', () => {
+    expect(listTaskPolicies().map(p => p.id)).toEqual(['deadline-first', 'smallest-first', 'wsjf', 'energy-aware']);
+    expect(focus('deadline-first', tasks)).toBe('soon-big');
+    expect(focus('smallest-first', tasks)).toBe('later-small');
+    // Cost of delay per hour: soon-big 8 / 3h ≈ 2.7, later-small 2 / 0.25h = 8
+    expect(focus('wsjf', tasks)).toBe('later-small');
+    // Unblocking two tasks: (1 + 2 * 2) / 0.5 = 10
+    const unblocker = task('unblocker', { estimatedDuration: 30 });
+    const waiting = [task('w1', { dependencies: ['unblocker'] }), task('w2', { dependencies: ['unblocker'] })];
+    expect(focus('wsjf', [...tasks, unblocker, ...waiting])).toBe('unblocker');
+    expect(focus('energy-aware', tasks)).toBe('soon-big');
+    expect(focus('energy-aware', tasks, new Date(2025, 2, 10, 16, 0))).toBe('later-small');
+    expect(focus('unknown', tasks)).toBe('soon-big');
+  });
+
+  it('suggests break-downs and archiving from the thresholds and decides to act on them', () => {
+    const now = new Date(NOW.getTime() + 40 * 24 * HOUR);
+    const old = task('old', { estimatedDuration: 300 });
+    const shipped = { ...task('shipped', {}, TaskStatus.COMPLETED), completedAt: NOW };
+    const policy = getTaskPolicy('deadline-first');
+    const strategy = policy.orient({ ...observation, pendingTasks: 11 }, context([old, shipped], now));
+
+    expect(strategy.suggestedActions.map(s => [s.type, s.taskId])).toEqual([
+      ['break_down', 'multiple'], ['break_down', 'old'], ['archive', 'shipped']
+    ]);
+    expect(strategy.urgentAlerts).toEqual([
+      expect.objectContaining({ type: 'long_pending', taskId: 'old', severity: 'low' })
+    ]);
+    expect(policy.decide(strategy, context([old, shipped], now)).map(a => [a.type, a.taskId])).toEqual([
+      ['focus', 'old'], ['break_down', 'old'], ['archive', 'shipped']
+    ]);
+  });
+
+  it('splits a task by its checklist, then by its estimate', () => {
+    const parent = task('p', {
+      title: 'Launch',
+      tags: ['web'],
+      estimatedDuration: 200,
+      checklist: [{ id: 'a', text: 'Copy', done: true }, { id: 'b', text: 'Deploy', done: false }]
+    });
+    expect(breakDownTask(parent, 60)).toEqual([
+      { parentId: 'p', title: 'Deploy', dueDate: undefined, tags: ['web'], assignedAgent: undefined }
+    ]);
+    const parts = breakDownTask({ ...parent, schema: { ...parent.schema, checklist: [] } }, 60);
+    expect(parts.map(p => [p.title, p.estimatedDuration])).toEqual([
+      ['Launch (part 1 of 4)', 50], ['Launch (part 2 of 4)', 50], ['Launch (part 3 of 4)', 50], ['Launch (part 4 of 4)', 50]
+    ]);
+    expect(breakDownTask(task('tiny', { estimatedDuration: 30 }), 60)).toEqual([]);
+    expect(breakDownTask(task('tiny'), 60, [' One ', '']).map(p => p.title)).toEqual(['One']);
+  });
+
+  it('validates settings and accepts registered policies', () => {
+    expect(validatePolicySettings({ policy: 'wsjf', thresholds: { dueSoonHours: 48 } })).toEqual({
+      policy: 'wsjf',
+      thresholds: { ...DEFAULT_POLICY_THRESHOLDS, dueSoonHours: 48 }
+    });
+    expect(() => validatePolicySettings({ policy: 'random' })).toThrow('Unknown policy "random"');
+    expect(() => validatePolicySettings({ policy: 'wsjf', thresholds: { ...DEFAULT_POLICY_THRESHOLDS, peakHoursEnd: 24 } }))
+      .toThrow('peakHoursEnd must be a whole number from 0 to 23');
+
+    registerTaskPolicy(createRankingPolicy({ id: 'newest-first', label: 'Newest first', description: '' }, ts => [...ts].reverse()));
+    expect(validatePolicySettings({ policy: 'newest-first' }).policy).toBe('newest-first');
+    expect(focus('newest-first', tasks)).toBe('undated-medium');
+  });
+});
@@ -0,0 +1,381 @@
+import type {
+  CreateTaskInput,
+  TaskAction,
+  TaskAlert,
+  TaskObservation,
+  TaskPolicy,
+  TaskPolicyContext,
+  TaskPolicyInfo,
+  TaskPolicySettings,
+  TaskPolicyThresholds,
+  TaskStrategy,
+  TaskSuggestion,
+  TaskyTask
+} from '../types/task';
+import { TaskStatus, TaskValidationError } from '../types/task';
+import { getChildTasks } from './task-hierarchy';
+import { isOpenStatus } from './task-workflow';
+
+// Policies for the engine's observe/orient/decide/act loop: which task to focus on, which
+// suggestions and alerts to raise, and which actions to take. The built-in ones are registered
+// below; registerTaskPolicy adds more (same id replaces).
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+// Unestimated tasks count as an hour of work when sizes are compared
+const DEFAULT_TASK_MINUTES = 60;
+// Never split a task into more parts than this
+export const MAX_BREAK_DOWN_PARTS = 8;
+
+export const DEFAULT_TASK_POLICY = 'deadline-first';
+
+export const DEFAULT_POLICY_THRESHOLDS: TaskPolicyThresholds = {
+  breakDownPendingOver: 10,
+  breakDownMinutesOver: 240,
+  breakDownChunkMinutes: 60,
+  dueSoonHours: 24,
+  longPendingDays: 14,
+  archiveAfterDays: 30,
+  peakHoursStart: 9,
+  peakHoursEnd: 12
+};
+
+export const DEFAULT_TASK_POLICY_SETTINGS: TaskPolicySettings = {
+  policy: DEFAULT_TASK_POLICY,
+  thresholds: DEFAULT_POLICY_THRESHOLDS
+};
+
+// [min, max] for each threshold
+const THRESHOLD_LIMITS: Record<keyof TaskPolicyThresholds, [number, number]> = {
+  breakDownPendingOver: [1, 1000],
+  breakDownMinutesOver: [15, 10080],
+  breakDownChunkMinutes: [5, 1440],
+  dueSoonHours: [1, 720],
+  longPendingDays: [1, 365],
+  archiveAfterDays: [0, 3650],
+  peakHoursStart: [0, 23],
+  peakHoursEnd: [0, 23]
+};
+
+type TaskRanking = (tasks: TaskyTask[], context: TaskPolicyContext) => TaskyTask[];
+
+const policies = new Map<string, TaskPolicy>();
+
+export function registerTaskPolicy(policy: TaskPolicy): void {
+  policies.set(policy.id, policy);
+}
+
+/**
+ * The registered policy, or the default one when the id is unknown (e.g. a plugin was removed).
+ */
+export function getTaskPolicy(id: string): TaskPolicy {
+  return policies.get(id) || policies.get(DEFAULT_TASK_POLICY)!;
+}
+
+export function listTaskPolicies(): TaskPolicyInfo[] {
+  return Array.from(policies.values()).map(({ id, label, description }) => ({ id, label, description }));
+}
+
+/**
+ * Check a policy choice before it is saved: a registered policy and whole-number thresholds
+ * within range, missing ones taken from the defaults. Throws TaskValidationError.
+ */
+export function validatePolicySettings(input: { policy?: string; thresholds?: Partial<TaskPolicyThresholds> }): TaskPolicySettings {
+  const policy = String(input?.policy ?? '').trim();
+  if (!policies.has(policy)) {
+    throw new TaskValidationError(`Unknown policy "${policy}" (use ${Array.from(policies.keys()).join(', ')})`, 'policy');
+  }
+  const thresholds = { ...DEFAULT_POLICY_THRESHOLDS };
+  for (const key of Object.keys(THRESHOLD_LIMITS) as (keyof TaskPolicyThresholds)[]) {
+    const value = input.thresholds?.[key];
+    if (value === undefined) continue;
+    const [min, max] = THRESHOLD_LIMITS[key];
+    if (!Number.isInteger(value) || value < min || value > max) {
+      throw new TaskValidationError(`${key} must be a whole number from ${min} to ${max}`, 'thresholds');
+    }
+    thresholds[key] = value;
+  }
+  return { policy, thresholds };
+}
+
+/**
+ * Saved settings with thresholds added since they were saved filled in from the defaults.
+ */
+export function withDefaultThresholds(settings: TaskPolicySettings): TaskPolicySettings {
+  return { policy: settings.policy, thresholds: { ...DEFAULT_POLICY_THRESHOLDS, ...settings.thresholds } };
+}
+
+const estimateOf = (task: TaskyTask): number => task.schema.estimatedDuration || DEFAULT_TASK_MINUTES;
+
+// Earliest due date first, undated tasks last, then oldest first
+const byDueDate = (a: TaskyTask, b: TaskyTask): number => {
+  const dueA = a.schema.dueDate?.getTime() ?? Infinity;
+  const dueB = b.schema.dueDate?.getTime() ?? Infinity;
+  if (dueA !== dueB) return dueA < dueB ? -1 : 1;
+  return a.schema.createdAt.getTime() - b.schema.createdAt.getTime();
+};
+
+const sortedBy = (compare: (a: TaskyTask, b: TaskyTask) => number): TaskRanking =>
+  tasks => [...tasks].sort((a, b) => compare(a, b) || byDueDate(a, b));
+
+// Open work that can be picked up now: not blocked and not waiting on a reviewer
+function focusCandidates(context: TaskPolicyContext): TaskyTask[] {
+  const blocked = new Set(context.blocked.map(info => info.task.schema.id));
+  return context.tasks.filter(task =>
+    isOpenStatus(task.status) && task.status !== TaskStatus.NEEDS_REVIEW && !blocked.has(task.schema.id)
+  );
+}
+
+// How much waiting costs: urgency from the due date, plus two for every open task it unblocks
+function costOfDelay(task: TaskyTask, context: TaskPolicyContext): number {
+  const due = task.schema.dueDate?.getTime();
+  const left = due === undefined ? Infinity : due - context.now.getTime();
+  const urgency = left < 0 ? 10 : left <= context.thresholds.dueSoonHours * HOUR_MS ? 8 : left <= 7 * DAY_MS ? 5 : due === undefined ? 1 : 2;
+  const unblocks = context.tasks.filter(t => isOpenStatus(t.status) && t.schema.dependencies?.includes(task.schema.id)).length;
+  return urgency + 2 * unblocks;
+}
+
+/**
+ * Weighted shortest job first: cost of delay divided by size in hours (at least a quarter hour).
+ */
+export function wsjfScore(task: TaskyTask, context: TaskPolicyContext): number {
+  return costOfDelay(task, context) / Math.max(estimateOf(task), 15) * 60;
+}
+
+/**
+ * Whether `now` falls in the peak hours; a start after the end wraps past midnight.
+ */
+export function isPeakHour(now: Date, thresholds: TaskPolicyThresholds): boolean {
+  const hour = now.getHours();
+  const { peakHoursStart: start, peakHoursEnd: end } = thresholds;
+  return start <= end ? hour >= start && hour < end : hour >= start || hour < end;
+}
+
+/**
+ * Subtasks to split a task into: its unticked checklist items, or else parts of about
+ * `chunkMinutes` of its estimate. `titles` overrides both. Empty when there is nothing to split.
+ */
+export function breakDownTask(task: TaskyTask, chunkMinutes: number, titles?: string[]): CreateTaskInput[] {
+  const { schema } = task;
+  const common = { parentId: schema.id, dueDate: schema.dueDate, tags: schema.tags, assignedAgent: schema.assignedAgent };
+  const given = (titles || []).map(title => String(title).trim()).filter(Boolean);
+  if (given.length > 0) return given.map(title => ({ ...common, title }));
+
+  const open = (schema.checklist || []).filter(item => !item.done);
+  if (open.length > 0) return open.map(item => ({ ...common, title: item.text }));
+
+  const estimate = schema.estimatedDuration || 0;
+  const parts = Math.min(MAX_BREAK_DOWN_PARTS, Math.ceil(estimate / chunkMinutes));
+  if (parts < 2) return [];
+  return Array.from({ length: parts }, (_, i) => ({
+    ...common,
+    title: `${schema.title.slice(0, 180)} (part ${i + 1} of ${parts})`,
+    estimatedDuration: Math.round(estimate / parts)
+  }));
+}
+
+function suggest(observation: TaskObservation, context: TaskPolicyContext): TaskSuggestion[] {
+  const { now, tasks, thresholds } = context;
+  const suggestions: TaskSuggestion[] = [];
+
+  if (observation.overdueTasks > 0) {
+    suggestions.push({
+      type: 'reschedule',
+      taskId: 'multiple',
+      message: `You have ${observation.overdueTasks} overdue tasks`,
+      reasoning: 'Consider rescheduling or breaking down overdue tasks'
+    });
+  }
+
+  if (observation.todaysDueTasks > 5) {
+    suggestions.push({
+      type: 'focus',
+      taskId: 'multiple',
+      message: `${observation.todaysDueTasks} tasks due today`,
+      reasoning: 'Consider prioritizing tasks due today'
+    });
+  }
+
+  if (observation.pendingTasks > thresholds.breakDownPendingOver) {
+    suggestions.push({
+      type: 'break_down',
+      taskId: 'multiple',
+      message: `${observation.pendingTasks} tasks are pending`,
+      reasoning: 'Consider breaking big tasks into smaller steps and archiving what no longer matters'
+    });
+  }
+
+  for (const task of tasks) {
+    const estimate = task.schema.estimatedDuration || 0;
+    if (isOpenStatus(task.status) && estimate > thresholds.breakDownMinutesOver && getChildTasks(tasks, task.schema.id).length === 0) {
+      suggestions.push({
+        type: 'break_down',
+        taskId: task.schema.id,
+        message: `Break down "${task.schema.title}"`,
+        reasoning: `Estimated at ${estimate} minutes, over the ${thresholds.breakDownMinutesOver} minute limit`
+      });
+    }
+    const completedAt = task.completedAt?.getTime();
+    if (
+      thresholds.archiveAfterDays > 0 && task.status === TaskStatus.COMPLETED && completedAt !== undefined &&
+      now.getTime() - completedAt >= thresholds.archiveAfterDays * DAY_MS
+    ) {
+      suggestions.push({
+        type: 'archive',
+        taskId: task.schema.id,
+        message: `Archive "${task.schema.title}"`,
+        reasoning: `Completed more than ${thresholds.archiveAfterDays} days ago`
+      });
+    }
+  }
+
+  return suggestions;
+}
+
+function alert(observation: TaskObservation, context: TaskPolicyContext): TaskAlert[] {
+  const { now, tasks, thresholds } = context;
+  const alerts: TaskAlert[] = [];
+
+  if (observation.overdueTasks > 0) {
+    alerts.push({
+      type: 'overdue',
+      taskId: 'multiple',
+      message: `${observation.overdueTasks} tasks are overdue`,
+      severity: 'high'
+    });
+  }
+
+  const soon = now.getTime() + thresholds.dueSoonHours * HOUR_MS;
+  const dueSoon = tasks.filter(task => {
+    const due = task.schema.dueDate?.getTime();
+    return isOpenStatus(task.status) && due !== undefined && due >= now.getTime() && due <= soon;
+  }).length;
+  if (dueSoon > 0) {
+    alerts.push({
+      type: 'due_soon',
+      taskId: 'multiple',
+      message: `${dueSoon} tasks due in the next ${thresholds.dueSoonHours} hours`,
+      severity: 'medium'
+    });
+  }
+
+  for (const { task, blockedBy } of context.blocked) {
+    const overdue = !!task.schema.dueDate && task.schema.dueDate < now;
+    alerts.push({
+      type: 'blocked',
+      taskId: task.schema.id,
+      message: `"${task.schema.title}" is blocked by: ${blockedBy.map(t => t.schema.title).join(', ')}`,
+      severity: overdue ? 'high' : 'medium'
+    });
+  }
+
+  const stale = now.getTime() - thresholds.longPendingDays * DAY_MS;
+  for (const task of tasks) {
+    if (isOpenStatus(task.status) && (task.schema.updatedAt || task.schema.createdAt).getTime() < stale) {
+      alerts.push({
+        type: 'long_pending',
+        taskId: task.schema.id,
+        message: `"${task.schema.title}" hasn't changed in over ${thresholds.longPendingDays} days`,
+        severity: 'low'
+      });
+    }
+  }
+
+  return alerts;
+}
+
+/**
+ * Orient shared by the built-in policies: the first task in the policy's order is the focus;
+ * suggestions and alerts come from the thresholds.
+ */
+export function orientTasks(
+  policyId: string,
+  rank: TaskRanking,
+  observation: TaskObservation,
+  context: TaskPolicyContext
+): TaskStrategy {
+  return {
+    policy: policyId,
+    focusTask: rank(focusCandidates(context), context)[0],
+    suggestedActions: suggest(observation, context),
+    urgentAlerts: alert(observation, context)
+  };
+}
+
+/**
+ * Decide shared by the built-in policies: focus on the focus task, notify about high alerts,
+ * and act on break-down and archive suggestions that name a task.
+ */
+export function decideTaskActions(strategy: TaskStrategy): TaskAction[] {
+  const actions: TaskAction[] = [];
+
+  if (strategy.focusTask) {
+    actions.push({
+      type: 'focus',
+      taskId: strategy.focusTask.schema.id,
+      message: `Focus on: ${strategy.focusTask.schema.title}`,
+      data: { dueDate: strategy.focusTask.schema.dueDate }
+    });
+  }
+
+  for (const alert of strategy.urgentAlerts) {
+    if (alert.severity === 'high') {
+      actions.push({
+        type: 'notify',
+        taskId: alert.taskId,
+        message: alert.message,
+        data: { severity: alert.severity }
+      });
+    }
+  }
+
+  for (const suggestion of strategy.suggestedActions) {
+    if ((suggestion.type === 'break_down' || suggestion.type === 'archive') && suggestion.taskId !== 'multiple') {
+      actions.push({ type: suggestion.type, taskId: suggestion.taskId, message: suggestion.message });
+    }
+  }
+
+  return actions;
+}
+
+/**
+ * A policy that differs from the others only in how it orders the tasks to focus on.
+ */
+export function createRankingPolicy(info: TaskPolicyInfo, rank: TaskRanking): TaskPolicy {
+  return {
+    ...info,
+    orient: (observation, context) => orientTasks(info.id, rank, observation, context),
+    decide: strategy => decideTaskActions(strategy)
+  };
+}
+
+registerTaskPolicy(createRankingPolicy(
+  { id: 'deadline-first', label: 'Deadline first', description: 'Work on whatever is due soonest, overdue tasks first' },
+  sortedBy(() => 0)
+));
+
+registerTaskPolicy(createRankingPolicy(
+  { id: 'smallest-first', label: 'Smallest first', description: 'Clear quick wins first: shortest estimate, then earliest due date' },
+  sortedBy((a, b) => estimateOf(a) - estimateOf(b))
+));
+
+registerTaskPolicy(createRankingPolicy(
+  {
+    id: 'wsjf',
+    label: 'Weighted shortest job first',
+    description: 'Highest cost of delay (urgency and tasks it unblocks) per hour of work first'
+  },
+  (tasks, context) => sortedBy((a, b) => wsjfScore(b, context) - wsjfScore(a, context))(tasks, context)
+));
+
+registerTaskPolicy(createRankingPolicy(
+  {
+    id: 'energy-aware',
+    label: 'Energy aware',
+    description: 'Big tasks during your peak hours, small ones the rest of the day'
+  },
+  (tasks, context) => {
+    const peak = isPeakHour(context.now, context.thresholds);
+    return sortedBy((a, b) => (peak ? estimateOf(b) - estimateOf(a) : estimateOf(a) - estimateOf(b)))(tasks, context);
+  }
+));
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { queryTaskList, validateTaskFilter } from './task-query';
+import { TaskStatus, TaskValidationError, TaskyTask } from '../types/task';
+
+function makeTask(id: string, overrides: Partial<TaskyTask['schema']> = {}, status = TaskStatus.PENDING): TaskyTask {
+  return { status, schema: { id, title: id, createdAt: new Date('2025-01-01T00:00:00Z'), ...overrides } } as TaskyTask;
+}
+
+const ids = (tasks: TaskyTask[]) => tasks.map(t => t.schema.id);
+
+describe('queryTaskList', () => {
+  const tasks = [
+    makeTask('a', { title: 'Fix login', dueDate: new Date('2025-03-02T00:00:00Z'), tags: ['bug'] }),
+    makeTask('b', { title: 'write docs', createdAt: new Date('2025-01-03T00:00:00Z') }, TaskStatus.COMPLETED),
+    makeTask('c', { title: 'Add tests', dueDate: new Date('2025-03-01T00:00:00Z'), tags: ['testing'], affectedFiles: ['src/a.ts'] }),
+    makeTask('d', { title: 'Refactor', createdAt: new Date('2025-01-02T00:00:00Z'), description: 'LOGIN flow' })
+  ];
+
+  it('sorts by due date with undated tasks last, newest first', () => {
+    expect(ids(queryTaskList(tasks).tasks)).toEqual(['c', 'a', 'b', 'd']);
+  });
+
+  it('keeps undated tasks last when sorting descending', () => {
+    expect(ids(queryTaskList(tasks, { sortOrder: 'desc' }).tasks)).toEqual(['a', 'c', 'b', 'd']);
+  });
+
+  it('sorts titles case-insensitively', () => {
+    expect(ids(queryTaskList(tasks, { sortBy: 'title' }).tasks)).toEqual(['c', 'a', 'd', 'b']);
+  });
+
+  it('filters by status, tags, search and files', () => {
+    expect(ids(queryTaskList(tasks, { status: [TaskStatus.COMPLETED] }).tasks)).toEqual(['b']);
+    expect(ids(queryTaskList(tasks, { tags: ['bug', 'testing'] }).tasks)).toEqual(['c', 'a']);
+    expect(ids(queryTaskList(tasks, { search: 'login' }).tasks)).toEqual(['a', 'd']);
+    expect(ids(queryTaskList(tasks, { hasFiles: true }).tasks)).toEqual(['c']);
+  });
+
+  it('treats due date bounds as inclusive and skips undated tasks', () => {
+    const result = queryTaskList(tasks, { dueDateFrom: '2025-03-01T00:00:00Z' as any, dueDateTo: new Date('2025-03-01T00:00:00Z') });
+    expect(ids(result.tasks)).toEqual(['c']);
+  });
+
+  it('pages after sorting and reports the full total', () => {
+    const result = queryTaskList(tasks, { offset: 1, limit: 2 });
+    expect(ids(result.tasks)).toEqual(['a', 'b']);
+    expect(result.total).toBe(4);
+  });
+
+  it('returns only counts for limit 0', () => {
+    const result = queryTaskList(tasks, { limit: 0, includeCounts: ['status', 'tags'] });
+    expect(result.tasks).toEqual([]);
+    expect(result.total).toBe(4);
+    expect(result.counts?.status).toMatchObject({ [TaskStatus.PENDING]: 3, [TaskStatus.COMPLETED]: 1, [TaskStatus.ARCHIVED]: 0 });
+    expect(result.counts?.tags).toEqual({ bug: 1, testing: 1 });
+  });
+});
+
+describe('validateTaskFilter', () => {
+  it('rejects unknown sorts and bad paging', () => {
+    expect(() => validateTaskFilter({ sortBy: 'priority' as any })).toThrow(TaskValidationError);
+    expect(() => validateTaskFilter({ sortOrder: 'up' as any })).toThrow(/sortOrder/);
+    expect(() => validateTaskFilter({ limit: -1 })).toThrow(/limit/);
+    expect(() => validateTaskFilter({ offset: 1.5 })).toThrow(/offset/);
+    expect(() => validateTaskFilter({ limit: 0, offset: 10, sortBy: 'title', sortOrder: 'desc' })).not.toThrow();
+  });
+});
@@ -0,0 +1,112 @@
+import { TaskStatus, TaskStatusId, TaskValidationError } from '../types/task';
+import type { TaskFilterOptions, TaskQueryResult, TaskSortField, TaskyTask } from '../types/task';
+import { matchesSearch } from './task-search';
+
+// Filtering, sorting and paging rules for TaskFilterOptions. SqliteTaskStorage compiles the
+// same rules to SQL (core/storage/task-query-sql.ts); this in-memory version serves storages
+// without queryTasks.
+
+export const TASK_SORT_FIELDS: TaskSortField[] = ['dueDate', 'created', 'updated', 'title', 'status'];
+
+/**
+ * Reject sort and paging options that can't be applied. Throws TaskValidationError.
+ */
+export function validateTaskFilter(filter: TaskFilterOptions = {}): void {
+  if (filter.sortBy !== undefined && !TASK_SORT_FIELDS.includes(filter.sortBy)) {
+    throw new TaskValidationError(`Unknown sortBy "${filter.sortBy}" (expected ${TASK_SORT_FIELDS.join(', ')})`, 'sortBy');
+  }
+  if (filter.sortOrder !== undefined && filter.sortOrder !== 'asc' && filter.sortOrder !== 'desc') {
+    throw new TaskValidationError('sortOrder must be "asc" or "desc"', 'sortOrder');
+  }
+  for (const key of ['limit', 'offset'] as const) {
+    const value = filter[key];
+    if (value !== undefined && (!Number.isInteger(value) || value < 0)) {
+      throw new TaskValidationError(`${key} must be a non-negative whole number`, key);
+    }
+  }
+}
+
+// Dates may arrive as ISO strings over IPC/MCP
+const time = (value?: Date | string): number | undefined => (value ? new Date(value).getTime() : undefined);
+
+/**
+ * Whether a task passes every filter. Tags match if the task has any of them; search looks at
+ * title, description, tags and result (lib/task-search syntax); date bounds are inclusive and exclude undated tasks.
+ */
+export function matchesTaskFilter(task: TaskyTask, filter: TaskFilterOptions): boolean {
+  const { schema } = task;
+  if (filter.status && filter.status.length > 0 && !filter.status.includes(task.status)) return false;
+  if (filter.tags && filter.tags.length > 0 && !filter.tags.some(tag => schema.tags?.includes(tag))) return false;
+  if (filter.search && !matchesSearch([schema.title, schema.description, ...(schema.tags || []), task.result], filter.search)) {
+    return false;
+  }
+  const due = time(schema.dueDate);
+  if (filter.dueDateFrom && (due === undefined || due < time(filter.dueDateFrom)!)) return false;
+  if (filter.dueDateTo && (due === undefined || due > time(filter.dueDateTo)!)) return false;
+  if (filter.hasFiles !== undefined && ((schema.affectedFiles || []).length > 0) !== filter.hasFiles) return false;
+  const created = time(schema.createdAt)!;
+  if (filter.createdAfter && created < time(filter.createdAfter)!) return false;
+  if (filter.createdBefore && created > time(filter.createdBefore)!) return false;
+  return true;
+}
+
+const SORT_KEYS: Record<TaskSortField, (task: TaskyTask) => string | number | undefined> = {
+  dueDate: task => time(task.schema.dueDate),
+  created: task => time(task.schema.createdAt),
+  updated: task => time(task.schema.updatedAt),
+  title: task => task.schema.title.toLowerCase(),
+  status: task => task.status
+};
+
+/**
+ * Comparator for the filter's sort. Missing values sort last in either direction;
+ * ties fall back to newest first, then id, so pages are stable.
+ */
+export function compareTasks(filter: TaskFilterOptions = {}): (a: TaskyTask, b: TaskyTask) => number {
+  const key = SORT_KEYS[filter.sortBy || 'dueDate'];
+  const direction = filter.sortOrder === 'desc' ? -1 : 1;
+  return (a, b) => {
+    const x = key(a);
+    const y = key(b);
+    if (x !== y) {
+      if (x === undefined) return 1;
+      if (y === undefined) return -1;
+      return (x < y ? -1 : 1) * direction;
+    }
+    const byCreated = time(b.schema.createdAt)! - time(a.schema.createdAt)!;
+    if (byCreated !== 0) return byCreated;
+    return a.schema.id < b.schema.id ? -1 : a.schema.id > b.schema.id ? 1 : 0;
+  };
+}
+
+/**
+ * Filter, sort and page an in-memory task list.
+ */
+export function queryTaskList(tasks: TaskyTask[], filter: TaskFilterOptions = {}): TaskQueryResult {
+  validateTaskFilter(filter);
+  const matched = tasks.filter(task => matchesTaskFilter(task, filter)).sort(compareTasks(filter));
+  const offset = filter.offset ?? 0;
+  const page = filter.limit === undefined ? matched.slice(offset) : matched.slice(offset, offset + filter.limit);
+  const result: TaskQueryResult = { tasks: page, total: matched.length };
+
+  if (filter.includeCounts && filter.includeCounts.length > 0) {
+    result.counts = {};
+    if (filter.includeCounts.includes('status')) {
+      const status = emptyStatusCounts();
+      for (const task of matched) status[task.status] = (status[task.status] || 0) + 1;
+      result.counts.status = status;
+    }
+    if (filter.includeCounts.includes('tags')) {
+      const tags: Record<string, number> = {};
+      for (const task of matched) {
+        for (const tag of task.schema.tags || []) tags[tag] = (tags[tag] || 0) + 1;
+      }
+      result.counts.tags = tags;
+    }
+  }
+  return result;
+}
+
+export function emptyStatusCounts(): Record<TaskStatusId, number> {
+  return Object.fromEntries(Object.values(TaskStatus).map(status => [status, 0])) as Record<TaskStatusId, number>;
+}
@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import {
+  describeRecurrence,
+  getNextInstance,
+  getNextOccurrence,
+  normalizeRecurrence,
+  parseRRule,
+  toRRule
+} from './task-recurrence';
+
+// Local-time helper so assertions don't depend on the machine timezone
+const at = (y: number, m: number, d: number, h = 9) => new Date(y, m - 1, d, h, 0, 0, 0);
+
+describe('task-recurrence', () => {
+  describe('getNextOccurrence()', () => {
+    it('adds N days for daily rules', () => {
+      expect(getNextOccurrence({ frequency: 'daily', interval: 3 }, at(2026, 1, 30))).toEqual(at(2026, 2, 2));
+    });
+
+    it('picks the next listed weekday in the same week first', () => {
+      // 2026-03-02 is a Monday
+      const rule = { frequency: 'weekly' as const, byWeekday: ['MO' as const, 'TH' as const] };
+      expect(getNextOccurrence(rule, at(2026, 3, 2))).toEqual(at(2026, 3, 5));
+      expect(getNextOccurrence(rule, at(2026, 3, 5))).toEqual(at(2026, 3, 9));
+    });
+
+    it('skips weeks for every-N-weeks rules', () => {
+      const rule = { frequency: 'weekly' as const, interval: 2, byWeekday: ['MO' as const] };
+      expect(getNextOccurrence(rule, at(2026, 3, 2))).toEqual(at(2026, 3, 16));
+    });
+
+    it('clamps monthly day-of-month to short months', () => {
+      const rule = { frequency: 'monthly' as const, byMonthDay: 31 };
+      expect(getNextOccurrence(rule, at(2026, 1, 31))).toEqual(at(2026, 2, 28));
+      expect(getNextOccurrence({ frequency: 'monthly', byMonthDay: -1 }, at(2026, 4, 10))).toEqual(at(2026, 4, 30));
+    });
+
+    it('supports nth and last weekday of the month', () => {
+      const second = { frequency: 'monthly' as const, byNthWeekday: { nth: 2, weekday: 'TU' as const } };
+      expect(getNextOccurrence(second, at(2026, 3, 10))).toEqual(at(2026, 4, 14));
+      const last = { frequency: 'monthly' as const, byNthWeekday: { nth: -1, weekday: 'FR' as const } };
+      expect(getNextOccurrence(last, at(2026, 3, 1))).toEqual(at(2026, 3, 27));
+    });
+  });
+
+  describe('getNextInstance()', () => {
+    it('stops after count occurrences', () => {
+      const rule = { frequency: 'daily' as const, count: 2 };
+      const now = at(2026, 1, 1, 0);
+      expect(getNextInstance(rule, at(2026, 1, 1), 1, now)).toEqual({ dueDate: at(2026, 1, 2), occurrence: 2 });
+      expect(getNextInstance(rule, at(2026, 1, 2), 2, now)).toBeNull();
+    });
+
+    it('stops at the until date', () => {
+      const rule = { frequency: 'daily' as const, until: at(2026, 1, 2, 0) };
+      expect(getNextInstance(rule, at(2026, 1, 1), 1, at(2026, 1, 1, 0))).toBeNull();
+    });
+
+    it('keeps a monthly series on its first day after a short month', () => {
+      const rule = normalizeRecurrence('FREQ=MONTHLY', at(2026, 1, 31))!;
+      expect(rule.byMonthDay).toBe(31);
+      const now = at(2026, 1, 1, 0);
+      const dueDates: Date[] = [];
+      let instance = { dueDate: at(2026, 1, 31), occurrence: 1 };
+      for (let i = 0; i < 3; i++) {
+        instance = getNextInstance(rule, instance.dueDate, instance.occurrence, now)!;
+        dueDates.push(instance.dueDate);
+      }
+      expect(dueDates).toEqual([at(2026, 2, 28), at(2026, 3, 31), at(2026, 4, 30)]);
+    });
+
+    it('skips occurrences that are already in the past', () => {
+      const next = getNextInstance({ frequency: 'daily' }, at(2026, 1, 1), 1, at(2026, 1, 5, 12));
+      expect(next).toEqual({ dueDate: at(2026, 1, 6), occurrence: 6 });
+    });
+  });
+
+  describe('RRULE parsing', () => {
+    it('round-trips rules through RRULE text', () => {
+      const rule = parseRRule('RRULE:FREQ=MONTHLY;INTERVAL=2;BYDAY=-1FR;COUNT=6');
+      expect(rule).toEqual({ frequency: 'monthly', interval: 2, byNthWeekday: { nth: -1, weekday: 'FR' }, count: 6 });
+      expect(toRRule(rule)).toBe('FREQ=MONTHLY;INTERVAL=2;BYDAY=-1FR;COUNT=6');
+      expect(parseRRule('FREQ=WEEKLY;BYDAY=MO,WE').byWeekday).toEqual(['MO', 'WE']);
+      expect(parseRRule('FREQ=DAILY;UNTIL=20261231T000000Z').until).toEqual(new Date('2026-12-31T00:00:00Z'));
+    });
+
+    it('rejects unsupported parts', () => {
+      expect(() => parseRRule('FREQ=YEARLY')).toThrow('Unsupported FREQ');
+      expect(() => parseRRule('FREQ=DAILY;BYHOUR=9')).toThrow('Unsupported RRULE part');
+    });
+  });
+
+  it('validates rules', () => {
+    expect(normalizeRecurrence(undefined)).toBeUndefined();
+    expect(() => normalizeRecurrence({ frequency: 'daily', interval: 0 })).toThrow('interval');
+    expect(() => normalizeRecurrence({ frequency: 'daily', byWeekday: ['MO'] })).toThrow('weekly');
+    expect(() => normalizeRecurrence({ frequency: 'monthly', byMonthDay: 1, byNthWeekday: { nth: 1, weekday: 'MO' } })).toThrow('not both');
+  });
+
+  it('describes rules for display', () => {
+    expect(describeRecurrence({ frequency: 'daily' })).toBe('Every day');
+    expect(describeRecurrence({ frequency: 'monthly', byNthWeekday: { nth: 2, weekday: 'TU' }, count: 3 })).toBe('Every month on the 2nd Tue, 3 times');
+  });
+});
@@ -0,0 +1,241 @@
+import {
+  addDays,
+  addMonths,
+  differenceInCalendarWeeks,
+  getDaysInMonth,
+  startOfMonth
+} from 'date-fns';
+import type { RecurrenceWeekday, TaskRecurrenceRule } from '../types/task';
+
+// RRULE-style recurrence helpers shared by the engine (main) and TaskForm (renderer)
+
+// Indexed like Date.getDay()
+export const RECURRENCE_WEEKDAYS: RecurrenceWeekday[] = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const WEEKDAY_NAMES: Record<RecurrenceWeekday, string> = {
+  MO: 'Mon', TU: 'Tue', WE: 'Wed', TH: 'Thu', FR: 'Fri', SA: 'Sat', SU: 'Sun'
+};
+
+const FREQUENCIES = ['daily', 'weekly', 'monthly'] as const;
+
+const ordinal = (n: number): string => {
+  if (n === -1) return 'last';
+  const suffix = n === 1 ? 'st' : n === 2 ? 'nd' : n === 3 ? 'rd' : 'th';
+  return `${n}${suffix}`;
+};
+
+/**
+ * Parse an RRULE string (e.g. "FREQ=MONTHLY;BYDAY=2TU;COUNT=6"). Throws on unsupported or malformed parts.
+ */
+export function parseRRule(text: string): TaskRecurrenceRule {
+  const body = String(text).trim().replace(/^RRULE:/i, '');
+  const parts: Record<string, string> = {};
+  for (const part of body.split(';').filter(Boolean)) {
+    const [key, value] = part.split('=');
+    if (!key || value === undefined) throw new Error(`Invalid RRULE part "${part}"`);
+    parts[key.toUpperCase()] = value.toUpperCase();
+  }
+
+  const frequency = (parts.FREQ || '').toLowerCase();
+  if (!(FREQUENCIES as readonly string[]).includes(frequency)) {
+    throw new Error(`Unsupported FREQ "${parts.FREQ ?? ''}" (expected DAILY, WEEKLY or MONTHLY)`);
+  }
+  const rule: TaskRecurrenceRule = { frequency: frequency as TaskRecurrenceRule['frequency'] };
+
+  for (const [key, value] of Object.entries(parts)) {
+    switch (key) {
+      case 'FREQ':
+        break;
+      case 'INTERVAL':
+        rule.interval = Number(value);
+        break;
+      case 'COUNT':
+        rule.count = Number(value);
+        break;
+      case 'BYMONTHDAY':
+        rule.byMonthDay = Number(value);
+        break;
+      case 'UNTIL': {
+        const m = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/);
+        rule.until = m
+          ? new Date(Date.UTC(+m[1], +m[2] - 1, +m[3], +(m[4] ?? 23), +(m[5] ?? 59), +(m[6] ?? 59)))
+          : new Date(value);
+        break;
+      }
+      case 'BYDAY': {
+        const days = value.split(',');
+        const nth = days.length === 1 ? days[0].match(/^([+-]?\d)([A-Z]{2})$/) : null;
+        if (nth) {
+          rule.byNthWeekday = { nth: Number(nth[1]), weekday: nth[2] as RecurrenceWeekday };
+        } else {
+          rule.byWeekday = days as RecurrenceWeekday[];
+        }
+        break;
+      }
+      default:
+        throw new Error(`Unsupported RRULE part "${key}"`);
+    }
+  }
+  return rule;
+}
+
+/**
+ * Serialize a rule back to RRULE text (used for storage)
+ */
+export function toRRule(rule: TaskRecurrenceRule): string {
+  const parts = [`FREQ=${rule.frequency.toUpperCase()}`];
+  if (rule.interval && rule.interval !== 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byWeekday && rule.byWeekday.length > 0) parts.push(`BYDAY=${rule.byWeekday.join(',')}`);
+  if (rule.byNthWeekday) parts.push(`BYDAY=${rule.byNthWeekday.nth}${rule.byNthWeekday.weekday}`);
+  if (rule.byMonthDay !== undefined) parts.push(`BYMONTHDAY=${rule.byMonthDay}`);
+  if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${rule.until.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')}`);
+  return parts.join(';');
+}
+
+/**
+ * Accept a rule object or RRULE string and return a validated rule.
+ * Returns undefined for empty input; throws with a user-facing message when invalid.
+ * A monthly rule without a day is pinned to the day of `anchor` (the first due date), so the
+ * series goes back to the 31st after a short month instead of staying on the 28th.
+ */
+export function normalizeRecurrence(input: TaskRecurrenceRule | string | null | undefined, anchor?: Date): TaskRecurrenceRule | undefined {
+  if (input === null || input === undefined || input === '') return undefined;
+  const rule: TaskRecurrenceRule = typeof input === 'string' ? parseRRule(input) : { ...input };
+
+  if (!(FREQUENCIES as readonly string[]).includes(rule.frequency)) {
+    throw new Error(`Invalid recurrence frequency "${rule.frequency}"`);
+  }
+  if (rule.interval !== undefined && (!Number.isInteger(rule.interval) || rule.interval < 1)) {
+    throw new Error('Recurrence interval must be a positive whole number');
+  }
+  if (rule.byWeekday !== undefined) {
+    if (rule.frequency !== 'weekly' || rule.byWeekday.length === 0 || rule.byWeekday.some(d => !RECURRENCE_WEEKDAYS.includes(d))) {
+      throw new Error('byWeekday needs weekly frequency and weekday codes MO..SU');
+    }
+  }
+  if (rule.byMonthDay !== undefined || rule.byNthWeekday !== undefined) {
+    if (rule.frequency !== 'monthly') throw new Error('byMonthDay/byNthWeekday need monthly frequency');
+    if (rule.byMonthDay !== undefined && rule.byNthWeekday !== undefined) {
+      throw new Error('Use either byMonthDay or byNthWeekday, not both');
+    }
+  }
+  if (rule.byMonthDay !== undefined && (!Number.isInteger(rule.byMonthDay) || rule.byMonthDay === 0 || rule.byMonthDay < -1 || rule.byMonthDay > 31)) {
+    throw new Error('byMonthDay must be 1-31 or -1 for the last day');
+  }
+  if (rule.byNthWeekday !== undefined) {
+    const { nth, weekday } = rule.byNthWeekday;
+    if (!RECURRENCE_WEEKDAYS.includes(weekday) || !Number.isInteger(nth) || nth === 0 || nth < -1 || nth > 5) {
+      throw new Error('byNthWeekday needs nth 1-5 (or -1 for last) and a weekday code MO..SU');
+    }
+  }
+  if (rule.count !== undefined && (!Number.isInteger(rule.count) || rule.count < 1)) {
+    throw new Error('Recurrence count must be a positive whole number');
+  }
+  if (rule.until !== undefined) {
+    rule.until = new Date(rule.until);
+    if (isNaN(rule.until.getTime())) throw new Error('Recurrence until must be a valid date');
+  }
+  if (rule.frequency === 'monthly' && rule.byMonthDay === undefined && rule.byNthWeekday === undefined && anchor && !isNaN(anchor.getTime())) {
+    rule.byMonthDay = anchor.getDate();
+  }
+  return rule;
+}
+
+// Day of month for a monthly rule in the given month, or null when the month has no such day
+const monthlyDay = (rule: TaskRecurrenceRule, monthStart: Date, fallbackDay: number): number | null => {
+  const daysInMonth = getDaysInMonth(monthStart);
+  if (rule.byNthWeekday) {
+    const target = RECURRENCE_WEEKDAYS.indexOf(rule.byNthWeekday.weekday);
+    if (rule.byNthWeekday.nth > 0) {
+      const first = 1 + ((target - monthStart.getDay() + 7) % 7);
+      const day = first + (rule.byNthWeekday.nth - 1) * 7;
+      return day <= daysInMonth ? day : null;
+    }
+    const lastDow = new Date(monthStart.getFullYear(), monthStart.getMonth(), daysInMonth).getDay();
+    return daysInMonth - ((lastDow - target + 7) % 7);
+  }
+  const wanted = rule.byMonthDay ?? fallbackDay;
+  // Days past the end of a short month (e.g. the 31st) fall on its last day
+  return wanted === -1 ? daysInMonth : Math.min(wanted, daysInMonth);
+};
+
+/**
+ * Next date matching the rule strictly after `after`, keeping its time of day.
+ * Ignores `count`/`until`; see getNextInstance for series bounds.
+ */
+export function getNextOccurrence(rule: TaskRecurrenceRule, after: Date): Date | null {
+  const interval = rule.interval || 1;
+
+  if (rule.frequency === 'daily') {
+    return addDays(after, interval);
+  }
+
+  if (rule.frequency === 'weekly') {
+    const days = rule.byWeekday && rule.byWeekday.length > 0 ? rule.byWeekday : [RECURRENCE_WEEKDAYS[after.getDay()]];
+    for (let i = 1; i <= 7 * (interval + 1); i++) {
+      const candidate = addDays(after, i);
+      if (!days.includes(RECURRENCE_WEEKDAYS[candidate.getDay()])) continue;
+      if (differenceInCalendarWeeks(candidate, after, { weekStartsOn: 1 }) % interval === 0) {
+        return candidate;
+      }
+    }
+    return null;
+  }
+
+  // Monthly: walk forward interval months at a time (a 5th weekday may not exist in every month)
+  for (let k = 0; k <= 60; k++) {
+    const monthStart = addMonths(startOfMonth(after), k * interval);
+    const day = monthlyDay(rule, monthStart, after.getDate());
+    if (day === null) continue;
+    const candidate = new Date(monthStart.getFullYear(), monthStart.getMonth(), day,
+      after.getHours(), after.getMinutes(), after.getSeconds(), after.getMilliseconds());
+    if (candidate > after) return candidate;
+  }
+  return null;
+}
+
+/**
+ * Due date and position of the instance that follows occurrence `occurrence` (due at `anchor`).
+ * Occurrences that already lie in the past relative to `now` are skipped but still count toward `count`.
+ * Returns null when the series has ended.
+ */
+export function getNextInstance(
+  rule: TaskRecurrenceRule,
+  anchor: Date,
+  occurrence: number,
+  now: Date = new Date()
+): { dueDate: Date; occurrence: number } | null {
+  let current = anchor;
+  let position = occurrence;
+  for (let guard = 0; guard < 10000; guard++) {
+    if (rule.count !== undefined && position >= rule.count) return null;
+    const next = getNextOccurrence(rule, current);
+    if (!next || (rule.until && next > rule.until)) return null;
+    position++;
+    if (next > now) return { dueDate: next, occurrence: position };
+    current = next;
+  }
+  return null;
+}
+
+/**
+ * Human readable summary, e.g. "Every 2 weeks on Mon, Wed, 5 times"
+ */
+export function describeRecurrence(rule: TaskRecurrenceRule): string {
+  const interval = rule.interval || 1;
+  const unit = rule.frequency === 'daily' ? 'day' : rule.frequency === 'weekly' ? 'week' : 'month';
+  let text = interval === 1 ? `Every ${unit}` : `Every ${interval} ${unit}s`;
+
+  if (rule.byWeekday && rule.byWeekday.length > 0) {
+    text += ` on ${rule.byWeekday.map(d => WEEKDAY_NAMES[d]).join(', ')}`;
+  } else if (rule.byNthWeekday) {
+    text += ` on the ${ordinal(rule.byNthWeekday.nth)} ${WEEKDAY_NAMES[rule.byNthWeekday.weekday]}`;
+  } else if (rule.byMonthDay !== undefined) {
+    text += rule.byMonthDay === -1 ? ' on the last day' : ` on day ${rule.byMonthDay}`;
+  }
+
+  if (rule.count !== undefined) text += `, ${rule.count} times`;
+  if (rule.until) text += `, until ${rule.until.toLocaleDateString()}`;
+  return text;
+}
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { nextReminderOccurrence, reminderToTaskInput, taskToReminder } from './task-reminder-conversion';
+import { ConvertibleReminder, TaskStatus, TaskyTask } from '../types/task';
+
+// Wednesday 2025-01-15, 10:00 local time
+const NOW = new Date(2025, 0, 15, 10, 0);
+
+function makeReminder(overrides: Partial<ConvertibleReminder> = {}): ConvertibleReminder {
+  return { id: 'r1', message: 'Water the plants', time: '09:30', days: ['monday', 'wednesday'], enabled: true, ...overrides };
+}
+
+function makeTask(schema: Partial<TaskyTask['schema']> = {}, extra: Partial<TaskyTask> = {}): TaskyTask {
+  return {
+    status: TaskStatus.PENDING,
+    schema: { id: 't1', title: 'Pay rent', createdAt: NOW, ...schema },
+    ...extra
+  } as TaskyTask;
+}
+
+describe('task-reminder-conversion', () => {
+  it('finds the next firing, skipping today once the time has passed', () => {
+    expect(nextReminderOccurrence(makeReminder(), NOW)).toEqual(new Date(2025, 0, 20, 9, 30));
+    expect(nextReminderOccurrence(makeReminder({ time: '18:00' }), NOW)).toEqual(new Date(2025, 0, 15, 18, 0));
+    expect(nextReminderOccurrence(makeReminder({ days: [] }), NOW)).toBeUndefined();
+    expect(nextReminderOccurrence(makeReminder({ time: '25:00' }), NOW)).toBeUndefined();
+  });
+
+  it('turns repeating reminders into recurring tasks and one-time ones into plain tasks', () => {
+    const weekly = reminderToTaskInput(makeReminder(), NOW);
+    expect(weekly).toMatchObject({
+      title: 'Water the plants',
+      dueDate: new Date(2025, 0, 20, 9, 30),
+      reminderEnabled: true,
+      reminderTime: '09:30',
+      recurrence: { frequency: 'weekly', byWeekday: ['MO', 'WE'] }
+    });
+
+    const everyDay = makeReminder({ days: ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'] });
+    expect(reminderToTaskInput(everyDay, NOW).recurrence).toEqual({ frequency: 'daily' });
+    expect(reminderToTaskInput(makeReminder({ oneTime: true }), NOW).recurrence).toBeUndefined();
+  });
+
+  it('keeps long messages in the description', () => {
+    const input = reminderToTaskInput(makeReminder({ message: 'x'.repeat(250) }), NOW);
+    expect(input.title).toHaveLength(200);
+    expect(input.description).toHaveLength(250);
+  });
+
+  it('builds a one-time reminder on the due date for a task that is due', () => {
+    const task = makeTask({ dueDate: new Date(2025, 0, 17, 14, 5) });
+    expect(taskToReminder(task, 'r9')).toEqual({
+      id: 'r9', message: 'Pay rent', time: '14:05', days: ['friday'], enabled: true, oneTime: true
+    });
+    expect(taskToReminder(makeTask({ dueDate: new Date(2025, 0, 17, 14, 5) }, { reminderTime: '08:00' }), 'r9').time).toBe('08:00');
+  });
+
+  it('repeats the reminder for recurring tasks and those without a due date', () => {
+    const weekly = makeTask({ recurrence: { frequency: 'weekly', byWeekday: ['TU', 'TH'] } });
+    expect(taskToReminder(weekly, 'r2')).toMatchObject({ days: ['tuesday', 'thursday'], time: '09:00', oneTime: false });
+    expect(taskToReminder(makeTask(), 'r3').days).toHaveLength(7);
+  });
+});
@@ -0,0 +1,93 @@
+import type { ConvertibleReminder, CreateTaskInput, RecurrenceWeekday, TaskRecurrenceRule, TaskyTask } from '../types/task';
+import { RECURRENCE_WEEKDAYS } from './task-recurrence';
+
+// Mapping between reminders ("HH:mm" on lowercase weekday names) and tasks (due date + recurrence)
+
+// Indexed like Date.getDay(), matching the scheduler's day names
+export const REMINDER_WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+const MAX_TITLE_LENGTH = 200;
+
+const parseTime = (time: string): { hours: number; minutes: number } | null => {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time.trim());
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  return hours < 24 && minutes < 60 ? { hours, minutes } : null;
+};
+
+const pad = (n: number): string => String(n).padStart(2, '0');
+
+/**
+ * Next time after `now` the reminder would fire, or undefined when its time or days are unusable.
+ */
+export function nextReminderOccurrence(reminder: ConvertibleReminder, now: Date = new Date()): Date | undefined {
+  const time = parseTime(reminder.time);
+  const days = new Set(reminder.days.map(d => d.toLowerCase()));
+  if (!time || days.size === 0) return undefined;
+  for (let i = 0; i <= 7; i++) {
+    const candidate = new Date(now.getFullYear(), now.getMonth(), now.getDate() + i, time.hours, time.minutes);
+    if (candidate > now && days.has(REMINDER_WEEKDAYS[candidate.getDay()])) return candidate;
+  }
+  return undefined;
+}
+
+/**
+ * Task input for a reminder: the message becomes the title (the full text moves to the description
+ * when it is too long) and the next firing the due date. Repeating reminders become recurring tasks.
+ */
+export function reminderToTaskInput(reminder: ConvertibleReminder, now: Date = new Date()): CreateTaskInput {
+  const message = reminder.message.trim();
+  const title = message.length > MAX_TITLE_LENGTH ? `${message.slice(0, MAX_TITLE_LENGTH - 1)}…` : message;
+  const weekdays = REMINDER_WEEKDAYS
+    .map((name, i) => (reminder.days.some(d => d.toLowerCase() === name) ? RECURRENCE_WEEKDAYS[i] : null))
+    .filter((d): d is RecurrenceWeekday => d !== null);
+
+  let recurrence: TaskRecurrenceRule | undefined;
+  if (!reminder.oneTime && weekdays.length === 7) {
+    recurrence = { frequency: 'daily' };
+  } else if (!reminder.oneTime && weekdays.length > 0) {
+    recurrence = { frequency: 'weekly', byWeekday: weekdays };
+  }
+
+  return {
+    title,
+    description: title !== message ? message : undefined,
+    dueDate: nextReminderOccurrence(reminder, now),
+    reminderEnabled: reminder.enabled,
+    reminderTime: reminder.time,
+    recurrence
+  };
+}
+
+/**
+ * Reminder for a task: fires at the task's reminder time (or due time, else 09:00) on the due
+ * date's weekday, or on the recurrence's days. Tasks without a due date or recurrence remind daily.
+ */
+export function taskToReminder(task: TaskyTask, id: string): ConvertibleReminder {
+  const due = task.schema.dueDate ? new Date(task.schema.dueDate) : undefined;
+  const time = task.reminderTime && parseTime(task.reminderTime)
+    ? task.reminderTime
+    : due ? `${pad(due.getHours())}:${pad(due.getMinutes())}` : '09:00';
+
+  const recurrence = task.schema.recurrence;
+  let days: string[];
+  if (recurrence?.frequency === 'weekly' && recurrence.byWeekday?.length) {
+    days = REMINDER_WEEKDAYS.filter((_, i) => recurrence.byWeekday!.includes(RECURRENCE_WEEKDAYS[i]));
+  } else if (recurrence?.frequency === 'weekly' && due) {
+    days = [REMINDER_WEEKDAYS[due.getDay()]];
+  } else if (recurrence || !due) {
+    days = [...REMINDER_WEEKDAYS];
+  } else {
+    days = [REMINDER_WEEKDAYS[due.getDay()]];
+  }
+
+  return {
+    id,
+    message: task.schema.title,
+    time,
+    days,
+    enabled: true,
+    oneTime: !recurrence && !!due
+  };
+}
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { appendReviewNote, planReview, requiresApproval } from './task-review';
+import { TaskStatus, TaskyTask } from '../types/task';
+
+const task = (status: string, assignedAgent?: 'gemini' | 'claude', description?: string): TaskyTask => ({
+  schema: { id: 't1', title: 'Fix login', description, createdAt: new Date(), assignedAgent },
+  status
+});
+
+const now = new Date('2026-10-19T09:00:00Z');
+
+describe('task-review', () => {
+  it('gates agent work and tasks in review', () => {
+    expect(requiresApproval(task(TaskStatus.IN_PROGRESS, 'claude'))).toBe(true);
+    expect(requiresApproval(task(TaskStatus.NEEDS_REVIEW))).toBe(true);
+    expect(requiresApproval(task(TaskStatus.IN_PROGRESS))).toBe(false);
+  });
+
+  it('appends review notes as their own paragraph', () => {
+    expect(appendReviewNote('Steps:\n1. repro\n', { decision: 'reject', reviewer: 'sam', comment: 'Add a test', at: now }))
+      .toBe('Steps:\n1. repro\n\nChanges requested by sam (2026-10-19): Add a test');
+    expect(appendReviewNote(undefined, { decision: 'approve', reviewer: 'sam', comment: 'Nice', at: now }))
+      .toBe('Approved by sam (2026-10-19): Nice');
+  });
+
+  it('completes approved tasks and records the reviewer', () => {
+    expect(planReview(task(TaskStatus.NEEDS_REVIEW, 'claude'), { decision: 'approve', reviewer: ' sam ' }, now)).toEqual({
+      status: TaskStatus.COMPLETED,
+      description: undefined,
+      approval: { humanApproved: true, approvedBy: 'sam', approvedAt: now }
+    });
+  });
+
+  it('sends rejected tasks back with the feedback', () => {
+    const outcome = planReview(task(TaskStatus.NEEDS_REVIEW, 'claude', 'Fix it'), { decision: 'reject', reviewer: 'sam', comment: 'Still fails on Safari' }, now);
+    expect(outcome.status).toBe(TaskStatus.IN_PROGRESS);
+    expect(outcome.description).toBe('Fix it\n\nChanges requested by sam (2026-10-19): Still fails on Safari');
+    expect(outcome.approval.humanApproved).toBe(false);
+  });
+
+  it('rejects invalid reviews', () => {
+    const inReview = task(TaskStatus.NEEDS_REVIEW);
+    expect(() => planReview(task(TaskStatus.IN_PROGRESS), { decision: 'approve', reviewer: 'sam' })).toThrow(/not waiting for review \(status IN_PROGRESS\)/);
+    expect(() => planReview(inReview, { decision: 'reject', reviewer: 'sam', comment: '  ' })).toThrow(/what needs to change/);
+    expect(() => planReview(inReview, { decision: 'approve', reviewer: '' })).toThrow(/Reviewer must be/);
+    expect(() => planReview(inReview, { decision: 'merge' as any, reviewer: 'sam' })).toThrow(/Unknown review decision/);
+  });
+});
@@ -0,0 +1,66 @@
+import type { TaskReviewInput, TaskStatusId, TaskyTask } from '../types/task';
+import { TaskStatus, TaskValidationError } from '../types/task';
+
+// The human approval gate: work an agent did waits in NEEDS_REVIEW until a reviewer approves it
+// (which completes it) or sends it back to IN_PROGRESS with feedback the agent sees on its next run.
+
+const MAX_REVIEWER_LENGTH = 100;
+const MAX_COMMENT_LENGTH = 2000;
+
+/**
+ * Agent-assigned tasks and anything waiting for review only reach COMPLETED through an approval.
+ */
+export const requiresApproval = (task: TaskyTask): boolean =>
+  task.status === TaskStatus.NEEDS_REVIEW || !!task.schema.assignedAgent;
+
+/**
+ * The description with a review note added as its own paragraph, e.g.
+ * "Changes requested by sam (2026-10-19): handle empty input".
+ */
+export function appendReviewNote(
+  description: string | undefined,
+  note: { decision: TaskReviewInput['decision']; reviewer: string; comment: string; at: Date }
+): string {
+  const verdict = note.decision === 'approve' ? 'Approved' : 'Changes requested';
+  const line = `${verdict} by ${note.reviewer} (${note.at.toISOString().slice(0, 10)}): ${note.comment}`;
+  return description ? `${description.trimEnd()}\n\n${line}` : line;
+}
+
+export interface TaskReviewOutcome {
+  status: TaskStatusId;
+  description?: string; // only set when a comment was added
+  approval: Pick<TaskyTask, 'humanApproved' | 'approvedBy' | 'approvedAt'>;
+}
+
+/**
+ * What a review does to a task: approval completes it and records who approved it and when,
+ * rejection sends it back to IN_PROGRESS. Throws TaskValidationError when the task isn't in
+ * review, the reviewer is missing or a rejection has no comment.
+ */
+export function planReview(task: TaskyTask, input: TaskReviewInput, now: Date = new Date()): TaskReviewOutcome {
+  if (task.status !== TaskStatus.NEEDS_REVIEW) {
+    throw new TaskValidationError(`"${task.schema.title}" is not waiting for review (status ${task.status})`, 'status');
+  }
+  if (input.decision !== 'approve' && input.decision !== 'reject') {
+    throw new TaskValidationError(`Unknown review decision "${input.decision}" (expected approve or reject)`, 'decision');
+  }
+  const reviewer = typeof input.reviewer === 'string' ? input.reviewer.trim() : '';
+  if (!reviewer || reviewer.length > MAX_REVIEWER_LENGTH) {
+    throw new TaskValidationError(`Reviewer must be 1-${MAX_REVIEWER_LENGTH} characters`, 'reviewer');
+  }
+  const comment = typeof input.comment === 'string' ? input.comment.trim() : '';
+  if (comment.length > MAX_COMMENT_LENGTH) {
+    throw new TaskValidationError(`Review comment must be at most ${MAX_COMMENT_LENGTH} characters`, 'comment');
+  }
+  if (input.decision === 'reject' && !comment) {
+    throw new TaskValidationError('Say what needs to change when rejecting a task', 'comment');
+  }
+
+  const description = comment
+    ? appendReviewNote(task.schema.description, { decision: input.decision, reviewer, comment, at: now })
+    : undefined;
+  if (input.decision === 'approve') {
+    return { status: TaskStatus.COMPLETED, description, approval: { humanApproved: true, approvedBy: reviewer, approvedAt: now } };
+  }
+  return { status: TaskStatus.IN_PROGRESS, description, approval: { humanApproved: false, approvedBy: undefined, approvedAt: undefined } };
+}
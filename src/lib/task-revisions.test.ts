@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { diffTasks, reviveTask } from './task-revisions';
+import { TaskStatus, TaskyTask } from '../types/task';
+
+function makeTask(overrides: Partial<TaskyTask['schema']> = {}, status = TaskStatus.PENDING): TaskyTask {
+  return {
+    status,
+    reminderEnabled: false,
+    schema: { id: 'a', title: 'Write docs', createdAt: new Date('2025-01-01T00:00:00Z'), tags: [], ...overrides },
+    metadata: { version: 1, createdBy: 'test', lastModified: new Date('2025-01-01T00:00:00Z') }
+  };
+}
+
+describe('diffTasks', () => {
+  it('reports changed fields with old and new values', () => {
+    const before = makeTask({ tags: ['docs'] });
+    const after = { ...makeTask({ title: 'Write API docs', tags: ['docs', 'api'], dueDate: new Date('2025-02-01T09:00:00Z') }), status: TaskStatus.IN_PROGRESS };
+    expect(diffTasks(before, after)).toEqual({
+      title: { from: 'Write docs', to: 'Write API docs' },
+      dueDate: { to: '2025-02-01T09:00:00.000Z' },
+      tags: { from: ['docs'], to: ['docs', 'api'] },
+      status: { from: 'PENDING', to: 'IN_PROGRESS' }
+    });
+  });
+
+  it('ignores timestamps, metadata and empty-vs-missing values', () => {
+    const before = makeTask();
+    const after: TaskyTask = {
+      ...makeTask({ description: '', updatedAt: new Date() }),
+      reminderEnabled: undefined,
+      metadata: { version: 2, createdBy: 'test', lastModified: new Date() }
+    };
+    expect(diffTasks(before, after)).toEqual({});
+  });
+
+  it('lists every set field for created and deleted tasks', () => {
+    const task = makeTask({ description: 'Guide' });
+    expect(Object.keys(diffTasks(undefined, task))).toEqual(['title', 'description', 'status']);
+    expect(diffTasks(task, undefined).title).toEqual({ from: 'Write docs' });
+  });
+});
+
+describe('reviveTask', () => {
+  it('restores dates from a JSON snapshot', () => {
+    const task = makeTask({ dueDate: new Date('2025-02-01T09:00:00Z'), recurrence: { frequency: 'weekly', until: new Date('2025-06-01T00:00:00Z') } });
+    const revived = reviveTask(JSON.parse(JSON.stringify({ ...task, completedAt: new Date('2025-01-05T00:00:00Z') })));
+    expect(revived.schema.createdAt).toEqual(task.schema.createdAt);
+    expect(revived.schema.dueDate).toEqual(task.schema.dueDate);
+    expect(revived.schema.recurrence?.until).toEqual(new Date('2025-06-01T00:00:00Z'));
+    expect(revived.completedAt).toEqual(new Date('2025-01-05T00:00:00Z'));
+    expect(revived.metadata?.lastModified).toBeInstanceOf(Date);
+  });
+});
@@ -0,0 +1,61 @@
+import type { TaskRevision, TaskyTask } from '../types/task';
+
+// Field-level diffs and snapshot (de)serialisation for the task revision history
+
+// Fields a revision reports; ids, timestamps and metadata change on every save
+const SCHEMA_FIELDS = [
+  'title', 'description', 'dueDate', 'tags', 'affectedFiles', 'estimatedDuration', 'dependencies',
+  'assignedAgent', 'executionPath', 'parentId', 'checklist', 'recurrence'
+] as const;
+const TASK_FIELDS = [
+  'status', 'result', 'completedAt', 'humanApproved', 'approvedBy', 'approvedAt', 'reminderEnabled', 'reminderTime'
+] as const;
+
+// Missing, empty and false all mean "not set"
+const isUnset = (value: unknown): boolean =>
+  value === undefined || value === null || value === '' || value === false || (Array.isArray(value) && value.length === 0);
+
+// Values are stored as JSON, so dates become ISO strings
+const toJson = (value: unknown): unknown => (value === undefined ? undefined : JSON.parse(JSON.stringify(value)));
+
+/**
+ * Fields that differ between two versions of a task, with their old and new values.
+ * Pass `before` undefined for a created task and `after` undefined for a deleted one.
+ */
+export function diffTasks(before: TaskyTask | undefined, after: TaskyTask | undefined): TaskRevision['changes'] {
+  const changes: TaskRevision['changes'] = {};
+  const compare = (field: string, from: unknown, to: unknown) => {
+    if (isUnset(from) && isUnset(to)) return;
+    if (JSON.stringify(from) === JSON.stringify(to)) return;
+    changes[field] = { from: toJson(from), to: toJson(to) };
+  };
+  for (const field of SCHEMA_FIELDS) compare(field, before?.schema[field], after?.schema[field]);
+  for (const field of TASK_FIELDS) compare(field, before?.[field], after?.[field]);
+  return changes;
+}
+
+const toDate = (value: unknown): Date | undefined => (value ? new Date(value as string) : undefined);
+
+/**
+ * Rebuild a task from its JSON snapshot, turning ISO strings back into Dates.
+ */
+export function reviveTask(raw: any): TaskyTask {
+  const schema = {
+    ...raw.schema,
+    createdAt: new Date(raw.schema.createdAt),
+    updatedAt: toDate(raw.schema.updatedAt),
+    dueDate: toDate(raw.schema.dueDate)
+  };
+  if (schema.recurrence?.until) {
+    schema.recurrence = { ...schema.recurrence, until: new Date(schema.recurrence.until) };
+  }
+  return {
+    ...raw,
+    schema,
+    completedAt: toDate(raw.completedAt),
+    approvedAt: toDate(raw.approvedAt),
+    metadata: raw.metadata
+      ? { ...raw.metadata, lastModified: new Date(raw.metadata.lastModified), archivedAt: toDate(raw.metadata.archivedAt) }
+      : undefined
+  };
+}
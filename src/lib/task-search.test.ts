@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import {
+  SEARCH_HIGHLIGHT_END,
+  SEARCH_HIGHLIGHT_START,
+  matchesSearch,
+  parseSearchTerms,
+  splitHighlights,
+  toFtsQuery
+} from './task-search';
+
+describe('parseSearchTerms', () => {
+  it('splits words and quoted phrases, dropping punctuation', () => {
+    expect(parseSearchTerms('Login "Google OAuth" e-mail *')).toEqual([
+      { words: ['login'], phrase: false },
+      { words: ['google', 'oauth'], phrase: true },
+      { words: ['e', 'mail'], phrase: false }
+    ]);
+  });
+
+  it('treats an unclosed quote as a phrase to the end', () => {
+    expect(parseSearchTerms('fix "log in')).toEqual([
+      { words: ['fix'], phrase: false },
+      { words: ['log', 'in'], phrase: true }
+    ]);
+  });
+});
+
+describe('toFtsQuery', () => {
+  it('quotes every term and prefix-matches bare words', () => {
+    expect(toFtsQuery('log "google oauth"')).toBe('"log"* "google oauth"');
+  });
+
+  it('neutralises FTS5 operators and strips accents', () => {
+    expect(toFtsQuery('title:café OR NOT x*')).toBe('"title cafe"* "or"* "not"* "x"*');
+    expect(toFtsQuery('"" -- *')).toBe('');
+  });
+});
+
+describe('matchesSearch', () => {
+  const texts = ['Fix login flow', 'Users cannot log in with Google OAuth', undefined, 'backend'];
+
+  it('matches word prefixes across fields, every term required', () => {
+    expect(matchesSearch(texts, 'log back')).toBe(true);
+    expect(matchesSearch(texts, 'LOGIN oauth')).toBe(true);
+    expect(matchesSearch(texts, 'login deploy')).toBe(false);
+    expect(matchesSearch(texts, 'ogin')).toBe(false);
+  });
+
+  it('matches phrases as whole words in order', () => {
+    expect(matchesSearch(texts, '"log in"')).toBe(true);
+    expect(matchesSearch(texts, '"in log"')).toBe(false);
+    expect(matchesSearch(texts, '"goog"')).toBe(false);
+  });
+
+  it('matches everything for an empty search', () => {
+    expect(matchesSearch(texts, '  ')).toBe(true);
+  });
+});
+
+describe('splitHighlights', () => {
+  it('separates highlighted runs from plain text', () => {
+    const snippet = `Users cannot ${SEARCH_HIGHLIGHT_START}log in${SEARCH_HIGHLIGHT_END} with Google`;
+    expect(splitHighlights(snippet)).toEqual([
+      { text: 'Users cannot ', highlight: false },
+      { text: 'log in', highlight: true },
+      { text: ' with Google', highlight: false }
+    ]);
+  });
+});
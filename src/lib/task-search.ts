@@ -0,0 +1,72 @@
+// Search syntax shared by the FTS5 index (SqliteTaskStorage) and the in-memory filter:
+// bare words match any word starting with them, "quoted phrases" match those exact words in order,
+// and every term has to match. Case and accents are ignored, like FTS5's unicode61 tokenizer.
+
+export interface SearchTerm {
+  words: string[];
+  phrase: boolean;
+}
+
+// Wrap matches in snippets; control characters can't collide with task text
+export const SEARCH_HIGHLIGHT_START = '\u0002';
+export const SEARCH_HIGHLIGHT_END = '\u0003';
+
+const WORD = /[\p{L}\p{N}]+/gu;
+
+const words = (text: string): string[] =>
+  (text.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase().match(WORD) || []);
+
+export function parseSearchTerms(input: string): SearchTerm[] {
+  const terms: SearchTerm[] = [];
+  for (const match of input.matchAll(/"([^"]*)"?|(\S+)/g)) {
+    const phrase = match[1] !== undefined;
+    const termWords = words(phrase ? match[1] : match[2]);
+    if (termWords.length > 0) terms.push({ words: termWords, phrase });
+  }
+  return terms;
+}
+
+/**
+ * FTS5 MATCH expression for a search string, or '' when it has nothing to search for.
+ * Terms are always quoted, so user input can't inject FTS5 operators.
+ */
+export function toFtsQuery(input: string): string {
+  return parseSearchTerms(input)
+    .map(term => `"${term.words.join(' ')}"${term.phrase ? '' : '*'}`)
+    .join(' ');
+}
+
+/**
+ * Whether the texts (e.g. title, description, tags) match every term of a search string.
+ */
+export function matchesSearch(texts: Array<string | undefined>, input: string): boolean {
+  const terms = parseSearchTerms(input);
+  if (terms.length === 0) return true;
+  const fields = texts.filter((t): t is string => !!t).map(words);
+  return terms.every(term => fields.some(field => containsTerm(field, term)));
+}
+
+function containsTerm(field: string[], term: SearchTerm): boolean {
+  const last = term.words.length - 1;
+  for (let start = 0; start + last < field.length; start++) {
+    const found = term.words.every((word, i) =>
+      i === last && !term.phrase ? field[start + i].startsWith(word) : field[start + i] === word
+    );
+    if (found) return true;
+  }
+  return false;
+}
+
+/**
+ * Split a snippet into plain and highlighted parts for rendering.
+ */
+export function splitHighlights(snippet: string): Array<{ text: string; highlight: boolean }> {
+  const parts: Array<{ text: string; highlight: boolean }> = [];
+  let highlight = false;
+  for (const piece of snippet.split(new RegExp(`([${SEARCH_HIGHLIGHT_START}${SEARCH_HIGHLIGHT_END}])`))) {
+    if (piece === SEARCH_HIGHLIGHT_START) highlight = true;
+    else if (piece === SEARCH_HIGHLIGHT_END) highlight = false;
+    else if (piece) parts.push({ text: piece, highlight });
+  }
+  return parts;
+}
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_TASK_TEMPLATES,
+  findTemplate,
+  getTemplateVariables,
+  instantiateTemplate,
+  parseDueOffset,
+  templateSlug,
+  validateTemplate
+} from './task-templates';
+import { TaskTemplate, TaskTemplateInput } from '../types/task';
+
+const NOW = new Date(2025, 2, 10, 9, 0);
+
+const release: TaskTemplateInput = {
+  name: 'Release',
+  title: 'Release {{version}}',
+  description: 'Cut {{ version }} on {{date}} for {{owner}}',
+  tags: ['release', '{{channel}}'],
+  dueOffset: '1w',
+  subtasks: [{ title: 'Changelog for {{version}}', dueOffset: '2d' }, { title: 'Announce' }]
+};
+
+describe('task-templates', () => {
+  it('parses relative due offsets', () => {
+    expect(parseDueOffset('2d')).toBe(2 * 24 * 60);
+    expect(parseDueOffset('+1w 3d')).toBe(10 * 24 * 60);
+    expect(parseDueOffset('4h30m')).toBe(270);
+    expect(() => parseDueOffset('tomorrow')).toThrow(/Invalid due offset/);
+    expect(() => parseDueOffset('0m')).toThrow(/at least one minute/);
+  });
+
+  it('lists the variables a template needs, without built-ins', () => {
+    expect(getTemplateVariables(release)).toEqual(['version', 'owner', 'channel']);
+    expect(DEFAULT_TASK_TEMPLATES.map(getTemplateVariables)).toEqual([['version'], ['pr', 'summary'], ['bug']]);
+  });
+
+  it('fills in variables and turns offsets into due dates', () => {
+    const { task, subtasks } = instantiateTemplate(release, { version: '2.0', owner: 'Sam', channel: 'beta' }, NOW);
+    expect(task).toMatchObject({
+      title: 'Release 2.0',
+      description: 'Cut 2.0 on 2025-03-10 for Sam',
+      tags: ['release', 'beta'],
+      dueDate: new Date(2025, 2, 17, 9, 0)
+    });
+    expect(subtasks.map(s => [s.title, s.dueDate])).toEqual([
+      ['Changelog for 2.0', new Date(2025, 2, 12, 9, 0)],
+      ['Announce', undefined]
+    ]);
+  });
+
+  it('names every missing variable', () => {
+    expect(() => instantiateTemplate(release, { version: '2.0', owner: ' ' }, NOW)).toThrow('Missing value for {{owner}}, {{channel}}');
+  });
+
+  it('validates and tidies templates before saving', () => {
+    expect(validateTemplate({ name: ' Triage ', title: ' Fix {{bug}} ', tags: [' bug ', ''], subtasks: [{ title: ' ' }] }))
+      .toEqual({ name: 'Triage', title: 'Fix {{bug}}', tags: ['bug'] });
+    expect(() => validateTemplate({ name: '', title: 'x' })).toThrow(/name is required/);
+    expect(() => validateTemplate({ name: 'x', title: 'x', dueOffset: 'soon' })).toThrow(/Invalid due offset/);
+    expect(() => validateTemplate({ name: 'x', title: 'x', subtasks: [{ title: 'y', estimatedDuration: -5 }] })).toThrow(/estimatedDuration/);
+  });
+
+  it('finds templates by id or loosely by name', () => {
+    const templates = [{ ...release, id: 'release', createdAt: NOW, updatedAt: NOW }] as TaskTemplate[];
+    expect(templateSlug('PR review: Frontend!')).toBe('pr-review-frontend');
+    expect(findTemplate(templates, 'release')?.name).toBe('Release');
+    expect(findTemplate(templates, 'RELEASE')?.id).toBe('release');
+    expect(findTemplate(templates, 'hotfix')).toBeUndefined();
+  });
+});
@@ -0,0 +1,209 @@
+import { format } from 'date-fns';
+import type { CreateTaskInput, TaskTemplate, TaskTemplateInput } from '../types/task';
+import { TaskValidationError } from '../types/task';
+
+// Task templates: {{variable}} placeholders and relative due dates, shared by the engine,
+// the template editor, TaskForm and the /template chat command
+
+const VARIABLE_PATTERN = /\{\{\s*([a-zA-Z][\w-]*)\s*\}\}/g;
+const OFFSET_PART = /(\d+)\s*([wdhm])/gi;
+const OFFSET_UNIT_MINUTES: Record<string, number> = { w: 7 * 24 * 60, d: 24 * 60, h: 60, m: 1 };
+
+// Filled in automatically; a value passed under the same name wins
+export const BUILT_IN_TEMPLATE_VARIABLES = ['date'];
+
+const MAX_NAME_LENGTH = 100;
+
+// Starter library, added to a new database (migration 12)
+export const DEFAULT_TASK_TEMPLATES: TaskTemplateInput[] = [
+  {
+    name: 'Release checklist',
+    title: 'Release {{version}}',
+    description: 'Ship version {{version}}.',
+    tags: ['release'],
+    estimatedDuration: 120,
+    dueOffset: '7d',
+    subtasks: [
+      { title: 'Freeze the {{version}} branch', dueOffset: '5d' },
+      { title: 'Update the changelog for {{version}}', dueOffset: '5d' },
+      { title: 'Run the full test suite', dueOffset: '6d' },
+      { title: 'Tag and publish {{version}}', dueOffset: '7d' }
+    ]
+  },
+  {
+    name: 'PR review',
+    title: 'Review PR #{{pr}}: {{summary}}',
+    description: 'Review pull request #{{pr}}.',
+    tags: ['review'],
+    estimatedDuration: 30,
+    dueOffset: '1d',
+    subtasks: [
+      { title: 'Read the description and linked issue' },
+      { title: 'Check out and run #{{pr}} locally' },
+      { title: 'Leave review comments' }
+    ]
+  },
+  {
+    name: 'Bug triage',
+    title: 'Triage: {{bug}}',
+    description: 'Reported {{date}}.',
+    tags: ['bug', 'triage'],
+    estimatedDuration: 45,
+    dueOffset: '2d',
+    subtasks: [
+      { title: 'Reproduce: {{bug}}', dueOffset: '1d' },
+      { title: 'Assess severity and impact', dueOffset: '1d' },
+      { title: 'Assign an owner or fix it', dueOffset: '2d' }
+    ]
+  }
+];
+
+/**
+ * Minutes in a relative offset such as "2d", "1w 3d" or "4h30m" (a leading "+" is allowed).
+ * Throws TaskValidationError for anything else, including offsets under a minute.
+ */
+export function parseDueOffset(text: string): number {
+  const trimmed = text.trim().replace(/^\+/, '');
+  if (!/^(\d+\s*[wdhm]\s*)+$/i.test(trimmed)) {
+    throw new TaskValidationError(`Invalid due offset "${text}" (use e.g. "2d", "1w 3d", "4h", "90m")`, 'dueOffset');
+  }
+  let minutes = 0;
+  for (const [, amount, unit] of Array.from(trimmed.matchAll(OFFSET_PART))) {
+    minutes += Number(amount) * OFFSET_UNIT_MINUTES[unit.toLowerCase()];
+  }
+  if (minutes < 1) throw new TaskValidationError('Due offset must be at least one minute', 'dueOffset');
+  return minutes;
+}
+
+const templateTexts = (template: TaskTemplateInput): string[] => [
+  template.title,
+  template.description || '',
+  template.executionPath || '',
+  ...(template.tags || []),
+  ...(template.subtasks || []).flatMap(s => [s.title, s.description || ''])
+];
+
+/**
+ * Variables a template needs values for, in order of first use (built-ins excluded).
+ */
+export function getTemplateVariables(template: TaskTemplateInput): string[] {
+  const names: string[] = [];
+  for (const text of templateTexts(template)) {
+    for (const [, name] of Array.from(text.matchAll(VARIABLE_PATTERN))) {
+      if (!names.includes(name) && !BUILT_IN_TEMPLATE_VARIABLES.includes(name)) names.push(name);
+    }
+  }
+  return names;
+}
+
+/**
+ * Replace {{name}} placeholders; ones without a value are left as they are.
+ */
+export function fillTemplateText(text: string, values: Record<string, string>): string {
+  return text.replace(VARIABLE_PATTERN, (match, name: string) => (values[name] !== undefined ? values[name] : match));
+}
+
+/**
+ * Check and tidy a template before it is saved: trims text, drops empty tags and
+ * subtasks without a title. Throws TaskValidationError naming the offending field.
+ */
+export function validateTemplate(input: TaskTemplateInput): TaskTemplateInput {
+  const name = (input.name || '').trim();
+  if (!name) throw new TaskValidationError('Template name is required', 'name');
+  if (name.length > MAX_NAME_LENGTH) throw new TaskValidationError(`Template name too long (max ${MAX_NAME_LENGTH} characters)`, 'name');
+  const title = (input.title || '').trim();
+  if (!title) throw new TaskValidationError('Template title is required', 'title');
+  if (input.assignedAgent && input.assignedAgent !== 'gemini' && input.assignedAgent !== 'claude') {
+    throw new TaskValidationError("assignedAgent must be 'gemini' or 'claude'", 'assignedAgent');
+  }
+  const checkDuration = (value: number | undefined) => {
+    if (value !== undefined && !(Number.isFinite(value) && value > 0)) {
+      throw new TaskValidationError('estimatedDuration must be a positive number of minutes', 'estimatedDuration');
+    }
+    return value;
+  };
+  const checkOffset = (value: string | undefined) => {
+    const offset = value?.trim();
+    if (!offset) return undefined;
+    parseDueOffset(offset);
+    return offset;
+  };
+
+  const tags = (input.tags || []).map(t => t.trim()).filter(Boolean);
+  const subtasks = (input.subtasks || [])
+    .filter(s => s.title && s.title.trim())
+    .map(s => ({
+      title: s.title.trim(),
+      description: s.description?.trim() || undefined,
+      estimatedDuration: checkDuration(s.estimatedDuration),
+      dueOffset: checkOffset(s.dueOffset)
+    }));
+
+  return {
+    name,
+    title,
+    description: input.description?.trim() || undefined,
+    tags: tags.length > 0 ? tags : undefined,
+    estimatedDuration: checkDuration(input.estimatedDuration),
+    executionPath: input.executionPath?.trim() || undefined,
+    assignedAgent: input.assignedAgent || undefined,
+    dueOffset: checkOffset(input.dueOffset),
+    subtasks: subtasks.length > 0 ? subtasks : undefined
+  };
+}
+
+/**
+ * Task inputs for using a template at `now`: placeholders filled in and due offsets turned
+ * into dates. Throws TaskValidationError listing every variable left without a value.
+ */
+export function instantiateTemplate(
+  template: TaskTemplateInput,
+  values: Record<string, string> = {},
+  now: Date = new Date()
+): { task: CreateTaskInput; subtasks: CreateTaskInput[] } {
+  const given = Object.fromEntries(Object.entries(values).map(([k, v]) => [k, String(v ?? '').trim()]));
+  const missing = getTemplateVariables(template).filter(name => !given[name]);
+  if (missing.length > 0) {
+    throw new TaskValidationError(`Missing value for ${missing.map(name => `{{${name}}}`).join(', ')}`, 'values');
+  }
+
+  const all: Record<string, string> = { date: format(now, 'yyyy-MM-dd'), ...given };
+  const fill = (text: string | undefined) => (text ? fillTemplateText(text, all) : undefined);
+  const dueAt = (offset: string | undefined) =>
+    offset ? new Date(now.getTime() + parseDueOffset(offset) * 60 * 1000) : undefined;
+
+  return {
+    task: {
+      title: fill(template.title)!,
+      description: fill(template.description),
+      tags: (template.tags || []).map(tag => fill(tag)!).filter(Boolean),
+      estimatedDuration: template.estimatedDuration,
+      executionPath: fill(template.executionPath),
+      assignedAgent: template.assignedAgent,
+      dueDate: dueAt(template.dueOffset)
+    },
+    subtasks: (template.subtasks || []).map(subtask => ({
+      title: fill(subtask.title)!,
+      description: fill(subtask.description),
+      estimatedDuration: subtask.estimatedDuration,
+      dueDate: dueAt(subtask.dueOffset)
+    }))
+  };
+}
+
+/**
+ * URL-style id for a template name ("Release checklist" -> "release-checklist").
+ */
+export function templateSlug(name: string): string {
+  return name.toLowerCase().normalize('NFKD').replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'template';
+}
+
+/**
+ * Look a template up by id, then by name (ignoring case, spacing and punctuation).
+ */
+export function findTemplate(templates: TaskTemplate[], ref: string): TaskTemplate | undefined {
+  const wanted = ref.trim();
+  return templates.find(t => t.id === wanted)
+    || templates.find(t => t.name.toLowerCase() === wanted.toLowerCase())
+    || templates.find(t => templateSlug(t.name) === templateSlug(wanted));
+}
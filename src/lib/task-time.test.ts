@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { buildTimeReport, entryMinutes, formatMinutes, summarizeTime, validateTimeEntry } from './task-time';
+import { TaskStatus, TaskTimeEntry, TaskyTask } from '../types/task';
+
+const now = new Date('2026-10-19T12:00:00Z');
+const at = (time: string) => new Date(`2026-10-19T${time}:00Z`);
+
+const entry = (id: number, taskId: string, start: string, end?: string): TaskTimeEntry => ({
+  id,
+  taskId,
+  startedAt: at(start),
+  endedAt: end ? at(end) : undefined,
+  source: 'timer',
+  actor: 'ui'
+});
+
+const task = (id: string, status: string, estimatedDuration?: number): TaskyTask => ({
+  schema: { id, title: id.toUpperCase(), createdAt: now, estimatedDuration },
+  status
+});
+
+describe('task-time', () => {
+  it('measures entries, counting running ones up to now', () => {
+    expect(entryMinutes(entry(1, 'a', '09:00', '09:45'))).toBe(45);
+    expect(entryMinutes(entry(2, 'a', '11:30'), now)).toBe(30);
+    expect(formatMinutes(45)).toBe('45m');
+    expect(formatMinutes(125.7)).toBe('2h 05m');
+  });
+
+  it('resolves manual entries from an end or a length', () => {
+    expect(validateTimeEntry({ startedAt: at('09:00'), minutes: 30, note: ' pairing ' }, now)).toEqual({
+      startedAt: at('09:00'),
+      endedAt: at('09:30'),
+      note: 'pairing'
+    });
+    expect(validateTimeEntry({ startedAt: '2026-10-19T09:00:00Z' as any, endedAt: at('10:00') }, now).endedAt).toEqual(at('10:00'));
+  });
+
+  it('rejects invalid manual entries', () => {
+    expect(() => validateTimeEntry({ startedAt: 'soon' as any, minutes: 5 }, now)).toThrow(/startedAt must be a valid date/);
+    expect(() => validateTimeEntry({ startedAt: at('09:00') }, now)).toThrow(/either endedAt or minutes/);
+    expect(() => validateTimeEntry({ startedAt: at('09:00'), minutes: 0 }, now)).toThrow(/end after it starts/);
+    expect(() => validateTimeEntry({ startedAt: at('11:00'), minutes: 120 }, now)).toThrow(/in the future/);
+    expect(() => validateTimeEntry({ startedAt: new Date('2026-10-17T09:00:00Z'), minutes: 25 * 60 }, now)).toThrow(/at most 24 hours/);
+  });
+
+  it('summarizes finished time per task and the running timer', () => {
+    const summary = summarizeTime([entry(1, 'a', '09:00', '09:20'), entry(2, 'a', '10:00', '10:10'), entry(3, 'b', '11:00')]);
+    expect(summary.trackedMinutes).toEqual({ a: 30 });
+    expect(summary.running?.id).toBe(3);
+  });
+
+  it('compares estimates with tracked time on completed tasks', () => {
+    const tasks = [task('a', TaskStatus.COMPLETED, 60), task('b', TaskStatus.COMPLETED, 30), task('c', TaskStatus.IN_PROGRESS, 60), task('d', TaskStatus.COMPLETED)];
+    const entries = [entry(1, 'a', '08:00', '09:30'), entry(2, 'b', '10:00', '10:30'), entry(3, 'c', '11:00'), entry(4, 'd', '09:00', '09:15')];
+    expect(buildTimeReport(tasks, entries, now)).toEqual({
+      trackedMinutes: 90 + 30 + 60 + 15,
+      compared: [
+        { taskId: 'a', title: 'A', estimatedMinutes: 60, actualMinutes: 90 },
+        { taskId: 'b', title: 'B', estimatedMinutes: 30, actualMinutes: 30 }
+      ],
+      estimatedMinutes: 90,
+      actualMinutes: 120,
+      accuracy: 1.33
+    });
+    expect(buildTimeReport(tasks, [], now).accuracy).toBeNull();
+  });
+});
@@ -0,0 +1,119 @@
+import type { TaskTimeEntry, TaskTimeEntryInput, TaskTimeReport, TaskTimeSummary, TaskyTask } from '../types/task';
+import { TaskStatus, TaskValidationError } from '../types/task';
+
+// Time tracking: entries are stored as start/end timestamps; minutes are derived from them.
+// Shared by the engine (validation, analytics) and the task list (elapsed time).
+
+// A single entry longer than a day is almost certainly a timer left running or a typo
+export const MAX_ENTRY_MINUTES = 24 * 60;
+const MAX_NOTE_LENGTH = 500;
+
+const toDate = (value: unknown): Date | undefined => {
+  if (value === undefined || value === null || value === '') return undefined;
+  const date = value instanceof Date ? value : new Date(value as string);
+  return isNaN(date.getTime()) ? undefined : date;
+};
+
+/**
+ * Minutes an entry covers; a running entry counts up to `now`.
+ */
+export const entryMinutes = (entry: Pick<TaskTimeEntry, 'startedAt' | 'endedAt'>, now: Date = new Date()): number =>
+  Math.max(0, ((entry.endedAt ?? now).getTime() - new Date(entry.startedAt).getTime()) / 60_000);
+
+/**
+ * Check a manually logged entry and resolve it to a start and end. Throws TaskValidationError
+ * for a missing or future start, a missing or non-positive length, or more than MAX_ENTRY_MINUTES.
+ */
+export function validateTimeEntry(input: TaskTimeEntryInput, now: Date = new Date()): { startedAt: Date; endedAt: Date; note?: string } {
+  const startedAt = toDate(input?.startedAt);
+  if (!startedAt) throw new TaskValidationError('startedAt must be a valid date', 'startedAt');
+
+  let endedAt = toDate(input.endedAt);
+  if (input.endedAt !== undefined && !endedAt) throw new TaskValidationError('endedAt must be a valid date', 'endedAt');
+  if (!endedAt) {
+    if (typeof input.minutes !== 'number' || !Number.isFinite(input.minutes)) {
+      throw new TaskValidationError('Give either endedAt or minutes', 'minutes');
+    }
+    endedAt = new Date(startedAt.getTime() + input.minutes * 60_000);
+  }
+
+  const minutes = entryMinutes({ startedAt, endedAt });
+  if (endedAt.getTime() <= startedAt.getTime()) {
+    throw new TaskValidationError('A time entry must end after it starts', 'endedAt');
+  }
+  if (minutes > MAX_ENTRY_MINUTES) {
+    throw new TaskValidationError(`A time entry can be at most ${MAX_ENTRY_MINUTES / 60} hours`, 'minutes');
+  }
+  if (endedAt.getTime() > now.getTime()) {
+    throw new TaskValidationError("Time can't be logged in the future", 'endedAt');
+  }
+
+  const note = typeof input.note === 'string' ? input.note.trim() : '';
+  if (note.length > MAX_NOTE_LENGTH) {
+    throw new TaskValidationError(`Note must be at most ${MAX_NOTE_LENGTH} characters`, 'note');
+  }
+  return { startedAt, endedAt, ...(note ? { note } : {}) };
+}
+
+/**
+ * Finished minutes per task plus the running timer, for showing elapsed time in the task list.
+ */
+export function summarizeTime(entries: TaskTimeEntry[]): TaskTimeSummary {
+  const summary: TaskTimeSummary = { trackedMinutes: {} };
+  for (const entry of entries) {
+    if (!entry.endedAt) {
+      summary.running = entry;
+      continue;
+    }
+    summary.trackedMinutes[entry.taskId] = (summary.trackedMinutes[entry.taskId] || 0) + entryMinutes(entry);
+  }
+  return summary;
+}
+
+/**
+ * Minutes tracked per task, running timers included.
+ */
+export function trackedMinutesByTask(entries: TaskTimeEntry[], now: Date = new Date()): Map<string, number> {
+  const actual = new Map<string, number>();
+  for (const entry of entries) {
+    actual.set(entry.taskId, (actual.get(entry.taskId) || 0) + entryMinutes(entry, now));
+  }
+  return actual;
+}
+
+/**
+ * Estimated vs actual minutes over completed tasks that have both an estimate and tracked time.
+ */
+export function buildTimeReport(tasks: TaskyTask[], entries: TaskTimeEntry[], now: Date = new Date()): TaskTimeReport {
+  const actual = trackedMinutesByTask(entries, now);
+  const trackedMinutes = [...actual.values()].reduce((sum, minutes) => sum + minutes, 0);
+
+  const compared = tasks
+    .filter(t => t.status === TaskStatus.COMPLETED && (t.schema.estimatedDuration || 0) > 0 && (actual.get(t.schema.id) || 0) > 0)
+    .map(t => ({
+      taskId: t.schema.id,
+      title: t.schema.title,
+      estimatedMinutes: t.schema.estimatedDuration!,
+      actualMinutes: Math.round(actual.get(t.schema.id)!)
+    }));
+  const estimatedMinutes = compared.reduce((sum, c) => sum + c.estimatedMinutes, 0);
+  const actualMinutes = compared.reduce((sum, c) => sum + c.actualMinutes, 0);
+
+  return {
+    trackedMinutes: Math.round(trackedMinutes),
+    compared,
+    estimatedMinutes,
+    actualMinutes,
+    accuracy: estimatedMinutes > 0 ? Math.round((actualMinutes / estimatedMinutes) * 100) / 100 : null
+  };
+}
+
+/**
+ * 45 -> "45m", 125 -> "2h 05m".
+ */
+export function formatMinutes(minutes: number): string {
+  const total = Math.floor(Math.max(0, minutes));
+  const hours = Math.floor(total / 60);
+  const rest = total % 60;
+  return hours > 0 ? `${hours}h ${String(rest).padStart(2, '0')}m` : `${rest}m`;
+}
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { UndoStack, addCommandStep, invertCommand } from './task-undo';
+import { TaskCommand, TaskStatus, TaskyTask } from '../types/task';
+
+function makeTask(id: string, version: number, title = id): TaskyTask {
+  return {
+    status: TaskStatus.PENDING,
+    schema: { id, title, createdAt: new Date('2025-01-01T00:00:00Z') },
+    metadata: { version, createdBy: 'test', lastModified: new Date('2025-01-01T00:00:00Z') }
+  };
+}
+
+const command = (label: string): TaskCommand => ({ label, steps: [] });
+
+describe('addCommandStep', () => {
+  it('collapses repeated changes to one task', () => {
+    const cmd = command('Bulk');
+    addCommandStep(cmd, { taskId: 'a', before: makeTask('a', 1), after: makeTask('a', 2) });
+    addCommandStep(cmd, { taskId: 'a', before: makeTask('a', 2), after: makeTask('a', 3) });
+    expect(cmd.steps).toHaveLength(1);
+    expect(cmd.steps[0].before!.metadata!.version).toBe(1);
+    expect(cmd.steps[0].after!.metadata!.version).toBe(3);
+  });
+
+  it('drops a task created and deleted within the command', () => {
+    const cmd = command('Import');
+    addCommandStep(cmd, { taskId: 'a', after: makeTask('a', 1) });
+    addCommandStep(cmd, { taskId: 'a', before: makeTask('a', 1) });
+    expect(cmd.steps).toEqual([]);
+  });
+});
+
+describe('invertCommand', () => {
+  it('writes the before side over the after version and returns the inverse', () => {
+    const now = new Date('2025-02-01T00:00:00Z');
+    const cmd: TaskCommand = {
+      label: 'Delete "a"',
+      steps: [
+        { taskId: 'a', before: makeTask('a', 2, 'Old') },
+        { taskId: 'b', before: makeTask('b', 1), after: makeTask('b', 2) },
+        { taskId: 'c', after: makeTask('c', 1) }
+      ]
+    };
+    const { writes, inverse } = invertCommand(cmd, now);
+
+    // Deletes first, then saves bumped past the current version
+    expect(writes.map(w => [w.taskId, w.expectedVersion, w.task?.metadata?.version])).toEqual([
+      ['c', 1, undefined],
+      ['a', 0, 1],
+      ['b', 2, 3]
+    ]);
+    expect(writes[1].task!.schema.title).toBe('Old');
+    expect(writes[1].task!.schema.updatedAt).toEqual(now);
+
+    // Inverting the inverse redoes the original change on top of the undo
+    const redo = invertCommand(inverse, now).writes;
+    expect(redo.map(w => [w.taskId, w.expectedVersion, w.task?.metadata?.version])).toEqual([
+      ['a', 1, undefined],
+      ['b', 3, 4],
+      ['c', 0, 1]
+    ]);
+  });
+});
+
+describe('UndoStack', () => {
+  it('moves commands between undo and redo and clears redo on new commands', () => {
+    const stack = new UndoStack();
+    stack.push(command('one'));
+    stack.push(command('two'));
+    stack.settle('undo', command('two (inverse)'));
+    expect(stack.getState()).toEqual({ canUndo: true, canRedo: true, undoLabel: 'one', redoLabel: 'two (inverse)' });
+
+    stack.push(command('three'));
+    expect(stack.getState().canRedo).toBe(false);
+  });
+
+  it('keeps only the newest commands', () => {
+    const stack = new UndoStack(2);
+    ['one', 'two', 'three'].forEach(label => stack.push(command(label)));
+    stack.discard('undo');
+    expect(stack.peek('undo')!.label).toBe('two');
+    stack.discard('undo');
+    expect(stack.getState().canUndo).toBe(false);
+  });
+});
@@ -0,0 +1,99 @@
+import type { TaskCommand, TaskCommandStep, TaskUndoState, TaskWrite, TaskyTask } from '../types/task';
+
+// Undo/redo for engine changes. Commands hold task snapshots, so undoing writes the "before"
+// side back and redoing writes the "after" side; each direction is the inverse of the other.
+
+export const UNDO_LIMIT = 50;
+
+const versionOf = (task: TaskyTask | undefined): number => (task ? task.metadata?.version || 1 : 0);
+
+/**
+ * Add a step to a command. Repeated changes to one task collapse into a single step
+ * (first "before", last "after"); a task created and deleted within the command drops out.
+ */
+export function addCommandStep(command: TaskCommand, step: TaskCommandStep): void {
+  const existing = command.steps.find(s => s.taskId === step.taskId);
+  if (!existing) {
+    if (step.before || step.after) command.steps.push(step);
+    return;
+  }
+  existing.after = step.after;
+  if (!existing.before && !existing.after) {
+    command.steps.splice(command.steps.indexOf(existing), 1);
+  }
+}
+
+/**
+ * The writes that revert `command`, and the command that reverts those writes.
+ * Every write expects the task to still be at its "after" version, so a task changed
+ * since makes the whole batch conflict. Deletes come first so restored dependency
+ * edges aren't dropped by them.
+ */
+export function invertCommand(command: TaskCommand, now: Date = new Date()): { writes: TaskWrite[]; inverse: TaskCommand } {
+  const writes: TaskWrite[] = [];
+  const inverse: TaskCommand = { label: command.label, steps: [] };
+  for (const step of command.steps) {
+    const expectedVersion = versionOf(step.after);
+    const task: TaskyTask | undefined = step.before && {
+      ...step.before,
+      schema: { ...step.before.schema, updatedAt: now },
+      // A new version, so clients holding the undone state can't overwrite it unnoticed
+      metadata: {
+        createdBy: 'tasky-user',
+        ...step.before.metadata,
+        version: expectedVersion + 1,
+        lastModified: now
+      }
+    };
+    writes.push({ taskId: step.taskId, task, expectedVersion });
+    inverse.steps.push({ taskId: step.taskId, before: step.after, after: task });
+  }
+  writes.sort((a, b) => Number(!!a.task) - Number(!!b.task));
+  return { writes, inverse };
+}
+
+/**
+ * Bounded undo/redo history. A new command clears the redo side.
+ */
+export class UndoStack {
+  private done: TaskCommand[] = [];
+  private undone: TaskCommand[] = [];
+
+  constructor(private readonly limit: number = UNDO_LIMIT) {}
+
+  push(command: TaskCommand): void {
+    this.done.push(command);
+    if (this.done.length > this.limit) this.done.shift();
+    this.undone = [];
+  }
+
+  peek(direction: 'undo' | 'redo'): TaskCommand | undefined {
+    const stack = direction === 'undo' ? this.done : this.undone;
+    return stack[stack.length - 1];
+  }
+
+  /** Move the top command of `direction` to the other side as `inverse`. */
+  settle(direction: 'undo' | 'redo', inverse: TaskCommand): void {
+    if (direction === 'undo') {
+      this.done.pop();
+      this.undone.push(inverse);
+    } else {
+      this.undone.pop();
+      this.done.push(inverse);
+    }
+  }
+
+  /** Drop the top command of `direction`, e.g. when its tasks changed elsewhere since. */
+  discard(direction: 'undo' | 'redo'): void {
+    (direction === 'undo' ? this.done : this.undone).pop();
+  }
+
+  getState(): TaskUndoState {
+    return {
+      canUndo: this.done.length > 0,
+      canRedo: this.undone.length > 0,
+      undoLabel: this.peek('undo')?.label,
+      redoLabel: this.peek('redo')?.label
+    };
+  }
+}
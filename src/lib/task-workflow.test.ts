@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_TASK_WORKFLOW,
+  canTransition,
+  getAllowedTransitions,
+  isOpenStatus,
+  statusLabel,
+  validateWorkflow
+} from './task-workflow';
+import { TaskStatus, TaskWorkflow, TaskyTask } from '../types/task';
+
+const task = (status: string, assignedAgent?: 'gemini' | 'claude'): TaskyTask => ({
+  schema: { id: 't1', title: 'Task', createdAt: new Date(), assignedAgent },
+  status
+});
+
+const teamWorkflow: TaskWorkflow = validateWorkflow({
+  statuses: [
+    ...DEFAULT_TASK_WORKFLOW.statuses,
+    { id: 'blocked', label: '' },
+    { id: 'In QA', label: 'In QA' }
+  ],
+  rules: [
+    { to: 'COMPLETED', from: ['NEEDS_REVIEW'], agentAssigned: true },
+    { to: 'IN_QA', from: ['IN_PROGRESS', 'NEEDS_REVIEW'] }
+  ]
+});
+
+describe('task-workflow', () => {
+  it('normalizes status ids and fills in labels', () => {
+    expect(teamWorkflow.statuses.slice(-2)).toEqual([
+      { id: 'BLOCKED', label: 'Blocked' },
+      { id: 'IN_QA', label: 'In QA' }
+    ]);
+    expect(statusLabel(teamWorkflow, 'IN_QA')).toBe('In QA');
+    expect(statusLabel(teamWorkflow, 'WAITING_ON_CI')).toBe('Waiting On Ci');
+  });
+
+  it('rejects invalid workflows', () => {
+    const statuses = DEFAULT_TASK_WORKFLOW.statuses;
+    expect(() => validateWorkflow({ statuses: statuses.slice(1), rules: [] })).toThrow(/can't be removed: PENDING/);
+    expect(() => validateWorkflow({ statuses: [...statuses, { id: '1st', label: '' }], rules: [] })).toThrow(/Invalid status "1st"/);
+    expect(() => validateWorkflow({ statuses: [...statuses, { id: 'pending', label: '' }], rules: [] })).toThrow(/Duplicate status PENDING/);
+    expect(() => validateWorkflow({ statuses, rules: [{ to: 'IN_QA', from: ['PENDING'] }] })).toThrow(/unknown status "IN_QA"/);
+    expect(() => validateWorkflow({ statuses, rules: [{ to: 'COMPLETED', from: [] }] })).toThrow(/at least one "from"/);
+  });
+
+  it('allows any move when no rule applies', () => {
+    expect(canTransition(DEFAULT_TASK_WORKFLOW, task('PENDING'), TaskStatus.COMPLETED)).toBeNull();
+    expect(canTransition(teamWorkflow, task('PENDING'), 'BLOCKED')).toBeNull();
+    // The COMPLETED rule only covers agent-assigned tasks
+    expect(canTransition(teamWorkflow, task('PENDING'), TaskStatus.COMPLETED)).toBeNull();
+    expect(canTransition(teamWorkflow, task('PENDING'), 'WAITING')).toMatch(/Unknown status "WAITING"/);
+  });
+
+  it('enforces rules, scoped by agent assignment', () => {
+    expect(canTransition(teamWorkflow, task('IN_PROGRESS', 'claude'), TaskStatus.COMPLETED))
+      .toBe('COMPLETED can only be reached from NEEDS_REVIEW for agent-assigned tasks (task is IN_PROGRESS)');
+    expect(canTransition(teamWorkflow, task('NEEDS_REVIEW', 'claude'), TaskStatus.COMPLETED)).toBeNull();
+    expect(canTransition(teamWorkflow, task('PENDING'), 'IN_QA')).toMatch(/only be reached from IN_PROGRESS, NEEDS_REVIEW \(/);
+    // Staying put is never blocked
+    expect(canTransition(teamWorkflow, task('COMPLETED', 'claude'), TaskStatus.COMPLETED)).toBeNull();
+  });
+
+  it('lists allowed transitions in board order', () => {
+    expect(getAllowedTransitions(teamWorkflow, task('PENDING', 'gemini'))).toEqual([
+      'PENDING', 'IN_PROGRESS', 'NEEDS_REVIEW', 'ARCHIVED', 'BLOCKED'
+    ]);
+    expect(isOpenStatus('BLOCKED')).toBe(true);
+    expect(isOpenStatus(TaskStatus.ARCHIVED)).toBe(false);
+  });
+});
@@ -0,0 +1,101 @@
+import type { TaskStatusId, TaskTransitionRule, TaskWorkflow, TaskWorkflowStatus, TaskyTask } from '../types/task';
+import { TaskStatus, TaskValidationError } from '../types/task';
+
+// The configurable status workflow: which statuses exist (board columns) and which moves between
+// them are allowed. Shared by the engine, the workflow editor, the task list and the MCP agent.
+
+// Stored upper snake case so they fit the tasks.status CHECK constraint (migration 13)
+const STATUS_ID_PATTERN = /^[A-Z][A-Z0-9_]*$/;
+const MAX_LABEL_LENGTH = 40;
+
+// Done or shelved; every other status, custom ones included, counts as open work
+export const CLOSED_STATUSES: readonly TaskStatusId[] = [TaskStatus.COMPLETED, TaskStatus.ARCHIVED];
+
+// The engine relies on these (blockers, completion, archiving), so no workflow can drop them
+export const BUILT_IN_STATUSES: readonly TaskWorkflowStatus[] = [
+  { id: TaskStatus.PENDING, label: 'Pending' },
+  { id: TaskStatus.IN_PROGRESS, label: 'In Progress' },
+  { id: TaskStatus.NEEDS_REVIEW, label: 'Needs Review' },
+  { id: TaskStatus.COMPLETED, label: 'Completed' },
+  { id: TaskStatus.ARCHIVED, label: 'Archived' }
+];
+
+// Used until a workflow is saved: the built-in statuses, any move allowed
+export const DEFAULT_TASK_WORKFLOW: TaskWorkflow = {
+  statuses: BUILT_IN_STATUSES.map(s => ({ ...s })),
+  rules: []
+};
+
+export const isOpenStatus = (status: TaskStatusId): boolean => !CLOSED_STATUSES.includes(status);
+
+/**
+ * "In QA" / "in-qa" -> "IN_QA".
+ */
+export function normalizeStatusId(text: string): TaskStatusId {
+  return text.trim().toUpperCase().replace(/[\s-]+/g, '_');
+}
+
+const defaultLabel = (id: TaskStatusId): string =>
+  id.toLowerCase().split('_').filter(Boolean).map(w => w[0].toUpperCase() + w.slice(1)).join(' ');
+
+export function statusLabel(workflow: TaskWorkflow, status: TaskStatusId): string {
+  return workflow.statuses.find(s => s.id === status)?.label || defaultLabel(status);
+}
+
+/**
+ * Check and normalize a workflow: status ids are normalized and unique, the built-in statuses
+ * are all present, and rules only mention known statuses. Throws TaskValidationError.
+ */
+export function validateWorkflow(input: TaskWorkflow): TaskWorkflow {
+  if (!input || !Array.isArray(input.statuses)) throw new TaskValidationError('Workflow statuses are required', 'statuses');
+
+  const statuses: TaskWorkflowStatus[] = [];
+  for (const status of input.statuses) {
+    const id = normalizeStatusId(String(status?.id ?? ''));
+    if (!STATUS_ID_PATTERN.test(id)) {
+      throw new TaskValidationError(`Invalid status "${status?.id ?? ''}" (use letters, digits and underscores, e.g. "IN_QA")`, 'statuses');
+    }
+    if (statuses.some(s => s.id === id)) throw new TaskValidationError(`Duplicate status ${id}`, 'statuses');
+    const label = (status.label || '').trim() || defaultLabel(id);
+    if (label.length > MAX_LABEL_LENGTH) throw new TaskValidationError(`Status label too long (max ${MAX_LABEL_LENGTH} characters)`, 'statuses');
+    statuses.push({ id, label });
+  }
+  const missing = BUILT_IN_STATUSES.filter(b => !statuses.some(s => s.id === b.id)).map(b => b.id);
+  if (missing.length > 0) throw new TaskValidationError(`Built-in statuses can't be removed: ${missing.join(', ')}`, 'statuses');
+
+  const known = (id: TaskStatusId) => statuses.some(s => s.id === id);
+  const rules: TaskTransitionRule[] = (input.rules || []).map(rule => {
+    const to = normalizeStatusId(String(rule?.to ?? ''));
+    if (!known(to)) throw new TaskValidationError(`Transition rule targets unknown status "${rule?.to ?? ''}"`, 'rules');
+    const from = Array.from(new Set((rule.from || []).map(f => normalizeStatusId(String(f)))));
+    if (from.length === 0) throw new TaskValidationError(`Transition rule for ${to} needs at least one "from" status`, 'rules');
+    const unknown = from.find(f => !known(f));
+    if (unknown) throw new TaskValidationError(`Transition rule for ${to} mentions unknown status "${unknown}"`, 'rules');
+    return rule.agentAssigned === undefined ? { to, from } : { to, from, agentAssigned: !!rule.agentAssigned };
+  });
+
+  return { statuses, rules };
+}
+
+/**
+ * Why `task` can't move to `to`, or null when it can. Staying put is always allowed. A status
+ * with no applicable rule is reachable from anywhere; otherwise one of the rules has to list
+ * the task's current status.
+ */
+export function canTransition(workflow: TaskWorkflow, task: TaskyTask, to: TaskStatusId): string | null {
+  if (!workflow.statuses.some(s => s.id === to)) return `Unknown status "${to}"`;
+  if (task.status === to) return null;
+  const hasAgent = !!task.schema.assignedAgent;
+  const rules = workflow.rules.filter(r => r.to === to && (r.agentAssigned === undefined || r.agentAssigned === hasAgent));
+  if (rules.length === 0 || rules.some(r => r.from.includes(task.status))) return null;
+  const allowed = Array.from(new Set(rules.flatMap(r => r.from))).join(', ');
+  const whose = rules.every(r => r.agentAssigned) ? ' for agent-assigned tasks' : '';
+  return `${to} can only be reached from ${allowed}${whose} (task is ${task.status})`;
+}
+
+/**
+ * Statuses `task` may move to, in board order, its current one included.
+ */
+export function getAllowedTransitions(workflow: TaskWorkflow, task: TaskyTask): TaskStatusId[] {
+  return workflow.statuses.map(s => s.id).filter(id => canTransition(workflow, task, id) === null);
+}
@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { retryDelayMs, validateWebhook } from './webhooks';
+
+describe('webhooks', () => {
+  it('doubles the retry delay up to an hour', () => {
+    expect([1, 2, 3, 4, 5].map(attempt => retryDelayMs(attempt))).toEqual([30_000, 60_000, 120_000, 240_000, 480_000]);
+    expect(retryDelayMs(20)).toBe(60 * 60_000);
+    expect(retryDelayMs(3, 10)).toBe(40);
+  });
+
+  it('normalizes and validates webhooks', () => {
+    expect(validateWebhook({
+      name: ' Dashboard ',
+      url: ' http://127.0.0.1:9000/hook ',
+      events: ['reminder-triggered', 'task:created', 'task:created']
+    })).toEqual({ name: 'Dashboard', url: 'http://127.0.0.1:9000/hook', events: ['task:created', 'reminder-triggered'], enabled: true });
+
+    const valid = { name: 'Bot', url: 'https://localhost/bot', events: ['task:completed' as const] };
+    expect(validateWebhook({ ...valid, secret: 'x'.repeat(16), enabled: false })).toMatchObject({ secret: 'x'.repeat(16), enabled: false });
+    expect(() => validateWebhook({ ...valid, name: ' ' })).toThrow('Webhook validation failed: Name is required');
+    expect(() => validateWebhook({ ...valid, url: 'ftp://localhost' })).toThrow('URL must start with http:// or https://');
+    expect(() => validateWebhook({ ...valid, url: 'localhost:9000' })).toThrow('URL must start with http:// or https://');
+    expect(() => validateWebhook({ ...valid, events: [] })).toThrow('Choose at least one event');
+    expect(() => validateWebhook({ ...valid, events: ['task:archived' as any] })).toThrow('Unknown event "task:archived"');
+    expect(() => validateWebhook({ ...valid, secret: 'short' })).toThrow('Secret must be at least 16 characters');
+  });
+});
@@ -0,0 +1,83 @@
+import type { WebhookEvent, WebhookInput } from '../types/webhook';
+import { WebhookValidationError } from '../types/webhook';
+
+// Outbound webhooks: which events can be sent, how a webhook is checked and how failed
+// deliveries back off. Shared by the dispatcher (main process) and the settings UI.
+
+export const WEBHOOK_EVENTS: WebhookEvent[] = [
+  'task:created',
+  'task:updated',
+  'task:completed',
+  'task:deleted',
+  'task:overdue',
+  'task:due',
+  'reminder-triggered',
+  'pomodoro:sessionComplete'
+];
+
+export const WEBHOOK_EVENT_LABELS: Record<WebhookEvent, string> = {
+  'task:created': 'Task created',
+  'task:updated': 'Task updated',
+  'task:completed': 'Task completed',
+  'task:deleted': 'Task deleted',
+  'task:overdue': 'Task overdue',
+  'task:due': 'Task due soon',
+  'reminder-triggered': 'Reminder triggered',
+  'pomodoro:sessionComplete': 'Pomodoro session complete'
+};
+
+// A delivery is tried this many times in all before it goes to the dead-letter list
+export const MAX_WEBHOOK_ATTEMPTS = 6;
+export const WEBHOOK_RETRY_BASE_MS = 30_000;
+const MAX_RETRY_DELAY_MS = 60 * 60_000;
+const MAX_NAME_LENGTH = 100;
+const MIN_SECRET_LENGTH = 16;
+
+/**
+ * How long to wait after the given (1-based) failed attempt: the base doubled each time,
+ * capped at an hour. With the defaults: 30s, 1m, 2m, 4m, 8m.
+ */
+export function retryDelayMs(attempt: number, baseMs: number = WEBHOOK_RETRY_BASE_MS): number {
+  return Math.min(baseMs * 2 ** Math.max(0, attempt - 1), MAX_RETRY_DELAY_MS);
+}
+
+/**
+ * Check a webhook and normalize it (trimmed name and URL, events deduplicated). Throws
+ * WebhookValidationError for a missing name, a URL that isn't http(s), no or unknown events,
+ * or a secret shorter than 16 characters.
+ */
+export function validateWebhook(input: WebhookInput): WebhookInput {
+  const name = (input?.name || '').trim();
+  if (!name) throw new WebhookValidationError('Name is required', 'name');
+  if (name.length > MAX_NAME_LENGTH) throw new WebhookValidationError(`Name too long (max ${MAX_NAME_LENGTH} characters)`, 'name');
+
+  const url = (input.url || '').trim();
+  let parsed: URL | undefined;
+  try {
+    parsed = new URL(url);
+  } catch {
+    parsed = undefined;
+  }
+  if (!parsed || !['http:', 'https:'].includes(parsed.protocol)) {
+    throw new WebhookValidationError('URL must start with http:// or https://', 'url');
+  }
+
+  if (!Array.isArray(input.events) || input.events.length === 0) {
+    throw new WebhookValidationError('Choose at least one event', 'events');
+  }
+  const unknown = input.events.find(event => !WEBHOOK_EVENTS.includes(event));
+  if (unknown !== undefined) throw new WebhookValidationError(`Unknown event "${unknown}"`, 'events');
+
+  const secret = input.secret?.trim();
+  if (secret !== undefined && secret !== '' && secret.length < MIN_SECRET_LENGTH) {
+    throw new WebhookValidationError(`Secret must be at least ${MIN_SECRET_LENGTH} characters`, 'secret');
+  }
+
+  return {
+    name,
+    url,
+    events: WEBHOOK_EVENTS.filter(event => input.events.includes(event)),
+    enabled: input.enabled ?? true,
+    ...(secret && { secret })
+  };
+}
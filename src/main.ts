@@ -3,7 +3,8 @@
  *
  * Responsibilities:
  * - Creates the main settings window (frameless) and system tray
- * - Initializes storage, reminder scheduler, assistant window, and task manager
+ * - Initializes storage, reminder scheduler, assistant window, task manager, and webhooks
+ * - Serves the local REST API (/v1) and MCP execution requests on the HTTP bridge
  * - Exposes IPC for reminders, settings, tasks, file pickers, and terminal helpers
  * - Orchestrates app lifecycle and applies persisted settings at startup
  */
@@ -23,7 +24,11 @@ import TaskyAssistant from './electron/assistant';
 import { ElectronTaskManager } from './electron/task-manager';
 import { notificationUtility } from './electron/notification-utility';
 import { PomodoroService } from './electron/pomodoro-service';
+import { ElectronWebhooks } from './electron/webhooks';
+import { ElectronRestApi } from './electron/rest-api';
+import { RestApiError, RestApiPomodoro, RestApiReminders } from './core/rest-api/rest-api';
 import type { Reminder } from './types/index';
+import type { TrashItem, TrashItemKind } from './types/task';
 
 // Vite globals for Electron
 declare const MAIN_WINDOW_VITE_DEV_SERVER_URL: string | undefined;
@@ -42,6 +47,8 @@ let chatStorage: ChatSqliteStorage | null = null; // Chat persistence storage
 let assistant: any = null;  // Desktop companion/assistant (will be typed later)
 let taskManager: ElectronTaskManager | null = null;  // Task management system
 let pomodoroService: PomodoroService | null = null;  // Pomodoro timer service
+let webhooks: ElectronWebhooks | null = null;  // Outbound webhooks for task, reminder and pomodoro events
+let restApi: ElectronRestApi | null = null;  // REST API on the HTTP bridge, and its tokens
 let mcpServerProcess: ChildProcess | null = null; // MCP server subprocess
 
 /**
@@ -52,21 +59,66 @@ let mcpServerProcess: ChildProcess | null = null; // MCP server subprocess
 
 // Lightweight HTTP bridge so external processes (like MCP agent) can request execution
 // Uses a random per-session token to prevent unauthorized access from other local processes
+// /v1 is the REST API, which also accepts the API tokens created in Settings
 import { randomBytes } from 'crypto';
 let httpServer: http.Server | null = null;
 let httpBridgeToken: string | null = null;
+
+// Reminders and the pomodoro timer as the REST API sees them; tasks go to the engine directly
+const restApiReminders: RestApiReminders = {
+  list: () => requireStore().getReminders(),
+  get: id => requireStore().getReminderById(id),
+  add: reminder => addReminderAndSchedule(reminder),
+  update: (id, reminder) => {
+    if (!requireStore().updateReminder(id, reminder)) return false;
+    scheduler?.updateReminder(id, reminder);
+    notifyRemindersUpdated();
+    return true;
+  },
+  remove: id => removeReminderAndUnschedule(id)
+};
+
+const restApiPomodoro: RestApiPomodoro = {
+  getState: () => requirePomodoro().getTimerDisplay(),
+  start: () => requirePomodoro().startTimer(),
+  pause: () => requirePomodoro().pauseTimer(),
+  resetCurrent: () => requirePomodoro().resetCurrentSession(),
+  resetAll: () => requirePomodoro().resetAllSessions()
+};
+
+function requireStore(): Storage {
+  if (!store || !scheduler) throw new RestApiError(503, 'Reminders are not ready');
+  return store;
+}
+
+function requirePomodoro(): PomodoroService {
+  if (!pomodoroService) throw new RestApiError(503, 'The pomodoro timer is not ready');
+  return pomodoroService;
+}
+
 function startHttpBridge(port = 7844): void {
   try {
     if (httpServer) return;
     httpBridgeToken = randomBytes(32).toString('hex');
+    const handleRestApi = restApi && taskManager
+      ? restApi.createHandler({
+          tasks: taskManager.getEngine(),
+          reminders: restApiReminders,
+          pomodoro: restApiPomodoro,
+          serverUrl: `http://127.0.0.1:${port}`
+        }, httpBridgeToken)
+      : null;
     httpServer = http.createServer(async (req, res) => {
       try {
         // Only allow localhost (already bound to 127.0.0.1)
         res.setHeader('Access-Control-Allow-Origin', 'http://localhost');
-        res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+        res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PATCH, DELETE, OPTIONS');
         res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
         if (req.method === 'OPTIONS') { res.writeHead(204); res.end(); return; }
 
+        // The REST API checks its own tokens (and answers all of /v1)
+        if (handleRestApi && await handleRestApi(req, res)) return;
+
         // Require bearer token authentication
         const authHeader = req.headers['authorization'] || '';
         if (authHeader !== `Bearer ${httpBridgeToken}`) {
@@ -429,9 +481,22 @@ app.whenReady().then(async () => {
   
   // Initialize task manager
   taskManager = new ElectronTaskManager();
+  taskManager.attachReminders({
+    getReminder: id => (store ? store.getReminderById(id) : null),
+    addReminder: addReminderAndSchedule,
+    removeReminder: removeReminderAndUnschedule
+  });
   await taskManager.initialize();
+  await purgeExpiredTrash();
+
+  // Outbound webhooks share the task database (and its event log)
+  webhooks = new ElectronWebhooks(taskManager.getDbPath());
+  await webhooks.start(taskManager);
 
-  // Start lightweight HTTP bridge for MCP execution delegation
+  // API tokens live in the task database too
+  restApi = new ElectronRestApi(taskManager.getDbPath());
+
+  // Start lightweight HTTP bridge for MCP execution delegation and the REST API
   startHttpBridge(7844);
 
   // Initialize pomodoro service
@@ -448,6 +513,7 @@ app.whenReady().then(async () => {
     if (mainWindow) {
       mainWindow.webContents.send('pomodoro:session-complete', data);
     }
+    webhooks?.publish('pomodoro:sessionComplete', data);
   });
 
   pomodoroService.on('started', (state: any) => {
@@ -495,6 +561,7 @@ app.whenReady().then(async () => {
   
   // Initialize scheduler
   scheduler = new ReminderScheduler();
+  scheduler.onReminderTriggered((reminder: Reminder) => webhooks?.publish('reminder-triggered', reminder));
   
   // Load saved reminders and settings
   const savedReminders = store.getReminders();
@@ -713,13 +780,15 @@ app.whenReady().then(async () => {
 
     ipcMain.handle('mcp:tools/call', async (event, toolName: string, toolArgs: any) => {
       try {
+        // Task writes from the in-app chat are attributed to it in the revision history
+        const isTaskWrite = ['tasky_create_task', 'tasky_update_task', 'tasky_delete_task', 'tasky_execute_task', 'tasky_start_timer'].includes(toolName);
         const message = {
           jsonrpc: '2.0',
           id: Date.now(),
           method: 'tools/call',
           params: {
             name: toolName,
-            arguments: toolArgs
+            arguments: isTaskWrite ? { ...toolArgs, actor: 'chat' } : toolArgs
           }
         };
         const response = await sendMcpMessage(message);
@@ -926,6 +995,9 @@ app.on('before-quit', () => {
   if (pomodoroService) {
     pomodoroService.destroy();
   }
+  if (webhooks) {
+    webhooks.stop();
+  }
   if (httpServer) {
     try { httpServer.close(); } catch {}
     httpServer = null;
@@ -993,6 +1065,77 @@ ipcMain.on('update-reminder', (event, id, reminder) => {
   }
 });
 
+// Reminder changes made outside the reminders UI (tasks converted to reminders, the REST API)
+function notifyRemindersUpdated(): void {
+  if (mainWindow) {
+    try { mainWindow.webContents.send('tasky:reminders-updated'); } catch {}
+  }
+}
+
+function addReminderAndSchedule(reminder: Reminder): boolean {
+  if (!store || !scheduler || !store.addReminder(reminder)) return false;
+  scheduler.scheduleReminder(reminder);
+  notifyRemindersUpdated();
+  return true;
+}
+
+function removeReminderAndUnschedule(id: string): void {
+  if (!store || !scheduler) return;
+  store.removeReminder(id);
+  scheduler.removeReminder(id);
+  notifyRemindersUpdated();
+}
+
+// Trash: deleted tasks (task manager) and reminders (store) share one view
+const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+async function purgeExpiredTrash(): Promise<void> {
+  const days = store?.getSetting('trashRetentionDays') ?? DEFAULT_TRASH_RETENTION_DAYS;
+  if (!(days > 0)) return;
+  const deletedBefore = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+  try {
+    if (taskManager) await taskManager.purgeTrashDirect({ deletedBefore });
+    if (store) store.purgeTrashedReminders({ deletedBefore });
+  } catch (error) {
+    logger.warn('Failed to purge expired trash:', error);
+  }
+}
+
+ipcMain.handle('trash:list', async (): Promise<TrashItem[]> => {
+  // Items past the retention period never show up, even if the app has been running for days
+  await purgeExpiredTrash();
+  const tasks: TrashItem[] = taskManager
+    ? (await taskManager.listTrashDirect()).map(t => ({ kind: 'task', id: t.task.schema.id, title: t.task.schema.title, deletedAt: t.deletedAt }))
+    : [];
+  const reminders: TrashItem[] = store
+    ? store.getTrashedReminders().map(r => ({ kind: 'reminder', id: r.reminder.id, title: r.reminder.message, deletedAt: r.deletedAt }))
+    : [];
+  return [...tasks, ...reminders].sort((a, b) => b.deletedAt.getTime() - a.deletedAt.getTime());
+});
+
+ipcMain.handle('trash:restore', async (_event, kind: TrashItemKind, id: string) => {
+  if (kind === 'reminder') {
+    const reminder = store ? store.restoreReminder(id) : null;
+    if (!reminder) return { success: false, error: 'Reminder is not in the trash' };
+    if (scheduler) scheduler.scheduleReminder(reminder);
+    if (mainWindow) {
+      try { mainWindow.webContents.send('tasky:reminders-updated'); } catch {}
+    }
+    return { success: true };
+  }
+  if (!taskManager) return { success: false, error: 'Task manager is not running' };
+  const result = await taskManager.restoreFromTrashDirect(id);
+  return { success: result.success, error: result.error, conflict: result.conflict };
+});
+
+ipcMain.handle('trash:purge', async (_event, items?: Array<{ kind: TrashItemKind; id: string }>) => {
+  // Without items the whole trash is emptied
+  const idsOf = (kind: TrashItemKind) => items ? { ids: items.filter(i => i.kind === kind).map(i => i.id) } : {};
+  const tasks = taskManager ? await taskManager.purgeTrashDirect(idsOf('task')) : 0;
+  const reminders = store ? store.purgeTrashedReminders(idsOf('reminder')) : 0;
+  return tasks + reminders;
+});
+
 ipcMain.handle('get-setting', (event, key) => {
   return store ? store.getSetting(key) : undefined;
 });
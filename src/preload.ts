@@ -49,10 +49,57 @@ const electronAPI: ElectronAPI = {
   updateTask: (id, updates) => ipcRenderer.invoke('task:update', id, updates),
   deleteTask: (id) => ipcRenderer.invoke('task:delete', id),
   getTasks: (filters) => ipcRenderer.invoke('task:list', filters),
+  searchTasks: (query, filters) => ipcRenderer.invoke('task:search', query, filters),
+  getTaskHistory: (id) => ipcRenderer.invoke('task:history', id),
+  restoreTaskRevision: (id, revisionId) => ipcRenderer.invoke('task:restore-revision', id, revisionId),
+  undoTaskChange: () => ipcRenderer.invoke('task:undo'),
+  redoTaskChange: () => ipcRenderer.invoke('task:redo'),
+  getTaskUndoState: () => ipcRenderer.invoke('task:undo-state'),
+  getTrash: () => ipcRenderer.invoke('trash:list'),
+  restoreFromTrash: (kind, id) => ipcRenderer.invoke('trash:restore', kind, id),
+  purgeTrash: (items) => ipcRenderer.invoke('trash:purge', items),
   getTask: (id) => ipcRenderer.invoke('task:get', id),
   getTaskStats: () => ipcRenderer.invoke('task:stats'),
+  getTaskAnalytics: (options) => ipcRenderer.invoke('task:analytics', options),
+  getBlockedTasks: () => ipcRenderer.invoke('task:blocked'),
+  getReadyTasks: () => ipcRenderer.invoke('task:ready'),
   archiveTask: (id) => ipcRenderer.invoke('task:archive', id),
   bulkUpdateTaskStatus: (taskIds, status) => ipcRenderer.invoke('task:bulk-update-status', taskIds, status),
+  bulkUpdateTasks: (taskIds, updates) => ipcRenderer.invoke('task:bulk-update', taskIds, updates),
+  duplicateTask: (id) => ipcRenderer.invoke('task:duplicate', id),
+  reviewTask: (id, decision, comment) => ipcRenderer.invoke('task:review', id, decision, comment),
+  convertReminderToTask: (reminderId, options) => ipcRenderer.invoke('task:convert-reminder', reminderId, options),
+  convertTaskToReminder: (taskId, options) => ipcRenderer.invoke('task:convert-to-reminder', taskId, options),
+  getTaskTemplates: () => ipcRenderer.invoke('template:list'),
+  saveTaskTemplate: (input, id) => ipcRenderer.invoke('template:save', input, id),
+  deleteTaskTemplate: (id) => ipcRenderer.invoke('template:delete', id),
+  createTaskFromTemplate: (template, options) => ipcRenderer.invoke('template:create-task', template, options),
+  getTaskWorkflow: () => ipcRenderer.invoke('workflow:get'),
+  saveTaskWorkflow: (workflow) => ipcRenderer.invoke('workflow:save', workflow),
+  getAutomationRules: () => ipcRenderer.invoke('automation:list'),
+  saveAutomationRule: (input, id) => ipcRenderer.invoke('automation:save', input, id),
+  deleteAutomationRule: (id) => ipcRenderer.invoke('automation:delete', id),
+  getAutomationRuns: (options) => ipcRenderer.invoke('automation:runs', options),
+  getTaskPolicies: () => ipcRenderer.invoke('policy:list'),
+  getTaskPolicy: () => ipcRenderer.invoke('policy:get'),
+  saveTaskPolicy: (settings) => ipcRenderer.invoke('policy:save', settings),
+  actOnTasks: (actions) => ipcRenderer.invoke('task:act', actions),
+  getTaskEvents: (query) => ipcRenderer.invoke('events:list', query),
+  getWebhooks: () => ipcRenderer.invoke('webhook:list'),
+  saveWebhook: (input, id) => ipcRenderer.invoke('webhook:save', input, id),
+  deleteWebhook: (id) => ipcRenderer.invoke('webhook:delete', id),
+  getWebhookDeliveries: (filter) => ipcRenderer.invoke('webhook:deliveries', filter),
+  redeliverWebhook: (id) => ipcRenderer.invoke('webhook:redeliver', id),
+  discardWebhookDelivery: (id) => ipcRenderer.invoke('webhook:discard', id),
+  getApiTokens: () => ipcRenderer.invoke('api-token:list'),
+  createApiToken: (input) => ipcRenderer.invoke('api-token:create', input),
+  revokeApiToken: (id) => ipcRenderer.invoke('api-token:revoke', id),
+  startTaskTimer: (id) => ipcRenderer.invoke('time:start', id),
+  stopTaskTimer: (id) => ipcRenderer.invoke('time:stop', id),
+  logTaskTime: (id, input) => ipcRenderer.invoke('time:log', id, input),
+  getTaskTimeEntries: (id) => ipcRenderer.invoke('time:entries', id),
+  deleteTaskTimeEntry: (entryId) => ipcRenderer.invoke('time:delete-entry', entryId),
+  getTaskTimeSummary: () => ipcRenderer.invoke('time:summary'),
   archiveCompletedTasks: () => ipcRenderer.invoke('task:archive-completed'),
   analyzeTasksOverview: () => ipcRenderer.invoke('task:analyze'),
   exportTasks: () => ipcRenderer.invoke('task:export'),
@@ -71,11 +118,6 @@ const electronAPI: ElectronAPI = {
   mcpToolsList: () => ipcRenderer.invoke('mcp:tools/list'),
   mcpToolsCall: (toolName: string, toolArgs: any) => ipcRenderer.invoke('mcp:tools/call', toolName, toolArgs),
   
-  // Task-reminder integration
-  // Not implemented in main process yet; provide stubs to satisfy typing
-  convertReminderToTask: (_reminderId) => Promise.reject('convertReminderToTask not implemented'),
-  convertTaskToReminder: (_taskId) => Promise.reject('convertTaskToReminder not implemented'),
-  
   // Window controls
   closeWindow: () => ipcRenderer.send('close-window'),
   minimizeWindow: () => ipcRenderer.send('minimize-window'),
@@ -87,6 +129,13 @@ const electronAPI: ElectronAPI = {
   onSettingsUpdate: (callback) => ipcRenderer.on('settings-update', callback),
   // Push update listeners
   onTasksUpdated: (callback: () => void) => ipcRenderer.on('tasky:tasks-updated', callback as any),
+  // Single-task changes made by another process (MCP agent), applied without a full reload
+  onTaskChanged: (callback) => ipcRenderer.on('tasky:task-changed', (_event: any, notice: any) => callback(notice)),
+  // Engine events, delivered with the task they concern
+  onTaskCreated: (callback) => ipcRenderer.on('tasky:task-created', (_event: any, task: any) => callback(task)),
+  onTaskUpdated: (callback) => ipcRenderer.on('tasky:task-updated', (_event: any, task: any) => callback(task)),
+  onTaskCompleted: (callback) => ipcRenderer.on('tasky:task-completed', (_event: any, task: any) => callback(task)),
+  onTaskOverdue: (callback) => ipcRenderer.on('tasky:task-overdue', (_event: any, task: any) => callback(task)),
   onRemindersUpdated: (callback: () => void) => ipcRenderer.on('tasky:reminders-updated', callback as any),
   // Navigation from assistant avatar click
   onNavigateToChat: (callback: () => void) => ipcRenderer.on('navigate-to-chat', callback as any),
@@ -95,7 +144,8 @@ const electronAPI: ElectronAPI = {
   removeAllListeners: (channel) => {
     const ALLOWED_LISTENER_CHANNELS = [
       'reminder-notification', 'assistant-message', 'settings-update',
-      'tasky:tasks-updated', 'tasky:reminders-updated', 'navigate-to-chat',
+      'tasky:tasks-updated', 'tasky:task-changed', 'tasky:reminders-updated', 'navigate-to-chat',
+      'tasky:task-created', 'tasky:task-updated', 'tasky:task-completed', 'tasky:task-overdue',
       'pomodoro:tick', 'pomodoro:session-complete', 'pomodoro:started',
       'pomodoro:paused', 'pomodoro:reset', 'pomodoro:reset-all',
     ];
@@ -12,10 +12,14 @@ import { Label } from '../components/ui/label';
 import { GOOGLE_AI_MODELS, ZAI_MODELS, OPENROUTER_POPULAR_MODELS } from '../ai/providers';
 import { Checkbox } from '../components/ui/checkbox';
 import CustomSwitch from '../components/ui/CustomSwitch';
-import { Bell, Settings, Smile, X, Plus, Edit2, Edit3, Trash2, Clock, Calendar, Minus, CheckSquare } from 'lucide-react';
+import { Bell, Settings, Smile, X, Plus, Edit2, Edit3, Trash2, Clock, Calendar, Minus, CheckSquare, ListTodo } from 'lucide-react';
 import type { Reminder, Settings as AppSettings, CustomAvatar, DefaultAvatar } from '../types';
-import type { TaskyTask } from '../types/task';
+import type { TaskConflict, TaskyTask } from '../types/task';
+import type { TaskChangeNotice } from '../lib/task-change-feed';
+import { applyTaskChange } from '../lib/task-change-feed';
 import { ApplicationsTab } from '../components/apps/ApplicationsTab';
+import { WebhookSettings } from '../components/webhooks/WebhookSettings';
+import { ApiTokenSettings } from '../components/api/ApiTokenSettings';
 import LocationDateTime from '../components/ui/LocationDateTime';
 import '../types/css.d.ts';
 
@@ -56,6 +60,7 @@ interface RemindersTabProps {
   onRemoveReminder: (id: string) => void;
   onEditReminder: (id: string, updates: Partial<Reminder>) => void;
   onToggleReminder: (id: string, enabled: boolean) => void;
+  onConvertReminder: (id: string) => void;
   timeFormat: '12h' | '24h';
 }
 
@@ -83,6 +88,7 @@ interface ReminderItemProps {
   onRemove: () => void;
   onEdit: () => void;
   onToggle: (enabled: boolean) => void;
+  onConvert: () => void;
   timeFormat: '12h' | '24h';
 }
 
@@ -126,7 +132,7 @@ const TaskyAvatarImage = () => {
 };
 
 // Reminders Tab Component
-const RemindersTab: React.FC<RemindersTabProps> = ({ reminders, onAddReminder, onRemoveReminder, onEditReminder, onToggleReminder, timeFormat }) => {
+const RemindersTab: React.FC<RemindersTabProps> = ({ reminders, onAddReminder, onRemoveReminder, onEditReminder, onToggleReminder, onConvertReminder, timeFormat }) => {
   const [editingReminder, setEditingReminder] = useState<Reminder | null>(null);
   const scrollContainerRef = useRef<HTMLDivElement>(null);
 
@@ -194,6 +200,7 @@ const RemindersTab: React.FC<RemindersTabProps> = ({ reminders, onAddReminder, o
                         }, 100);
                       }}
                       onToggle={(enabled) => onToggleReminder(reminder.id, enabled)}
+                      onConvert={() => onConvertReminder(reminder.id)}
                       timeFormat={timeFormat}
                     />
                   </motion.div>
@@ -541,9 +548,31 @@ const SettingsTab: React.FC<SettingsTabProps> = ({ settings, onSettingChange, on
                 options={getAllTimezones().map(tz => ({ value: tz, label: tz }))}
                 onChange={(tz) => onSettingChange('timezone', tz)}
               />
+              <SettingItem
+                icon="🗑️"
+                title="Trash Retention"
+                description="How long deleted tasks and reminders can be restored"
+                type="select"
+                value={String(settings.trashRetentionDays ?? 30)}
+                options={[
+                  { value: '7', label: '7 days' },
+                  { value: '30', label: '30 days' },
+                  { value: '90', label: '90 days' },
+                  { value: '0', label: 'Until emptied' }
+                ]}
+                onChange={(days) => onSettingChange('trashRetentionDays', Number(days))}
+              />
             </div>
           </SettingSection>
 
+          <SettingSection title="Webhooks" icon="🔗">
+            <WebhookSettings />
+          </SettingSection>
+
+          <SettingSection title="REST API" icon="🔑">
+            <ApiTokenSettings />
+          </SettingSection>
+
           <SettingSection title="AI Providers" icon="🤖">
             <div className="grid gap-3 md:grid-cols-2">
               <SettingItem
@@ -1461,7 +1490,7 @@ const ReminderForm: React.FC<ReminderFormProps> = ({ onAddReminder, onEditRemind
   );
 };
 
-const ReminderItem: React.FC<ReminderItemProps> = ({ reminder, onRemove, onEdit, onToggle, timeFormat }) => {
+const ReminderItem: React.FC<ReminderItemProps> = ({ reminder, onRemove, onEdit, onToggle, onConvert, timeFormat }) => {
   const formatTimeDisplay = (time24: string) => {
     if (timeFormat === '24h') {
       return time24;
@@ -1548,6 +1577,16 @@ const ReminderItem: React.FC<ReminderItemProps> = ({ reminder, onRemove, onEdit,
         >
           <Edit2 className="h-4 w-4" />
         </Button>
+        <Button 
+          size="icon"
+          onClick={onConvert}
+          variant="outline"
+          className="h-8 w-8 rounded-xl hover:bg-muted"
+          title="Convert to Task"
+          aria-label="Convert reminder to task"
+        >
+          <ListTodo className="h-4 w-4" />
+        </Button>
         <Button 
           size="icon"
           onClick={onRemove}
@@ -1593,12 +1632,25 @@ const App: React.FC = () => {
     loadTasks();
     loadSettings();
     
-    // Add keyboard shortcut for quitting (Ctrl+Q)
+    // Keyboard shortcuts: Ctrl+Q quits, Ctrl+Z / Ctrl+Shift+Z undo and redo task changes
     const handleKeyDown = (event: KeyboardEvent) => {
       if (event.ctrlKey && event.key === 'q') {
         event.preventDefault();
         window.electronAPI.forceQuit();
       }
+      if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 'z') {
+        // Text fields keep their own undo
+        const target = event.target as HTMLElement | null;
+        if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+        event.preventDefault();
+        const redo = event.shiftKey;
+        (redo ? window.electronAPI.redoTaskChange() : window.electronAPI.undoTaskChange())
+          .then(result => {
+            window.electronAPI.showAssistant(result.success ? `${redo ? '↪️' : '↩️'} ${result.message}` : `⚠️ ${result.error}`);
+            if (result.success) loadTasks();
+          })
+          .catch(console.error);
+      }
     };
     
     // Global event handlers to route events to desktop assistant
@@ -1637,6 +1689,10 @@ const App: React.FC = () => {
           'tasky_execute_task': '⚡ Executing task...',
           'tasky_create_reminder': '⏰ Creating reminder...',
           'tasky_list_tasks': '📋 Listing tasks...',
+          'tasky_search_tasks': '🔍 Searching tasks...',
+          'tasky_create_from_template': '📐 Creating task from template...',
+          'tasky_start_timer': '⏱️ Starting timer...',
+          'tasky_stop_timer': '⏱️ Stopping timer...',
           'tasky_list_reminders': '📋 Listing reminders...'
         };
         const message = toolMessages[name as keyof typeof toolMessages] || '🔧 Working...';
@@ -1685,6 +1741,30 @@ const App: React.FC = () => {
     };
   }, []);
 
+  // Tasks that just went overdue (checked once a minute in the main process)
+  useEffect(() => {
+    try {
+      (window as any).electronAPI.onTaskOverdue((task: TaskyTask) => {
+        window.dispatchEvent(new CustomEvent('task:overdue', { detail: task.schema }));
+      });
+    } catch {}
+    return () => {
+      try { (window as any).electronAPI.removeAllListeners('tasky:task-overdue'); } catch {}
+    };
+  }, []);
+
+  // Tasks changed by the MCP agent arrive one at a time; patch them in place
+  useEffect(() => {
+    try {
+      (window as any).electronAPI.onTaskChanged((notice: TaskChangeNotice) => {
+        setTasks(prev => applyTaskChange(prev, notice));
+      });
+    } catch {}
+    return () => {
+      try { (window as any).electronAPI.removeAllListeners('tasky:task-changed'); } catch {}
+    };
+  }, []);
+
   useEffect(() => {
     try {
       (window as any).electronAPI.onRemindersUpdated(() => {
@@ -1740,6 +1820,7 @@ const App: React.FC = () => {
       const enableDragging = await window.electronAPI.getSetting('enableDragging');
       const assistantLayer = await window.electronAPI.getSetting('assistantLayer');
       const bubbleSide = await window.electronAPI.getSetting('bubbleSide');
+      const trashRetentionDays = await window.electronAPI.getSetting('trashRetentionDays');
       const enableAnimationSetting = await window.electronAPI.getSetting('enableAnimation');
       
       // Load LLM settings
@@ -1767,6 +1848,7 @@ const App: React.FC = () => {
         enableDragging: enableDragging !== undefined ? enableDragging : true,
         assistantLayer: assistantLayer !== undefined ? assistantLayer : 'above',
         bubbleSide: bubbleSide !== undefined ? bubbleSide : 'left',
+        trashRetentionDays: typeof trashRetentionDays === 'number' ? trashRetentionDays : 30,
         // LLM settings
         llmProvider: llmProvider || 'google',
         llmApiKey: llmApiKey || '',
@@ -1975,6 +2057,18 @@ const App: React.FC = () => {
     ));
   };
 
+  // The reminder moves to the trash; main pushes the refreshed reminders and tasks
+  const handleConvertReminder = async (id: string) => {
+    try {
+      const result = await window.electronAPI.convertReminderToTask(id);
+      window.electronAPI.showAssistant(result.success
+        ? `✅ Converted to a task: ${result.data?.schema.title}`
+        : `⚠️ ${result.error}`);
+    } catch (error) {
+      console.error('Failed to convert reminder:', error);
+    }
+  };
+
   const handleToggleReminder = (id: string, enabled: boolean) => {
     console.log('Toggling reminder:', id, 'to enabled:', enabled);
     const updatedReminder = reminders.find(r => r.id === id);
@@ -2041,9 +2135,17 @@ const App: React.FC = () => {
     }
   };
 
-  const handleUpdateTask = async (id: string, updates: Partial<TaskyTask>) => {
+  const handleUpdateTask = async (id: string, updates: Partial<TaskyTask>): Promise<TaskConflict | undefined> => {
     try {
       const updated = await window.electronAPI.updateTask(id, updates);
+      if (updated?.conflict) {
+        // Someone else saved first; show their copy and let the editor merge
+        const conflict: TaskConflict = updated.conflict;
+        setTasks(prev => conflict.current
+          ? prev.map(t => (t.schema.id === id ? conflict.current! : t))
+          : prev.filter(t => t.schema.id !== id));
+        return conflict;
+      }
       if (updated) {
         setTasks(prev => prev.map(t => (t.schema.id === id ? updated : t)));
         // Emit appropriate events for desktop assistant
@@ -2055,6 +2157,9 @@ const App: React.FC = () => {
       }
     } catch (error) {
       console.error('Failed to update task:', error);
+      // e.g. a status move the workflow doesn't allow
+      const message = error instanceof Error ? error.message.replace(/^Error invoking remote method '[^']+': (Error: )?/, '') : '';
+      if (message) window.electronAPI.showAssistant(`⚠️ ${message}`);
     }
   };
 
@@ -2237,6 +2342,7 @@ const App: React.FC = () => {
                         onRemoveReminder={handleRemoveReminder}
                         onEditReminder={handleEditReminder}
                         onToggleReminder={handleToggleReminder}
+                        onConvertReminder={handleConvertReminder}
                         timeFormat={settings.timeFormat || '24h'}
                       />
                     )}
@@ -0,0 +1,28 @@
+/**
+ * Local REST API Types
+ *
+ * Tokens for the versioned REST API served by the HTTP bridge (/v1). Request and response
+ * shapes are zod schemas in lib/rest-api, which also produce the OpenAPI document.
+ */
+
+// read: GET requests only; write: everything
+export type ApiTokenScope = 'read' | 'write';
+
+export interface ApiToken {
+  id: string;
+  name: string;
+  scope: ApiTokenScope;
+  prefix: string; // first characters of the token, to tell tokens apart
+  createdAt: Date;
+  lastUsedAt?: Date;
+}
+
+export interface ApiTokenInput {
+  name: string;
+  scope: ApiTokenScope;
+}
+
+// Returned once, when the token is created; only a hash of it is stored
+export interface NewApiToken extends ApiToken {
+  token: string;
+}
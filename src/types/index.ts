@@ -1,3 +1,8 @@
+import type { TaskChangeNotice } from '../lib/task-change-feed';
+import type { AutomationRule, AutomationRuleInput, AutomationRun, ConvertibleReminder, TaskAction, TaskActionResult, TaskEventQuery, TaskEventRecord, TaskPlan, TaskPolicyInfo, TaskPolicySettings, TaskAnalytics, TaskAnalyticsOptions, CreateFromTemplateOptions, TaskTemplate, TaskTemplateInput, TaskTemplateInstance, TaskReviewDecision, TaskTimeEntry, TaskTimeEntryInput, TaskTimerResult, TaskTimeSummary, TaskUndoResult, TaskUndoState, TaskWorkflow, TaskyTask, ToolResult, TrashItem, TrashItemKind, UpdateTaskInput } from './task';
+import type { Webhook, WebhookDelivery, WebhookDeliveryFilter, WebhookInput } from './webhook';
+import type { ApiToken, ApiTokenInput, NewApiToken } from './api';
+
 export interface Reminder {
   id: string;
   message: string;
@@ -36,6 +41,8 @@ export interface Settings {
   taskSortBy: 'dueDate' | 'created' | 'status';
   showTaskStats: boolean;
   taskStoragePath?: string;
+  // Days deleted tasks and reminders stay in the trash; 0 keeps them until emptied by hand
+  trashRetentionDays?: number;
   // LLM provider settings
   llmProvider?: string;
   llmApiKey?: string;
@@ -115,12 +122,69 @@ export interface ElectronAPI {
   updateTask: (id: string, updates: any) => Promise<any>;
   deleteTask: (id: string) => Promise<void>;
   getTasks: (filters?: any) => Promise<any[]>;
+  searchTasks: (query: string, filters?: any) => Promise<{ hits: Array<{ task: any; score: number; snippet?: string }>; total: number }>;
+  getTaskHistory: (id: string) => Promise<any[]>;
+  restoreTaskRevision: (id: string, revisionId: number) => Promise<any>;
+  undoTaskChange: () => Promise<ToolResult<TaskUndoResult>>;
+  redoTaskChange: () => Promise<ToolResult<TaskUndoResult>>;
+  getTaskUndoState: () => Promise<TaskUndoState>;
+  // Trash (deleted tasks and reminders); purgeTrash without items empties it
+  getTrash: () => Promise<TrashItem[]>;
+  restoreFromTrash: (kind: TrashItemKind, id: string) => Promise<ToolResult<void>>;
+  purgeTrash: (items?: Array<{ kind: TrashItemKind; id: string }>) => Promise<number>;
   getTask: (id: string) => Promise<any>;
   getTaskStats: () => Promise<any>;
+  getTaskAnalytics: (options?: TaskAnalyticsOptions) => Promise<ToolResult<TaskAnalytics>>;
+  getBlockedTasks: () => Promise<Array<{ task: any; blockedBy: any[] }>>;
+  getReadyTasks: () => Promise<any[]>;
   archiveTask: (id: string) => Promise<void>;
   bulkUpdateTaskStatus: (taskIds: string[], status: string) => Promise<any[]>;
+  bulkUpdateTasks: (taskIds: string[], updates: UpdateTaskInput) => Promise<ToolResult<TaskyTask[]>>;
+  duplicateTask: (id: string) => Promise<ToolResult<TaskyTask>>;
+  reviewTask: (id: string, decision: TaskReviewDecision, comment?: string) => Promise<ToolResult<TaskyTask>>;
+  // The converted reminder/task goes to the trash unless preserveOriginal is set
+  convertReminderToTask: (reminderId: string, options?: { preserveOriginal?: boolean }) => Promise<ToolResult<TaskyTask>>;
+  convertTaskToReminder: (taskId: string, options?: { preserveOriginal?: boolean }) => Promise<ToolResult<ConvertibleReminder>>;
+  // Template library; createTaskFromTemplate takes a template id or name
+  getTaskTemplates: () => Promise<ToolResult<TaskTemplate[]>>;
+  saveTaskTemplate: (input: TaskTemplateInput, id?: string) => Promise<ToolResult<TaskTemplate>>;
+  deleteTaskTemplate: (id: string) => Promise<ToolResult<void>>;
+  createTaskFromTemplate: (template: string, options?: CreateFromTemplateOptions) => Promise<ToolResult<TaskTemplateInstance>>;
+  // Statuses and transition rules
+  getTaskWorkflow: () => Promise<ToolResult<TaskWorkflow>>;
+  saveTaskWorkflow: (workflow: TaskWorkflow) => Promise<ToolResult<TaskWorkflow>>;
+  // Automation rules and their run log (newest first)
+  getAutomationRules: () => Promise<ToolResult<AutomationRule[]>>;
+  saveAutomationRule: (input: AutomationRuleInput, id?: string) => Promise<ToolResult<AutomationRule>>;
+  deleteAutomationRule: (id: string) => Promise<ToolResult<void>>;
+  getAutomationRuns: (options?: { ruleId?: string; limit?: number }) => Promise<ToolResult<AutomationRun[]>>;
+  // OODA policy (Tasks -> Plan); analyzeTasksOverview gives the plan, actOnTasks carries out actions
+  getTaskPolicies: () => Promise<ToolResult<TaskPolicyInfo[]>>;
+  getTaskPolicy: () => Promise<ToolResult<TaskPolicySettings>>;
+  saveTaskPolicy: (settings: TaskPolicySettings) => Promise<ToolResult<TaskPolicySettings>>;
+  actOnTasks: (actions: TaskAction[]) => Promise<ToolResult<TaskActionResult[]>>;
+  // Persistent event log, oldest first; pass the last seq seen as `after` to resume
+  getTaskEvents: (query?: TaskEventQuery) => Promise<ToolResult<TaskEventRecord[]>>;
+  // Outbound webhooks and their delivery log (newest first); dead deliveries can be re-sent or discarded
+  getWebhooks: () => Promise<ToolResult<Webhook[]>>;
+  saveWebhook: (input: WebhookInput, id?: string) => Promise<ToolResult<Webhook>>;
+  deleteWebhook: (id: string) => Promise<ToolResult<void>>;
+  getWebhookDeliveries: (filter?: WebhookDeliveryFilter) => Promise<ToolResult<WebhookDelivery[]>>;
+  redeliverWebhook: (id: number) => Promise<ToolResult<WebhookDelivery>>;
+  discardWebhookDelivery: (id: number) => Promise<ToolResult<void>>;
+  // REST API tokens (newest first); the secret is only returned by createApiToken
+  getApiTokens: () => Promise<ToolResult<ApiToken[]>>;
+  createApiToken: (input: ApiTokenInput) => Promise<ToolResult<NewApiToken>>;
+  revokeApiToken: (id: string) => Promise<ToolResult<void>>;
+  // Time tracking
+  startTaskTimer: (id: string) => Promise<ToolResult<TaskTimerResult>>;
+  stopTaskTimer: (id?: string) => Promise<ToolResult<TaskTimeEntry | null>>;
+  logTaskTime: (id: string, input: TaskTimeEntryInput) => Promise<ToolResult<TaskTimeEntry>>;
+  getTaskTimeEntries: (id: string) => Promise<ToolResult<TaskTimeEntry[]>>;
+  deleteTaskTimeEntry: (entryId: number) => Promise<ToolResult<void>>;
+  getTaskTimeSummary: () => Promise<ToolResult<TaskTimeSummary>>;
   archiveCompletedTasks: () => Promise<any[]>;
-  analyzeTasksOverview: () => Promise<any>;
+  analyzeTasksOverview: () => Promise<TaskPlan>;
   exportTasks: () => Promise<any>;
   importTasks: (importData: any) => Promise<any[]>;
   executeTask: (id: string, options?: { agent?: 'claude' | 'gemini' }) => Promise<any>;
@@ -136,8 +200,6 @@ export interface ElectronAPI {
   // MCP communication via IPC
   mcpToolsList: () => Promise<any>;
   mcpToolsCall: (toolName: string, toolArgs: any) => Promise<any>;
-  convertReminderToTask: (reminderId: string) => Promise<any>;
-  convertTaskToReminder: (taskId: string) => Promise<any>;
   
   // Window controls
   closeWindow: () => void;
@@ -151,6 +213,11 @@ export interface ElectronAPI {
   removeAllListeners: (channel: string) => void;
   // Push updates
   onTasksUpdated?: (callback: () => void) => void;
+  onTaskChanged?: (callback: (notice: TaskChangeNotice) => void) => void;
+  onTaskCreated?: (callback: (task: TaskyTask) => void) => void;
+  onTaskUpdated?: (callback: (task: TaskyTask) => void) => void;
+  onTaskCompleted?: (callback: (task: TaskyTask) => void) => void;
+  onTaskOverdue?: (callback: (task: TaskyTask) => void) => void;
   onRemindersUpdated?: (callback: () => void) => void;
   onNavigateToChat?: (callback: () => void) => void;
 
@@ -24,14 +24,52 @@ export interface TaskyTaskSchema {
   // Development-task specific (optional)
   assignedAgent?: 'gemini' | 'claude';
   executionPath?: string; // e.g., "src/middleware"
+  // Hierarchy
+  parentId?: string; // Parent task ID when this task is a subtask
+  checklist?: TaskChecklistItem[]; // Inline steps that don't warrant their own task
+  // Recurrence
+  recurrence?: TaskRecurrenceRule;
+  seriesId?: string; // ID of the first task in a recurring series
+  occurrence?: number; // 1-based position within the series
+}
+
+// RRULE-style recurrence (subset of RFC 5545)
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly';
+export type RecurrenceWeekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU';
+
+export interface TaskRecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval?: number; // every N days/weeks/months, defaults to 1
+  byWeekday?: RecurrenceWeekday[]; // weekly: which days of the week
+  byMonthDay?: number; // monthly: day of month, -1 for the last day
+  byNthWeekday?: { weekday: RecurrenceWeekday; nth: number }; // monthly: e.g. 2nd Tuesday, -1 for the last
+  until?: Date; // no occurrences after this date
+  count?: number; // total number of occurrences in the series
+}
+
+// Inline checklist item stored on a task
+export interface TaskChecklistItem {
+  id: string;
+  text: string;
+  done: boolean;
+}
+
+// Rolled-up progress of a task from its subtasks and checklist
+export interface TaskProgress {
+  completed: number;
+  total: number;
+  percent: number; // 0-100
 }
 
 // Main Task interface for Tasky
 export interface TaskyTask {
   schema: TaskyTaskSchema;
-  status: TaskStatus;
+  status: TaskStatusId;
   result?: string;
   completedAt?: Date;
+  humanApproved?: boolean;
+  approvedBy?: string; // reviewer who approved it out of NEEDS_REVIEW
+  approvedAt?: Date;
   
   // Tasky-specific features
   reminderEnabled?: boolean;
@@ -46,7 +84,7 @@ export interface TaskyTask {
   };
 }
 
-// Status enumeration
+// Status enumeration: the built-in statuses every workflow has
 export enum TaskStatus {
   PENDING = 'PENDING',
   IN_PROGRESS = 'IN_PROGRESS',
@@ -55,24 +93,88 @@ export enum TaskStatus {
   ARCHIVED = 'ARCHIVED'
 }
 
+// A built-in status or a custom one from the configured workflow (upper snake case, e.g. "IN_QA")
+export type TaskStatusId = TaskStatus | string;
+
+// A reviewer's verdict on a task waiting in NEEDS_REVIEW (see lib/task-review)
+export type TaskReviewDecision = 'approve' | 'reject';
+
+export interface TaskReviewInput {
+  decision: TaskReviewDecision;
+  reviewer: string;
+  comment?: string; // required when rejecting; appended to the description
+  actor?: TaskActor;
+}
+
+// Configurable statuses and transition rules (see lib/task-workflow)
+export interface TaskWorkflowStatus {
+  id: TaskStatusId;
+  label: string;
+}
+
+// Moving to `to` is only allowed from one of `from`. Rules with `agentAssigned` only apply to
+// tasks with (true) or without (false) an assigned agent; a status with no applicable rule is
+// reachable from anywhere.
+export interface TaskTransitionRule {
+  to: TaskStatusId;
+  from: TaskStatusId[];
+  agentAssigned?: boolean;
+}
+
+export interface TaskWorkflow {
+  // Board column order
+  statuses: TaskWorkflowStatus[];
+  rules: TaskTransitionRule[];
+}
+
 // Task filtering options
 export interface TaskFilterOptions {
-  status?: TaskStatus[];
+  status?: TaskStatusId[];
   tags?: string[];
-  search?: string;
+  search?: string; // words match by prefix, "quoted phrases" exactly
   dueDateFrom?: Date;
   dueDateTo?: Date;
   hasFiles?: boolean;
   createdAfter?: Date;
   createdBefore?: Date;
+  // Applied after sorting; limit 0 returns no rows (only `total`/`counts`)
   limit?: number;
   offset?: number;
+  // Defaults to due date (undated last), then newest first
+  sortBy?: TaskSortField;
+  sortOrder?: 'asc' | 'desc';
+  // Count the whole matched set (ignoring limit/offset) by status and/or tag
+  includeCounts?: Array<'status' | 'tags'>;
+}
+
+export type TaskSortField = 'dueDate' | 'created' | 'updated' | 'title' | 'status';
+
+export interface TaskQueryResult {
+  tasks: TaskyTask[];
+  total: number; // matches before limit/offset
+  counts?: {
+    status?: Record<TaskStatusId, number>;
+    tags?: Record<string, number>;
+  };
+}
+
+// Full-text search (SqliteTaskStorage uses an FTS5 index; see lib/task-search for the query syntax)
+export interface TaskSearchHit {
+  task: TaskyTask;
+  score: number; // higher is more relevant
+  // Best-matching excerpt, matches wrapped in SEARCH_HIGHLIGHT_START/END
+  snippet?: string;
+}
+
+export interface TaskSearchResult {
+  hits: TaskSearchHit[];
+  total: number;
 }
 
 // Task statistics
 export interface TaskStatistics {
   total: number;
-  byStatus: Record<TaskStatus, number>;
+  byStatus: Record<TaskStatusId, number>;
   byTags: Record<string, number>;
   averageCompletionTime: number;
   completionRate: number;
@@ -90,13 +192,128 @@ export interface TaskAnalytics {
   };
   completionRate: number;
   averageCompletionTime: number; // in hours
-  taskDistribution: {
-    [key in TaskStatus]: number;
-  };
+  taskDistribution: Record<TaskStatusId, number>;
   trends: {
     dailyCompletion: Array<{ date: string; completed: number }>;
     weeklyProductivity: Array<{ week: string; productivity: number }>;
   };
+  timeTracking: TaskTimeReport;
+  estimates: EstimateAccuracy;
+  flow: TaskFlowReport;
+}
+
+// Period and scope for the flow charts; defaults to the last 30 days over all tasks
+export interface TaskAnalyticsOptions {
+  from?: Date;
+  to?: Date;
+  tag?: string; // only tasks with this tag
+}
+
+// A task moving between statuses, read from the revision history. `from` is unset when the task
+// was created or came back from the trash, `to` when it was deleted.
+export interface TaskStatusChange {
+  taskId: string;
+  from?: TaskStatusId;
+  to?: TaskStatusId;
+  at: Date;
+  actor: TaskActor;
+}
+
+// Hours, nearest-rank percentiles
+export interface DurationPercentiles {
+  count: number;
+  p50: number;
+  p85: number;
+  p95: number;
+}
+
+// Flow metrics replayed from the status history. Days are local dates (yyyy-MM-dd).
+export interface TaskFlowReport {
+  from: string;
+  to: string;
+  tag?: string;
+  statuses: TaskStatusId[]; // board order, for stacking the cumulative flow
+  cumulativeFlow: Array<{ date: string; counts: Record<TaskStatusId, number> }>; // tasks per status at the end of each day
+  burndown: Array<{ date: string; remaining: number; scope: number; ideal: number }>;
+  cycleTime: DurationPercentiles | null; // first start to completion, for tasks completed in the period
+  leadTime: DurationPercentiles | null; // creation to completion
+  completionHeatmap: Array<{ date: string; count: number }>; // the 53 weeks up to `to`, starting on a Sunday
+  agingWip: Array<{ taskId: string; title: string; status: TaskStatusId; startedAt: Date; ageDays: number; inStatusDays: number }>;
+}
+
+// A stretch of time spent on a task (time_entries). The running timer has no endedAt; at most
+// one entry is running at a time.
+export interface TaskTimeEntry {
+  id: number;
+  taskId: string;
+  startedAt: Date;
+  endedAt?: Date;
+  source: 'timer' | 'manual';
+  note?: string;
+  actor: TaskActor;
+}
+
+// Time logged after the fact: a start plus either an end or a length in minutes
+export interface TaskTimeEntryInput {
+  startedAt: Date;
+  endedAt?: Date;
+  minutes?: number;
+  note?: string;
+  actor?: TaskActor;
+}
+
+export interface TaskTimerResult {
+  entry: TaskTimeEntry;
+  // The timer that was running on another task and got stopped to start this one
+  stopped?: TaskTimeEntry;
+}
+
+// Tracked minutes per task id (finished entries only) and the running timer, for the task list
+export interface TaskTimeSummary {
+  trackedMinutes: Record<string, number>;
+  running?: TaskTimeEntry;
+}
+
+// Estimated vs actual time. Only tasks with both an estimate and tracked time are compared.
+export interface TaskTimeReport {
+  trackedMinutes: number; // everything tracked, running timer included
+  compared: Array<{ taskId: string; title: string; estimatedMinutes: number; actualMinutes: number }>;
+  estimatedMinutes: number; // totals over `compared`
+  actualMinutes: number;
+  accuracy: number | null; // actual / estimated; above 1 means tasks took longer than estimated
+}
+
+// How actual time compared with estimates over a group of completed tasks, as actual / estimated.
+// low..high is the range 80% of the group's tasks are expected to fall in.
+export interface EstimateBias {
+  samples: number;
+  ratio: number; // 1.5 means tasks typically take 50% longer than estimated
+  low: number;
+  high: number;
+}
+
+// Learned from completed tasks that have both an estimate and tracked time. Groups with too few
+// tasks to say anything are left out.
+export interface EstimateAccuracy {
+  samples: number;
+  overall: EstimateBias | null;
+  byTag: Record<string, EstimateBias>;
+  byAgent: Record<string, EstimateBias>; // 'unassigned' for tasks without an agent
+}
+
+export type EstimateConfidence = 'low' | 'medium' | 'high';
+
+export type DurationSuggestionInput = Pick<TaskyTaskSchema, 'estimatedDuration' | 'tags' | 'assignedAgent'>;
+
+// A corrected estimate for a new task, or a predicted duration when it has none
+export interface DurationSuggestion {
+  minutes: number;
+  low: number;
+  high: number;
+  confidence: EstimateConfidence;
+  samples: number;
+  basis: string; // the tasks it learned from, e.g. 'tasks tagged bug'
+  estimatedMinutes?: number; // the estimate being corrected
 }
 
 // Task observation 
@@ -106,11 +323,13 @@ export interface TaskObservation {
   completedTasks: number;
   overdueTasks: number;
   todaysDueTasks: number;
+  blockedTasks: number;
   nextDueTask?: TaskyTask;
 }
 
 // Task strategy 
 export interface TaskStrategy {
+  policy?: string; // id of the policy that formed it
   focusTask?: TaskyTask;
   suggestedActions: TaskSuggestion[];
   urgentAlerts: TaskAlert[];
@@ -124,6 +343,12 @@ export interface TaskSuggestion {
   reasoning: string;
 }
 
+// Open task waiting on unfinished dependencies
+export interface BlockedTaskInfo {
+  task: TaskyTask;
+  blockedBy: TaskyTask[];
+}
+
 // Task alert
 export interface TaskAlert {
   type: 'overdue' | 'due_soon' | 'blocked' | 'long_pending';
@@ -140,6 +365,69 @@ export interface TaskAction {
   data?: any;
 }
 
+// One pass of observe/orient/decide, as shown in the Plan view
+export interface TaskPlan {
+  observation: TaskObservation;
+  strategy: TaskStrategy;
+  suggestedActions: TaskAction[];
+}
+
+// What act() did with one action
+export interface TaskActionResult {
+  type: TaskAction['type'];
+  taskId: string;
+  success: boolean;
+  detail?: string;
+  createdTaskIds?: string[]; // break_down: the new subtasks
+}
+
+// Side effects act() can't perform itself; the main process passes them in
+export interface TaskActionEffects {
+  notify?(title: string, body: string): void;
+}
+
+// Tunable numbers shared by every policy (each uses the ones that apply to it)
+export interface TaskPolicyThresholds {
+  breakDownPendingOver: number; // suggest breaking work down when more tasks than this are pending
+  breakDownMinutesOver: number; // break down tasks estimated longer than this
+  breakDownChunkMinutes: number; // size of each part when a task is split by its estimate
+  dueSoonHours: number; // alert for tasks due within this many hours
+  longPendingDays: number; // alert for open tasks untouched this long
+  archiveAfterDays: number; // archive tasks completed this long ago; 0 never
+  peakHoursStart: number; // energy-aware: hours of the day (0-23) for demanding work
+  peakHoursEnd: number;
+}
+
+// The chosen OODA policy and its thresholds
+export interface TaskPolicySettings {
+  policy: string; // a registered policy id, e.g. 'deadline-first'
+  thresholds: TaskPolicyThresholds;
+}
+
+// Everything a policy sees besides the observation counts
+export interface TaskPolicyContext {
+  now: Date;
+  tasks: TaskyTask[];
+  blocked: BlockedTaskInfo[];
+  thresholds: TaskPolicyThresholds;
+}
+
+// A strategy for the orient and decide phases of the engine's observe/orient/decide/act loop
+export interface TaskPolicy {
+  id: string;
+  label: string;
+  description: string;
+  orient(observation: TaskObservation, context: TaskPolicyContext): TaskStrategy;
+  decide(strategy: TaskStrategy, context: TaskPolicyContext): TaskAction[];
+}
+
+// A policy as listed for the picker
+export interface TaskPolicyInfo {
+  id: string;
+  label: string;
+  description: string;
+}
+
 // Event system types
 export interface TaskEvent<T = unknown> {
   readonly type: string;
@@ -150,13 +438,20 @@ export interface TaskEvent<T = unknown> {
 
 export interface TaskCreatedEvent {
   readonly task: TaskyTask;
-  readonly source: 'user' | 'import' | 'conversion';
+  readonly source: 'user' | 'import' | 'conversion' | 'recurrence' | 'external' | 'restore' | 'undo' | 'template';
 }
 
 export interface TaskUpdatedEvent {
   readonly task: TaskyTask;
-  readonly previousStatus: TaskStatus;
+  readonly previousStatus: TaskStatusId;
   readonly changes: string[];
+  readonly external?: boolean; // written by another process (e.g. the MCP agent)
+}
+
+export interface TaskDeletedEvent {
+  readonly taskId: string;
+  readonly task?: TaskyTask; // last known state, if this process had loaded it
+  readonly external?: boolean;
 }
 
 export interface TaskCompletedEvent {
@@ -178,11 +473,54 @@ export interface TaskDueEvent {
 export type TaskEventMap = {
   'task:created': TaskCreatedEvent;
   'task:updated': TaskUpdatedEvent;
+  'task:deleted': TaskDeletedEvent;
   'task:completed': TaskCompletedEvent;
   'task:overdue': TaskOverdueEvent;
   'task:due': TaskDueEvent;
 };
 
+// A TaskEventMap emission as kept in the append-only events table. seq orders the events
+// of every process sharing the database, so it doubles as a subscriber's cursor.
+export type TaskEventRecord<K extends keyof TaskEventMap = keyof TaskEventMap> = {
+  [P in K]: {
+    seq: number;
+    type: P;
+    taskId: string;
+    payload: TaskEventMap[P];
+    emittedAt: Date;
+  };
+}[K];
+
+export interface TaskEventQuery {
+  after?: number; // only events with a greater seq
+  types?: string[]; // event names or patterns such as 'task:*'
+  limit?: number;
+}
+
+export type TaskEventHandler = (record: TaskEventRecord) => void | Promise<void>;
+
+export interface TaskEventReplay {
+  count: number;
+  cursor: number; // seq of the last event replayed, to resume from
+}
+
+export interface TaskEventSubscription {
+  readonly cursor: number;
+  // Deliver everything recorded so far
+  flush(): Promise<void>;
+  stop(): void;
+}
+
+// A row of the task_changes feed, recorded by every SqliteTaskStorage write
+export interface TaskChange {
+  seq: number;
+  taskId: string;
+  op: 'insert' | 'update' | 'delete';
+  previousStatus?: TaskStatusId;
+  fields: string[];
+  changedAt: Date;
+}
+
 // File storage types
 export interface TaskFile {
   version: string;
@@ -221,6 +559,15 @@ export interface CreateTaskInput {
   // Development-task extras
   assignedAgent?: string;
   executionPath?: string;
+  // Hierarchy
+  parentId?: string;
+  checklist?: Array<Partial<TaskChecklistItem> & { text: string }>;
+  // Recurrence (rule object or RRULE string such as "FREQ=WEEKLY;BYDAY=MO,WE")
+  recurrence?: TaskRecurrenceRule | string;
+  // Recorded in metadata.createdBy (defaults to 'tasky-user'; the MCP agent passes 'tasky-mcp')
+  createdBy?: string;
+  // Who made the change, for the revision history (defaults to 'ui')
+  actor?: TaskActor;
 }
 
 export interface UpdateTaskInput {
@@ -231,12 +578,211 @@ export interface UpdateTaskInput {
   affectedFiles?: string[];
   estimatedDuration?: number;
   dependencies?: string[];
-  status?: TaskStatus;
+  status?: TaskStatusId;
   reminderEnabled?: boolean;
   reminderTime?: string;
   // Development-task extras
   assignedAgent?: string;
   executionPath?: string;
+  // Hierarchy (null detaches a subtask from its parent)
+  parentId?: string | null;
+  checklist?: Array<Partial<TaskChecklistItem> & { text: string }>;
+  // Recurrence (null stops the series from repeating)
+  recurrence?: TaskRecurrenceRule | string | null;
+  // Optimistic concurrency: metadata.version the caller last saw; the update fails if it moved on
+  expectedVersion?: number;
+  // Who made the change, for the revision history (defaults to 'ui')
+  actor?: TaskActor;
+}
+
+// Where a task change came from: the app UI, the in-app chat, an external MCP client,
+// a file import, the app itself (recurrence, agent completion) or the local REST API
+export type TaskActor = 'ui' | 'chat' | 'mcp' | 'import' | 'automation' | 'api';
+
+// One entry in a task's history (task_revisions)
+export interface TaskRevision {
+  id: number;
+  taskId: string;
+  op: 'create' | 'update' | 'delete' | 'restore';
+  actor: TaskActor;
+  // Changed fields (e.g. "title", "status") with their old and new values
+  changes: Record<string, { from?: unknown; to?: unknown }>;
+  // The task as it was after this change (before it, for deletes); restoring brings this back
+  snapshot: TaskyTask;
+  createdAt: Date;
+}
+
+// Returned with a failed update when the task's version no longer matches expectedVersion
+export interface TaskConflict {
+  taskId: string;
+  expectedVersion: number;
+  actualVersion: number;
+  current?: TaskyTask;
+}
+
+// A save (with `task`) or delete (without) applied as part of a batch; see ITaskStorage.applyTaskWrites
+export interface TaskWrite {
+  taskId: string;
+  task?: TaskyTask;
+  // As in saveTask; 0 means the task must not exist yet
+  expectedVersion?: number;
+}
+
+// One task's state before and after a change; a missing side means the task didn't exist
+export interface TaskCommandStep {
+  taskId: string;
+  before?: TaskyTask;
+  after?: TaskyTask;
+}
+
+// An undoable engine change; multi-task operations are a single command
+export interface TaskCommand {
+  label: string;
+  steps: TaskCommandStep[];
+}
+
+export interface TaskUndoState {
+  canUndo: boolean;
+  canRedo: boolean;
+  undoLabel?: string;
+  redoLabel?: string;
+}
+
+export interface TaskUndoResult {
+  // Label of the command that was undone or redone
+  label: string;
+  state: TaskUndoState;
+}
+
+// A deleted task waiting in the trash until restored or purged
+// Tasks that pointed at a task when it was deleted: its subtasks and the tasks depending on it
+export interface TrashedTaskLinks {
+  childIds: string[];
+  dependentIds: string[];
+}
+
+export interface TrashedTask {
+  task: TaskyTask;
+  // Missing for tasks trashed before links were kept, and by storages that don't keep them
+  links?: TrashedTaskLinks;
+  deletedAt: Date;
+}
+
+// Which trashed items to delete for good; with neither option, all of them
+export interface TrashPurgeOptions {
+  ids?: string[];
+  deletedBefore?: Date;
+}
+
+export type TrashItemKind = 'task' | 'reminder';
+
+// One row of the Trash view, which lists deleted tasks and reminders together
+export interface TrashItem {
+  kind: TrashItemKind;
+  id: string;
+  title: string;
+  deletedAt: Date;
+}
+
+// A subtask created together with the task when a template is used
+export interface TaskTemplateSubtask {
+  title: string;
+  description?: string;
+  estimatedDuration?: number;
+  dueOffset?: string;
+}
+
+// A reusable task shape. Text fields may contain {{variable}} placeholders that are filled in
+// when the template is used; dueOffset is relative to that moment, e.g. "2d", "1w 3d", "4h", "90m"
+export interface TaskTemplate {
+  id: string;
+  name: string;
+  title: string;
+  description?: string;
+  tags?: string[];
+  estimatedDuration?: number;
+  executionPath?: string;
+  assignedAgent?: 'gemini' | 'claude';
+  dueOffset?: string;
+  subtasks?: TaskTemplateSubtask[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type TaskTemplateInput = Omit<TaskTemplate, 'id' | 'createdAt' | 'updatedAt'>;
+
+export interface CreateFromTemplateOptions {
+  // Values for the template's {{variables}}; every variable it uses must have one
+  values?: Record<string, string>;
+  // Nest the new task under an existing one
+  parentId?: string;
+  createdBy?: string;
+  actor?: TaskActor;
+}
+
+// The task created from a template and its subtasks, in template order
+export interface TaskTemplateInstance {
+  task: TaskyTask;
+  subtasks: TaskyTask[];
+}
+
+// Engine events an automation rule can react to
+export type AutomationTrigger = 'task:created' | 'task:updated' | 'task:completed' | 'task:overdue' | 'task:due';
+
+// Every condition that is set must hold. Tags and statuses match when the task has any of them.
+export interface AutomationConditions {
+  tags?: string[];
+  statuses?: TaskStatusId[];
+  assignedAgent?: 'gemini' | 'claude' | 'unassigned';
+  titleContains?: string;
+}
+
+// Messages may use {{title}}, {{status}} and {{due}}; `after` is an offset like a template's dueOffset
+export type AutomationAction =
+  | { type: 'set-status'; status: TaskStatusId }
+  | { type: 'assign-agent'; agent: 'gemini' | 'claude' }
+  | { type: 'add-tags'; tags: string[] }
+  | { type: 'add-reminder'; after: string; message?: string }
+  | { type: 'notify'; message?: string };
+
+// "When <trigger>, if <conditions>, then <actions>"
+export interface AutomationRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  trigger: AutomationTrigger;
+  conditions: AutomationConditions;
+  actions: AutomationAction[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type AutomationRuleInput = Omit<AutomationRule, 'id' | 'createdAt' | 'updatedAt'>;
+
+export interface AutomationActionResult {
+  type: AutomationAction['type'];
+  success: boolean;
+  detail?: string; // what was done, or why it failed
+}
+
+// One rule firing for one task (automation_runs)
+export interface AutomationRun {
+  id: number;
+  ruleId: string;
+  ruleName: string;
+  trigger: AutomationTrigger;
+  taskId: string;
+  taskTitle: string;
+  success: boolean;
+  results: AutomationActionResult[];
+  ranAt: Date;
+}
+
+// Rule actions that reach outside the task store; the Electron main process provides them
+export interface AutomationEffects {
+  // Persist and schedule a reminder; false when it couldn't be saved
+  addReminder?(reminder: ConvertibleReminder): boolean | Promise<boolean>;
+  notify?(title: string, body: string): void;
 }
 
 // Result wrapper type
@@ -245,6 +791,8 @@ export interface ToolResult<T = any> {
   data?: T;
   error?: string;
   message?: string;
+  warnings?: string[];
+  conflict?: TaskConflict;
 }
 
 // Error types
@@ -262,6 +810,18 @@ export class TaskValidationError extends Error {
   }
 }
 
+export class TaskConflictError extends Error {
+  constructor(
+    public readonly taskId: string,
+    public readonly expectedVersion: number,
+    public readonly actualVersion: number,
+    public readonly current?: TaskyTask
+  ) {
+    super(`Task ${taskId} was changed elsewhere (expected version ${expectedVersion}, found ${actualVersion})`);
+    this.name = 'TaskConflictError';
+  }
+}
+
 export class TaskStorageError extends Error {
   constructor(message: string, public readonly cause?: unknown) {
     super(`Task storage error: ${message}`);
@@ -295,6 +855,27 @@ export interface TaskReminderConversion {
   preserveOriginal: boolean;
 }
 
+// A recorded conversion in either direction (task_reminder_links)
+export type TaskReminderLink =
+  | (ReminderTaskConversion & { direction: 'reminder-to-task' })
+  | (TaskReminderConversion & { direction: 'task-to-reminder' });
+
+// The reminder fields a conversion reads or produces; the app's Reminder type matches this shape
+export interface ConvertibleReminder {
+  id: string;
+  message: string;
+  time: string; // "HH:mm"
+  days: string[]; // lowercase weekday names
+  enabled: boolean;
+  oneTime?: boolean;
+}
+
+export interface TaskConversionOptions {
+  // Keep the reminder/task that was converted instead of moving it to the trash (default false)
+  preserveOriginal?: boolean;
+  actor?: TaskActor;
+}
+
 // Enhanced Electron API for tasks
 export interface TaskElectronAPI {
   // Task CRUD
@@ -306,16 +887,43 @@ export interface TaskElectronAPI {
   
   // Task analytics
   getTaskStats: () => Promise<ToolResult<TaskStatistics>>;
-  getTaskAnalytics: () => Promise<ToolResult<TaskAnalytics>>;
+  getTaskAnalytics: (options?: TaskAnalyticsOptions) => Promise<ToolResult<TaskAnalytics>>;
+  getBlockedTasks: () => Promise<ToolResult<BlockedTaskInfo[]>>;
+  getReadyTasks: () => Promise<ToolResult<TaskyTask[]>>;
   
   // Task management
   archiveTask: (id: string) => Promise<ToolResult<void>>;
   duplicateTask: (id: string) => Promise<ToolResult<TaskyTask>>;
-  bulkUpdateTasks: (ids: string[], updates: Partial<TaskyTask>) => Promise<ToolResult<TaskyTask[]>>;
+  bulkUpdateTasks: (ids: string[], updates: UpdateTaskInput) => Promise<ToolResult<TaskyTask[]>>;
+  reviewTask: (id: string, decision: TaskReviewDecision, comment?: string) => Promise<ToolResult<TaskyTask>>;
   
   // Integration features
-  convertReminderToTask: (reminderId: string) => Promise<ToolResult<TaskyTask>>;
-  convertTaskToReminder: (taskId: string) => Promise<ToolResult<any>>;
+  convertReminderToTask: (reminderId: string, options?: { preserveOriginal?: boolean }) => Promise<ToolResult<TaskyTask>>;
+  convertTaskToReminder: (taskId: string, options?: { preserveOriginal?: boolean }) => Promise<ToolResult<ConvertibleReminder>>;
+  
+  // Templates
+  getTaskTemplates: () => Promise<ToolResult<TaskTemplate[]>>;
+  saveTaskTemplate: (input: TaskTemplateInput, id?: string) => Promise<ToolResult<TaskTemplate>>;
+  deleteTaskTemplate: (id: string) => Promise<ToolResult<void>>;
+  createTaskFromTemplate: (template: string, options?: CreateFromTemplateOptions) => Promise<ToolResult<TaskTemplateInstance>>;
+  
+  // Status workflow
+  getTaskWorkflow: () => Promise<ToolResult<TaskWorkflow>>;
+  saveTaskWorkflow: (workflow: TaskWorkflow) => Promise<ToolResult<TaskWorkflow>>;
+
+  // Automation rules
+  getAutomationRules: () => Promise<ToolResult<AutomationRule[]>>;
+  saveAutomationRule: (input: AutomationRuleInput, id?: string) => Promise<ToolResult<AutomationRule>>;
+  deleteAutomationRule: (id: string) => Promise<ToolResult<void>>;
+  getAutomationRuns: (options?: { ruleId?: string; limit?: number }) => Promise<ToolResult<AutomationRun[]>>;
+
+  // Time tracking
+  startTaskTimer: (id: string) => Promise<ToolResult<TaskTimerResult>>;
+  stopTaskTimer: (id?: string) => Promise<ToolResult<TaskTimeEntry | null>>;
+  logTaskTime: (id: string, input: TaskTimeEntryInput) => Promise<ToolResult<TaskTimeEntry>>;
+  getTaskTimeEntries: (id: string) => Promise<ToolResult<TaskTimeEntry[]>>;
+  deleteTaskTimeEntry: (entryId: number) => Promise<ToolResult<void>>;
+  getTaskTimeSummary: () => Promise<ToolResult<TaskTimeSummary>>;
   
   // File operations
   exportTasks: (format: 'json' | 'csv') => Promise<ToolResult<string>>;
@@ -0,0 +1,73 @@
+/**
+ * Outbound Webhook Types
+ *
+ * Task, reminder and pomodoro events POSTed as HMAC-signed JSON to endpoints the user configures
+ */
+
+export type WebhookEvent =
+  | 'task:created'
+  | 'task:updated'
+  | 'task:completed'
+  | 'task:deleted'
+  | 'task:overdue'
+  | 'task:due'
+  | 'reminder-triggered'
+  | 'pomodoro:sessionComplete';
+
+export interface Webhook {
+  id: string;
+  name: string;
+  url: string;
+  secret: string; // HMAC-SHA256 key for the X-Tasky-Signature header
+  events: WebhookEvent[];
+  enabled: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface WebhookInput {
+  name: string;
+  url: string;
+  events: WebhookEvent[];
+  enabled?: boolean;
+  secret?: string; // generated when a new webhook has none
+}
+
+// pending: waiting for its first or next attempt; dead: out of attempts (the dead-letter list)
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'dead';
+
+export interface WebhookDelivery {
+  id: number;
+  webhookId: string;
+  webhookName: string;
+  event: WebhookEvent;
+  body: string; // the exact JSON that is signed and sent
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt?: Date;
+  responseStatus?: number;
+  lastError?: string;
+  createdAt: Date;
+  deliveredAt?: Date;
+}
+
+export interface WebhookDeliveryFilter {
+  webhookId?: string;
+  status?: WebhookDeliveryStatus;
+  limit?: number;
+}
+
+// What a webhook receives
+export interface WebhookPayload<T = unknown> {
+  event: WebhookEvent;
+  occurredAt: string;
+  seq?: number; // position in the task event log, for task events
+  data: T;
+}
+
+export class WebhookValidationError extends Error {
+  constructor(message: string, public readonly field?: string) {
+    super(`Webhook validation failed: ${message}`);
+    this.name = 'WebhookValidationError';
+  }
+}
@@ -10,6 +10,12 @@ import { ReminderBridge } from './utils/reminder-bridge.js';
 const taskBridge = new TaskBridge();
 const reminderBridge = new ReminderBridge();
 
+// Status enums follow the workflow configured in the app, read once at startup
+const statusIds = taskBridge.getStatusIds() as [string, ...string[]];
+// list/update take lowercase names, plus 'cancelled' as an alias for ARCHIVED
+const statusNames = [...statusIds.map(s => s.toLowerCase()), 'cancelled'] as [string, ...string[]];
+const toStatusId = (status: string): string => (status.toLowerCase() === 'cancelled' ? 'ARCHIVED' : status.toUpperCase());
+
 // Create MCP server
 const server = new McpServer({
   name: 'tasky-mcp-agent',
@@ -32,8 +38,23 @@ server.tool(
     reminderTime: z.string().optional().describe('Reminder time in HH:MM format'),
     assignedAgent: z.enum(['claude', 'gemini']).optional().describe('Assigned AI agent'),
     executionPath: z.string().optional().describe('Path for task execution'),
+    parentId: z.string().optional().describe('ID of the parent task when creating a subtask'),
+    checklist: z.array(z.union([z.string(), z.object({ text: z.string(), done: z.boolean().optional() })])).optional().describe('Inline checklist items (strings or { text, done })'),
+    recurrence: z.union([
+      z.string(),
+      z.object({
+        frequency: z.enum(['daily', 'weekly', 'monthly']),
+        interval: z.number().int().positive().optional(),
+        byWeekday: z.array(z.enum(['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'])).optional(),
+        byMonthDay: z.number().int().optional(),
+        byNthWeekday: z.object({ weekday: z.enum(['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU']), nth: z.number().int() }).optional(),
+        until: z.string().optional(),
+        count: z.number().int().positive().optional(),
+      }),
+    ]).optional().describe('Recurrence as an RRULE string (e.g. "FREQ=WEEKLY;BYDAY=MO,WE") or rule object; completing the task creates the next instance'),
     // Legacy support
     random_string: z.string().optional().describe('If provided, used as title when title is missing'),
+    actor: z.enum(['mcp', 'chat']).optional().describe('Who is making the change, for the task history (defaults to mcp; the Tasky app chat sends chat)'),
   },
   async (args) => {
     try {
@@ -57,6 +78,10 @@ server.tool(
         reminderTime: args.reminderTime,
         assignedAgent,
         executionPath: args.executionPath,
+        parentId: args.parentId,
+        checklist: args.checklist,
+        actor: args.actor,
+        recurrence: args.recurrence,
       });
 
       // Return the CallToolResult directly
@@ -79,16 +104,22 @@ server.tool(
   'tasky_list_tasks',
   'List all Tasky tasks with optional filtering',
   {
-    status: z.enum(['pending', 'in_progress', 'completed', 'cancelled']).optional().describe('Filter by task status'),
+    status: z.enum(statusNames).optional().describe('Filter by task status'),
     tag: z.string().optional().describe('Filter by tag'),
     limit: z.number().optional().describe('Maximum number of tasks to return'),
+    offset: z.number().optional().describe('Number of matching tasks to skip'),
+    sortBy: z.enum(['dueDate', 'created', 'updated', 'title', 'status']).optional().describe('Sort field (default dueDate)'),
+    sortOrder: z.enum(['asc', 'desc']).optional().describe('Sort direction (default asc)'),
   },
   async (args) => {
     try {
       const result = await taskBridge.listTasks({
-        status: args.status,
+        status: args.status ? [toStatusId(args.status)] : undefined,
         tag: args.tag,
         limit: args.limit,
+        offset: args.offset,
+        sortBy: args.sortBy,
+        sortOrder: args.sortOrder,
       });
       return result;
     } catch (error) {
@@ -107,6 +138,133 @@ server.tool(
 
 
 
+server.tool(
+  'tasky_search_tasks',
+  'Full-text search over task titles, descriptions, tags and results, best matches first. Words match by prefix; wrap exact phrases in double quotes.',
+  {
+    query: z.string().describe('Search text, e.g. login "google oauth"'),
+    status: z.array(z.enum(statusIds)).optional().describe('Only tasks with these statuses'),
+    tags: z.array(z.string()).optional().describe('Only tasks with any of these tags'),
+    limit: z.number().optional().describe('Maximum number of results (default 20)'),
+    offset: z.number().optional().describe('Number of results to skip'),
+  },
+  async (args) => {
+    try {
+      return await taskBridge.searchTasks(args);
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error searching tasks: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+server.tool(
+  'tasky_create_from_template',
+  'Create a task (and its subtasks) from a saved Tasky template, filling in the template\'s {{variables}}. Due dates are set relative to now.',
+  {
+    template: z.string().describe('Template id or name, e.g. "Bug triage"'),
+    values: z.record(z.string()).optional().describe('Values for the template variables, e.g. {"bug": "Login fails"}'),
+    parentId: z.string().optional().describe('Create the new task as a subtask of this task'),
+    actor: z.enum(['mcp', 'chat']).optional().describe('Who is making the change, for the task history (defaults to mcp; the Tasky app chat sends chat)'),
+  },
+  async (args) => {
+    try {
+      return await taskBridge.createFromTemplate(args);
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error creating task from template: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+server.tool(
+  'tasky_start_timer',
+  'Start tracking time on a Tasky task. Only one timer runs at a time; starting one stops the timer on any other task.',
+  {
+    id: z.string().optional().describe('Task ID (optional if matchTitle provided)'),
+    matchTitle: z.string().optional().describe('Exact or approximate task title when id is not provided'),
+    actor: z.enum(['mcp', 'chat']).optional().describe('Who is making the change, for the task history (defaults to mcp; the Tasky app chat sends chat)'),
+  },
+  async (args) => {
+    try {
+      return await taskBridge.startTimer(args);
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error starting timer: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+server.tool(
+  'tasky_stop_timer',
+  'Stop the running Tasky timer and report the time tracked. Pass a task to stop only that task\'s timer.',
+  {
+    id: z.string().optional().describe('Only stop the timer if it is running on this task'),
+    matchTitle: z.string().optional().describe('Exact or approximate task title when id is not provided'),
+  },
+  async (args) => {
+    try {
+      return await taskBridge.stopTimer(args);
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error stopping timer: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+server.tool(
+  'tasky_list_events',
+  'List task events (created, updated, deleted, completed, overdue, due) from Tasky\'s event log, oldest first. Pass the returned cursor as after to get only newer events.',
+  {
+    after: z.number().optional().describe('Only events after this cursor (seq)'),
+    types: z.array(z.string()).optional().describe('Event names or patterns, e.g. task:completed or task:*'),
+    limit: z.number().optional().describe('Maximum number of events (default 100, at most 1000)'),
+  },
+  async (args) => {
+    try {
+      return await taskBridge.listEvents(args);
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error listing events: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
 server.tool(
   'tasky_update_task',
   'Update an existing Tasky task',
@@ -118,7 +276,7 @@ server.tool(
     title: z.string().optional().describe('Task title to match (alias for matchTitle when id is not provided). Prefer newTitle to change the title'),
     newTitle: z.string().optional().describe('New task title (use this to rename)'),
     description: z.string().optional().describe('New task description'),
-    status: z.enum(['pending', 'in_progress', 'completed', 'cancelled']).optional().describe('New task status'),
+    status: z.enum(statusNames).optional().describe('New task status (the workflow may only allow some moves)'),
     dueDate: z.string().optional().describe('New due date in ISO format'),
     tags: z.array(z.string()).optional().describe('New array of tag strings'),
     affectedFiles: z.array(z.string()).optional().describe('New array of file paths'),
@@ -128,10 +286,26 @@ server.tool(
     reminderTime: z.string().optional().describe('New reminder time in HH:MM format'),
     assignedAgent: z.enum(['claude', 'gemini']).optional().describe('New assigned AI agent'),
     executionPath: z.string().optional().describe('New path for task execution'),
+    parentId: z.string().nullable().optional().describe('New parent task ID (null to move the task to the top level)'),
+    checklist: z.array(z.union([z.string(), z.object({ id: z.string().optional(), text: z.string(), done: z.boolean().optional() })])).optional().describe('Replacement checklist (strings or { id, text, done })'),
+    recurrence: z.union([
+      z.string(),
+      z.object({
+        frequency: z.enum(['daily', 'weekly', 'monthly']),
+        interval: z.number().int().positive().optional(),
+        byWeekday: z.array(z.enum(['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'])).optional(),
+        byMonthDay: z.number().int().optional(),
+        byNthWeekday: z.object({ weekday: z.enum(['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU']), nth: z.number().int() }).optional(),
+        until: z.string().optional(),
+        count: z.number().int().positive().optional(),
+      }),
+    ]).nullable().optional().describe('New recurrence as an RRULE string (e.g. "FREQ=WEEKLY;BYDAY=MO,WE") or rule object (null stops repeating)'),
+    expectedVersion: z.number().int().positive().optional().describe('metadata.version of the task as you last read it; the update is rejected with the current copy if it changed since'),
+    actor: z.enum(['mcp', 'chat']).optional().describe('Who is making the change, for the task history (defaults to mcp; the Tasky app chat sends chat)'),
   },
   async (args) => {
     try {
-      let { id, matchTitle, title, newTitle, name, newName, ...updates } = args as any;
+      let { id, matchTitle, title, newTitle, name, newName, actor, ...updates } = args as any;
       // If no id/matchTitle but title is present along with other updates, use it as matchTitle
       if (!id && !matchTitle && title && Object.keys(updates).length > 0) {
         matchTitle = title;
@@ -150,16 +324,9 @@ server.tool(
         updates.title = args.title;
       }
       if (typeof updates.status === 'string') {
-        const s = updates.status.toLowerCase();
-        const map: Record<string, string> = {
-          pending: 'PENDING',
-          in_progress: 'IN_PROGRESS',
-          completed: 'COMPLETED',
-          cancelled: 'ARCHIVED'
-        };
-        updates.status = map[s] || updates.status.toUpperCase();
+        updates.status = toStatusId(updates.status);
       }
-      const result = await taskBridge.updateTask({ id, matchTitle, updates });
+      const result = await taskBridge.updateTask({ id, matchTitle, updates, actor });
       return result;
     } catch (error) {
       return {
@@ -177,10 +344,11 @@ server.tool(
 
 server.tool(
   'tasky_delete_task',
-  'Delete a Tasky task by ID or exact title',
+  'Move a Tasky task to the trash by ID or exact title (the user can restore it in the app)',
   {
     id: z.string().optional().describe('Task ID to delete'),
-    title: z.string().optional().describe('Exact task title to delete (used when id not provided)'),
+    title: z.string().optional().describe('Exact task title to delete (used when id not provided; close matches are listed, not deleted)'),
+    actor: z.enum(['mcp', 'chat']).optional().describe('Who is making the change, for the task history (defaults to mcp; the Tasky app chat sends chat)'),
   },
   async (args) => {
     try {
@@ -205,20 +373,21 @@ server.tool(
 
 server.tool(
   'tasky_execute_task',
-  'Execute a selected task by updating status to IN_PROGRESS or COMPLETED',
+  'Execute a selected task by updating status to IN_PROGRESS, or to NEEDS_REVIEW once the work is done (a reviewer approves it in Tasky to complete it)',
   {
     id: z.string().optional().describe('Task ID to execute (optional if title or matchTitle provided)'),
     matchTitle: z.string().optional().describe('Exact or approximate task title to identify the task'),
     title: z.string().optional().describe('Task title to match (alias for matchTitle). Also accepts natural phrases like "execute <title>"'),
     name: z.string().optional().describe('Alias for title'),
-    status: z.enum(['IN_PROGRESS', 'COMPLETED']).optional().describe('New task status (defaults to IN_PROGRESS)'),
+    status: z.enum(['IN_PROGRESS', 'NEEDS_REVIEW', 'COMPLETED']).optional().describe('New task status (defaults to IN_PROGRESS; COMPLETED is treated as NEEDS_REVIEW)'),
+    actor: z.enum(['mcp', 'chat']).optional().describe('Who is making the change, for the task history (defaults to mcp; the Tasky app chat sends chat)'),
   },
   async (args) => {
     try {
       // Normalize possible lowercase status inputs from models
       if (typeof (args as any).status === 'string') {
         const s = String((args as any).status).toLowerCase();
-        (args as any).status = s === 'completed' ? 'COMPLETED' : s === 'in_progress' ? 'IN_PROGRESS' : (args as any).status;
+        (args as any).status = s === 'completed' ? 'COMPLETED' : s === 'in_progress' ? 'IN_PROGRESS' : s === 'needs_review' ? 'NEEDS_REVIEW' : (args as any).status;
       }
       const result = await taskBridge.executeTask(args);
       return result;
@@ -380,10 +549,10 @@ server.tool(
 
 server.tool(
   'tasky_delete_reminder',
-  'Delete a Tasky reminder by ID or exact/approximate message',
+  'Move a Tasky reminder to the trash by ID or exact message (the user can restore it in the app)',
   {
     id: z.string().optional().describe('Reminder ID to delete'),
-    message: z.string().optional().describe('Exact or approximate reminder message to delete (used when id not provided)'),
+    message: z.string().optional().describe('Exact reminder message to delete (used when id not provided; close matches are listed, not deleted)'),
   },
   async (args) => {
     try {
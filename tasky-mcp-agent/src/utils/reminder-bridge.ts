@@ -3,6 +3,7 @@ import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
 // @ts-ignore - use runtime types only
 import Database from 'better-sqlite3';
 import path from 'path';
+import { moveToTrash, runMigrations } from '../../../src/core/index.js';
 
 type Reminder = {
   id: string;
@@ -28,19 +29,7 @@ export class ReminderBridge {
     const journal = requestedJournal === 'WAL' ? 'WAL' : 'DELETE';
     try { this.db.pragma(`journal_mode = ${journal}`); } catch {}
     try { this.db.pragma('synchronous = NORMAL'); } catch {}
-    this.db.exec(`
-      CREATE TABLE IF NOT EXISTS reminders (
-        id TEXT PRIMARY KEY,
-        message TEXT NOT NULL,
-        time TEXT NOT NULL,
-        days TEXT,
-        enabled INTEGER NOT NULL DEFAULT 1,
-        one_time INTEGER NOT NULL DEFAULT 0,
-        triggered_at TEXT,
-        created_at TEXT NOT NULL,
-        updated_at TEXT NOT NULL
-      );
-    `);
+    runMigrations(this.db, { dbPath: this.dbPath });
   }
 
   private genId(): string {
@@ -83,18 +72,6 @@ export class ReminderBridge {
     const nowIso = new Date().toISOString();
     const reminderId = this.genId();
     
-    // First check if the table has the one_time column
-    try {
-      this.db.exec(`ALTER TABLE reminders ADD COLUMN one_time INTEGER NOT NULL DEFAULT 0`);
-    } catch {
-      // Column already exists, ignore
-    }
-    try {
-      this.db.exec(`ALTER TABLE reminders ADD COLUMN triggered_at TEXT`);
-    } catch {
-      // Column already exists, ignore
-    }
-    
     try {
       this.db.prepare(`
         INSERT INTO reminders (id,message,time,days,enabled,one_time,created_at,updated_at)
@@ -205,26 +182,39 @@ export class ReminderBridge {
       };
       const normalize = (s: string) => sanitize(s).replace(/[^a-z0-9\s]/g, ' ').replace(/\s+/g, ' ').trim();
       const query = normalize(String(message));
-      let best: any = null; let bestScore = -1;
-      const score = (a: string, b: string) => {
-        a = normalize(a); b = normalize(b);
-        if (a === b) return 1;
-        if (a.includes(b) || b.includes(a)) return 0.9;
-        const as = new Set(a.split(/\s+/));
-        const bs = new Set(b.split(/\s+/));
-        const inter = [...as].filter(x => bs.has(x)).length;
-        const union = new Set([...as, ...bs]).size;
-        return union ? inter / union : 0;
-      };
-      for (const r of rows) {
-        const s = score(r.message, query);
-        if (s > bestScore) { best = r; bestScore = s; }
+      // Only an exact message deletes; anything looser lists the candidates so the caller can pick an id
+      const exact = rows.filter(r => normalize(r.message) === query);
+      if (exact.length === 1) current = exact[0];
+      else {
+        const score = (a: string, b: string) => {
+          a = normalize(a); b = normalize(b);
+          if (a.includes(b) || b.includes(a)) return 0.9;
+          const as = new Set(a.split(/\s+/));
+          const bs = new Set(b.split(/\s+/));
+          const inter = [...as].filter(x => bs.has(x)).length;
+          const union = new Set([...as, ...bs]).size;
+          return union ? inter / union : 0;
+        };
+        const candidates = exact.length > 1
+          ? exact
+          : rows.map(r => ({ ...r, s: score(r.message, query) })).filter(r => r.s >= 0.35).sort((a, b) => b.s - a.s).slice(0, 5);
+        if (candidates.length > 0) {
+          const list = candidates.map(r => `- "${r.message}" (id: ${r.id})`).join('\n');
+          const text = exact.length > 1
+            ? `${exact.length} reminders say "${message}"; nothing was deleted. Pass the id of the one to delete:\n${list}`
+            : `No reminder says exactly "${message}"; nothing was deleted. Pass the id of the one to delete:\n${list}`;
+          return { content: [{ type: 'text', text }], isError: true };
+        }
       }
-      if (best && bestScore >= 0.35) current = best;
     }
     if (!current) return { content: [{ type: 'text', text: 'Provide id or message; reminder not found' }], isError: true };
 
-    const info = this.db.prepare('DELETE FROM reminders WHERE id = ?').run(current.id);
+    // Goes to the app's trash, so it can be restored
+    const reminder: Reminder = { id: current.id, message: current.message, time: current.time, days: current.days ? JSON.parse(current.days) : [], enabled: !!current.enabled };
+    const info = this.db.transaction(() => {
+      moveToTrash(this.db, 'reminder', current.id, current.message, reminder);
+      return this.db.prepare('DELETE FROM reminders WHERE id = ?').run(current.id);
+    })();
     if (!info.changes) return { content: [{ type: 'text', text: 'Reminder not found' }], isError: true };
 
     return {
@@ -236,7 +226,7 @@ export class ReminderBridge {
               kind: 'result',
               tool: 'tasky_delete_reminder',
               status: 'success',
-              data: { success: true, id: current.id, title: current.message },
+              data: { success: true, id: current.id, title: current.message, trashed: true },
               meta: { operation: 'delete', timestamp: new Date().toISOString() }
             }
           })
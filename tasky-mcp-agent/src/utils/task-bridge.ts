@@ -3,38 +3,42 @@ import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
 // @ts-ignore - use runtime types only
 import Database from 'better-sqlite3';
 import path from 'path';
-import { format } from 'date-fns';
-import { v4 as uuidv4 } from 'uuid';
-
-type TaskStatus = 'PENDING' | 'IN_PROGRESS' | 'COMPLETED' | 'NEEDS_REVIEW' | 'ARCHIVED';
-
-type TaskyTask = {
-  schema: {
-    id: string;
-    title: string;
-    description?: string;
-    dueDate?: Date;
-    createdAt: Date;
-    updatedAt?: Date;
-    tags?: string[];
-    affectedFiles?: string[];
-    estimatedDuration?: number;
-    dependencies?: string[];
-    assignedAgent?: string;
-    executionPath?: string;
-  };
-  status: TaskStatus;
-  humanApproved: boolean;
-  result?: string;
-  completedAt?: Date;
-  reminderEnabled?: boolean;
-  reminderTime?: string;
-  metadata?: any;
-};
+import { SEARCH_HIGHLIGHT_END, SEARCH_HIGHLIGHT_START, SqliteTaskStorage, TaskStatus, TaskyEngine, describeDurationSuggestion, readWorkflow } from '../../../src/core/index.js';
+import type { CreateTaskInput, TaskActor, TaskFilterOptions, TaskyTask, UpdateTaskInput } from '../../../src/core/index.js';
+
+// MCP adapter over the shared TaskyEngine: resolves loose arguments (titles, date strings)
+// and shapes engine results into tool output. Validation and business rules live in src/core.
+
+const errorResult = (text: string): CallToolResult => ({ content: [{ type: 'text', text }], isError: true });
+
+const DEFAULT_SEARCH_LIMIT = 20;
+const DEFAULT_EVENT_LIMIT = 100;
+
+// Search snippets mark matches with control characters; chat renders markdown
+const toMarkdownHighlights = (snippet: string): string =>
+  snippet.split(SEARCH_HIGHLIGHT_START).join('**').split(SEARCH_HIGHLIGHT_END).join('**');
+
+// The app's chat passes actor 'chat'; everything else is an external MCP client
+const toActor = (value: unknown): TaskActor => (value === 'chat' ? 'chat' : 'mcp');
+
+type TitleRow = { id: string; title: string };
+
+// Titles compare without case, quotes or punctuation
+const normalizeTitle = (s: string): string =>
+  String(s || '').toLowerCase().replace(/["']/g, '').replace(/[^a-z0-9\s]/g, ' ').replace(/\s+/g, ' ').trim();
+
+// Lowest matchTitle score a loose title may resolve to (or, for deletes, be offered at)
+const CLOSE_MATCH_SCORE = 0.35;
+
+// MCP clients may send checklist items as plain strings
+const toChecklistInput = (items: any): CreateTaskInput['checklist'] =>
+  Array.isArray(items) ? items.map((item: any) => (typeof item === 'string' ? { text: item } : item)) : undefined;
 
 export class TaskBridge {
   private dbPath: string;
   private db: Database.Database;
+  private engine: TaskyEngine;
+  private ready: Promise<{ success: boolean; error?: string; message?: string }>;
 
   constructor(_tasksPath?: string) {
     // Always use SQLite DB shared with Electron app
@@ -48,45 +52,67 @@ export class TaskBridge {
     try { this.db.pragma(`journal_mode = ${journal}`); } catch {}
     try { this.db.pragma('synchronous = NORMAL'); } catch {}
     try { this.db.pragma('foreign_keys = ON'); } catch {}
-    this.db.exec(`
-      CREATE TABLE IF NOT EXISTS tasks (
-        id TEXT PRIMARY KEY,
-        title TEXT NOT NULL,
-        description TEXT,
-        status TEXT NOT NULL CHECK(status IN ('PENDING','IN_PROGRESS','COMPLETED','NEEDS_REVIEW','ARCHIVED')),
-        created_at TEXT NOT NULL,
-        updated_at TEXT NOT NULL,
-        due_date TEXT,
-        human_approved INTEGER NOT NULL DEFAULT 0,
-        reminder_enabled INTEGER NOT NULL DEFAULT 0,
-        result TEXT,
-        completed_at TEXT,
-        assigned_agent TEXT,
-        execution_path TEXT,
-        metadata TEXT
-      );
-      CREATE TABLE IF NOT EXISTS task_tags (
-        task_id TEXT NOT NULL,
-        tag TEXT NOT NULL,
-        PRIMARY KEY(task_id, tag),
-        FOREIGN KEY(task_id) REFERENCES tasks(id) ON DELETE CASCADE
-      );
-      CREATE INDEX IF NOT EXISTS idx_tasks_status ON tasks(status);
-      CREATE INDEX IF NOT EXISTS idx_tasks_created ON tasks(created_at);
-      CREATE INDEX IF NOT EXISTS idx_tasks_due ON tasks(due_date);
-    `);
+    this.engine = new TaskyEngine(undefined, new SqliteTaskStorage(this.dbPath, this.db));
+    this.ready = this.engine.initialize();
+  }
+
+  /**
+   * Wait for the engine's first load; surfaces schema/migration errors on every call
+   */
+  private async ensureReady(): Promise<string | null> {
+    const result = await this.ready;
+    return result.success ? null : (result.error || result.message || 'Failed to open Tasky database');
+  }
+
+  /**
+   * Status ids of the configured workflow in board order. Synchronous so the server can build its
+   * tool schemas at startup; falls back to the built-in statuses if the database can't be read.
+   */
+  getStatusIds(): string[] {
+    try {
+      return readWorkflow(this.db).statuses.map(s => s.id);
+    } catch {
+      return Object.values(TaskStatus);
+    }
   }
 
-  private generateTaskId(title: string): string {
-    const prefix = String(title)
-      .toLowerCase()
-      .replace(/[^a-z0-9\s]/g, '')
-      .split(' ')
-      .slice(0, 3)
-      .join('_');
-    const timestamp = format(new Date(), 'yyyyMMdd_HHmmss');
-    const uuid = uuidv4().slice(0, 8);
-    return `${prefix}_${timestamp}_${uuid}`;
+  private async listTitles(): Promise<TitleRow[]> {
+    const result = await this.engine.getTasks();
+    return (result.data || []).map(t => ({ id: t.schema.id, title: t.schema.title }));
+  }
+
+  /**
+   * Tasks whose title equals `query` once case and punctuation are ignored, and every task
+   * ranked by how close its title is (0.9 for a substring, else word overlap), best first
+   */
+  private async matchTitle(query: string): Promise<{ exact: TitleRow[]; ranked: Array<TitleRow & { score: number }> }> {
+    const q = normalizeTitle(query);
+    const rows = await this.listTitles();
+    const score = (title: string) => {
+      const a = normalizeTitle(title);
+      if (a.includes(q) || q.includes(a)) return 0.9;
+      const as = new Set(a.split(/\s+/));
+      const qs = new Set(q.split(/\s+/));
+      const inter = [...as].filter(x => qs.has(x)).length;
+      const union = new Set([...as, ...qs]).size;
+      return union ? inter / union : 0;
+    };
+    return {
+      exact: rows.filter(r => normalizeTitle(r.title) === q),
+      ranked: rows.map(r => ({ ...r, score: score(r.title) })).sort((a, b) => b.score - a.score)
+    };
+  }
+
+  /**
+   * Resolve a loosely typed task title to an id, preferring an exact match. Returns an error
+   * result with the closest title when nothing matches well enough.
+   */
+  private async resolveTitle(query: string): Promise<{ id?: string; error?: CallToolResult }> {
+    const { exact, ranked } = await this.matchTitle(query);
+    if (exact.length > 0) return { id: exact[0].id };
+    const best = ranked[0];
+    if (best && best.score >= CLOSE_MATCH_SCORE) return { id: best.id };
+    return { error: errorResult(best ? `Task not found. Did you mean "${best.title}"?` : 'Task not found') };
   }
 
   /**
@@ -100,38 +126,32 @@ export class TaskBridge {
 
   async createTask(args: any): Promise<CallToolResult> {
     if (!args?.title || typeof args.title !== 'string') {
-      return { content: [{ type: 'text', text: 'title is required' }], isError: true };
+      return errorResult('title is required');
     }
-    const now = new Date();
-    const id = this.generateTaskId(args.title);
-    const t = this.db.transaction(() => {
-      this.db.prepare(`
-        INSERT INTO tasks (id,title,description,status,created_at,updated_at,due_date,human_approved,reminder_enabled,result,completed_at,assigned_agent,execution_path,metadata)
-        VALUES (@id,@title,@description,@status,@created_at,@updated_at,@due_date,@human_approved,@reminder_enabled,@result,@completed_at,@assigned_agent,@execution_path,@metadata)
-      `).run({
-        id,
-        title: args.title,
-        description: args.description || null,
-      status: 'PENDING',
-        created_at: now.toISOString(),
-        updated_at: now.toISOString(),
-        due_date: args.dueDate ? new Date(args.dueDate).toISOString() : null,
-        human_approved: 0,
-        reminder_enabled: args.reminderEnabled ? 1 : 0,
-        result: null,
-        completed_at: null,
-        assigned_agent: args.assignedAgent || null,
-        execution_path: args.executionPath || null,
-        metadata: JSON.stringify({ version: 1, createdBy: 'tasky-mcp', lastModified: now })
-      });
-      // Tags
-      if (Array.isArray(args.tags)) {
-        const ins = this.db.prepare('INSERT INTO task_tags (task_id, tag) VALUES (?,?)');
-        for (const tag of args.tags) ins.run(id, String(tag));
-      }
-    });
-    t();
-    
+    const notReady = await this.ensureReady();
+    if (notReady) return errorResult(notReady);
+
+    const input: CreateTaskInput = {
+      title: args.title,
+      description: args.description,
+      dueDate: args.dueDate ? new Date(args.dueDate) : undefined,
+      tags: Array.isArray(args.tags) ? args.tags.map((tag: any) => String(tag)) : [],
+      affectedFiles: Array.isArray(args.affectedFiles) ? args.affectedFiles.map((f: any) => String(f).trim()).filter(Boolean) : [],
+      estimatedDuration: typeof args.estimatedDuration === 'number' ? args.estimatedDuration : undefined,
+      dependencies: Array.isArray(args.dependencies) ? args.dependencies.map((d: any) => String(d)) : [],
+      reminderEnabled: !!args.reminderEnabled,
+      reminderTime: args.reminderTime,
+      assignedAgent: args.assignedAgent,
+      executionPath: args.executionPath,
+      parentId: args.parentId || undefined,
+      checklist: toChecklistInput(args.checklist),
+      recurrence: args.recurrence || undefined,
+      createdBy: 'tasky-mcp',
+      actor: toActor(args.actor)
+    };
+    const result = await this.engine.createTask(input);
+    if (!result.success || !result.data) return errorResult(result.error || result.message || 'Failed to create task');
+
     // Notify the main application about the created task
     try {
       await this.notifyTaskCreated(args.title, args.description);
@@ -139,8 +159,12 @@ export class TaskBridge {
       // Don't fail the task creation if notification fails
       process.stderr.write(Buffer.from(`Failed to send task creation notification: ${error}\n`, 'utf8'));
     }
-    
-    const created = await this.getTask({ id });
+
+    // Say how long similar tasks actually took; the task keeps the estimate it was given. The line
+    // goes before the task JSON, which chat cards read from the end of the output.
+    const created = this.taskResult(result.data);
+    const suggestion = await this.engine.suggestDuration(result.data.schema);
+    if (suggestion.data) created.content.splice(1, 0, { type: 'text', text: describeDurationSuggestion(suggestion.data) });
     return created;
   }
 
@@ -148,7 +172,7 @@ export class TaskBridge {
     const { id: idArg, matchTitle, updates } = args || {};
     let id = idArg;
     if (!id && matchTitle) {
-      const rows: any[] = this.db.prepare('SELECT id, title FROM tasks').all();
+      const rows = await this.listTitles();
       const sanitize = (s: string) => {
         let q = String(s || '').toLowerCase().trim();
         q = q.replace(/["']/g, '');
@@ -185,74 +209,40 @@ export class TaskBridge {
       }
     }
     if (!id) return { content: [{ type: 'text', text: 'Provide id or matchTitle for the task' }], isError: true };
-    const current = await this.getTask({ id });
-    if ((current as any).isError) return current;
-    const now = new Date();
-    const prev = JSON.parse((current as any).content[1].text) as TaskyTask;
-    const nextStatus: TaskStatus | undefined = updates?.status;
-    const completedAt = nextStatus === 'COMPLETED' && prev.status !== 'COMPLETED' ? now : prev.completedAt;
-
-    const schemaFields = ['title','description','dueDate','assignedAgent','executionPath'] as const;
-    const topFields = ['status','reminderEnabled','result'] as const;
-
-    const nextSchema: any = { ...prev.schema };
-    for (const k of schemaFields) {
-      if (k in updates) {
-        nextSchema[k] = k === 'dueDate' && updates[k] ? new Date(updates[k]) : updates[k];
-      }
-    }
-    const nextTop: any = { ...prev };
-    for (const k of topFields) {
-      if (k in updates) nextTop[k] = updates[k];
+    const notReady = await this.ensureReady();
+    if (notReady) return errorResult(notReady);
+
+    const changes: UpdateTaskInput = { ...(updates || {}), actor: toActor(args?.actor) };
+    if ('dueDate' in changes) changes.dueDate = changes.dueDate ? new Date(changes.dueDate as any) : undefined;
+    if ('checklist' in changes) changes.checklist = toChecklistInput(changes.checklist);
+
+    const result = await this.engine.updateTask(id, changes);
+    if (result.conflict) {
+      // Hand back the current copy so the caller can re-apply its change on top of it
+      const { actualVersion, current } = result.conflict;
+      const content: any[] = [{ type: 'text', text: `Conflict: ${result.error}. Re-read the task and retry with expectedVersion ${actualVersion}.` }];
+      if (current) content.push({ type: 'text', text: JSON.stringify(current) });
+      return { content, isError: true };
     }
+    if (!result.success || !result.data) return errorResult(result.error || result.message || 'Failed to update task');
 
-    const t = this.db.transaction(() => {
-      this.db.prepare(`
-        UPDATE tasks SET
-          title=@title,
-          description=@description,
-          status=@status,
-          updated_at=@updated_at,
-          due_date=@due_date,
-          human_approved=@human_approved,
-          reminder_enabled=@reminder_enabled,
-          result=@result,
-          completed_at=@completed_at,
-          assigned_agent=@assigned_agent,
-          execution_path=@execution_path,
-          metadata=@metadata
-        WHERE id=@id
-      `).run({
-        id,
-        title: nextSchema.title,
-        description: nextSchema.description || null,
-        status: nextStatus ?? prev.status,
-        updated_at: now.toISOString(),
-        due_date: nextSchema.dueDate ? new Date(nextSchema.dueDate).toISOString() : null,
-        human_approved: prev.humanApproved ? 1 : 0,
-        reminder_enabled: nextTop.reminderEnabled ? 1 : 0,
-        result: nextTop.result || null,
-        completed_at: completedAt ? (completedAt instanceof Date ? completedAt.toISOString() : completedAt) : null,
-        assigned_agent: nextSchema.assignedAgent || null,
-        execution_path: nextSchema.executionPath || null,
-        metadata: JSON.stringify({ ...(prev.metadata || {}), lastModified: now })
-      });
-      // Tags
-      if (Array.isArray(updates?.tags)) {
-        this.db.prepare('DELETE FROM task_tags WHERE task_id = ?').run(id);
-        const ins = this.db.prepare('INSERT INTO task_tags (task_id, tag) VALUES (?,?)');
-        for (const tag of updates.tags) ins.run(id, String(tag));
-      }
-    });
-    t();
-    return this.getTask({ id });
+    // The engine's message says when the next occurrence of a completed recurring task is due
+    const task = result.data;
+    const lines = [
+      `Task ${task.schema.id}: ${task.schema.title}`,
+      ...(result.message ? [result.message] : []),
+      ...(result.warnings || []).map(w => `Warning: ${w}`)
+    ];
+    return { content: [ { type: 'text', text: lines.join('\n') }, { type: 'text', text: JSON.stringify(task) } ] as any };
   }
 
   async deleteTask(args: any): Promise<CallToolResult> {
+    const notReady = await this.ensureReady();
+    if (notReady) return errorResult(notReady);
+
     const { id: idArg, title } = args || {};
     let id = idArg;
     if (!id && title) {
-      const rows: any[] = this.db.prepare('SELECT id, title FROM tasks').all();
       const sanitize = (s: string) => {
         let q = String(s || '').toLowerCase().trim();
         q = q.replace(/["']/g, '');
@@ -261,44 +251,28 @@ export class TaskBridge {
         q = q.replace(/^(delete|remove)\s+/, '').trim();
         return q.trim();
       };
-      const normalize = (s: string) => sanitize(s).replace(/[^a-z0-9\s]/g, ' ').replace(/\s+/g, ' ').trim();
-      const qRaw = sanitize(String(title));
-      const q = normalize(qRaw);
-      const exact = rows.find(r => normalize(r.title) === q);
-      if (exact) id = exact.id;
+      // Only an exact title deletes; anything looser lists the candidates so the caller can pick an id
+      const { exact, ranked } = await this.matchTitle(sanitize(String(title)));
+      if (exact.length === 1) id = exact[0].id;
       else {
-        const score = (a: string, b: string) => {
-          a = normalize(a); b = normalize(b);
-          if (a === b) return 1;
-          if (a.includes(b) || b.includes(a)) return 0.9;
-          const as = new Set(a.split(/\s+/));
-          const bs = new Set(b.split(/\s+/));
-          const inter = [...as].filter(x => bs.has(x)).length;
-          const union = new Set([...as, ...bs]).size;
-          return union ? inter / union : 0;
-        };
-        let best: { id: string; title: string; s: number } | null = null;
-        for (const r of rows) {
-          const s = score(r.title, q);
-          if (!best || s > best.s) best = { id: r.id, title: r.title, s };
-        }
-        if (best && best.s >= 0.35) id = best.id;
-        else if (best) {
-          return { content: [{ type: 'text', text: `Task not found. Did you mean "${best.title}"?` }], isError: true };
-        }
+        const candidates = exact.length > 1 ? exact : ranked.filter(r => r.score >= CLOSE_MATCH_SCORE).slice(0, 5);
+        if (candidates.length === 0) return errorResult('Task not found');
+        const list = candidates.map(r => `- "${r.title}" (id: ${r.id})`).join('\n');
+        return errorResult(exact.length > 1
+          ? `${exact.length} tasks are titled "${title}"; nothing was deleted. Pass the id of the one to delete:\n${list}`
+          : `No task is titled exactly "${title}"; nothing was deleted. Pass the id of the one to delete:\n${list}`);
       }
     }
     if (!id) return { content: [{ type: 'text', text: 'Provide id or title' }], isError: true };
-    
-    const task: any = this.db.prepare('SELECT id, title, status FROM tasks WHERE id = ?').get(id);
-    if (!task) return { content: [{ type: 'text', text: 'Task not found' }], isError: true };
-    
-    const t = this.db.transaction(() => {
-      this.db.prepare('DELETE FROM task_tags WHERE task_id = ?').run(id);
-      this.db.prepare('DELETE FROM tasks WHERE id = ?').run(id);
-    });
-    t();
-    
+
+    const existing = await this.engine.getTask(id);
+    if (!existing.success || !existing.data) return errorResult('Task not found');
+    const task = existing.data;
+
+    // The engine promotes subtasks and unlinks dependents; the task itself goes to the trash
+    const result = await this.engine.deleteTask(id, toActor(args?.actor));
+    if (!result.success) return errorResult(result.error || result.message || 'Failed to delete task');
+
     return {
       content: [
         {
@@ -308,7 +282,7 @@ export class TaskBridge {
               kind: 'result',
               tool: 'tasky_delete_task',
               status: 'success',
-              data: { success: true, id: task.id, title: task.title, status: task.status },
+              data: { success: true, id: task.schema.id, title: task.schema.title, status: task.status, trashed: true },
               meta: { operation: 'delete', timestamp: new Date().toISOString() }
             }
           })
@@ -319,88 +293,89 @@ export class TaskBridge {
 
   async getTask(args: any): Promise<CallToolResult> {
     const { id } = args || {};
-    if (!id) return { content: [{ type: 'text', text: 'id is required' }], isError: true };
-    const row: any = this.db.prepare('SELECT * FROM tasks WHERE id = ?').get(id);
-    if (!row) return { content: [{ type: 'text', text: 'Task not found' }], isError: true };
-    const tags = this.db.prepare('SELECT tag FROM task_tags WHERE task_id = ?').all(id).map((r: any) => r.tag);
-    const task: TaskyTask = {
-      schema: {
-        id: row.id,
-        title: row.title,
-        description: row.description || undefined,
-        dueDate: row.due_date ? new Date(row.due_date) : undefined,
-        createdAt: new Date(row.created_at),
-        updatedAt: new Date(row.updated_at),
-        tags,
-        affectedFiles: [],
-        estimatedDuration: undefined,
-        dependencies: [],
-        assignedAgent: row.assigned_agent || undefined,
-        executionPath: row.execution_path || undefined
-      },
-      status: row.status,
-      humanApproved: !!row.human_approved,
-      result: row.result || undefined,
-      completedAt: row.completed_at ? new Date(row.completed_at) : undefined,
-      reminderEnabled: !!row.reminder_enabled,
-      metadata: row.metadata ? JSON.parse(row.metadata) : undefined
-    };
+    if (!id) return errorResult('id is required');
+    const notReady = await this.ensureReady();
+    if (notReady) return errorResult(notReady);
+    const result = await this.engine.getTask(id);
+    if (!result.success || !result.data) return errorResult('Task not found');
+    return this.taskResult(result.data);
+  }
+
+  private taskResult(task: TaskyTask): CallToolResult {
     const summary = `Task ${task.schema.id}: ${task.schema.title}`;
     return { content: [ { type: 'text', text: summary }, { type: 'text', text: JSON.stringify(task) } ] as any };
   }
 
   async listTasks(args: any): Promise<CallToolResult> {
-    const rows: any[] = this.db.prepare('SELECT * FROM tasks').all();
-    const tagsRows: any[] = this.db.prepare('SELECT task_id, tag FROM task_tags').all();
-    const idToTags: Record<string, string[]> = {};
-    for (const r of tagsRows) (idToTags[r.task_id] ||= []).push(r.tag);
-    let tasks: TaskyTask[] = rows.map((r) => ({
-      schema: {
-        id: r.id,
-        title: r.title,
-        description: r.description || undefined,
-        dueDate: r.due_date ? new Date(r.due_date) : undefined,
-        createdAt: new Date(r.created_at),
-        updatedAt: new Date(r.updated_at),
-        tags: idToTags[r.id] || [],
-        affectedFiles: [],
-        estimatedDuration: undefined,
-        dependencies: [],
-        assignedAgent: r.assigned_agent || undefined,
-        executionPath: r.execution_path || undefined
-      },
-      status: r.status,
-      humanApproved: !!r.human_approved,
-      reminderEnabled: !!r.reminder_enabled,
-      result: r.result || undefined,
-      completedAt: r.completed_at ? new Date(r.completed_at) : undefined,
-      metadata: r.metadata ? JSON.parse(r.metadata) : undefined
-    }));
-
-    if (Array.isArray(args?.status) && args.status.length) tasks = tasks.filter(t => args.status.includes(t.status));
-    if (Array.isArray(args?.tags) && args.tags.length) tasks = tasks.filter(t => (t.schema.tags || []).some((tag) => args.tags.includes(tag)));
-    if (args?.search) {
-      const s = String(args.search).toLowerCase();
-      tasks = tasks.filter(t => t.schema.title.toLowerCase().includes(s) || (t.schema.description || '').toLowerCase().includes(s));
-    }
-    if (args?.dueDateFrom) {
-      const from = new Date(args.dueDateFrom).getTime();
-      tasks = tasks.filter(t => t.schema.dueDate && t.schema.dueDate.getTime() >= from);
-    }
-    if (args?.dueDateTo) {
-      const to = new Date(args.dueDateTo).getTime();
-      tasks = tasks.filter(t => t.schema.dueDate && t.schema.dueDate.getTime() <= to);
-    }
-    tasks.sort((a, b) => {
-      if (a.schema.dueDate && b.schema.dueDate) return a.schema.dueDate.getTime() - b.schema.dueDate.getTime();
-      if (a.schema.dueDate) return -1;
-      if (b.schema.dueDate) return 1;
-      return b.schema.createdAt.getTime() - a.schema.createdAt.getTime();
+    const notReady = await this.ensureReady();
+    if (notReady) return errorResult(notReady);
+    const filters: TaskFilterOptions = {
+      status: Array.isArray(args?.status) && args.status.length ? args.status as TaskStatus[] : undefined,
+      tags: Array.isArray(args?.tags) && args.tags.length ? args.tags : undefined,
+      search: args?.search ? String(args.search) : undefined,
+      dueDateFrom: args?.dueDateFrom ? new Date(args.dueDateFrom) : undefined,
+      dueDateTo: args?.dueDateTo ? new Date(args.dueDateTo) : undefined,
+      sortBy: args?.sortBy || undefined,
+      sortOrder: args?.sortOrder || undefined,
+      limit: args?.limit ?? undefined,
+      offset: args?.offset || undefined
+    };
+    const result = await this.engine.queryTasks(filters);
+    if (!result.success || !result.data) return errorResult(result.error || 'Failed to list tasks');
+    const { tasks, total } = result.data;
+    return { content: [ { type: 'text', text: `Returned ${tasks.length} of ${total} tasks` }, { type: 'text', text: JSON.stringify(tasks) } ] as any };
+  }
+
+  async searchTasks(args: any): Promise<CallToolResult> {
+    const notReady = await this.ensureReady();
+    if (notReady) return errorResult(notReady);
+    const query = String(args?.query || '').trim();
+    if (!query) return errorResult('query is required');
+    const filters: TaskFilterOptions = {
+      status: Array.isArray(args?.status) && args.status.length ? args.status as TaskStatus[] : undefined,
+      tags: Array.isArray(args?.tags) && args.tags.length ? args.tags : undefined,
+      limit: args?.limit ?? DEFAULT_SEARCH_LIMIT,
+      offset: args?.offset || undefined
+    };
+    const result = await this.engine.searchTasks(query, filters);
+    if (!result.success || !result.data) return errorResult(result.error || 'Failed to search tasks');
+    const { hits, total } = result.data;
+    const shown = hits.map(hit => ({ ...hit, snippet: hit.snippet ? toMarkdownHighlights(hit.snippet) : undefined }));
+    const summary = `Found ${total} task${total === 1 ? '' : 's'} matching "${query}"${hits.length < total ? ` (showing ${hits.length})` : ''}`;
+    const lines = shown.map((hit, i) => `${i + 1}. ${hit.task.schema.title} [${hit.task.status}] (${hit.task.schema.id})${hit.snippet ? ` - ${hit.snippet}` : ''}`);
+    return { content: [ { type: 'text', text: [summary, ...lines].join('\n') }, { type: 'text', text: JSON.stringify(shown) } ] as any };
+  }
+
+  async createFromTemplate(args: any): Promise<CallToolResult> {
+    const template = String(args?.template || '').trim();
+    if (!template) return errorResult('template is required');
+    const notReady = await this.ensureReady();
+    if (notReady) return errorResult(notReady);
+
+    const values = args?.values && typeof args.values === 'object'
+      ? Object.fromEntries(Object.entries(args.values).map(([k, v]) => [k, String(v)]))
+      : {};
+    const result = await this.engine.createFromTemplate(template, {
+      values,
+      parentId: args?.parentId || undefined,
+      createdBy: 'tasky-mcp',
+      actor: toActor(args?.actor)
     });
-    const offset = args?.offset || 0;
-    const limit = args?.limit || tasks.length;
-    const page = tasks.slice(offset, offset + limit);
-    return { content: [ { type: 'text', text: `Returned ${page.length} of ${tasks.length} tasks` }, { type: 'text', text: JSON.stringify(page) } ] as any };
+    if (!result.success || !result.data) {
+      // Name the choices so the caller can retry with a valid template
+      const known = (await this.engine.getTemplates()).data || [];
+      const hint = known.length > 0 && /not found/.test(result.error || '') ? ` (templates: ${known.map(t => t.name).join(', ')})` : '';
+      return errorResult(`${result.error || 'Failed to create task from template'}${hint}`);
+    }
+
+    const { task, subtasks } = result.data;
+    await this.notifyTaskCreated(task.schema.title, task.schema.description);
+    const lines = [
+      `Task ${task.schema.id}: ${task.schema.title}`,
+      ...subtasks.map(s => `  - ${s.schema.title} (${s.schema.id})`),
+      ...(result.warnings || []).map(w => `Warning: ${w}`)
+    ];
+    return { content: [ { type: 'text', text: lines.join('\n') }, { type: 'text', text: JSON.stringify(result.data) } ] as any };
   }
 
   async executeTask(args: any): Promise<CallToolResult> {
@@ -408,7 +383,7 @@ export class TaskBridge {
 
     // Resolve by approximate title if id is missing
     if (!id && (matchTitle || title || name)) {
-      const rows: any[] = this.db.prepare('SELECT id, title FROM tasks').all();
+      const rows = await this.listTitles();
       const sanitize = (s: string) => {
         let q = String(s || '').toLowerCase().trim();
         q = q.replace(/["']/g, '');
@@ -451,7 +426,8 @@ export class TaskBridge {
       if (!task) return { content: [{ type: 'text', text: 'Failed to get task details for execution' }], isError: true };
 
       const prevStatus = task.status as TaskStatus;
-      const desiredStatus: TaskStatus = (status === 'COMPLETED' ? 'COMPLETED' : 'IN_PROGRESS');
+      // Finished agent work waits for a reviewer in the Tasky app; COMPLETED is accepted as an alias
+      const desiredStatus: TaskStatus = (status === 'NEEDS_REVIEW' || status === 'COMPLETED' ? TaskStatus.NEEDS_REVIEW : TaskStatus.IN_PROGRESS);
 
       // Try to delegate to main Tasky app for full execution
       let delegated = false;
@@ -469,7 +445,7 @@ export class TaskBridge {
         delegated = true;
       } catch (httpError) {
         // Fallback: just update status locally
-        const res = await this.updateTask({ id, updates: { status: desiredStatus } });
+        const res = await this.updateTask({ id, updates: { status: desiredStatus }, actor: args?.actor });
         if (res.isError) return res;
       }
 
@@ -496,6 +472,59 @@ export class TaskBridge {
       return { content: [{ type: 'text', text: `Error executing task: ${errorMsg}` }], isError: true };
     }
   }
+
+  async startTimer(args: any): Promise<CallToolResult> {
+    const notReady = await this.ensureReady();
+    if (notReady) return errorResult(notReady);
+    let id = args?.id ? String(args.id) : undefined;
+    if (!id && args?.matchTitle) {
+      const resolved = await this.resolveTitle(String(args.matchTitle));
+      if (resolved.error) return resolved.error;
+      id = resolved.id;
+    }
+    if (!id) return errorResult('Provide id or matchTitle');
+
+    // Only one timer runs at a time; the engine stops the previous one and warns about it
+    const result = await this.engine.startTimer(id, toActor(args?.actor));
+    if (!result.success || !result.data) return errorResult(result.error || 'Failed to start timer');
+    const lines = [result.message || 'Timer started', ...(result.warnings || []).map(w => `Warning: ${w}`)];
+    return { content: [ { type: 'text', text: lines.join('\n') }, { type: 'text', text: JSON.stringify(result.data) } ] as any };
+  }
+
+  async stopTimer(args: any): Promise<CallToolResult> {
+    const notReady = await this.ensureReady();
+    if (notReady) return errorResult(notReady);
+    let id = args?.id ? String(args.id) : undefined;
+    if (!id && args?.matchTitle) {
+      const resolved = await this.resolveTitle(String(args.matchTitle));
+      if (resolved.error) return resolved.error;
+      id = resolved.id;
+    }
+
+    // Without a task, whichever timer is running is stopped
+    const result = await this.engine.stopTimer(id);
+    if (!result.success) return errorResult(result.error || 'Failed to stop timer');
+    const content: any[] = [{ type: 'text', text: result.message || 'Timer stopped' }];
+    if (result.data) content.push({ type: 'text', text: JSON.stringify(result.data) });
+    return { content };
+  }
+
+  async listEvents(args: any): Promise<CallToolResult> {
+    const notReady = await this.ensureReady();
+    if (notReady) return errorResult(notReady);
+    const result = await this.engine.getEvents({
+      after: args?.after ?? undefined,
+      types: Array.isArray(args?.types) && args.types.length ? args.types : undefined,
+      limit: args?.limit ?? DEFAULT_EVENT_LIMIT
+    });
+    if (!result.success || !result.data) return errorResult(result.error || 'Failed to list events');
+    const events = result.data;
+    // Hand back the cursor so the caller can resume from where this page ended
+    const cursor = events.length > 0 ? events[events.length - 1].seq : args?.after ?? 0;
+    const summary = events.length === 0 ? 'No new events' : `${events.length} event${events.length === 1 ? '' : 's'} (next cursor: ${cursor})`;
+    const lines = events.map(e => `${e.seq}. ${e.emittedAt.toISOString()} ${e.type} ${e.taskId}`);
+    return { content: [ { type: 'text', text: [summary, ...lines].join('\n') }, { type: 'text', text: JSON.stringify({ cursor, events }) } ] as any };
+  }
 }
 
 